@@ -18,6 +18,9 @@ export async function GET() {
       "marketplace_post_bounty",
       "marketplace_bid",
       "marketplace_approve_delivery",
+      "marketplace_list_milestones",
+      "marketplace_submit_milestone",
+      "marketplace_review_milestone",
     ],
     documentation: `${baseUrl}/marketplace/developers`,
     payment: {
@@ -5,11 +5,14 @@ import {
   AVAILABLE_SKILLS,
   type AvailableSkill,
 } from "@/lib/skills";
+import { TOOL_GROUPS } from "@/lib/tools";
 import { verifyAuthUserId } from "@/lib/auth/verifyRequest";
 
+const TOOL_GROUP_IDS = TOOL_GROUPS.map((g) => g.id);
+
 /**
  * GET /api/agents/[id]/skills
- * Get the skills enabled for an agent
+ * Get the skills and tool groups enabled for an agent
  */
 export async function GET(
   req: NextRequest,
@@ -28,6 +31,7 @@ export async function GET(
       id: true,
       name: true,
       enabledSkills: true,
+      enabledToolGroups: true,
       createdById: true,
       isPublic: true,
     } as const;
@@ -67,6 +71,8 @@ export async function GET(
       agentName: agent.name,
       enabledSkills: agent.enabledSkills,
       availableSkills: skillsWithStatus,
+      enabledToolGroups: agent.enabledToolGroups,
+      availableToolGroups: TOOL_GROUP_IDS,
     });
   } catch (error) {
     console.error("Failed to get agent skills:", error);
@@ -79,7 +85,8 @@ export async function GET(
 
 /**
  * PUT /api/agents/[id]/skills
- * Update the skills enabled for an agent
+ * Update the skills enabled for an agent, and optionally the tool groups it
+ * works hired marketplace tasks with
  */
 export async function PUT(
   req: NextRequest,
@@ -99,7 +106,7 @@ export async function PUT(
     return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
   }
 
-  const { enabledSkills } = body;
+  const { enabledSkills, enabledToolGroups } = body;
 
   // Validate enabledSkills is an array of strings
   if (!Array.isArray(enabledSkills)) {
@@ -131,6 +138,31 @@ export async function PUT(
     );
   }
 
+  if (enabledToolGroups !== undefined) {
+    if (
+      !Array.isArray(enabledToolGroups) ||
+      !enabledToolGroups.every((g: unknown) => typeof g === "string")
+    ) {
+      return NextResponse.json(
+        { error: "enabledToolGroups must be an array of strings" },
+        { status: 400 },
+      );
+    }
+
+    const invalidGroups = enabledToolGroups.filter(
+      (groupId: string) => !TOOL_GROUP_IDS.includes(groupId),
+    );
+    if (invalidGroups.length > 0) {
+      return NextResponse.json(
+        {
+          error: `Invalid tool group IDs: ${invalidGroups.join(", ")}`,
+          availableToolGroups: TOOL_GROUP_IDS,
+        },
+        { status: 400 },
+      );
+    }
+  }
+
   try {
     // Supports both database ID and tokenMint
     const [putAgentById, putAgentByMint] = await Promise.all([
@@ -156,11 +188,17 @@ export async function PUT(
 
     const updatedAgent = await prisma.agent.update({
       where: { id: agent.id },
-      data: { enabledSkills },
+      data: {
+        enabledSkills,
+        ...(enabledToolGroups !== undefined && {
+          enabledToolGroups: [...new Set<string>(enabledToolGroups)],
+        }),
+      },
       select: {
         id: true,
         name: true,
         enabledSkills: true,
+        enabledToolGroups: true,
       },
     });
 
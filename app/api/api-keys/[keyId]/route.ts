@@ -1,12 +1,113 @@
 /**
- * API Key — Revoke
+ * API Key — Update & Revoke
  *
+ * PATCH  /api/api-keys/[keyId] — Update name, monthlySpendLimitUsd and/or
+ *                                allowedToolGroups
  * DELETE /api/api-keys/[keyId] — Soft-revoke a key (sets revokedAt)
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
 import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
+import { parseApiKeySpendLimit } from "@/lib/x402/api-key-billing";
+import { parseAllowedToolGroups } from "@/lib/agents";
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ keyId: string }> },
+) {
+  try {
+    const auth = await requireAuth(req);
+    if (!isAuthResult(auth)) return auth;
+
+    const { keyId } = await params;
+
+    let body: {
+      name?: string;
+      monthlySpendLimitUsd?: number | null;
+      allowedToolGroups?: string[] | null;
+    };
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    const data: {
+      name?: string;
+      monthlySpendLimitUsd?: number | null;
+      allowedToolGroups?: string[];
+    } = {};
+
+    if (body.name !== undefined) {
+      const name = String(body.name).trim().slice(0, 100);
+      if (!name) {
+        return NextResponse.json(
+          { error: "Key name is required" },
+          { status: 400 },
+        );
+      }
+      data.name = name;
+    }
+
+    if (body.monthlySpendLimitUsd !== undefined) {
+      const spendLimit = parseApiKeySpendLimit(body.monthlySpendLimitUsd);
+      if (!spendLimit.ok) {
+        return NextResponse.json({ error: spendLimit.error }, { status: 400 });
+      }
+      data.monthlySpendLimitUsd = spendLimit.value;
+    }
+
+    if (body.allowedToolGroups !== undefined) {
+      const toolGroups = parseAllowedToolGroups(body.allowedToolGroups);
+      if (!toolGroups.ok) {
+        return NextResponse.json({ error: toolGroups.error }, { status: 400 });
+      }
+      data.allowedToolGroups = toolGroups.value;
+    }
+
+    if (Object.keys(data).length === 0) {
+      return NextResponse.json(
+        { error: "No fields to update" },
+        { status: 400 },
+      );
+    }
+
+    const existing = await prisma.apiKey.findUnique({
+      where: { id: keyId },
+      select: { userId: true, revokedAt: true },
+    });
+
+    if (!existing || existing.userId !== auth.userId) {
+      return NextResponse.json({ error: "Key not found" }, { status: 404 });
+    }
+
+    if (existing.revokedAt) {
+      return NextResponse.json({ error: "Key is revoked" }, { status: 400 });
+    }
+
+    const apiKey = await prisma.apiKey.update({
+      where: { id: keyId },
+      data,
+      select: {
+        id: true,
+        name: true,
+        prefix: true,
+        monthlySpendLimitUsd: true,
+        allowedToolGroups: true,
+        totalCostUsd: true,
+      },
+    });
+
+    return NextResponse.json({ key: apiKey });
+  } catch (error) {
+    console.error("[api-keys] PATCH error:", error);
+    return NextResponse.json(
+      { error: "Failed to update key" },
+      { status: 500 },
+    );
+  }
+}
 
 export async function DELETE(
   req: NextRequest,
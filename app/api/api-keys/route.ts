@@ -3,6 +3,7 @@
  *
  * GET  /api/api-keys  — List all keys for the authenticated user
  * POST /api/api-keys  — Create a new API key (returns raw key once)
+ *   Body: { name, monthlySpendLimitUsd?, allowedToolGroups? }
  */
 
 import { NextRequest, NextResponse } from "next/server";
@@ -10,6 +11,12 @@ import { randomBytes, createHash } from "crypto";
 import prisma from "@/lib/prisma";
 import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
 import { rateLimitByUser } from "@/lib/rateLimit";
+import { TOOL_GROUPS } from "@/lib/tools";
+import { API_TOOL_GROUP_IDS, parseAllowedToolGroups } from "@/lib/agents";
+import {
+  getApiKeyMonthlySpend,
+  parseApiKeySpendLimit,
+} from "@/lib/x402/api-key-billing";
 
 const MAX_KEYS_PER_USER = 10;
 const KEY_PREFIX = "sk-ai_";
@@ -36,6 +43,9 @@ export async function GET(req: NextRequest) {
         prefix: true,
         lastUsedAt: true,
         totalRequests: true,
+        totalCostUsd: true,
+        monthlySpendLimitUsd: true,
+        allowedToolGroups: true,
         revokedAt: true,
         expiresAt: true,
         createdAt: true,
@@ -43,7 +53,24 @@ export async function GET(req: NextRequest) {
       orderBy: { createdAt: "desc" },
     });
 
-    return NextResponse.json({ keys });
+    const monthCosts = await Promise.all(
+      keys.map((k) => (k.revokedAt ? 0 : getApiKeyMonthlySpend(k.id))),
+    );
+
+    // Tool groups a key can be allowed to use for agent chat
+    const availableToolGroups = TOOL_GROUPS.filter((g) =>
+      API_TOOL_GROUP_IDS.includes(g.id),
+    ).map(({ id, name, description, icon }) => ({
+      id,
+      name,
+      description,
+      icon,
+    }));
+
+    return NextResponse.json({
+      keys: keys.map((k, i) => ({ ...k, monthCostUsd: monthCosts[i] })),
+      availableToolGroups,
+    });
   } catch (error) {
     console.error("[api-keys] GET error:", error);
     return NextResponse.json(
@@ -66,13 +93,27 @@ export async function POST(req: NextRequest) {
     );
     if (rateLimited) return rateLimited;
 
-    let body: { name?: string };
+    let body: {
+      name?: string;
+      monthlySpendLimitUsd?: number | null;
+      allowedToolGroups?: string[] | null;
+    };
     try {
       body = await req.json();
     } catch {
       return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
     }
 
+    const spendLimit = parseApiKeySpendLimit(body.monthlySpendLimitUsd);
+    if (!spendLimit.ok) {
+      return NextResponse.json({ error: spendLimit.error }, { status: 400 });
+    }
+
+    const toolGroups = parseAllowedToolGroups(body.allowedToolGroups);
+    if (!toolGroups.ok) {
+      return NextResponse.json({ error: toolGroups.error }, { status: 400 });
+    }
+
     const name = (body.name ?? "Untitled Key").trim().slice(0, 100);
     if (!name) {
       return NextResponse.json(
@@ -99,8 +140,22 @@ export async function POST(req: NextRequest) {
       }
 
       return tx.apiKey.create({
-        data: { name, prefix, keyHash, userId: auth.userId },
-        select: { id: true, name: true, prefix: true, createdAt: true },
+        data: {
+          name,
+          prefix,
+          keyHash,
+          userId: auth.userId,
+          monthlySpendLimitUsd: spendLimit.value,
+          allowedToolGroups: toolGroups.value,
+        },
+        select: {
+          id: true,
+          name: true,
+          prefix: true,
+          monthlySpendLimitUsd: true,
+          allowedToolGroups: true,
+          createdAt: true,
+        },
       });
     });
 
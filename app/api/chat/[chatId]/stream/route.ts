@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { UI_MESSAGE_STREAM_HEADERS } from "ai";
+import prisma from "@/lib/prisma";
+import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
+import { rateLimitByUser } from "@/lib/rateLimit";
+import {
+  isResumableStreamEnabled,
+  hasBufferedStream,
+  createResumedChatStream,
+  clearActiveStream,
+} from "@/lib/chat";
+
+// Followers stay attached for as long as the generation can run
+export const maxDuration = 300;
+
+type RouteContext = {
+  params: Promise<{ chatId: string }>;
+};
+
+// GET /api/chat/[chatId]/stream - Reattach to the chat's in-progress generation
+// Returns 204 when nothing is streaming (the chat transport treats that as "no stream")
+export async function GET(req: NextRequest, context: RouteContext) {
+  const { chatId } = await context.params;
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const limited = await rateLimitByUser(auth.userId, "chat-stream-resume", 30);
+  if (limited) return limited;
+
+  try {
+    const chat = await prisma.chat.findUnique({
+      where: { id: chatId },
+      select: { userId: true, activeStreamId: true },
+    });
+
+    if (!chat) {
+      return NextResponse.json({ error: "Chat not found" }, { status: 404 });
+    }
+
+    if (chat.userId !== auth.userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    if (!chat.activeStreamId || !isResumableStreamEnabled()) {
+      return new Response(null, { status: 204 });
+    }
+
+    // Buffer expired or the generation never started writing — drop the stale pointer
+    if (!(await hasBufferedStream(chat.activeStreamId))) {
+      await clearActiveStream(chatId, chat.activeStreamId);
+      return new Response(null, { status: 204 });
+    }
+
+    const stream = createResumedChatStream(chat.activeStreamId).pipeThrough(
+      new TextEncoderStream(),
+    );
+
+    return new Response(stream, { headers: UI_MESSAGE_STREAM_HEADERS });
+  } catch (error) {
+    console.error("Failed to resume chat stream:", error);
+    return NextResponse.json(
+      { error: "Failed to resume chat stream" },
+      { status: 500 },
+    );
+  }
+}
@@ -1,27 +1,38 @@
 import {
   streamText,
   convertToModelMessages,
+  createIdGenerator,
   stepCountIs,
   type UIMessage,
-  type Tool,
 } from "ai";
-import { anthropic } from "@ai-sdk/anthropic";
+import { after } from "next/server";
 import prisma from "@/lib/prisma";
+import type { AvailableSkill } from "@/lib/skills";
 import {
-  getSkillTools,
-  getSkillConfigsFromEnv,
-  skillRegistry,
-} from "@/lib/skills";
-import { getToolsForGroups } from "@/lib/tools";
+  ALLOWED_AGENT_MODELS,
+  DEFAULT_AGENT_MODEL,
+  DEFAULT_AGENT_NAME,
+  DEFAULT_SYSTEM_PROMPT,
+  MAX_AGENT_STEPS,
+  findAgentByIdOrMint,
+  canAccessAgent,
+  buildAgentSystemPrompt,
+  buildAgentTools,
+  appendToolGuidelines,
+} from "@/lib/agents";
 import {
-  createTwitterTools,
-  createTwitterOnboardingTools,
-  createTwitterConnectionBrokenTool,
-  refreshTwitterToken,
-} from "@/lib/tools/twitter";
-import { createKnowledgeTools } from "@/lib/tools/knowledge";
-import { safeDecrypt, encrypt } from "@/lib/utils/encryption";
-import type { AvailableSkill } from "@/lib/skills";
+  saveUserMessage,
+  saveAssistantMessage,
+  deleteMessagesAfter,
+  setActiveStream,
+  clearActiveStream,
+  isResumableStreamEnabled,
+  createStreamId,
+  bufferChatStream,
+  prepareChatContext,
+  appendConversationSummary,
+  type ChatContext,
+} from "@/lib/chat";
 import { getPrivyClient } from "@/lib/auth/verifyRequest";
 import {
   withUsageBasedPayment,
@@ -30,107 +41,17 @@ import {
   type BillingContext,
 } from "@/lib/x402";
 import { rateLimitByUser } from "@/lib/rateLimit";
-
-/**
- * Sanitize agent system prompt to prevent prompt injection attacks.
- * Removes common injection patterns that could override system behavior.
- */
-function sanitizeAgentPrompt(prompt: string): string {
-  if (!prompt || typeof prompt !== "string") return "";
-
-  // Remove null bytes and control characters except newlines/tabs
-  let sanitized = prompt.replace(/[\x00-\x08\x0B-\x0C\x0E-\x1F\x7F]/g, "");
-
-  // Detect and neutralize common injection patterns
-  const injectionPatterns = [
-    // System message override attempts
-    /\bsystem\s*:\s*/gi,
-    /\b(ignore|disregard|forget)\s+(all\s+)?(previous|prior|above|earlier)\s+(instructions|prompts|rules|directives)/gi,
-    // Role manipulation
-    /\byou\s+are\s+now\s+(a|an|the)\s+/gi,
-    /\bfrom\s+now\s+on\s*,?\s+you\s+/gi,
-    // Delimiter manipulation (common in prompt injection)
-    /```[\s\S]*?```/g, // Remove code blocks that could contain hidden instructions
-    /<\|.*?\|>/g, // Remove potential control tokens
-  ];
-
-  for (const pattern of injectionPatterns) {
-    sanitized = sanitized.replace(pattern, (match) => {
-      // Replace with escaped version to preserve content but neutralize injection
-      return `[filtered: ${match.slice(0, 20)}...]`;
-    });
-  }
-
-  // Limit total length to prevent abuse (10KB max for system prompts)
-  if (sanitized.length > 10000) {
-    sanitized = sanitized.slice(0, 10000) + "\n[truncated]";
-  }
-
-  return sanitized.trim();
-}
+import {
+  checkSpendingLimits,
+  createSpendingLimitResponse,
+} from "@/lib/spending";
 
 // Allow streaming responses up to 300 seconds (batch transfers can require
 // many sequential Privy signing calls + on-chain confirmations)
 export const maxDuration = 300;
 
-// Allowed models to prevent cost abuse via user-controlled model selection
-const ALLOWED_MODELS = new Set([
-  "anthropic/claude-haiku-4.5",
-  "anthropic/claude-sonnet-4",
-  "anthropic/claude-sonnet-4-20250514",
-]);
-
-// Default system prompt when no agent is specified
-const DEFAULT_SYSTEM_PROMPT = `You are a helpful AI assistant for Agent Inc., a platform for AI-powered autonomous startups on chain. 
-You help users understand the platform, answer questions about AI agents, blockchain technology, and the Bags standard.
-Be concise, friendly, and helpful.`;
-
-// Tool usage guidelines that are ALWAYS appended
-const TOOL_USAGE_GUIDELINES = `
-## CRITICAL: Tool Usage Rules
-
-You have access to real tools that execute actions. You MUST follow these rules:
-
-1. **ALWAYS use tools when available** - If a user asks for information that a tool can provide, CALL THE TOOL. Do not explain what you could do or write code examples.
-
-2. **NEVER generate code instead of using tools** - If asked "what time is it" and you have getCurrentTime tool, CALL IT. Do not write Python/JavaScript datetime code.
-
-3. **Tools provide REAL data** - Tool results are actual live data (real time, real weather, real prices). Use them.
-
-4. **Call tools immediately** - Don't ask for confirmation. If the user's intent matches a tool's purpose, execute it.
-
-5. **After tool results** - Present the data clearly to the user. Don't just dump JSON - format it nicely.
-
-### Common mistakes to AVOID:
-- ❌ Writing "import datetime; datetime.now()" when asked for time
-- ❌ Saying "I would use the getCurrentTime tool" without actually calling it  
-- ❌ Generating code examples instead of calling tools
-- ✅ Actually calling getCurrentTime and showing the result
-
-### Image Generation Guidelines:
-When the user asks to generate, create, draw, or make an image/picture/illustration:
-- IMMEDIATELY call the generateImage tool with a detailed prompt
-- Enhance the user's description with artistic details for better results
-- Choose an appropriate aspect ratio (1:1 for square, 16:9 for landscape, 9:16 for portrait)
-- After the image is generated, briefly describe what you created
-- Examples of triggers: "make me an image of...", "draw a...", "generate a picture of...", "create an illustration of..."
-
-### browseFlowers Guidelines:
-After calling browseFlowers, present products as a simple markdown list (not cards).
-Use this exact per-item format:
-
-**Name** - **$price**
-![Name](thumbnailUrl)
-Short plain-text description.
-
----
-
-Formatting rules:
-- Do not put images inside bullet list items.
-- Keep one blank line between name/price, image, and description.
-- Do NOT use italics for descriptions.
-- Do NOT output raw URLs.
-- Show at most 4-6 products per response, then ask what they want next.`;
+// Server-generated assistant message IDs double as ChatMessage row IDs
+const generateMessageId = createIdGenerator({ prefix: "msg", size: 16 });
 
 async function chatHandler(req: RequestWithBilling) {
   // Get billing context if available (injected by withUsageBasedPayment middleware)
@@ -181,7 +102,9 @@ async function chatHandler(req: RequestWithBilling) {
   const {
     messages,
     agentId,
-    model: requestedModel = "anthropic/claude-haiku-4.5",
+    chatId: requestedChatId,
+    trigger,
+    model: requestedModel = DEFAULT_AGENT_MODEL,
     enabledSkills = [],
     enabledToolGroups = [],
     skillApiKeys = {},
@@ -189,6 +112,10 @@ async function chatHandler(req: RequestWithBilling) {
   }: {
     messages: UIMessage[];
     agentId?: string;
+    /** Saved chat this request belongs to (messages are persisted to it) */
+    chatId?: string;
+    /** Sent by the chat transport: "submit-message" | "regenerate-message" */
+    trigger?: string;
     model?: string;
     enabledSkills?: AvailableSkill[];
     enabledToolGroups?: string[];
@@ -198,9 +125,9 @@ async function chatHandler(req: RequestWithBilling) {
   } = requestBody;
 
   // Validate model against allowlist to prevent cost abuse
-  const model = ALLOWED_MODELS.has(requestedModel)
+  const model = ALLOWED_AGENT_MODELS.has(requestedModel)
     ? requestedModel
-    : "anthropic/claude-haiku-4.5";
+    : DEFAULT_AGENT_MODEL;
 
   // Validate messages input
   if (!Array.isArray(messages) || messages.length === 0) {
@@ -213,7 +140,7 @@ async function chatHandler(req: RequestWithBilling) {
   }
 
   let baseSystemPrompt = DEFAULT_SYSTEM_PROMPT;
-  let agentName = "Agent Inc. Assistant";
+  let agentName = DEFAULT_AGENT_NAME;
   let agentSkills: string[] = [];
   // resolvedAgentId holds the actual DB ID after dual lookup (agentId may be a tokenMint)
   let resolvedAgentId = agentId;
@@ -233,37 +160,7 @@ async function chatHandler(req: RequestWithBilling) {
   // Supports both database ID and tokenMint for dual-use URLs
   if (agentId) {
     try {
-      const agentSelect = {
-        id: true,
-        systemPrompt: true,
-        name: true,
-        isPublic: true,
-        createdById: true,
-        enabledSkills: true,
-        // Agent identity metadata
-        description: true,
-        personality: true,
-        personalityScores: true,
-        rarity: true,
-        // Token/blockchain info
-        isMinted: true,
-        tokenMint: true,
-        tokenSymbol: true,
-        launchedAt: true,
-      } as const;
-
-      const [agentById, agentByMint] = await Promise.all([
-        prisma.agent.findUnique({
-          where: { id: agentId },
-          select: agentSelect,
-        }),
-        prisma.agent.findUnique({
-          where: { tokenMint: agentId },
-          select: agentSelect,
-        }),
-      ]);
-
-      const agent = agentById || agentByMint;
+      const agent = await findAgentByIdOrMint(agentId);
 
       if (agent) {
         // Use the actual DB ID for all downstream operations
@@ -272,7 +169,7 @@ async function chatHandler(req: RequestWithBilling) {
         // Check if user can access this agent (owner or public)
         // This must happen BEFORE the token holding RPC call to avoid
         // wasting a network round-trip on agents the user can't access.
-        if (!agent.isPublic && agent.createdById !== userId) {
+        if (!canAccessAgent(agent, userId)) {
           return new Response(
             JSON.stringify({ error: "Access denied to this agent" }),
             {
@@ -310,60 +207,7 @@ async function chatHandler(req: RequestWithBilling) {
 
         agentName = agent.name;
 
-        // Build agent identity preamble
-        const identityParts: string[] = [];
-
-        // Core identity
-        identityParts.push(`# Your Identity`);
-        identityParts.push(
-          `You are **${agent.name}**${agent.tokenSymbol ? ` ($${agent.tokenSymbol})` : ""}.`,
-        );
-
-        if (agent.description) {
-          identityParts.push(`\n${agent.description}`);
-        }
-
-        // Token info (if minted/launched)
-        if (agent.isMinted && agent.tokenMint) {
-          identityParts.push(`\n## Your Token`);
-          identityParts.push(
-            `- **Symbol**: $${agent.tokenSymbol || agent.name.toUpperCase()}`,
-          );
-          identityParts.push(`- **Token Mint Address**: ${agent.tokenMint}`);
-          identityParts.push(`- **Status**: Launched on Solana`);
-          if (agent.launchedAt) {
-            identityParts.push(
-              `- **Launch Date**: ${agent.launchedAt.toISOString().split("T")[0]}`,
-            );
-          }
-        }
-
-        // Note: Personality/behavioral instructions are included in agent.systemPrompt
-        // We intentionally don't add personality info to the identity section to avoid
-        // agents meta-commenting on their own traits
-
-        // Rarity
-        if (agent.rarity) {
-          identityParts.push(`\n## Rarity`);
-          identityParts.push(
-            `You are a **${agent.rarity.toUpperCase()}** agent.`,
-          );
-        }
-
-        // Important behavioral note
-        identityParts.push(`\n---`);
-        identityParts.push(
-          `When someone asks "who are you" or about your identity, introduce yourself as ${agent.name}${agent.tokenSymbol ? ` with token $${agent.tokenSymbol}` : ""}. Talk about what you do and how you can help them. Be natural and conversational.`,
-        );
-        identityParts.push(`---\n`);
-
-        // Sanitize agent system prompt to prevent prompt injection
-        // Remove any attempts to override system instructions or manipulate behavior
-        const sanitizedSystemPrompt = sanitizeAgentPrompt(agent.systemPrompt);
-
-        // Combine identity preamble with system prompt
-        const identityPreamble = identityParts.join("\n");
-        baseSystemPrompt = `${identityPreamble}\n\n# Your Instructions\n${sanitizedSystemPrompt}`;
+        baseSystemPrompt = buildAgentSystemPrompt(agent);
 
         // Get enabled skills from agent config
         if (agent.enabledSkills && agent.enabledSkills.length > 0) {
@@ -392,369 +236,95 @@ async function chatHandler(req: RequestWithBilling) {
     }
   }
 
-  // Start building the final system prompt
-  let systemPrompt = baseSystemPrompt;
-
-  // Determine which skills to enable
-  // Note: enabledSkills defaults to [] which is truthy, so use .length check
-  const skillsToEnable = enabledSkills.length > 0 ? enabledSkills : agentSkills;
-
-  // Build tools from enabled skills
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  let tools: Record<string, Tool<any, any>> = {};
-
-  // Add tool search for dynamic tool discovery (Haiku 4.5+ feature)
-  tools.toolSearch = anthropic.tools.toolSearchBm25_20251119();
-
-  // Add skill tools if any skills are enabled
-  if (skillsToEnable.length > 0) {
-    // Get server-side configs from environment
-    const serverConfigs = getSkillConfigsFromEnv();
-
-    // Merge with user-provided API keys (user keys take precedence if server not configured)
-    const mergedConfigs: Record<string, { apiKey?: string }> = {};
-    for (const skillId of skillsToEnable) {
-      const serverConfig = serverConfigs[skillId] || {};
-      const userApiKey = skillApiKeys[skillId];
-
-      // Use server config if available, otherwise use user-provided key
-      mergedConfigs[skillId] = {
-        apiKey: serverConfig.apiKey || userApiKey,
-      };
-    }
-
-    const skillTools = getSkillTools(skillsToEnable, mergedConfigs);
-    const skillToolNames = Object.keys(skillTools);
-
-    if (skillToolNames.length > 0) {
-      // Mark skill tools as deferred for tool search
-      const deferredSkillTools = Object.fromEntries(
-        Object.entries(skillTools).map(([name, tool]) => [
-          name,
-          {
-            ...tool,
-            providerOptions: {
-              anthropic: { deferLoading: true },
-            },
-          },
-        ]),
-      );
-      tools = { ...tools, ...deferredSkillTools };
-    } else {
-      console.warn(
-        "[Chat API] No skill tools were created. Check if API keys are configured.",
-      );
-    }
-
-    // Append skill-specific system prompts
-    const skillPrompts = skillRegistry.getSystemPrompts(skillsToEnable);
-    if (skillPrompts) {
-      systemPrompt = `${systemPrompt}\n\n${skillPrompts}`;
-    }
+  // Only attribute usage to a chat the user actually owns
+  let chatId: string | undefined;
+  if (typeof requestedChatId === "string" && requestedChatId) {
+    const chat = await prisma.chat
+      .findFirst({
+        where: { id: requestedChatId, userId },
+        select: { id: true },
+      })
+      .catch(() => null);
+    chatId = chat?.id;
   }
 
-  // Add tools from enabled tool groups - only add what's explicitly enabled
-  if (enabledToolGroups.length > 0) {
-    const groupTools = getToolsForGroups(enabledToolGroups, billingContext);
-
-    // Separate provider-defined tools from regular tools
-    // Provider-defined tools like web_search should NOT be deferred
-    const providerDefinedTools = ["web_search"];
-
-    const deferredGroupTools = Object.fromEntries(
-      Object.entries(groupTools).map(([name, tool]) => {
-        // Don't defer provider-defined tools
-        if (providerDefinedTools.includes(name)) {
-          return [name, tool];
-        }
-        // Defer regular tools for tool search
-        return [
-          name,
-          {
-            ...tool,
-            providerOptions: {
-              anthropic: { deferLoading: true },
-            },
-          },
-        ];
-      }),
-    );
-    tools = { ...tools, ...deferredGroupTools };
-
-    // Add Knowledge tools if the knowledge group is enabled
-    // Knowledge tools are created dynamically with userId/resolvedAgentId context
-    if (enabledToolGroups.includes("knowledge")) {
-      try {
-        const knowledgeTools = createKnowledgeTools(
-          userId,
-          resolvedAgentId,
-          billingContext,
-        );
-
-        // Mark knowledge tools as deferred for tool search
-        const deferredKnowledgeTools = Object.fromEntries(
-          Object.entries(knowledgeTools).map(([name, tool]) => [
-            name,
-            {
-              ...tool,
-              providerOptions: {
-                anthropic: { deferLoading: true },
-              },
-            },
-          ]),
-        );
-        tools = { ...tools, ...deferredKnowledgeTools };
-      } catch (error) {
-        console.error("[Chat API] Failed to load Knowledge tools:", error);
-      }
-    }
-
-    // Add Task tools if the tasks group is enabled
-    // Task tools are created dynamically with userId/resolvedAgentId/systemPrompt context
-    if (enabledToolGroups.includes("tasks")) {
-      try {
-        const { createTaskTools } = await import("@/lib/tools/tasks");
-        const taskTools = createTaskTools(
-          userId,
-          resolvedAgentId || "",
-          resolvedAgentId ? baseSystemPrompt : "",
-          undefined, // chatId not available here
-        );
-
-        // Mark task tools as deferred for tool search
-        const deferredTaskTools = Object.fromEntries(
-          Object.entries(taskTools).map(([name, tool]) => [
-            name,
-            {
-              ...tool,
-              providerOptions: {
-                anthropic: { deferLoading: true },
-              },
-            },
-          ]),
-        );
-        tools = { ...tools, ...deferredTaskTools };
-      } catch (error) {
-        console.error("[Chat API] Failed to load Task tools:", error);
-      }
-    }
-
-    // Add Twitter tools if the twitter group is enabled
-    // Always include onboarding tools so the AI can help users connect
-    if (enabledToolGroups.includes("twitter")) {
-      try {
-        const twitterUser = await prisma.user.findUnique({
-          where: { id: userId },
-          select: {
-            twitterAccessToken: true,
-            twitterRefreshToken: true,
-            twitterTokenExpiresAt: true,
-            twitterUsername: true,
-            twitterConnectedAt: true,
-          },
-        });
-
-        const isConnected = !!(
-          twitterUser?.twitterAccessToken && twitterUser?.twitterUsername
-        );
-
-        // ALWAYS add onboarding tools so the AI can check status and provide OAuth URL
-        const onboardingTools = createTwitterOnboardingTools({
-          userId,
-          isConnected,
-          username: twitterUser?.twitterUsername || undefined,
-          connectedAt: twitterUser?.twitterConnectedAt || undefined,
-          tokenExpiresAt: twitterUser?.twitterTokenExpiresAt || undefined,
-        });
-
-        // Mark onboarding tools as deferred for tool search
-        const deferredOnboardingTools = Object.fromEntries(
-          Object.entries(onboardingTools).map(([name, tool]) => [
-            name,
-            {
-              ...tool,
-              providerOptions: {
-                anthropic: { deferLoading: true },
-              },
-            },
-          ]),
-        );
-        tools = { ...tools, ...deferredOnboardingTools };
-
-        // If connected, also add the full Twitter API tools
-        if (twitterUser?.twitterAccessToken) {
-          // Decrypt the stored token (handles both encrypted and legacy plaintext)
-          let accessToken = safeDecrypt(twitterUser.twitterAccessToken);
-
-          // Check if token is expired or expiring soon (within 5 minutes)
-          const expirationBuffer = 5 * 60 * 1000; // 5 minutes
-          const isExpired =
-            twitterUser.twitterTokenExpiresAt &&
-            new Date(twitterUser.twitterTokenExpiresAt).getTime() <
-              Date.now() + expirationBuffer;
-
-          if (isExpired && twitterUser.twitterRefreshToken) {
-            // Decrypt refresh token before using
-            const decryptedRefreshToken = safeDecrypt(
-              twitterUser.twitterRefreshToken,
-            );
-            const refreshResult = await refreshTwitterToken(
-              decryptedRefreshToken,
-            );
+  if (billingContext) {
+    billingContext.attribution = { chatId, agentId: resolvedAgentId };
 
-            if (refreshResult) {
-              // Encrypt new tokens before storing
-              const encryptedAccessToken = encrypt(refreshResult.accessToken);
-              const encryptedRefreshToken = encrypt(refreshResult.refreshToken);
-
-              // Update encrypted tokens in database
-              await prisma.user.update({
-                where: { id: userId },
-                data: {
-                  twitterAccessToken: encryptedAccessToken,
-                  twitterRefreshToken: encryptedRefreshToken,
-                  twitterTokenExpiresAt: new Date(
-                    Date.now() + refreshResult.expiresIn * 1000,
-                  ),
-                },
-              });
-              accessToken = refreshResult.accessToken;
-            } else {
-              accessToken = ""; // Clear to skip adding API tools
-
-              // Add a tool to inform the user their connection is broken
-              const brokenTool = createTwitterConnectionBrokenTool(
-                userId,
-                "refresh_failed",
-              );
-              tools = { ...tools, ...brokenTool };
-            }
-          } else if (isExpired) {
-            accessToken = "";
-
-            // Add a tool to inform the user their connection is broken
-            const brokenTool = createTwitterConnectionBrokenTool(
-              userId,
-              "no_refresh_token",
-            );
-            tools = { ...tools, ...brokenTool };
-          }
-
-          if (accessToken) {
-            const twitterApiTools = createTwitterTools(
-              accessToken,
-              billingContext,
-            );
-
-            // Mark Twitter API tools as deferred for tool search
-            const deferredTwitterTools = Object.fromEntries(
-              Object.entries(twitterApiTools).map(([name, tool]) => [
-                name,
-                {
-                  ...tool,
-                  providerOptions: {
-                    anthropic: { deferLoading: true },
-                  },
-                },
-              ]),
-            );
-            tools = { ...tools, ...deferredTwitterTools };
-          }
-        }
-      } catch (error) {
-        console.error("[Chat API] Failed to load Twitter tools:", error);
-      }
+    // Refuse to start a generation once any applicable spending limit is hit
+    const spending = await checkSpendingLimits({
+      userId,
+      agentId: resolvedAgentId,
+      chatId,
+    });
+    if (!spending.allowed && spending.breach) {
+      return createSpendingLimitResponse(spending.breach);
     }
+  }
 
-    // Add Wallet tools if the wallet group is enabled
-    // Wallet tools require the user's active wallet context for server-side signing
-    if (enabledToolGroups.includes("wallet")) {
-      try {
-        const { createWalletTools } = await import("@/lib/tools/wallet");
-
-        // Resolve user's active wallet from the database
-        const walletUser = await prisma.user.findUnique({
-          where: { id: userId },
-          select: {
-            activeWallet: {
-              select: {
-                id: true,
-                privyWalletId: true,
-                address: true,
-              },
-            },
-          },
-        });
-
-        if (walletUser?.activeWallet) {
-          const walletTools = createWalletTools({
-            userId,
-            walletId: walletUser.activeWallet.privyWalletId,
-            walletAddress: walletUser.activeWallet.address,
-            agentId: resolvedAgentId,
-            billingContext,
-          });
-
-          // Mark wallet tools as deferred for tool search
-          // NOTE: Write tools (transferSol, transferToken, batchTransferTokens) have
-          // requireApproval: true — the AI SDK will pause execution and send an
-          // approval-requested state to the client before executing them.
-          const deferredWalletTools = Object.fromEntries(
-            Object.entries(walletTools).map(([name, tool]) => [
-              name,
-              {
-                ...tool,
-                providerOptions: {
-                  anthropic: { deferLoading: true },
-                },
-              },
-            ]),
-          );
-          tools = { ...tools, ...deferredWalletTools };
-        } else {
-          console.warn(
-            "[Chat API] Wallet tools requested but user has no active wallet.",
-          );
-        }
-      } catch (error) {
-        console.error("[Chat API] Failed to load Wallet tools:", error);
+  // Persist the user's message up front so it survives a closed tab.
+  // Tool-approval continuations end with the assistant message instead.
+  const lastMessage = messages[messages.length - 1];
+  if (chatId && lastMessage?.role === "user") {
+    try {
+      if (trigger === "regenerate-message") {
+        await deleteMessagesAfter(chatId, lastMessage.id);
       }
+      await saveUserMessage(chatId, lastMessage);
+    } catch (error) {
+      console.error("[Chat] Failed to save user message:", error);
     }
   }
 
-  const toolNames = Object.keys(tools);
-
-  // ALWAYS append tool usage guidelines if tools are available
-  if (toolNames.length > 0) {
-    // Build a human-readable list of available tools
-    const toolDescriptions = toolNames
-      .map((name) => {
-        const tool = tools[name];
-        const desc = tool?.description || "No description";
-        // Truncate long descriptions
-        const shortDesc = desc.length > 100 ? desc.slice(0, 100) + "..." : desc;
-        return `- **${name}**: ${shortDesc}`;
-      })
-      .join("\n");
-
-    systemPrompt = `${systemPrompt}
+  // Track the generation so a reloaded client can reattach to it
+  let streamId: string | undefined;
+  if (chatId && isResumableStreamEnabled()) {
+    streamId = createStreamId();
+    await setActiveStream(chatId, streamId).catch((error) => {
+      console.error("[Chat] Failed to record active stream:", error);
+      streamId = undefined;
+    });
+  }
 
-${TOOL_USAGE_GUIDELINES}
+  // Determine which skills to enable
+  // Note: enabledSkills defaults to [] which is truthy, so use .length check
+  const skillsToEnable = enabledSkills.length > 0 ? enabledSkills : agentSkills;
 
-### Your Available Tools:
-${toolDescriptions}
+  const { tools, skillPrompts } = await buildAgentTools({
+    userId,
+    agentId: resolvedAgentId,
+    baseSystemPrompt,
+    chatId,
+    skills: skillsToEnable,
+    skillApiKeys,
+    toolGroups: enabledToolGroups,
+    billingContext,
+  });
 
-Remember: CALL these tools, don't write code about them!`;
-  }
+  // ALWAYS append tool usage guidelines if tools are available
+  const systemPrompt = appendToolGuidelines(
+    skillPrompts ? `${baseSystemPrompt}\n\n${skillPrompts}` : baseSystemPrompt,
+    tools,
+  );
+
+  // Long chats: older turns are folded into the chat's rolling summary
+  const context: ChatContext = chatId
+    ? await prepareChatContext({ chatId, messages, billingContext }).catch(
+        (error) => {
+          console.error("[Chat] Failed to prepare chat context:", error);
+          return { messages, summary: null, tokensSaved: 0 };
+        },
+      )
+    : { messages, summary: null, tokensSaved: 0 };
 
   const result = streamText({
     model,
-    system: systemPrompt,
-    messages: await convertToModelMessages(messages),
+    system: appendConversationSummary(systemPrompt, context.summary),
+    messages: await convertToModelMessages(context.messages),
     tools: Object.keys(tools).length > 0 ? tools : undefined,
-    stopWhen: stepCountIs(5),
+    stopWhen: stepCountIs(MAX_AGENT_STEPS),
     // Usage-based billing: calculate cost from token usage + model pricing
-    onFinish: async ({ usage }) => {
+    onFinish: async ({ usage, steps }) => {
       // Only charge if billing context is available (Privy authenticated user)
       if (billingContext) {
         // Import calculateCost dynamically to avoid circular deps
@@ -768,10 +338,25 @@ Remember: CALL these tools, don't write code about them!`;
 
         if (costResult && costResult.totalWithFee > 0) {
           const description = `AI Chat [${model}] - ${usage.totalTokens || 0} tokens`;
+
+          // The summarized history is left out of every step's input
+          const contextTokensSaved = context.tokensSaved * steps.length;
+          const savedCost =
+            contextTokensSaved > 0
+              ? await calculateCost(model, {
+                  inputTokens: contextTokensSaved,
+                  outputTokens: 0,
+                })
+              : null;
+
           const metadata = {
             model,
             inputTokens: usage.inputTokens,
             outputTokens: usage.outputTokens,
+            ...(savedCost && {
+              contextTokensSaved,
+              contextUsdSaved: savedCost.totalWithFee,
+            }),
           };
 
           // Use totalWithFee (includes 20% platform fee) as the billable amount
@@ -845,6 +430,35 @@ Remember: CALL these tools, don't write code about them!`;
     headers: {
       "X-Agent-Name": encodeURIComponent(agentName),
     },
+    originalMessages: messages,
+    generateMessageId,
+    // Save the final assistant parts, including tool results
+    onFinish: async ({ responseMessage }) => {
+      if (!chatId) return;
+      try {
+        if (responseMessage.parts.length > 0) {
+          await saveAssistantMessage(chatId, responseMessage);
+        }
+      } catch (error) {
+        console.error("[Chat] Failed to save assistant message:", error);
+      }
+      if (streamId) {
+        await clearActiveStream(chatId, streamId).catch((error) => {
+          console.error("[Chat] Failed to clear active stream:", error);
+        });
+      }
+    },
+    // Keep generating after the client disconnects so onFinish still saves
+    // the reply — buffered to Redis when resumable streams are available
+    consumeSseStream: chatId
+      ? ({ stream }) => {
+          after(
+            streamId
+              ? bufferChatStream(streamId, stream)
+              : stream.pipeTo(new WritableStream()).catch(() => {}),
+          );
+        }
+      : undefined,
   });
 }
 
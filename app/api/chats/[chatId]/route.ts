@@ -42,7 +42,8 @@ export async function GET(req: NextRequest, context: RouteContext) {
           },
         },
       },
-      cacheStrategy: { ttl: 10, swr: 30 },
+      // Not cached: the chat route writes messages while it streams, and a
+      // reload must see them (and the active stream) immediately
     });
 
     if (!chat) {
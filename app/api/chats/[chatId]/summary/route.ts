@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
+import { rateLimitByUser } from "@/lib/rateLimit";
+import { estimateTokens, MAX_SUMMARY_LENGTH } from "@/lib/chat";
+
+type RouteContext = {
+  params: Promise<{ chatId: string }>;
+};
+
+const SUMMARY_SELECT = {
+  summary: true,
+  summaryTokenCount: true,
+  summaryThroughMessageId: true,
+  summaryUpdatedAt: true,
+} as const;
+
+// GET /api/chats/[chatId]/summary - Get the chat's rolling context summary
+export async function GET(req: NextRequest, context: RouteContext) {
+  const { chatId } = await context.params;
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const limited = await rateLimitByUser(auth.userId, "chat-summary-get", 60);
+  if (limited) return limited;
+
+  try {
+    const chat = await prisma.chat.findUnique({
+      where: { id: chatId },
+      select: { userId: true, ...SUMMARY_SELECT },
+    });
+
+    if (!chat) {
+      return NextResponse.json({ error: "Chat not found" }, { status: 404 });
+    }
+
+    if (chat.userId !== auth.userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    return NextResponse.json({
+      summary: chat.summary,
+      summaryTokenCount: chat.summaryTokenCount,
+      summaryThroughMessageId: chat.summaryThroughMessageId,
+      summaryUpdatedAt: chat.summaryUpdatedAt,
+    });
+  } catch (error) {
+    console.error("Failed to fetch chat summary:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch chat summary" },
+      { status: 500 },
+    );
+  }
+}
+
+// PUT /api/chats/[chatId]/summary - Edit the summary, or clear it with null
+// (clearing sends the full history to the model again until it is re-summarized)
+export async function PUT(req: NextRequest, context: RouteContext) {
+  const { chatId } = await context.params;
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const limited = await rateLimitByUser(auth.userId, "chat-summary-update", 20);
+  if (limited) return limited;
+
+  try {
+    const chat = await prisma.chat.findUnique({
+      where: { id: chatId },
+      select: { userId: true, summary: true },
+    });
+
+    if (!chat) {
+      return NextResponse.json({ error: "Chat not found" }, { status: 404 });
+    }
+
+    if (chat.userId !== auth.userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    let body;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    const { summary } = body as { summary?: string | null };
+
+    if (summary === null) {
+      const updated = await prisma.chat.update({
+        where: { id: chatId },
+        data: {
+          summary: null,
+          summaryTokenCount: null,
+          summaryThroughMessageId: null,
+          summaryUpdatedAt: new Date(),
+        },
+        select: SUMMARY_SELECT,
+      });
+      return NextResponse.json(updated);
+    }
+
+    if (typeof summary !== "string" || !summary.trim()) {
+      return NextResponse.json(
+        { error: "summary must be a non-empty string or null" },
+        { status: 400 },
+      );
+    }
+
+    if (summary.length > MAX_SUMMARY_LENGTH) {
+      return NextResponse.json(
+        {
+          error: `Summary exceeds maximum length of ${MAX_SUMMARY_LENGTH} characters`,
+        },
+        { status: 400 },
+      );
+    }
+
+    // Only an existing summary can be edited — it defines which messages it covers
+    if (!chat.summary) {
+      return NextResponse.json(
+        { error: "This chat has no summary yet" },
+        { status: 400 },
+      );
+    }
+
+    const text = summary.trim();
+    const updated = await prisma.chat.update({
+      where: { id: chatId },
+      data: {
+        summary: text,
+        summaryTokenCount: estimateTokens(text),
+        summaryUpdatedAt: new Date(),
+      },
+      select: SUMMARY_SELECT,
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error("Failed to update chat summary:", error);
+    return NextResponse.json(
+      { error: "Failed to update chat summary" },
+      { status: 500 },
+    );
+  }
+}
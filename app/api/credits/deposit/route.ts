@@ -0,0 +1,144 @@
+/**
+ * Prepaid Credits — Deposit
+ *
+ * POST /api/credits/deposit — Move SOL from the active wallet to the treasury
+ * and credit it to the user's prepaid balance.
+ *
+ * Body: { amountSol: number }
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
+import { rateLimitByUser } from "@/lib/rateLimit";
+import {
+  sendSolFromWallet,
+  hasEnoughBalance,
+  isServerWalletConfigured,
+  withWalletLock,
+} from "@/lib/privy/wallet-service";
+import { TREASURY_ADDRESS } from "@/lib/x402/config";
+import { lamportsToUsd } from "@/lib/x402/sol-facilitator";
+import {
+  depositCredits,
+  MIN_DEPOSIT_SOL,
+  MAX_DEPOSIT_SOL,
+} from "@/lib/credits";
+import { lamportsToSol } from "@/lib/utils/solana";
+
+export async function POST(req: NextRequest) {
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const rateLimited = await rateLimitByUser(auth.userId, "credits-deposit", 5);
+  if (rateLimited) return rateLimited;
+
+  if (!TREASURY_ADDRESS || !isServerWalletConfigured()) {
+    return NextResponse.json(
+      { error: "Payment system unavailable" },
+      { status: 503 },
+    );
+  }
+
+  if (!auth.walletId || !auth.walletAddress) {
+    return NextResponse.json(
+      { error: "No wallet associated with account" },
+      { status: 403 },
+    );
+  }
+
+  let body: { amountSol?: number };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const amountSol = Number(body.amountSol);
+  if (
+    !Number.isFinite(amountSol) ||
+    amountSol < MIN_DEPOSIT_SOL ||
+    amountSol > MAX_DEPOSIT_SOL
+  ) {
+    return NextResponse.json(
+      {
+        error: `amountSol must be between ${MIN_DEPOSIT_SOL} and ${MAX_DEPOSIT_SOL}`,
+      },
+      { status: 400 },
+    );
+  }
+
+  const lamports = BigInt(Math.round(amountSol * LAMPORTS_PER_SOL));
+  const walletId = auth.walletId;
+  const walletAddress = auth.walletAddress;
+
+  try {
+    const result = await withWalletLock(walletAddress, async () => {
+      if (!(await hasEnoughBalance(walletAddress, lamports))) {
+        return {
+          status: 402,
+          error: `Insufficient wallet balance: need ${lamportsToSol(lamports)} SOL plus fees`,
+        };
+      }
+
+      const transfer = await sendSolFromWallet(
+        walletId,
+        walletAddress,
+        TREASURY_ADDRESS,
+        lamports,
+      );
+      if (!transfer.success) {
+        return {
+          status: 502,
+          error: transfer.error || "Deposit transfer failed",
+        };
+      }
+
+      const usdAmount = await lamportsToUsd(lamports).catch(() => undefined);
+      const deposit = await depositCredits(auth.userId, lamports, {
+        txSignature: transfer.signature,
+        usdAmount,
+        description: "Manual deposit",
+      });
+
+      if (!deposit.success) {
+        console.error(
+          `[Credits] Deposit ${transfer.signature} for ${auth.userId} not credited: ${deposit.error}`,
+        );
+        return {
+          status: 500,
+          error: "Deposit received but not yet credited — contact support",
+          txSignature: transfer.signature,
+        };
+      }
+
+      return { status: 201, deposit };
+    });
+
+    if ("error" in result) {
+      return NextResponse.json(
+        { error: result.error, txSignature: result.txSignature },
+        { status: result.status },
+      );
+    }
+
+    return NextResponse.json(
+      {
+        entryId: result.deposit.entryId,
+        txSignature: result.deposit.txSignature,
+        depositedLamports: lamports.toString(),
+        balance: {
+          lamports: result.deposit.balanceLamports.toString(),
+          sol: lamportsToSol(result.deposit.balanceLamports),
+        },
+      },
+      { status: 201 },
+    );
+  } catch (error) {
+    console.error("[Credits] Deposit failed:", error);
+    return NextResponse.json(
+      { error: "Failed to deposit credits" },
+      { status: 500 },
+    );
+  }
+}
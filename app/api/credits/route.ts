@@ -0,0 +1,85 @@
+/**
+ * Prepaid Credits — Balance & History
+ *
+ * GET /api/credits — Current balance, lifetime totals and paginated ledger
+ *   ?limit=20&offset=0&type=deposit|usage
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
+import { rateLimitByUser } from "@/lib/rateLimit";
+import { getCreditHistory } from "@/lib/credits";
+import { lamportsToSol } from "@/lib/utils/solana";
+
+const MAX_PAGE_SIZE = 100;
+const VALID_TYPES = new Set(["deposit", "usage"]);
+
+export async function GET(req: NextRequest) {
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const rateLimited = await rateLimitByUser(auth.userId, "credits", 30);
+  if (rateLimited) return rateLimited;
+
+  const { searchParams } = new URL(req.url);
+  const limit = Math.min(
+    MAX_PAGE_SIZE,
+    Math.max(1, parseInt(searchParams.get("limit") || "20")),
+  );
+  const offset = Math.max(0, parseInt(searchParams.get("offset") || "0"));
+  const type = searchParams.get("type") || undefined;
+
+  if (type && !VALID_TYPES.has(type)) {
+    return NextResponse.json(
+      { error: "type must be one of: deposit, usage" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const [account, history] = await Promise.all([
+      prisma.creditAccount.findUnique({
+        where: { userId: auth.userId },
+        select: {
+          balanceLamports: true,
+          totalDepositedLamports: true,
+          totalSpentLamports: true,
+          updatedAt: true,
+        },
+      }),
+      getCreditHistory(auth.userId, { limit, offset, type }),
+    ]);
+
+    const balance = account?.balanceLamports ?? BigInt(0);
+
+    return NextResponse.json({
+      balance: {
+        lamports: balance.toString(),
+        sol: lamportsToSol(balance),
+      },
+      totalDepositedLamports: (
+        account?.totalDepositedLamports ?? BigInt(0)
+      ).toString(),
+      totalSpentLamports: (account?.totalSpentLamports ?? BigInt(0)).toString(),
+      updatedAt: account?.updatedAt ?? null,
+      entries: history.entries.map((e) => ({
+        ...e,
+        amountLamports: e.amountLamports.toString(),
+        balanceAfterLamports: e.balanceAfterLamports.toString(),
+        settled: e.type === "usage" ? e.settlementId !== null : undefined,
+      })),
+      pagination: {
+        limit,
+        offset,
+        total: history.total,
+      },
+    });
+  } catch (error) {
+    console.error("[Credits] Failed to load balance:", error);
+    return NextResponse.json(
+      { error: "Failed to load credit balance" },
+      { status: 500 },
+    );
+  }
+}
@@ -1,17 +1,26 @@
 /**
  * Task Expiry Cron
  *
- * Runs every hour via Vercel Cron. Finds all `open` tasks whose deadline
- * has passed and moves them to `cancelled`, rejecting any pending bids.
+ * Runs every hour via Vercel Cron:
+ * - Cancels `open` tasks whose deadline has passed, rejecting pending bids.
+ * - Warns both parties when an assigned task misses its deadline, and
+ *   cancels it once the grace period after that warning runs out.
+ * - Refunds held escrow on cancelled tasks, retrying earlier failures.
+ *
+ * Responds with a reconciliation report of refunds and treasury coverage.
  *
  * Protected by CRON_SECRET — rejects all requests if not configured.
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import prisma from "@/lib/prisma";
+import {
+  expireOpenTasks,
+  processLapsedAssignments,
+  reconcileEscrowRefunds,
+} from "@/lib/marketplace/expiry";
 
 export const dynamic = "force-dynamic";
-export const maxDuration = 60;
+export const maxDuration = 300;
 
 export async function GET(req: NextRequest): Promise<NextResponse> {
   const cronSecret = process.env.CRON_SECRET;
@@ -34,39 +43,34 @@ export async function GET(req: NextRequest): Promise<NextResponse> {
   const now = new Date();
 
   try {
-    // Find all open tasks whose deadline has passed
-    const expiredTasks = await prisma.marketplaceTask.findMany({
-      where: {
-        status: "open",
-        deadline: { lt: now },
-      },
-      select: { id: true, title: true },
-    });
+    const expiredIds = await expireOpenTasks(now);
+    const lapsed = await processLapsedAssignments(now);
+    const reconciliation = await reconcileEscrowRefunds(now);
 
-    if (expiredTasks.length === 0) {
-      return NextResponse.json({ expired: 0 });
+    if (expiredIds.length > 0 || lapsed.cancelled.length > 0) {
+      console.log(
+        `[Expire Tasks Cron] Expired ${expiredIds.length} open and ${lapsed.cancelled.length} assigned task(s)`,
+      );
+    }
+    if (
+      reconciliation.failed.length > 0 ||
+      reconciliation.needsReview.length > 0 ||
+      reconciliation.shortfallSol > 0
+    ) {
+      console.error("[Expire Tasks Cron] Escrow reconciliation issues:", {
+        failed: reconciliation.failed,
+        needsReview: reconciliation.needsReview,
+        shortfallSol: reconciliation.shortfallSol,
+      });
     }
 
-    const expiredIds = expiredTasks.map((t) => t.id);
-
-    // Cancel tasks and reject all pending bids in a single transaction
-    await prisma.$transaction([
-      prisma.marketplaceTask.updateMany({
-        where: { id: { in: expiredIds } },
-        data: { status: "cancelled" },
-      }),
-      prisma.marketplaceBid.updateMany({
-        where: { taskId: { in: expiredIds }, status: "pending" },
-        data: { status: "rejected" },
-      }),
-    ]);
-
-    console.log(
-      `[Expire Tasks Cron] Expired ${expiredTasks.length} task(s):`,
-      expiredIds,
-    );
-
-    return NextResponse.json({ expired: expiredTasks.length, ids: expiredIds });
+    return NextResponse.json({
+      expired: expiredIds.length,
+      ids: expiredIds,
+      deadlineNotices: lapsed.noticed.length,
+      lapsedAssignments: lapsed.cancelled,
+      reconciliation,
+    });
   } catch (error) {
     console.error("[Expire Tasks Cron] Error:", error);
     return NextResponse.json(
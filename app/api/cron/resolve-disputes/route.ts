@@ -0,0 +1,52 @@
+/**
+ * Dispute Deadline Cron
+ *
+ * Runs every 15 minutes via Vercel Cron. Moves marketplace disputes along
+ * once their deadlines pass: closes evidence (refunding the poster if the
+ * worker never responded, otherwise opening the jury vote, running the AI
+ * judge, or queuing for an admin), tallies jury votes, and retries escrow
+ * settlements that failed.
+ *
+ * Protected by CRON_SECRET — rejects all requests if not configured.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { processDueDisputes } from "@/lib/marketplace/disputes";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    console.error(
+      "[Resolve Disputes Cron] CRON_SECRET not configured — rejecting request",
+    );
+    return NextResponse.json(
+      { error: "Cron endpoint not configured" },
+      { status: 503 },
+    );
+  }
+
+  const authHeader = req.headers.get("authorization");
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const report = await processDueDisputes();
+
+    if (report.outcomes.length > 0) {
+      console.log("[Resolve Disputes Cron] Processed:", report.outcomes);
+    }
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("[Resolve Disputes Cron] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to process disputes" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Credits Settlement Cron
+ *
+ * Runs every 5 minutes via Vercel Cron to batch unsettled prepaid-credit
+ * usage debits into revenue events for the distribution system.
+ *
+ * Protected by CRON_SECRET — rejects all requests if not configured.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { settleCredits } from "@/lib/credits";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    console.error(
+      "[Credits Cron] CRON_SECRET not configured — rejecting request",
+    );
+    return NextResponse.json(
+      { error: "Cron endpoint not configured" },
+      { status: 503 },
+    );
+  }
+
+  const authHeader = req.headers.get("authorization");
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await settleCredits();
+
+    return NextResponse.json(
+      {
+        success: result.success,
+        settlementId: result.settlementId,
+        entryCount: result.entryCount,
+        userCount: result.userCount,
+        grossLamports: result.grossLamports.toString(),
+        ...(result.error && { error: result.error }),
+      },
+      { status: result.success ? 200 : 500 },
+    );
+  } catch (error) {
+    console.error("[Credits Cron] Unhandled error:", error);
+    return NextResponse.json({ error: "Settlement failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Task Watchers Cron
+ *
+ * Runs every minute via Vercel Cron to check on-chain watchers (transfers,
+ * price crossings, new holders) and fire the taskEventHook of tasks whose
+ * conditions matched. No model calls happen here.
+ *
+ * Protected by CRON_SECRET — rejects all requests if not configured.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { runTaskWatchers } from "@/lib/tasks";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    console.error(
+      "[Watchers Cron] CRON_SECRET not configured — rejecting request",
+    );
+    return NextResponse.json(
+      { error: "Cron endpoint not configured" },
+      { status: 503 },
+    );
+  }
+
+  const authHeader = req.headers.get("authorization");
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const report = await runTaskWatchers();
+    return NextResponse.json({ success: true, ...report });
+  } catch (error) {
+    console.error("[Watchers Cron] Unhandled error:", error);
+    return NextResponse.json(
+      { error: "Watcher check failed" },
+      { status: 500 },
+    );
+  }
+}
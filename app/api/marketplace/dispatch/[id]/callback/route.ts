@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { rateLimitByIP } from "@/lib/rateLimit";
+import { isTerminalDispatchState } from "@/lib/marketplace/dispatch-policy";
+import type { DispatchState } from "@/lib/marketplace/types";
+import { safeEqual } from "@/lib/tasks/triggers/signatures";
+import { dispatchCallbackHook } from "@/workflows/marketplace/hooks/dispatchCallback";
+
+/**
+ * POST /api/marketplace/dispatch/[id]/callback
+ *
+ * Where an external agent reports on a task dispatched to it: A2A push
+ * notifications (a Task object) and REST callbacks
+ * ({ status, message?, deliverables?, artifacts? }). Authenticated with the
+ * dispatch's callback token, sent as a Bearer token or, for A2A, in
+ * X-A2A-Notification-Token.
+ *
+ * The body is forwarded to the dispatch workflow via
+ * dispatchCallbackHook.resume(), which reads it without waiting for the
+ * next poll. Callbacks after the dispatch ended are acknowledged and
+ * ignored.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+
+  const rateLimited = await rateLimitByIP(req, "marketplace-dispatch", 60);
+  if (rateLimited) return rateLimited;
+
+  let dispatch;
+  try {
+    dispatch = await prisma.marketplaceDispatch.findUnique({
+      where: { id },
+      select: { state: true, callbackToken: true },
+    });
+  } catch (error) {
+    console.error("[Marketplace] Dispatch callback lookup error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+
+  if (!dispatch) {
+    return NextResponse.json({ error: "Dispatch not found" }, { status: 404 });
+  }
+
+  const authorization = req.headers.get("authorization") ?? "";
+  const token = authorization.startsWith("Bearer ")
+    ? authorization.slice("Bearer ".length).trim()
+    : (req.headers.get("x-a2a-notification-token") ?? "");
+  if (!token || !safeEqual(token, dispatch.callbackToken)) {
+    return NextResponse.json(
+      { error: "Invalid callback token" },
+      { status: 401 },
+    );
+  }
+
+  if (isTerminalDispatchState(dispatch.state as DispatchState)) {
+    return NextResponse.json({ accepted: false, state: dispatch.state });
+  }
+
+  let payload: unknown;
+  try {
+    payload = await req.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Callback body must be JSON" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    await dispatchCallbackHook.resume(id, { payload });
+  } catch (error) {
+    console.error(
+      `[Marketplace] Failed to resume dispatch workflow for ${id}:`,
+      error,
+    );
+    return NextResponse.json(
+      { error: "Failed to deliver callback — the dispatch may not be running" },
+      { status: 502 },
+    );
+  }
+
+  return NextResponse.json({ accepted: true }, { status: 202 });
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
+import { rateLimitByUser } from "@/lib/rateLimit";
+import { getJurorStake, listJuryDisputes } from "@/lib/marketplace/disputes";
+import { DISPUTE_JUROR_MIN_STAKE } from "@/lib/marketplace/types";
+
+/**
+ * GET /api/marketplace/disputes
+ *
+ * The jury queue: disputes open for voting that the user isn't a party to,
+ * with their stake. Only wallets with enough $AGENTINC staked can sit.
+ */
+export async function GET(req: NextRequest) {
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const limited = await rateLimitByUser(
+    auth.userId,
+    "marketplace-jury-queue",
+    30,
+  );
+  if (limited) return limited;
+
+  try {
+    const stake = await getJurorStake(auth.userId);
+    const eligible = stake >= DISPUTE_JUROR_MIN_STAKE;
+
+    return NextResponse.json({
+      stake,
+      minStake: DISPUTE_JUROR_MIN_STAKE,
+      eligible,
+      disputes: eligible ? await listJuryDisputes(auth.userId) : [],
+    });
+  } catch (error) {
+    console.error("[Marketplace] Error fetching jury queue:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch disputes" },
+      { status: 500 },
+    );
+  }
+}
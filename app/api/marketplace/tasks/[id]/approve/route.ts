@@ -2,7 +2,15 @@ import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
 import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
 import { rateLimitByUser } from "@/lib/rateLimit";
-import { releaseEscrow, claimTaskTokenFees } from "@/lib/marketplace/escrow";
+import {
+  releaseEscrow,
+  claimTaskTokenFees,
+  heldEscrowSol,
+} from "@/lib/marketplace/escrow";
+import {
+  hasMilestoneReleaseInFlight,
+  recordFinalRelease,
+} from "@/lib/marketplace/milestones";
 import { sendEmail, taskApprovedEmail } from "@/lib/email";
 
 interface RouteParams {
@@ -26,8 +34,6 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
         posterId: true,
         workerId: true,
         workerAgentId: true,
-        escrowAmount: true,
-        escrowStatus: true,
         budgetSol: true,
         listingId: true,
         tokenMint: true,
@@ -73,6 +79,22 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
       );
     }
 
+    // Completed tasks can't reserve milestone payments, so this check can't
+    // go stale; one that reserved before the transition must land first
+    if (await hasMilestoneReleaseInFlight(id)) {
+      await prisma.marketplaceTask.update({
+        where: { id },
+        data: { status: "review", completedAt: null },
+      });
+      return NextResponse.json(
+        {
+          error:
+            "A milestone payment is still in progress. Try again once it completes.",
+        },
+        { status: 409 },
+      );
+    }
+
     // Resolve worker wallet — human worker directly, agent worker via creator
     let workerWalletAddress: string | null = null;
 
@@ -105,9 +127,20 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
       );
     }
 
-    // Release SOL escrow if held
-    const escrowAmount = Number(task.escrowAmount ?? task.budgetSol);
-    if (escrowAmount && task.escrowStatus === "held") {
+    // Release whatever escrow is still held; milestones may have paid some.
+    // Re-read after the transition so a milestone paid since counts.
+    const escrow = await prisma.marketplaceTask.findUniqueOrThrow({
+      where: { id },
+      select: {
+        escrowStatus: true,
+        escrowAmount: true,
+        escrowReleasedSol: true,
+        budgetSol: true,
+      },
+    });
+    const escrowAmount =
+      escrow.escrowStatus === "held" ? heldEscrowSol(escrow) : 0;
+    if (escrowAmount) {
       const escrowResult = await releaseEscrow(
         id,
         workerWalletAddress,
@@ -124,6 +157,11 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
           { status: 500 },
         );
       }
+      await recordFinalRelease(
+        id,
+        escrowAmount,
+        escrowResult.txSignature ?? null,
+      );
     }
 
     // Claim task token creator fees and forward to worker (non-blocking)
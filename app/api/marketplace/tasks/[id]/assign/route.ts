@@ -3,6 +3,7 @@ import prisma from "@/lib/prisma";
 import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
 import { rateLimitByUser } from "@/lib/rateLimit";
 import { sendEmail, taskAssignedEmail } from "@/lib/email";
+import { startAgentWork } from "@/lib/marketplace/agent-work";
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -104,6 +105,9 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
       return { chatId: chat.id };
     });
 
+    // A hired Agent Inc agent starts working the task on its own
+    if (bid.bidderAgentId) await startAgentWork(id);
+
     // Notify worker via email (fire-and-forget)
     if (bid.bidderId) {
       prisma.user
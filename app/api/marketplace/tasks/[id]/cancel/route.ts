@@ -2,7 +2,8 @@ import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
 import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
 import { rateLimitByUser } from "@/lib/rateLimit";
-import { refundEscrow } from "@/lib/marketplace/escrow";
+import { refundTaskEscrow } from "@/lib/marketplace/expiry";
+import { hasActiveDispute } from "@/lib/marketplace/disputes";
 import { sendEmail, taskCancelledEmail } from "@/lib/email";
 
 interface RouteParams {
@@ -53,31 +54,23 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
       );
     }
 
-    // Atomic status transition to prevent double-cancel race condition
-    const { count: transitioned } = await prisma.marketplaceTask.updateMany({
-      where: { id, status: { in: cancellableStatuses } },
-      data: { status: "cancelled" },
-    });
-    if (transitioned === 0) {
+    if (task.status === "disputed" && (await hasActiveDispute(id))) {
       return NextResponse.json(
-        { error: "Task status changed concurrently. Please refresh." },
+        {
+          error:
+            "This task's dispute is in arbitration. It will be settled by the ruling.",
+        },
         { status: 409 },
       );
     }
 
-    // Refund escrow if held
+    // A refund can't go anywhere without a wallet, so don't cancel yet
     if (task.escrowStatus === "held") {
       const posterUser = await prisma.user.findUnique({
         where: { id: auth.userId },
         select: { activeWallet: { select: { address: true } } },
       });
-
       if (!posterUser?.activeWallet?.address) {
-        // Revert cancellation — can't lose escrowed funds
-        await prisma.marketplaceTask.update({
-          where: { id },
-          data: { status: task.status },
-        });
         return NextResponse.json(
           {
             error: "No wallet found for refund. Please connect a wallet first.",
@@ -85,23 +78,31 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
           { status: 400 },
         );
       }
+    }
 
-      const refundResult = await refundEscrow(
-        id,
-        posterUser.activeWallet.address,
-        Number(task.escrowAmount ?? task.budgetSol),
+    // Atomic status transition to prevent double-cancel race condition
+    const { count: transitioned } = await prisma.marketplaceTask.updateMany({
+      where: { id, status: { in: cancellableStatuses } },
+      data: { status: "cancelled" },
+    });
+    if (transitioned === 0) {
+      return NextResponse.json(
+        { error: "Task status changed concurrently. Please refresh." },
+        { status: 409 },
       );
+    }
 
-      if (!refundResult.success) {
-        // Revert cancellation so user can retry
-        await prisma.marketplaceTask.update({
-          where: { id },
-          data: { status: task.status },
-        });
-        return NextResponse.json(
-          { error: "Refund failed. Please try again or contact support." },
-          { status: 500 },
-        );
+    // Refund escrow if held. A failed refund keeps the cancellation and is
+    // retried by the expire-tasks cron.
+    let refundError: string | null = null;
+    if (task.escrowStatus === "held") {
+      const refund = await refundTaskEscrow(id);
+      if (refund.status === "failed") {
+        console.error("[Marketplace] Escrow refund failed:", refund.error);
+        refundError =
+          "The task was cancelled, but the escrow refund failed. It will be retried automatically.";
+      } else if (refund.status === "skipped") {
+        refundError = `The task was cancelled, but the escrow refund is on hold: ${refund.reason}.`;
       }
     }
 
@@ -144,6 +145,13 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
         .catch(() => {});
     }
 
+    if (refundError) {
+      return NextResponse.json({
+        success: true,
+        refundPending: true,
+        error: refundError,
+      });
+    }
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("[Marketplace] Error cancelling task:", error);
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
+import { rateLimitByUser } from "@/lib/rateLimit";
+import { submitDisputeEvidence } from "@/lib/marketplace/disputes";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/marketplace/tasks/[id]/dispute/evidence
+ *
+ * The poster or worker adds a statement to the open dispute, with files
+ * uploaded through /dispute/upload. Accepted until the response deadline.
+ */
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const limited = await rateLimitByUser(
+    auth.userId,
+    "marketplace-dispute-evidence",
+    10,
+  );
+  if (limited) return limited;
+
+  const { id } = await params;
+
+  try {
+    const body = await req.json();
+    const result = await submitDisputeEvidence(id, auth.userId, {
+      text: body.text,
+      attachments: body.attachments,
+    });
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+    return NextResponse.json({ success: true, evidenceId: result.evidenceId });
+  } catch (error) {
+    console.error("[Marketplace] Error submitting dispute evidence:", error);
+    return NextResponse.json(
+      { error: "Failed to submit evidence" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
+import { rateLimitByUser } from "@/lib/rateLimit";
+import {
+  isDisputeArbitrator,
+  ruleDispute,
+  settleDispute,
+} from "@/lib/marketplace/disputes";
+import { ACTIVE_DISPUTE_STATUSES } from "@/lib/marketplace/types";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/marketplace/tasks/[id]/dispute/resolve
+ *
+ * A platform arbitrator rules on the task's dispute ({ workerPercent,
+ * reasoning }) and the escrow is paid out: 100 releases it to the worker,
+ * 0 refunds the poster, anything between splits it. On a dispute whose
+ * settlement failed, retries the payout instead.
+ */
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  if (!isDisputeArbitrator(auth.userId)) {
+    return NextResponse.json(
+      { error: "Only platform arbitrators can resolve disputes" },
+      { status: 403 },
+    );
+  }
+
+  const limited = await rateLimitByUser(
+    auth.userId,
+    "marketplace-dispute-resolve",
+    20,
+  );
+  if (limited) return limited;
+
+  const { id } = await params;
+
+  try {
+    const dispute = await prisma.marketplaceDispute.findFirst({
+      where: {
+        taskId: id,
+        status: { in: [...ACTIVE_DISPUTE_STATUSES, "settling"] },
+      },
+      orderBy: { createdAt: "desc" },
+      select: { id: true, status: true },
+    });
+    if (!dispute) {
+      return NextResponse.json(
+        { error: "This task has no dispute awaiting a ruling" },
+        { status: 404 },
+      );
+    }
+
+    if (dispute.status === "settling") {
+      const retried = await settleDispute(dispute.id);
+      if (!retried.ok) {
+        return NextResponse.json({ error: retried.error }, { status: 502 });
+      }
+      return NextResponse.json({ success: true, ...retried });
+    }
+
+    const body = await req.json();
+    if (typeof body.reasoning !== "string" || !body.reasoning.trim()) {
+      return NextResponse.json(
+        { error: "reasoning is required and must be a non-empty string" },
+        { status: 400 },
+      );
+    }
+
+    const result = await ruleDispute(
+      dispute.id,
+      { workerPercent: body.workerPercent, reasoning: body.reasoning },
+      { ruledBy: "admin", arbitratorId: auth.userId },
+    );
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("[Marketplace] Error resolving dispute:", error);
+    return NextResponse.json(
+      { error: "Failed to resolve dispute" },
+      { status: 500 },
+    );
+  }
+}
@@ -3,11 +3,40 @@ import prisma from "@/lib/prisma";
 import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
 import { rateLimitByUser } from "@/lib/rateLimit";
 import { sendEmail, disputeFiledEmail } from "@/lib/email";
+import { getTaskDispute, openDispute } from "@/lib/marketplace/disputes";
 
 interface RouteParams {
   params: Promise<{ id: string }>;
 }
 
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const limited = await rateLimitByUser(
+    auth.userId,
+    "marketplace-dispute-view",
+    60,
+  );
+  if (limited) return limited;
+
+  const { id } = await params;
+
+  try {
+    const dispute = await getTaskDispute(id, auth.userId);
+    if (!dispute) {
+      return NextResponse.json({ error: "Dispute not found" }, { status: 404 });
+    }
+    return NextResponse.json({ dispute });
+  } catch (error) {
+    console.error("[Marketplace] Error fetching dispute:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch dispute" },
+      { status: 500 },
+    );
+  }
+}
+
 export async function POST(req: NextRequest, { params }: RouteParams) {
   const auth = await requireAuth(req);
   if (!isAuthResult(auth)) return auth;
@@ -24,6 +53,7 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
         status: true,
         posterId: true,
         workerId: true,
+        workerAgent: { select: { createdById: true } },
         title: true,
         budgetSol: true,
         tokenMint: true,
@@ -67,16 +97,22 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
       );
     }
 
-    await prisma.marketplaceTask.update({
-      where: { id },
-      data: { status: "disputed", disputeReason: body.reason.trim() },
+    const opened = await openDispute(id, auth.userId, {
+      reason: body.reason,
+      attachments: body.attachments,
+      arbitrationMethod: body.arbitrationMethod,
     });
+    if (!opened.ok) {
+      return NextResponse.json({ error: opened.error }, { status: 400 });
+    }
 
-    // Notify worker via email (fire-and-forget)
-    if (task.workerId) {
+    // Notify worker via email (fire-and-forget) — an agent's creator
+    // answers for it, and the response deadline applies to them
+    const workerUserId = task.workerId ?? task.workerAgent?.createdById;
+    if (workerUserId) {
       prisma.user
         .findUnique({
-          where: { id: task.workerId },
+          where: { id: workerUserId },
           select: { email: true },
         })
         .then((worker) => {
@@ -90,6 +126,7 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
               tokenSymbol: task.tokenSymbol,
               featuredImage: task.featuredImage,
               disputeReason: body.reason.trim(),
+              responseDeadline: opened.responseDeadline,
             });
             sendEmail({ to: worker.email, subject, html });
           }
@@ -97,7 +134,11 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
         .catch(() => {});
     }
 
-    return NextResponse.json({ success: true });
+    return NextResponse.json({
+      success: true,
+      disputeId: opened.disputeId,
+      responseDeadline: opened.responseDeadline,
+    });
   } catch (error) {
     console.error("[Marketplace] Error disputing task:", error);
     return NextResponse.json({ error: "Failed to dispute" }, { status: 500 });
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from "next/server";
+import { put } from "@vercel/blob";
+import prisma from "@/lib/prisma";
+import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
+import { rateLimitByUser } from "@/lib/rateLimit";
+import { disputePartyOf } from "@/lib/marketplace/dispute-policy";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+const ALLOWED_TYPES: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/gif": "gif",
+  "application/pdf": "pdf",
+  "text/plain": "txt",
+  "application/zip": "zip",
+};
+
+const MAX_SIZE = 10 * 1024 * 1024; // 10MB
+
+/**
+ * POST /api/marketplace/tasks/[id]/dispute/upload
+ *
+ * Upload a file for dispute evidence (images, PDF, text, or zip). Returns
+ * the URL to pass in the evidence's attachments.
+ */
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const limited = await rateLimitByUser(
+    auth.userId,
+    "marketplace-dispute-upload",
+    20,
+  );
+  if (limited) return limited;
+
+  const { id } = await params;
+
+  try {
+    const task = await prisma.marketplaceTask.findUnique({
+      where: { id },
+      select: {
+        status: true,
+        posterId: true,
+        workerId: true,
+        workerAgent: { select: { createdById: true } },
+      },
+    });
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+    if (!disputePartyOf(task, auth.userId)) {
+      return NextResponse.json(
+        { error: "Only the poster and worker can upload evidence" },
+        { status: 403 },
+      );
+    }
+    if (task.status !== "disputed") {
+      return NextResponse.json(
+        { error: "Task is not disputed" },
+        { status: 400 },
+      );
+    }
+
+    const formData = await req.formData();
+    const file = formData.get("file") as File | null;
+
+    if (!file) {
+      return NextResponse.json({ error: "No file provided" }, { status: 400 });
+    }
+
+    const ext = ALLOWED_TYPES[file.type];
+    if (!ext) {
+      return NextResponse.json(
+        {
+          error:
+            "Invalid file type. Allowed: PNG, JPEG, WebP, GIF, PDF, TXT, ZIP",
+        },
+        { status: 400 },
+      );
+    }
+
+    if (file.size > MAX_SIZE) {
+      return NextResponse.json(
+        { error: "File must be less than 10MB" },
+        { status: 400 },
+      );
+    }
+
+    const sanitized = file.name
+      .replace(/\.[^.]+$/, "")
+      .replace(/[^a-z0-9]/gi, "-")
+      .toLowerCase()
+      .slice(0, 60);
+    const filename = `marketplace/disputes/${id}/${sanitized}-${Date.now()}.${ext}`;
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const blob = await put(filename, buffer, {
+      access: "public",
+      contentType: file.type,
+    });
+
+    return NextResponse.json({ url: blob.url, name: file.name });
+  } catch (error) {
+    console.error("[Marketplace] Error uploading dispute evidence:", error);
+    return NextResponse.json(
+      { error: "Failed to upload file" },
+      { status: 500 },
+    );
+  }
+}
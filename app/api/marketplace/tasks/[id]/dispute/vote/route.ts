@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
+import { rateLimitByUser } from "@/lib/rateLimit";
+import { castDisputeVote } from "@/lib/marketplace/disputes";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/marketplace/tasks/[id]/dispute/vote
+ *
+ * A staked juror votes on the share of the escrow the worker has earned
+ * ({ workerPercent: 0-100, reason? }). Votes are weighted by stake.
+ */
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const limited = await rateLimitByUser(
+    auth.userId,
+    "marketplace-dispute-vote",
+    10,
+  );
+  if (limited) return limited;
+
+  const { id } = await params;
+
+  try {
+    const body = await req.json();
+    const result = await castDisputeVote(id, auth.userId, {
+      workerPercent: body.workerPercent,
+      reason: body.reason,
+    });
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+    return NextResponse.json({
+      success: true,
+      stakeWeight: result.stakeWeight,
+    });
+  } catch (error) {
+    console.error("[Marketplace] Error casting dispute vote:", error);
+    return NextResponse.json({ error: "Failed to vote" }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
+import { rateLimitByUser } from "@/lib/rateLimit";
+import { approveMilestone } from "@/lib/marketplace/milestones";
+
+interface RouteParams {
+  params: Promise<{ id: string; milestoneId: string }>;
+}
+
+/**
+ * POST /api/marketplace/tasks/[id]/milestones/[milestoneId]/approve
+ *
+ * The poster accepts a submitted milestone, releasing its amount from
+ * escrow to the worker. Approving again retries a failed payment.
+ */
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const limited = await rateLimitByUser(
+    auth.userId,
+    "marketplace-milestone-approve",
+    10,
+  );
+  if (limited) return limited;
+
+  const { id, milestoneId } = await params;
+
+  try {
+    const result = await approveMilestone(id, milestoneId, auth.userId);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status },
+      );
+    }
+    return NextResponse.json({ success: true, milestone: result.milestone });
+  } catch (error) {
+    console.error("[Marketplace] Error approving milestone:", error);
+    return NextResponse.json(
+      { error: "Failed to approve milestone" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
+import { rateLimitByUser } from "@/lib/rateLimit";
+import { rejectMilestone } from "@/lib/marketplace/milestones";
+
+interface RouteParams {
+  params: Promise<{ id: string; milestoneId: string }>;
+}
+
+/**
+ * POST /api/marketplace/tasks/[id]/milestones/[milestoneId]/reject
+ *
+ * The poster sends a submitted milestone back to the worker with a reason.
+ */
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const limited = await rateLimitByUser(
+    auth.userId,
+    "marketplace-milestone-reject",
+    10,
+  );
+  if (limited) return limited;
+
+  const { id, milestoneId } = await params;
+
+  try {
+    const body = await req.json();
+    const result = await rejectMilestone(
+      id,
+      milestoneId,
+      auth.userId,
+      body.reason,
+    );
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status },
+      );
+    }
+    return NextResponse.json({ success: true, milestone: result.milestone });
+  } catch (error) {
+    console.error("[Marketplace] Error rejecting milestone:", error);
+    return NextResponse.json(
+      { error: "Failed to reject milestone" },
+      { status: 500 },
+    );
+  }
+}
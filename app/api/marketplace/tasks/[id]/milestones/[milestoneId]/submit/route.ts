@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
+import { rateLimitByUser } from "@/lib/rateLimit";
+import { submitMilestone } from "@/lib/marketplace/milestones";
+
+interface RouteParams {
+  params: Promise<{ id: string; milestoneId: string }>;
+}
+
+/**
+ * POST /api/marketplace/tasks/[id]/milestones/[milestoneId]/submit
+ *
+ * The worker hands in a milestone's deliverables for the poster's review.
+ * A rejected milestone can be resubmitted.
+ */
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const limited = await rateLimitByUser(
+    auth.userId,
+    "marketplace-milestone-submit",
+    10,
+  );
+  if (limited) return limited;
+
+  const { id, milestoneId } = await params;
+
+  try {
+    const body = await req.json();
+    const result = await submitMilestone(
+      id,
+      milestoneId,
+      auth.userId,
+      body.deliverables,
+    );
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status },
+      );
+    }
+    return NextResponse.json({ success: true, milestone: result.milestone });
+  } catch (error) {
+    console.error("[Marketplace] Error submitting milestone:", error);
+    return NextResponse.json(
+      { error: "Failed to submit milestone" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { rateLimitByIP } from "@/lib/rateLimit";
+import { listMilestones } from "@/lib/marketplace/milestones";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/marketplace/tasks/[id]/milestones
+ *
+ * The task's milestones in order, with their review and payment status.
+ */
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  const limited = await rateLimitByIP(req, "marketplace-milestones", 60);
+  if (limited) return limited;
+
+  const { id } = await params;
+
+  try {
+    const milestones = await listMilestones(id);
+    if (!milestones) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+    return NextResponse.json({ milestones });
+  } catch (error) {
+    console.error("[Marketplace] Error fetching milestones:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch milestones" },
+      { status: 500 },
+    );
+  }
+}
@@ -3,6 +3,7 @@ import prisma from "@/lib/prisma";
 import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
 import { rateLimitByIP, rateLimitByUser } from "@/lib/rateLimit";
 import { fetchEarningsFromBags } from "@/lib/prices";
+import { listMilestones } from "@/lib/marketplace/milestones";
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -59,6 +60,19 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
           },
           orderBy: { createdAt: "desc" },
         },
+        disputes: {
+          select: {
+            id: true,
+            status: true,
+            arbitrationMethod: true,
+            responseDeadline: true,
+            votingDeadline: true,
+            outcome: true,
+            workerPercent: true,
+          },
+          orderBy: { createdAt: "desc" },
+          take: 1,
+        },
       },
       ...(!skipCache && { cacheStrategy: { ttl: 5, swr: 15 } }),
     });
@@ -67,6 +81,8 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: "Task not found" }, { status: 404 });
     }
 
+    const milestones = (await listMilestones(id)) ?? [];
+
     let liveEarnings: number | undefined;
     if (task.tokenMint) {
       try {
@@ -76,7 +92,11 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
       }
     }
 
-    return NextResponse.json({ ...task, liveEarnings });
+    return NextResponse.json({
+      ...task,
+      milestones,
+      liveEarnings,
+    });
   } catch (error) {
     console.error("[Marketplace] Error fetching task:", error);
     return NextResponse.json(
@@ -172,6 +192,8 @@ export async function PATCH(req: NextRequest, { params }: RouteParams) {
       } else {
         data.deadline = null;
       }
+      // A new deadline gets its own missed-deadline notice and grace period
+      data.deadlineNoticeAt = null;
     }
 
     if (Object.keys(data).length === 0) {
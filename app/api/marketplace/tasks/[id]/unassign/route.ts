@@ -3,6 +3,7 @@ import prisma from "@/lib/prisma";
 import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
 import { rateLimitByUser } from "@/lib/rateLimit";
 import { sendEmail, taskUnassignedEmail } from "@/lib/email";
+import { hasActiveDispute } from "@/lib/marketplace/disputes";
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -53,6 +54,16 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
       );
     }
 
+    if (task.status === "disputed" && (await hasActiveDispute(id))) {
+      return NextResponse.json(
+        {
+          error:
+            "This task's dispute is in arbitration. It will be settled by the ruling.",
+        },
+        { status: 409 },
+      );
+    }
+
     const previousWorkerId = task.workerId;
 
     await prisma.$transaction(async (tx) => {
@@ -66,6 +77,11 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
           chatId: null,
           deliverables: null,
           disputeReason: null,
+          workRunId: null,
+          workStatus: null,
+          workBudgetUsd: null,
+          workSpentUsd: 0,
+          workError: null,
         },
       });
 
@@ -73,6 +89,23 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
         throw new Error("CONCURRENT_CHANGE");
       }
 
+      // The next worker starts over on every milestone not yet paid
+      await tx.marketplaceMilestone.updateMany({
+        where: {
+          taskId: id,
+          status: { not: "released" },
+          releaseStartedAt: null,
+        },
+        data: {
+          status: "pending",
+          deliverables: null,
+          submittedAt: null,
+          rejectionReason: null,
+          reviewedAt: null,
+          releaseError: null,
+        },
+      });
+
       // Reset all non-withdrawn bids back to pending so the poster can reassign
       await tx.marketplaceBid.updateMany({
         where: { taskId: id, status: { in: ["accepted", "rejected"] } },
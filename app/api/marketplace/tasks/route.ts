@@ -10,6 +10,7 @@ import {
   type TaskStatus,
 } from "@/lib/marketplace/types";
 import { createEscrow } from "@/lib/marketplace/escrow";
+import { validateMilestones } from "@/lib/marketplace/milestone-policy";
 import type { Prisma } from "@/app/generated/prisma/client";
 
 export async function GET(req: NextRequest) {
@@ -261,27 +262,10 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Validate milestones structure
-    if (body.milestones) {
-      if (
-        !Array.isArray(body.milestones) ||
-        !body.milestones.every((m: unknown) => {
-          if (typeof m !== "object" || m === null) return false;
-          const ms = m as Record<string, unknown>;
-          return (
-            typeof ms.title === "string" &&
-            typeof ms.amountSol === "number" &&
-            typeof ms.status === "string"
-          );
-        })
-      ) {
-        return NextResponse.json(
-          {
-            error: "milestones must be an array of {title, amountSol, status}",
-          },
-          { status: 400 },
-        );
-      }
+    // Validate milestones; their amounts are paid out of the budget
+    const milestones = validateMilestones(body.milestones ?? [], budgetSol);
+    if (!milestones.ok) {
+      return NextResponse.json({ error: milestones.error }, { status: 400 });
     }
 
     const needsEscrow = budgetSol > 0;
@@ -294,9 +278,12 @@ export async function POST(req: NextRequest) {
         requirements: body.requirements || [],
         budgetSol: budgetSol,
         budgetToken: body.budgetToken,
-        milestones: body.milestones
-          ? (body.milestones as unknown as Prisma.InputJsonValue)
-          : undefined,
+        milestones: {
+          create: milestones.milestones.map((m, position) => ({
+            ...m,
+            position,
+          })),
+        },
         listingId: body.listingId,
         location: body.location,
         isRemote: body.isRemote ?? true,
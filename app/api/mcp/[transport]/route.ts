@@ -20,6 +20,9 @@ import {
   checkTaskStatus,
   approveDelivery,
   getTaskDetail,
+  listTaskMilestones,
+  submitMilestoneWork,
+  reviewMilestoneWork,
 } from "@/lib/marketplace/tools";
 
 const handler = createMcpHandler(
@@ -128,6 +131,26 @@ const handler = createMcpHandler(
       },
     );
 
+    server.registerTool(
+      "marketplace_list_milestones",
+      {
+        title: "List Task Milestones",
+        description:
+          "List a marketplace task's milestones in order, with their amounts, due dates, deliverables, and review and payment status.",
+        inputSchema: {
+          taskId: z.string().describe("The task ID"),
+        },
+      },
+      async ({ taskId }) => {
+        const result = await listTaskMilestones(taskId);
+        return {
+          content: [
+            { type: "text" as const, text: JSON.stringify(result, null, 2) },
+          ],
+        };
+      },
+    );
+
     // ── Write tools (require authentication context) ─────────────────
     // In production, these would be gated by x402 payment headers.
     // For now, they require a userId passed as a parameter.
@@ -188,6 +211,22 @@ const handler = createMcpHandler(
             .array(z.string())
             .optional()
             .describe("List of requirements"),
+          milestones: z
+            .array(
+              z.object({
+                title: z.string().describe("Milestone title"),
+                amountSol: z
+                  .number()
+                  .positive()
+                  .describe("SOL released when it's approved"),
+                description: z.string().optional(),
+                dueDate: z.string().optional().describe("ISO 8601 due date"),
+              }),
+            )
+            .optional()
+            .describe(
+              "Split the budget into milestones, each paid on approval. Amounts can't exceed the budget.",
+            ),
           userId: z.string().describe("Your user ID for authentication"),
         },
       },
@@ -250,6 +289,62 @@ const handler = createMcpHandler(
         };
       },
     );
+
+    server.registerTool(
+      "marketplace_submit_milestone",
+      {
+        title: "Submit Milestone",
+        description:
+          "Submit the deliverables for one milestone of a task you're working on, for the poster's review. Rejected milestones can be resubmitted.",
+        inputSchema: {
+          taskId: z.string().describe("The task ID"),
+          milestoneId: z.string().describe("The milestone ID"),
+          deliverables: z
+            .string()
+            .describe("The work for this milestone: text, links, or results"),
+          userId: z
+            .string()
+            .describe("Your user ID (must be the assigned worker)"),
+        },
+      },
+      async (params) => {
+        const result = await submitMilestoneWork(params);
+        return {
+          content: [
+            { type: "text" as const, text: JSON.stringify(result, null, 2) },
+          ],
+        };
+      },
+    );
+
+    server.registerTool(
+      "marketplace_review_milestone",
+      {
+        title: "Review Milestone",
+        description:
+          "Approve a submitted milestone, releasing its SOL from escrow to the worker, or reject it with a reason so the worker can rework it.",
+        inputSchema: {
+          taskId: z.string().describe("The task ID"),
+          milestoneId: z.string().describe("The milestone ID"),
+          decision: z
+            .enum(["approve", "reject"])
+            .describe("Approve and pay, or reject"),
+          reason: z
+            .string()
+            .optional()
+            .describe("Why the milestone is rejected (required to reject)"),
+          userId: z.string().describe("Your user ID (must be the task poster)"),
+        },
+      },
+      async (params) => {
+        const result = await reviewMilestoneWork(params);
+        return {
+          content: [
+            { type: "text" as const, text: JSON.stringify(result, null, 2) },
+          ],
+        };
+      },
+    );
   },
   {},
   {
@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
+import { rateLimitByUser } from "@/lib/rateLimit";
+import { updateTaskPipeline, type PipelineDefinitionInput } from "@/lib/tasks";
+
+type RouteContext = {
+  params: Promise<{ pipelineId: string }>;
+};
+
+// ── GET: Pipeline definition ────────────────────────────────────────────────
+
+export async function GET(req: NextRequest, context: RouteContext) {
+  const { pipelineId } = await context.params;
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  try {
+    const pipeline = await prisma.taskPipeline.findFirst({
+      where: { id: pipelineId, userId: auth.userId },
+      select: {
+        id: true,
+        name: true,
+        description: true,
+        createdAt: true,
+        updatedAt: true,
+        stages: {
+          select: {
+            id: true,
+            name: true,
+            status: true,
+            triggerMode: true,
+            model: true,
+            enabledToolGroups: true,
+          },
+        },
+        edges: {
+          select: { fromTaskId: true, toTaskId: true, condition: true },
+        },
+      },
+    });
+
+    if (!pipeline) {
+      return NextResponse.json(
+        { error: "Pipeline not found" },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({ pipeline });
+  } catch (error) {
+    console.error("[Pipelines API] Get error:", error);
+    return NextResponse.json(
+      { error: "Failed to get pipeline" },
+      { status: 500 },
+    );
+  }
+}
+
+// ── PATCH: Replace the pipeline's stages and edges ──────────────────────────
+
+export async function PATCH(req: NextRequest, context: RouteContext) {
+  const { pipelineId } = await context.params;
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const rateLimited = await rateLimitByUser(
+    auth.userId,
+    "pipelines-update",
+    10,
+  );
+  if (rateLimited) return rateLimited;
+
+  let body;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  try {
+    const pipeline = await prisma.taskPipeline.findFirst({
+      where: { id: pipelineId, userId: auth.userId },
+      select: {
+        name: true,
+        description: true,
+        stages: { select: { id: true } },
+        edges: {
+          select: { fromTaskId: true, toTaskId: true, condition: true },
+        },
+      },
+    });
+
+    if (!pipeline) {
+      return NextResponse.json(
+        { error: "Pipeline not found" },
+        { status: 404 },
+      );
+    }
+
+    // Fields left out keep their current value
+    const update = body as Partial<PipelineDefinitionInput>;
+    const result = await updateTaskPipeline(auth.userId, pipelineId, {
+      name: update.name ?? pipeline.name,
+      description:
+        update.description !== undefined
+          ? update.description
+          : pipeline.description,
+      stageIds: update.stageIds ?? pipeline.stages.map((s) => s.id),
+      edges: update.edges ?? pipeline.edges,
+    });
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[Pipelines API] Update error:", error);
+    return NextResponse.json(
+      { error: "Failed to update pipeline" },
+      { status: 500 },
+    );
+  }
+}
+
+// ── DELETE: Remove the pipeline (its tasks keep running on their own) ───────
+
+export async function DELETE(req: NextRequest, context: RouteContext) {
+  const { pipelineId } = await context.params;
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  try {
+    const { count } = await prisma.taskPipeline.deleteMany({
+      where: { id: pipelineId, userId: auth.userId },
+    });
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: "Pipeline not found" },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[Pipelines API] Delete error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete pipeline" },
+      { status: 500 },
+    );
+  }
+}
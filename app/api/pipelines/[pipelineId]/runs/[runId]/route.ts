@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
+
+type RouteContext = {
+  params: Promise<{ pipelineId: string; runId: string }>;
+};
+
+// ── GET: A run's stages with the TaskLog each stage wrote ───────────────────
+
+export async function GET(req: NextRequest, context: RouteContext) {
+  const { pipelineId, runId } = await context.params;
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  try {
+    const run = await prisma.taskPipelineRun.findFirst({
+      where: { id: runId, pipelineId, pipeline: { userId: auth.userId } },
+      select: {
+        id: true,
+        status: true,
+        triggeredBy: true,
+        stageIds: true,
+        startedAt: true,
+        completedAt: true,
+        stages: {
+          select: {
+            taskId: true,
+            status: true,
+            output: true,
+            result: true,
+            startedAt: true,
+            completedAt: true,
+          },
+        },
+        logs: {
+          orderBy: { createdAt: "asc" },
+          select: {
+            id: true,
+            taskId: true,
+            iteration: true,
+            content: true,
+            parts: true,
+            status: true,
+            createdAt: true,
+          },
+        },
+      },
+    });
+
+    if (!run) {
+      return NextResponse.json({ error: "Run not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ run });
+  } catch (error) {
+    console.error("[Pipelines API] Get run error:", error);
+    return NextResponse.json(
+      { error: "Failed to get pipeline run" },
+      { status: 500 },
+    );
+  }
+}
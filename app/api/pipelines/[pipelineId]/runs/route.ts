@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
+import { rateLimitByUser } from "@/lib/rateLimit";
+import { startPipelineRun } from "@/lib/tasks";
+
+type RouteContext = {
+  params: Promise<{ pipelineId: string }>;
+};
+
+async function findOwnedPipeline(pipelineId: string, userId: string) {
+  return prisma.taskPipeline.findFirst({
+    where: { id: pipelineId, userId },
+    select: { id: true },
+  });
+}
+
+// ── GET: Recent runs ────────────────────────────────────────────────────────
+
+export async function GET(req: NextRequest, context: RouteContext) {
+  const { pipelineId } = await context.params;
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const { searchParams } = new URL(req.url);
+  const limit = Math.min(parseInt(searchParams.get("limit") || "20"), 50);
+
+  try {
+    if (!(await findOwnedPipeline(pipelineId, auth.userId))) {
+      return NextResponse.json(
+        { error: "Pipeline not found" },
+        { status: 404 },
+      );
+    }
+
+    const runs = await prisma.taskPipelineRun.findMany({
+      where: { pipelineId },
+      orderBy: { startedAt: "desc" },
+      take: limit,
+      select: {
+        id: true,
+        status: true,
+        triggeredBy: true,
+        stageIds: true,
+        startedAt: true,
+        completedAt: true,
+        stages: { select: { taskId: true, status: true } },
+      },
+    });
+
+    return NextResponse.json({ runs });
+  } catch (error) {
+    console.error("[Pipelines API] List runs error:", error);
+    return NextResponse.json(
+      { error: "Failed to list pipeline runs" },
+      { status: 500 },
+    );
+  }
+}
+
+// ── POST: Start a run now ───────────────────────────────────────────────────
+
+export async function POST(req: NextRequest, context: RouteContext) {
+  const { pipelineId } = await context.params;
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const rateLimited = await rateLimitByUser(auth.userId, "pipelines-run", 10);
+  if (rateLimited) return rateLimited;
+
+  try {
+    if (!(await findOwnedPipeline(pipelineId, auth.userId))) {
+      return NextResponse.json(
+        { error: "Pipeline not found" },
+        { status: 404 },
+      );
+    }
+
+    const result = await startPipelineRun(pipelineId);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: 409 });
+    }
+
+    return NextResponse.json({ run: { id: result.runId } }, { status: 201 });
+  } catch (error) {
+    console.error("[Pipelines API] Start run error:", error);
+    return NextResponse.json(
+      { error: "Failed to start pipeline run" },
+      { status: 500 },
+    );
+  }
+}
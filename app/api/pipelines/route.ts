@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
+import { rateLimitByUser } from "@/lib/rateLimit";
+import {
+  MAX_PIPELINES_PER_USER,
+  createTaskPipeline,
+  type PipelineDefinitionInput,
+} from "@/lib/tasks";
+
+// ── GET: List user's pipelines ──────────────────────────────────────────────
+
+export async function GET(req: NextRequest) {
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const rateLimited = await rateLimitByUser(auth.userId, "pipelines-list", 30);
+  if (rateLimited) return rateLimited;
+
+  try {
+    const pipelines = await prisma.taskPipeline.findMany({
+      where: { userId: auth.userId },
+      select: {
+        id: true,
+        name: true,
+        description: true,
+        createdAt: true,
+        updatedAt: true,
+        stages: {
+          select: { id: true, name: true, status: true, triggerMode: true },
+        },
+        edges: {
+          select: { fromTaskId: true, toTaskId: true, condition: true },
+        },
+        runs: {
+          orderBy: { startedAt: "desc" },
+          take: 1,
+          select: { id: true, status: true, startedAt: true },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json({ pipelines });
+  } catch (error) {
+    console.error("[Pipelines API] List error:", error);
+    return NextResponse.json(
+      { error: "Failed to list pipelines" },
+      { status: 500 },
+    );
+  }
+}
+
+// ── POST: Create a pipeline from existing tasks ─────────────────────────────
+
+export async function POST(req: NextRequest) {
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const rateLimited = await rateLimitByUser(auth.userId, "pipelines-create", 5);
+  if (rateLimited) return rateLimited;
+
+  let body;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const {
+    name,
+    description,
+    stageIds = [],
+    edges = [],
+  }: Partial<PipelineDefinitionInput> = body;
+
+  try {
+    const count = await prisma.taskPipeline.count({
+      where: { userId: auth.userId },
+    });
+    if (count >= MAX_PIPELINES_PER_USER) {
+      return NextResponse.json(
+        { error: `Maximum ${MAX_PIPELINES_PER_USER} pipelines reached` },
+        { status: 429 },
+      );
+    }
+
+    const result = await createTaskPipeline(auth.userId, {
+      name: name as string,
+      description,
+      stageIds,
+      edges,
+    });
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { pipeline: { id: result.pipelineId } },
+      { status: 201 },
+    );
+  } catch (error) {
+    console.error("[Pipelines API] Create error:", error);
+    return NextResponse.json(
+      { error: "Failed to create pipeline" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Spending Limit — Update & Delete
+ *
+ * PATCH  /api/spending-limits/[limitId] — Update limitUsd and/or enabled
+ * DELETE /api/spending-limits/[limitId] — Remove the limit
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
+import { rateLimitByUser } from "@/lib/rateLimit";
+import { MIN_LIMIT_USD, MAX_LIMIT_USD } from "@/lib/spending";
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ limitId: string }> },
+) {
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const rateLimited = await rateLimitByUser(auth.userId, "spending-limits", 30);
+  if (rateLimited) return rateLimited;
+
+  const { limitId } = await params;
+
+  let body: { limitUsd?: number; enabled?: boolean };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const data: { limitUsd?: number; enabled?: boolean } = {};
+
+  if (body.limitUsd !== undefined) {
+    const limitUsd = Number(body.limitUsd);
+    if (
+      !Number.isFinite(limitUsd) ||
+      limitUsd < MIN_LIMIT_USD ||
+      limitUsd > MAX_LIMIT_USD
+    ) {
+      return NextResponse.json(
+        {
+          error: `limitUsd must be between ${MIN_LIMIT_USD} and ${MAX_LIMIT_USD}`,
+        },
+        { status: 400 },
+      );
+    }
+    data.limitUsd = limitUsd;
+  }
+
+  if (body.enabled !== undefined) {
+    if (typeof body.enabled !== "boolean") {
+      return NextResponse.json(
+        { error: "enabled must be a boolean" },
+        { status: 400 },
+      );
+    }
+    data.enabled = body.enabled;
+  }
+
+  if (Object.keys(data).length === 0) {
+    return NextResponse.json({ error: "No fields to update" }, { status: 400 });
+  }
+
+  try {
+    const result = await prisma.spendingLimit.updateMany({
+      where: { id: limitId, userId: auth.userId },
+      data,
+    });
+
+    if (result.count === 0) {
+      return NextResponse.json({ error: "Limit not found" }, { status: 404 });
+    }
+
+    const limit = await prisma.spendingLimit.findUnique({
+      where: { id: limitId },
+      omit: { userId: true },
+    });
+
+    return NextResponse.json({ limit });
+  } catch (error) {
+    console.error("[Spending] Failed to update limit:", error);
+    return NextResponse.json(
+      { error: "Failed to update spending limit" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ limitId: string }> },
+) {
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const { limitId } = await params;
+
+  try {
+    const result = await prisma.spendingLimit.deleteMany({
+      where: { id: limitId, userId: auth.userId },
+    });
+
+    if (result.count === 0) {
+      return NextResponse.json({ error: "Limit not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[Spending] Failed to delete limit:", error);
+    return NextResponse.json(
+      { error: "Failed to delete spending limit" },
+      { status: 500 },
+    );
+  }
+}
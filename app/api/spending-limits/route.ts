@@ -0,0 +1,215 @@
+/**
+ * Spending Limits — List & Upsert
+ *
+ * GET  /api/spending-limits — All limits for the caller, with current spend
+ * POST /api/spending-limits — Create or update a limit
+ *   Body: { scope, scopeId?, period, limitUsd, enabled? }
+ *   (scopeId is the agent or task ID; omitted for scope "user")
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
+import { rateLimitByUser } from "@/lib/rateLimit";
+import {
+  SPENDING_SCOPES,
+  SPENDING_PERIODS,
+  MIN_LIMIT_USD,
+  MAX_LIMIT_USD,
+  MAX_LIMITS_PER_USER,
+  getCurrentSpend,
+  type SpendingPeriod,
+  type SpendingScope,
+} from "@/lib/spending";
+
+export async function GET(req: NextRequest) {
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const rateLimited = await rateLimitByUser(auth.userId, "spending-limits", 30);
+  if (rateLimited) return rateLimited;
+
+  try {
+    const limits = await prisma.spendingLimit.findMany({
+      where: { userId: auth.userId },
+      orderBy: [{ scope: "asc" }, { createdAt: "asc" }],
+      omit: { userId: true },
+    });
+
+    const agentIds = limits
+      .filter((l) => l.scope === "agent")
+      .map((l) => l.scopeId);
+    const taskIds = limits
+      .filter((l) => l.scope === "task")
+      .map((l) => l.scopeId);
+
+    const [agents, tasks, spend] = await Promise.all([
+      agentIds.length > 0
+        ? prisma.agent.findMany({
+            where: { id: { in: agentIds } },
+            select: { id: true, name: true },
+          })
+        : [],
+      taskIds.length > 0
+        ? prisma.agentTask.findMany({
+            where: { id: { in: taskIds } },
+            select: { id: true, name: true },
+          })
+        : [],
+      Promise.all(limits.map((l) => getCurrentSpend(auth.userId, l))),
+    ]);
+
+    const names = new Map([
+      ...agents.map((a) => [a.id, a.name] as const),
+      ...tasks.map((t) => [t.id, t.name] as const),
+    ]);
+
+    return NextResponse.json({
+      limits: limits.map((limit, i) => ({
+        ...limit,
+        scopeName:
+          limit.scope === "user" ? null : (names.get(limit.scopeId) ?? null),
+        spentUsd: spend[i]?.spentUsd ?? null,
+        resetsAt: spend[i]?.resetsAt ?? null,
+      })),
+    });
+  } catch (error) {
+    console.error("[Spending] Failed to list limits:", error);
+    return NextResponse.json(
+      { error: "Failed to load spending limits" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const rateLimited = await rateLimitByUser(auth.userId, "spending-limits", 30);
+  if (rateLimited) return rateLimited;
+
+  let body: {
+    scope?: string;
+    scopeId?: string;
+    period?: string;
+    limitUsd?: number;
+    enabled?: boolean;
+  };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const scope = body.scope as SpendingScope;
+  const period = body.period as SpendingPeriod;
+  const limitUsd = Number(body.limitUsd);
+
+  if (!SPENDING_SCOPES.includes(scope)) {
+    return NextResponse.json(
+      { error: `scope must be one of: ${SPENDING_SCOPES.join(", ")}` },
+      { status: 400 },
+    );
+  }
+  if (!SPENDING_PERIODS.includes(period)) {
+    return NextResponse.json(
+      { error: `period must be one of: ${SPENDING_PERIODS.join(", ")}` },
+      { status: 400 },
+    );
+  }
+  if (scope === "task" && period === "per_chat") {
+    return NextResponse.json(
+      { error: "per_chat limits do not apply to tasks" },
+      { status: 400 },
+    );
+  }
+  if (
+    !Number.isFinite(limitUsd) ||
+    limitUsd < MIN_LIMIT_USD ||
+    limitUsd > MAX_LIMIT_USD
+  ) {
+    return NextResponse.json(
+      {
+        error: `limitUsd must be between ${MIN_LIMIT_USD} and ${MAX_LIMIT_USD}`,
+      },
+      { status: 400 },
+    );
+  }
+  if (body.enabled !== undefined && typeof body.enabled !== "boolean") {
+    return NextResponse.json(
+      { error: "enabled must be a boolean" },
+      { status: 400 },
+    );
+  }
+
+  let scopeId = auth.userId;
+  if (scope !== "user") {
+    if (!body.scopeId || typeof body.scopeId !== "string") {
+      return NextResponse.json(
+        { error: `scopeId is required for ${scope} limits` },
+        { status: 400 },
+      );
+    }
+    scopeId = body.scopeId;
+  }
+
+  try {
+    if (scope === "agent") {
+      const agent = await prisma.agent.findFirst({
+        where: {
+          id: scopeId,
+          OR: [{ isPublic: true }, { createdById: auth.userId }],
+        },
+        select: { id: true },
+      });
+      if (!agent) {
+        return NextResponse.json({ error: "Agent not found" }, { status: 404 });
+      }
+    } else if (scope === "task") {
+      const task = await prisma.agentTask.findFirst({
+        where: { id: scopeId, userId: auth.userId },
+        select: { id: true },
+      });
+      if (!task) {
+        return NextResponse.json({ error: "Task not found" }, { status: 404 });
+      }
+    }
+
+    const key = { userId: auth.userId, scope, scopeId, period };
+    const existing = await prisma.spendingLimit.findUnique({
+      where: { userId_scope_scopeId_period: key },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      const count = await prisma.spendingLimit.count({
+        where: { userId: auth.userId },
+      });
+      if (count >= MAX_LIMITS_PER_USER) {
+        return NextResponse.json(
+          { error: `Maximum ${MAX_LIMITS_PER_USER} spending limits allowed` },
+          { status: 400 },
+        );
+      }
+    }
+
+    const limit = await prisma.spendingLimit.upsert({
+      where: { userId_scope_scopeId_period: key },
+      create: { ...key, limitUsd, enabled: body.enabled ?? true },
+      update: {
+        limitUsd,
+        ...(body.enabled !== undefined && { enabled: body.enabled }),
+      },
+      omit: { userId: true },
+    });
+
+    return NextResponse.json({ limit }, { status: existing ? 200 : 201 });
+  } catch (error) {
+    console.error("[Spending] Failed to save limit:", error);
+    return NextResponse.json(
+      { error: "Failed to save spending limit" },
+      { status: 500 },
+    );
+  }
+}
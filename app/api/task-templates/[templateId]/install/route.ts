@@ -0,0 +1,189 @@
+import { NextRequest, NextResponse } from "next/server";
+import { randomBytes } from "crypto";
+import prisma from "@/lib/prisma";
+import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
+import { rateLimitByUser } from "@/lib/rateLimit";
+import { start } from "workflow/api";
+import { recurringTaskWorkflow } from "@/workflows/tasks/workflow";
+import {
+  DEFAULT_TASK_TIMEZONE,
+  MAX_CONCURRENT_TASKS,
+  SENSITIVE_TASK_TOOLS,
+  recordTemplateInstall,
+  resolveTaskTemplate,
+} from "@/lib/tasks";
+import {
+  DEFAULT_AGENT_MODEL,
+  canAccessAgent,
+  findAgentByIdOrMint,
+} from "@/lib/agents";
+import type {
+  TaskConfig,
+  TaskTriggerMode,
+} from "@/workflows/tasks/steps/execute";
+
+type RouteContext = {
+  params: Promise<{ templateId: string }>;
+};
+
+// ── POST: Create and start a task from a template ───────────────────────────
+
+export async function POST(req: NextRequest, context: RouteContext) {
+  const { templateId } = await context.params;
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const rateLimited = await rateLimitByUser(auth.userId, "tasks-create", 5);
+  if (rateLimited) return rateLimited;
+
+  let body;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const {
+    agentId,
+    values = {},
+    dryRun = false,
+  } = body as {
+    agentId?: string;
+    values?: Record<string, unknown>;
+    dryRun?: boolean;
+  };
+
+  if (!agentId || typeof agentId !== "string") {
+    return NextResponse.json({ error: "agentId is required" }, { status: 400 });
+  }
+  if (!values || typeof values !== "object" || Array.isArray(values)) {
+    return NextResponse.json(
+      { error: "values must be an object of placeholder values" },
+      { status: 400 },
+    );
+  }
+  if (typeof dryRun !== "boolean") {
+    return NextResponse.json(
+      { error: "dryRun must be a boolean" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const template = await resolveTaskTemplate(auth.userId, templateId, values);
+    if (!template.ok) {
+      return NextResponse.json(
+        { error: template.error },
+        { status: template.error === "Template not found" ? 404 : 400 },
+      );
+    }
+    const { resolved } = template;
+
+    const activeCount = await prisma.agentTask.count({
+      where: {
+        userId: auth.userId,
+        status: { in: ["running", "paused"] },
+      },
+    });
+    if (activeCount >= MAX_CONCURRENT_TASKS) {
+      return NextResponse.json(
+        { error: `Maximum ${MAX_CONCURRENT_TASKS} concurrent tasks reached` },
+        { status: 429 },
+      );
+    }
+
+    const agent = await findAgentByIdOrMint(agentId);
+    if (!agent) {
+      return NextResponse.json({ error: "Agent not found" }, { status: 404 });
+    }
+    if (!canAccessAgent(agent, auth.userId)) {
+      return NextResponse.json(
+        { error: "Access denied to this agent" },
+        { status: 403 },
+      );
+    }
+
+    const triggerMode = resolved.triggerMode as TaskTriggerMode;
+    const model = resolved.model ?? DEFAULT_AGENT_MODEL;
+    const webhookSecret =
+      triggerMode === "event" || triggerMode === "event-or-interval"
+        ? randomBytes(32).toString("hex")
+        : null;
+    const cronSchedule =
+      triggerMode === "cron" && resolved.cronExpression
+        ? {
+            cronExpression: resolved.cronExpression,
+            timezone: resolved.timezone ?? DEFAULT_TASK_TIMEZONE,
+          }
+        : null;
+
+    const task = await prisma.agentTask.create({
+      data: {
+        name: resolved.name,
+        description: resolved.taskPrompt,
+        status: "running",
+        taskPrompt: resolved.taskPrompt,
+        intervalMs: resolved.intervalMs,
+        model,
+        enabledToolGroups: resolved.enabledToolGroups,
+        enabledSkills: resolved.enabledSkills,
+        approvalRequiredTools: [...SENSITIVE_TASK_TOOLS],
+        dryRun,
+        triggerMode,
+        cronExpression: cronSchedule?.cronExpression,
+        timezone: cronSchedule?.timezone,
+        webhookSecret,
+        templateId: resolved.templateId,
+        userId: auth.userId,
+        agentId: agent.id,
+      },
+    });
+
+    const taskConfig: TaskConfig = {
+      taskId: task.id,
+      agentId: agent.id,
+      userId: auth.userId,
+      taskPrompt: resolved.taskPrompt,
+      systemPrompt: agent.systemPrompt,
+      model,
+      intervalMs: resolved.intervalMs,
+      enabledToolGroups: resolved.enabledToolGroups,
+      enabledSkills: resolved.enabledSkills,
+      triggerMode,
+      ...cronSchedule,
+    };
+
+    const run = await start(recurringTaskWorkflow, [taskConfig]);
+
+    await prisma.agentTask.update({
+      where: { id: task.id },
+      data: { workflowRunId: run.runId },
+    });
+    await recordTemplateInstall(resolved.templateId);
+
+    return NextResponse.json(
+      {
+        task: {
+          id: task.id,
+          name: task.name,
+          status: task.status,
+          workflowRunId: run.runId,
+          triggerMode: task.triggerMode,
+          dryRun: task.dryRun,
+          // Returned once at creation time — store securely, it won't be exposed again
+          webhookSecret: task.webhookSecret ?? undefined,
+          triggerUrl: task.webhookSecret
+            ? `/api/tasks/${task.id}/trigger`
+            : undefined,
+        },
+      },
+      { status: 201 },
+    );
+  } catch (error) {
+    console.error("[Task Templates API] Install error:", error);
+    return NextResponse.json(
+      { error: "Failed to install template" },
+      { status: 500 },
+    );
+  }
+}
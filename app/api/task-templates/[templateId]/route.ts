@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
+import { rateLimitByUser } from "@/lib/rateLimit";
+import {
+  getTaskTemplate,
+  updateTaskTemplate,
+  type TaskTemplateVisibility,
+} from "@/lib/tasks";
+
+type RouteContext = {
+  params: Promise<{ templateId: string }>;
+};
+
+// ── GET: Template details ───────────────────────────────────────────────────
+
+export async function GET(req: NextRequest, context: RouteContext) {
+  const { templateId } = await context.params;
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  try {
+    const template = await getTaskTemplate(auth.userId, templateId);
+    if (!template) {
+      return NextResponse.json(
+        { error: "Template not found" },
+        { status: 404 },
+      );
+    }
+    return NextResponse.json({ template });
+  } catch (error) {
+    console.error("[Task Templates API] Get error:", error);
+    return NextResponse.json(
+      { error: "Failed to get template" },
+      { status: 500 },
+    );
+  }
+}
+
+// ── PATCH: Publish, unpublish, or re-describe a template ───────────────────
+
+export async function PATCH(req: NextRequest, context: RouteContext) {
+  const { templateId } = await context.params;
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const rateLimited = await rateLimitByUser(
+    auth.userId,
+    "templates-update",
+    20,
+  );
+  if (rateLimited) return rateLimited;
+
+  let body;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const { visibility, corporationId, description } = body as {
+    visibility?: TaskTemplateVisibility;
+    corporationId?: string;
+    description?: string;
+  };
+
+  try {
+    const result = await updateTaskTemplate(auth.userId, templateId, {
+      visibility,
+      corporationId,
+      description,
+    });
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.error === "Template not found" ? 404 : 400 },
+      );
+    }
+    return NextResponse.json({ template: result.template });
+  } catch (error) {
+    console.error("[Task Templates API] Update error:", error);
+    return NextResponse.json(
+      { error: "Failed to update template" },
+      { status: 500 },
+    );
+  }
+}
+
+// ── DELETE: Remove a template (installed tasks keep running) ───────────────
+
+export async function DELETE(req: NextRequest, context: RouteContext) {
+  const { templateId } = await context.params;
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const rateLimited = await rateLimitByUser(
+    auth.userId,
+    "templates-update",
+    20,
+  );
+  if (rateLimited) return rateLimited;
+
+  try {
+    const { count } = await prisma.taskTemplate.deleteMany({
+      where: { id: templateId, creatorId: auth.userId },
+    });
+    if (count === 0) {
+      return NextResponse.json(
+        { error: "Template not found" },
+        { status: 404 },
+      );
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[Task Templates API] Delete error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete template" },
+      { status: 500 },
+    );
+  }
+}
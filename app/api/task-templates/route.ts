@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
+import { rateLimitByUser } from "@/lib/rateLimit";
+import {
+  createTaskTemplate,
+  listTaskTemplates,
+  taskToTemplateInput,
+  type TaskTemplateInput,
+} from "@/lib/tasks";
+
+// ── GET: Browse the template gallery ────────────────────────────────────────
+
+export async function GET(req: NextRequest) {
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const rateLimited = await rateLimitByUser(auth.userId, "templates-list", 30);
+  if (rateLimited) return rateLimited;
+
+  const { searchParams } = new URL(req.url);
+  const scope = searchParams.get("scope") === "mine" ? "mine" : "gallery";
+  const query = searchParams.get("q") ?? undefined;
+
+  try {
+    const templates = await listTaskTemplates(auth.userId, { scope, query });
+    return NextResponse.json({ templates });
+  } catch (error) {
+    console.error("[Task Templates API] List error:", error);
+    return NextResponse.json(
+      { error: "Failed to list templates" },
+      { status: 500 },
+    );
+  }
+}
+
+// ── POST: Create a template (optionally from one of the user's tasks) ───────
+
+export async function POST(req: NextRequest) {
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const rateLimited = await rateLimitByUser(
+    auth.userId,
+    "templates-create",
+    10,
+  );
+  if (rateLimited) return rateLimited;
+
+  let body;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  // Fields given alongside taskId override the task's settings
+  const { taskId, ...fields } = body as Partial<TaskTemplateInput> & {
+    taskId?: string;
+  };
+
+  try {
+    let input = fields as TaskTemplateInput;
+    if (taskId) {
+      const fromTask = await taskToTemplateInput(auth.userId, taskId);
+      if (!fromTask) {
+        return NextResponse.json({ error: "Task not found" }, { status: 404 });
+      }
+      input = { ...fromTask, ...fields };
+    }
+
+    const result = await createTaskTemplate(auth.userId, input);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { template: { id: result.templateId } },
+      { status: 201 },
+    );
+  } catch (error) {
+    console.error("[Task Templates API] Create error:", error);
+    return NextResponse.json(
+      { error: "Failed to create template" },
+      { status: 500 },
+    );
+  }
+}
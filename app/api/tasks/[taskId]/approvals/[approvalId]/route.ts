@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
+import { rateLimitByUser } from "@/lib/rateLimit";
+import { decideTaskApproval } from "@/lib/tasks";
+
+type RouteContext = {
+  params: Promise<{ taskId: string; approvalId: string }>;
+};
+
+// ── POST: Approve or reject a pending tool call ─────────────────────────────
+
+export async function POST(req: NextRequest, context: RouteContext) {
+  const { taskId, approvalId } = await context.params;
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const rateLimited = await rateLimitByUser(
+    auth.userId,
+    "task-approval-decide",
+    30,
+  );
+  if (rateLimited) return rateLimited;
+
+  let body;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const { approved, reason } = body as { approved?: boolean; reason?: string };
+
+  if (typeof approved !== "boolean") {
+    return NextResponse.json(
+      { error: "approved must be true or false" },
+      { status: 400 },
+    );
+  }
+  if (
+    reason !== undefined &&
+    (typeof reason !== "string" || reason.length > 500)
+  ) {
+    return NextResponse.json(
+      { error: "reason must be a string of at most 500 characters" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const task = await prisma.agentTask.findFirst({
+      where: { id: taskId, userId: auth.userId },
+      select: { id: true },
+    });
+
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    const result = await decideTaskApproval(
+      taskId,
+      approvalId,
+      approved,
+      reason?.trim() || undefined,
+    );
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: 409 });
+    }
+
+    return NextResponse.json({ success: true, approvalId, approved });
+  } catch (error) {
+    console.error("[Task Approvals API] Decide error:", error);
+    return NextResponse.json(
+      { error: "Failed to record decision" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
+import { rateLimitByUser } from "@/lib/rateLimit";
+import { SENSITIVE_TASK_TOOLS, validateApprovalPolicy } from "@/lib/tasks";
+
+type RouteContext = {
+  params: Promise<{ taskId: string }>;
+};
+
+// ── GET: Approval policy + recent approval requests ─────────────────────────
+
+export async function GET(req: NextRequest, context: RouteContext) {
+  const { taskId } = await context.params;
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const rateLimited = await rateLimitByUser(
+    auth.userId,
+    "task-approvals-get",
+    60,
+  );
+  if (rateLimited) return rateLimited;
+
+  try {
+    const task = await prisma.agentTask.findFirst({
+      where: { id: taskId, userId: auth.userId },
+      select: {
+        approvalRequiredTools: true,
+        approvals: {
+          orderBy: { createdAt: "desc" as const },
+          take: 50,
+          select: {
+            approvalId: true,
+            toolName: true,
+            input: true,
+            iteration: true,
+            status: true,
+            reason: true,
+            expiresAt: true,
+            decidedAt: true,
+            createdAt: true,
+          },
+        },
+      },
+    });
+
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      approvalRequiredTools: task.approvalRequiredTools,
+      sensitiveTools: SENSITIVE_TASK_TOOLS,
+      approvals: task.approvals,
+    });
+  } catch (error) {
+    console.error("[Task Approvals API] List error:", error);
+    return NextResponse.json(
+      { error: "Failed to load approvals" },
+      { status: 500 },
+    );
+  }
+}
+
+// ── PUT: Replace the approval policy ────────────────────────────────────────
+
+export async function PUT(req: NextRequest, context: RouteContext) {
+  const { taskId } = await context.params;
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const rateLimited = await rateLimitByUser(auth.userId, "tasks-update", 20);
+  if (rateLimited) return rateLimited;
+
+  let body;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const { approvalRequiredTools } = body as {
+    approvalRequiredTools?: string[];
+  };
+
+  const policyError = validateApprovalPolicy(approvalRequiredTools);
+  if (policyError) {
+    return NextResponse.json({ error: policyError }, { status: 400 });
+  }
+
+  try {
+    const { count } = await prisma.agentTask.updateMany({
+      where: { id: taskId, userId: auth.userId },
+      data: {
+        // Applies from the next iteration
+        approvalRequiredTools: [
+          ...new Set(approvalRequiredTools!.map((t) => t.trim())),
+        ],
+      },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[Task Approvals API] Update error:", error);
+    return NextResponse.json(
+      { error: "Failed to update approval policy" },
+      { status: 500 },
+    );
+  }
+}
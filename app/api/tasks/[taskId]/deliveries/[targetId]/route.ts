@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
+import { rateLimitByUser } from "@/lib/rateLimit";
+import { TASK_DELIVERY_CONDITIONS } from "@/lib/tasks";
+
+type RouteContext = {
+  params: Promise<{ taskId: string; targetId: string }>;
+};
+
+// ── PATCH: Enable, disable, or change a target's condition ──────────────────
+
+export async function PATCH(req: NextRequest, context: RouteContext) {
+  const { taskId, targetId } = await context.params;
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const rateLimited = await rateLimitByUser(auth.userId, "tasks-update", 20);
+  if (rateLimited) return rateLimited;
+
+  let body;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const { enabled, condition } = body as {
+    enabled?: boolean;
+    condition?: string;
+  };
+
+  if (enabled !== undefined && typeof enabled !== "boolean") {
+    return NextResponse.json(
+      { error: "enabled must be true or false" },
+      { status: 400 },
+    );
+  }
+  if (
+    condition !== undefined &&
+    !(TASK_DELIVERY_CONDITIONS as readonly string[]).includes(condition)
+  ) {
+    return NextResponse.json(
+      {
+        error: `condition must be one of: ${TASK_DELIVERY_CONDITIONS.join(", ")}`,
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const { count } = await prisma.taskDeliveryTarget.updateMany({
+      where: { id: targetId, taskId, task: { userId: auth.userId } },
+      data: { enabled, condition },
+    });
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: "Delivery target not found" },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[Tasks API] Delivery target update error:", error);
+    return NextResponse.json(
+      { error: "Failed to update delivery target" },
+      { status: 500 },
+    );
+  }
+}
+
+// ── DELETE: Remove a target and its delivery records ────────────────────────
+
+export async function DELETE(req: NextRequest, context: RouteContext) {
+  const { taskId, targetId } = await context.params;
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const rateLimited = await rateLimitByUser(auth.userId, "tasks-update", 20);
+  if (rateLimited) return rateLimited;
+
+  try {
+    const { count } = await prisma.taskDeliveryTarget.deleteMany({
+      where: { id: targetId, taskId, task: { userId: auth.userId } },
+    });
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: "Delivery target not found" },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[Tasks API] Delivery target delete error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete delivery target" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
+import { rateLimitByUser } from "@/lib/rateLimit";
+import {
+  MAX_DELIVERY_TARGETS_PER_TASK,
+  TASK_DELIVERY_CHANNELS,
+  TASK_DELIVERY_CONDITIONS,
+  createTaskDeliveryTarget,
+  maskDestination,
+  type TaskDeliveryTargetInput,
+} from "@/lib/tasks";
+
+type RouteContext = {
+  params: Promise<{ taskId: string }>;
+};
+
+/** Delivery attempts returned with the targets */
+const RECENT_DELIVERIES = 20;
+
+// ── GET: Delivery targets and recent attempts ───────────────────────────────
+
+export async function GET(req: NextRequest, context: RouteContext) {
+  const { taskId } = await context.params;
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  try {
+    const task = await prisma.agentTask.findFirst({
+      where: { id: taskId, userId: auth.userId },
+      select: {
+        deliveryTargets: {
+          orderBy: { createdAt: "asc" as const },
+          select: {
+            id: true,
+            channel: true,
+            destination: true,
+            condition: true,
+            enabled: true,
+            createdAt: true,
+          },
+        },
+        deliveries: {
+          orderBy: { createdAt: "desc" as const },
+          take: RECENT_DELIVERIES,
+          select: {
+            id: true,
+            targetId: true,
+            iteration: true,
+            status: true,
+            attempts: true,
+            statusCode: true,
+            error: true,
+            createdAt: true,
+          },
+        },
+      },
+    });
+
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      targets: task.deliveryTargets.map((t) => ({
+        ...t,
+        destination: maskDestination(t.destination),
+      })),
+      deliveries: task.deliveries,
+      channels: TASK_DELIVERY_CHANNELS,
+      conditions: TASK_DELIVERY_CONDITIONS,
+      maxTargets: MAX_DELIVERY_TARGETS_PER_TASK,
+    });
+  } catch (error) {
+    console.error("[Tasks API] Deliveries list error:", error);
+    return NextResponse.json(
+      { error: "Failed to load delivery targets" },
+      { status: 500 },
+    );
+  }
+}
+
+// ── POST: Add a delivery target ─────────────────────────────────────────────
+
+export async function POST(req: NextRequest, context: RouteContext) {
+  const { taskId } = await context.params;
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const rateLimited = await rateLimitByUser(auth.userId, "tasks-update", 20);
+  if (rateLimited) return rateLimited;
+
+  let body;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  try {
+    const result = await createTaskDeliveryTarget(
+      auth.userId,
+      taskId,
+      body as TaskDeliveryTargetInput,
+    );
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.error === "Task not found" ? 404 : 400 },
+      );
+    }
+
+    // A webhook's signing secret is only shown once, here
+    return NextResponse.json(
+      {
+        id: result.targetId,
+        ...(result.secret && { secret: result.secret }),
+      },
+      { status: 201 },
+    );
+  } catch (error) {
+    console.error("[Tasks API] Delivery target create error:", error);
+    return NextResponse.json(
+      { error: "Failed to create delivery target" },
+      { status: 500 },
+    );
+  }
+}
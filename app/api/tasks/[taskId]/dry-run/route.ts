@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
+import { rateLimitByUser } from "@/lib/rateLimit";
+
+type RouteContext = {
+  params: Promise<{ taskId: string }>;
+};
+
+// ── PUT: Turn dry-run mode on or off ────────────────────────────────────────
+
+export async function PUT(req: NextRequest, context: RouteContext) {
+  const { taskId } = await context.params;
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const rateLimited = await rateLimitByUser(auth.userId, "tasks-update", 20);
+  if (rateLimited) return rateLimited;
+
+  let body;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const { dryRun } = body as { dryRun?: unknown };
+  if (typeof dryRun !== "boolean") {
+    return NextResponse.json(
+      { error: "dryRun must be a boolean" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const task = await prisma.agentTask.findFirst({
+      where: { id: taskId, userId: auth.userId },
+      select: { id: true },
+    });
+
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    // Applies from the next iteration
+    const updated = await prisma.agentTask.update({
+      where: { id: taskId },
+      data: { dryRun },
+      select: { id: true, dryRun: true },
+    });
+
+    return NextResponse.json({ task: updated });
+  } catch (error) {
+    console.error("[Tasks API] Dry-run update error:", error);
+    return NextResponse.json(
+      { error: "Failed to update dry-run mode" },
+      { status: 500 },
+    );
+  }
+}
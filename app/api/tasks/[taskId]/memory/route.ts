@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
+import { rateLimitByUser } from "@/lib/rateLimit";
+import {
+  MAX_MEMORY_ENTRIES,
+  deleteTaskMemory,
+  getTaskMemory,
+  setTaskMemory,
+} from "@/lib/tasks";
+
+type RouteContext = {
+  params: Promise<{ taskId: string }>;
+};
+
+async function findOwnedTask(taskId: string, userId: string) {
+  return prisma.agentTask.findFirst({
+    where: { id: taskId, userId },
+    select: { id: true },
+  });
+}
+
+// ── GET: List the task's memory entries ─────────────────────────────────────
+
+export async function GET(req: NextRequest, context: RouteContext) {
+  const { taskId } = await context.params;
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const rateLimited = await rateLimitByUser(auth.userId, "task-memory-get", 60);
+  if (rateLimited) return rateLimited;
+
+  try {
+    if (!(await findOwnedTask(taskId, auth.userId))) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    const entries = await getTaskMemory(taskId);
+    return NextResponse.json({ entries, maxEntries: MAX_MEMORY_ENTRIES });
+  } catch (error) {
+    console.error("[Task Memory API] List error:", error);
+    return NextResponse.json(
+      { error: "Failed to load task memory" },
+      { status: 500 },
+    );
+  }
+}
+
+// ── PUT: Create or overwrite an entry ───────────────────────────────────────
+
+export async function PUT(req: NextRequest, context: RouteContext) {
+  const { taskId } = await context.params;
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const rateLimited = await rateLimitByUser(
+    auth.userId,
+    "task-memory-update",
+    30,
+  );
+  if (rateLimited) return rateLimited;
+
+  let body;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const { key, value } = body as { key?: string; value?: string };
+
+  try {
+    if (!(await findOwnedTask(taskId, auth.userId))) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    const result = await setTaskMemory(taskId, key as string, value as string);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ entry: result.entry });
+  } catch (error) {
+    console.error("[Task Memory API] Update error:", error);
+    return NextResponse.json(
+      { error: "Failed to update task memory" },
+      { status: 500 },
+    );
+  }
+}
+
+// ── DELETE: Remove an entry (?key=...) ──────────────────────────────────────
+
+export async function DELETE(req: NextRequest, context: RouteContext) {
+  const { taskId } = await context.params;
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const rateLimited = await rateLimitByUser(
+    auth.userId,
+    "task-memory-update",
+    30,
+  );
+  if (rateLimited) return rateLimited;
+
+  const key = new URL(req.url).searchParams.get("key");
+  if (!key) {
+    return NextResponse.json(
+      { error: "key query parameter is required" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    if (!(await findOwnedTask(taskId, auth.userId))) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    const deleted = await deleteTaskMemory(taskId, key);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "Memory entry not found" },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({ success: true, key });
+  } catch (error) {
+    console.error("[Task Memory API] Delete error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete task memory" },
+      { status: 500 },
+    );
+  }
+}
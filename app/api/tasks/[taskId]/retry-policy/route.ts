@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
+import { rateLimitByUser } from "@/lib/rateLimit";
+import { validateRetryPolicy, type TaskRetryPolicy } from "@/lib/tasks";
+
+type RouteContext = {
+  params: Promise<{ taskId: string }>;
+};
+
+// ── PUT: Update how failed iterations are retried ───────────────────────────
+
+export async function PUT(req: NextRequest, context: RouteContext) {
+  const { taskId } = await context.params;
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const rateLimited = await rateLimitByUser(auth.userId, "tasks-update", 20);
+  if (rateLimited) return rateLimited;
+
+  let body;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  // Fields left out keep their current value
+  const { maxRetries, retryBackoffMs, failureThreshold } =
+    body as Partial<TaskRetryPolicy>;
+
+  const retryError = validateRetryPolicy({
+    maxRetries,
+    retryBackoffMs,
+    failureThreshold,
+  });
+  if (retryError) {
+    return NextResponse.json({ error: retryError }, { status: 400 });
+  }
+
+  try {
+    const task = await prisma.agentTask.findFirst({
+      where: { id: taskId, userId: auth.userId },
+      select: { id: true },
+    });
+
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    // Applies from the next failed iteration
+    const updated = await prisma.agentTask.update({
+      where: { id: taskId },
+      data: { maxRetries, retryBackoffMs, failureThreshold },
+      select: {
+        maxRetries: true,
+        retryBackoffMs: true,
+        failureThreshold: true,
+        consecutiveFailures: true,
+      },
+    });
+
+    return NextResponse.json({ retryPolicy: updated });
+  } catch (error) {
+    console.error("[Tasks API] Retry policy update error:", error);
+    return NextResponse.json(
+      { error: "Failed to update retry policy" },
+      { status: 500 },
+    );
+  }
+}
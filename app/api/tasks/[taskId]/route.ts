@@ -3,6 +3,11 @@ import prisma from "@/lib/prisma";
 import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
 import { rateLimitByUser } from "@/lib/rateLimit";
 import { taskControlHook } from "@/workflows/tasks/hooks/taskControl";
+import {
+  DEFAULT_TASK_TIMEZONE,
+  getNextCronRun,
+  validateCronSchedule,
+} from "@/lib/tasks";
 
 // ── GET: Get task details + recent logs ─────────────────────────────────────
 
@@ -26,9 +31,20 @@ export async function GET(
         workflowRunId: true,
         taskPrompt: true,
         intervalMs: true,
+        triggerMode: true,
+        cronExpression: true,
+        timezone: true,
+        model: true,
+        pipelineId: true,
         maxIterations: true,
         enabledToolGroups: true,
         enabledSkills: true,
+        approvalRequiredTools: true,
+        dryRun: true,
+        maxRetries: true,
+        retryBackoffMs: true,
+        failureThreshold: true,
+        consecutiveFailures: true,
         currentIteration: true,
         lastExecutedAt: true,
         nextExecutionAt: true,
@@ -36,6 +52,18 @@ export async function GET(
         createdAt: true,
         updatedAt: true,
         agent: { select: { id: true, name: true, imageUrl: true } },
+        approvals: {
+          where: { status: "pending" },
+          orderBy: { createdAt: "asc" },
+          select: {
+            approvalId: true,
+            toolName: true,
+            input: true,
+            iteration: true,
+            expiresAt: true,
+            createdAt: true,
+          },
+        },
         logs: {
           orderBy: { createdAt: "desc" },
           take: 20,
@@ -45,6 +73,7 @@ export async function GET(
             content: true,
             parts: true,
             status: true,
+            pipelineRunId: true,
             createdAt: true,
           },
         },
@@ -62,6 +91,108 @@ export async function GET(
   }
 }
 
+// ── PATCH: Change a cron task's schedule ───────────────────────────────────
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ taskId: string }> },
+) {
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const rateLimited = await rateLimitByUser(auth.userId, "tasks-update", 20);
+  if (rateLimited) return rateLimited;
+
+  const { taskId } = await params;
+
+  let body;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const { cronExpression, timezone = DEFAULT_TASK_TIMEZONE } = body as {
+    cronExpression?: string;
+    timezone?: string;
+  };
+
+  if (typeof cronExpression !== "string" || typeof timezone !== "string") {
+    return NextResponse.json(
+      { error: "cronExpression and timezone must be strings" },
+      { status: 400 },
+    );
+  }
+
+  const cronError = validateCronSchedule(cronExpression, timezone);
+  if (cronError) {
+    return NextResponse.json({ error: cronError }, { status: 400 });
+  }
+
+  try {
+    const task = await prisma.agentTask.findFirst({
+      where: { id: taskId, userId: auth.userId },
+      select: { id: true, status: true, triggerMode: true },
+    });
+
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    if (task.triggerMode !== "cron") {
+      return NextResponse.json(
+        { error: "Only cron-scheduled tasks can be rescheduled" },
+        { status: 400 },
+      );
+    }
+
+    if (task.status !== "running" && task.status !== "paused") {
+      return NextResponse.json(
+        { error: `Cannot reschedule a ${task.status} task` },
+        { status: 400 },
+      );
+    }
+
+    const isRunning = task.status === "running";
+    const updated = await prisma.agentTask.update({
+      where: { id: taskId },
+      data: {
+        cronExpression: cronExpression.trim(),
+        timezone,
+        // Paused tasks get their next run computed on resume
+        ...(isRunning && {
+          nextExecutionAt: getNextCronRun(cronExpression, timezone),
+        }),
+      },
+      select: {
+        id: true,
+        cronExpression: true,
+        timezone: true,
+        nextExecutionAt: true,
+      },
+    });
+
+    // Wake the running workflow so it sleeps until the new fire time
+    if (isRunning) {
+      try {
+        await taskControlHook.resume(taskId, { action: "reschedule" });
+      } catch {
+        console.warn(
+          `[Tasks API] Could not send reschedule signal for task ${taskId}`,
+        );
+      }
+    }
+
+    return NextResponse.json({ task: updated });
+  } catch (error) {
+    console.error("[Tasks API] Update error:", error);
+    return NextResponse.json(
+      { error: "Failed to update task" },
+      { status: 500 },
+    );
+  }
+}
+
 // ── DELETE: Stop and delete a task ──────────────────────────────────────────
 
 export async function DELETE(
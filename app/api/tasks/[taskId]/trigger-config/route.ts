@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import type { Prisma } from "@/app/generated/prisma/client";
+import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
+import { rateLimitByUser } from "@/lib/rateLimit";
+import {
+  TRIGGER_ADAPTER_IDS,
+  validateTriggerSettings,
+  type TaskTriggerConfig,
+} from "@/lib/tasks";
+
+type RouteContext = {
+  params: Promise<{ taskId: string }>;
+};
+
+// ── GET: Trigger adapter and filter ─────────────────────────────────────────
+
+export async function GET(req: NextRequest, context: RouteContext) {
+  const { taskId } = await context.params;
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  try {
+    const task = await prisma.agentTask.findFirst({
+      where: { id: taskId, userId: auth.userId },
+      select: {
+        webhookSecret: true,
+        triggerAdapter: true,
+        triggerConfig: true,
+      },
+    });
+
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    // The secret itself is only shown once, at creation
+    return NextResponse.json({
+      enabled: !!task.webhookSecret,
+      triggerUrl: task.webhookSecret ? `/api/tasks/${taskId}/trigger` : null,
+      triggerAdapter: task.triggerAdapter,
+      triggerConfig: task.triggerConfig ?? {},
+      adapters: TRIGGER_ADAPTER_IDS,
+    });
+  } catch (error) {
+    console.error("[Tasks API] Trigger config error:", error);
+    return NextResponse.json(
+      { error: "Failed to load trigger config" },
+      { status: 500 },
+    );
+  }
+}
+
+// ── PUT: Switch adapter or change the filter ────────────────────────────────
+
+export async function PUT(req: NextRequest, context: RouteContext) {
+  const { taskId } = await context.params;
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const rateLimited = await rateLimitByUser(auth.userId, "tasks-update", 20);
+  if (rateLimited) return rateLimited;
+
+  let body;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const { triggerAdapter, triggerConfig } = body as {
+    triggerAdapter?: string;
+    triggerConfig?: TaskTriggerConfig | null;
+  };
+
+  const triggerError = validateTriggerSettings(triggerAdapter, triggerConfig);
+  if (triggerError) {
+    return NextResponse.json({ error: triggerError }, { status: 400 });
+  }
+
+  try {
+    const task = await prisma.agentTask.findFirst({
+      where: { id: taskId, userId: auth.userId },
+      select: { webhookSecret: true },
+    });
+
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    if (!task.webhookSecret) {
+      return NextResponse.json(
+        { error: "Only event-triggered tasks have a webhook trigger" },
+        { status: 400 },
+      );
+    }
+
+    // Replaces the whole config; takes effect on the next webhook
+    const updated = await prisma.agentTask.update({
+      where: { id: taskId },
+      data: {
+        triggerAdapter,
+        triggerConfig: (triggerConfig ?? {}) as Prisma.InputJsonValue,
+      },
+      select: { triggerAdapter: true, triggerConfig: true },
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error("[Tasks API] Trigger config update error:", error);
+    return NextResponse.json(
+      { error: "Failed to update trigger config" },
+      { status: 500 },
+    );
+  }
+}
@@ -1,26 +1,28 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
 import { rateLimitByIP } from "@/lib/rateLimit";
+import {
+  getTriggerAdapter,
+  matchTriggerFilter,
+  type TaskTriggerConfig,
+} from "@/lib/tasks";
 import { taskEventHook } from "@/workflows/tasks/hooks/taskEvent";
 
 /**
  * POST /api/tasks/[taskId]/trigger
  *
  * Public webhook endpoint that fires the taskEventHook for an event-driven task.
- * The calling service (Discord bot, Twitter webhook, Zapier, etc.) must include
- * the task's webhookSecret as a Bearer token in the Authorization header.
+ * The task's trigger adapter decides how the request is authenticated and read:
  *
- * Body (all optional except source + eventType):
- * {
- *   source: string;       // e.g. "discord", "twitter", "custom"
- *   eventType: string;    // e.g. "message", "tweet", "mention"
- *   payload?: object;     // raw event data from the source
- *   summary?: string;     // human-readable description for the agent prompt
- *   occurredAt?: string;  // ISO timestamp of the original event
- * }
+ * - bearer (default): the task's webhookSecret as a Bearer token, with a body of
+ *   { source, eventType, payload?, summary?, occurredAt? }
+ * - github, discord, telegram: the provider's own signature and payloads
+ * - hmac: any provider that signs the raw body with the webhookSecret
  *
- * The payload is forwarded to the running workflow via taskEventHook.resume(),
- * which unblocks the next iteration of the agent task immediately.
+ * Verified payloads are normalized into an event with a summary for the agent.
+ * Events the task's filter rejects are acknowledged without waking the task.
+ * Otherwise the event is forwarded to the running workflow via
+ * taskEventHook.resume(), which unblocks the next iteration immediately.
  */
 export async function POST(
   req: NextRequest,
@@ -31,20 +33,7 @@ export async function POST(
   const rateLimited = await rateLimitByIP(req, "task-trigger", 30);
   if (rateLimited) return rateLimited;
 
-  // ── Auth: validate Bearer secret ────────────────────────────────────────
-  const authHeader = req.headers.get("authorization") ?? "";
-  const providedSecret = authHeader.startsWith("Bearer ")
-    ? authHeader.slice(7).trim()
-    : null;
-
-  if (!providedSecret) {
-    return NextResponse.json(
-      { error: "Authorization header with Bearer token required" },
-      { status: 401 },
-    );
-  }
-
-  // ── Load task and verify secret ──────────────────────────────────────────
+  // ── Load task ────────────────────────────────────────────────────────────
   let task;
   try {
     task = await prisma.agentTask.findUnique({
@@ -54,7 +43,8 @@ export async function POST(
         status: true,
         triggerMode: true,
         webhookSecret: true,
-        workflowRunId: true,
+        triggerAdapter: true,
+        triggerConfig: true,
       },
     });
   } catch (error) {
@@ -69,16 +59,43 @@ export async function POST(
     return NextResponse.json({ error: "Task not found" }, { status: 404 });
   }
 
-  if (!task.webhookSecret || task.webhookSecret !== providedSecret) {
+  if (!task.webhookSecret) {
     return NextResponse.json(
-      { error: "Invalid webhook secret" },
+      { error: "This task has no webhook trigger" },
       { status: 403 },
     );
   }
 
-  if (task.triggerMode === "interval") {
+  // ── Verify the provider's signature over the exact bytes received ────────
+  const rawBody = await req.text();
+  let body: unknown = null;
+  try {
+    body = rawBody ? JSON.parse(rawBody) : null;
+  } catch {
+    // Adapters decide what a non-JSON body means
+  }
+
+  const adapter = getTriggerAdapter(task.triggerAdapter);
+  const config = (task.triggerConfig ?? {}) as TaskTriggerConfig;
+  const options = config.options ?? {};
+  const request = { headers: req.headers, rawBody, body };
+
+  const verifyError = adapter.verify(request, task.webhookSecret, options);
+  if (verifyError) {
+    return NextResponse.json({ error: verifyError }, { status: 401 });
+  }
+
+  // Handshakes and pings (GitHub ping, Discord PING) get answered directly
+  const { event, text, response } = adapter.normalize(request, options);
+  if (!event) {
+    return NextResponse.json(response ?? { triggered: false });
+  }
+
+  if (task.triggerMode === "interval" || task.triggerMode === "cron") {
     return NextResponse.json(
-      { error: "This task uses interval-based triggering, not event-based" },
+      {
+        error: `This task uses ${task.triggerMode}-based triggering, not event-based`,
+      },
       { status: 400 },
     );
   }
@@ -90,37 +107,21 @@ export async function POST(
     );
   }
 
-  // ── Parse event payload ──────────────────────────────────────────────────
-  let body: Record<string, unknown> = {};
-  try {
-    body = await req.json();
-  } catch {
-    // Treat a missing/empty body as a plain ping trigger
+  // ── Filter: acknowledge (so providers don't retry) without waking ────────
+  const filteredOut = matchTriggerFilter(config.filter, event, text);
+  if (filteredOut) {
+    return NextResponse.json({
+      triggered: false,
+      filtered: true,
+      reason: filteredOut,
+      source: event.source,
+      eventType: event.eventType,
+    });
   }
 
-  const {
-    source = "custom",
-    eventType = "trigger",
-    payload,
-    summary,
-    occurredAt,
-  } = body as {
-    source?: string;
-    eventType?: string;
-    payload?: Record<string, unknown>;
-    summary?: string;
-    occurredAt?: string;
-  };
-
   // ── Resume the waiting workflow ──────────────────────────────────────────
   try {
-    await taskEventHook.resume(taskId, {
-      source: String(source),
-      eventType: String(eventType),
-      payload,
-      summary,
-      occurredAt,
-    });
+    await taskEventHook.resume(taskId, event);
   } catch (error) {
     console.error(
       `[Task Trigger] Failed to resume workflow for ${taskId}:`,
@@ -135,11 +136,13 @@ export async function POST(
     );
   }
 
-  return NextResponse.json({
-    triggered: true,
-    taskId,
-    source,
-    eventType,
-    occurredAt: occurredAt ?? new Date().toISOString(),
-  });
+  return NextResponse.json(
+    response ?? {
+      triggered: true,
+      taskId,
+      source: event.source,
+      eventType: event.eventType,
+      occurredAt: event.occurredAt ?? new Date().toISOString(),
+    },
+  );
 }
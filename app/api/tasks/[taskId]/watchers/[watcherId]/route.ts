@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
+import { rateLimitByUser } from "@/lib/rateLimit";
+
+type RouteContext = {
+  params: Promise<{ taskId: string; watcherId: string }>;
+};
+
+// ── DELETE: Remove a watcher ────────────────────────────────────────────────
+
+export async function DELETE(req: NextRequest, context: RouteContext) {
+  const { taskId, watcherId } = await context.params;
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const rateLimited = await rateLimitByUser(auth.userId, "tasks-update", 20);
+  if (rateLimited) return rateLimited;
+
+  try {
+    const { count } = await prisma.taskWatcher.deleteMany({
+      where: { id: watcherId, taskId, task: { userId: auth.userId } },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: "Watcher not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[Tasks API] Watcher delete error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete watcher" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
+import { rateLimitByUser } from "@/lib/rateLimit";
+import {
+  MAX_WATCHERS_PER_TASK,
+  TASK_WATCHER_TYPES,
+  createTaskWatcher,
+  describeWatcher,
+  toWatcherDefinition,
+} from "@/lib/tasks";
+
+type RouteContext = {
+  params: Promise<{ taskId: string }>;
+};
+
+// ── GET: List the task's on-chain watchers ──────────────────────────────────
+
+export async function GET(req: NextRequest, context: RouteContext) {
+  const { taskId } = await context.params;
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  try {
+    const task = await prisma.agentTask.findFirst({
+      where: { id: taskId, userId: auth.userId },
+      select: {
+        watchers: {
+          orderBy: { createdAt: "asc" as const },
+          select: {
+            id: true,
+            type: true,
+            config: true,
+            status: true,
+            errorMessage: true,
+            lastCheckedAt: true,
+            lastFiredAt: true,
+            fireCount: true,
+            createdAt: true,
+          },
+        },
+      },
+    });
+
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      watchers: task.watchers.map((w) => ({
+        ...w,
+        description: describeWatcher(toWatcherDefinition(w)),
+      })),
+      types: TASK_WATCHER_TYPES,
+      maxWatchers: MAX_WATCHERS_PER_TASK,
+    });
+  } catch (error) {
+    console.error("[Tasks API] Watchers list error:", error);
+    return NextResponse.json(
+      { error: "Failed to load watchers" },
+      { status: 500 },
+    );
+  }
+}
+
+// ── POST: Add a watcher ─────────────────────────────────────────────────────
+
+export async function POST(req: NextRequest, context: RouteContext) {
+  const { taskId } = await context.params;
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const rateLimited = await rateLimitByUser(auth.userId, "tasks-update", 20);
+  if (rateLimited) return rateLimited;
+
+  let body;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  try {
+    const result = await createTaskWatcher(auth.userId, taskId, body);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.error === "Task not found" ? 404 : 400 },
+      );
+    }
+
+    return NextResponse.json(
+      { id: result.watcherId, description: result.description },
+      { status: 201 },
+    );
+  } catch (error) {
+    console.error("[Tasks API] Watcher create error:", error);
+    return NextResponse.json(
+      { error: "Failed to create watcher" },
+      { status: 500 },
+    );
+  }
+}
@@ -1,10 +1,26 @@
 import { NextRequest, NextResponse } from "next/server";
 import { randomBytes } from "crypto";
 import prisma from "@/lib/prisma";
+import type { Prisma } from "@/app/generated/prisma/client";
 import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
 import { rateLimitByUser } from "@/lib/rateLimit";
 import { start } from "workflow/api";
 import { recurringTaskWorkflow } from "@/workflows/tasks/workflow";
+import {
+  DEFAULT_TASK_TIMEZONE,
+  MAX_CONCURRENT_TASKS,
+  MAX_TASK_INTERVAL_MS,
+  MIN_TASK_INTERVAL_MS,
+  SENSITIVE_TASK_TOOLS,
+  TASK_TRIGGER_MODES,
+  validateApprovalPolicy,
+  validateCronSchedule,
+  validateRetryPolicy,
+  validateTriggerSettings,
+  type TaskTriggerConfig,
+  type TriggerAdapterId,
+} from "@/lib/tasks";
+import { ALLOWED_AGENT_MODELS, DEFAULT_AGENT_MODEL } from "@/lib/agents";
 import type {
   TaskConfig,
   TaskTriggerMode,
@@ -12,14 +28,7 @@ import type {
 
 // ── Constants ────────────────────────────────────────────────────────────────
 
-const MIN_INTERVAL_MS = 60_000; // 1 minute
-const MAX_INTERVAL_MS = 86_400_000; // 24 hours
-const VALID_TRIGGER_MODES: TaskTriggerMode[] = [
-  "interval",
-  "event",
-  "event-or-interval",
-];
-const MAX_CONCURRENT_TASKS = 10;
+const VALID_TRIGGER_MODES: readonly TaskTriggerMode[] = TASK_TRIGGER_MODES;
 
 // ── GET: List user's tasks ──────────────────────────────────────────────────
 
@@ -51,6 +60,11 @@ export async function GET(req: NextRequest) {
           status: true,
           currentIteration: true,
           intervalMs: true,
+          triggerMode: true,
+          cronExpression: true,
+          timezone: true,
+          model: true,
+          pipelineId: true,
           maxIterations: true,
           lastExecutedAt: true,
           nextExecutionAt: true,
@@ -101,6 +115,16 @@ export async function POST(req: NextRequest) {
     enabledToolGroups = [],
     enabledSkills = [],
     triggerMode = "interval",
+    cronExpression,
+    timezone = DEFAULT_TASK_TIMEZONE,
+    model = DEFAULT_AGENT_MODEL,
+    approvalRequiredTools = [...SENSITIVE_TASK_TOOLS],
+    dryRun = false,
+    maxRetries,
+    retryBackoffMs,
+    failureThreshold,
+    triggerAdapter = "bearer",
+    triggerConfig,
   }: {
     name: string;
     taskPrompt: string;
@@ -110,6 +134,16 @@ export async function POST(req: NextRequest) {
     enabledToolGroups?: string[];
     enabledSkills?: string[];
     triggerMode?: TaskTriggerMode;
+    cronExpression?: string;
+    timezone?: string;
+    model?: string;
+    approvalRequiredTools?: string[];
+    dryRun?: boolean;
+    maxRetries?: number;
+    retryBackoffMs?: number;
+    failureThreshold?: number;
+    triggerAdapter?: TriggerAdapterId;
+    triggerConfig?: TaskTriggerConfig;
   } = body;
 
   // Validate required fields
@@ -123,7 +157,7 @@ export async function POST(req: NextRequest) {
   }
 
   // intervalMs is required for interval and event-or-interval modes
-  if (triggerMode !== "event" && !intervalMs) {
+  if (triggerMode !== "event" && triggerMode !== "cron" && !intervalMs) {
     return NextResponse.json(
       {
         error:
@@ -142,14 +176,66 @@ export async function POST(req: NextRequest) {
     );
   }
 
+  // cronExpression is required for cron mode and must fire in the timezone
+  if (triggerMode === "cron") {
+    if (typeof cronExpression !== "string" || typeof timezone !== "string") {
+      return NextResponse.json(
+        { error: "cronExpression is required for the cron trigger mode" },
+        { status: 400 },
+      );
+    }
+    const cronError = validateCronSchedule(cronExpression, timezone);
+    if (cronError) {
+      return NextResponse.json({ error: cronError }, { status: 400 });
+    }
+  }
+
+  // Only allow-listed models, so each pipeline stage can pick its own
+  if (!ALLOWED_AGENT_MODELS.has(model)) {
+    return NextResponse.json(
+      {
+        error: `model must be one of: ${[...ALLOWED_AGENT_MODELS].join(", ")}`,
+      },
+      { status: 400 },
+    );
+  }
+
+  const policyError = validateApprovalPolicy(approvalRequiredTools);
+  if (policyError) {
+    return NextResponse.json({ error: policyError }, { status: 400 });
+  }
+
+  if (typeof dryRun !== "boolean") {
+    return NextResponse.json(
+      { error: "dryRun must be a boolean" },
+      { status: 400 },
+    );
+  }
+
+  // How webhooks are verified and filtered (event modes only)
+  const triggerError = validateTriggerSettings(triggerAdapter, triggerConfig);
+  if (triggerError) {
+    return NextResponse.json({ error: triggerError }, { status: 400 });
+  }
+
+  // Retry policy fields left out use the defaults
+  const retryError = validateRetryPolicy({
+    maxRetries,
+    retryBackoffMs,
+    failureThreshold,
+  });
+  if (retryError) {
+    return NextResponse.json({ error: retryError }, { status: 400 });
+  }
+
   // Validate interval when provided
   if (
     intervalMs &&
-    (intervalMs < MIN_INTERVAL_MS || intervalMs > MAX_INTERVAL_MS)
+    (intervalMs < MIN_TASK_INTERVAL_MS || intervalMs > MAX_TASK_INTERVAL_MS)
   ) {
     return NextResponse.json(
       {
-        error: `intervalMs must be between ${MIN_INTERVAL_MS} (1 min) and ${MAX_INTERVAL_MS} (24 hrs)`,
+        error: `intervalMs must be between ${MIN_TASK_INTERVAL_MS} (1 min) and ${MAX_TASK_INTERVAL_MS} (24 hrs)`,
       },
       { status: 400 },
     );
@@ -196,7 +282,13 @@ export async function POST(req: NextRequest) {
 
     // Generate a webhook secret for event-triggered tasks
     const webhookSecret =
-      triggerMode !== "interval" ? randomBytes(32).toString("hex") : null;
+      triggerMode === "event" || triggerMode === "event-or-interval"
+        ? randomBytes(32).toString("hex")
+        : null;
+    const cronSchedule =
+      triggerMode === "cron" && cronExpression
+        ? { cronExpression: cronExpression.trim(), timezone }
+        : null;
 
     // Create task record
     const task = await prisma.agentTask.create({
@@ -207,10 +299,22 @@ export async function POST(req: NextRequest) {
         taskPrompt,
         intervalMs: intervalMs ?? 0,
         maxIterations,
+        model,
         enabledToolGroups,
+        approvalRequiredTools,
+        dryRun,
+        maxRetries,
+        retryBackoffMs,
+        failureThreshold,
         enabledSkills,
         triggerMode,
+        cronExpression: cronSchedule?.cronExpression,
+        timezone: cronSchedule?.timezone,
         webhookSecret,
+        ...(webhookSecret && {
+          triggerAdapter,
+          triggerConfig: triggerConfig as Prisma.InputJsonValue | undefined,
+        }),
         userId: auth.userId,
         agentId,
       },
@@ -223,12 +327,13 @@ export async function POST(req: NextRequest) {
       userId: auth.userId,
       taskPrompt,
       systemPrompt: agent.systemPrompt,
-      model: "anthropic/claude-haiku-4.5",
+      model,
       intervalMs: intervalMs ?? 0,
       maxIterations: maxIterations ?? undefined,
       enabledToolGroups,
       enabledSkills,
       triggerMode,
+      ...cronSchedule,
     };
 
     // Start the durable workflow
@@ -251,8 +356,17 @@ export async function POST(req: NextRequest) {
           maxIterations: task.maxIterations,
           enabledToolGroups: task.enabledToolGroups,
           triggerMode: task.triggerMode,
+          model: task.model,
+          approvalRequiredTools: task.approvalRequiredTools,
+          dryRun: task.dryRun,
+          maxRetries: task.maxRetries,
+          retryBackoffMs: task.retryBackoffMs,
+          failureThreshold: task.failureThreshold,
+          cronExpression: task.cronExpression ?? undefined,
+          timezone: task.timezone ?? undefined,
           // Returned once at creation time — store securely, it won't be exposed again
           webhookSecret: task.webhookSecret ?? undefined,
+          triggerAdapter: task.webhookSecret ? task.triggerAdapter : undefined,
           triggerUrl: task.webhookSecret
             ? `/api/tasks/${task.id}/trigger`
             : undefined,
@@ -0,0 +1,79 @@
+/**
+ * Usage CSV Export
+ *
+ * GET /api/usage/export — Download usage records as CSV, oldest first
+ *   ?from=ISO&to=ISO&agentId=&taskId=&chatId=&toolName=&apiKeyId=
+ *
+ * Capped at MAX_EXPORT_ROWS; the X-Export-Truncated header is set when the
+ * range holds more records than that.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
+import { rateLimitByUser } from "@/lib/rateLimit";
+import {
+  CSV_SELECT,
+  MAX_EXPORT_ROWS,
+  MAX_USAGE_WINDOW_DAYS,
+  buildUsageWhere,
+  parseUsageWindow,
+  usageRecordsToCsv,
+} from "@/lib/usage";
+
+export async function GET(req: NextRequest) {
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const rateLimited = await rateLimitByUser(auth.userId, "usage-export", 5);
+  if (rateLimited) return rateLimited;
+
+  const { searchParams } = new URL(req.url);
+  const window = parseUsageWindow(
+    searchParams.get("from"),
+    searchParams.get("to"),
+  );
+  if (!window) {
+    return NextResponse.json(
+      {
+        error: `Invalid date range (from must be before to, max ${MAX_USAGE_WINDOW_DAYS} days)`,
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const records = await prisma.usageRecord.findMany({
+      where: buildUsageWhere(auth.userId, {
+        ...window,
+        agentId: searchParams.get("agentId") || undefined,
+        taskId: searchParams.get("taskId") || undefined,
+        chatId: searchParams.get("chatId") || undefined,
+        toolName: searchParams.get("toolName") || undefined,
+        apiKeyId: searchParams.get("apiKeyId") || undefined,
+      }),
+      orderBy: { createdAt: "asc" },
+      take: MAX_EXPORT_ROWS + 1,
+      select: CSV_SELECT,
+    });
+
+    const truncated = records.length > MAX_EXPORT_ROWS;
+    const csv = usageRecordsToCsv(records.slice(0, MAX_EXPORT_ROWS));
+    const filename = `usage-${window.from.toISOString().slice(0, 10)}-to-${window.to.toISOString().slice(0, 10)}.csv`;
+
+    return new NextResponse(csv, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "no-store",
+        ...(truncated && { "X-Export-Truncated": "true" }),
+      },
+    });
+  } catch (error) {
+    console.error("[Usage] Failed to export usage:", error);
+    return NextResponse.json(
+      { error: "Failed to export usage" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Usage Records
+ *
+ * GET /api/usage/records — Paginated per-charge usage records, newest first
+ *   ?page=1&limit=50&from=ISO&to=ISO
+ *   &agentId=&taskId=&chatId=&toolName=&apiKeyId= (optional filters)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
+import { rateLimitByUser } from "@/lib/rateLimit";
+import {
+  MAX_USAGE_WINDOW_DAYS,
+  buildUsageWhere,
+  parseUsageWindow,
+} from "@/lib/usage";
+
+export async function GET(req: NextRequest) {
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const rateLimited = await rateLimitByUser(auth.userId, "usage-records", 30);
+  if (rateLimited) return rateLimited;
+
+  const { searchParams } = new URL(req.url);
+  const page = Math.max(1, parseInt(searchParams.get("page") || "1") || 1);
+  const limit = Math.min(
+    100,
+    Math.max(1, parseInt(searchParams.get("limit") || "50") || 50),
+  );
+
+  const window = parseUsageWindow(
+    searchParams.get("from"),
+    searchParams.get("to"),
+  );
+  if (!window) {
+    return NextResponse.json(
+      {
+        error: `Invalid date range (from must be before to, max ${MAX_USAGE_WINDOW_DAYS} days)`,
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const where = buildUsageWhere(auth.userId, {
+      ...window,
+      agentId: searchParams.get("agentId") || undefined,
+      taskId: searchParams.get("taskId") || undefined,
+      chatId: searchParams.get("chatId") || undefined,
+      toolName: searchParams.get("toolName") || undefined,
+      apiKeyId: searchParams.get("apiKeyId") || undefined,
+    });
+
+    const [records, total] = await Promise.all([
+      prisma.usageRecord.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+        omit: { userId: true },
+      }),
+      prisma.usageRecord.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      records: records.map((r) => ({
+        ...r,
+        lamports: r.lamports.toString(),
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error("[Usage] Failed to list usage records:", error);
+    return NextResponse.json(
+      { error: "Failed to load usage records" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Usage Breakdown
+ *
+ * GET /api/usage — Aggregated cost of successful charges for the caller
+ *   ?groupBy=day|agent|tool|task|model|apiKey (default: day)
+ *   &from=ISO&to=ISO (default: last 30 days, max 366)
+ *   &agentId=&taskId=&chatId=&toolName=&apiKeyId= (optional filters)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth, isAuthResult } from "@/lib/auth/verifyRequest";
+import { rateLimitByUser } from "@/lib/rateLimit";
+import {
+  USAGE_GROUP_BY,
+  MAX_USAGE_WINDOW_DAYS,
+  getUsageBreakdown,
+  parseUsageWindow,
+  type UsageGroupBy,
+} from "@/lib/usage";
+
+export async function GET(req: NextRequest) {
+  const auth = await requireAuth(req);
+  if (!isAuthResult(auth)) return auth;
+
+  const rateLimited = await rateLimitByUser(auth.userId, "usage", 30);
+  if (rateLimited) return rateLimited;
+
+  const { searchParams } = new URL(req.url);
+
+  const groupBy = (searchParams.get("groupBy") || "day") as UsageGroupBy;
+  if (!USAGE_GROUP_BY.includes(groupBy)) {
+    return NextResponse.json(
+      { error: `groupBy must be one of: ${USAGE_GROUP_BY.join(", ")}` },
+      { status: 400 },
+    );
+  }
+
+  const window = parseUsageWindow(
+    searchParams.get("from"),
+    searchParams.get("to"),
+  );
+  if (!window) {
+    return NextResponse.json(
+      {
+        error: `Invalid date range (from must be before to, max ${MAX_USAGE_WINDOW_DAYS} days)`,
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const { groups, totals } = await getUsageBreakdown(auth.userId, groupBy, {
+      ...window,
+      agentId: searchParams.get("agentId") || undefined,
+      taskId: searchParams.get("taskId") || undefined,
+      chatId: searchParams.get("chatId") || undefined,
+      toolName: searchParams.get("toolName") || undefined,
+      apiKeyId: searchParams.get("apiKeyId") || undefined,
+    });
+
+    return NextResponse.json({
+      groupBy,
+      from: window.from.toISOString(),
+      to: window.to.toISOString(),
+      totals,
+      groups,
+    });
+  } catch (error) {
+    console.error("[Usage] Failed to aggregate usage:", error);
+    return NextResponse.json(
+      { error: "Failed to load usage" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,420 @@
+/**
+ * OpenAI-Compatible Agent Chat Endpoint
+ *
+ * Chat with a platform agent (by DB ID or token mint) over the public API.
+ * The agent runs exactly as it does in the app: its identity and
+ * instructions, enabled skills and tool groups, executed server-side with
+ * multi-step tool calling. Only the final assistant text is returned, as an
+ * OpenAI chat completion (streaming SSE or JSON).
+ *
+ * Tool groups are opt-in per API key (`allowedToolGroups`). A request may
+ * narrow them with `tool_groups`; by default every allowed group is enabled.
+ *
+ * Authentication: API key only — LLM usage and tool costs are billed to the
+ * key owner (see lib/x402/api-key-billing).
+ */
+
+import { NextRequest, NextResponse, after } from "next/server";
+import {
+  streamText,
+  generateText,
+  stepCountIs,
+  type FinishReason,
+  type LanguageModelUsage,
+  type ModelMessage,
+  type TextStreamPart,
+  type ToolSet,
+} from "ai";
+import {
+  ALLOWED_AGENT_MODELS,
+  DEFAULT_AGENT_MODEL,
+  MAX_AGENT_STEPS,
+  findAgentByIdOrMint,
+  canAccessAgent,
+  buildAgentSystemPrompt,
+  buildAgentTools,
+  appendToolGuidelines,
+} from "@/lib/agents";
+import { calculateCost } from "@/lib/x402/ai-gateway-cost";
+import {
+  chargeApiKeyUsage,
+  createApiKeyBillingContext,
+} from "@/lib/x402/api-key-billing";
+import {
+  authenticateV1Request,
+  isApiKeyRequest,
+  v1ErrorResponse,
+} from "@/lib/auth/v1Request";
+import { checkSpendingLimits, describeBreach } from "@/lib/spending";
+import { nanoid } from "nanoid";
+
+// Tool-calling agents can run several sequential steps
+export const maxDuration = 300;
+
+// ── Request types ───────────────────────────────────────────────────────
+
+interface AgentChatMessage {
+  role: "user" | "assistant";
+  content: string | { type: string; text?: string }[] | null;
+}
+
+interface AgentChatRequest {
+  messages: AgentChatMessage[];
+  model?: string;
+  stream?: boolean;
+  temperature?: number;
+  max_tokens?: number;
+  /** Subset of the key's allowed tool groups to enable */
+  tool_groups?: unknown;
+  tools?: unknown;
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────────
+
+function contentToText(content: AgentChatMessage["content"]): string {
+  if (!content) return "";
+  if (typeof content === "string") return content;
+  return content
+    .filter((part) => part?.type === "text")
+    .map((part) => part.text ?? "")
+    .join("");
+}
+
+/**
+ * Only conversation turns are accepted — the agent's instructions come from
+ * its configuration, and its tools run server-side.
+ */
+function validateMessages(messages: AgentChatMessage[]): string | null {
+  for (const [i, msg] of messages.entries()) {
+    if (!msg || typeof msg !== "object") {
+      return `messages[${i}] must be an object`;
+    }
+    if (msg.role !== "user" && msg.role !== "assistant") {
+      return `messages[${i}].role must be 'user' or 'assistant'`;
+    }
+    if (
+      msg.content !== null &&
+      typeof msg.content !== "string" &&
+      !Array.isArray(msg.content)
+    ) {
+      return `messages[${i}].content must be a string or an array of content parts`;
+    }
+  }
+  return null;
+}
+
+function toModelMessages(messages: AgentChatMessage[]): ModelMessage[] {
+  return messages.map((msg) => ({
+    role: msg.role,
+    content: contentToText(msg.content),
+  }));
+}
+
+/**
+ * The agent's own tool calls are internal, so a run that stops on a tool
+ * call (step limit reached) still finishes as "stop" for the client.
+ */
+function toOpenAIFinishReason(reason: FinishReason): "stop" | "length" {
+  return reason === "length" ? "length" : "stop";
+}
+
+// ── OpenAI SSE streaming encoder (text only) ────────────────────────────
+
+function createAgentStream(
+  fullStream: AsyncIterable<TextStreamPart<ToolSet>>,
+  completionId: string,
+  model: string,
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+
+  return new ReadableStream({
+    async start(controller) {
+      const send = (
+        delta: Record<string, unknown>,
+        finishReason: "stop" | "length" | null = null,
+      ) => {
+        const payload = {
+          id: completionId,
+          object: "chat.completion.chunk",
+          created: Math.floor(Date.now() / 1000),
+          model,
+          choices: [{ index: 0, delta, finish_reason: finishReason }],
+        };
+        controller.enqueue(
+          encoder.encode(`data: ${JSON.stringify(payload)}\n\n`),
+        );
+      };
+
+      let finishReason: "stop" | "length" = "stop";
+
+      try {
+        send({ role: "assistant", content: "" });
+
+        for await (const part of fullStream) {
+          switch (part.type) {
+            case "text-delta":
+              if (part.text) send({ content: part.text });
+              break;
+
+            case "finish":
+              finishReason = toOpenAIFinishReason(part.finishReason);
+              break;
+
+            case "error":
+              throw part.error;
+          }
+        }
+
+        send({}, finishReason);
+        controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+        controller.close();
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+  });
+}
+
+// ── Route handler ───────────────────────────────────────────────────────
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ agentId: string }> },
+): Promise<Response> {
+  // Agents run billed tools, so the flat-rate x402 path isn't offered
+  if (!isApiKeyRequest(req)) {
+    return v1ErrorResponse(
+      "Agent chat requires an API key. Provide one via the Authorization header.",
+      "auth_error",
+      401,
+    );
+  }
+
+  const auth = await authenticateV1Request(req, "v1-agent-chat", 30);
+  if (!auth.ok) return auth.response;
+  if (!auth.billing || !auth.apiKey) {
+    return v1ErrorResponse("Invalid API key", "auth_error", 401);
+  }
+  const apiKeyBilling = auth.billing;
+  const userId = apiKeyBilling.userId;
+
+  const { agentId: agentIdOrMint } = await params;
+
+  let body: AgentChatRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return v1ErrorResponse("Invalid JSON body", "invalid_request_error", 400);
+  }
+
+  if (!Array.isArray(body.messages) || body.messages.length === 0) {
+    return v1ErrorResponse(
+      "messages is required and must be a non-empty array",
+      "invalid_request_error",
+      400,
+    );
+  }
+
+  const messageError = validateMessages(body.messages);
+  if (messageError) {
+    return v1ErrorResponse(messageError, "invalid_request_error", 400);
+  }
+
+  if (body.tools !== undefined) {
+    return v1ErrorResponse(
+      "Client-defined tools are not supported for agent chat. The agent's tools run server-side; use tool_groups to choose them.",
+      "invalid_request_error",
+      400,
+    );
+  }
+
+  // Tool groups: default to everything the key allows, never more
+  const allowedToolGroups = auth.apiKey.allowedToolGroups;
+  let toolGroups = allowedToolGroups;
+  if (body.tool_groups !== undefined) {
+    if (
+      !Array.isArray(body.tool_groups) ||
+      body.tool_groups.some((id) => typeof id !== "string")
+    ) {
+      return v1ErrorResponse(
+        "tool_groups must be an array of strings",
+        "invalid_request_error",
+        400,
+      );
+    }
+    const denied = body.tool_groups.filter(
+      (id: string) => !allowedToolGroups.includes(id),
+    );
+    if (denied.length > 0) {
+      return v1ErrorResponse(
+        `This API key is not allowed to use tool groups: ${denied.join(", ")}`,
+        "permission_error",
+        403,
+        "tool_group_not_allowed",
+      );
+    }
+    toolGroups = [...new Set(body.tool_groups as string[])];
+  }
+
+  const agent = await findAgentByIdOrMint(agentIdOrMint).catch((error) => {
+    console.error("[v1/agents] Failed to fetch agent:", error);
+    return null;
+  });
+  if (!agent) {
+    return v1ErrorResponse(
+      "Agent not found",
+      "invalid_request_error",
+      404,
+      "agent_not_found",
+    );
+  }
+  if (!canAccessAgent(agent, userId)) {
+    return v1ErrorResponse(
+      "Access denied to this agent",
+      "permission_error",
+      403,
+    );
+  }
+
+  // Agent-scoped limits (account limits were checked in the billing preflight)
+  const spending = await checkSpendingLimits({ userId, agentId: agent.id });
+  if (!spending.allowed && spending.breach) {
+    return v1ErrorResponse(
+      describeBreach(spending.breach),
+      "billing_error",
+      402,
+      "spending_limit_exceeded",
+    );
+  }
+
+  const model =
+    body.model && ALLOWED_AGENT_MODELS.has(body.model)
+      ? body.model
+      : DEFAULT_AGENT_MODEL;
+
+  const billingContext = createApiKeyBillingContext(apiKeyBilling, {
+    agentId: agent.id,
+  });
+
+  const baseSystemPrompt = buildAgentSystemPrompt(agent);
+  const { tools, skillPrompts } = await buildAgentTools({
+    userId,
+    agentId: agent.id,
+    baseSystemPrompt,
+    skills: agent.enabledSkills ?? [],
+    toolGroups,
+    billingContext,
+  });
+
+  const systemPrompt = appendToolGuidelines(
+    skillPrompts ? `${baseSystemPrompt}\n\n${skillPrompts}` : baseSystemPrompt,
+    tools,
+  );
+
+  // Bill the LLM usage across every step to the key owner
+  const billUsage = async (usage: LanguageModelUsage) => {
+    const cost = await calculateCost(model, {
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+    });
+    if (!cost || cost.totalWithFee <= 0) {
+      console.warn(
+        `[v1/agents] Could not calculate cost for model ${model}. Usage:`,
+        usage,
+      );
+      return;
+    }
+
+    const result = await chargeApiKeyUsage(
+      apiKeyBilling,
+      cost.totalWithFee,
+      `API Agent [${agent.name}] [${model}] - ${usage.totalTokens ?? 0} tokens`,
+      {
+        model,
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+        agentId: agent.id,
+      },
+    );
+    if (!result.success && result.error) {
+      console.error(`[v1/agents] Billing failed: ${result.error}`);
+    }
+  };
+
+  const generationOptions = {
+    model,
+    system: systemPrompt,
+    messages: toModelMessages(body.messages),
+    tools: Object.keys(tools).length > 0 ? tools : undefined,
+    stopWhen: stepCountIs(MAX_AGENT_STEPS),
+    temperature: body.temperature,
+    maxOutputTokens: body.max_tokens,
+  };
+  const completionId = `chatcmpl-${nanoid(24)}`;
+
+  try {
+    if (body.stream) {
+      const result = streamText({
+        ...generationOptions,
+        onFinish: async ({ totalUsage }) => {
+          await billUsage(totalUsage).catch((error) => {
+            console.error("[v1/agents] Billing error:", error);
+          });
+        },
+      });
+
+      // Keep generating after the client disconnects so onFinish still
+      // bills the tokens that were produced
+      after(Promise.resolve(result.consumeStream()));
+
+      const stream = createAgentStream(result.fullStream, completionId, model);
+
+      return new Response(stream, {
+        headers: {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+          Connection: "keep-alive",
+          "X-Agent-Name": encodeURIComponent(agent.name),
+        },
+      });
+    }
+
+    const result = await generateText(generationOptions);
+
+    // Awaited so the charge isn't dropped when the function freezes
+    await billUsage(result.totalUsage).catch((error) => {
+      console.error("[v1/agents] Billing error:", error);
+    });
+
+    return NextResponse.json(
+      {
+        id: completionId,
+        object: "chat.completion",
+        created: Math.floor(Date.now() / 1000),
+        model,
+        choices: [
+          {
+            index: 0,
+            message: { role: "assistant", content: result.text },
+            finish_reason: toOpenAIFinishReason(result.finishReason),
+          },
+        ],
+        usage: {
+          prompt_tokens: result.totalUsage.inputTokens,
+          completion_tokens: result.totalUsage.outputTokens,
+          total_tokens:
+            (result.totalUsage.inputTokens ?? 0) +
+            (result.totalUsage.outputTokens ?? 0),
+        },
+      },
+      { headers: { "X-Agent-Name": encodeURIComponent(agent.name) } },
+    );
+  } catch (error) {
+    console.error("[v1/agents] Generation error:", error);
+    return v1ErrorResponse(
+      "An error occurred during generation",
+      "server_error",
+      500,
+    );
+  }
+}
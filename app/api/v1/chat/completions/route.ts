@@ -5,17 +5,39 @@
  * Accepts standard OpenAI chat completion requests and returns
  * OpenAI-format responses (both streaming SSE and non-streaming JSON).
  *
+ * Function calling follows OpenAI semantics: `tools`/`tool_choice` are
+ * passed to the model without server-side execution, calls come back as
+ * `tool_calls` (deltas when streaming), and the client answers them with
+ * `tool` role messages on the next turn.
+ *
  * Authentication:
- * - Bearer token via Authorization header (API key mode)
- * - x402 native SOL payment via X-PAYMENT header
+ * - Bearer token via Authorization header (API key mode) — usage is billed
+ *   to the key owner after generation (see lib/x402/api-key-billing)
+ * - x402 native SOL payment via X-PAYMENT header (flat-rate, prepaid)
  */
 
-import { NextRequest, NextResponse } from "next/server";
-import { streamText, generateText, type ModelMessage } from "ai";
-import { rateLimitByIP, rateLimitByUser } from "@/lib/rateLimit";
+import { NextRequest, NextResponse, after } from "next/server";
+import {
+  streamText,
+  generateText,
+  jsonSchema,
+  tool,
+  type FinishReason,
+  type JSONSchema7,
+  type LanguageModelUsage,
+  type ModelMessage,
+  type TextStreamPart,
+  type ToolChoice,
+  type ToolSet,
+} from "ai";
 import { withSolPayment, isSolPaymentEnabled } from "@/lib/x402/sol-middleware";
-import { calculateCost } from "@/lib/x402/ai-gateway-cost";
-import { validateApiKey } from "@/lib/auth/validateApiKey";
+import { calculateCost, getModelPricing } from "@/lib/x402/ai-gateway-cost";
+import { chargeApiKeyUsage } from "@/lib/x402/api-key-billing";
+import {
+  authenticateV1Request,
+  isApiKeyRequest,
+  v1ErrorResponse,
+} from "@/lib/auth/v1Request";
 import { nanoid } from "nanoid";
 
 export const maxDuration = 120;
@@ -24,11 +46,44 @@ const DEFAULT_MODEL = "anthropic/claude-haiku-4.6";
 
 // ── OpenAI types (subset we support) ────────────────────────────────────
 
-interface OpenAIChatMessage {
-  role: "system" | "user" | "assistant";
-  content: string;
+interface OpenAITextContentPart {
+  type: "text";
+  text: string;
+}
+
+type OpenAIMessageContent = string | OpenAITextContentPart[] | null;
+
+interface OpenAIToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
 }
 
+type OpenAIChatMessage =
+  | { role: "system" | "developer"; content: OpenAIMessageContent }
+  | { role: "user"; content: OpenAIMessageContent }
+  | {
+      role: "assistant";
+      content?: OpenAIMessageContent;
+      tool_calls?: OpenAIToolCall[];
+    }
+  | { role: "tool"; content: OpenAIMessageContent; tool_call_id: string };
+
+interface OpenAITool {
+  type: "function";
+  function: {
+    name: string;
+    description?: string;
+    parameters?: Record<string, unknown>;
+  };
+}
+
+type OpenAIToolChoice =
+  | "none"
+  | "auto"
+  | "required"
+  | { type: "function"; function: { name: string } };
+
 interface OpenAIChatRequest {
   model?: string;
   messages: OpenAIChatMessage[];
@@ -37,44 +92,236 @@ interface OpenAIChatRequest {
   max_tokens?: number;
   top_p?: number;
   stop?: string | string[];
+  tools?: OpenAITool[];
+  tool_choice?: OpenAIToolChoice;
 }
 
+type OpenAIFinishReason = "stop" | "length" | "tool_calls" | "content_filter";
+
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+const MAX_TOOLS = 128;
+
 // ── Helpers ─────────────────────────────────────────────────────────────
 
-function convertToModelMessages(messages: OpenAIChatMessage[]): ModelMessage[] {
-  return messages.map((msg) => {
-    if (msg.role === "system") {
-      return { role: "system" as const, content: msg.content };
+function contentToText(content: OpenAIMessageContent | undefined): string {
+  if (!content) return "";
+  if (typeof content === "string") return content;
+  return content
+    .filter((part) => part?.type === "text")
+    .map((part) => part.text)
+    .join("");
+}
+
+/**
+ * Validate the parts of the request the model layer can't check for us:
+ * message roles, tool definitions, tool_choice, and that every `tool`
+ * message answers a tool call made by an earlier assistant message.
+ * Returns an error message, or null when the request is well-formed.
+ */
+function validateChatRequest(body: OpenAIChatRequest): string | null {
+  const toolCallIds = new Set<string>();
+
+  for (const [i, msg] of body.messages.entries()) {
+    if (!msg || typeof msg !== "object") {
+      return `messages[${i}] must be an object`;
     }
-    if (msg.role === "assistant") {
-      return {
-        role: "assistant" as const,
-        content: [{ type: "text" as const, text: msg.content }],
-      };
+    switch (msg.role) {
+      case "system":
+      case "developer":
+      case "user":
+        break;
+      case "assistant":
+        if (msg.tool_calls !== undefined) {
+          if (!Array.isArray(msg.tool_calls)) {
+            return `messages[${i}].tool_calls must be an array`;
+          }
+          for (const call of msg.tool_calls) {
+            if (
+              typeof call?.id !== "string" ||
+              typeof call.function?.name !== "string" ||
+              typeof call.function.arguments !== "string"
+            ) {
+              return `messages[${i}].tool_calls entries require id, function.name and function.arguments`;
+            }
+            toolCallIds.add(call.id);
+          }
+        }
+        break;
+      case "tool":
+        if (!toolCallIds.has(msg.tool_call_id)) {
+          return `messages[${i}] with role 'tool' must respond to a tool_call_id from a preceding assistant message`;
+        }
+        break;
+      default:
+        return `messages[${i}].role must be one of system, developer, user, assistant or tool`;
+    }
+  }
+
+  const toolNames = new Set<string>();
+  if (body.tools !== undefined) {
+    if (!Array.isArray(body.tools) || body.tools.length > MAX_TOOLS) {
+      return `tools must be an array of at most ${MAX_TOOLS} functions`;
+    }
+    for (const [i, tool] of body.tools.entries()) {
+      if (tool?.type !== "function" || !tool.function) {
+        return `tools[${i}].type must be 'function'`;
+      }
+      if (!TOOL_NAME_PATTERN.test(tool.function.name ?? "")) {
+        return `tools[${i}].function.name must match ${TOOL_NAME_PATTERN}`;
+      }
+      if (
+        tool.function.parameters !== undefined &&
+        (typeof tool.function.parameters !== "object" ||
+          tool.function.parameters === null)
+      ) {
+        return `tools[${i}].function.parameters must be a JSON Schema object`;
+      }
+      toolNames.add(tool.function.name);
+    }
+  }
+
+  const choice = body.tool_choice;
+  if (choice !== undefined) {
+    if (typeof choice === "string") {
+      if (!["none", "auto", "required"].includes(choice)) {
+        return "tool_choice must be 'none', 'auto', 'required' or a function";
+      }
+    } else if (!toolNames.has(choice?.function?.name ?? "")) {
+      return "tool_choice names a function that is not in tools";
+    }
+    if (choice !== "none" && toolNames.size === 0) {
+      return "tool_choice requires tools";
+    }
+  }
+
+  return null;
+}
+
+function convertToModelMessages(messages: OpenAIChatMessage[]): ModelMessage[] {
+  // Tool results only carry the call id — recover the tool name from the
+  // assistant message that made the call
+  const toolNamesByCallId = new Map<string, string>();
+
+  return messages.map((msg): ModelMessage => {
+    switch (msg.role) {
+      case "system":
+      case "developer":
+        return { role: "system", content: contentToText(msg.content) };
+
+      case "assistant": {
+        const text = contentToText(msg.content);
+        const toolCalls = (msg.tool_calls ?? []).map((call) => {
+          toolNamesByCallId.set(call.id, call.function.name);
+          return {
+            type: "tool-call" as const,
+            toolCallId: call.id,
+            toolName: call.function.name,
+            input: parseToolArguments(call.function.arguments),
+          };
+        });
+        return {
+          role: "assistant",
+          content: [
+            ...(text ? [{ type: "text" as const, text }] : []),
+            ...toolCalls,
+          ],
+        };
+      }
+
+      case "tool":
+        return {
+          role: "tool",
+          content: [
+            {
+              type: "tool-result",
+              toolCallId: msg.tool_call_id,
+              toolName: toolNamesByCallId.get(msg.tool_call_id) ?? "",
+              output: { type: "text", value: contentToText(msg.content) },
+            },
+          ],
+        };
+
+      default:
+        return {
+          role: "user",
+          content: [{ type: "text", text: contentToText(msg.content) }],
+        };
     }
-    return {
-      role: "user" as const,
-      content: [{ type: "text" as const, text: msg.content }],
-    };
   });
 }
 
-function extractBearerToken(req: NextRequest): string | null {
-  const auth = req.headers.get("authorization");
-  if (!auth?.startsWith("Bearer ")) return null;
-  return auth.slice(7);
+/** Tool call arguments arrive as a JSON string; keep it raw if malformed. */
+function parseToolArguments(args: string): unknown {
+  try {
+    return JSON.parse(args);
+  } catch {
+    return args;
+  }
 }
 
-function hasX402Payment(req: NextRequest): boolean {
-  return !!(
-    req.headers.get("X-PAYMENT") || req.headers.get("PAYMENT-SIGNATURE")
+function convertTools(tools: OpenAITool[] | undefined): ToolSet | undefined {
+  if (!tools?.length) return undefined;
+
+  // No execute — calls are returned to the client to run
+  return Object.fromEntries(
+    tools.map((t) => [
+      t.function.name,
+      tool({
+        description: t.function.description,
+        inputSchema: jsonSchema(
+          (t.function.parameters ?? {
+            type: "object",
+            properties: {},
+          }) as JSONSchema7,
+        ),
+      }),
+    ]),
   );
 }
 
+function convertToolChoice(
+  choice: OpenAIToolChoice | undefined,
+): ToolChoice<ToolSet> | undefined {
+  if (!choice) return undefined;
+  if (typeof choice === "string") return choice;
+  return { type: "tool", toolName: choice.function.name };
+}
+
+function toOpenAIFinishReason(reason: FinishReason): OpenAIFinishReason {
+  switch (reason) {
+    case "length":
+      return "length";
+    case "tool-calls":
+      return "tool_calls";
+    case "content-filter":
+      return "content_filter";
+    default:
+      return "stop";
+  }
+}
+
+function toOpenAIToolCall(call: {
+  toolCallId: string;
+  toolName: string;
+  input: unknown;
+}): OpenAIToolCall {
+  return {
+    id: call.toolCallId,
+    type: "function",
+    function: {
+      name: call.toolName,
+      arguments:
+        typeof call.input === "string"
+          ? call.input
+          : JSON.stringify(call.input ?? {}),
+    },
+  };
+}
+
 // ── OpenAI SSE streaming encoder ────────────────────────────────────────
 
 function createOpenAIStream(
-  textStream: AsyncIterable<string>,
+  fullStream: AsyncIterable<TextStreamPart<ToolSet>>,
   completionId: string,
   model: string,
 ): ReadableStream<Uint8Array> {
@@ -82,43 +329,80 @@ function createOpenAIStream(
 
   return new ReadableStream({
     async start(controller) {
-      try {
-        for await (const chunk of textStream) {
-          const payload = {
-            id: completionId,
-            object: "chat.completion.chunk",
-            created: Math.floor(Date.now() / 1000),
-            model,
-            choices: [
-              {
-                index: 0,
-                delta: { content: chunk },
-                finish_reason: null,
-              },
-            ],
-          };
-          controller.enqueue(
-            encoder.encode(`data: ${JSON.stringify(payload)}\n\n`),
-          );
-        }
-
-        // Final chunk with finish_reason
-        const donePayload = {
+      const send = (
+        delta: Record<string, unknown>,
+        finishReason: OpenAIFinishReason | null = null,
+      ) => {
+        const payload = {
           id: completionId,
           object: "chat.completion.chunk",
           created: Math.floor(Date.now() / 1000),
           model,
-          choices: [
-            {
-              index: 0,
-              delta: {},
-              finish_reason: "stop",
-            },
-          ],
+          choices: [{ index: 0, delta, finish_reason: finishReason }],
         };
         controller.enqueue(
-          encoder.encode(`data: ${JSON.stringify(donePayload)}\n\n`),
+          encoder.encode(`data: ${JSON.stringify(payload)}\n\n`),
         );
+      };
+
+      // OpenAI addresses streamed tool calls by position, not id
+      const toolCallIndexes = new Map<string, number>();
+      let finishReason: OpenAIFinishReason = "stop";
+
+      try {
+        for await (const part of fullStream) {
+          switch (part.type) {
+            case "text-delta":
+              if (part.text) send({ content: part.text });
+              break;
+
+            case "tool-input-start": {
+              const index = toolCallIndexes.size;
+              toolCallIndexes.set(part.id, index);
+              send({
+                tool_calls: [
+                  {
+                    index,
+                    id: part.id,
+                    type: "function",
+                    function: { name: part.toolName, arguments: "" },
+                  },
+                ],
+              });
+              break;
+            }
+
+            case "tool-input-delta": {
+              const index = toolCallIndexes.get(part.id);
+              if (index === undefined || !part.delta) break;
+              send({
+                tool_calls: [{ index, function: { arguments: part.delta } }],
+              });
+              break;
+            }
+
+            case "tool-call": {
+              // Providers that don't stream tool input only emit the final call
+              if (toolCallIndexes.has(part.toolCallId)) break;
+              const index = toolCallIndexes.size;
+              toolCallIndexes.set(part.toolCallId, index);
+              send({
+                tool_calls: [{ index, ...toOpenAIToolCall(part) }],
+              });
+              break;
+            }
+
+            case "finish":
+              finishReason = toOpenAIFinishReason(part.finishReason);
+              break;
+
+            case "error":
+              throw part.error;
+          }
+        }
+
+        // Final chunk with finish_reason
+        send({}, finishReason);
         controller.enqueue(encoder.encode("data: [DONE]\n\n"));
         controller.close();
       } catch (error) {
@@ -132,69 +416,79 @@ function createOpenAIStream(
 
 async function completionsHandler(req: NextRequest): Promise<Response> {
   // Auth: bearer token (DB-backed) OR x402 payment (validated by middleware wrapper)
-  const bearerToken = extractBearerToken(req);
-  const hasPayment = hasX402Payment(req);
-
-  if (!bearerToken && !hasPayment) {
-    return NextResponse.json(
-      {
-        error: {
-          message:
-            "Missing authentication. Provide an API key via Authorization header or x402 payment via X-PAYMENT header.",
-          type: "auth_error",
-        },
-      },
-      { status: 401 },
-    );
-  }
-
-  let authenticatedUserId: string | null = null;
-
-  if (bearerToken) {
-    const keyResult = await validateApiKey(bearerToken);
-    if (!keyResult.valid) {
-      return NextResponse.json(
-        { error: { message: keyResult.error, type: "auth_error" } },
-        { status: keyResult.status },
-      );
-    }
-    authenticatedUserId = keyResult.userId;
-  }
-
-  // Rate limit by authenticated user when available, fall back to IP for x402
-  const rateLimited = authenticatedUserId
-    ? await rateLimitByUser(authenticatedUserId, "v1-completions", 60)
-    : await rateLimitByIP(req, "v1-completions", 60);
-  if (rateLimited) return rateLimited;
+  const auth = await authenticateV1Request(req, "v1-completions");
+  if (!auth.ok) return auth.response;
+  const apiKeyBilling = auth.billing;
 
   // Parse request body
   let body: OpenAIChatRequest;
   try {
     body = await req.json();
   } catch {
-    return NextResponse.json(
-      {
-        error: { message: "Invalid JSON body", type: "invalid_request_error" },
-      },
-      { status: 400 },
-    );
+    return v1ErrorResponse("Invalid JSON body", "invalid_request_error", 400);
   }
 
   if (!Array.isArray(body.messages) || body.messages.length === 0) {
-    return NextResponse.json(
-      {
-        error: {
-          message: "messages is required and must be a non-empty array",
-          type: "invalid_request_error",
-        },
-      },
-      { status: 400 },
+    return v1ErrorResponse(
+      "messages is required and must be a non-empty array",
+      "invalid_request_error",
+      400,
     );
   }
 
+  const requestError = validateChatRequest(body);
+  if (requestError) {
+    return v1ErrorResponse(requestError, "invalid_request_error", 400);
+  }
+
   const model = body.model?.trim() || DEFAULT_MODEL;
 
+  // API-key requests are billed from gateway pricing — refuse models we
+  // can't price rather than serving them for free
+  if (apiKeyBilling && !(await getModelPricing(model))) {
+    return v1ErrorResponse(
+      `The model '${model}' does not exist or has no pricing available`,
+      "invalid_request_error",
+      400,
+      "model_not_found",
+    );
+  }
+
+  // Price the finished generation and bill the key owner (API-key mode).
+  // x402 requests were already paid flat-rate, so their cost is only logged.
+  const billUsage = async (usage: LanguageModelUsage) => {
+    const cost = await calculateCost(model, {
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+    });
+    if (!cost) return;
+
+    const totalTokens = usage.totalTokens ?? 0;
+    if (!apiKeyBilling) {
+      console.log(
+        `[v1/completions] ${model} — ${totalTokens} tokens — $${cost.totalCost.toFixed(6)}`,
+      );
+      return;
+    }
+
+    const result = await chargeApiKeyUsage(
+      apiKeyBilling,
+      cost.totalWithFee,
+      `API [${model}] - ${totalTokens} tokens`,
+      {
+        model,
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+      },
+    );
+    if (!result.success && result.error) {
+      console.error(`[v1/completions] Billing failed: ${result.error}`);
+    }
+  };
+
   const modelMessages = convertToModelMessages(body.messages);
+  const tools = convertTools(body.tools);
+  const toolChoice = tools ? convertToolChoice(body.tool_choice) : undefined;
   const completionId = `chatcmpl-${nanoid(24)}`;
 
   try {
@@ -203,6 +497,8 @@ async function completionsHandler(req: NextRequest): Promise<Response> {
       const result = streamText({
         model,
         messages: modelMessages,
+        tools,
+        toolChoice,
         temperature: body.temperature,
         maxOutputTokens: body.max_tokens,
         topP: body.top_p,
@@ -212,19 +508,17 @@ async function completionsHandler(req: NextRequest): Promise<Response> {
             : [body.stop]
           : undefined,
         onFinish: async ({ usage }) => {
-          const cost = await calculateCost(model, {
-            inputTokens: usage.inputTokens,
-            outputTokens: usage.outputTokens,
+          await billUsage(usage).catch((error) => {
+            console.error("[v1/completions] Billing error:", error);
           });
-          if (cost) {
-            console.log(
-              `[v1/completions] ${model} — ${usage.totalTokens ?? 0} tokens — $${cost.totalCost.toFixed(6)}`,
-            );
-          }
         },
       });
 
-      const stream = createOpenAIStream(result.textStream, completionId, model);
+      // Keep generating after the client disconnects so onFinish still
+      // bills the tokens that were produced
+      after(Promise.resolve(result.consumeStream()));
+
+      const stream = createOpenAIStream(result.fullStream, completionId, model);
 
       return new Response(stream, {
         headers: {
@@ -239,6 +533,8 @@ async function completionsHandler(req: NextRequest): Promise<Response> {
     const result = await generateText({
       model,
       messages: modelMessages,
+      tools,
+      toolChoice,
       temperature: body.temperature,
       maxOutputTokens: body.max_tokens,
       topP: body.top_p,
@@ -249,15 +545,12 @@ async function completionsHandler(req: NextRequest): Promise<Response> {
         : undefined,
     });
 
-    const cost = await calculateCost(model, {
-      inputTokens: result.usage.inputTokens,
-      outputTokens: result.usage.outputTokens,
+    // Awaited so the charge isn't dropped when the function freezes
+    await billUsage(result.usage).catch((error) => {
+      console.error("[v1/completions] Billing error:", error);
     });
-    if (cost) {
-      console.log(
-        `[v1/completions] ${model} — ${result.usage.totalTokens ?? 0} tokens — $${cost.totalCost.toFixed(6)}`,
-      );
-    }
+
+    const toolCalls = result.toolCalls.map(toOpenAIToolCall);
 
     return NextResponse.json({
       id: completionId,
@@ -269,9 +562,10 @@ async function completionsHandler(req: NextRequest): Promise<Response> {
           index: 0,
           message: {
             role: "assistant",
-            content: result.text,
+            content: result.text || (toolCalls.length > 0 ? null : ""),
+            ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
           },
-          finish_reason: result.finishReason === "stop" ? "stop" : "length",
+          finish_reason: toOpenAIFinishReason(result.finishReason),
         },
       ],
       usage: {
@@ -283,26 +577,22 @@ async function completionsHandler(req: NextRequest): Promise<Response> {
     });
   } catch (error) {
     console.error("[v1/completions] Generation error:", error);
-    return NextResponse.json(
-      {
-        error: {
-          message: "An error occurred during generation",
-          type: "server_error",
-        },
-      },
-      { status: 500 },
+    return v1ErrorResponse(
+      "An error occurred during generation",
+      "server_error",
+      500,
     );
   }
 }
 
-// Bearer API keys bypass x402 payment. If no bearer token, fall through to x402 middleware.
+// Bearer API keys bypass x402 payment (they're billed to the key owner after
+// generation). If no bearer token, fall through to x402 middleware.
 const x402Handler = isSolPaymentEnabled()
   ? withSolPayment(completionsHandler, "chat")
   : completionsHandler;
 
 export async function POST(req: NextRequest): Promise<Response> {
-  const bearer = req.headers.get("authorization");
-  if (bearer?.startsWith("Bearer sk-ai_")) {
+  if (isApiKeyRequest(req)) {
     return completionsHandler(req);
   }
   return x402Handler(req);
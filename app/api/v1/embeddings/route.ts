@@ -0,0 +1,181 @@
+/**
+ * OpenAI-Compatible Embeddings Endpoint
+ *
+ * Public API for `agentinc.embeddingModel(...)` in the
+ * @agent-inc/ai-sdk-provider NPM package. Accepts a single string or a batch
+ * of strings and returns OpenAI-format embedding lists.
+ *
+ * Authentication and billing match /api/v1/chat/completions:
+ * - Bearer token via Authorization header (API key mode) — billed to the key
+ *   owner from AI Gateway token pricing
+ * - x402 native SOL payment via X-PAYMENT header (flat-rate, prepaid)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { withSolPayment, isSolPaymentEnabled } from "@/lib/x402/sol-middleware";
+import { calculateCost, getModelPricing } from "@/lib/x402/ai-gateway-cost";
+import { chargeApiKeyUsage } from "@/lib/x402/api-key-billing";
+import {
+  authenticateV1Request,
+  isApiKeyRequest,
+  v1ErrorResponse,
+} from "@/lib/auth/v1Request";
+import { embedValues, EMBEDDING_MODEL_ID } from "@/lib/ai/embedding";
+
+export const maxDuration = 60;
+
+/** OpenAI's per-request input cap */
+const MAX_INPUTS = 2048;
+/** Largest output size offered by the text-embedding-3 family */
+const MAX_DIMENSIONS = 3072;
+
+// ── OpenAI types (subset we support) ────────────────────────────────────
+
+interface OpenAIEmbeddingRequest {
+  model?: string;
+  input: string | string[];
+  dimensions?: number;
+  encoding_format?: "float" | "base64";
+  user?: string;
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────────
+
+/** Little-endian float32 bytes, base64-encoded — OpenAI's base64 format. */
+function encodeBase64(embedding: number[]): string {
+  return Buffer.from(new Float32Array(embedding).buffer).toString("base64");
+}
+
+function validateEmbeddingRequest(body: OpenAIEmbeddingRequest): string | null {
+  const inputs = typeof body.input === "string" ? [body.input] : body.input;
+
+  if (!Array.isArray(inputs) || inputs.length === 0) {
+    return "input is required and must be a string or a non-empty array of strings";
+  }
+  if (inputs.length > MAX_INPUTS) {
+    return `input must contain at most ${MAX_INPUTS} items`;
+  }
+  if (inputs.some((value) => typeof value !== "string" || value === "")) {
+    return "input items must be non-empty strings";
+  }
+
+  if (
+    body.dimensions !== undefined &&
+    (!Number.isInteger(body.dimensions) ||
+      body.dimensions < 1 ||
+      body.dimensions > MAX_DIMENSIONS)
+  ) {
+    return `dimensions must be an integer between 1 and ${MAX_DIMENSIONS}`;
+  }
+
+  if (
+    body.encoding_format !== undefined &&
+    body.encoding_format !== "float" &&
+    body.encoding_format !== "base64"
+  ) {
+    return "encoding_format must be 'float' or 'base64'";
+  }
+
+  return null;
+}
+
+// ── Route handler ───────────────────────────────────────────────────────
+
+async function embeddingsHandler(req: NextRequest): Promise<Response> {
+  const auth = await authenticateV1Request(req, "v1-embeddings");
+  if (!auth.ok) return auth.response;
+  const apiKeyBilling = auth.billing;
+
+  let body: OpenAIEmbeddingRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return v1ErrorResponse("Invalid JSON body", "invalid_request_error", 400);
+  }
+
+  const requestError = validateEmbeddingRequest(body);
+  if (requestError) {
+    return v1ErrorResponse(requestError, "invalid_request_error", 400);
+  }
+
+  const model = body.model?.trim() || EMBEDDING_MODEL_ID;
+  const inputs = typeof body.input === "string" ? [body.input] : body.input;
+
+  // API-key requests are billed from gateway pricing — refuse models we
+  // can't price rather than serving them for free
+  if (apiKeyBilling && !(await getModelPricing(model))) {
+    return v1ErrorResponse(
+      `The model '${model}' does not exist or has no pricing available`,
+      "invalid_request_error",
+      400,
+      "model_not_found",
+    );
+  }
+
+  try {
+    const { embeddings, tokens } = await embedValues(inputs, {
+      modelId: model,
+      dimensions: body.dimensions,
+    });
+
+    // Embeddings only consume input tokens. Awaited so the charge isn't
+    // dropped when the function freezes.
+    const cost = await calculateCost(model, { inputTokens: tokens }).catch(
+      () => null,
+    );
+    if (cost && apiKeyBilling) {
+      const charge = await chargeApiKeyUsage(
+        apiKeyBilling,
+        cost.totalWithFee,
+        `API Embeddings [${model}] - ${inputs.length} input(s), ${tokens} tokens`,
+        { model, inputTokens: tokens },
+      ).catch((error) => {
+        console.error("[v1/embeddings] Billing error:", error);
+        return null;
+      });
+      if (charge && !charge.success && charge.error) {
+        console.error(`[v1/embeddings] Billing failed: ${charge.error}`);
+      }
+    } else if (cost) {
+      console.log(
+        `[v1/embeddings] ${model} — ${tokens} tokens — $${cost.totalCost.toFixed(6)}`,
+      );
+    }
+
+    const base64 = body.encoding_format === "base64";
+
+    return NextResponse.json({
+      object: "list",
+      data: embeddings.map((embedding, index) => ({
+        object: "embedding",
+        index,
+        embedding: base64 ? encodeBase64(embedding) : embedding,
+      })),
+      model,
+      usage: {
+        prompt_tokens: tokens,
+        total_tokens: tokens,
+      },
+    });
+  } catch (error) {
+    console.error("[v1/embeddings] Embedding error:", error);
+    return v1ErrorResponse(
+      "An error occurred while generating embeddings",
+      "server_error",
+      500,
+    );
+  }
+}
+
+// Bearer API keys bypass x402 payment (they're billed to the key owner after
+// generation). If no bearer token, fall through to x402 middleware.
+const x402Handler = isSolPaymentEnabled()
+  ? withSolPayment(embeddingsHandler, "embeddings")
+  : embeddingsHandler;
+
+export async function POST(req: NextRequest): Promise<Response> {
+  if (isApiKeyRequest(req)) {
+    return embeddingsHandler(req);
+  }
+  return x402Handler(req);
+}
@@ -0,0 +1,111 @@
+/**
+ * OpenAI-Compatible Model Catalog
+ *
+ * GET /api/v1/models — List the models accepted by /api/v1/chat/completions
+ * and /api/v1/embeddings, with context window, capabilities and pricing.
+ *
+ * Sourced from the AI Gateway pricing cache, so only models we can bill are
+ * listed. Prices are per million tokens with the platform fee included
+ * (AGENTINC holders get a further discount at charge time). SOL prices use
+ * the current SOL/USD rate.
+ *
+ * Query params:
+ *   type — "language" | "embedding" (optional filter)
+ *
+ * Public: the catalog holds no account data, so no API key is required.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { rateLimitByIP } from "@/lib/rateLimit";
+import { getModelCatalog } from "@/lib/x402/ai-gateway-cost";
+import { getSolPrice } from "@/lib/x402/sol-facilitator";
+import { PLATFORM_FEE_RATE } from "@/lib/revenue/constants";
+import { v1ErrorResponse } from "@/lib/auth/v1Request";
+
+const MODEL_TYPES = ["language", "embedding"] as const;
+type ListedModelType = (typeof MODEL_TYPES)[number];
+
+const TOKENS_PER_UNIT = 1_000_000;
+
+function perMillion(costPerToken: number, solPrice: number) {
+  const usd = costPerToken * TOKENS_PER_UNIT * (1 + PLATFORM_FEE_RATE);
+  return {
+    usd: Number(usd.toFixed(6)),
+    sol: solPrice > 0 ? Number((usd / solPrice).toFixed(9)) : null,
+  };
+}
+
+export async function GET(req: NextRequest) {
+  const rateLimited = await rateLimitByIP(req, "v1-models", 30);
+  if (rateLimited) return rateLimited;
+
+  const typeParam = req.nextUrl.searchParams.get("type");
+  if (typeParam && !MODEL_TYPES.includes(typeParam as ListedModelType)) {
+    return v1ErrorResponse(
+      `type must be one of: ${MODEL_TYPES.join(", ")}`,
+      "invalid_request_error",
+      400,
+    );
+  }
+
+  try {
+    const [catalog, solPrice] = await Promise.all([
+      getModelCatalog(),
+      getSolPrice().catch(() => 0),
+    ]);
+
+    // Image/video models can't be served by any /api/v1 endpoint yet.
+    // Entries cached before metadata existed have no type — treat as language.
+    const models = catalog.filter((model) => {
+      const type = model.modelType ?? "language";
+      if (!MODEL_TYPES.includes(type as ListedModelType)) return false;
+      return !typeParam || type === typeParam;
+    });
+
+    const data = models.map((model) => {
+      const input = perMillion(model.inputCostPerToken, solPrice);
+      const output = perMillion(model.outputCostPerToken, solPrice);
+      const cachedInput =
+        model.cachedInputCostPerToken !== undefined
+          ? perMillion(model.cachedInputCostPerToken, solPrice)
+          : null;
+
+      return {
+        id: model.modelId,
+        object: "model",
+        owned_by: model.modelId.split("/")[0],
+        name: model.name ?? model.modelId,
+        type: model.modelType ?? "language",
+        context_window: model.contextWindow ?? null,
+        max_output_tokens: model.maxOutputTokens ?? null,
+        capabilities: model.capabilities ?? null,
+        pricing: {
+          unit: "1M tokens",
+          input_usd: input.usd,
+          output_usd: output.usd,
+          cached_input_usd: cachedInput?.usd ?? null,
+          input_sol: input.sol,
+          output_sol: output.sol,
+          cached_input_sol: cachedInput?.sol ?? null,
+        },
+      };
+    });
+
+    return NextResponse.json(
+      {
+        object: "list",
+        data,
+        platform_fee_rate: PLATFORM_FEE_RATE,
+        sol_price_usd: solPrice > 0 ? solPrice : null,
+      },
+      {
+        headers: {
+          "Cache-Control": "public, s-maxage=300, stale-while-revalidate=600",
+        },
+      },
+    );
+  } catch (error) {
+    console.error("[v1/models] Catalog error:", error);
+    return v1ErrorResponse("Failed to load model catalog", "server_error", 500);
+  }
+}
@@ -17,6 +17,7 @@ import {
   ShoppingBag,
   Key,
   Coins,
+  BarChart3,
 } from "lucide-react";
 import LoginButton from "./LoginButton";
 
@@ -62,6 +63,11 @@ const navItems = [
     label: "API Keys",
     icon: Key,
   },
+  {
+    href: "/dashboard/usage",
+    label: "Usage",
+    icon: BarChart3,
+  },
   {
     href: "/holders",
     label: "Holders",
@@ -2,7 +2,16 @@
 
 import { useState, useEffect, useCallback } from "react";
 import { useAuth } from "@/lib/auth/AuthProvider";
-import { Key, Plus, Copy, Check, Trash2, AlertTriangle } from "lucide-react";
+import {
+  Key,
+  Plus,
+  Copy,
+  Check,
+  Trash2,
+  AlertTriangle,
+  Gauge,
+  Wrench,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -20,11 +29,22 @@ interface ApiKey {
   prefix: string;
   lastUsedAt: string | null;
   totalRequests: number;
+  totalCostUsd: number;
+  monthCostUsd: number;
+  monthlySpendLimitUsd: number | null;
+  allowedToolGroups: string[];
   revokedAt: string | null;
   expiresAt: string | null;
   createdAt: string;
 }
 
+interface AvailableToolGroup {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+}
+
 interface NewKeyResponse extends ApiKey {
   key: string;
 }
@@ -41,16 +61,24 @@ function timeAgo(dateStr: string): string {
   return new Date(dateStr).toLocaleDateString();
 }
 
+function formatUsd(value: number): string {
+  return value < 0.01 && value > 0 ? "<$0.01" : `$${value.toFixed(2)}`;
+}
+
 export default function ApiKeysPage() {
   const { authFetch, identityToken } = useAuth();
 
   const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [availableToolGroups, setAvailableToolGroups] = useState<
+    AvailableToolGroup[]
+  >([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState("");
 
   // Create dialog state
   const [createOpen, setCreateOpen] = useState(false);
   const [newKeyName, setNewKeyName] = useState("");
+  const [newKeyLimit, setNewKeyLimit] = useState("");
   const [isCreating, setIsCreating] = useState(false);
 
   // Newly created key reveal state
@@ -61,6 +89,16 @@ export default function ApiKeysPage() {
   const [revokeTarget, setRevokeTarget] = useState<ApiKey | null>(null);
   const [isRevoking, setIsRevoking] = useState(false);
 
+  // Spend limit dialog state
+  const [limitTarget, setLimitTarget] = useState<ApiKey | null>(null);
+  const [limitInput, setLimitInput] = useState("");
+  const [isSavingLimit, setIsSavingLimit] = useState(false);
+
+  // Agent tool group allowlist dialog state
+  const [toolsTarget, setToolsTarget] = useState<ApiKey | null>(null);
+  const [toolsSelection, setToolsSelection] = useState<string[]>([]);
+  const [isSavingTools, setIsSavingTools] = useState(false);
+
   const fetchKeys = useCallback(async () => {
     if (!identityToken) return;
     try {
@@ -68,6 +106,7 @@ export default function ApiKeysPage() {
       if (!res.ok) throw new Error("Failed to load API keys");
       const data = await res.json();
       setKeys(data.keys);
+      setAvailableToolGroups(data.availableToolGroups ?? []);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to load API keys");
     } finally {
@@ -86,7 +125,10 @@ export default function ApiKeysPage() {
     try {
       const res = await authFetch("/api/api-keys", {
         method: "POST",
-        body: JSON.stringify({ name: newKeyName.trim() }),
+        body: JSON.stringify({
+          name: newKeyName.trim(),
+          monthlySpendLimitUsd: newKeyLimit.trim() ? Number(newKeyLimit) : null,
+        }),
       });
       if (!res.ok) {
         const data = await res.json();
@@ -96,6 +138,7 @@ export default function ApiKeysPage() {
       setRevealedKey(data.key);
       setCreateOpen(false);
       setNewKeyName("");
+      setNewKeyLimit("");
       fetchKeys();
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to create key");
@@ -124,6 +167,76 @@ export default function ApiKeysPage() {
     }
   };
 
+  const openLimitDialog = (apiKey: ApiKey) => {
+    setLimitTarget(apiKey);
+    setLimitInput(
+      apiKey.monthlySpendLimitUsd !== null
+        ? String(apiKey.monthlySpendLimitUsd)
+        : "",
+    );
+  };
+
+  const handleSaveLimit = async () => {
+    if (!limitTarget) return;
+    setIsSavingLimit(true);
+    try {
+      const res = await authFetch(`/api/api-keys/${limitTarget.id}`, {
+        method: "PATCH",
+        body: JSON.stringify({
+          monthlySpendLimitUsd: limitInput.trim() ? Number(limitInput) : null,
+        }),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to update spend limit");
+      }
+      setLimitTarget(null);
+      fetchKeys();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to update spend limit",
+      );
+    } finally {
+      setIsSavingLimit(false);
+    }
+  };
+
+  const openToolsDialog = (apiKey: ApiKey) => {
+    setToolsTarget(apiKey);
+    setToolsSelection(apiKey.allowedToolGroups);
+  };
+
+  const toggleToolGroup = (groupId: string) => {
+    setToolsSelection((prev) =>
+      prev.includes(groupId)
+        ? prev.filter((id) => id !== groupId)
+        : [...prev, groupId],
+    );
+  };
+
+  const handleSaveTools = async () => {
+    if (!toolsTarget) return;
+    setIsSavingTools(true);
+    try {
+      const res = await authFetch(`/api/api-keys/${toolsTarget.id}`, {
+        method: "PATCH",
+        body: JSON.stringify({ allowedToolGroups: toolsSelection }),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to update tool access");
+      }
+      setToolsTarget(null);
+      fetchKeys();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to update tool access",
+      );
+    } finally {
+      setIsSavingTools(false);
+    }
+  };
+
   const copyToClipboard = async (text: string) => {
     try {
       await navigator.clipboard.writeText(text);
@@ -157,8 +270,19 @@ export default function ApiKeysPage() {
           SDK. Keys authenticate requests to the{" "}
           <code className="text-white/60 bg-white/5 px-1.5 py-0.5 rounded text-xs">
             /api/v1/chat/completions
+          </code>
+          ,{" "}
+          <code className="text-white/60 bg-white/5 px-1.5 py-0.5 rounded text-xs">
+            /api/v1/embeddings
           </code>{" "}
-          endpoint.
+          and{" "}
+          <code className="text-white/60 bg-white/5 px-1.5 py-0.5 rounded text-xs">
+            /api/v1/agents/&#123;id&#125;/chat
+          </code>{" "}
+          endpoints. Usage is billed to your account&apos;s prepaid credits at
+          the same rates as dashboard chat, and each key can carry its own
+          monthly spend limit. Agents only get the tool groups you allow for
+          each key.
         </p>
       </div>
 
@@ -251,8 +375,32 @@ export default function ApiKeysPage() {
                 <div className="flex items-center gap-3 sm:gap-6 shrink-0">
                   <div className="flex flex-col items-end text-xs">
                     <span className="text-white/40">
-                      {apiKey.totalRequests.toLocaleString()} req
+                      {apiKey.totalRequests.toLocaleString()} req &middot;{" "}
+                      {formatUsd(apiKey.totalCostUsd)}
+                    </span>
+                    <span
+                      className={
+                        apiKey.monthlySpendLimitUsd !== null &&
+                        apiKey.monthCostUsd >= apiKey.monthlySpendLimitUsd
+                          ? "text-red-400/80"
+                          : "text-white/30"
+                      }
+                    >
+                      {formatUsd(apiKey.monthCostUsd)}
+                      {apiKey.monthlySpendLimitUsd !== null
+                        ? ` / ${formatUsd(apiKey.monthlySpendLimitUsd)}`
+                        : ""}{" "}
+                      this month
                     </span>
+                    {apiKey.allowedToolGroups.length > 0 && (
+                      <span
+                        className="text-white/30"
+                        title={apiKey.allowedToolGroups.join(", ")}
+                      >
+                        {apiKey.allowedToolGroups.length} agent tool group
+                        {apiKey.allowedToolGroups.length === 1 ? "" : "s"}
+                      </span>
+                    )}
                     <span className="text-white/30 hidden sm:block">
                       {apiKey.lastUsedAt
                         ? `Used ${timeAgo(apiKey.lastUsedAt)}`
@@ -262,6 +410,24 @@ export default function ApiKeysPage() {
                   <div className="text-xs text-white/30 hidden sm:block">
                     {timeAgo(apiKey.createdAt)}
                   </div>
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    onClick={() => openLimitDialog(apiKey)}
+                    className="text-white/30 hover:text-[#6FEC06] hover:bg-[#6FEC06]/10 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity"
+                    aria-label={`Set spend limit for ${apiKey.name}`}
+                  >
+                    <Gauge className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    onClick={() => openToolsDialog(apiKey)}
+                    className="text-white/30 hover:text-[#6FEC06] hover:bg-[#6FEC06]/10 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity"
+                    aria-label={`Set agent tool access for ${apiKey.name}`}
+                  >
+                    <Wrench className="w-4 h-4" />
+                  </Button>
                   <Button
                     variant="ghost"
                     size="icon-sm"
@@ -334,6 +500,15 @@ export default function ApiKeysPage() {
               }
               autoFocus
             />
+            <Input
+              type="number"
+              min="0.01"
+              step="0.01"
+              value={newKeyLimit}
+              onChange={(e) => setNewKeyLimit(e.target.value)}
+              placeholder="Monthly spend limit in USD (optional)"
+              className="mt-3 bg-white/5 border-white/10 text-white placeholder:text-white/30"
+            />
           </div>
           <DialogFooter>
             <Button
@@ -446,6 +621,116 @@ export default function ApiKeysPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Spend limit dialog */}
+      <Dialog
+        open={!!limitTarget}
+        onOpenChange={(open) => !open && setLimitTarget(null)}
+      >
+        <DialogContent className="bg-[#0a0520] border-white/10 text-white">
+          <DialogHeader>
+            <DialogTitle>Monthly Spend Limit</DialogTitle>
+            <DialogDescription className="text-white/50">
+              Requests made with{" "}
+              <span className="text-white font-medium">
+                {limitTarget?.name}
+              </span>{" "}
+              are rejected once this month&apos;s spend reaches the limit. Leave
+              empty for no limit.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="py-4">
+            <Input
+              type="number"
+              min="0.01"
+              step="0.01"
+              value={limitInput}
+              onChange={(e) => setLimitInput(e.target.value)}
+              placeholder="No limit"
+              className="bg-white/5 border-white/10 text-white placeholder:text-white/30"
+              onKeyDown={(e) =>
+                e.key === "Enter" && !isSavingLimit && handleSaveLimit()
+              }
+              autoFocus
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="ghost"
+              onClick={() => setLimitTarget(null)}
+              className="text-white/60"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSaveLimit}
+              disabled={isSavingLimit}
+              className="bg-[#6FEC06] text-black hover:bg-[#6FEC06]/90 font-medium"
+            >
+              {isSavingLimit ? "Saving..." : "Save Limit"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Agent tool group allowlist dialog */}
+      <Dialog
+        open={!!toolsTarget}
+        onOpenChange={(open) => !open && setToolsTarget(null)}
+      >
+        <DialogContent className="bg-[#0a0520] border-white/10 text-white">
+          <DialogHeader>
+            <DialogTitle>Agent Tool Access</DialogTitle>
+            <DialogDescription className="text-white/50">
+              Tool groups agents may use when called with{" "}
+              <span className="text-white font-medium">
+                {toolsTarget?.name}
+              </span>
+              . Tool usage is billed to your account. Agents still get their own
+              skills.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="py-4 max-h-80 overflow-y-auto space-y-1">
+            {availableToolGroups.map((group) => (
+              <label
+                key={group.id}
+                className="flex items-start gap-3 p-2 rounded-lg hover:bg-white/5 cursor-pointer"
+              >
+                <input
+                  type="checkbox"
+                  checked={toolsSelection.includes(group.id)}
+                  onChange={() => toggleToolGroup(group.id)}
+                  className="mt-1 accent-[#6FEC06]"
+                />
+                <span className="min-w-0">
+                  <span className="block text-sm text-white">
+                    {group.icon} {group.name}
+                  </span>
+                  <span className="block text-xs text-white/40">
+                    {group.description}
+                  </span>
+                </span>
+              </label>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button
+              variant="ghost"
+              onClick={() => setToolsTarget(null)}
+              className="text-white/60"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSaveTools}
+              disabled={isSavingTools}
+              className="bg-[#6FEC06] text-black hover:bg-[#6FEC06]/90 font-medium"
+            >
+              {isSavingTools ? "Saving..." : "Save Access"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Quick start section */}
       {!isLoading && activeKeys.length > 0 && (
         <div className="mt-10 p-6 rounded-2xl bg-white/[0.02] border border-white/10">
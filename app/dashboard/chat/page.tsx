@@ -104,6 +104,7 @@ import {
   SkillConfig,
   ToolExecution,
   ToolState,
+  ChatSummaryBanner,
 } from "@/components/chat";
 import { getToolCost } from "@/lib/x402/tool-costs";
 import { useVoiceInput } from "@/lib/hooks/useVoiceInput";
@@ -1182,8 +1183,14 @@ function ChatInterface({
   >([]);
   const [historyRefreshTrigger, setHistoryRefreshTrigger] = useState(0);
 
-  // Track message save state
-  const lastSavedMessagesRef = useRef<number>(0);
+  // Set when a loaded chat has a generation still streaming
+  const [resumePending, setResumePending] = useState(false);
+
+  // Track chat ID in a ref for stable access in callbacks
+  const chatIdRef = useRef<string | undefined>(chatId);
+  useEffect(() => {
+    chatIdRef.current = chatId;
+  }, [chatId]);
 
   // Voice settings state
   const [voiceSettings, setVoiceSettings] = useState<VoiceSettings>(() =>
@@ -1382,6 +1389,7 @@ function ChatInterface({
   // Use resolvedAgentId (actual DB ID) for API calls, not the URL param
   const bodyRef = useRef({
     agentId: resolvedAgentId,
+    chatId,
     model: selectedModel,
     enabledSkills: enabledSkillIds,
     enabledToolGroups,
@@ -1393,6 +1401,7 @@ function ChatInterface({
   useEffect(() => {
     bodyRef.current = {
       agentId: resolvedAgentId,
+      chatId,
       model: selectedModel,
       enabledSkills: enabledSkillIds,
       enabledToolGroups,
@@ -1401,6 +1410,7 @@ function ChatInterface({
     };
   }, [
     resolvedAgentId,
+    chatId,
     selectedModel,
     enabledSkillIds,
     enabledToolGroups,
@@ -1415,6 +1425,11 @@ function ChatInterface({
       api: "/api/chat",
       headers: identityToken ? { "privy-id-token": identityToken } : undefined,
       body: () => bodyRef.current,
+      // Resume against the saved chat, not useChat's local ID
+      prepareReconnectToStreamRequest: ({ headers }) => ({
+        api: `/api/chat/${chatIdRef.current}/stream`,
+        headers,
+      }),
       fetch: async (input, init) => {
         const response = await globalThis.fetch(input, init);
         if (!response.ok) {
@@ -1448,6 +1463,7 @@ function ChatInterface({
     stop,
     setMessages,
     addToolApprovalResponse,
+    resumeStream,
   } = useChat({
     transport,
     sendAutomaticallyWhen: lastAssistantMessageIsCompleteWithApprovalResponses,
@@ -1467,6 +1483,11 @@ function ChatInterface({
             "No wallet is associated with your account. Please log out and log back in.",
           duration: 8000,
         });
+      } else if (code === "SPENDING_LIMIT_EXCEEDED") {
+        toast.error("Spending limit reached", {
+          description: error.message,
+          duration: 8000,
+        });
       } else if (
         status === 402 ||
         code === "INSUFFICIENT_BALANCE" ||
@@ -1530,7 +1551,6 @@ function ChatInterface({
     setChatId(undefined);
     setMessages([]);
     setInitialMessages([]);
-    lastSavedMessagesRef.current = 0;
     loadedInitialMessagesRef.current = false;
     router.push(`/dashboard/chat?agent=${agentSlug}`);
   }, [agentSlug, router, setMessages]);
@@ -1751,8 +1771,8 @@ function ChatInterface({
               }),
             );
             setInitialMessages(loadedMessages);
-            lastSavedMessagesRef.current = loadedMessages.length;
           }
+          if (data.chat?.activeStreamId) setResumePending(true);
           setChatId(initialChatId);
         } else {
           // Chat not found, clear the chatId
@@ -1770,109 +1790,74 @@ function ChatInterface({
     loadChat();
   }, [initialChatId, identityToken]);
 
-  // Track chat ID in a ref for stable access in callbacks
-  const chatIdRef = useRef<string | undefined>(chatId);
-  useEffect(() => {
-    chatIdRef.current = chatId;
-  }, [chatId]);
-
-  // Save new messages to the database
-  const saveMessages = useCallback(
-    async (messagesToSave: typeof messages) => {
-      if (!identityToken || messagesToSave.length === 0) {
-        return;
-      }
+  // Create the chat before the first message is sent so the chat route can
+  // persist messages to it server-side
+  const ensureChat = useCallback(async (): Promise<string | undefined> => {
+    if (chatIdRef.current) return chatIdRef.current;
+    if (!identityToken) return undefined;
+
+    try {
+      const createResponse = await fetch("/api/chats", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "privy-id-token": identityToken,
+        },
+        body: JSON.stringify({ agentId: resolvedAgentId }),
+      });
 
-      // Only save messages we haven't saved yet
-      const newMessages = messagesToSave.slice(lastSavedMessagesRef.current);
-      if (newMessages.length === 0) {
-        return;
+      if (!createResponse.ok) {
+        const errorText = await createResponse.text();
+        console.error(
+          "Failed to create chat:",
+          createResponse.status,
+          errorText,
+        );
+        return undefined;
       }
 
-      try {
-        let currentChatId = chatIdRef.current;
-
-        // Create a new chat if we don't have one
-        if (!currentChatId) {
-          const createResponse = await fetch("/api/chats", {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              "privy-id-token": identityToken,
-            },
-            body: JSON.stringify({ agentId: resolvedAgentId }),
-          });
-
-          if (createResponse.ok) {
-            const data = await createResponse.json();
-            currentChatId = data.chat.id;
-            setChatId(currentChatId);
-            chatIdRef.current = currentChatId; // Update ref immediately
-            // Update URL without reload — use tokenMint slug for URLs
-            const newUrl = `/dashboard/chat?agent=${agentSlug}&chatId=${currentChatId}`;
-            window.history.replaceState({}, "", newUrl);
-          } else {
-            const errorText = await createResponse.text();
-            console.error(
-              "Failed to create chat:",
-              createResponse.status,
-              errorText,
-            );
-            return;
-          }
-        }
-
-        // Save the new messages
-        const formattedMessages = newMessages.map((msg) => {
-          const textPart = msg.parts.find((p) => p.type === "text");
-          return {
-            role: msg.role,
-            content: textPart?.type === "text" ? textPart.text : "",
-            parts: msg.parts,
-          };
-        });
-
-        const saveResponse = await fetch(
-          `/api/chats/${currentChatId}/messages`,
-          {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              "privy-id-token": identityToken,
-            },
-            body: JSON.stringify({ messages: formattedMessages }),
-          },
-        );
+      const data = await createResponse.json();
+      const newChatId: string = data.chat.id;
+      setChatId(newChatId);
+      chatIdRef.current = newChatId; // Update ref immediately
+      // The transport body ref is synced in an effect — update it now so
+      // the first request already carries the chat ID
+      bodyRef.current = { ...bodyRef.current, chatId: newChatId };
+      // Update URL without reload — use tokenMint slug for URLs
+      const newUrl = `/dashboard/chat?agent=${agentSlug}&chatId=${newChatId}`;
+      window.history.replaceState({}, "", newUrl);
+      return newChatId;
+    } catch (err) {
+      console.error("Error creating chat:", err);
+      return undefined;
+    }
+  }, [resolvedAgentId, agentSlug, identityToken]);
 
-        if (saveResponse.ok) {
-          lastSavedMessagesRef.current = messagesToSave.length;
-          // Trigger sidebar refresh to show updated chat
-          setHistoryRefreshTrigger((prev) => prev + 1);
-        } else {
-          const errorText = await saveResponse.text();
-          console.error(
-            "Failed to save messages:",
-            saveResponse.status,
-            errorText,
-          );
-        }
-      } catch (err) {
-        console.error("Error saving messages:", err);
-      }
-    },
-    [resolvedAgentId, agentSlug, identityToken],
-  ); // Removed chatId from deps - using ref instead
+  // Messages are saved by the chat route — refresh the sidebar once a
+  // response completes so the updated chat shows up
+  const previousStatusRef = useRef(status);
+  useEffect(() => {
+    if (previousStatusRef.current !== "ready" && status === "ready") {
+      setHistoryRefreshTrigger((prev) => prev + 1);
+    }
+    previousStatusRef.current = status;
+  }, [status]);
 
-  // Save messages after response completes
+  // Reattach to a generation that was still streaming when the page loaded
   useEffect(() => {
-    if (
-      status === "ready" &&
-      messages.length > 0 &&
-      messages.length > lastSavedMessagesRef.current
-    ) {
-      saveMessages(messages);
+    if (resumePending && loadedInitialMessagesRef.current) {
+      setResumePending(false);
+      resumeStream();
     }
-  }, [status, messages, saveMessages]);
+  }, [resumePending, initialMessages, resumeStream]);
+
+  const submitMessage = useCallback(
+    async (message: Parameters<typeof sendMessage>[0]) => {
+      await ensureChat();
+      sendMessage(message);
+    },
+    [ensureChat, sendMessage],
+  );
 
   const displayName = agentInfo?.name || "Agent";
   const rarity =
@@ -1881,12 +1866,12 @@ function ChatInterface({
   const handleSubmit = useCallback(
     (message: PromptInputMessage) => {
       if (!message.text?.trim() && !message.files?.length) return;
-      sendMessage({
+      submitMessage({
         text: message.text || "Sent with attachments",
         files: message.files,
       });
     },
-    [sendMessage],
+    [submitMessage],
   );
 
   const copyToClipboard = useCallback((text: string) => {
@@ -2043,6 +2028,14 @@ function ChatInterface({
             <ConversationContent
               className={`px-3 sm:px-4 md:px-6 gap-4 sm:gap-6 max-w-3xl mx-auto ${messages.length === 0 ? "min-h-full flex flex-col justify-center py-4" : "py-4 sm:py-8"}`}
             >
+              {/* Rolling summary standing in for older messages */}
+              {chatId && messages.length > 0 && (
+                <ChatSummaryBanner
+                  chatId={chatId}
+                  identityToken={identityToken}
+                  refreshKey={historyRefreshTrigger}
+                />
+              )}
               {messages.length === 0 ? (
                 <ConversationEmptyState className="px-2">
                   {/* Large agent avatar */}
@@ -2078,7 +2071,7 @@ function ChatInterface({
                       <button
                         key={suggestion}
                         onClick={() => {
-                          sendMessage({ text: suggestion });
+                          submitMessage({ text: suggestion });
                         }}
                         className="px-3 py-2 rounded-xl bg-white/[0.03] border border-white/[0.08] text-xs text-white/60 hover:text-white hover:bg-white/[0.06] hover:border-[#6FEC06]/30 transition-all duration-200 hover:shadow-[0_0_20px_rgba(111,236,6,0.1)]"
                       >
@@ -2969,6 +2962,7 @@ function ChatPageContent() {
           });
         }}
         identityToken={identityToken}
+        agentId={agentId}
       />
 
       {/* Tab bar (always visible) */}
@@ -11,6 +11,7 @@ import {
   MessageSquare,
   ChevronLeft,
   Key,
+  BarChart3,
 } from "lucide-react";
 
 // Skeleton sidebar that mirrors the real sidebar structure
@@ -25,6 +26,7 @@ function SidebarSkeleton() {
     { icon: Network, width: 65 },
     { icon: MessageSquare, width: 82 },
     { icon: Key, width: 72 },
+    { icon: BarChart3, width: 60 },
   ];
 
   return (
@@ -13,6 +13,8 @@ import {
   ClipboardCheck,
   Send,
   CheckCircle,
+  ListChecks,
+  Upload,
   Terminal,
   Zap,
 } from "lucide-react";
@@ -62,7 +64,8 @@ const tools = [
     description: "Post a task bounty for bids",
     icon: Gavel,
     free: false,
-    params: "title, description, category, budgetSol, userId, requirements?",
+    params:
+      "title, description, category, budgetSol, userId, requirements?, milestones?",
   },
   {
     name: "marketplace_bid",
@@ -78,6 +81,27 @@ const tools = [
     free: false,
     params: "taskId, userId",
   },
+  {
+    name: "marketplace_list_milestones",
+    description: "List a task's milestones and their status",
+    icon: ListChecks,
+    free: true,
+    params: "taskId",
+  },
+  {
+    name: "marketplace_submit_milestone",
+    description: "Submit the work for a milestone",
+    icon: Upload,
+    free: false,
+    params: "taskId, milestoneId, deliverables, userId",
+  },
+  {
+    name: "marketplace_review_milestone",
+    description: "Approve and pay, or reject, a milestone",
+    icon: CheckCircle,
+    free: false,
+    params: "taskId, milestoneId, decision, reason?, userId",
+  },
 ];
 
 function CopyButton({ text }: { text: string }) {
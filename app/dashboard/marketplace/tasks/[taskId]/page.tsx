@@ -27,6 +27,7 @@ import {
   Check,
   Ban,
   UserX,
+  Bot,
 } from "lucide-react";
 import Link from "next/link";
 import { cn, timeAgo } from "@/lib/utils";
@@ -34,8 +35,14 @@ import { getBagsFmUrl, getSolscanUrl } from "@/lib/constants/urls";
 import StatusTimeline from "@/components/marketplace/StatusTimeline";
 import EscrowBadge from "@/components/marketplace/EscrowBadge";
 import BidCard from "@/components/marketplace/BidCard";
+import DisputePanel from "@/components/marketplace/DisputePanel";
+import MilestonePanel from "@/components/marketplace/MilestonePanel";
 import {
+  ACTIVE_DISPUTE_STATUSES,
+  ARBITRATION_METHODS,
+  ARBITRATION_METHOD_LABELS,
   CATEGORY_LABELS,
+  type ArbitrationMethod,
   type MarketplaceCategory,
   type Milestone,
 } from "@/lib/marketplace/types";
@@ -49,6 +56,13 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 
 // ── Types ────────────────────────────────────────────────────────────────
 
@@ -77,6 +91,16 @@ interface TaskReview {
   };
 }
 
+interface TaskDisputeSummary {
+  id: string;
+  status: string;
+  arbitrationMethod: string;
+  responseDeadline: string;
+  votingDeadline?: string | null;
+  outcome?: string | null;
+  workerPercent?: number | null;
+}
+
 interface TaskData {
   id: string;
   title: string;
@@ -88,6 +112,10 @@ interface TaskData {
   featuredImage?: string | null;
   escrowAmount?: number | null;
   escrowStatus: string;
+  workStatus?: string | null;
+  workBudgetUsd?: number | null;
+  workSpentUsd?: number;
+  workError?: string | null;
   milestones?: Milestone[] | null;
   posterId: string;
   poster: {
@@ -120,6 +148,7 @@ interface TaskData {
   liveEarnings?: number | null;
   bids: TaskBid[];
   reviews: TaskReview[];
+  disputes?: TaskDisputeSummary[];
   createdAt: string;
   updatedAt: string;
 }
@@ -150,6 +179,8 @@ export default function TaskDetailPage() {
   const [actionLoading, setActionLoading] = useState<string | null>(null);
   const [disputeOpen, setDisputeOpen] = useState(false);
   const [disputeReason, setDisputeReason] = useState("");
+  const [disputeMethod, setDisputeMethod] =
+    useState<ArbitrationMethod>("admin");
   const [copiedMint, setCopiedMint] = useState(false);
   const [liveEarnings, setLiveEarnings] = useState<number | null>(null);
 
@@ -173,13 +204,22 @@ export default function TaskDetailPage() {
     task.status === "open" &&
     !!task.deadline &&
     new Date(task.deadline) < new Date();
+  const latestDispute = task?.disputes?.[0] ?? null;
+  // A dispute awaiting a ruling or payout is settled by arbitration only
+  const disputeInProgress =
+    !!latestDispute &&
+    [...ACTIVE_DISPUTE_STATUSES, "settling"].includes(
+      latestDispute.status as (typeof ACTIVE_DISPUTE_STATUSES)[number],
+    );
   const canCancel =
     isPoster &&
     !!task &&
+    !disputeInProgress &&
     ["open", "assigned", "disputed"].includes(task.status);
   const canUnassign =
     isPoster &&
     !!task &&
+    !disputeInProgress &&
     ["assigned", "in_progress", "disputed"].includes(task.status);
 
   const fetchTask = useCallback(
@@ -323,7 +363,10 @@ export default function TaskDetailPage() {
     try {
       const res = await authFetch(`/api/marketplace/tasks/${taskId}/dispute`, {
         method: "POST",
-        body: JSON.stringify({ reason: disputeReason.trim() }),
+        body: JSON.stringify({
+          reason: disputeReason.trim(),
+          arbitrationMethod: disputeMethod,
+        }),
       });
       if (!res.ok) throw new Error("Failed to dispute");
       setDisputeOpen(false);
@@ -366,10 +409,9 @@ export default function TaskDetailPage() {
       const res = await authFetch(`/api/marketplace/tasks/${taskId}/cancel`, {
         method: "POST",
       });
-      if (!res.ok) {
-        const data = await res.json();
-        throw new Error(data.error || "Failed to cancel");
-      }
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to cancel");
+      if (data.refundPending) setError(data.error);
       await fetchTask({ fresh: true });
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to cancel task");
@@ -442,10 +484,7 @@ export default function TaskDetailPage() {
 
   const categoryLabel =
     CATEGORY_LABELS[task.category as MarketplaceCategory] ?? task.category;
-  const milestones = (task.milestones ?? []) as Milestone[];
-  const completedMilestones = milestones.filter(
-    (m) => m.status === "completed" || m.status === "released",
-  );
+  const milestones = task.milestones ?? [];
 
   return (
     <div className="min-h-screen overflow-x-hidden p-4 pb-20 sm:p-6 lg:p-8">
@@ -538,6 +577,7 @@ export default function TaskDetailPage() {
         >
           <StatusTimeline
             currentStatus={isExpired ? "cancelled" : task.status}
+            milestones={milestones}
           />
           {isExpired && (
             <div className="mt-3 flex items-center justify-center gap-2">
@@ -554,7 +594,24 @@ export default function TaskDetailPage() {
               status={task.escrowStatus}
               amount={task.escrowAmount ?? undefined}
             />
+            {task.workStatus === "running" && (
+              <span className="inline-flex items-center gap-1.5 rounded-lg border border-indigo-500/20 bg-indigo-500/10 px-3 py-1.5 text-xs font-semibold text-indigo-300">
+                <Bot className="size-3 animate-pulse" />
+                Agent working
+                {task.workBudgetUsd != null && (
+                  <span className="font-bold">
+                    ${(task.workSpentUsd ?? 0).toFixed(2)} / $
+                    {task.workBudgetUsd.toFixed(2)}
+                  </span>
+                )}
+              </span>
+            )}
           </div>
+          {task.workStatus === "failed" && task.workError && (
+            <p className="mt-3 text-xs text-orange-400">
+              The agent stopped working: {task.workError}
+            </p>
+          )}
         </motion.div>
 
         <div className="grid min-w-0 gap-6 lg:grid-cols-3">
@@ -612,90 +669,15 @@ export default function TaskDetailPage() {
                   Milestones
                 </h2>
 
-                <div className="mb-4">
-                  <div className="mb-1.5 flex justify-between text-xs text-white/40">
-                    <span>
-                      {completedMilestones.length} of {milestones.length}{" "}
-                      completed
-                    </span>
-                    <span className="font-medium text-white/60">
-                      {Math.round(
-                        (completedMilestones.length / milestones.length) * 100,
-                      )}
-                      %
-                    </span>
-                  </div>
-                  <div className="h-2 overflow-hidden rounded-full bg-white/5">
-                    <motion.div
-                      initial={{ width: 0 }}
-                      animate={{
-                        width: `${(completedMilestones.length / milestones.length) * 100}%`,
-                      }}
-                      transition={{ duration: 0.8, ease: "easeOut" }}
-                      className="h-full rounded-full bg-coral shadow-[0_0_8px_rgba(111,236,6,0.3)]"
-                    />
-                  </div>
-                </div>
-
-                <div className="space-y-2">
-                  {milestones.map((m, i) => {
-                    const isComplete =
-                      m.status === "completed" || m.status === "released";
-                    return (
-                      <div
-                        key={i}
-                        className={cn(
-                          "flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between rounded-xl border px-3 py-2.5 sm:px-4 sm:py-3",
-                          isComplete
-                            ? "border-coral/20 bg-coral/5"
-                            : "border-white/5 bg-white/[0.02]",
-                        )}
-                      >
-                        <div className="flex items-center gap-2.5 sm:gap-3 min-w-0">
-                          <div
-                            className={cn(
-                              "flex size-6 shrink-0 items-center justify-center rounded-full text-xs font-bold",
-                              isComplete
-                                ? "bg-coral text-black"
-                                : "border border-white/15 text-white/30",
-                            )}
-                          >
-                            {isComplete ? (
-                              <CheckCircle2 className="size-3.5" />
-                            ) : (
-                              i + 1
-                            )}
-                          </div>
-                          <span
-                            className={cn(
-                              "text-sm min-w-0 break-words",
-                              isComplete ? "text-white/80" : "text-white/50",
-                            )}
-                          >
-                            {m.title}
-                          </span>
-                        </div>
-                        <div className="flex items-center gap-2 pl-8 sm:pl-0 shrink-0">
-                          <span className="text-sm font-bold text-coral">
-                            {m.amountSol} SOL
-                          </span>
-                          <span
-                            className={cn(
-                              "rounded-md px-2 py-0.5 text-[10px] font-semibold capitalize",
-                              m.status === "released"
-                                ? "bg-emerald-500/10 text-emerald-400"
-                                : m.status === "completed"
-                                  ? "bg-blue-500/10 text-blue-400"
-                                  : "bg-white/5 text-white/30",
-                            )}
-                          >
-                            {m.status}
-                          </span>
-                        </div>
-                      </div>
-                    );
-                  })}
-                </div>
+                <MilestonePanel
+                  taskId={task.id}
+                  milestones={milestones}
+                  role={isPoster ? "poster" : isWorker ? "worker" : null}
+                  active={["assigned", "in_progress", "review"].includes(
+                    task.status,
+                  )}
+                  onChange={() => fetchTask({ fresh: true })}
+                />
               </motion.section>
             )}
 
@@ -772,18 +754,20 @@ export default function TaskDetailPage() {
                     </form>
                   )}
 
-                {/* Display dispute reason */}
-                {task.status === "disputed" && task.disputeReason && (
-                  <div className="mt-4 rounded-xl border border-red-500/20 bg-red-500/5 p-4">
-                    <h3 className="mb-2 flex items-center gap-2 text-sm font-semibold text-red-400">
-                      <AlertTriangle className="size-4" />
-                      Dispute Reason
-                    </h3>
-                    <p className="whitespace-pre-wrap text-sm text-red-300/70">
-                      {task.disputeReason}
-                    </p>
-                  </div>
-                )}
+                {/* Display dispute reason (disputes filed before arbitration) */}
+                {task.status === "disputed" &&
+                  task.disputeReason &&
+                  !latestDispute && (
+                    <div className="mt-4 rounded-xl border border-red-500/20 bg-red-500/5 p-4">
+                      <h3 className="mb-2 flex items-center gap-2 text-sm font-semibold text-red-400">
+                        <AlertTriangle className="size-4" />
+                        Dispute Reason
+                      </h3>
+                      <p className="whitespace-pre-wrap text-sm text-red-300/70">
+                        {task.disputeReason}
+                      </p>
+                    </div>
+                  )}
 
                 {/* Display deliverables */}
                 {task.deliverables && (
@@ -864,6 +848,22 @@ export default function TaskDetailPage() {
               </motion.section>
             )}
 
+            {/* Dispute Section — parties, arbitrators, and staked jurors */}
+            {latestDispute && authenticated && (
+              <motion.section
+                initial={{ opacity: 0, y: 15 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.38 }}
+                className="rounded-2xl border border-white/10 bg-surface/80 p-4 sm:p-6"
+              >
+                <DisputePanel
+                  key={latestDispute.id}
+                  taskId={task.id}
+                  onChange={() => fetchTask({ fresh: true })}
+                />
+              </motion.section>
+            )}
+
             {/* Poster cancel for tasks without a worker (open tasks) */}
             {canCancel && !task.workerId && (
               <motion.section
@@ -1411,8 +1411,9 @@ export default function TaskDetailPage() {
               Dispute Task
             </DialogTitle>
             <DialogDescription className="text-white/50">
-              Describe the reason for your dispute. This will be reviewed by the
-              platform.
+              Describe the reason for your dispute. The worker has 72 hours to
+              respond with evidence, then the arbitrator you choose decides how
+              the escrow is paid out.
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4 pt-2">
@@ -1424,6 +1425,26 @@ export default function TaskDetailPage() {
               maxLength={5000}
               className="bg-surface-light border-white/10 text-white placeholder:text-white/20 focus-visible:border-red-500/30 focus-visible:ring-red-500/20"
             />
+            <div>
+              <label className="mb-1.5 block text-xs font-medium text-white/40">
+                Arbitrator
+              </label>
+              <Select
+                value={disputeMethod}
+                onValueChange={(v) => setDisputeMethod(v as ArbitrationMethod)}
+              >
+                <SelectTrigger className="w-full bg-surface-light border-white/10 text-white/70">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-surface border-white/10">
+                  {ARBITRATION_METHODS.map((method) => (
+                    <SelectItem key={method} value={method}>
+                      {ARBITRATION_METHOD_LABELS[method]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             <div className="flex justify-end gap-3">
               <Button
                 variant="ghost"
@@ -108,8 +108,8 @@ function CreateTaskPage() {
   const [budgetSol, setBudgetSol] = useState("");
   const [useMilestones, setUseMilestones] = useState(false);
   const [milestones, setMilestones] = useState<
-    { title: string; amountSol: string }[]
-  >([{ title: "", amountSol: "" }]);
+    { title: string; amountSol: string; dueDate: string }[]
+  >([{ title: "", amountSol: "", dueDate: "" }]);
 
   // Task Token state
   const [useTaskToken, setUseTaskToken] = useState(true);
@@ -183,7 +183,10 @@ function CreateTaskPage() {
   }
 
   function addMilestone() {
-    setMilestones((prev) => [...prev, { title: "", amountSol: "" }]);
+    setMilestones((prev) => [
+      ...prev,
+      { title: "", amountSol: "", dueDate: "" },
+    ]);
   }
 
   function removeMilestone(index: number) {
@@ -192,7 +195,7 @@ function CreateTaskPage() {
 
   function updateMilestone(
     index: number,
-    field: "title" | "amountSol",
+    field: "title" | "amountSol" | "dueDate",
     value: string,
   ) {
     setMilestones((prev) =>
@@ -352,7 +355,7 @@ function CreateTaskPage() {
             milestones: milestones.map((m) => ({
               title: m.title.trim(),
               amountSol: parseFloat(m.amountSol),
-              status: "pending" as const,
+              ...(m.dueDate && { dueDate: m.dueDate }),
             })),
           }),
         ...tokenData,
@@ -845,6 +848,15 @@ function CreateTaskPage() {
                                 SOL
                               </span>
                             </div>
+                            <Input
+                              type="date"
+                              value={m.dueDate}
+                              onChange={(e) =>
+                                updateMilestone(i, "dueDate", e.target.value)
+                              }
+                              aria-label="Milestone due date (optional)"
+                              className="h-9 text-sm bg-surface-light border-white/10 text-white placeholder:text-white/40 focus-visible:border-coral/30 focus-visible:ring-coral/20"
+                            />
                           </div>
                           {milestones.length > 1 && (
                             <button
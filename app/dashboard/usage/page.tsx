@@ -0,0 +1,532 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useAuth } from "@/lib/auth/AuthProvider";
+import {
+  BarChart3,
+  Download,
+  AlertTriangle,
+  Wallet,
+  Gauge,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+type GroupBy = "day" | "agent" | "tool" | "task" | "model" | "apiKey";
+
+interface UsageGroup {
+  key: string | null;
+  label?: string;
+  count: number;
+  usdCost: number;
+  lamports: string;
+  inputTokens: number;
+  outputTokens: number;
+  contextUsdSaved: number;
+}
+
+interface UsageResponse {
+  groupBy: GroupBy;
+  from: string;
+  to: string;
+  totals: Omit<UsageGroup, "key" | "label">;
+  groups: UsageGroup[];
+}
+
+const GROUP_TABS: { value: GroupBy; label: string }[] = [
+  { value: "day", label: "Day" },
+  { value: "agent", label: "Agent" },
+  { value: "tool", label: "Tool" },
+  { value: "task", label: "Task" },
+  { value: "model", label: "Model" },
+  { value: "apiKey", label: "API Key" },
+];
+
+const RANGES = [
+  { days: 7, label: "7d" },
+  { days: 30, label: "30d" },
+  { days: 90, label: "90d" },
+];
+
+// Label for rows with no attribution in the current grouping
+const UNATTRIBUTED: Record<GroupBy, string> = {
+  day: "—",
+  agent: "No agent",
+  tool: "Inference",
+  task: "Interactive chat",
+  model: "Tool calls",
+  apiKey: "Dashboard & tasks",
+};
+
+function formatUsd(value: number): string {
+  if (value > 0 && value < 0.01) return `$${value.toFixed(4)}`;
+  return `$${value.toFixed(2)}`;
+}
+
+interface SpendingLimit {
+  id: string;
+  scope: "user" | "agent" | "task";
+  scopeId: string;
+  scopeName: string | null;
+  period: "daily" | "monthly" | "per_chat" | "per_iteration";
+  limitUsd: number;
+  enabled: boolean;
+  spentUsd: number | null;
+  resetsAt: string | null;
+}
+
+const PERIOD_LABELS: Record<SpendingLimit["period"], string> = {
+  daily: "Daily",
+  monthly: "Monthly",
+  per_chat: "Per chat",
+  per_iteration: "Per task iteration",
+};
+
+function formatSol(lamports: string): string {
+  return (Number(lamports) / 1e9).toFixed(6);
+}
+
+export default function UsagePage() {
+  const { authFetch, identityToken } = useAuth();
+
+  const [groupBy, setGroupBy] = useState<GroupBy>("day");
+  const [rangeDays, setRangeDays] = useState(30);
+  const [usage, setUsage] = useState<UsageResponse | null>(null);
+  const [creditBalance, setCreditBalance] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState("");
+
+  const rangeQuery = useCallback(() => {
+    const from = new Date(Date.now() - rangeDays * 24 * 60 * 60 * 1000);
+    return `from=${encodeURIComponent(from.toISOString())}`;
+  }, [rangeDays]);
+
+  const fetchUsage = useCallback(async () => {
+    if (!identityToken) return;
+    setIsLoading(true);
+    try {
+      const res = await authFetch(
+        `/api/usage?groupBy=${groupBy}&${rangeQuery()}`,
+      );
+      if (!res.ok) throw new Error("Failed to load usage");
+      setUsage(await res.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load usage");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [authFetch, identityToken, groupBy, rangeQuery]);
+
+  useEffect(() => {
+    fetchUsage();
+  }, [fetchUsage]);
+
+  useEffect(() => {
+    if (!identityToken) return;
+    authFetch("/api/credits?limit=1")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => data && setCreditBalance(data.balance.sol))
+      .catch(() => {});
+  }, [authFetch, identityToken]);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError("");
+    try {
+      const res = await authFetch(`/api/usage/export?${rangeQuery()}`);
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to export usage");
+      }
+      const blob = await res.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download =
+        res.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1] ??
+        "usage.csv";
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to export usage");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const maxCost = Math.max(0, ...(usage?.groups.map((g) => g.usdCost) ?? []));
+
+  return (
+    <div className="min-h-screen p-6 lg:p-8 max-w-5xl mx-auto">
+      {/* Header */}
+      <div className="mb-8">
+        <div className="flex items-center gap-2 mb-2">
+          <div className="px-3 py-1 rounded-full bg-[#6FEC06]/10 text-[#6FEC06] text-xs font-medium border border-[#6FEC06]/20">
+            Usage
+          </div>
+        </div>
+        <h1 className="text-3xl font-bold mb-2 bg-gradient-to-r from-white to-white/60 bg-clip-text text-transparent">
+          Usage &amp; Costs
+        </h1>
+        <p className="text-white/50 text-sm max-w-2xl">
+          Every inference and billed tool call, broken down by day, agent, tool,
+          task, model or API key.
+        </p>
+      </div>
+
+      {/* Error banner */}
+      {error && (
+        <div className="mb-6 p-4 rounded-xl bg-red-500/10 border border-red-500/20 text-red-400 text-sm flex items-center gap-2">
+          <AlertTriangle className="w-4 h-4 shrink-0" />
+          {error}
+          <button
+            onClick={() => setError("")}
+            className="ml-auto text-red-400/60 hover:text-red-400"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {/* Totals */}
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-6">
+        <div className="rounded-xl bg-white/[0.03] border border-white/10 p-4">
+          <p className="text-xs text-white/40 mb-1">Total cost</p>
+          <p className="text-xl font-semibold text-white">
+            {usage ? formatUsd(usage.totals.usdCost) : "—"}
+          </p>
+          {usage && usage.totals.contextUsdSaved > 0 && (
+            <p className="text-xs text-[#6FEC06]/70 mt-1">
+              {formatUsd(usage.totals.contextUsdSaved)} saved by chat summaries
+            </p>
+          )}
+        </div>
+        <div className="rounded-xl bg-white/[0.03] border border-white/10 p-4">
+          <p className="text-xs text-white/40 mb-1">Charges</p>
+          <p className="text-xl font-semibold text-white">
+            {usage ? usage.totals.count.toLocaleString() : "—"}
+          </p>
+        </div>
+        <div className="rounded-xl bg-white/[0.03] border border-white/10 p-4">
+          <p className="text-xs text-white/40 mb-1">Tokens</p>
+          <p className="text-xl font-semibold text-white">
+            {usage
+              ? (
+                  usage.totals.inputTokens + usage.totals.outputTokens
+                ).toLocaleString()
+              : "—"}
+          </p>
+        </div>
+        <div className="rounded-xl bg-white/[0.03] border border-white/10 p-4">
+          <p className="text-xs text-white/40 mb-1 flex items-center gap-1">
+            <Wallet className="w-3 h-3" />
+            Credit balance
+          </p>
+          <p className="text-xl font-semibold text-[#6FEC06]">
+            {creditBalance !== null ? `${creditBalance} SOL` : "—"}
+          </p>
+        </div>
+      </div>
+
+      {/* Controls */}
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <div className="flex rounded-lg bg-white/5 border border-white/10 p-0.5">
+          {GROUP_TABS.map((tab) => (
+            <button
+              key={tab.value}
+              onClick={() => setGroupBy(tab.value)}
+              className={`px-3 py-1.5 text-xs rounded-md transition-colors ${
+                groupBy === tab.value
+                  ? "bg-[#6FEC06]/20 text-[#6FEC06]"
+                  : "text-white/50 hover:text-white/80"
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex rounded-lg bg-white/5 border border-white/10 p-0.5">
+          {RANGES.map((range) => (
+            <button
+              key={range.days}
+              onClick={() => setRangeDays(range.days)}
+              className={`px-3 py-1.5 text-xs rounded-md transition-colors ${
+                rangeDays === range.days
+                  ? "bg-white/15 text-white"
+                  : "text-white/50 hover:text-white/80"
+              }`}
+            >
+              {range.label}
+            </button>
+          ))}
+        </div>
+        <Button
+          variant="ghost"
+          onClick={handleExport}
+          disabled={isExporting}
+          className="ml-auto text-white/60 hover:text-white"
+        >
+          <Download className="w-4 h-4" />
+          {isExporting ? "Exporting..." : "Export CSV"}
+        </Button>
+      </div>
+
+      {/* Loading state */}
+      {isLoading && (
+        <div className="space-y-2">
+          {[1, 2, 3, 4].map((i) => (
+            <div
+              key={i}
+              className="h-12 rounded-xl bg-white/5 border border-white/10 animate-pulse"
+            />
+          ))}
+        </div>
+      )}
+
+      {/* Empty state */}
+      {!isLoading && usage && usage.groups.length === 0 && (
+        <div className="text-center py-20 rounded-2xl bg-white/[0.02] border border-white/10">
+          <BarChart3 className="w-12 h-12 text-white/20 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-white/60 mb-2">
+            No usage in this period
+          </h3>
+          <p className="text-white/40 text-sm max-w-md mx-auto">
+            Charges from chats, tasks and billed tools will appear here.
+          </p>
+        </div>
+      )}
+
+      {/* Breakdown */}
+      {!isLoading && usage && usage.groups.length > 0 && (
+        <div className="rounded-xl border border-white/10 overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-white/[0.03] text-white/40 text-xs">
+              <tr>
+                <th className="text-left font-medium px-4 py-2.5">
+                  {GROUP_TABS.find((t) => t.value === groupBy)?.label}
+                </th>
+                <th className="text-right font-medium px-4 py-2.5 hidden sm:table-cell">
+                  Charges
+                </th>
+                <th className="text-right font-medium px-4 py-2.5 hidden md:table-cell">
+                  Tokens
+                </th>
+                <th className="text-right font-medium px-4 py-2.5">Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {usage.groups.map((group) => (
+                <tr
+                  key={group.key ?? "__none"}
+                  className="border-t border-white/5 hover:bg-white/[0.02]"
+                >
+                  <td className="px-4 py-2.5">
+                    <div className="text-white/80 truncate max-w-xs">
+                      {group.label ?? group.key ?? UNATTRIBUTED[groupBy]}
+                    </div>
+                    <div className="mt-1 h-1 rounded-full bg-white/5 overflow-hidden">
+                      <div
+                        className="h-full bg-[#6FEC06]/60"
+                        style={{
+                          width: `${maxCost > 0 ? (group.usdCost / maxCost) * 100 : 0}%`,
+                        }}
+                      />
+                    </div>
+                  </td>
+                  <td className="px-4 py-2.5 text-right text-white/50 hidden sm:table-cell">
+                    {group.count.toLocaleString()}
+                  </td>
+                  <td className="px-4 py-2.5 text-right text-white/50 hidden md:table-cell">
+                    {(group.inputTokens + group.outputTokens).toLocaleString()}
+                  </td>
+                  <td className="px-4 py-2.5 text-right">
+                    <div className="text-white">{formatUsd(group.usdCost)}</div>
+                    <div className="text-xs text-white/30">
+                      {formatSol(group.lamports)} SOL
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <SpendingLimits />
+    </div>
+  );
+}
+
+/**
+ * Spending caps. Account-wide limits can be added here; agent and task
+ * limits (set via the API) are listed alongside them.
+ */
+function SpendingLimits() {
+  const { authFetch, identityToken } = useAuth();
+
+  const [limits, setLimits] = useState<SpendingLimit[]>([]);
+  const [period, setPeriod] = useState<SpendingLimit["period"]>("daily");
+  const [amount, setAmount] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const fetchLimits = useCallback(async () => {
+    if (!identityToken) return;
+    try {
+      const res = await authFetch("/api/spending-limits");
+      if (!res.ok) throw new Error("Failed to load spending limits");
+      const data = await res.json();
+      setLimits(data.limits);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to load spending limits",
+      );
+    }
+  }, [authFetch, identityToken]);
+
+  useEffect(() => {
+    fetchLimits();
+  }, [fetchLimits]);
+
+  const handleAdd = async () => {
+    const limitUsd = parseFloat(amount);
+    if (!Number.isFinite(limitUsd) || limitUsd <= 0) return;
+    setIsSaving(true);
+    setError("");
+    try {
+      const res = await authFetch("/api/spending-limits", {
+        method: "POST",
+        body: JSON.stringify({ scope: "user", period, limitUsd }),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to save limit");
+      }
+      setAmount("");
+      fetchLimits();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save limit");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (limit: SpendingLimit) => {
+    try {
+      const res = await authFetch(`/api/spending-limits/${limit.id}`, {
+        method: "PATCH",
+        body: JSON.stringify({ enabled: !limit.enabled }),
+      });
+      if (!res.ok) throw new Error("Failed to update limit");
+      fetchLimits();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update limit");
+    }
+  };
+
+  const handleDelete = async (limit: SpendingLimit) => {
+    try {
+      const res = await authFetch(`/api/spending-limits/${limit.id}`, {
+        method: "DELETE",
+      });
+      if (!res.ok) throw new Error("Failed to delete limit");
+      fetchLimits();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete limit");
+    }
+  };
+
+  return (
+    <div className="mt-10 p-6 rounded-2xl bg-white/[0.02] border border-white/10">
+      <div className="flex items-center gap-2 mb-1">
+        <Gauge className="w-4 h-4 text-[#6FEC06]" />
+        <h2 className="text-sm font-medium text-white/80">Spending limits</h2>
+      </div>
+      <p className="text-xs text-white/40 mb-4">
+        Chats and tools are refused once a limit is reached; recurring tasks
+        pause automatically until you resume them.
+      </p>
+
+      {error && <p className="text-xs text-red-400 mb-3">{error}</p>}
+
+      {limits.length > 0 && (
+        <div className="space-y-2 mb-4">
+          {limits.map((limit) => (
+            <div
+              key={limit.id}
+              className={`flex items-center justify-between gap-4 rounded-lg border border-white/10 px-3 py-2 text-sm ${
+                limit.enabled ? "" : "opacity-50"
+              }`}
+            >
+              <div className="min-w-0">
+                <div className="text-white/80">
+                  {PERIOD_LABELS[limit.period]} · {formatUsd(limit.limitUsd)}
+                </div>
+                <div className="text-xs text-white/40 truncate">
+                  {limit.scope === "user"
+                    ? "All usage"
+                    : `${limit.scope === "agent" ? "Agent" : "Task"}: ${limit.scopeName ?? limit.scopeId}`}
+                  {limit.spentUsd !== null &&
+                    ` — ${formatUsd(limit.spentUsd)} spent`}
+                </div>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleToggle(limit)}
+                  className="text-xs text-white/50"
+                >
+                  {limit.enabled ? "Disable" : "Enable"}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={() => handleDelete(limit)}
+                  className="text-white/30 hover:text-red-400 hover:bg-red-500/10"
+                  aria-label="Delete limit"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={period}
+          onChange={(e) => setPeriod(e.target.value as SpendingLimit["period"])}
+          className="h-9 rounded-md bg-white/5 border border-white/10 px-2 text-sm text-white"
+        >
+          {Object.entries(PERIOD_LABELS).map(([value, label]) => (
+            <option key={value} value={value} className="bg-[#0a0520]">
+              {label}
+            </option>
+          ))}
+        </select>
+        <Input
+          type="number"
+          min="0.01"
+          step="0.01"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          placeholder="USD"
+          className="w-28 bg-white/5 border-white/10 text-white placeholder:text-white/30"
+        />
+        <Button
+          onClick={handleAdd}
+          disabled={!amount || isSaving}
+          className="bg-[#6FEC06] text-black hover:bg-[#6FEC06]/90 font-medium"
+        >
+          <Plus className="w-4 h-4" />
+          {isSaving ? "Saving..." : "Set limit"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { ScrollText, ChevronDown, Pencil, Trash2, Loader2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+interface ChatSummary {
+  summary: string | null;
+  summaryTokenCount: number | null;
+  summaryUpdatedAt: string | null;
+}
+
+interface ChatSummaryBannerProps {
+  chatId: string;
+  identityToken?: string | null;
+  /** Bump to refetch (e.g. after each response, which may extend the summary) */
+  refreshKey?: number;
+}
+
+// ── Component ────────────────────────────────────────────────────────────────
+
+/**
+ * Shows the rolling summary that stands in for a long chat's older messages,
+ * and lets the user correct or clear it.
+ */
+export function ChatSummaryBanner({
+  chatId,
+  identityToken,
+  refreshKey = 0,
+}: ChatSummaryBannerProps) {
+  const [data, setData] = useState<ChatSummary | null>(null);
+  const [expanded, setExpanded] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const fetchSummary = useCallback(async () => {
+    if (!identityToken) return;
+    try {
+      const res = await fetch(`/api/chats/${chatId}/summary`, {
+        headers: { "privy-id-token": identityToken },
+      });
+      if (res.ok) setData(await res.json());
+    } catch {
+      // Non-fatal — the banner just stays hidden
+    }
+  }, [chatId, identityToken]);
+
+  useEffect(() => {
+    fetchSummary();
+  }, [fetchSummary, refreshKey]);
+
+  const saveSummary = useCallback(
+    async (summary: string | null) => {
+      if (!identityToken) return;
+      setSaving(true);
+      try {
+        const res = await fetch(`/api/chats/${chatId}/summary`, {
+          method: "PUT",
+          headers: {
+            "Content-Type": "application/json",
+            "privy-id-token": identityToken,
+          },
+          body: JSON.stringify({ summary }),
+        });
+        const body = await res.json();
+        if (!res.ok) throw new Error(body.error || "Failed to save summary");
+        setData(body);
+        setEditing(false);
+        toast.success(summary === null ? "Summary cleared" : "Summary saved");
+      } catch (err) {
+        toast.error(
+          err instanceof Error ? err.message : "Failed to save summary",
+        );
+      } finally {
+        setSaving(false);
+      }
+    },
+    [chatId, identityToken],
+  );
+
+  if (!data?.summary) return null;
+
+  return (
+    <div className="rounded-xl border border-white/[0.08] bg-white/[0.03] text-sm">
+      <button
+        onClick={() => setExpanded((v) => !v)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-left text-white/50 hover:text-white/70 transition-colors"
+      >
+        <ScrollText className="w-4 h-4 shrink-0 text-[#6FEC06]/70" />
+        <span className="flex-1 truncate">
+          Earlier messages are summarized to save context
+          {data.summaryTokenCount
+            ? ` · ~${data.summaryTokenCount.toLocaleString()} tokens`
+            : ""}
+          {data.summaryUpdatedAt
+            ? ` · updated ${formatDistanceToNow(new Date(data.summaryUpdatedAt), { addSuffix: true })}`
+            : ""}
+        </span>
+        <ChevronDown
+          className={`w-4 h-4 shrink-0 transition-transform ${expanded ? "rotate-180" : ""}`}
+        />
+      </button>
+
+      {expanded && (
+        <div className="px-3 pb-3 space-y-2">
+          {editing ? (
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              rows={8}
+              className="w-full rounded-lg bg-black/30 border border-white/10 p-2 text-white/80 text-xs leading-relaxed focus:outline-none focus:border-[#6FEC06]/40"
+              autoFocus
+            />
+          ) : (
+            <p className="whitespace-pre-wrap text-white/60 text-xs leading-relaxed">
+              {data.summary}
+            </p>
+          )}
+
+          <div className="flex items-center justify-end gap-2">
+            {editing ? (
+              <>
+                <button
+                  onClick={() => setEditing(false)}
+                  disabled={saving}
+                  className="px-2.5 py-1 rounded-md text-xs text-white/50 hover:text-white/80"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => saveSummary(draft)}
+                  disabled={saving || !draft.trim()}
+                  className="px-2.5 py-1 rounded-md text-xs bg-[#6FEC06] text-black font-medium hover:bg-[#6FEC06]/90 disabled:opacity-50 flex items-center gap-1"
+                >
+                  {saving && <Loader2 className="w-3 h-3 animate-spin" />}
+                  Save
+                </button>
+              </>
+            ) : (
+              <>
+                <button
+                  onClick={() => saveSummary(null)}
+                  disabled={saving}
+                  className="px-2.5 py-1 rounded-md text-xs text-white/40 hover:text-red-400 flex items-center gap-1"
+                  title="Send the full history again"
+                >
+                  <Trash2 className="w-3 h-3" />
+                  Clear
+                </button>
+                <button
+                  onClick={() => {
+                    setDraft(data.summary ?? "");
+                    setEditing(true);
+                  }}
+                  className="px-2.5 py-1 rounded-md text-xs text-white/60 hover:text-white border border-white/10 hover:border-white/20 flex items-center gap-1"
+                >
+                  <Pencil className="w-3 h-3" />
+                  Edit
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+"use client";
+
+import { useState } from "react";
+import {
+  ShieldCheck,
+  ShieldAlert,
+  ChevronDown,
+  Check,
+  X,
+  Plus,
+  Loader2,
+} from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { SENSITIVE_TASK_TOOLS } from "@/lib/tasks/constants";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface PendingApproval {
+  approvalId: string;
+  toolName: string;
+  input?: unknown;
+  iteration: number;
+  expiresAt: string;
+  createdAt: string;
+}
+
+interface TaskApprovalsPanelProps {
+  taskId: string;
+  identityToken?: string | null;
+  /** Tool calls waiting for a decision (from the polled task) */
+  pending: PendingApproval[];
+  approvalRequiredTools: string[];
+  /** Called after a decision or policy change so the parent refetches */
+  onChange?: () => void;
+}
+
+// ── Component ────────────────────────────────────────────────────────────────
+
+/**
+ * Lets the owner approve or reject a task's sensitive tool calls, and choose
+ * which tools need approval.
+ */
+export function TaskApprovalsPanel({
+  taskId,
+  identityToken,
+  pending,
+  approvalRequiredTools,
+  onChange,
+}: TaskApprovalsPanelProps) {
+  const [deciding, setDeciding] = useState<string | null>(null);
+  const [policyOpen, setPolicyOpen] = useState(false);
+  const [policy, setPolicy] = useState<string[]>(approvalRequiredTools);
+  const [customTool, setCustomTool] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const headers: Record<string, string> = identityToken
+    ? { "privy-id-token": identityToken }
+    : {};
+
+  const decide = async (approvalId: string, approved: boolean) => {
+    setDeciding(approvalId);
+    setError(null);
+    try {
+      const res = await fetch(`/api/tasks/${taskId}/approvals/${approvalId}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...headers },
+        body: JSON.stringify({ approved }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to record decision");
+      onChange?.();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to record decision",
+      );
+    } finally {
+      setDeciding(null);
+    }
+  };
+
+  const savePolicy = async (next: string[]) => {
+    const previous = policy;
+    setPolicy(next);
+    setError(null);
+    try {
+      const res = await fetch(`/api/tasks/${taskId}/approvals`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json", ...headers },
+        body: JSON.stringify({ approvalRequiredTools: next }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to save policy");
+      onChange?.();
+    } catch (err) {
+      setPolicy(previous);
+      setError(err instanceof Error ? err.message : "Failed to save policy");
+    }
+  };
+
+  const toggleTool = (name: string) =>
+    savePolicy(
+      policy.includes(name)
+        ? policy.filter((t) => t !== name)
+        : [...policy, name],
+    );
+
+  const addCustomTool = () => {
+    const name = customTool.trim();
+    if (!name || policy.includes(name)) return;
+    setCustomTool("");
+    savePolicy([...policy, name]);
+  };
+
+  const toolChoices = [
+    ...SENSITIVE_TASK_TOOLS,
+    ...policy.filter(
+      (t) => !(SENSITIVE_TASK_TOOLS as readonly string[]).includes(t),
+    ),
+  ];
+
+  return (
+    <div className="mt-2.5 space-y-2 font-mono text-[11px]">
+      {pending.map((approval) => (
+        <div
+          key={approval.approvalId}
+          className="rounded-md border border-amber-500/30 bg-amber-500/5 px-3 py-2.5"
+        >
+          <div className="flex items-center gap-2">
+            <ShieldAlert className="h-3.5 w-3.5 shrink-0 text-amber-400" />
+            <span className="flex-1 text-amber-200">
+              Iteration {approval.iteration} wants to run{" "}
+              <span className="font-semibold">{approval.toolName}</span>
+            </span>
+            <span className="text-zinc-600">
+              rejected{" "}
+              {formatDistanceToNow(new Date(approval.expiresAt), {
+                addSuffix: true,
+              })}
+            </span>
+          </div>
+          {approval.input != null && (
+            <pre className="mt-1.5 max-h-40 overflow-auto rounded bg-zinc-950/60 p-2 text-zinc-400">
+              {JSON.stringify(approval.input, null, 2)}
+            </pre>
+          )}
+          <div className="mt-2 flex justify-end gap-2">
+            <button
+              onClick={() => decide(approval.approvalId, false)}
+              disabled={deciding !== null}
+              className="flex items-center gap-1 rounded border border-zinc-700 px-2.5 py-1 text-zinc-300 transition-colors hover:border-red-500/40 hover:text-red-400 disabled:opacity-50"
+            >
+              <X className="h-3 w-3" />
+              Reject
+            </button>
+            <button
+              onClick={() => decide(approval.approvalId, true)}
+              disabled={deciding !== null}
+              className="flex items-center gap-1 rounded border border-emerald-500/30 bg-emerald-500/10 px-2.5 py-1 text-emerald-300 transition-colors hover:bg-emerald-500/20 disabled:opacity-50"
+            >
+              {deciding === approval.approvalId ? (
+                <Loader2 className="h-3 w-3 animate-spin" />
+              ) : (
+                <Check className="h-3 w-3" />
+              )}
+              Approve
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {error && <p className="text-red-400">{error}</p>}
+
+      <div className="rounded-md border border-zinc-800/60 bg-zinc-900/30">
+        <button
+          onClick={() => setPolicyOpen((v) => !v)}
+          className="flex w-full items-center gap-2 px-3 py-2 text-left text-zinc-500 transition-colors hover:text-zinc-300"
+        >
+          <ShieldCheck className="h-3.5 w-3.5 shrink-0 text-coral/50" />
+          <span className="flex-1">
+            Approval required for {policy.length} tool
+            {policy.length !== 1 ? "s" : ""} + wallet transfers
+          </span>
+          <ChevronDown
+            className={`h-3 w-3 shrink-0 transition-transform ${policyOpen ? "rotate-180" : ""}`}
+          />
+        </button>
+
+        {policyOpen && (
+          <div className="space-y-2 px-3 pb-3">
+            <div className="flex flex-wrap gap-1.5">
+              {toolChoices.map((name) => {
+                const active = policy.includes(name);
+                return (
+                  <button
+                    key={name}
+                    onClick={() => toggleTool(name)}
+                    className={`rounded border px-2 py-0.5 transition-colors ${
+                      active
+                        ? "border-coral/30 bg-coral/10 text-coral"
+                        : "border-zinc-800 text-zinc-600 hover:text-zinc-300"
+                    }`}
+                  >
+                    {name}
+                  </button>
+                );
+              })}
+            </div>
+            <div className="flex gap-1.5">
+              <input
+                value={customTool}
+                onChange={(e) => setCustomTool(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && addCustomTool()}
+                maxLength={100}
+                placeholder="Another tool name"
+                className="flex-1 rounded border border-zinc-800 bg-zinc-900 px-2 py-1 text-zinc-100 placeholder:text-zinc-600 focus:border-coral/40 focus:outline-none"
+              />
+              <button
+                onClick={addCustomTool}
+                disabled={!customTool.trim()}
+                className="flex items-center gap-1 px-2 text-zinc-500 transition-colors hover:text-coral disabled:opacity-50"
+              >
+                <Plus className="h-3 w-3" />
+                Add
+              </button>
+            </div>
+            <p className="text-zinc-600">
+              Changes apply from the next iteration.
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
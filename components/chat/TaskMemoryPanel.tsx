@@ -0,0 +1,230 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  Brain,
+  ChevronDown,
+  Pencil,
+  Plus,
+  Trash2,
+  Loader2,
+} from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import {
+  MAX_MEMORY_KEY_LENGTH,
+  MAX_MEMORY_VALUE_LENGTH,
+} from "@/lib/tasks/constants";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+interface MemoryEntry {
+  key: string;
+  value: string;
+  updatedAt: string;
+}
+
+interface TaskMemoryPanelProps {
+  taskId: string;
+  identityToken?: string | null;
+  /** Bump to refetch (e.g. after each iteration, which may write memory) */
+  refreshKey?: number;
+}
+
+// ── Component ────────────────────────────────────────────────────────────────
+
+/**
+ * Shows the notes a task's agent keeps between iterations, and lets the
+ * owner add, correct, or remove them.
+ */
+export function TaskMemoryPanel({
+  taskId,
+  identityToken,
+  refreshKey = 0,
+}: TaskMemoryPanelProps) {
+  const [entries, setEntries] = useState<MemoryEntry[]>([]);
+  const [maxEntries, setMaxEntries] = useState<number | null>(null);
+  const [expanded, setExpanded] = useState(false);
+  // Key being edited ("" = new entry), or null when the form is closed
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [draftKey, setDraftKey] = useState("");
+  const [draftValue, setDraftValue] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const headers: Record<string, string> = identityToken
+    ? { "privy-id-token": identityToken }
+    : {};
+
+  const fetchMemory = useCallback(async () => {
+    if (!identityToken) return;
+    try {
+      const res = await fetch(`/api/tasks/${taskId}/memory`, {
+        headers: { "privy-id-token": identityToken },
+      });
+      if (!res.ok) return;
+      const data = await res.json();
+      setEntries(data.entries || []);
+      setMaxEntries(data.maxEntries ?? null);
+    } catch {
+      // Non-fatal — the panel just shows what it had
+    }
+  }, [taskId, identityToken]);
+
+  useEffect(() => {
+    fetchMemory();
+  }, [fetchMemory, refreshKey]);
+
+  const openEditor = (entry?: MemoryEntry) => {
+    setEditingKey(entry?.key ?? "");
+    setDraftKey(entry?.key ?? "");
+    setDraftValue(entry?.value ?? "");
+    setError(null);
+  };
+
+  const saveEntry = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/tasks/${taskId}/memory`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json", ...headers },
+        body: JSON.stringify({ key: draftKey, value: draftValue }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to save note");
+      setEditingKey(null);
+      await fetchMemory();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save note");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteEntry = async (key: string) => {
+    try {
+      const res = await fetch(
+        `/api/tasks/${taskId}/memory?key=${encodeURIComponent(key)}`,
+        { method: "DELETE", headers },
+      );
+      if (res.ok) setEntries((prev) => prev.filter((e) => e.key !== key));
+    } catch (err) {
+      console.error("[TaskMemory] Delete error:", err);
+    }
+  };
+
+  return (
+    <div className="mt-2.5 rounded-md border border-zinc-800/60 bg-zinc-900/30 font-mono text-[11px]">
+      <button
+        onClick={() => setExpanded((v) => !v)}
+        className="flex w-full items-center gap-2 px-3 py-2 text-left text-zinc-500 transition-colors hover:text-zinc-300"
+      >
+        <Brain className="h-3.5 w-3.5 shrink-0 text-coral/50" />
+        <span className="flex-1">
+          Memory · {entries.length} note{entries.length !== 1 ? "s" : ""}
+          {maxEntries ? ` / ${maxEntries}` : ""}
+        </span>
+        <ChevronDown
+          className={`h-3 w-3 shrink-0 transition-transform ${expanded ? "rotate-180" : ""}`}
+        />
+      </button>
+
+      {expanded && (
+        <div className="max-h-72 space-y-1.5 overflow-y-auto px-3 pb-3">
+          {entries.length === 0 && editingKey === null && (
+            <p className="text-zinc-600">
+              No notes yet. The agent saves notes here to remember things
+              between iterations.
+            </p>
+          )}
+
+          {entries.map((entry) =>
+            editingKey === entry.key ? null : (
+              <div
+                key={entry.key}
+                className="group rounded border border-zinc-800/60 bg-zinc-950/40 px-2.5 py-2"
+              >
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold text-coral/80">
+                    {entry.key}
+                  </span>
+                  <span className="text-zinc-700">·</span>
+                  <span className="flex-1 text-zinc-600">
+                    {formatDistanceToNow(new Date(entry.updatedAt), {
+                      addSuffix: true,
+                    })}
+                  </span>
+                  <button
+                    onClick={() => openEditor(entry)}
+                    className="text-zinc-600 opacity-0 transition-opacity hover:text-zinc-300 group-hover:opacity-100"
+                    title="Edit"
+                  >
+                    <Pencil className="h-3 w-3" />
+                  </button>
+                  <button
+                    onClick={() => deleteEntry(entry.key)}
+                    className="text-zinc-600 opacity-0 transition-opacity hover:text-red-400 group-hover:opacity-100"
+                    title="Delete"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </button>
+                </div>
+                <p className="mt-1 whitespace-pre-wrap break-words text-zinc-400">
+                  {entry.value}
+                </p>
+              </div>
+            ),
+          )}
+
+          {editingKey !== null ? (
+            <div className="space-y-1.5 rounded border border-zinc-700 bg-zinc-950/60 p-2.5">
+              <input
+                value={draftKey}
+                onChange={(e) => setDraftKey(e.target.value)}
+                disabled={editingKey !== ""}
+                maxLength={MAX_MEMORY_KEY_LENGTH}
+                placeholder="key"
+                className="w-full rounded border border-zinc-800 bg-zinc-900 px-2 py-1 text-zinc-100 placeholder:text-zinc-600 focus:border-coral/40 focus:outline-none disabled:text-coral/80"
+              />
+              <textarea
+                value={draftValue}
+                onChange={(e) => setDraftValue(e.target.value)}
+                maxLength={MAX_MEMORY_VALUE_LENGTH}
+                rows={3}
+                placeholder="value"
+                className="w-full rounded border border-zinc-800 bg-zinc-900 px-2 py-1 text-zinc-100 placeholder:text-zinc-600 focus:border-coral/40 focus:outline-none"
+                autoFocus={editingKey !== ""}
+              />
+              {error && <p className="text-red-400">{error}</p>}
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => setEditingKey(null)}
+                  disabled={saving}
+                  className="px-2 py-1 text-zinc-500 hover:text-zinc-300"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={saveEntry}
+                  disabled={saving || !draftKey.trim()}
+                  className="flex items-center gap-1 rounded border border-coral/25 bg-coral/10 px-2.5 py-1 text-coral transition-all hover:bg-coral/20 disabled:opacity-50"
+                >
+                  {saving && <Loader2 className="h-3 w-3 animate-spin" />}
+                  Save
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button
+              onClick={() => openEditor()}
+              className="flex items-center gap-1 text-zinc-500 transition-colors hover:text-coral"
+            >
+              <Plus className="h-3 w-3" />
+              Add note
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
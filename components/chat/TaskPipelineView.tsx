@@ -0,0 +1,457 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  GitBranch,
+  ChevronDown,
+  ChevronRight,
+  Play,
+  Loader2,
+  CheckCircle,
+  AlertCircle,
+  MinusCircle,
+  Trash2,
+} from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+import type {
+  PipelineEdgeCondition,
+  PipelineStageStatus,
+} from "@/lib/tasks/constants";
+import {
+  describeEdgeCondition,
+  getPipelineLayers,
+} from "@/lib/tasks/pipeline-graph";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+interface PipelineStage {
+  id: string;
+  name: string;
+  status: string;
+  triggerMode: string;
+}
+
+interface PipelineEdge {
+  fromTaskId: string;
+  toTaskId: string;
+  condition: PipelineEdgeCondition | null;
+}
+
+interface Pipeline {
+  id: string;
+  name: string;
+  description?: string | null;
+  stages: PipelineStage[];
+  edges: PipelineEdge[];
+  runs: Array<{ id: string; status: string; startedAt: string }>;
+}
+
+interface RunSummary {
+  id: string;
+  status: string;
+  triggeredBy: string;
+  startedAt: string;
+  completedAt?: string | null;
+}
+
+interface RunDetail extends RunSummary {
+  stageIds: string[];
+  stages: Array<{
+    taskId: string;
+    status: PipelineStageStatus;
+    output?: string | null;
+    result?: unknown;
+    completedAt?: string | null;
+  }>;
+  logs: Array<{
+    id: string;
+    taskId: string;
+    iteration: number;
+    content: string;
+    status: string;
+    createdAt: string;
+  }>;
+}
+
+interface TaskPipelineViewProps {
+  identityToken?: string | null;
+}
+
+// ── Stage Status ─────────────────────────────────────────────────────────────
+
+function StageStatusIcon({ status }: { status?: PipelineStageStatus }) {
+  if (status === "running") {
+    return <Loader2 className="h-3 w-3 animate-spin text-coral" />;
+  }
+  if (status === "success") {
+    return <CheckCircle className="h-3 w-3 text-emerald-400" />;
+  }
+  if (status === "error") {
+    return <AlertCircle className="h-3 w-3 text-red-400" />;
+  }
+  if (status === "skipped") {
+    return <MinusCircle className="h-3 w-3 text-zinc-600" />;
+  }
+  return <span className="h-3 w-3 rounded-full border border-zinc-700" />;
+}
+
+const RUN_STATUS_COLORS: Record<string, string> = {
+  running: "text-coral",
+  completed: "text-emerald-400",
+  failed: "text-red-400",
+};
+
+// ── Pipeline Detail ──────────────────────────────────────────────────────────
+
+function PipelineDetail({
+  pipeline,
+  identityToken,
+}: {
+  pipeline: Pipeline;
+  identityToken?: string | null;
+}) {
+  const [runs, setRuns] = useState<RunSummary[]>([]);
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [run, setRun] = useState<RunDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch(`/api/pipelines/${pipeline.id}/runs`, {
+          headers: identityToken ? { "privy-id-token": identityToken } : {},
+        });
+        if (!res.ok || cancelled) return;
+        const data = await res.json();
+        setRuns(data.runs || []);
+        setSelectedRunId((current) => current ?? data.runs?.[0]?.id ?? null);
+      } catch (error) {
+        console.error("[TaskPipelineView] Failed to fetch runs:", error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [pipeline.id, identityToken]);
+
+  useEffect(() => {
+    if (!selectedRunId) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch(
+          `/api/pipelines/${pipeline.id}/runs/${selectedRunId}`,
+          {
+            headers: identityToken ? { "privy-id-token": identityToken } : {},
+          },
+        );
+        if (!res.ok || cancelled) return;
+        const data = await res.json();
+        setRun(data.run);
+      } catch (error) {
+        console.error("[TaskPipelineView] Failed to fetch run:", error);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [pipeline.id, selectedRunId, identityToken]);
+
+  const stageIds = pipeline.stages.map((s) => s.id);
+  const layers = getPipelineLayers(stageIds, pipeline.edges);
+  const stagesById = new Map(pipeline.stages.map((s) => [s.id, s]));
+  const stageRuns = new Map(run?.stages.map((s) => [s.taskId, s]));
+
+  return (
+    <div className="space-y-3 px-3 pb-3">
+      {/* Run selector */}
+      <div className="flex items-center gap-2">
+        <span className="text-zinc-600">Run</span>
+        {loading ? (
+          <Loader2 className="h-3 w-3 animate-spin text-zinc-600" />
+        ) : runs.length === 0 ? (
+          <span className="text-zinc-600">
+            No runs yet — a run starts when the first stage finishes an
+            iteration.
+          </span>
+        ) : (
+          <select
+            value={selectedRunId ?? ""}
+            onChange={(e) => setSelectedRunId(e.target.value)}
+            className="rounded border border-zinc-800 bg-zinc-900 px-2 py-1 text-zinc-300 focus:border-coral/40 focus:outline-none"
+          >
+            {runs.map((r) => (
+              <option key={r.id} value={r.id}>
+                {format(new Date(r.startedAt), "MMM d, HH:mm:ss")} · {r.status}
+                {r.triggeredBy === "manual" ? " · manual" : ""}
+              </option>
+            ))}
+          </select>
+        )}
+        {run && (
+          <span className={RUN_STATUS_COLORS[run.status] ?? "text-zinc-500"}>
+            {run.status}
+          </span>
+        )}
+      </div>
+
+      {/* Stages, one column per layer */}
+      <div className="flex gap-3 overflow-x-auto pb-1">
+        {layers.map((layer, index) => (
+          <div key={index} className="flex min-w-[220px] flex-col gap-2">
+            {layer.map((taskId) => {
+              const stage = stagesById.get(taskId);
+              const stageRun = stageRuns.get(taskId);
+              const inRun = !run || run.stageIds.includes(taskId);
+              const incoming = pipeline.edges.filter(
+                (e) => e.toTaskId === taskId,
+              );
+              const logs = run?.logs.filter((l) => l.taskId === taskId) ?? [];
+
+              return (
+                <div
+                  key={taskId}
+                  className={`rounded border border-zinc-800/60 bg-zinc-950/40 px-2.5 py-2 ${
+                    inRun ? "" : "opacity-40"
+                  }`}
+                >
+                  <div className="flex items-center gap-1.5">
+                    <StageStatusIcon status={stageRun?.status} />
+                    <span className="truncate font-semibold text-zinc-200">
+                      {stage?.name ?? taskId}
+                    </span>
+                  </div>
+
+                  {incoming.length > 0 && (
+                    <div className="mt-1 space-y-0.5 text-[10px] text-zinc-600">
+                      {incoming.map((edge) => (
+                        <div key={edge.fromTaskId} className="truncate">
+                          ← {stagesById.get(edge.fromTaskId)?.name ?? "?"}{" "}
+                          <span className="text-coral/60">
+                            {describeEdgeCondition(edge.condition)}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {logs.map((log) => (
+                    <div
+                      key={log.id}
+                      className="mt-1.5 border-t border-zinc-800/60 pt-1.5"
+                    >
+                      <div className="text-[10px] text-zinc-600">
+                        #{log.iteration} ·{" "}
+                        {formatDistanceToNow(new Date(log.createdAt), {
+                          addSuffix: true,
+                        })}
+                      </div>
+                      <p
+                        className={`mt-0.5 max-h-40 overflow-y-auto whitespace-pre-wrap break-words ${
+                          log.status === "error"
+                            ? "text-red-400/80"
+                            : "text-zinc-400"
+                        }`}
+                      >
+                        {log.content}
+                      </p>
+                    </div>
+                  ))}
+
+                  {stageRun?.result != null && (
+                    <pre className="mt-1.5 max-h-32 overflow-auto rounded bg-zinc-900/60 p-1.5 text-[10px] text-zinc-500">
+                      {JSON.stringify(stageRun.result, null, 2)}
+                    </pre>
+                  )}
+
+                  {stageRun?.status === "skipped" && (
+                    <p className="mt-1 text-[10px] text-zinc-600">
+                      Skipped — no incoming edge passed
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// ── Component ────────────────────────────────────────────────────────────────
+
+/**
+ * Lists the user's task pipelines. Expanding one lays its stages out by
+ * layer and shows what each stage logged in a selected run.
+ */
+export function TaskPipelineView({ identityToken }: TaskPipelineViewProps) {
+  const [pipelines, setPipelines] = useState<Pipeline[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [starting, setStarting] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Bump to remount the open detail so it picks up a new run
+  const [detailKey, setDetailKey] = useState(0);
+
+  const headers: Record<string, string> = identityToken
+    ? { "privy-id-token": identityToken }
+    : {};
+
+  const fetchPipelines = useCallback(async () => {
+    if (!identityToken) return;
+    try {
+      const res = await fetch("/api/pipelines", {
+        headers: { "privy-id-token": identityToken },
+      });
+      if (!res.ok) return;
+      const data = await res.json();
+      setPipelines(data.pipelines || []);
+    } catch (err) {
+      console.error("[TaskPipelineView] Failed to fetch pipelines:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [identityToken]);
+
+  useEffect(() => {
+    fetchPipelines();
+  }, [fetchPipelines]);
+
+  const startRun = async (pipelineId: string) => {
+    setStarting(pipelineId);
+    setError(null);
+    try {
+      const res = await fetch(`/api/pipelines/${pipelineId}/runs`, {
+        method: "POST",
+        headers,
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to start run");
+      setExpandedId(pipelineId);
+      setDetailKey((k) => k + 1);
+      await fetchPipelines();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to start run");
+    } finally {
+      setStarting(null);
+    }
+  };
+
+  const deletePipeline = async (pipelineId: string) => {
+    if (!confirm("Delete this pipeline? Its tasks keep running on their own."))
+      return;
+    try {
+      const res = await fetch(`/api/pipelines/${pipelineId}`, {
+        method: "DELETE",
+        headers,
+      });
+      if (res.ok) {
+        setPipelines((prev) => prev.filter((p) => p.id !== pipelineId));
+      }
+    } catch (err) {
+      console.error("[TaskPipelineView] Delete error:", err);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex h-64 items-center justify-center">
+        <Loader2 className="h-5 w-5 animate-spin text-zinc-500" />
+      </div>
+    );
+  }
+
+  if (pipelines.length === 0) {
+    return (
+      <div className="flex h-64 flex-col items-center justify-center gap-3">
+        <GitBranch className="h-5 w-5 text-zinc-700" />
+        <p className="max-w-sm text-center font-mono text-[11px] leading-relaxed text-zinc-500">
+          No pipelines yet. Ask your agent to chain tasks together, e.g.
+          &quot;scan my mentions, then draft replies, then post the approved
+          ones&quot;.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2.5 font-mono text-[11px]">
+      {error && <p className="text-red-400">{error}</p>}
+      {pipelines.map((pipeline) => {
+        const expanded = expandedId === pipeline.id;
+        const lastRun = pipeline.runs[0];
+        return (
+          <div
+            key={pipeline.id}
+            className="rounded-md border border-zinc-800/60 bg-zinc-900/30"
+          >
+            <div className="flex items-center gap-2 px-3 py-2.5">
+              <button
+                onClick={() => setExpandedId(expanded ? null : pipeline.id)}
+                className="flex flex-1 items-center gap-2 text-left text-zinc-300 hover:text-white"
+              >
+                {expanded ? (
+                  <ChevronDown className="h-3.5 w-3.5 text-zinc-500" />
+                ) : (
+                  <ChevronRight className="h-3.5 w-3.5 text-zinc-500" />
+                )}
+                <GitBranch className="h-3.5 w-3.5 text-coral/50" />
+                <span className="font-display text-sm font-medium text-white">
+                  {pipeline.name}
+                </span>
+                <span className="text-zinc-600">
+                  · {pipeline.stages.length} stage
+                  {pipeline.stages.length !== 1 ? "s" : ""}
+                </span>
+                {lastRun && (
+                  <span
+                    className={
+                      RUN_STATUS_COLORS[lastRun.status] ?? "text-zinc-500"
+                    }
+                  >
+                    · last run {lastRun.status}{" "}
+                    {formatDistanceToNow(new Date(lastRun.startedAt), {
+                      addSuffix: true,
+                    })}
+                  </span>
+                )}
+              </button>
+              <button
+                onClick={() => startRun(pipeline.id)}
+                disabled={starting === pipeline.id}
+                className="flex items-center gap-1 rounded border border-coral/25 bg-coral/10 px-2.5 py-1 text-coral transition-all hover:bg-coral/20 disabled:opacity-50"
+                title="Trigger the first stages now"
+              >
+                {starting === pipeline.id ? (
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                ) : (
+                  <Play className="h-3 w-3" />
+                )}
+                Run now
+              </button>
+              <button
+                onClick={() => deletePipeline(pipeline.id)}
+                className="p-1 text-zinc-600 transition-colors hover:text-red-400"
+                title="Delete pipeline"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            </div>
+
+            {expanded && (
+              <PipelineDetail
+                key={`${pipeline.id}-${detailKey}`}
+                pipeline={pipeline}
+                identityToken={identityToken}
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
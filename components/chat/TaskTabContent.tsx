@@ -17,7 +17,10 @@ import {
 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import Image from "next/image";
+import { describeTaskSchedule } from "@/lib/tasks/cron";
 import type { TaskStatus } from "./TabBar";
+import { TaskMemoryPanel } from "./TaskMemoryPanel";
+import { TaskApprovalsPanel, type PendingApproval } from "./TaskApprovalsPanel";
 
 // ── Types ────────────────────────────────────────────────────────────────────
 
@@ -26,9 +29,20 @@ interface TaskLog {
   iteration: number;
   content: string;
   parts?: {
-    toolCalls?: Array<{ name: string; args: unknown; result: unknown }>;
+    toolCalls?: Array<{
+      name: string;
+      args: unknown;
+      result: unknown;
+      simulated?: boolean;
+    }>;
     tokenUsage?: { inputTokens: number; outputTokens: number };
     error?: string;
+    errorCategory?: string;
+    attempts?: number;
+    notable?: string;
+    dryRun?: boolean;
+    simulated?: Array<{ toolName: string; action: string }>;
+    approvals?: Array<{ toolName: string; approved: boolean; reason?: string }>;
   };
   status: string;
   createdAt: string;
@@ -42,11 +56,19 @@ interface TaskData {
   taskPrompt: string;
   currentIteration: number;
   intervalMs: number;
+  triggerMode: string;
+  cronExpression?: string | null;
+  timezone?: string | null;
   maxIterations?: number;
   lastExecutedAt?: string;
   nextExecutionAt?: string;
   errorMessage?: string;
+  consecutiveFailures?: number;
+  failureThreshold?: number;
   enabledToolGroups: string[];
+  approvalRequiredTools?: string[];
+  dryRun?: boolean;
+  approvals?: PendingApproval[];
   createdAt: string;
   agent: {
     id: string;
@@ -147,7 +169,30 @@ function LogEntry({ log, index }: { log: TaskLog; index: number }) {
           </span>
           {isError && (
             <span className="rounded border border-red-500/20 bg-red-500/10 px-1.5 py-0.5 font-mono text-[10px] font-medium text-red-400">
-              ERR
+              {log.parts?.errorCategory
+                ? `ERR · ${log.parts.errorCategory.replace("_", " ")}`
+                : "ERR"}
+            </span>
+          )}
+          {log.parts?.attempts && log.parts.attempts > 1 && (
+            <span className="font-mono text-[10px] text-zinc-600">
+              {log.parts.attempts} attempts
+            </span>
+          )}
+          {log.parts?.notable && (
+            <span
+              title={log.parts.notable}
+              className="rounded border border-amber-500/20 bg-amber-500/10 px-1.5 py-0.5 font-mono text-[10px] font-medium text-amber-400"
+            >
+              NOTABLE
+            </span>
+          )}
+          {log.parts?.dryRun && (
+            <span
+              title="Write-side tools were simulated; nothing was sent"
+              className="rounded border border-sky-500/20 bg-sky-500/10 px-1.5 py-0.5 font-mono text-[10px] font-medium text-sky-400"
+            >
+              DRY RUN
             </span>
           )}
         </div>
@@ -165,6 +210,37 @@ function LogEntry({ log, index }: { log: TaskLog; index: number }) {
           {log.content}
         </div>
 
+        {/* Approval decisions made during the iteration */}
+        {log.parts?.approvals && log.parts.approvals.length > 0 && (
+          <div className="mt-2 space-y-0.5 font-mono text-[11px]">
+            {log.parts.approvals.map((a, i) => (
+              <div
+                key={i}
+                className={
+                  a.approved ? "text-emerald-400/80" : "text-red-400/80"
+                }
+              >
+                {a.approved ? "✓ approved" : "✗ rejected"} {a.toolName}
+                {a.reason && (
+                  <span className="text-zinc-600"> — {a.reason}</span>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Actions a dry run would have taken */}
+        {log.parts?.simulated && log.parts.simulated.length > 0 && (
+          <div className="mt-2 space-y-0.5 font-mono text-[11px]">
+            {log.parts.simulated.map((s, i) => (
+              <div key={i} className="text-sky-400/80">
+                ◌ simulated {s.toolName}
+                <span className="text-zinc-600"> — {s.action}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Footer row: tool calls + token count */}
         <div className="mt-3 flex items-center justify-between border-t border-zinc-800/40 pt-2.5">
           {/* Tool calls toggle */}
@@ -202,6 +278,9 @@ function LogEntry({ log, index }: { log: TaskLog; index: number }) {
                 <div className="flex items-center gap-1.5 font-mono text-[11px]">
                   <span className="text-coral/60">$</span>
                   <span className="font-semibold text-coral/80">{tc.name}</span>
+                  {tc.simulated && (
+                    <span className="text-sky-400/80">(simulated)</span>
+                  )}
                 </div>
                 {tc.args != null && (
                   <pre className="mt-1.5 overflow-x-auto font-mono text-[11px] leading-relaxed text-zinc-500">
@@ -438,10 +517,7 @@ export function TaskTabContent({
               <div className="mt-1 flex items-center gap-3 font-mono text-[11px] text-zinc-500">
                 <span className="flex items-center gap-1">
                   <Clock className="h-3 w-3" />
-                  every{" "}
-                  {intervalMinutes >= 60
-                    ? `${Math.round(intervalMinutes / 60)}h`
-                    : `${intervalMinutes}m`}
+                  {describeTaskSchedule(task)}
                 </span>
                 <span className="text-zinc-700">|</span>
                 <span className="flex items-center gap-1">
@@ -511,6 +587,25 @@ export function TaskTabContent({
           </div>
         )}
 
+        {/* Failures building toward an automatic pause */}
+        {!task.errorMessage &&
+          !!task.consecutiveFailures &&
+          task.status === "running" && (
+            <div className="mt-2.5 rounded-md border border-amber-500/20 bg-amber-500/5 px-3 py-2 font-mono text-[11px] text-amber-400/80">
+              {task.consecutiveFailures} failed iteration
+              {task.consecutiveFailures !== 1 ? "s" : ""} in a row
+              {!!task.failureThreshold &&
+                ` — pauses at ${task.failureThreshold}`}
+            </div>
+          )}
+
+        {/* Dry-run mode */}
+        {task.dryRun && (
+          <div className="mt-2.5 rounded-md border border-sky-500/20 bg-sky-500/5 px-3 py-2 font-mono text-[11px] text-sky-400/80">
+            Dry run — posts, payments, and trades are simulated, not sent
+          </div>
+        )}
+
         {/* Task prompt */}
         {task.taskPrompt && (
           <div className="mt-2.5 rounded-md border border-zinc-800/60 bg-zinc-900/30 px-3 py-2">
@@ -524,6 +619,21 @@ export function TaskTabContent({
             </div>
           </div>
         )}
+
+        <TaskApprovalsPanel
+          key={(task.approvalRequiredTools ?? []).join(",")}
+          taskId={taskId}
+          identityToken={identityToken}
+          pending={task.approvals ?? []}
+          approvalRequiredTools={task.approvalRequiredTools ?? []}
+          onChange={fetchTask}
+        />
+
+        <TaskMemoryPanel
+          taskId={taskId}
+          identityToken={identityToken}
+          refreshKey={task.currentIteration}
+        />
       </div>
 
       {/* ── Log Stream ── */}
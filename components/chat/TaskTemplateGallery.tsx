@@ -0,0 +1,404 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  LayoutTemplate,
+  ChevronDown,
+  ChevronRight,
+  Download,
+  Loader2,
+  Search,
+  Trash2,
+} from "lucide-react";
+import type {
+  TaskTemplateParameter,
+  TaskTemplateVisibility,
+} from "@/lib/tasks/constants";
+import { describeTaskSchedule } from "@/lib/tasks/cron";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+interface TaskTemplate {
+  id: string;
+  name: string;
+  description?: string | null;
+  taskPrompt: string;
+  parameters: TaskTemplateParameter[];
+  enabledToolGroups: string[];
+  triggerMode: string;
+  intervalMs?: number | null;
+  cronExpression?: string | null;
+  timezone?: string | null;
+  visibility: TaskTemplateVisibility;
+  installCount: number;
+  creator: string | null;
+  createdByYou: boolean;
+  corporation?: { id: string; name: string } | null;
+}
+
+interface TaskTemplateGalleryProps {
+  identityToken?: string | null;
+  /** Agent that runs installed tasks; installing is disabled without one */
+  agentId?: string | null;
+  onInstalled?: (taskId: string, taskName: string) => void;
+}
+
+const VISIBILITY_LABELS: Record<TaskTemplateVisibility, string> = {
+  private: "Private",
+  public: "Public",
+  corporation: "Corporation",
+};
+
+// ── Install Form ─────────────────────────────────────────────────────────────
+
+function TemplateInstallForm({
+  template,
+  agentId,
+  onInstall,
+}: {
+  template: TaskTemplate;
+  agentId?: string | null;
+  onInstall: (values: Record<string, string>) => Promise<string | null>;
+}) {
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      template.parameters.map((p) => [p.name, p.default ?? ""]),
+    ),
+  );
+  const [installing, setInstalling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const missing = template.parameters.some((p) => !values[p.name]?.trim());
+
+  const handleInstall = async () => {
+    setInstalling(true);
+    setError(null);
+    const installError = await onInstall(values);
+    setInstalling(false);
+    if (installError) setError(installError);
+  };
+
+  return (
+    <div className="space-y-2.5 px-3 pb-3">
+      <div className="rounded border border-zinc-800/60 bg-zinc-950/40 px-2.5 py-2">
+        <span className="mr-1.5 text-coral/50">&gt;</span>
+        <span className="whitespace-pre-wrap text-zinc-400">
+          {template.taskPrompt}
+        </span>
+      </div>
+
+      {template.parameters.map((parameter) => (
+        <label key={parameter.name} className="block space-y-1">
+          <span className="text-zinc-500">
+            {`{${parameter.name}}`}
+            {parameter.description && (
+              <span className="text-zinc-600"> — {parameter.description}</span>
+            )}
+          </span>
+          <input
+            value={values[parameter.name] ?? ""}
+            onChange={(e) =>
+              setValues((prev) => ({
+                ...prev,
+                [parameter.name]: e.target.value,
+              }))
+            }
+            placeholder={
+              parameter.kind === "solanaAddress"
+                ? "Solana address"
+                : parameter.kind === "twitterHandle"
+                  ? "@handle"
+                  : parameter.kind === "number"
+                    ? "0"
+                    : ""
+            }
+            spellCheck={false}
+            className="w-full rounded border border-zinc-700 bg-zinc-900 px-2.5 py-1.5 text-zinc-100 placeholder:text-zinc-600 focus:border-coral/40 focus:outline-none"
+          />
+        </label>
+      ))}
+
+      {error && <p className="text-red-400">{error}</p>}
+
+      <div className="flex items-center justify-end gap-2">
+        {!agentId && (
+          <span className="text-zinc-600">
+            Open a chat with an agent to install templates
+          </span>
+        )}
+        <button
+          onClick={handleInstall}
+          disabled={installing || missing || !agentId}
+          className="flex items-center gap-1.5 rounded-md border border-coral/25 bg-coral/10 px-3 py-1.5 text-coral transition-all hover:bg-coral/20 disabled:opacity-50"
+        >
+          {installing ? (
+            <Loader2 className="h-3 w-3 animate-spin" />
+          ) : (
+            <Download className="h-3 w-3" />
+          )}
+          Install
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// ── Component ────────────────────────────────────────────────────────────────
+
+/**
+ * Gallery of task templates the user can install: public ones, their own,
+ * and their corporations'. Installing fills in the template's placeholders
+ * and starts a task with the current agent.
+ */
+export function TaskTemplateGallery({
+  identityToken,
+  agentId,
+  onInstalled,
+}: TaskTemplateGalleryProps) {
+  const [templates, setTemplates] = useState<TaskTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [scope, setScope] = useState<"gallery" | "mine">("gallery");
+  const [query, setQuery] = useState("");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const headers: Record<string, string> = identityToken
+    ? { "privy-id-token": identityToken }
+    : {};
+
+  const fetchTemplates = useCallback(async () => {
+    if (!identityToken) return;
+    try {
+      const params = new URLSearchParams({ scope });
+      if (query.trim()) params.set("q", query.trim());
+      const res = await fetch(`/api/task-templates?${params}`, {
+        headers: { "privy-id-token": identityToken },
+      });
+      if (!res.ok) return;
+      const data = await res.json();
+      setTemplates(data.templates || []);
+    } catch (err) {
+      console.error("[TaskTemplateGallery] Failed to fetch templates:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [identityToken, scope, query]);
+
+  useEffect(() => {
+    const timer = setTimeout(fetchTemplates, 250);
+    return () => clearTimeout(timer);
+  }, [fetchTemplates]);
+
+  const installTemplate = async (
+    template: TaskTemplate,
+    values: Record<string, string>,
+  ): Promise<string | null> => {
+    try {
+      const res = await fetch(`/api/task-templates/${template.id}/install`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...headers },
+        body: JSON.stringify({ agentId, values }),
+      });
+      const data = await res.json();
+      if (!res.ok) return data.error || "Failed to install template";
+      setTemplates((prev) =>
+        prev.map((t) =>
+          t.id === template.id ? { ...t, installCount: t.installCount + 1 } : t,
+        ),
+      );
+      onInstalled?.(data.task.id, data.task.name);
+      return null;
+    } catch (err) {
+      console.error("[TaskTemplateGallery] Install error:", err);
+      return "Failed to install template";
+    }
+  };
+
+  const setVisibility = async (
+    templateId: string,
+    visibility: TaskTemplateVisibility,
+  ) => {
+    setError(null);
+    try {
+      const res = await fetch(`/api/task-templates/${templateId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json", ...headers },
+        body: JSON.stringify({ visibility }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to update template");
+      setTemplates((prev) =>
+        prev.map((t) => (t.id === templateId ? { ...t, ...data.template } : t)),
+      );
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to update template",
+      );
+    }
+  };
+
+  const deleteTemplate = async (templateId: string) => {
+    if (!confirm("Delete this template? Tasks installed from it keep running."))
+      return;
+    try {
+      const res = await fetch(`/api/task-templates/${templateId}`, {
+        method: "DELETE",
+        headers,
+      });
+      if (res.ok) {
+        setTemplates((prev) => prev.filter((t) => t.id !== templateId));
+      }
+    } catch (err) {
+      console.error("[TaskTemplateGallery] Delete error:", err);
+    }
+  };
+
+  return (
+    <div className="space-y-2.5 font-mono text-[11px]">
+      {/* Search + scope */}
+      <div className="flex items-center gap-2">
+        <div className="flex flex-1 items-center gap-2 rounded border border-zinc-800 bg-zinc-900 px-2.5 py-1.5">
+          <Search className="h-3 w-3 text-zinc-600" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search templates"
+            className="min-w-0 flex-1 bg-transparent text-zinc-100 placeholder:text-zinc-600 focus:outline-none"
+          />
+        </div>
+        {(["gallery", "mine"] as const).map((s) => (
+          <button
+            key={s}
+            onClick={() => setScope(s)}
+            className={`rounded-md px-3 py-1.5 transition-all ${
+              scope === s
+                ? "bg-zinc-800 text-zinc-100"
+                : "text-zinc-500 hover:bg-zinc-800/50 hover:text-zinc-300"
+            }`}
+          >
+            {s === "gallery" ? "Gallery" : "Mine"}
+          </button>
+        ))}
+      </div>
+
+      {error && <p className="text-red-400">{error}</p>}
+
+      {loading ? (
+        <div className="flex h-64 items-center justify-center">
+          <Loader2 className="h-5 w-5 animate-spin text-zinc-500" />
+        </div>
+      ) : templates.length === 0 ? (
+        <div className="flex h-64 flex-col items-center justify-center gap-3">
+          <LayoutTemplate className="h-5 w-5 text-zinc-700" />
+          <p className="max-w-sm text-center leading-relaxed text-zinc-500">
+            {scope === "mine"
+              ? "No templates yet. Ask your agent to save one of your tasks as a template."
+              : "No templates found."}
+          </p>
+        </div>
+      ) : (
+        templates.map((template) => {
+          const expanded = expandedId === template.id;
+          return (
+            <div
+              key={template.id}
+              className="rounded-md border border-zinc-800/60 bg-zinc-900/30"
+            >
+              <div className="flex items-center gap-2 px-3 py-2.5">
+                <button
+                  onClick={() => setExpandedId(expanded ? null : template.id)}
+                  className="flex min-w-0 flex-1 items-center gap-2 text-left text-zinc-300 hover:text-white"
+                >
+                  {expanded ? (
+                    <ChevronDown className="h-3.5 w-3.5 shrink-0 text-zinc-500" />
+                  ) : (
+                    <ChevronRight className="h-3.5 w-3.5 shrink-0 text-zinc-500" />
+                  )}
+                  <LayoutTemplate className="h-3.5 w-3.5 shrink-0 text-coral/50" />
+                  <span className="truncate font-display text-sm font-medium text-white">
+                    {template.name}
+                  </span>
+                  <span className="shrink-0 text-zinc-600">
+                    ·{" "}
+                    {describeTaskSchedule({
+                      ...template,
+                      intervalMs: template.intervalMs ?? 0,
+                    })}{" "}
+                    · {template.installCount} install
+                    {template.installCount !== 1 ? "s" : ""}
+                    {template.createdByYou
+                      ? " · yours"
+                      : template.creator
+                        ? ` · by ${template.creator}`
+                        : ""}
+                    {template.corporation
+                      ? ` · ${template.corporation.name}`
+                      : ""}
+                  </span>
+                </button>
+                {template.createdByYou && (
+                  <>
+                    <select
+                      value={template.visibility}
+                      onChange={(e) =>
+                        setVisibility(
+                          template.id,
+                          e.target.value as TaskTemplateVisibility,
+                        )
+                      }
+                      className="rounded border border-zinc-800 bg-zinc-900 px-2 py-1 text-zinc-300 focus:border-coral/40 focus:outline-none"
+                      title="Who can see and install this template"
+                    >
+                      {(template.visibility === "corporation"
+                        ? (["private", "public", "corporation"] as const)
+                        : (["private", "public"] as const)
+                      ).map((v) => (
+                        <option key={v} value={v}>
+                          {VISIBILITY_LABELS[v]}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => deleteTemplate(template.id)}
+                      className="p-1 text-zinc-600 transition-colors hover:text-red-400"
+                      title="Delete template"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </button>
+                  </>
+                )}
+              </div>
+
+              {template.description && (
+                <p className="-mt-1 px-3 pb-2.5 pl-[46px] leading-relaxed text-zinc-500">
+                  {template.description}
+                </p>
+              )}
+
+              {template.enabledToolGroups.length > 0 && (
+                <div className="-mt-1 flex flex-wrap gap-1 px-3 pb-2.5 pl-[46px]">
+                  {template.enabledToolGroups.map((group) => (
+                    <span
+                      key={group}
+                      className="rounded bg-zinc-800 px-2 py-0.5 text-[10px] text-zinc-400"
+                    >
+                      {group}
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              {expanded && (
+                <TemplateInstallForm
+                  template={template}
+                  agentId={agentId}
+                  onInstall={(values) => installTemplate(template, values)}
+                />
+              )}
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -18,10 +18,22 @@ import {
   RefreshCw,
   Terminal,
   MessageSquare,
+  CalendarClock,
+  LayoutTemplate,
 } from "lucide-react";
-import { formatDistanceToNow } from "date-fns";
+import { format, formatDistanceToNow } from "date-fns";
 import Image from "next/image";
+import { toast } from "sonner";
+import { DEFAULT_TASK_TIMEZONE } from "@/lib/tasks/constants";
+import {
+  describeCronExpression,
+  describeTaskSchedule,
+  getUpcomingCronRuns,
+  validateCronSchedule,
+} from "@/lib/tasks/cron";
 import type { TaskStatus } from "./TabBar";
+import { TaskPipelineView } from "./TaskPipelineView";
+import { TaskTemplateGallery } from "./TaskTemplateGallery";
 
 interface Task {
   id: string;
@@ -30,6 +42,9 @@ interface Task {
   status: TaskStatus;
   currentIteration: number;
   intervalMs: number;
+  triggerMode: string;
+  cronExpression?: string | null;
+  timezone?: string | null;
   maxIterations?: number;
   lastExecutedAt?: string;
   nextExecutionAt?: string;
@@ -49,6 +64,8 @@ interface TasksModalProps {
   onTaskReopen: (taskId: string, taskName: string) => void;
   onNewTask?: () => void;
   identityToken?: string | null;
+  /** Current chat's agent, which runs tasks installed from templates */
+  agentId?: string | null;
 }
 
 // ── Status Badge ─────────────────────────────────────────────────────────────
@@ -102,6 +119,133 @@ function StatusBadge({ status }: { status: TaskStatus }) {
   );
 }
 
+// ── Schedule Editor ──────────────────────────────────────────────────────────
+
+const CRON_EXAMPLES = [
+  { expression: "0 9 * * *", label: "Daily 9:00" },
+  { expression: "0 9 * * 1-5", label: "Weekdays 9:00" },
+  { expression: "*/30 * * * *", label: "Every 30 min" },
+  { expression: "0 0 1 * *", label: "Monthly" },
+];
+
+/** Live preview of a cron schedule: its description and next fire times */
+function getCronPreview(expression: string, timezone: string) {
+  const error = validateCronSchedule(expression, timezone);
+  if (error) return { error, description: null, upcoming: [] };
+  return {
+    error: null,
+    description: describeCronExpression(expression),
+    upcoming: getUpcomingCronRuns(expression, timezone, 3),
+  };
+}
+
+function CronScheduleEditor({
+  initialExpression,
+  initialTimezone,
+  onSave,
+  onCancel,
+}: {
+  initialExpression: string;
+  initialTimezone: string;
+  onSave: (cronExpression: string, timezone: string) => Promise<string | null>;
+  onCancel: () => void;
+}) {
+  const [expression, setExpression] = useState(initialExpression);
+  const [timezone, setTimezone] = useState(initialTimezone);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const preview = getCronPreview(expression, timezone);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setSaveError(null);
+    const error = await onSave(expression.trim(), timezone.trim());
+    setSaving(false);
+    if (error) setSaveError(error);
+  };
+
+  const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  return (
+    <div className="mt-3 space-y-2.5 rounded-md border border-zinc-800 bg-zinc-950/60 p-3 font-mono text-[11px]">
+      <div className="flex flex-wrap gap-2">
+        <input
+          value={expression}
+          onChange={(e) => setExpression(e.target.value)}
+          placeholder="0 9 * * 1-5"
+          spellCheck={false}
+          className="min-w-0 flex-1 rounded border border-zinc-700 bg-zinc-900 px-2.5 py-1.5 text-zinc-100 placeholder:text-zinc-600 focus:border-coral/40 focus:outline-none"
+        />
+        <input
+          value={timezone}
+          onChange={(e) => setTimezone(e.target.value)}
+          placeholder={DEFAULT_TASK_TIMEZONE}
+          spellCheck={false}
+          className="w-44 rounded border border-zinc-700 bg-zinc-900 px-2.5 py-1.5 text-zinc-100 placeholder:text-zinc-600 focus:border-coral/40 focus:outline-none"
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1.5">
+        {CRON_EXAMPLES.map((example) => (
+          <button
+            key={example.expression}
+            onClick={() => setExpression(example.expression)}
+            className="rounded bg-zinc-800 px-2 py-0.5 text-[10px] text-zinc-400 transition-all hover:bg-zinc-700 hover:text-zinc-200"
+          >
+            {example.label}
+          </button>
+        ))}
+        {browserTimezone && browserTimezone !== timezone && (
+          <button
+            onClick={() => setTimezone(browserTimezone)}
+            className="rounded bg-zinc-800 px-2 py-0.5 text-[10px] text-zinc-400 transition-all hover:bg-zinc-700 hover:text-zinc-200"
+          >
+            Use {browserTimezone}
+          </button>
+        )}
+      </div>
+
+      {preview.error ? (
+        <p className="text-red-400">{preview.error}</p>
+      ) : (
+        <div className="space-y-1">
+          <p className="text-zinc-300">
+            <span className="text-coral/50">›</span> {preview.description} (
+            {timezone})
+          </p>
+          <p className="text-zinc-600">
+            Next:{" "}
+            {preview.upcoming
+              .map((date) => format(date, "EEE MMM d, HH:mm"))
+              .join(" · ")}{" "}
+            your time
+          </p>
+        </div>
+      )}
+
+      {saveError && <p className="text-red-400">{saveError}</p>}
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          disabled={saving}
+          className="rounded-md px-3 py-1.5 text-zinc-400 transition-all hover:text-zinc-200"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={saving || !!preview.error}
+          className="flex items-center gap-1.5 rounded-md border border-coral/25 bg-coral/10 px-3 py-1.5 text-coral transition-all hover:bg-coral/20 disabled:opacity-50"
+        >
+          {saving && <Loader2 className="h-3 w-3 animate-spin" />}
+          Save schedule
+        </button>
+      </div>
+    </div>
+  );
+}
+
 // ── Task Row ─────────────────────────────────────────────────────────────────
 
 function TaskRow({
@@ -109,18 +253,27 @@ function TaskRow({
   onReopen,
   onControl,
   onDelete,
+  onReschedule,
+  onSaveTemplate,
   controlling,
 }: {
   task: Task;
   onReopen: (taskId: string, taskName: string) => void;
   onControl: (taskId: string, action: "stop" | "pause" | "resume") => void;
   onDelete: (taskId: string) => void;
+  onReschedule: (
+    taskId: string,
+    cronExpression: string,
+    timezone: string,
+  ) => Promise<string | null>;
+  onSaveTemplate: (taskId: string) => void;
   controlling: string | null;
   identityToken?: string | null;
 }) {
-  const intervalMinutes = task.intervalMs / 60000;
+  const [editingSchedule, setEditingSchedule] = useState(false);
   const isActive = task.status === "running" || task.status === "paused";
   const isControlling = controlling === task.id;
+  const isCron = task.triggerMode === "cron";
 
   return (
     <div className="group rounded-lg border border-zinc-800 bg-zinc-900/50 p-4 transition-all hover:bg-zinc-900/80">
@@ -157,10 +310,7 @@ function TaskRow({
           <div className="mb-2 flex flex-wrap items-center gap-3 font-mono text-[11px] text-zinc-500">
             <span className="flex items-center gap-1">
               <Clock className="h-3 w-3" />
-              every{" "}
-              {intervalMinutes >= 60
-                ? `${Math.round(intervalMinutes / 60)}h`
-                : `${intervalMinutes}m`}
+              {describeTaskSchedule(task)}
             </span>
             <span className="text-zinc-700">|</span>
             <span className="flex items-center gap-1">
@@ -203,6 +353,23 @@ function TaskRow({
               })}
             </div>
           )}
+
+          {editingSchedule && (
+            <CronScheduleEditor
+              initialExpression={task.cronExpression ?? ""}
+              initialTimezone={task.timezone ?? DEFAULT_TASK_TIMEZONE}
+              onCancel={() => setEditingSchedule(false)}
+              onSave={async (cronExpression, timezone) => {
+                const error = await onReschedule(
+                  task.id,
+                  cronExpression,
+                  timezone,
+                );
+                if (!error) setEditingSchedule(false);
+                return error;
+              }}
+            />
+          )}
         </div>
 
         {/* Actions */}
@@ -252,6 +419,26 @@ function TaskRow({
             </>
           )}
 
+          {/* Schedule Button (active cron tasks) */}
+          {isActive && isCron && (
+            <button
+              onClick={() => setEditingSchedule((v) => !v)}
+              className="rounded-md border border-zinc-700 bg-zinc-800/50 p-2 text-zinc-300 transition-all hover:bg-zinc-700"
+              title="Edit schedule"
+            >
+              <CalendarClock className="h-4 w-4" />
+            </button>
+          )}
+
+          {/* Save as Template Button */}
+          <button
+            onClick={() => onSaveTemplate(task.id)}
+            className="rounded-md border border-zinc-700 bg-zinc-800/50 p-2 text-zinc-300 transition-all hover:bg-zinc-700"
+            title="Save as template"
+          >
+            <LayoutTemplate className="h-4 w-4" />
+          </button>
+
           {/* Open Button */}
           <button
             onClick={() => onReopen(task.id, task.name)}
@@ -285,11 +472,14 @@ export function TasksModal({
   onTaskReopen,
   onNewTask,
   identityToken,
+  agentId,
 }: TasksModalProps) {
   const [tasks, setTasks] = useState<Task[]>([]);
   const [loading, setLoading] = useState(true);
   const [controlling, setControlling] = useState<string | null>(null);
-  const [filter, setFilter] = useState<"all" | "active" | "inactive">("all");
+  const [filter, setFilter] = useState<
+    "all" | "active" | "inactive" | "pipelines" | "templates"
+  >("all");
 
   const headers: Record<string, string> = identityToken
     ? { "privy-id-token": identityToken }
@@ -353,6 +543,56 @@ export function TasksModal({
     }
   };
 
+  const handleReschedule = async (
+    taskId: string,
+    cronExpression: string,
+    timezone: string,
+  ): Promise<string | null> => {
+    try {
+      const res = await fetch(`/api/tasks/${taskId}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          ...headers,
+        },
+        body: JSON.stringify({ cronExpression, timezone }),
+      });
+      const data = await res.json();
+      if (!res.ok) return data.error || "Failed to update schedule";
+      setTasks((prev) =>
+        prev.map((t) => (t.id === taskId ? { ...t, ...data.task } : t)),
+      );
+      return null;
+    } catch (error) {
+      console.error("[TasksModal] Reschedule error:", error);
+      return "Failed to update schedule";
+    }
+  };
+
+  const handleSaveTemplate = async (taskId: string) => {
+    try {
+      const res = await fetch("/api/task-templates", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...headers,
+        },
+        body: JSON.stringify({ taskId }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || "Failed to save template");
+        return;
+      }
+      toast.success("Saved as a private template", {
+        description: "Publish it to the gallery from the Templates tab.",
+      });
+      setFilter("templates");
+    } catch (error) {
+      console.error("[TasksModal] Save template error:", error);
+    }
+  };
+
   if (!isOpen) return null;
 
   const filteredTasks = tasks.filter((task) => {
@@ -419,6 +659,8 @@ export function TasksModal({
               { id: "all", label: "All Tasks" },
               { id: "active", label: "Active" },
               { id: "inactive", label: "Inactive" },
+              { id: "pipelines", label: "Pipelines" },
+              { id: "templates", label: "Templates" },
             ] as const
           ).map((tab) => (
             <button
@@ -437,7 +679,15 @@ export function TasksModal({
 
         {/* Task List */}
         <div className="task-terminal-bg relative flex-1 space-y-2.5 overflow-y-auto px-6 py-4">
-          {loading ? (
+          {filter === "pipelines" ? (
+            <TaskPipelineView identityToken={identityToken} />
+          ) : filter === "templates" ? (
+            <TaskTemplateGallery
+              identityToken={identityToken}
+              agentId={agentId}
+              onInstalled={onTaskReopen}
+            />
+          ) : loading ? (
             <div className="flex h-64 items-center justify-center">
               <div className="flex flex-col items-center gap-3">
                 <Loader2 className="h-5 w-5 animate-spin text-zinc-500" />
@@ -477,7 +727,7 @@ export function TasksModal({
                     </p>
                     {[
                       "Post a tweet every 2 hours",
-                      "Check my portfolio and summarize it daily",
+                      "Check my portfolio every weekday at 9am",
                       "Search for trending topics every 30 minutes",
                     ].map((example) => (
                       <div
@@ -509,6 +759,8 @@ export function TasksModal({
                 onReopen={onTaskReopen}
                 onControl={handleControl}
                 onDelete={handleDelete}
+                onReschedule={handleReschedule}
+                onSaveTemplate={handleSaveTemplate}
                 controlling={controlling}
                 identityToken={identityToken}
               />
@@ -3,3 +3,8 @@ export * from "./ToolExecution";
 export * from "./TabBar";
 export * from "./TaskTabContent";
 export * from "./TasksModal";
+export * from "./TaskMemoryPanel";
+export * from "./TaskApprovalsPanel";
+export * from "./TaskPipelineView";
+export * from "./TaskTemplateGallery";
+export * from "./ChatSummaryBanner";
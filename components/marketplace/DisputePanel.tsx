@@ -0,0 +1,561 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  AlertTriangle,
+  Gavel,
+  Paperclip,
+  Loader2,
+  Send,
+  Scale,
+  X,
+  ExternalLink,
+} from "lucide-react";
+
+import { useAuth } from "@/lib/auth/AuthProvider";
+import { cn, timeAgo } from "@/lib/utils";
+import {
+  ARBITRATION_METHOD_LABELS,
+  MAX_DISPUTE_ATTACHMENTS,
+  MAX_DISPUTE_EVIDENCE_LENGTH,
+  type ArbitrationMethod,
+} from "@/lib/marketplace/types";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+
+// ── Types ────────────────────────────────────────────────────────────────
+
+interface DisputeEvidence {
+  id: string;
+  party: "poster" | "worker";
+  text: string;
+  attachments: string[];
+  createdAt: string;
+}
+
+interface DisputeEvent {
+  id: string;
+  type: string;
+  details: Record<string, unknown> | null;
+  createdAt: string;
+}
+
+interface DisputeData {
+  id: string;
+  status: string;
+  arbitrationMethod: string;
+  responseDeadline: string;
+  votingDeadline: string | null;
+  outcome: string | null;
+  workerPercent: number | null;
+  ruling: string | null;
+  ruledBy: string | null;
+  settlementError: string | null;
+  evidence: DisputeEvidence[];
+  events: DisputeEvent[];
+  role: "poster" | "worker" | "arbitrator" | "juror";
+  canRule: boolean;
+  voteCount: number;
+  myVote: { workerPercent: number; reason: string | null } | null;
+}
+
+interface DisputePanelProps {
+  taskId: string;
+  /** Called after an action that may change the task (rulings settle escrow) */
+  onChange?: () => void;
+}
+
+const STATUS_LABELS: Record<string, { label: string; className: string }> = {
+  open: {
+    label: "Collecting evidence",
+    className: "bg-red-500/10 text-red-400 border-red-500/20",
+  },
+  voting: {
+    label: "Jury voting",
+    className: "bg-violet-500/10 text-violet-400 border-violet-500/20",
+  },
+  arbitration: {
+    label: "In arbitration",
+    className: "bg-amber-500/10 text-amber-400 border-amber-500/20",
+  },
+  settling: {
+    label: "Settling escrow",
+    className: "bg-sky-500/10 text-sky-400 border-sky-500/20",
+  },
+  resolved: {
+    label: "Resolved",
+    className: "bg-emerald-500/10 text-emerald-400 border-emerald-500/20",
+  },
+  closed: {
+    label: "Withdrawn",
+    className: "bg-white/5 text-white/40 border-white/10",
+  },
+};
+
+const EVENT_LABELS: Record<string, string> = {
+  opened: "Dispute opened",
+  evidence: "Evidence submitted",
+  voting_started: "Jury voting opened",
+  vote: "Juror voted",
+  arbitration_started: "Sent to arbitration",
+  ruled: "Ruling issued",
+  settled: "Escrow settled",
+  settlement_failed: "Settlement failed",
+  closed: "Dispute withdrawn",
+};
+
+function formatDeadline(iso: string): string {
+  const ms = new Date(iso).getTime() - Date.now();
+  if (ms <= 0) return "passed";
+  const hours = Math.floor(ms / 3_600_000);
+  if (hours >= 24) return `in ${Math.floor(hours / 24)}d ${hours % 24}h`;
+  return `in ${hours}h ${Math.floor((ms % 3_600_000) / 60_000)}m`;
+}
+
+function rulingHeadline(workerPercent: number): string {
+  if (workerPercent >= 100) return "Full release to the worker";
+  if (workerPercent <= 0) return "Full refund to the poster";
+  return `Split: ${workerPercent}% to the worker, ${100 - workerPercent}% to the poster`;
+}
+
+function eventDetail(event: DisputeEvent): string | null {
+  const d = event.details;
+  if (!d) return null;
+  if (typeof d.reason === "string") return d.reason;
+  if (typeof d.error === "string") return d.error;
+  if (event.type === "evidence" && typeof d.party === "string") {
+    return `by the ${d.party}`;
+  }
+  if (event.type === "ruled" && typeof d.workerPercent === "number") {
+    return `${rulingHeadline(d.workerPercent)} (${d.ruledBy})`;
+  }
+  return null;
+}
+
+// ── Component ────────────────────────────────────────────────────────────
+
+export default function DisputePanel({ taskId, onChange }: DisputePanelProps) {
+  const { authFetch, identityToken } = useAuth();
+
+  const [dispute, setDispute] = useState<DisputeData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const [evidenceText, setEvidenceText] = useState("");
+  const [attachments, setAttachments] = useState<
+    Array<{ url: string; name: string }>
+  >([]);
+  const [percent, setPercent] = useState(50);
+  const [reasoning, setReasoning] = useState("");
+
+  const fetchDispute = useCallback(async () => {
+    try {
+      const res = await authFetch(`/api/marketplace/tasks/${taskId}/dispute`);
+      if (res.status === 404) {
+        setDispute(null);
+        return;
+      }
+      if (!res.ok) throw new Error("Failed to load dispute");
+      const data = await res.json();
+      setDispute(data.dispute);
+    } catch {
+      setError("Failed to load dispute");
+    } finally {
+      setLoading(false);
+    }
+  }, [authFetch, taskId]);
+
+  useEffect(() => {
+    fetchDispute();
+  }, [fetchDispute]);
+
+  async function runAction(
+    key: string,
+    path: string,
+    body: Record<string, unknown>,
+  ) {
+    setBusy(key);
+    setError("");
+    try {
+      const res = await authFetch(
+        `/api/marketplace/tasks/${taskId}/dispute/${path}`,
+        { method: "POST", body: JSON.stringify(body) },
+      );
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || "Request failed");
+      await fetchDispute();
+      onChange?.();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+      return false;
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function handleUpload(file: File) {
+    setBusy("upload");
+    setError("");
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      const res = await fetch(
+        `/api/marketplace/tasks/${taskId}/dispute/upload`,
+        {
+          method: "POST",
+          headers: identityToken ? { "privy-id-token": identityToken } : {},
+          body: formData,
+        },
+      );
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Upload failed");
+      setAttachments((prev) => [...prev, { url: data.url, name: data.name }]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Upload failed");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function handleSubmitEvidence(e: React.FormEvent) {
+    e.preventDefault();
+    if (!evidenceText.trim()) return;
+    const ok = await runAction("evidence", "evidence", {
+      text: evidenceText.trim(),
+      attachments: attachments.map((a) => a.url),
+    });
+    if (ok) {
+      setEvidenceText("");
+      setAttachments([]);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-white/40">
+        <Loader2 className="size-4 animate-spin" />
+        Loading dispute...
+      </div>
+    );
+  }
+  if (!dispute) return null;
+
+  const status = STATUS_LABELS[dispute.status] ?? STATUS_LABELS.open;
+  const isParty = dispute.role === "poster" || dispute.role === "worker";
+  const evidenceOpen =
+    dispute.status === "open" &&
+    new Date(dispute.responseDeadline) > new Date();
+  const canVote =
+    dispute.role === "juror" &&
+    dispute.status === "voting" &&
+    !dispute.myVote &&
+    !!dispute.votingDeadline &&
+    new Date(dispute.votingDeadline) > new Date();
+
+  return (
+    <div className="space-y-4 rounded-xl border border-red-500/20 bg-red-500/[0.03] p-4">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="flex items-center gap-2 text-sm font-semibold text-red-400">
+          <Scale className="size-4" />
+          Dispute
+        </h3>
+        <span
+          className={cn(
+            "rounded-lg border px-2.5 py-1 text-xs font-semibold",
+            status.className,
+          )}
+        >
+          {status.label}
+        </span>
+      </div>
+
+      <div className="grid gap-1 text-xs text-white/40">
+        <p>
+          Arbitrator:{" "}
+          <span className="text-white/60">
+            {ARBITRATION_METHOD_LABELS[
+              dispute.arbitrationMethod as ArbitrationMethod
+            ] ?? dispute.arbitrationMethod}
+          </span>
+        </p>
+        {dispute.status === "open" && (
+          <p>
+            Evidence closes{" "}
+            <span className="text-white/60">
+              {formatDeadline(dispute.responseDeadline)}
+            </span>
+            {dispute.role === "worker" &&
+              " — without a response, the escrow is refunded to the poster"}
+          </p>
+        )}
+        {dispute.status === "voting" && dispute.votingDeadline && (
+          <p>
+            Voting closes{" "}
+            <span className="text-white/60">
+              {formatDeadline(dispute.votingDeadline)}
+            </span>{" "}
+            · {dispute.voteCount} vote{dispute.voteCount !== 1 ? "s" : ""} so
+            far
+          </p>
+        )}
+      </div>
+
+      {/* Ruling */}
+      {dispute.workerPercent !== null && dispute.ruling && (
+        <div className="rounded-lg border border-white/10 bg-white/[0.02] p-3">
+          <p className="mb-1 flex items-center gap-2 text-sm font-semibold text-white/80">
+            <Gavel className="size-4" />
+            {rulingHeadline(dispute.workerPercent)}
+          </p>
+          <p className="whitespace-pre-wrap text-sm text-white/50">
+            {dispute.ruling}
+          </p>
+          {dispute.status === "settling" && dispute.settlementError && (
+            <p className="mt-2 text-xs text-amber-400/80">
+              Payout pending: {dispute.settlementError}. It will be retried
+              automatically.
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Evidence */}
+      <div className="space-y-2">
+        <h4 className="text-xs font-semibold uppercase tracking-wide text-white/40">
+          Evidence
+        </h4>
+        {dispute.evidence.map((item) => (
+          <div
+            key={item.id}
+            className={cn(
+              "rounded-lg border p-3",
+              item.party === "poster"
+                ? "border-red-500/15 bg-red-500/5"
+                : "border-sky-500/15 bg-sky-500/5",
+            )}
+          >
+            <p className="mb-1 text-xs text-white/40">
+              <span className="font-semibold capitalize text-white/60">
+                {item.party}
+              </span>{" "}
+              · {timeAgo(item.createdAt)}
+            </p>
+            <p className="whitespace-pre-wrap text-sm text-white/60">
+              {item.text}
+            </p>
+            {item.attachments.length > 0 && (
+              <div className="mt-2 flex flex-wrap gap-2">
+                {item.attachments.map((url) => (
+                  <a
+                    key={url}
+                    href={url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-1 rounded-md border border-white/10 px-2 py-1 text-xs text-white/50 hover:text-white"
+                  >
+                    <Paperclip className="size-3" />
+                    {decodeURIComponent(url.split("/").pop() ?? "file")}
+                    <ExternalLink className="size-3" />
+                  </a>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Party: submit evidence */}
+      {isParty && evidenceOpen && (
+        <form onSubmit={handleSubmitEvidence} className="space-y-2">
+          <Textarea
+            value={evidenceText}
+            onChange={(e) => setEvidenceText(e.target.value)}
+            placeholder={
+              dispute.role === "worker"
+                ? "Respond to the dispute: explain how your work meets the requirements..."
+                : "Add to your case..."
+            }
+            rows={3}
+            maxLength={MAX_DISPUTE_EVIDENCE_LENGTH}
+            className="bg-surface-light border-white/10 text-white placeholder:text-white/25 focus-visible:border-red-500/30 focus-visible:ring-red-500/20"
+          />
+          {attachments.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {attachments.map((a) => (
+                <span
+                  key={a.url}
+                  className="inline-flex items-center gap-1 rounded-md border border-white/10 px-2 py-1 text-xs text-white/50"
+                >
+                  <Paperclip className="size-3" />
+                  {a.name}
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setAttachments((prev) =>
+                        prev.filter((p) => p.url !== a.url),
+                      )
+                    }
+                    className="text-white/30 hover:text-white"
+                  >
+                    <X className="size-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+          <div className="flex flex-wrap gap-2">
+            <label
+              className={cn(
+                "inline-flex cursor-pointer items-center gap-1.5 rounded-md border border-white/10 px-3 py-1.5 text-xs text-white/50 hover:text-white",
+                (busy === "upload" ||
+                  attachments.length >= MAX_DISPUTE_ATTACHMENTS) &&
+                  "pointer-events-none opacity-50",
+              )}
+            >
+              {busy === "upload" ? (
+                <Loader2 className="size-3 animate-spin" />
+              ) : (
+                <Paperclip className="size-3" />
+              )}
+              Attach file
+              <input
+                type="file"
+                className="hidden"
+                accept="image/png,image/jpeg,image/webp,image/gif,application/pdf,text/plain,application/zip"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = "";
+                  if (file) handleUpload(file);
+                }}
+              />
+            </label>
+            <Button
+              type="submit"
+              size="sm"
+              disabled={!evidenceText.trim() || busy === "evidence"}
+              className="bg-red-500 text-white hover:bg-red-600"
+            >
+              {busy === "evidence" ? (
+                <Loader2 className="mr-2 size-4 animate-spin" />
+              ) : (
+                <Send className="mr-2 size-4" />
+              )}
+              Submit Evidence
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {/* Juror vote or arbitrator ruling */}
+      {(canVote || dispute.canRule) && (
+        <div className="space-y-3 rounded-lg border border-white/10 bg-white/[0.02] p-3">
+          <p className="text-sm font-semibold text-white/70">
+            {dispute.canRule ? "Rule on this dispute" : "Cast your vote"}
+          </p>
+          <div>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              step={5}
+              value={percent}
+              onChange={(e) => setPercent(Number(e.target.value))}
+              className="w-full accent-coral"
+            />
+            <p className="text-xs text-white/50">{rulingHeadline(percent)}</p>
+          </div>
+          <Textarea
+            value={reasoning}
+            onChange={(e) => setReasoning(e.target.value)}
+            placeholder={
+              dispute.canRule
+                ? "Reasoning, shown to both parties..."
+                : "Reason (optional)"
+            }
+            rows={2}
+            maxLength={dispute.canRule ? 5000 : 2000}
+            className="bg-surface-light border-white/10 text-white placeholder:text-white/25"
+          />
+          <Button
+            size="sm"
+            disabled={
+              busy === "rule" ||
+              busy === "vote" ||
+              (dispute.canRule && !reasoning.trim())
+            }
+            onClick={() =>
+              dispute.canRule
+                ? runAction("rule", "resolve", {
+                    workerPercent: percent,
+                    reasoning: reasoning.trim(),
+                  })
+                : runAction("vote", "vote", {
+                    workerPercent: percent,
+                    reason: reasoning.trim() || undefined,
+                  })
+            }
+            className="bg-coral text-black hover:bg-coral/90 font-semibold"
+          >
+            {busy === "rule" || busy === "vote" ? (
+              <Loader2 className="mr-2 size-4 animate-spin" />
+            ) : (
+              <Gavel className="mr-2 size-4" />
+            )}
+            {dispute.canRule ? "Issue Ruling & Settle" : "Submit Vote"}
+          </Button>
+        </div>
+      )}
+      {dispute.role === "juror" && dispute.myVote && (
+        <p className="text-xs text-white/40">
+          You voted: {rulingHeadline(dispute.myVote.workerPercent)}
+        </p>
+      )}
+      {dispute.role === "arbitrator" && dispute.status === "settling" && (
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={busy === "retry"}
+          onClick={() => runAction("retry", "resolve", {})}
+          className="border-white/10 text-white/60"
+        >
+          {busy === "retry" && <Loader2 className="mr-2 size-4 animate-spin" />}
+          Retry Payout
+        </Button>
+      )}
+
+      {error && (
+        <p className="flex items-center gap-1.5 text-xs text-red-400">
+          <AlertTriangle className="size-3" />
+          {error}
+        </p>
+      )}
+
+      {/* Audit log */}
+      <details className="text-xs text-white/40">
+        <summary className="cursor-pointer select-none hover:text-white/60">
+          History ({dispute.events.length})
+        </summary>
+        <ol className="mt-2 space-y-1 border-l border-white/10 pl-3">
+          {dispute.events.map((event) => {
+            const detail = eventDetail(event);
+            return (
+              <li key={event.id}>
+                <span className="text-white/60">
+                  {EVENT_LABELS[event.type] ?? event.type}
+                </span>
+                {detail && <span> — {detail}</span>}
+                <span className="text-white/25">
+                  {" "}
+                  · {timeAgo(event.createdAt)}
+                </span>
+              </li>
+            );
+          })}
+        </ol>
+      </details>
+    </div>
+  );
+}
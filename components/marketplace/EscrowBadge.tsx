@@ -1,6 +1,6 @@
 "use client";
 
-import { Lock, Check, Undo2 } from "lucide-react";
+import { Lock, Check, Undo2, Split } from "lucide-react";
 
 import { cn } from "@/lib/utils";
 
@@ -30,11 +30,22 @@ const CONFIG: Record<
     label: "Released",
     className: "bg-emerald-500/10 text-emerald-400 border-emerald-500/20",
   },
+  refunding: {
+    icon: Undo2,
+    label: "Refunding",
+    className: "bg-blue-500/10 text-blue-400 border-blue-500/20",
+    pulse: true,
+  },
   refunded: {
     icon: Undo2,
     label: "Refunded",
     className: "bg-blue-500/10 text-blue-400 border-blue-500/20",
   },
+  split: {
+    icon: Split,
+    label: "Split",
+    className: "bg-violet-500/10 text-violet-400 border-violet-500/20",
+  },
 };
 
 export default function EscrowBadge({ status, amount }: EscrowBadgeProps) {
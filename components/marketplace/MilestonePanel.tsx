@@ -0,0 +1,373 @@
+"use client";
+
+import { useState } from "react";
+import { motion } from "framer-motion";
+import {
+  CheckCircle2,
+  Calendar,
+  ExternalLink,
+  Loader2,
+  Send,
+  X,
+} from "lucide-react";
+
+import { useAuth } from "@/lib/auth/AuthProvider";
+import { cn, timeAgo } from "@/lib/utils";
+import { getSolscanUrl } from "@/lib/constants/urls";
+import {
+  MAX_MILESTONE_DELIVERABLES_LENGTH,
+  MAX_MILESTONE_REJECTION_LENGTH,
+} from "@/lib/marketplace/milestone-policy";
+import type { Milestone, MilestoneStatus } from "@/lib/marketplace/types";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+
+interface MilestonePanelProps {
+  taskId: string;
+  milestones: Milestone[];
+  /** The viewer's side of the task; null for everyone else */
+  role: "poster" | "worker" | null;
+  /** Whether the task is in a status milestones can be worked in */
+  active: boolean;
+  /** Called after an action that changes a milestone (approvals pay out) */
+  onChange?: () => void;
+}
+
+const STATUS_BADGES: Record<
+  MilestoneStatus,
+  { label: string; className: string }
+> = {
+  pending: { label: "Pending", className: "bg-white/5 text-white/30" },
+  submitted: {
+    label: "In review",
+    className: "bg-yellow-500/10 text-yellow-400",
+  },
+  approved: { label: "Paying out", className: "bg-blue-500/10 text-blue-400" },
+  rejected: {
+    label: "Changes requested",
+    className: "bg-amber-500/10 text-amber-400",
+  },
+  released: { label: "Paid", className: "bg-emerald-500/10 text-emerald-400" },
+};
+
+export default function MilestonePanel({
+  taskId,
+  milestones,
+  role,
+  active,
+  onChange,
+}: MilestonePanelProps) {
+  const { authFetch } = useAuth();
+
+  const [error, setError] = useState("");
+  const [busy, setBusy] = useState<string | null>(null);
+  const [openForm, setOpenForm] = useState<string | null>(null);
+  const [text, setText] = useState("");
+
+  const released = milestones.filter((m) => m.status === "released");
+  const releasedSol = released.reduce((sum, m) => sum + m.amountSol, 0);
+  const totalSol = milestones.reduce((sum, m) => sum + m.amountSol, 0);
+
+  function toggleForm(key: string) {
+    setOpenForm((prev) => (prev === key ? null : key));
+    setText("");
+    setError("");
+  }
+
+  async function runAction(
+    milestoneId: string,
+    action: "submit" | "approve" | "reject",
+    body?: Record<string, unknown>,
+  ) {
+    setBusy(`${action}-${milestoneId}`);
+    setError("");
+    try {
+      const res = await authFetch(
+        `/api/marketplace/tasks/${taskId}/milestones/${milestoneId}/${action}`,
+        { method: "POST", body: JSON.stringify(body ?? {}) },
+      );
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || "Request failed");
+      setOpenForm(null);
+      setText("");
+      onChange?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+      // A failed payment still changes the milestone
+      if (action === "approve") onChange?.();
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  return (
+    <div>
+      <div className="mb-4">
+        <div className="mb-1.5 flex justify-between text-xs text-white/40">
+          <span>
+            {released.length} of {milestones.length} paid
+          </span>
+          <span className="font-medium text-white/60">
+            {releasedSol.toLocaleString(undefined, {
+              maximumFractionDigits: 4,
+            })}{" "}
+            / {totalSol.toLocaleString(undefined, { maximumFractionDigits: 4 })}{" "}
+            SOL
+          </span>
+        </div>
+        <div className="h-2 overflow-hidden rounded-full bg-white/5">
+          <motion.div
+            initial={{ width: 0 }}
+            animate={{
+              width: `${totalSol > 0 ? (releasedSol / totalSol) * 100 : 0}%`,
+            }}
+            transition={{ duration: 0.8, ease: "easeOut" }}
+            className="h-full rounded-full bg-coral shadow-[0_0_8px_rgba(111,236,6,0.3)]"
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-3 flex items-center justify-between rounded-lg border border-red-500/20 bg-red-500/5 px-3 py-2 text-xs text-red-400">
+          <span>{error}</span>
+          <button
+            onClick={() => setError("")}
+            className="ml-2 rounded p-0.5 hover:bg-red-500/10"
+          >
+            <X className="size-3" />
+          </button>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {milestones.map((m, i) => {
+          const badge = STATUS_BADGES[m.status] ?? STATUS_BADGES.pending;
+          const isPaid = m.status === "released";
+          const isOverdue =
+            !!m.dueDate &&
+            !isPaid &&
+            m.status !== "approved" &&
+            new Date(m.dueDate) < new Date();
+          const canSubmit =
+            role === "worker" &&
+            active &&
+            (m.status === "pending" || m.status === "rejected");
+          const canReview =
+            role === "poster" && active && m.status === "submitted";
+          const canRetryPayment =
+            role === "poster" &&
+            active &&
+            m.status === "approved" &&
+            !!m.releaseError &&
+            !m.releaseError.startsWith("Release outcome unknown");
+          const formKey = `${m.status === "submitted" ? "reject" : "submit"}-${m.id}`;
+
+          return (
+            <div
+              key={m.id}
+              className={cn(
+                "rounded-xl border px-3 py-2.5 sm:px-4 sm:py-3",
+                isPaid
+                  ? "border-coral/20 bg-coral/5"
+                  : "border-white/5 bg-white/[0.02]",
+              )}
+            >
+              <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+                <div className="flex items-center gap-2.5 sm:gap-3 min-w-0">
+                  <div
+                    className={cn(
+                      "flex size-6 shrink-0 items-center justify-center rounded-full text-xs font-bold",
+                      isPaid
+                        ? "bg-coral text-black"
+                        : "border border-white/15 text-white/30",
+                    )}
+                  >
+                    {isPaid ? <CheckCircle2 className="size-3.5" /> : i + 1}
+                  </div>
+                  <span
+                    className={cn(
+                      "text-sm min-w-0 break-words",
+                      isPaid ? "text-white/80" : "text-white/60",
+                    )}
+                  >
+                    {m.title}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2 pl-8 sm:pl-0 shrink-0">
+                  <span className="text-sm font-bold text-coral">
+                    {m.amountSol} SOL
+                  </span>
+                  <span
+                    className={cn(
+                      "rounded-md px-2 py-0.5 text-[10px] font-semibold",
+                      badge.className,
+                    )}
+                  >
+                    {badge.label}
+                  </span>
+                </div>
+              </div>
+
+              {(m.description || m.dueDate) && (
+                <div className="mt-2 space-y-1 pl-8 sm:pl-9">
+                  {m.description && (
+                    <p className="whitespace-pre-wrap text-xs text-white/40">
+                      {m.description}
+                    </p>
+                  )}
+                  {m.dueDate && (
+                    <p
+                      className={cn(
+                        "flex items-center gap-1 text-xs",
+                        isOverdue ? "text-orange-400" : "text-white/30",
+                      )}
+                    >
+                      <Calendar className="size-3" />
+                      Due {new Date(m.dueDate).toLocaleDateString()}
+                      {isOverdue && " · overdue"}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {m.deliverables && (
+                <div className="mt-2 ml-8 sm:ml-9 rounded-lg border border-white/5 bg-black/20 p-2.5">
+                  <p className="mb-1 text-[10px] font-semibold uppercase tracking-wide text-white/30">
+                    Deliverables
+                    {m.submittedAt && ` · ${timeAgo(m.submittedAt)}`}
+                  </p>
+                  <p className="whitespace-pre-wrap break-words text-xs text-white/60">
+                    {m.deliverables}
+                  </p>
+                </div>
+              )}
+
+              {m.status === "rejected" && m.rejectionReason && (
+                <p className="mt-2 ml-8 sm:ml-9 text-xs text-amber-400/80">
+                  Changes requested: {m.rejectionReason}
+                </p>
+              )}
+
+              {m.status === "approved" && m.releaseError && (
+                <p className="mt-2 ml-8 sm:ml-9 text-xs text-orange-400">
+                  Payment failed: {m.releaseError}
+                </p>
+              )}
+
+              {m.releaseTxSignature && (
+                <a
+                  href={getSolscanUrl("tx", m.releaseTxSignature)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="mt-2 ml-8 sm:ml-9 inline-flex items-center gap-1 text-xs text-white/40 hover:text-white"
+                >
+                  Payment transaction
+                  <ExternalLink className="size-3" />
+                </a>
+              )}
+
+              {/* Actions */}
+              {(canSubmit || canReview || canRetryPayment) && (
+                <div className="mt-3 ml-8 sm:ml-9 flex flex-wrap gap-2">
+                  {canSubmit && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => toggleForm(`submit-${m.id}`)}
+                      className="border-coral/30 text-coral hover:bg-coral/10"
+                    >
+                      <Send className="size-3.5" />
+                      {m.status === "rejected" ? "Resubmit" : "Submit"}
+                    </Button>
+                  )}
+                  {canReview && (
+                    <>
+                      <Button
+                        size="sm"
+                        onClick={() => runAction(m.id, "approve")}
+                        disabled={!!busy}
+                        className="bg-coral text-black hover:bg-coral/90"
+                      >
+                        {busy === `approve-${m.id}` ? (
+                          <Loader2 className="size-3.5 animate-spin" />
+                        ) : (
+                          <CheckCircle2 className="size-3.5" />
+                        )}
+                        Approve & pay
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => toggleForm(`reject-${m.id}`)}
+                        disabled={!!busy}
+                        className="border-amber-500/30 text-amber-400 hover:bg-amber-500/10"
+                      >
+                        Request changes
+                      </Button>
+                    </>
+                  )}
+                  {canRetryPayment && (
+                    <Button
+                      size="sm"
+                      onClick={() => runAction(m.id, "approve")}
+                      disabled={!!busy}
+                      className="bg-coral text-black hover:bg-coral/90"
+                    >
+                      {busy === `approve-${m.id}` && (
+                        <Loader2 className="size-3.5 animate-spin" />
+                      )}
+                      Retry payment
+                    </Button>
+                  )}
+                </div>
+              )}
+
+              {openForm === formKey && (
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    if (!text.trim()) return;
+                    if (formKey.startsWith("reject")) {
+                      runAction(m.id, "reject", { reason: text.trim() });
+                    } else {
+                      runAction(m.id, "submit", { deliverables: text.trim() });
+                    }
+                  }}
+                  className="mt-3 ml-8 sm:ml-9 space-y-2"
+                >
+                  <Textarea
+                    value={text}
+                    onChange={(e) => setText(e.target.value)}
+                    placeholder={
+                      formKey.startsWith("reject")
+                        ? "What needs to change?"
+                        : "Describe the work for this milestone, with links to files or results..."
+                    }
+                    rows={3}
+                    maxLength={
+                      formKey.startsWith("reject")
+                        ? MAX_MILESTONE_REJECTION_LENGTH
+                        : MAX_MILESTONE_DELIVERABLES_LENGTH
+                    }
+                    className="bg-surface-light border-white/10 text-white placeholder:text-white/25 focus-visible:border-coral/30 focus-visible:ring-coral/20"
+                  />
+                  <Button
+                    type="submit"
+                    size="sm"
+                    disabled={!text.trim() || !!busy}
+                    className="bg-coral text-black hover:bg-coral/90"
+                  >
+                    {busy && <Loader2 className="size-3.5 animate-spin" />}
+                    {formKey.startsWith("reject")
+                      ? "Send back"
+                      : "Submit milestone"}
+                  </Button>
+                </form>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -14,9 +14,11 @@ import {
 } from "lucide-react";
 
 import { cn } from "@/lib/utils";
+import type { Milestone, MilestoneStatus } from "@/lib/marketplace/types";
 
 interface StatusTimelineProps {
   currentStatus: string;
+  milestones?: Pick<Milestone, "id" | "title" | "amountSol" | "status">[];
 }
 
 const STEPS = [
@@ -58,7 +60,61 @@ const STEP_META: Record<
   },
 };
 
-export default function StatusTimeline({ currentStatus }: StatusTimelineProps) {
+const MILESTONE_META: Record<
+  MilestoneStatus,
+  { label: string; color: string }
+> = {
+  pending: { label: "Pending", color: "rgba(255,255,255,0.1)" },
+  submitted: { label: "Submitted", color: "#facc15" },
+  approved: { label: "Approved", color: "#38bdf8" },
+  rejected: { label: "Changes requested", color: "#f59e0b" },
+  released: { label: "Paid", color: "#6FEC06" },
+};
+
+function MilestoneTrack({
+  milestones,
+}: {
+  milestones: NonNullable<StatusTimelineProps["milestones"]>;
+}) {
+  const paid = milestones.filter((m) => m.status === "released");
+  const paidSol = paid.reduce((sum, m) => sum + m.amountSol, 0);
+  const totalSol = milestones.reduce((sum, m) => sum + m.amountSol, 0);
+
+  return (
+    <div className="mt-4">
+      <div className="mb-1.5 flex items-center justify-between text-[10px] font-semibold uppercase tracking-wider text-white/40">
+        <span>
+          Milestones {paid.length}/{milestones.length} paid
+        </span>
+        <span className="font-mono normal-case tracking-normal">
+          {paidSol.toLocaleString(undefined, { maximumFractionDigits: 4 })} /{" "}
+          {totalSol.toLocaleString(undefined, { maximumFractionDigits: 4 })} SOL
+        </span>
+      </div>
+      <div className="flex gap-1">
+        {milestones.map((m, i) => {
+          const meta = MILESTONE_META[m.status] ?? MILESTONE_META.pending;
+          return (
+            <motion.div
+              key={m.id}
+              initial={{ scaleX: 0 }}
+              animate={{ scaleX: 1 }}
+              transition={{ duration: 0.4, delay: i * 0.05, ease: "easeOut" }}
+              title={`${m.title} — ${meta.label}`}
+              className="h-1.5 origin-left rounded-full"
+              style={{ flexGrow: m.amountSol || 1, background: meta.color }}
+            />
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default function StatusTimeline({
+  currentStatus,
+  milestones,
+}: StatusTimelineProps) {
   const isCancelled = currentStatus === "cancelled";
   const isDisputed = currentStatus === "disputed";
 
@@ -187,6 +243,10 @@ export default function StatusTimeline({ currentStatus }: StatusTimelineProps) {
     <div className="w-full">
       <div className="flex items-start">{elements}</div>
 
+      {milestones && milestones.length > 0 && (
+        <MilestoneTrack milestones={milestones} />
+      )}
+
       {/* Disputed indicator */}
       {isDisputed && (
         <motion.div
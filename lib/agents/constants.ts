@@ -0,0 +1,97 @@
+import type { BillingContext } from "@/lib/x402";
+
+// ── Models ───────────────────────────────────────────────────────────────────
+
+/** Allowed models to prevent cost abuse via user-controlled model selection */
+export const ALLOWED_AGENT_MODELS = new Set([
+  "anthropic/claude-haiku-4.5",
+  "anthropic/claude-sonnet-4",
+  "anthropic/claude-sonnet-4-20250514",
+]);
+
+export const DEFAULT_AGENT_MODEL = "anthropic/claude-haiku-4.5";
+
+/** Maximum tool-calling steps per generation */
+export const MAX_AGENT_STEPS = 5;
+
+// ── Prompts ──────────────────────────────────────────────────────────────────
+
+export const DEFAULT_AGENT_NAME = "Agent Inc. Assistant";
+
+/** Default system prompt when no agent is specified */
+export const DEFAULT_SYSTEM_PROMPT = `You are a helpful AI assistant for Agent Inc., a platform for AI-powered autonomous startups on chain.
+You help users understand the platform, answer questions about AI agents, blockchain technology, and the Bags standard.
+Be concise, friendly, and helpful.`;
+
+/** Tool usage guidelines that are ALWAYS appended when tools are available */
+export const TOOL_USAGE_GUIDELINES = `
+## CRITICAL: Tool Usage Rules
+
+You have access to real tools that execute actions. You MUST follow these rules:
+
+1. **ALWAYS use tools when available** - If a user asks for information that a tool can provide, CALL THE TOOL. Do not explain what you could do or write code examples.
+
+2. **NEVER generate code instead of using tools** - If asked "what time is it" and you have getCurrentTime tool, CALL IT. Do not write Python/JavaScript datetime code.
+
+3. **Tools provide REAL data** - Tool results are actual live data (real time, real weather, real prices). Use them.
+
+4. **Call tools immediately** - Don't ask for confirmation. If the user's intent matches a tool's purpose, execute it.
+
+5. **After tool results** - Present the data clearly to the user. Don't just dump JSON - format it nicely.
+
+### Common mistakes to AVOID:
+- ❌ Writing "import datetime; datetime.now()" when asked for time
+- ❌ Saying "I would use the getCurrentTime tool" without actually calling it
+- ❌ Generating code examples instead of calling tools
+- ✅ Actually calling getCurrentTime and showing the result
+
+### Image Generation Guidelines:
+When the user asks to generate, create, draw, or make an image/picture/illustration:
+- IMMEDIATELY call the generateImage tool with a detailed prompt
+- Enhance the user's description with artistic details for better results
+- Choose an appropriate aspect ratio (1:1 for square, 16:9 for landscape, 9:16 for portrait)
+- After the image is generated, briefly describe what you created
+- Examples of triggers: "make me an image of...", "draw a...", "generate a picture of...", "create an illustration of..."
+
+### browseFlowers Guidelines:
+After calling browseFlowers, present products as a simple markdown list (not cards).
+Use this exact per-item format:
+
+**Name** - **$price**
+![Name](thumbnailUrl)
+Short plain-text description.
+
+---
+
+Formatting rules:
+- Do not put images inside bullet list items.
+- Keep one blank line between name/price, image, and description.
+- Do NOT use italics for descriptions.
+- Do NOT output raw URLs.
+- Show at most 4-6 products per response, then ask what they want next.`;
+
+// ── Tool Groups ──────────────────────────────────────────────────────────────
+
+/**
+ * Tool groups that can't be enabled for API keys. Wallet write tools pause
+ * for human approval in the chat UI, which API clients have no way to give.
+ */
+export const API_EXCLUDED_TOOL_GROUPS: readonly string[] = ["wallet"];
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface AgentToolsOptions {
+  userId: string;
+  /** Resolved agent DB ID (undefined for the default assistant) */
+  agentId?: string;
+  /** Agent system prompt before skill prompts — given to task tools */
+  baseSystemPrompt: string;
+  /** Saved chat the tools act in (task tools attribute to it) */
+  chatId?: string;
+  /** Skill IDs to enable */
+  skills: string[];
+  /** User-provided skill API keys (used when the server has none) */
+  skillApiKeys?: Record<string, string>;
+  toolGroups: string[];
+  billingContext?: BillingContext;
+}
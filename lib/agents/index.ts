@@ -0,0 +1,24 @@
+export {
+  ALLOWED_AGENT_MODELS,
+  DEFAULT_AGENT_MODEL,
+  DEFAULT_AGENT_NAME,
+  DEFAULT_SYSTEM_PROMPT,
+  MAX_AGENT_STEPS,
+  TOOL_USAGE_GUIDELINES,
+  API_EXCLUDED_TOOL_GROUPS,
+  type AgentToolsOptions,
+} from "./constants";
+
+export {
+  findAgentByIdOrMint,
+  canAccessAgent,
+  sanitizeAgentPrompt,
+  buildAgentSystemPrompt,
+  appendToolGuidelines,
+  type RuntimeAgent,
+} from "./prompt";
+export {
+  buildAgentTools,
+  API_TOOL_GROUP_IDS,
+  parseAllowedToolGroups,
+} from "./tools";
@@ -0,0 +1,194 @@
+/**
+ * Agent Identity & System Prompt
+ *
+ * Resolves an agent by DB ID or token mint and builds the system prompt it
+ * chats with: an identity preamble (name, token, rarity) followed by the
+ * agent's own instructions, sanitized against prompt injection.
+ */
+
+import prisma from "@/lib/prisma";
+import type { ToolMap } from "@/lib/tools/types";
+
+import { TOOL_USAGE_GUIDELINES } from "./constants";
+
+/**
+ * Fields the runtime needs from an Agent row.
+ */
+const AGENT_RUNTIME_SELECT = {
+  id: true,
+  systemPrompt: true,
+  name: true,
+  isPublic: true,
+  createdById: true,
+  enabledSkills: true,
+  // Agent identity metadata
+  description: true,
+  personality: true,
+  personalityScores: true,
+  rarity: true,
+  // Token/blockchain info
+  isMinted: true,
+  tokenMint: true,
+  tokenSymbol: true,
+  launchedAt: true,
+} as const;
+
+export type RuntimeAgent = NonNullable<
+  Awaited<ReturnType<typeof findAgentByIdOrMint>>
+>;
+
+/**
+ * Look up an agent by database ID or token mint (dual-use URLs).
+ */
+export async function findAgentByIdOrMint(idOrMint: string) {
+  const [agentById, agentByMint] = await Promise.all([
+    prisma.agent.findUnique({
+      where: { id: idOrMint },
+      select: AGENT_RUNTIME_SELECT,
+    }),
+    prisma.agent.findUnique({
+      where: { tokenMint: idOrMint },
+      select: AGENT_RUNTIME_SELECT,
+    }),
+  ]);
+
+  return agentById || agentByMint;
+}
+
+/**
+ * Whether a user may chat with an agent (owner or public).
+ */
+export function canAccessAgent(
+  agent: Pick<RuntimeAgent, "isPublic" | "createdById">,
+  userId: string,
+): boolean {
+  return agent.isPublic || agent.createdById === userId;
+}
+
+/**
+ * Sanitize agent system prompt to prevent prompt injection attacks.
+ * Removes common injection patterns that could override system behavior.
+ */
+export function sanitizeAgentPrompt(prompt: string): string {
+  if (!prompt || typeof prompt !== "string") return "";
+
+  // Remove null bytes and control characters except newlines/tabs
+  let sanitized = prompt.replace(/[\x00-\x08\x0B-\x0C\x0E-\x1F\x7F]/g, "");
+
+  // Detect and neutralize common injection patterns
+  const injectionPatterns = [
+    // System message override attempts
+    /\bsystem\s*:\s*/gi,
+    /\b(ignore|disregard|forget)\s+(all\s+)?(previous|prior|above|earlier)\s+(instructions|prompts|rules|directives)/gi,
+    // Role manipulation
+    /\byou\s+are\s+now\s+(a|an|the)\s+/gi,
+    /\bfrom\s+now\s+on\s*,?\s+you\s+/gi,
+    // Delimiter manipulation (common in prompt injection)
+    /```[\s\S]*?```/g, // Remove code blocks that could contain hidden instructions
+    /<\|.*?\|>/g, // Remove potential control tokens
+  ];
+
+  for (const pattern of injectionPatterns) {
+    sanitized = sanitized.replace(pattern, (match) => {
+      // Replace with escaped version to preserve content but neutralize injection
+      return `[filtered: ${match.slice(0, 20)}...]`;
+    });
+  }
+
+  // Limit total length to prevent abuse (10KB max for system prompts)
+  if (sanitized.length > 10000) {
+    sanitized = sanitized.slice(0, 10000) + "\n[truncated]";
+  }
+
+  return sanitized.trim();
+}
+
+/**
+ * Build the agent's base system prompt: identity preamble + sanitized
+ * instructions. Skill prompts and tool guidelines are appended later.
+ */
+export function buildAgentSystemPrompt(agent: RuntimeAgent): string {
+  const identityParts: string[] = [];
+
+  // Core identity
+  identityParts.push(`# Your Identity`);
+  identityParts.push(
+    `You are **${agent.name}**${agent.tokenSymbol ? ` ($${agent.tokenSymbol})` : ""}.`,
+  );
+
+  if (agent.description) {
+    identityParts.push(`\n${agent.description}`);
+  }
+
+  // Token info (if minted/launched)
+  if (agent.isMinted && agent.tokenMint) {
+    identityParts.push(`\n## Your Token`);
+    identityParts.push(
+      `- **Symbol**: $${agent.tokenSymbol || agent.name.toUpperCase()}`,
+    );
+    identityParts.push(`- **Token Mint Address**: ${agent.tokenMint}`);
+    identityParts.push(`- **Status**: Launched on Solana`);
+    if (agent.launchedAt) {
+      identityParts.push(
+        `- **Launch Date**: ${agent.launchedAt.toISOString().split("T")[0]}`,
+      );
+    }
+  }
+
+  // Note: Personality/behavioral instructions are included in agent.systemPrompt
+  // We intentionally don't add personality info to the identity section to avoid
+  // agents meta-commenting on their own traits
+
+  // Rarity
+  if (agent.rarity) {
+    identityParts.push(`\n## Rarity`);
+    identityParts.push(`You are a **${agent.rarity.toUpperCase()}** agent.`);
+  }
+
+  // Important behavioral note
+  identityParts.push(`\n---`);
+  identityParts.push(
+    `When someone asks "who are you" or about your identity, introduce yourself as ${agent.name}${agent.tokenSymbol ? ` with token $${agent.tokenSymbol}` : ""}. Talk about what you do and how you can help them. Be natural and conversational.`,
+  );
+  identityParts.push(`---\n`);
+
+  // Sanitize agent system prompt to prevent prompt injection
+  // Remove any attempts to override system instructions or manipulate behavior
+  const sanitizedSystemPrompt = sanitizeAgentPrompt(agent.systemPrompt);
+
+  // Combine identity preamble with system prompt
+  const identityPreamble = identityParts.join("\n");
+  return `${identityPreamble}\n\n# Your Instructions\n${sanitizedSystemPrompt}`;
+}
+
+/**
+ * Append the tool usage guidelines and a list of available tools.
+ * Returns the prompt unchanged when there are no tools.
+ */
+export function appendToolGuidelines(
+  systemPrompt: string,
+  tools: ToolMap,
+): string {
+  const toolNames = Object.keys(tools);
+  if (toolNames.length === 0) return systemPrompt;
+
+  // Build a human-readable list of available tools
+  const toolDescriptions = toolNames
+    .map((name) => {
+      const tool = tools[name];
+      const desc = tool?.description || "No description";
+      // Truncate long descriptions
+      const shortDesc = desc.length > 100 ? desc.slice(0, 100) + "..." : desc;
+      return `- **${name}**: ${shortDesc}`;
+    })
+    .join("\n");
+
+  return `${systemPrompt}
+
+${TOOL_USAGE_GUIDELINES}
+
+### Your Available Tools:
+${toolDescriptions}
+
+Remember: CALL these tools, don't write code about them!`;
+}
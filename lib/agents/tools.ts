@@ -0,0 +1,331 @@
+/**
+ * Agent Tool Assembly
+ *
+ * Builds the tool set an agent chats with from its enabled skills and the
+ * requested tool groups. Shared by the in-app chat and the public
+ * /api/v1/agents/{id}/chat endpoint so both run identical tools.
+ *
+ * Everything except the tool search tool and provider-defined tools is
+ * marked deferred, so the model discovers tools through search instead of
+ * receiving every schema up front.
+ */
+
+import { anthropic } from "@ai-sdk/anthropic";
+import prisma from "@/lib/prisma";
+import {
+  getSkillTools,
+  getSkillConfigsFromEnv,
+  skillRegistry,
+} from "@/lib/skills";
+import { getToolsForGroups, TOOL_GROUPS } from "@/lib/tools";
+import {
+  createTwitterTools,
+  createTwitterOnboardingTools,
+  createTwitterConnectionBrokenTool,
+  refreshTwitterToken,
+} from "@/lib/tools/twitter";
+import { createKnowledgeTools } from "@/lib/tools/knowledge";
+import type { ToolMap } from "@/lib/tools/types";
+import { safeDecrypt, encrypt } from "@/lib/utils/encryption";
+
+import { API_EXCLUDED_TOOL_GROUPS, type AgentToolsOptions } from "./constants";
+
+// Provider-defined tools like web_search should NOT be deferred
+const PROVIDER_DEFINED_TOOLS = ["web_search"];
+
+/** Mark tools as deferred for tool search */
+function deferForToolSearch(tools: ToolMap): ToolMap {
+  return Object.fromEntries(
+    Object.entries(tools).map(([name, tool]) => [
+      name,
+      PROVIDER_DEFINED_TOOLS.includes(name)
+        ? tool
+        : {
+            ...tool,
+            providerOptions: {
+              anthropic: { deferLoading: true },
+            },
+          },
+    ]),
+  );
+}
+
+/**
+ * Twitter tools: onboarding tools always (so the AI can help users
+ * connect), plus the API tools when the stored OAuth token is usable.
+ */
+async function buildTwitterTools(
+  userId: string,
+  billingContext: AgentToolsOptions["billingContext"],
+): Promise<ToolMap> {
+  const twitterUser = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      twitterAccessToken: true,
+      twitterRefreshToken: true,
+      twitterTokenExpiresAt: true,
+      twitterUsername: true,
+      twitterConnectedAt: true,
+    },
+  });
+
+  const isConnected = !!(
+    twitterUser?.twitterAccessToken && twitterUser?.twitterUsername
+  );
+
+  // ALWAYS add onboarding tools so the AI can check status and provide OAuth URL
+  let tools: ToolMap = deferForToolSearch(
+    createTwitterOnboardingTools({
+      userId,
+      isConnected,
+      username: twitterUser?.twitterUsername || undefined,
+      connectedAt: twitterUser?.twitterConnectedAt || undefined,
+      tokenExpiresAt: twitterUser?.twitterTokenExpiresAt || undefined,
+    }),
+  );
+
+  // If connected, also add the full Twitter API tools
+  if (!twitterUser?.twitterAccessToken) return tools;
+
+  // Decrypt the stored token (handles both encrypted and legacy plaintext)
+  let accessToken = safeDecrypt(twitterUser.twitterAccessToken);
+
+  // Check if token is expired or expiring soon (within 5 minutes)
+  const expirationBuffer = 5 * 60 * 1000; // 5 minutes
+  const isExpired =
+    twitterUser.twitterTokenExpiresAt &&
+    new Date(twitterUser.twitterTokenExpiresAt).getTime() <
+      Date.now() + expirationBuffer;
+
+  if (isExpired && twitterUser.twitterRefreshToken) {
+    // Decrypt refresh token before using
+    const decryptedRefreshToken = safeDecrypt(twitterUser.twitterRefreshToken);
+    const refreshResult = await refreshTwitterToken(decryptedRefreshToken);
+
+    if (refreshResult) {
+      // Encrypt new tokens before storing
+      await prisma.user.update({
+        where: { id: userId },
+        data: {
+          twitterAccessToken: encrypt(refreshResult.accessToken),
+          twitterRefreshToken: encrypt(refreshResult.refreshToken),
+          twitterTokenExpiresAt: new Date(
+            Date.now() + refreshResult.expiresIn * 1000,
+          ),
+        },
+      });
+      accessToken = refreshResult.accessToken;
+    } else {
+      accessToken = ""; // Clear to skip adding API tools
+
+      // Add a tool to inform the user their connection is broken
+      tools = {
+        ...tools,
+        ...createTwitterConnectionBrokenTool(userId, "refresh_failed"),
+      };
+    }
+  } else if (isExpired) {
+    accessToken = "";
+
+    // Add a tool to inform the user their connection is broken
+    tools = {
+      ...tools,
+      ...createTwitterConnectionBrokenTool(userId, "no_refresh_token"),
+    };
+  }
+
+  if (accessToken) {
+    tools = {
+      ...tools,
+      ...deferForToolSearch(createTwitterTools(accessToken, billingContext)),
+    };
+  }
+
+  return tools;
+}
+
+/**
+ * Build an agent's tools and the skill system prompts that go with them.
+ * Failures loading one integration are logged and skipped.
+ */
+export async function buildAgentTools(
+  options: AgentToolsOptions,
+): Promise<{ tools: ToolMap; skillPrompts: string }> {
+  const {
+    userId,
+    agentId,
+    baseSystemPrompt,
+    chatId,
+    skills,
+    skillApiKeys = {},
+    toolGroups,
+    billingContext,
+  } = options;
+
+  let tools: ToolMap = {};
+  let skillPrompts = "";
+
+  // Add tool search for dynamic tool discovery (Haiku 4.5+ feature)
+  tools.toolSearch = anthropic.tools.toolSearchBm25_20251119();
+
+  // Add skill tools if any skills are enabled
+  if (skills.length > 0) {
+    // Get server-side configs from environment
+    const serverConfigs = getSkillConfigsFromEnv();
+
+    // Merge with user-provided API keys (user keys take precedence if server not configured)
+    const mergedConfigs: Record<string, { apiKey?: string }> = {};
+    for (const skillId of skills) {
+      const serverConfig = serverConfigs[skillId] || {};
+      mergedConfigs[skillId] = {
+        apiKey: serverConfig.apiKey || skillApiKeys[skillId],
+      };
+    }
+
+    const skillTools = getSkillTools(skills, mergedConfigs);
+
+    if (Object.keys(skillTools).length > 0) {
+      tools = { ...tools, ...deferForToolSearch(skillTools) };
+    } else {
+      console.warn(
+        "[Agent Tools] No skill tools were created. Check if API keys are configured.",
+      );
+    }
+
+    skillPrompts = skillRegistry.getSystemPrompts(skills);
+  }
+
+  // Add tools from enabled tool groups - only add what's explicitly enabled
+  if (toolGroups.length === 0) return { tools, skillPrompts };
+
+  tools = {
+    ...tools,
+    ...deferForToolSearch(getToolsForGroups(toolGroups, billingContext)),
+  };
+
+  // Knowledge tools are created dynamically with userId/agentId context
+  if (toolGroups.includes("knowledge")) {
+    try {
+      tools = {
+        ...tools,
+        ...deferForToolSearch(
+          createKnowledgeTools(userId, agentId, billingContext),
+        ),
+      };
+    } catch (error) {
+      console.error("[Agent Tools] Failed to load Knowledge tools:", error);
+    }
+  }
+
+  // Task tools are created dynamically with userId/agentId/systemPrompt context
+  if (toolGroups.includes("tasks")) {
+    try {
+      const { createTaskTools } = await import("@/lib/tools/tasks");
+      tools = {
+        ...tools,
+        ...deferForToolSearch(
+          createTaskTools(
+            userId,
+            agentId || "",
+            agentId ? baseSystemPrompt : "",
+            chatId,
+          ),
+        ),
+      };
+    } catch (error) {
+      console.error("[Agent Tools] Failed to load Task tools:", error);
+    }
+  }
+
+  if (toolGroups.includes("twitter")) {
+    try {
+      tools = {
+        ...tools,
+        ...(await buildTwitterTools(userId, billingContext)),
+      };
+    } catch (error) {
+      console.error("[Agent Tools] Failed to load Twitter tools:", error);
+    }
+  }
+
+  // Wallet tools require the user's active wallet context for server-side signing
+  if (toolGroups.includes("wallet")) {
+    try {
+      const { createWalletTools } = await import("@/lib/tools/wallet");
+
+      // Resolve user's active wallet from the database
+      const walletUser = await prisma.user.findUnique({
+        where: { id: userId },
+        select: {
+          activeWallet: {
+            select: {
+              id: true,
+              privyWalletId: true,
+              address: true,
+            },
+          },
+        },
+      });
+
+      if (walletUser?.activeWallet) {
+        // NOTE: Write tools (transferSol, transferToken, batchTransferTokens) have
+        // requireApproval: true — the AI SDK will pause execution and send an
+        // approval-requested state to the client before executing them.
+        tools = {
+          ...tools,
+          ...deferForToolSearch(
+            createWalletTools({
+              userId,
+              walletId: walletUser.activeWallet.privyWalletId,
+              walletAddress: walletUser.activeWallet.address,
+              agentId,
+              billingContext,
+            }),
+          ),
+        };
+      } else {
+        console.warn(
+          "[Agent Tools] Wallet tools requested but user has no active wallet.",
+        );
+      }
+    } catch (error) {
+      console.error("[Agent Tools] Failed to load Wallet tools:", error);
+    }
+  }
+
+  return { tools, skillPrompts };
+}
+
+// ── API key allowlists ───────────────────────────────────────────────────────
+
+/** Tool group IDs an API key may be allowed to use */
+export const API_TOOL_GROUP_IDS: string[] = TOOL_GROUPS.map((g) => g.id).filter(
+  (id) => !API_EXCLUDED_TOOL_GROUPS.includes(id),
+);
+
+/**
+ * Validate an `allowedToolGroups` request field.
+ * `undefined` and `null` both mean "no tool groups".
+ */
+export function parseAllowedToolGroups(
+  raw: unknown,
+): { ok: true; value: string[] } | { ok: false; error: string } {
+  if (raw === undefined || raw === null) return { ok: true, value: [] };
+
+  if (!Array.isArray(raw) || raw.some((id) => typeof id !== "string")) {
+    return {
+      ok: false,
+      error: "allowedToolGroups must be an array of strings",
+    };
+  }
+
+  const unknown = raw.filter((id) => !API_TOOL_GROUP_IDS.includes(id));
+  if (unknown.length > 0) {
+    return {
+      ok: false,
+      error: `Tool groups not available to API keys: ${unknown.join(", ")}`,
+    };
+  }
+
+  return { ok: true, value: [...new Set(raw as string[])] };
+}
@@ -16,7 +16,8 @@ import prisma from "@/lib/prisma";
 
 // Use AI Gateway embedding model - routes through AI Gateway with AI_GATEWAY_API_KEY
 // The AI SDK's embed/embedMany expect an EmbeddingModel object, not a raw string.
-const EMBEDDING_MODEL = gateway.embeddingModel("openai/text-embedding-3-large");
+export const EMBEDDING_MODEL_ID = "openai/text-embedding-3-large";
+const EMBEDDING_MODEL = gateway.embeddingModel(EMBEDDING_MODEL_ID);
 const EMBEDDING_DIMENSIONS = 1536;
 const SIMILARITY_THRESHOLD = 0.5;
 const MAX_RESULTS = 4;
@@ -122,6 +123,33 @@ export async function generateEmbedding(value: string): Promise<number[]> {
   return embedding;
 }
 
+/**
+ * Embed a batch of raw values, in order, without chunking.
+ * Used by the public /api/v1/embeddings endpoint — defaults to the same
+ * gateway model as the knowledge base.
+ *
+ * @returns One vector per value plus the input tokens consumed
+ */
+export async function embedValues(
+  values: string[],
+  options: { modelId?: string; dimensions?: number } = {},
+): Promise<{ embeddings: number[][]; tokens: number }> {
+  const model =
+    !options.modelId || options.modelId === EMBEDDING_MODEL_ID
+      ? EMBEDDING_MODEL
+      : gateway.embeddingModel(options.modelId);
+
+  const { embeddings, usage } = await embedMany({
+    model,
+    values,
+    providerOptions: options.dimensions
+      ? { openai: { dimensions: options.dimensions } }
+      : undefined,
+  });
+
+  return { embeddings, tokens: usage.tokens };
+}
+
 /**
  * Create a resource and store its embeddings in the knowledge base.
  * Chunks the content, generates embeddings, and saves everything to the database.
@@ -0,0 +1,128 @@
+/**
+ * Shared authentication for the public /api/v1/* endpoints.
+ *
+ * Requests authenticate either with an `sk-ai_` API key (billed to the key
+ * owner after the work is done) or with an x402 SOL payment that the route's
+ * `withSolPayment` wrapper has already verified. Errors use the OpenAI error
+ * shape so SDK clients surface them unchanged.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { rateLimitByIP, rateLimitByUser } from "@/lib/rateLimit";
+import {
+  prepareApiKeyBilling,
+  type ApiKeyBillingContext,
+} from "@/lib/x402/api-key-billing";
+
+import { validateApiKey, type ApiKeyValidation } from "./validateApiKey";
+
+export type V1AuthResult =
+  | {
+      ok: true;
+      /** Key owner in API-key mode, null for x402 requests */
+      userId: string | null;
+      /** Billing context in API-key mode, null for x402 requests */
+      billing: ApiKeyBillingContext | null;
+      /** The validated key in API-key mode, null for x402 requests */
+      apiKey: ApiKeyValidation | null;
+    }
+  | { ok: false; response: NextResponse };
+
+/**
+ * Build an OpenAI-shaped error response.
+ */
+export function v1ErrorResponse(
+  message: string,
+  type: string,
+  status: number,
+  code?: string,
+): NextResponse {
+  return NextResponse.json(
+    { error: { message, type, ...(code && { code }) } },
+    { status },
+  );
+}
+
+function extractBearerToken(req: NextRequest): string | null {
+  const auth = req.headers.get("authorization");
+  if (!auth?.startsWith("Bearer ")) return null;
+  return auth.slice(7);
+}
+
+function hasX402Payment(req: NextRequest): boolean {
+  return !!(
+    req.headers.get("X-PAYMENT") || req.headers.get("PAYMENT-SIGNATURE")
+  );
+}
+
+/**
+ * True when the request carries an API key, i.e. should bypass the x402
+ * payment wrapper and be billed to the key owner instead.
+ */
+export function isApiKeyRequest(req: NextRequest): boolean {
+  return !!req.headers.get("authorization")?.startsWith("Bearer sk-ai_");
+}
+
+/**
+ * Authenticate a /api/v1 request, run the API-key billing preflight and
+ * apply the per-endpoint rate limit (per user for API keys, per IP for x402).
+ */
+export async function authenticateV1Request(
+  req: NextRequest,
+  rateLimitName: string,
+  rateLimit = 60,
+): Promise<V1AuthResult> {
+  const bearerToken = extractBearerToken(req);
+
+  if (!bearerToken && !hasX402Payment(req)) {
+    return {
+      ok: false,
+      response: v1ErrorResponse(
+        "Missing authentication. Provide an API key via Authorization header or x402 payment via X-PAYMENT header.",
+        "auth_error",
+        401,
+      ),
+    };
+  }
+
+  let userId: string | null = null;
+  let billing: ApiKeyBillingContext | null = null;
+  let apiKey: ApiKeyValidation | null = null;
+
+  if (bearerToken) {
+    const keyResult = await validateApiKey(bearerToken);
+    if (!keyResult.valid) {
+      return {
+        ok: false,
+        response: v1ErrorResponse(
+          keyResult.error,
+          "auth_error",
+          keyResult.status,
+        ),
+      };
+    }
+    userId = keyResult.userId;
+    apiKey = keyResult;
+
+    const preflight = await prepareApiKeyBilling(keyResult);
+    if (!preflight.ok) {
+      return {
+        ok: false,
+        response: v1ErrorResponse(
+          preflight.message,
+          preflight.type,
+          preflight.status,
+          preflight.code,
+        ),
+      };
+    }
+    billing = preflight.context;
+  }
+
+  const rateLimited = userId
+    ? await rateLimitByUser(userId, rateLimitName, rateLimit)
+    : await rateLimitByIP(req, rateLimitName, rateLimit);
+  if (rateLimited) return { ok: false, response: rateLimited };
+
+  return { ok: true, userId, billing, apiKey };
+}
@@ -10,6 +10,10 @@ export interface ApiKeyValidation {
   valid: true;
   keyId: string;
   userId: string;
+  /** Per-key monthly cap in USD (null = no per-key cap) */
+  monthlySpendLimitUsd: number | null;
+  /** Tool groups agents may use over /api/v1/agents (empty = none) */
+  allowedToolGroups: string[];
 }
 
 export interface ApiKeyError {
@@ -42,6 +46,8 @@ export async function validateApiKey(rawKey: string): Promise<ApiKeyResult> {
       userId: true,
       revokedAt: true,
       expiresAt: true,
+      monthlySpendLimitUsd: true,
+      allowedToolGroups: true,
     },
   });
 
@@ -72,5 +78,7 @@ export async function validateApiKey(rawKey: string): Promise<ApiKeyResult> {
     valid: true,
     keyId: apiKey.id,
     userId: apiKey.userId,
+    monthlySpendLimitUsd: apiKey.monthlySpendLimitUsd,
+    allowedToolGroups: apiKey.allowedToolGroups,
   };
 }
@@ -0,0 +1,56 @@
+/**
+ * Chat Persistence Constants
+ *
+ * The chat route saves messages server-side as it streams, folds older turns
+ * into a rolling summary once a chat grows past the context budget, and
+ * buffers each generation's SSE output in Redis so a client that reloads
+ * mid-stream can reattach to it.
+ */
+
+// ── Messages ─────────────────────────────────────────────────────────────────
+
+/** Max characters kept in ChatMessage.content (full parts are stored as-is) */
+export const MAX_MESSAGE_CONTENT_LENGTH = 50000;
+
+/** Auto-generated chat titles are cut from the first user message */
+export const CHAT_TITLE_LENGTH = 50;
+
+// ── Context Management ───────────────────────────────────────────────────────
+
+/** Rough chars-per-token ratio used to estimate message size */
+export const CHARS_PER_TOKEN = 4;
+
+/** Summarize once the unsummarized history exceeds this many tokens */
+export const CONTEXT_TOKEN_THRESHOLD = 24_000;
+
+/** Most recent messages always sent verbatim */
+export const KEEP_RECENT_MESSAGES = 8;
+
+/** Model that writes the rolling summary (cheap, fast) */
+export const SUMMARY_MODEL = "anthropic/claude-haiku-4.5";
+
+/** Max characters in a stored or user-edited summary */
+export const MAX_SUMMARY_LENGTH = 8000;
+
+/** Tool inputs/outputs are truncated to this many chars in summary transcripts */
+export const SUMMARY_TOOL_PREVIEW_LENGTH = 500;
+
+// ── Resumable Streams ────────────────────────────────────────────────────────
+
+/** Redis list holding one generation's SSE chunks */
+export const STREAM_KEY_PREFIX = "chat-stream:";
+
+/** Pushed after the last chunk so readers know the generation ended */
+export const STREAM_DONE_MARKER = "[chat-stream-done]";
+
+/** Buffered streams outlive the longest generation (chat maxDuration is 300s) */
+export const STREAM_TTL_SECONDS = 15 * 60;
+
+/** Writer flushes at least this often while chunks are arriving */
+export const STREAM_FLUSH_INTERVAL_MS = 150;
+
+/** Reader polls Redis this often for new chunks */
+export const STREAM_POLL_INTERVAL_MS = 300;
+
+/** Reader gives up after this long without new chunks */
+export const STREAM_IDLE_TIMEOUT_MS = 60_000;
@@ -0,0 +1,246 @@
+/**
+ * Chat Context Management
+ *
+ * Keeps long chats inside the model's context budget. Once the messages not
+ * yet covered by the chat's rolling summary exceed CONTEXT_TOKEN_THRESHOLD,
+ * the older ones are folded into the summary (stored on the Chat) and only
+ * the recent turns are sent verbatim. Messages with a pending tool approval
+ * are never folded, so the approval flow still sees its tool call.
+ */
+
+import {
+  generateText,
+  getToolOrDynamicToolName,
+  isToolOrDynamicToolUIPart,
+  type UIMessage,
+} from "ai";
+import prisma from "@/lib/prisma";
+import type { BillingContext } from "@/lib/x402";
+
+import {
+  CHARS_PER_TOKEN,
+  CONTEXT_TOKEN_THRESHOLD,
+  KEEP_RECENT_MESSAGES,
+  MAX_SUMMARY_LENGTH,
+  SUMMARY_MODEL,
+  SUMMARY_TOOL_PREVIEW_LENGTH,
+} from "./constants";
+
+/** Flat estimate for images and other files (their URLs can be data URLs) */
+const FILE_PART_TOKENS = 1000;
+
+export interface ChatContext {
+  /** Messages to send to the model (the summarized ones are dropped) */
+  messages: UIMessage[];
+  /** Rolling summary to include in the system prompt, if any */
+  summary: string | null;
+  /** Estimated input tokens kept out of each model call by the summary */
+  tokensSaved: number;
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimate how many tokens a message adds to the model context.
+ */
+export function estimateMessageTokens(message: UIMessage): number {
+  let tokens = 0;
+  for (const part of message.parts) {
+    tokens +=
+      part.type === "file"
+        ? FILE_PART_TOKENS
+        : estimateTokens(JSON.stringify(part));
+  }
+  return tokens;
+}
+
+function hasPendingApproval(message: UIMessage): boolean {
+  return message.parts.some(
+    (part) =>
+      isToolOrDynamicToolUIPart(part) &&
+      (part.state === "approval-requested" ||
+        part.state === "approval-responded"),
+  );
+}
+
+function preview(value: unknown): string {
+  const text = typeof value === "string" ? value : JSON.stringify(value ?? "");
+  return text.length > SUMMARY_TOOL_PREVIEW_LENGTH
+    ? `${text.slice(0, SUMMARY_TOOL_PREVIEW_LENGTH)}...`
+    : text;
+}
+
+/**
+ * Render messages as a plain transcript for the summarizer. Tool calls are
+ * kept (truncated) since their results are often what later turns rely on.
+ */
+function toTranscript(messages: UIMessage[]): string {
+  return messages
+    .map((message) => {
+      const lines: string[] = [];
+      for (const part of message.parts) {
+        if (part.type === "text" && part.text.trim()) {
+          lines.push(part.text);
+        } else if (part.type === "file") {
+          lines.push(`[attached file: ${part.filename ?? part.mediaType}]`);
+        } else if (isToolOrDynamicToolUIPart(part)) {
+          const name = getToolOrDynamicToolName(part);
+          const output =
+            part.state === "output-available"
+              ? ` → ${preview(part.output)}`
+              : part.state === "output-error"
+                ? ` → error: ${preview(part.errorText)}`
+                : "";
+          lines.push(`[tool ${name}(${preview(part.input)})${output}]`);
+        }
+      }
+      return lines.length > 0
+        ? `${message.role.toUpperCase()}: ${lines.join("\n")}`
+        : "";
+    })
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * Fold messages into the existing summary with a cheap model, billing the
+ * call like any other inference.
+ */
+async function summarizeMessages(
+  previousSummary: string | null,
+  messages: UIMessage[],
+  billingContext?: BillingContext,
+): Promise<string> {
+  const result = await generateText({
+    model: SUMMARY_MODEL,
+    system: `You maintain the running summary of a conversation between a user and an AI agent. The summary replaces the summarized messages in the agent's context, so keep everything the agent may need later: the user's goals and preferences, decisions made, facts and numbers established, tool actions taken and their results (addresses, transaction signatures, IDs), and open questions. Be concise and factual. Write in the third person ("The user asked..."). Output only the summary, under ${Math.floor(MAX_SUMMARY_LENGTH / 6)} words.`,
+    prompt: `${previousSummary ? `Current summary:\n${previousSummary}\n\n` : ""}New messages to fold into the summary:\n\n${toTranscript(messages)}`,
+  });
+
+  if (billingContext) {
+    const { calculateCost } = await import("@/lib/x402/ai-gateway-cost");
+    const cost = await calculateCost(SUMMARY_MODEL, {
+      inputTokens: result.usage.inputTokens,
+      outputTokens: result.usage.outputTokens,
+    });
+    if (cost && cost.totalWithFee > 0) {
+      billingContext
+        .chargeUsage(
+          cost.totalWithFee,
+          `Chat summary [${SUMMARY_MODEL}] - ${result.usage.totalTokens || 0} tokens`,
+          {
+            model: SUMMARY_MODEL,
+            inputTokens: result.usage.inputTokens,
+            outputTokens: result.usage.outputTokens,
+          },
+        )
+        .catch((error) => {
+          console.error("[Chat Context] Summary billing error:", error);
+        });
+    }
+  }
+
+  return result.text.trim().slice(0, MAX_SUMMARY_LENGTH);
+}
+
+/**
+ * Decide what a chat request sends to the model: applies the stored summary,
+ * and extends it when the remaining history is over budget.
+ *
+ * A summary is only applied when the message it runs through is still in the
+ * request — if the client's history diverged (e.g. messages were cleared),
+ * the full history is sent instead. Summarization failures fall back to the
+ * unsummarized history.
+ */
+export async function prepareChatContext(options: {
+  chatId: string;
+  messages: UIMessage[];
+  billingContext?: BillingContext;
+}): Promise<ChatContext> {
+  const { chatId, messages, billingContext } = options;
+
+  const [chat, stored] = await Promise.all([
+    prisma.chat.findUnique({
+      where: { id: chatId },
+      select: { summary: true, summaryThroughMessageId: true },
+    }),
+    prisma.chatMessage.findMany({
+      where: { chatId, tokenCount: { not: null } },
+      select: { id: true, tokenCount: true },
+    }),
+  ]);
+
+  // Prefer the counts saved with each message; estimate the rest
+  const storedCounts = new Map(stored.map((m) => [m.id, m.tokenCount ?? 0]));
+  const tokensOf = (message: UIMessage) =>
+    storedCounts.get(message.id) ?? estimateMessageTokens(message);
+  const sumTokens = (list: UIMessage[]) =>
+    list.reduce((sum, message) => sum + tokensOf(message), 0);
+
+  let summary: string | null = null;
+  let start = 0;
+  if (chat?.summary && chat.summaryThroughMessageId) {
+    const throughIndex = messages.findIndex(
+      (m) => m.id === chat.summaryThroughMessageId,
+    );
+    if (throughIndex >= 0) {
+      summary = chat.summary;
+      start = throughIndex + 1;
+    }
+  }
+
+  const recent = messages.slice(start);
+  if (
+    sumTokens(recent) > CONTEXT_TOKEN_THRESHOLD &&
+    recent.length > KEEP_RECENT_MESSAGES
+  ) {
+    let split = recent.length - KEEP_RECENT_MESSAGES;
+    const pendingIndex = recent.findIndex(hasPendingApproval);
+    if (pendingIndex >= 0) split = Math.min(split, pendingIndex);
+    // Keep whole turns: the verbatim part starts at a user message
+    while (split > 0 && recent[split].role !== "user") split--;
+
+    if (split > 0) {
+      const folded = recent.slice(0, split);
+      try {
+        summary = await summarizeMessages(summary, folded, billingContext);
+        start += split;
+        await prisma.chat.update({
+          where: { id: chatId },
+          data: {
+            summary,
+            summaryTokenCount: estimateTokens(summary),
+            summaryThroughMessageId: folded[folded.length - 1].id,
+            summaryUpdatedAt: new Date(),
+          },
+        });
+      } catch (error) {
+        console.error("[Chat Context] Summarization failed:", error);
+      }
+    }
+  }
+
+  const tokensSaved = summary
+    ? Math.max(0, sumTokens(messages.slice(0, start)) - estimateTokens(summary))
+    : 0;
+
+  return { messages: messages.slice(start), summary, tokensSaved };
+}
+
+/**
+ * Add the rolling summary to the system prompt.
+ */
+export function appendConversationSummary(
+  systemPrompt: string,
+  summary: string | null,
+): string {
+  if (!summary) return systemPrompt;
+  return `${systemPrompt}
+
+## Earlier Conversation (summary)
+The earlier part of this conversation is summarized below; the messages that follow continue from it.
+
+${summary}`;
+}
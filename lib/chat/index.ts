@@ -0,0 +1,41 @@
+export {
+  MAX_MESSAGE_CONTENT_LENGTH,
+  CHAT_TITLE_LENGTH,
+  CHARS_PER_TOKEN,
+  CONTEXT_TOKEN_THRESHOLD,
+  KEEP_RECENT_MESSAGES,
+  SUMMARY_MODEL,
+  MAX_SUMMARY_LENGTH,
+  SUMMARY_TOOL_PREVIEW_LENGTH,
+  STREAM_KEY_PREFIX,
+  STREAM_DONE_MARKER,
+  STREAM_TTL_SECONDS,
+  STREAM_FLUSH_INTERVAL_MS,
+  STREAM_POLL_INTERVAL_MS,
+  STREAM_IDLE_TIMEOUT_MS,
+} from "./constants";
+
+export {
+  getMessageText,
+  saveUserMessage,
+  saveAssistantMessage,
+  deleteMessagesAfter,
+  setActiveStream,
+  clearActiveStream,
+} from "./messages";
+
+export {
+  estimateTokens,
+  estimateMessageTokens,
+  prepareChatContext,
+  appendConversationSummary,
+  type ChatContext,
+} from "./context";
+
+export {
+  isResumableStreamEnabled,
+  createStreamId,
+  bufferChatStream,
+  hasBufferedStream,
+  createResumedChatStream,
+} from "./resumable-stream";
@@ -0,0 +1,161 @@
+/**
+ * Server-side Chat Message Persistence
+ *
+ * The chat route saves the user's message before generating and the
+ * assistant's final parts when the stream finishes, so a reply (and any tool
+ * results) survives the tab closing mid-stream. Message IDs are the UI
+ * message IDs, which keeps saves idempotent and lets tool-approval
+ * continuations update the assistant message they extend.
+ */
+
+import type { UIMessage } from "ai";
+import prisma from "@/lib/prisma";
+
+import { CHAT_TITLE_LENGTH, MAX_MESSAGE_CONTENT_LENGTH } from "./constants";
+import { estimateMessageTokens } from "./context";
+
+/**
+ * Plain-text content of a UI message (text parts joined).
+ */
+export function getMessageText(message: UIMessage): string {
+  return message.parts
+    .map((part) => (part.type === "text" ? part.text : ""))
+    .filter(Boolean)
+    .join("\n")
+    .slice(0, MAX_MESSAGE_CONTENT_LENGTH);
+}
+
+/**
+ * Save the user's message when a generation starts. Sets the chat title
+ * from it when the chat has none.
+ */
+export async function saveUserMessage(
+  chatId: string,
+  message: UIMessage,
+): Promise<void> {
+  const content = getMessageText(message);
+
+  await prisma.chatMessage.createMany({
+    data: [
+      {
+        ...(message.id && { id: message.id }),
+        chatId,
+        role: "user",
+        content,
+        parts: message.parts as object[],
+        tokenCount: estimateMessageTokens(message),
+      },
+    ],
+    skipDuplicates: true,
+  });
+
+  const chat = await prisma.chat.findUnique({
+    where: { id: chatId },
+    select: { title: true },
+  });
+
+  const autoTitle = content
+    .slice(0, CHAT_TITLE_LENGTH)
+    .replace(/\n/g, " ")
+    .trim();
+
+  await prisma.chat.update({
+    where: { id: chatId },
+    data: {
+      updatedAt: new Date(),
+      ...(!chat?.title &&
+        autoTitle && {
+          title: autoTitle + (content.length > CHAT_TITLE_LENGTH ? "..." : ""),
+        }),
+    },
+  });
+}
+
+/**
+ * Save (or, for a continuation, update) the assistant's reply. Only a
+ * message already in this chat is updated.
+ */
+export async function saveAssistantMessage(
+  chatId: string,
+  message: UIMessage,
+): Promise<void> {
+  const content = getMessageText(message);
+  const parts = message.parts as object[];
+  const tokenCount = estimateMessageTokens(message);
+
+  // Scoped to the chat — continuation IDs come from the client, so an ID
+  // belonging to another chat must never be overwritten
+  const { count } = await prisma.chatMessage.updateMany({
+    where: { id: message.id, chatId, role: "assistant" },
+    data: { content, parts, tokenCount },
+  });
+
+  if (count === 0) {
+    // skipDuplicates leaves an ID already taken elsewhere untouched
+    await prisma.chatMessage.createMany({
+      data: [
+        {
+          id: message.id,
+          chatId,
+          role: "assistant",
+          content,
+          parts,
+          tokenCount,
+        },
+      ],
+      skipDuplicates: true,
+    });
+  }
+
+  await prisma.chat.update({
+    where: { id: chatId },
+    data: { updatedAt: new Date() },
+  });
+}
+
+/**
+ * Delete messages saved after the given one — used when a reply is
+ * regenerated so the replaced reply doesn't linger in history.
+ */
+export async function deleteMessagesAfter(
+  chatId: string,
+  messageId: string,
+): Promise<void> {
+  const anchor = await prisma.chatMessage.findFirst({
+    where: { id: messageId, chatId },
+    select: { createdAt: true },
+  });
+  if (!anchor) return;
+
+  await prisma.chatMessage.deleteMany({
+    where: { chatId, createdAt: { gt: anchor.createdAt } },
+  });
+}
+
+// ── Active stream ────────────────────────────────────────────────────────────
+
+/**
+ * Record the generation currently streaming into a chat.
+ */
+export async function setActiveStream(
+  chatId: string,
+  streamId: string,
+): Promise<void> {
+  await prisma.chat.update({
+    where: { id: chatId },
+    data: { activeStreamId: streamId },
+  });
+}
+
+/**
+ * Clear the chat's active stream, unless a newer generation replaced it.
+ */
+export async function clearActiveStream(
+  chatId: string,
+  streamId: string,
+): Promise<void> {
+  await prisma.chat.updateMany({
+    where: { id: chatId, activeStreamId: streamId },
+    data: { activeStreamId: null },
+  });
+}
@@ -0,0 +1,135 @@
+/**
+ * Resumable Chat Streams
+ *
+ * The chat route tees its UI message SSE stream into a Redis list as it is
+ * generated. A client that reloads mid-generation reads the list back from
+ * the start and keeps polling until the writer pushes the done marker, so
+ * the reply picks up where the page left off.
+ */
+
+import { nanoid } from "nanoid";
+import { getRedis, isRedisConfigured } from "@/lib/redis";
+
+import {
+  STREAM_DONE_MARKER,
+  STREAM_FLUSH_INTERVAL_MS,
+  STREAM_IDLE_TIMEOUT_MS,
+  STREAM_KEY_PREFIX,
+  STREAM_POLL_INTERVAL_MS,
+  STREAM_TTL_SECONDS,
+} from "./constants";
+
+/** Streams can only be resumed when Redis is configured */
+export function isResumableStreamEnabled(): boolean {
+  return isRedisConfigured();
+}
+
+export function createStreamId(): string {
+  return nanoid(24);
+}
+
+/**
+ * Copy an SSE stream into Redis, batching chunks every
+ * STREAM_FLUSH_INTERVAL_MS. Resolves once the stream ends and the done
+ * marker is written. Redis failures are logged and never interrupt the read,
+ * so the generation still runs to completion.
+ */
+export async function bufferChatStream(
+  streamId: string,
+  stream: ReadableStream<string>,
+): Promise<void> {
+  const redis = getRedis();
+  const key = `${STREAM_KEY_PREFIX}${streamId}`;
+
+  let pending: string[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  // Writes are chained so chunks land in order
+  let writes: Promise<void> = Promise.resolve();
+
+  const flush = () => {
+    timer = null;
+    if (pending.length === 0) return;
+    const chunks = pending;
+    pending = [];
+    writes = writes.then(async () => {
+      try {
+        await redis
+          .pipeline()
+          .rpush(key, ...chunks)
+          .expire(key, STREAM_TTL_SECONDS)
+          .exec();
+      } catch (error) {
+        console.warn(`[Chat Stream] Buffer write failed for ${key}:`, error);
+      }
+    });
+  };
+
+  const reader = stream.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      pending.push(value);
+      if (!timer) timer = setTimeout(flush, STREAM_FLUSH_INTERVAL_MS);
+    }
+  } catch (error) {
+    console.error("[Chat Stream] Failed reading stream:", error);
+  } finally {
+    if (timer) clearTimeout(timer);
+    pending.push(STREAM_DONE_MARKER);
+    flush();
+    await writes;
+  }
+}
+
+/**
+ * Whether a buffered stream still exists (not expired or never started).
+ */
+export async function hasBufferedStream(streamId: string): Promise<boolean> {
+  const exists = await getRedis().exists(`${STREAM_KEY_PREFIX}${streamId}`);
+  return exists > 0;
+}
+
+/**
+ * Replay a buffered stream from its first chunk, then follow it until the
+ * done marker (or STREAM_IDLE_TIMEOUT_MS without new chunks).
+ */
+export function createResumedChatStream(
+  streamId: string,
+): ReadableStream<string> {
+  const redis = getRedis();
+  const key = `${STREAM_KEY_PREFIX}${streamId}`;
+
+  let cursor = 0;
+  let lastChunkAt = Date.now();
+
+  return new ReadableStream<string>({
+    async pull(controller) {
+      while (true) {
+        const chunks = await redis.lrange<string>(key, cursor, -1);
+
+        if (chunks.length > 0) {
+          cursor += chunks.length;
+          lastChunkAt = Date.now();
+          for (const chunk of chunks) {
+            if (chunk === STREAM_DONE_MARKER) {
+              controller.close();
+              return;
+            }
+            controller.enqueue(chunk);
+          }
+          return;
+        }
+
+        if (Date.now() - lastChunkAt > STREAM_IDLE_TIMEOUT_MS) {
+          controller.close();
+          return;
+        }
+
+        await new Promise((resolve) =>
+          setTimeout(resolve, STREAM_POLL_INTERVAL_MS),
+        );
+      }
+    },
+  });
+}
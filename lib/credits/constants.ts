@@ -0,0 +1,64 @@
+/**
+ * Prepaid Credits Constants
+ *
+ * Configuration for the off-chain credits ledger. Users hold a prepaid SOL
+ * balance in the treasury; usage is debited in the database and recognized
+ * as revenue in batches by the settle-credits cron.
+ */
+
+// ── Top-up ───────────────────────────────────────────────────────────────────
+
+/**
+ * When a charge exceeds the prepaid balance, the wallet is topped up by at
+ * least this much USD so the next several charges settle off-chain.
+ */
+export const CREDIT_AUTO_TOPUP_USD = 1.0;
+
+/** Minimum manual deposit (SOL) */
+export const MIN_DEPOSIT_SOL = 0.001;
+
+/** Maximum manual deposit (SOL) */
+export const MAX_DEPOSIT_SOL = 100;
+
+// ── Settlement ───────────────────────────────────────────────────────────────
+
+/** Max ledger entries claimed by a single settlement batch */
+export const MAX_ENTRIES_PER_SETTLEMENT = 5_000;
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type CreditEntryType = "deposit" | "usage";
+
+export interface CreditUsageMetadata {
+  model?: string;
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+export interface CreditDebitResult {
+  success: boolean;
+  /** Ledger entry created for the debit (only on success) */
+  entryId?: string;
+  /** Balance after the debit, or the current balance when insufficient */
+  balanceLamports: bigint;
+  /** True only when the balance can't cover the debit (not on DB errors) */
+  insufficient?: boolean;
+  error?: string;
+}
+
+export interface CreditDepositResult {
+  success: boolean;
+  entryId?: string;
+  balanceLamports: bigint;
+  txSignature?: string;
+  error?: string;
+}
+
+export interface SettlementResult {
+  success: boolean;
+  settlementId?: string;
+  entryCount: number;
+  userCount: number;
+  grossLamports: bigint;
+  error?: string;
+}
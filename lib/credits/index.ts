@@ -0,0 +1,19 @@
+export {
+  CREDIT_AUTO_TOPUP_USD,
+  MIN_DEPOSIT_SOL,
+  MAX_DEPOSIT_SOL,
+  MAX_ENTRIES_PER_SETTLEMENT,
+  type CreditEntryType,
+  type CreditUsageMetadata,
+  type CreditDebitResult,
+  type CreditDepositResult,
+  type SettlementResult,
+} from "./constants";
+
+export {
+  getCreditBalance,
+  depositCredits,
+  debitCredits,
+  getCreditHistory,
+} from "./ledger";
+export { settleCredits } from "./settlement";
@@ -0,0 +1,226 @@
+/**
+ * Credits Ledger
+ *
+ * Atomic balance operations on a user's prepaid credit account.
+ * Every balance change writes an append-only CreditLedgerEntry in the
+ * same transaction, so the ledger always reconciles with the balance.
+ *
+ * Debits never touch the chain — the SOL was already moved to the treasury
+ * when the credits were deposited.
+ */
+
+import prisma from "@/lib/prisma";
+
+import type {
+  CreditDebitResult,
+  CreditDepositResult,
+  CreditUsageMetadata,
+} from "./constants";
+
+/**
+ * Get the current prepaid balance for a user (0 if no account exists yet).
+ */
+export async function getCreditBalance(userId: string): Promise<bigint> {
+  const account = await prisma.creditAccount.findUnique({
+    where: { userId },
+    select: { balanceLamports: true },
+  });
+  return account?.balanceLamports ?? BigInt(0);
+}
+
+/**
+ * Credit a deposit to the user's account, creating the account on first use.
+ *
+ * Idempotent per txSignature: a transfer that was already credited returns
+ * its existing entry, so a retry can never credit the same SOL twice.
+ *
+ * @param userId - Privy user ID
+ * @param lamports - Amount deposited (must already be in the treasury)
+ * @param options - Deposit details recorded on the ledger entry
+ */
+export async function depositCredits(
+  userId: string,
+  lamports: bigint,
+  options: { txSignature?: string; usdAmount?: number; description?: string },
+): Promise<CreditDepositResult> {
+  if (lamports <= BigInt(0)) {
+    return {
+      success: false,
+      balanceLamports: BigInt(0),
+      error: "Deposit must be positive",
+    };
+  }
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      if (options.txSignature) {
+        const existing = await tx.creditLedgerEntry.findFirst({
+          where: { userId, type: "deposit", txSignature: options.txSignature },
+          select: { id: true },
+        });
+        if (existing) {
+          const account = await tx.creditAccount.findUnique({
+            where: { userId },
+            select: { balanceLamports: true },
+          });
+          return {
+            success: true,
+            entryId: existing.id,
+            balanceLamports: account?.balanceLamports ?? BigInt(0),
+            txSignature: options.txSignature,
+          };
+        }
+      }
+
+      const account = await tx.creditAccount.upsert({
+        where: { userId },
+        create: {
+          userId,
+          balanceLamports: lamports,
+          totalDepositedLamports: lamports,
+        },
+        update: {
+          balanceLamports: { increment: lamports },
+          totalDepositedLamports: { increment: lamports },
+        },
+        select: { id: true, balanceLamports: true },
+      });
+
+      const entry = await tx.creditLedgerEntry.create({
+        data: {
+          accountId: account.id,
+          userId,
+          type: "deposit",
+          amountLamports: lamports,
+          balanceAfterLamports: account.balanceLamports,
+          usdAmount: options.usdAmount,
+          description: (options.description ?? "Credit deposit").slice(0, 500),
+          txSignature: options.txSignature,
+        },
+        select: { id: true },
+      });
+
+      return {
+        success: true,
+        entryId: entry.id,
+        balanceLamports: account.balanceLamports,
+        txSignature: options.txSignature,
+      };
+    });
+  } catch (error) {
+    console.error("[Credits] Deposit failed:", error);
+    return {
+      success: false,
+      balanceLamports: BigInt(0),
+      txSignature: options.txSignature,
+      error: error instanceof Error ? error.message : "Deposit failed",
+    };
+  }
+}
+
+/**
+ * Debit usage from the user's prepaid balance.
+ *
+ * The conditional `updateMany` (balance >= amount) makes the check-and-debit
+ * a single atomic statement, so concurrent charges can never overdraw.
+ *
+ * @returns success=false with insufficient=true and the current balance when
+ * funds are insufficient; any other failure leaves insufficient unset
+ */
+export async function debitCredits(
+  userId: string,
+  lamports: bigint,
+  usdAmount: number,
+  description: string,
+  metadata?: CreditUsageMetadata,
+): Promise<CreditDebitResult> {
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const updated = await tx.creditAccount.updateMany({
+        where: { userId, balanceLamports: { gte: lamports } },
+        data: {
+          balanceLamports: { decrement: lamports },
+          totalSpentLamports: { increment: lamports },
+        },
+      });
+
+      const account = await tx.creditAccount.findUnique({
+        where: { userId },
+        select: { id: true, balanceLamports: true },
+      });
+
+      if (updated.count === 0 || !account) {
+        return {
+          success: false,
+          balanceLamports: account?.balanceLamports ?? BigInt(0),
+          insufficient: true,
+          error: "Insufficient credit balance",
+        };
+      }
+
+      const entry = await tx.creditLedgerEntry.create({
+        data: {
+          accountId: account.id,
+          userId,
+          type: "usage",
+          amountLamports: -lamports,
+          balanceAfterLamports: account.balanceLamports,
+          usdAmount,
+          description: description.slice(0, 500),
+          metadata: metadata ? { ...metadata } : undefined,
+        },
+        select: { id: true },
+      });
+
+      return {
+        success: true,
+        entryId: entry.id,
+        balanceLamports: account.balanceLamports,
+      };
+    });
+  } catch (error) {
+    console.error("[Credits] Debit failed:", error);
+    return {
+      success: false,
+      balanceLamports: BigInt(0),
+      error: error instanceof Error ? error.message : "Debit failed",
+    };
+  }
+}
+
+/**
+ * Paginated ledger history for a user, newest first.
+ */
+export async function getCreditHistory(
+  userId: string,
+  options: { limit: number; offset: number; type?: string },
+) {
+  const where = {
+    userId,
+    ...(options.type && { type: options.type }),
+  };
+
+  const [entries, total] = await Promise.all([
+    prisma.creditLedgerEntry.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+      take: options.limit,
+      skip: options.offset,
+      select: {
+        id: true,
+        type: true,
+        amountLamports: true,
+        balanceAfterLamports: true,
+        usdAmount: true,
+        description: true,
+        txSignature: true,
+        metadata: true,
+        settlementId: true,
+        createdAt: true,
+      },
+    }),
+    prisma.creditLedgerEntry.count({ where }),
+  ]);
+
+  return { entries, total };
+}
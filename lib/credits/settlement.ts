@@ -0,0 +1,126 @@
+/**
+ * Credits Settlement
+ *
+ * Recognizes off-chain usage debits as platform revenue in batches.
+ * Runs from the settle-credits cron — never from the payment hot path.
+ *
+ * Each run claims unsettled usage entries by stamping them with a new
+ * settlementId (a conditional updateMany, so overlapping runs can never
+ * claim the same entry twice), marks the settlement completed, and only
+ * then logs one revenue event per user. A failed run releases its claim,
+ * so revenue is never logged for entries that could be claimed again.
+ */
+
+import prisma from "@/lib/prisma";
+import { logPaymentRevenue } from "@/lib/revenue/events";
+import { PLATFORM_FEE_RATE } from "@/lib/revenue/constants";
+
+import { MAX_ENTRIES_PER_SETTLEMENT, type SettlementResult } from "./constants";
+
+/**
+ * Execute a single settlement batch.
+ */
+export async function settleCredits(): Promise<SettlementResult> {
+  const empty: SettlementResult = {
+    success: true,
+    entryCount: 0,
+    userCount: 0,
+    grossLamports: BigInt(0),
+  };
+
+  const candidates = await prisma.creditLedgerEntry.findMany({
+    where: { type: "usage", settlementId: null },
+    orderBy: { createdAt: "asc" },
+    take: MAX_ENTRIES_PER_SETTLEMENT,
+    select: { id: true },
+  });
+
+  if (candidates.length === 0) return empty;
+
+  const settlement = await prisma.creditSettlement.create({
+    data: { status: "pending" },
+    select: { id: true },
+  });
+
+  const perUser = new Map<string, bigint>();
+  let entryCount = 0;
+  let grossLamports = BigInt(0);
+
+  try {
+    // Claim — entries already taken by a concurrent run are skipped
+    await prisma.creditLedgerEntry.updateMany({
+      where: {
+        id: { in: candidates.map((c) => c.id) },
+        settlementId: null,
+      },
+      data: { settlementId: settlement.id },
+    });
+
+    const claimed = await prisma.creditLedgerEntry.findMany({
+      where: { settlementId: settlement.id },
+      select: { userId: true, amountLamports: true },
+    });
+
+    // Usage entries are stored as negative amounts
+    for (const entry of claimed) {
+      perUser.set(
+        entry.userId,
+        (perUser.get(entry.userId) ?? BigInt(0)) - entry.amountLamports,
+      );
+    }
+
+    entryCount = claimed.length;
+    for (const userGross of perUser.values()) grossLamports += userGross;
+
+    await prisma.creditSettlement.update({
+      where: { id: settlement.id },
+      data: {
+        status: "completed",
+        entryCount,
+        userCount: perUser.size,
+        grossLamports,
+      },
+    });
+  } catch (error) {
+    console.error("[Credits] Settlement failed:", error);
+
+    // Release the claim so the next run picks these entries up again
+    await prisma.creditLedgerEntry
+      .updateMany({
+        where: { settlementId: settlement.id },
+        data: { settlementId: null },
+      })
+      .catch(() => {});
+    await prisma.creditSettlement
+      .update({ where: { id: settlement.id }, data: { status: "failed" } })
+      .catch(() => {});
+
+    return {
+      ...empty,
+      success: false,
+      settlementId: settlement.id,
+      error: error instanceof Error ? error.message : "Settlement failed",
+    };
+  }
+
+  // The claim is final — these entries can't be released or claimed again
+  for (const [userId, userGross] of perUser) {
+    if (userGross <= BigInt(0)) continue;
+
+    const gross = Number(userGross);
+    await logPaymentRevenue({
+      type: "usage_based",
+      grossLamports: gross,
+      costLamports: Math.floor(gross / (1 + PLATFORM_FEE_RATE)),
+      userId,
+    });
+  }
+
+  return {
+    success: true,
+    settlementId: settlement.id,
+    entryCount,
+    userCount: perUser.size,
+    grossLamports,
+  };
+}
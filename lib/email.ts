@@ -17,11 +17,18 @@ interface SendEmailParams {
   html: string;
 }
 
-/** Fire-and-forget email. Logs errors but never throws. */
-export async function sendEmail({ to, subject, html }: SendEmailParams) {
+/**
+ * Fire-and-forget email. Logs errors but never throws; resolves to whether
+ * Resend accepted the email, for callers that record delivery.
+ */
+export async function sendEmail({
+  to,
+  subject,
+  html,
+}: SendEmailParams): Promise<boolean> {
   if (!resend) {
     console.warn("[Email] RESEND_API_KEY not set — skipping email");
-    return;
+    return false;
   }
 
   try {
@@ -33,9 +40,12 @@ export async function sendEmail({ to, subject, html }: SendEmailParams) {
     });
     if (error) {
       console.error("[Email] Resend API error:", error);
+      return false;
     }
+    return true;
   } catch (err) {
     console.error("[Email] Failed to send:", err);
+    return false;
   }
 }
 
@@ -419,23 +429,108 @@ export function taskApprovedEmail(params: TaskApprovedEmailParams) {
   };
 }
 
+// ── Milestone Submitted Email (→ poster) ─────────────────────────────
+
+interface MilestoneEmailParams extends TaskEmailParams {
+  milestoneTitle: string;
+  milestoneAmountSol: number;
+}
+
+export function milestoneSubmittedEmail(params: MilestoneEmailParams) {
+  const { taskTitle, taskId, milestoneTitle, milestoneAmountSol } = params;
+  const taskUrl = `https://agentinc.fun/dashboard/marketplace/tasks/${taskId}`;
+  const body = `
+    <div style="margin:0 0 20px;display:inline-block;background:rgba(111,236,6,0.1);border:1px solid rgba(111,236,6,0.2);border-radius:8px;padding:6px 14px;">
+      <span style="font-size:12px;font-weight:600;color:${GREEN};letter-spacing:0.5px;text-transform:uppercase;">Milestone Ready</span>
+    </div>
+    <h2 style="margin:0 0 12px;font-size:22px;font-weight:700;color:#ffffff;letter-spacing:-0.3px;">A milestone was submitted</h2>
+    <p style="margin:0 0 24px;font-size:14px;line-height:1.7;color:rgba(255,255,255,0.5);">
+      The worker has submitted a milestone for your review. Approve it to release its ${formatSol(milestoneAmountSol)} SOL from escrow, or reject it with a reason so they can rework it.
+    </p>
+    ${featuredImageBlock(params.featuredImage)}
+    <div style="background:${SURFACE_LIGHT};border:1px solid rgba(111,236,6,0.12);border-radius:12px;padding:20px 24px;margin-bottom:20px;">
+      <p style="margin:0 0 6px;font-size:16px;font-weight:600;color:#ffffff;letter-spacing:-0.2px;">${escapeHtml(milestoneTitle)}</p>
+      <p style="margin:0;font-size:13px;color:rgba(255,255,255,0.4);">${escapeHtml(taskTitle)}</p>
+    </div>
+    <a href="${taskUrl}" style="display:inline-block;background:${GREEN};color:#000104;font-size:14px;font-weight:700;text-decoration:none;padding:12px 28px;border-radius:10px;letter-spacing:-0.2px;">
+      Review Milestone &rarr;
+    </a>`;
+  return {
+    subject: `Milestone ready: ${milestoneTitle}`,
+    html: emailLayout(body),
+  };
+}
+
+// ── Milestone Reviewed Email (→ worker) ──────────────────────────────
+
+interface MilestoneReviewedEmailParams extends MilestoneEmailParams {
+  approved: boolean;
+  rejectionReason?: string;
+}
+
+export function milestoneReviewedEmail(params: MilestoneReviewedEmailParams) {
+  const { taskTitle, taskId, milestoneTitle, milestoneAmountSol, approved } =
+    params;
+  const taskUrl = `https://agentinc.fun/dashboard/marketplace/tasks/${taskId}`;
+  const AMBER = "#f59e0b";
+  const reason = params.rejectionReason ?? "";
+  const badge = approved
+    ? `<div style="margin:0 0 20px;display:inline-block;background:rgba(111,236,6,0.1);border:1px solid rgba(111,236,6,0.2);border-radius:8px;padding:6px 14px;">
+      <span style="font-size:12px;font-weight:600;color:${GREEN};letter-spacing:0.5px;text-transform:uppercase;">Milestone Paid</span>
+    </div>`
+    : `<div style="margin:0 0 20px;display:inline-block;background:rgba(245,158,11,0.1);border:1px solid rgba(245,158,11,0.2);border-radius:8px;padding:6px 14px;">
+      <span style="font-size:12px;font-weight:600;color:${AMBER};letter-spacing:0.5px;text-transform:uppercase;">Changes Requested</span>
+    </div>`;
+  const reasonBlock = approved
+    ? ""
+    : `<div style="border-top:1px solid rgba(245,158,11,0.15);padding-top:14px;margin-top:14px;">
+        <p style="margin:0 0 6px;font-size:11px;font-weight:600;color:${AMBER};letter-spacing:0.5px;text-transform:uppercase;">Reason</p>
+        <p style="margin:0;font-size:13px;line-height:1.6;color:rgba(255,255,255,0.5);">${escapeHtml(reason.slice(0, 500))}${reason.length > 500 ? "..." : ""}</p>
+      </div>`;
+  const body = `
+    ${badge}
+    <h2 style="margin:0 0 12px;font-size:22px;font-weight:700;color:#ffffff;letter-spacing:-0.3px;">${approved ? "Your milestone was approved!" : "Your milestone needs changes"}</h2>
+    <p style="margin:0 0 24px;font-size:14px;line-height:1.7;color:rgba(255,255,255,0.5);">
+      ${approved ? `The poster approved your milestone and ${formatSol(milestoneAmountSol)} SOL has been released to your wallet.` : "The poster sent your milestone back. Review the reason below, then resubmit it."}
+    </p>
+    ${featuredImageBlock(params.featuredImage)}
+    <div style="background:${SURFACE_LIGHT};border:1px solid rgba(255,255,255,0.08);border-radius:12px;padding:20px 24px;margin-bottom:20px;">
+      <p style="margin:0 0 6px;font-size:16px;font-weight:600;color:#ffffff;letter-spacing:-0.2px;">${escapeHtml(milestoneTitle)}</p>
+      <p style="margin:0;font-size:13px;color:rgba(255,255,255,0.4);">${escapeHtml(taskTitle)}</p>
+      ${reasonBlock}
+    </div>
+    <a href="${taskUrl}" style="display:inline-block;background:${INDIGO};border:1px solid rgba(111,236,6,0.2);color:#ffffff;font-size:14px;font-weight:600;text-decoration:none;padding:12px 28px;border-radius:10px;letter-spacing:-0.2px;">
+      View Task &rarr;
+    </a>`;
+  return {
+    subject: approved
+      ? `Milestone paid: ${milestoneTitle}`
+      : `Changes requested: ${milestoneTitle}`,
+    html: emailLayout(body),
+  };
+}
+
 // ── Dispute Filed Email (→ worker) ───────────────────────────────────
 
 interface DisputeEmailParams extends TaskEmailParams {
   disputeReason: string;
+  responseDeadline?: Date;
 }
 
 export function disputeFiledEmail(params: DisputeEmailParams) {
-  const { taskTitle, taskId, disputeReason } = params;
+  const { taskTitle, taskId, disputeReason, responseDeadline } = params;
   const taskUrl = `https://agentinc.fun/dashboard/marketplace/tasks/${taskId}`;
   const RED = "#ef4444";
+  const respondBy = responseDeadline
+    ? ` by ${responseDeadline.toUTCString()}. Without a response, the escrow is refunded to the poster`
+    : "";
   const body = `
     <div style="margin:0 0 20px;display:inline-block;background:rgba(239,68,68,0.1);border:1px solid rgba(239,68,68,0.2);border-radius:8px;padding:6px 14px;">
       <span style="font-size:12px;font-weight:600;color:${RED};letter-spacing:0.5px;text-transform:uppercase;">Disputed</span>
     </div>
     <h2 style="margin:0 0 12px;font-size:22px;font-weight:700;color:#ffffff;letter-spacing:-0.3px;">Your work has been disputed</h2>
     <p style="margin:0 0 24px;font-size:14px;line-height:1.7;color:rgba(255,255,255,0.5);">
-      The poster has disputed your deliverables. Review the reason below and submit revised work.
+      The poster has disputed your deliverables. Review the reason below, then submit revised work or respond with your evidence${respondBy}.
     </p>
     ${featuredImageBlock(params.featuredImage)}
     <div style="background:${SURFACE_LIGHT};border:1px solid rgba(255,255,255,0.08);border-radius:12px;padding:20px 24px;margin-bottom:20px;">
@@ -455,6 +550,53 @@ export function disputeFiledEmail(params: DisputeEmailParams) {
   };
 }
 
+// ── Dispute Resolved Email (→ poster and worker) ─────────────────────
+
+interface DisputeResolvedEmailParams extends TaskEmailParams {
+  workerPercent: number;
+  ruling: string;
+  workerSol: number;
+  posterSol: number;
+}
+
+export function disputeResolvedEmail(params: DisputeResolvedEmailParams) {
+  const { taskTitle, taskId, workerPercent, ruling } = params;
+  const taskUrl = `https://agentinc.fun/dashboard/marketplace/tasks/${taskId}`;
+  const headline =
+    workerPercent >= 100
+      ? "Escrow released to the worker"
+      : workerPercent <= 0
+        ? "Escrow refunded to the poster"
+        : `Escrow split ${workerPercent}/${100 - workerPercent}`;
+  const body = `
+    <div style="margin:0 0 20px;display:inline-block;background:rgba(255,255,255,0.05);border:1px solid rgba(255,255,255,0.1);border-radius:8px;padding:6px 14px;">
+      <span style="font-size:12px;font-weight:600;color:rgba(255,255,255,0.6);letter-spacing:0.5px;text-transform:uppercase;">Dispute Resolved</span>
+    </div>
+    <h2 style="margin:0 0 12px;font-size:22px;font-weight:700;color:#ffffff;letter-spacing:-0.3px;">${headline}</h2>
+    <p style="margin:0 0 24px;font-size:14px;line-height:1.7;color:rgba(255,255,255,0.5);">
+      The dispute over this task has been decided and the escrow has been settled.
+    </p>
+    ${featuredImageBlock(params.featuredImage)}
+    <div style="background:${SURFACE_LIGHT};border:1px solid rgba(255,255,255,0.08);border-radius:12px;padding:20px 24px;margin-bottom:20px;">
+      <p style="margin:0 0 16px;font-size:16px;font-weight:600;color:#ffffff;letter-spacing:-0.2px;">${escapeHtml(taskTitle)}</p>
+      <table width="100%" cellpadding="0" cellspacing="0" style="margin-bottom:14px;">
+        <tr><td style="font-size:12px;color:rgba(255,255,255,0.35);padding:3px 0;">To the worker</td><td align="right" style="font-size:12px;font-weight:600;color:${GREEN};padding:3px 0;">${formatSol(params.workerSol)} SOL</td></tr>
+        <tr><td style="font-size:12px;color:rgba(255,255,255,0.35);padding:3px 0;">To the poster</td><td align="right" style="font-size:12px;font-weight:600;color:rgba(255,255,255,0.6);padding:3px 0;">${formatSol(params.posterSol)} SOL</td></tr>
+      </table>
+      <div style="border-top:1px solid rgba(255,255,255,0.08);padding-top:14px;">
+        <p style="margin:0 0 6px;font-size:11px;font-weight:600;color:rgba(255,255,255,0.4);letter-spacing:0.5px;text-transform:uppercase;">Ruling</p>
+        <p style="margin:0;font-size:13px;line-height:1.6;color:rgba(255,255,255,0.5);">${escapeHtml(ruling.slice(0, 1000))}${ruling.length > 1000 ? "..." : ""}</p>
+      </div>
+    </div>
+    <a href="${taskUrl}" style="display:inline-block;background:${INDIGO};border:1px solid rgba(111,236,6,0.2);color:#ffffff;font-size:14px;font-weight:600;text-decoration:none;padding:12px 28px;border-radius:10px;letter-spacing:-0.2px;">
+      View Task &rarr;
+    </a>`;
+  return {
+    subject: `Dispute resolved: ${taskTitle}`,
+    html: emailLayout(body),
+  };
+}
+
 // ── Task Cancelled Email (→ worker / bidders) ────────────────────────
 
 export function taskCancelledEmail(params: TaskEmailParams) {
@@ -481,6 +623,253 @@ export function taskCancelledEmail(params: TaskEmailParams) {
   };
 }
 
+// ── Deadline Missed Email (→ poster and worker) ──────────────────────
+
+interface DeadlineMissedEmailParams extends TaskEmailParams {
+  forWorker: boolean;
+  graceEndsAt: Date;
+}
+
+export function deadlineMissedEmail(params: DeadlineMissedEmailParams) {
+  const { taskTitle, taskId, forWorker, graceEndsAt } = params;
+  const taskUrl = `https://agentinc.fun/dashboard/marketplace/tasks/${taskId}`;
+  const AMBER = "#f59e0b";
+  const message = forWorker
+    ? `The deadline for this task has passed. Submit your deliverables by ${graceEndsAt.toUTCString()}, or the task will be cancelled and the escrow refunded to the poster.`
+    : `The worker missed the deadline for this task. They have until ${graceEndsAt.toUTCString()} to submit; after that the task is cancelled and your escrow is refunded automatically.`;
+  const body = `
+    <div style="margin:0 0 20px;display:inline-block;background:rgba(245,158,11,0.1);border:1px solid rgba(245,158,11,0.2);border-radius:8px;padding:6px 14px;">
+      <span style="font-size:12px;font-weight:600;color:${AMBER};letter-spacing:0.5px;text-transform:uppercase;">Deadline Passed</span>
+    </div>
+    <h2 style="margin:0 0 12px;font-size:22px;font-weight:700;color:#ffffff;letter-spacing:-0.3px;">${forWorker ? "Your delivery is overdue" : "Your task is overdue"}</h2>
+    <p style="margin:0 0 24px;font-size:14px;line-height:1.7;color:rgba(255,255,255,0.5);">
+      ${message}
+    </p>
+    ${featuredImageBlock(params.featuredImage)}
+    <div style="background:${SURFACE_LIGHT};border:1px solid rgba(255,255,255,0.08);border-radius:12px;padding:20px 24px;margin-bottom:20px;">
+      <p style="margin:0;font-size:16px;font-weight:600;color:#ffffff;letter-spacing:-0.2px;">${escapeHtml(taskTitle)}</p>
+    </div>
+    ${bountyBlock(params)}
+    <a href="${taskUrl}" style="display:inline-block;background:${INDIGO};border:1px solid rgba(245,158,11,0.3);color:#ffffff;font-size:14px;font-weight:600;text-decoration:none;padding:12px 28px;border-radius:10px;letter-spacing:-0.2px;">
+      View Task &rarr;
+    </a>`;
+  return {
+    subject: `Deadline passed: ${taskTitle}`,
+    html: emailLayout(body),
+  };
+}
+
+// ── Task Expired Email (→ poster and worker) ─────────────────────────
+
+interface TaskExpiredEmailParams extends TaskEmailParams {
+  forWorker: boolean;
+  /** Whether a worker was assigned (otherwise the task expired unassigned) */
+  wasAssigned: boolean;
+  escrowSol: number;
+}
+
+export function taskExpiredEmail(params: TaskExpiredEmailParams) {
+  const { taskTitle, taskId, forWorker, wasAssigned, escrowSol } = params;
+  const taskUrl = `https://agentinc.fun/dashboard/marketplace/tasks/${taskId}`;
+  const reason = wasAssigned
+    ? "The deliverables weren't submitted within the grace period after the deadline, so the task has been cancelled."
+    : "The deadline passed before the task was assigned, so it has been cancelled.";
+  const refund =
+    escrowSol > 0
+      ? forWorker
+        ? " The escrow is being returned to the poster."
+        : ` Your ${formatSol(escrowSol)} SOL escrow is being returned to your wallet.`
+      : "";
+  const body = `
+    <div style="margin:0 0 20px;display:inline-block;background:rgba(255,255,255,0.05);border:1px solid rgba(255,255,255,0.1);border-radius:8px;padding:6px 14px;">
+      <span style="font-size:12px;font-weight:600;color:rgba(255,255,255,0.4);letter-spacing:0.5px;text-transform:uppercase;">Expired</span>
+    </div>
+    <h2 style="margin:0 0 12px;font-size:22px;font-weight:700;color:#ffffff;letter-spacing:-0.3px;">A task has expired</h2>
+    <p style="margin:0 0 24px;font-size:14px;line-height:1.7;color:rgba(255,255,255,0.5);">
+      ${reason}${refund}
+    </p>
+    ${featuredImageBlock(params.featuredImage)}
+    <div style="background:${SURFACE_LIGHT};border:1px solid rgba(255,255,255,0.08);border-radius:12px;padding:20px 24px;margin-bottom:20px;">
+      <p style="margin:0;font-size:16px;font-weight:600;color:#ffffff;letter-spacing:-0.2px;">${escapeHtml(taskTitle)}</p>
+    </div>
+    <a href="${taskUrl}" style="display:inline-block;background:${INDIGO};border:1px solid rgba(111,236,6,0.2);color:#ffffff;font-size:14px;font-weight:600;text-decoration:none;padding:12px 28px;border-radius:10px;letter-spacing:-0.2px;">
+      View Task &rarr;
+    </a>`;
+  return {
+    subject: `Task expired: ${taskTitle}`,
+    html: emailLayout(body),
+  };
+}
+
+// ── Agent Work Stopped Email (→ agent owner) ─────────────────────────
+
+interface AgentWorkStoppedEmailParams extends TaskEmailParams {
+  agentName: string;
+  reason: string;
+}
+
+export function agentWorkStoppedEmail(params: AgentWorkStoppedEmailParams) {
+  const { taskTitle, taskId, agentName, reason } = params;
+  const taskUrl = `https://agentinc.fun/dashboard/marketplace/tasks/${taskId}`;
+  const AMBER = "#f59e0b";
+  const body = `
+    <div style="margin:0 0 20px;display:inline-block;background:rgba(245,158,11,0.1);border:1px solid rgba(245,158,11,0.2);border-radius:8px;padding:6px 14px;">
+      <span style="font-size:12px;font-weight:600;color:${AMBER};letter-spacing:0.5px;text-transform:uppercase;">Needs Attention</span>
+    </div>
+    <h2 style="margin:0 0 12px;font-size:22px;font-weight:700;color:#ffffff;letter-spacing:-0.3px;">${escapeHtml(agentName)} stopped working</h2>
+    <p style="margin:0 0 24px;font-size:14px;line-height:1.7;color:rgba(255,255,255,0.5);">
+      Your agent couldn't finish a marketplace task it was hired for: ${escapeHtml(reason)} The task is still assigned to it &mdash; submit the deliverables yourself before the deadline.
+    </p>
+    ${featuredImageBlock(params.featuredImage)}
+    <div style="background:${SURFACE_LIGHT};border:1px solid rgba(255,255,255,0.08);border-radius:12px;padding:20px 24px;margin-bottom:20px;">
+      <p style="margin:0;font-size:16px;font-weight:600;color:#ffffff;letter-spacing:-0.2px;">${escapeHtml(taskTitle)}</p>
+    </div>
+    ${bountyBlock(params)}
+    <a href="${taskUrl}" style="display:inline-block;background:${INDIGO};border:1px solid rgba(245,158,11,0.3);color:#ffffff;font-size:14px;font-weight:600;text-decoration:none;padding:12px 28px;border-radius:10px;letter-spacing:-0.2px;">
+      View Task &rarr;
+    </a>`;
+  return {
+    subject: `Your agent stopped working on: ${taskTitle}`,
+    html: emailLayout(body),
+  };
+}
+
+// ── Tool Approval Requested Email (→ task owner) ─────────────────────
+
+interface ToolApprovalEmailParams {
+  taskName: string;
+  toolCalls: Array<{ toolName: string; input: unknown }>;
+  expiresAt: Date;
+}
+
+export function toolApprovalRequestedEmail(params: ToolApprovalEmailParams) {
+  const { taskName, toolCalls, expiresAt } = params;
+  const chatUrl = "https://agentinc.fun/dashboard/chat";
+  const AMBER = "#f59e0b";
+  const calls = toolCalls
+    .map(({ toolName, input }) => {
+      const preview = JSON.stringify(input ?? {}, null, 2);
+      return `
+      <div style="border-top:1px solid rgba(245,158,11,0.15);padding-top:14px;margin-top:14px;">
+        <p style="margin:0 0 6px;font-size:11px;font-weight:600;color:${AMBER};letter-spacing:0.5px;text-transform:uppercase;">${escapeHtml(toolName)}</p>
+        <pre style="margin:0;font-size:12px;line-height:1.5;color:rgba(255,255,255,0.5);white-space:pre-wrap;word-break:break-word;">${escapeHtml(preview.slice(0, 800))}${preview.length > 800 ? "..." : ""}</pre>
+      </div>`;
+    })
+    .join("");
+  const body = `
+    <div style="margin:0 0 20px;display:inline-block;background:rgba(245,158,11,0.1);border:1px solid rgba(245,158,11,0.2);border-radius:8px;padding:6px 14px;">
+      <span style="font-size:12px;font-weight:600;color:${AMBER};letter-spacing:0.5px;text-transform:uppercase;">Approval Needed</span>
+    </div>
+    <h2 style="margin:0 0 12px;font-size:22px;font-weight:700;color:#ffffff;letter-spacing:-0.3px;">Your task is waiting for you</h2>
+    <p style="margin:0 0 24px;font-size:14px;line-height:1.7;color:rgba(255,255,255,0.5);">
+      A background task wants to run ${toolCalls.length === 1 ? "an action" : "actions"} that need${toolCalls.length === 1 ? "s" : ""} your approval. Unanswered requests are rejected on ${escapeHtml(expiresAt.toUTCString())}.
+    </p>
+    <div style="background:${SURFACE_LIGHT};border:1px solid rgba(255,255,255,0.08);border-radius:12px;padding:20px 24px;margin-bottom:20px;">
+      <p style="margin:0;font-size:16px;font-weight:600;color:#ffffff;letter-spacing:-0.2px;">${escapeHtml(taskName)}</p>
+      ${calls}
+    </div>
+    <a href="${chatUrl}" style="display:inline-block;background:${GREEN};color:#000104;font-size:14px;font-weight:700;text-decoration:none;padding:12px 28px;border-radius:10px;letter-spacing:-0.2px;">
+      Review &rarr;
+    </a>`;
+  return {
+    subject: `Approval needed: ${taskName}`,
+    html: emailLayout(body),
+  };
+}
+
+// ── Task Auto-Paused Email (→ task owner) ────────────────────────────
+
+interface TaskAutoPausedEmailParams {
+  taskName: string;
+  category: string;
+  failures: number;
+  error: string;
+}
+
+const FAILURE_HINTS: Record<string, string> = {
+  auth: "A connected account looks disconnected or its token has expired. Reconnect it, then resume the task.",
+  billing:
+    "Your wallet or credits couldn't cover the task. Top up, then resume the task.",
+  rate_limit:
+    "A service kept rate-limiting the task. Consider a longer interval before resuming.",
+  tool: "One of the task's tools kept failing. Check the task's logs before resuming.",
+  model:
+    "The AI model kept failing. This is usually temporary — try resuming later.",
+};
+
+export function taskAutoPausedEmail(params: TaskAutoPausedEmailParams) {
+  const { taskName, category, failures, error } = params;
+  const chatUrl = "https://agentinc.fun/dashboard/chat";
+  const RED = "#f87171";
+  const hint =
+    FAILURE_HINTS[category] ??
+    "Check the task's logs to see what went wrong, then resume it.";
+  const body = `
+    <div style="margin:0 0 20px;display:inline-block;background:rgba(248,113,113,0.1);border:1px solid rgba(248,113,113,0.2);border-radius:8px;padding:6px 14px;">
+      <span style="font-size:12px;font-weight:600;color:${RED};letter-spacing:0.5px;text-transform:uppercase;">Task Paused</span>
+    </div>
+    <h2 style="margin:0 0 12px;font-size:22px;font-weight:700;color:#ffffff;letter-spacing:-0.3px;">Your task kept failing</h2>
+    <p style="margin:0 0 24px;font-size:14px;line-height:1.7;color:rgba(255,255,255,0.5);">
+      We paused it after ${failures} failed iteration${failures !== 1 ? "s" : ""} in a row. ${escapeHtml(hint)}
+    </p>
+    <div style="background:${SURFACE_LIGHT};border:1px solid rgba(255,255,255,0.08);border-radius:12px;padding:20px 24px;margin-bottom:20px;">
+      <p style="margin:0 0 10px;font-size:16px;font-weight:600;color:#ffffff;letter-spacing:-0.2px;">${escapeHtml(taskName)}</p>
+      <p style="margin:0 0 6px;font-size:11px;font-weight:600;color:${RED};letter-spacing:0.5px;text-transform:uppercase;">${escapeHtml(category.replace("_", " "))} error</p>
+      <pre style="margin:0;font-size:12px;line-height:1.5;color:rgba(255,255,255,0.5);white-space:pre-wrap;word-break:break-word;">${escapeHtml(error.slice(0, 800))}${error.length > 800 ? "..." : ""}</pre>
+    </div>
+    <a href="${chatUrl}" style="display:inline-block;background:${GREEN};color:#000104;font-size:14px;font-weight:700;text-decoration:none;padding:12px 28px;border-radius:10px;letter-spacing:-0.2px;">
+      View Task &rarr;
+    </a>`;
+  return {
+    subject: `Task paused: ${taskName}`,
+    html: emailLayout(body),
+  };
+}
+
+// ── Task Result Email (→ delivery target) ────────────────────────────
+
+interface TaskResultEmailParams {
+  taskName: string;
+  iteration: number;
+  status: "success" | "error";
+  content: string;
+  error?: string;
+  /** Why the agent flagged this result, if it did */
+  notable?: string;
+}
+
+export function taskResultEmail(params: TaskResultEmailParams) {
+  const { taskName, iteration, status, content, error, notable } = params;
+  const chatUrl = "https://agentinc.fun/dashboard/chat";
+  const RED = "#f87171";
+  const failed = status === "error";
+  const color = failed ? RED : GREEN;
+  const label = failed
+    ? "Iteration Failed"
+    : notable
+      ? "Notable Result"
+      : "Task Result";
+  const body = `
+    <div style="margin:0 0 20px;display:inline-block;background:${failed ? "rgba(248,113,113,0.1)" : "rgba(111,236,6,0.1)"};border:1px solid ${failed ? "rgba(248,113,113,0.2)" : "rgba(111,236,6,0.2)"};border-radius:8px;padding:6px 14px;">
+      <span style="font-size:12px;font-weight:600;color:${color};letter-spacing:0.5px;text-transform:uppercase;">${label}</span>
+    </div>
+    <h2 style="margin:0 0 12px;font-size:22px;font-weight:700;color:#ffffff;letter-spacing:-0.3px;">${escapeHtml(taskName)}</h2>
+    <p style="margin:0 0 24px;font-size:14px;line-height:1.7;color:rgba(255,255,255,0.5);">
+      Iteration ${iteration}${notable ? ` &mdash; ${escapeHtml(notable)}` : ""}
+    </p>
+    <div style="background:${SURFACE_LIGHT};border:1px solid rgba(255,255,255,0.08);border-radius:12px;padding:20px 24px;margin-bottom:20px;">
+      ${failed && error ? `<p style="margin:0 0 10px;font-size:11px;font-weight:600;color:${RED};letter-spacing:0.5px;text-transform:uppercase;">${escapeHtml(error.slice(0, 300))}</p>` : ""}
+      <pre style="margin:0;font-size:13px;line-height:1.6;color:rgba(255,255,255,0.7);white-space:pre-wrap;word-break:break-word;font-family:inherit;">${escapeHtml(content)}</pre>
+    </div>
+    <a href="${chatUrl}" style="display:inline-block;background:${GREEN};color:#000104;font-size:14px;font-weight:700;text-decoration:none;padding:12px 28px;border-radius:10px;letter-spacing:-0.2px;">
+      View Task &rarr;
+    </a>`;
+  return {
+    subject: `${failed ? "Failed" : notable ? "Notable" : "Result"}: ${taskName} (#${iteration})`,
+    html: emailLayout(body),
+  };
+}
+
 // ── Helpers ───────────────────────────────────────────────────────────
 
 function escapeHtml(str: string): string {
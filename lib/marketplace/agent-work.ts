@@ -0,0 +1,26 @@
+/**
+ * Marketplace Agent Work
+ *
+ * Starts the durable workflow that has a hired Agent Inc agent work its
+ * task on its own (see workflows/marketplace/workflow.ts).
+ */
+
+import { start } from "workflow/api";
+import prisma from "@/lib/prisma";
+import { marketplaceWorkWorkflow } from "@/workflows/marketplace/workflow";
+
+/**
+ * Start an agent working a task it was just assigned. Never throws: if the
+ * workflow can't start, the owner can still do the work by hand.
+ */
+export async function startAgentWork(taskId: string): Promise<void> {
+  try {
+    const run = await start(marketplaceWorkWorkflow, [taskId]);
+    await prisma.marketplaceTask.update({
+      where: { id: taskId },
+      data: { workRunId: run.runId },
+    });
+  } catch (error) {
+    console.error("[Marketplace] Failed to start agent work:", error);
+  }
+}
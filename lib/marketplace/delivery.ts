@@ -0,0 +1,130 @@
+/**
+ * Marketplace Deliverables
+ *
+ * Submitting work for review. Shared by the submit route (people and
+ * agent owners) and the agent work workflow (agents working on their own).
+ */
+
+import prisma from "@/lib/prisma";
+import { sendEmail, deliverablesSubmittedEmail } from "@/lib/email";
+
+import { closeDisputeOnResubmission } from "./disputes";
+
+const MAX_DELIVERABLES_LENGTH = 50000;
+
+/** Statuses a worker can submit (or, during a dispute, resubmit) from */
+const SUBMITTABLE_STATUSES = ["assigned", "in_progress", "disputed"];
+
+export type SubmitDeliverablesResult =
+  | { ok: true }
+  | { ok: false; error: string; status: 400 | 403 | 404 | 409 };
+
+/**
+ * Record the worker's deliverables and move the task to review. The
+ * submitter must be the worker, or the creator of the worker agent.
+ */
+export async function submitDeliverables(
+  taskId: string,
+  userId: string,
+  deliverables: unknown,
+): Promise<SubmitDeliverablesResult> {
+  const task = await prisma.marketplaceTask.findUnique({
+    where: { id: taskId },
+    select: {
+      status: true,
+      posterId: true,
+      workerId: true,
+      workerAgent: { select: { createdById: true } },
+      title: true,
+      budgetSol: true,
+      tokenMint: true,
+      tokenSymbol: true,
+      tokenFeesClaimed: true,
+      featuredImage: true,
+    },
+  });
+
+  if (!task) return { ok: false, error: "Task not found", status: 404 };
+
+  const isWorker =
+    task.workerId === userId || task.workerAgent?.createdById === userId;
+  if (!isWorker) {
+    return {
+      ok: false,
+      error: "Only the assigned worker can submit",
+      status: 403,
+    };
+  }
+  if (!SUBMITTABLE_STATUSES.includes(task.status)) {
+    return {
+      ok: false,
+      error: "Task is not in a submittable state",
+      status: 400,
+    };
+  }
+
+  if (
+    !deliverables ||
+    typeof deliverables !== "string" ||
+    !deliverables.trim()
+  ) {
+    return {
+      ok: false,
+      error: "deliverables is required and must be a non-empty string",
+      status: 400,
+    };
+  }
+  if (deliverables.length > MAX_DELIVERABLES_LENGTH) {
+    return {
+      ok: false,
+      error: "deliverables must be under 50,000 characters",
+      status: 400,
+    };
+  }
+
+  // Revised work replaces the disputed work, unless a ruling is already
+  // being paid out
+  if (
+    task.status === "disputed" &&
+    !(await closeDisputeOnResubmission(taskId, userId))
+  ) {
+    return {
+      ok: false,
+      error: "The dispute has been ruled on and is being settled",
+      status: 409,
+    };
+  }
+
+  await prisma.marketplaceTask.update({
+    where: { id: taskId },
+    data: {
+      deliverables: deliverables.trim(),
+      status: "review",
+      disputeReason: null,
+    },
+  });
+
+  // Notify poster via email (fire-and-forget)
+  prisma.user
+    .findUnique({
+      where: { id: task.posterId },
+      select: { email: true },
+    })
+    .then((poster) => {
+      if (poster?.email) {
+        const { subject, html } = deliverablesSubmittedEmail({
+          taskTitle: task.title,
+          taskId,
+          budgetSol: Number(task.budgetSol),
+          creatorFees: Number(task.tokenFeesClaimed),
+          tokenMint: task.tokenMint,
+          tokenSymbol: task.tokenSymbol,
+          featuredImage: task.featuredImage,
+        });
+        sendEmail({ to: poster.email, subject, html });
+      }
+    })
+    .catch(() => {});
+
+  return { ok: true };
+}
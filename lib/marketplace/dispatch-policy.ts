@@ -0,0 +1,481 @@
+/**
+ * Marketplace Dispatch Policy
+ *
+ * Pure helpers for sending a task to an external agent: choosing the
+ * protocol, describing the task, reading the agent's status in each
+ * protocol's shape, and turning its artifacts into deliverables.
+ */
+
+import { isPublicHttpsUrl } from "@/lib/tasks/delivery-policy";
+
+import type { DispatchProtocol, DispatchState } from "./types";
+
+const MAX_DELIVERABLES_LENGTH = 50000;
+const TRUNCATION_NOTE = "\n\n…(truncated: the agent returned more than fits)";
+
+/** What an external agent returned, kept on the dispatch as sent */
+export type DispatchArtifact =
+  | { kind: "text"; name?: string; text: string }
+  | { kind: "file"; name?: string; mimeType?: string; uri?: string }
+  | { kind: "data"; name?: string; data: unknown };
+
+/** The agent's side of a dispatched task, as last reported */
+export interface DispatchUpdate {
+  state: DispatchState;
+  remoteTaskId?: string;
+  /** REST: where to poll for status, as given by the agent */
+  statusUrl?: string;
+  /** The agent's latest status message */
+  message?: string;
+  artifacts?: DispatchArtifact[];
+  /** Why the dispatch failed on our side (unreachable, timed out) */
+  error?: string;
+}
+
+/** The fields of a task an external agent is sent */
+export interface DispatchTask {
+  id: string;
+  title: string;
+  description: string;
+  category: string;
+  requirements: string[];
+  deadline: Date | null;
+  budgetSol: number;
+}
+
+export function isTerminalDispatchState(state: DispatchState): boolean {
+  return state === "completed" || state === "failed" || state === "canceled";
+}
+
+/** States agents report, across protocols, and what they mean here */
+const REMOTE_STATES: Record<string, DispatchState> = {
+  submitted: "submitted",
+  accepted: "submitted",
+  pending: "submitted",
+  queued: "submitted",
+  working: "working",
+  running: "working",
+  in_progress: "working",
+  completed: "completed",
+  complete: "completed",
+  done: "completed",
+  succeeded: "completed",
+  failed: "failed",
+  error: "failed",
+  rejected: "failed",
+  canceled: "canceled",
+  cancelled: "canceled",
+};
+
+/** A2A states where the agent waits on a reply nobody is there to give */
+const NEEDS_INPUT_STATES = [
+  "input-required",
+  "input_required",
+  "auth-required",
+];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value ? value : undefined;
+}
+
+/**
+ * Whether the dispatcher may call a URL. Only public https:// URLs, unless
+ * private hosts are allowed (agents running locally in development).
+ */
+export function isDispatchableUrl(
+  value: string,
+  allowPrivateHosts: boolean,
+): boolean {
+  if (!allowPrivateHosts) return isPublicHttpsUrl(value);
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" || url.protocol === "http:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Pick how to reach an external agent listing: A2A, then MCP, then REST,
+ * skipping URLs the dispatcher may not call. Returns null when none fit.
+ */
+export function selectDispatchEndpoint(
+  listing: {
+    externalA2aUrl: string | null;
+    externalMcpUrl: string | null;
+    externalAgentUrl: string | null;
+  },
+  allowPrivateHosts: boolean,
+): { protocol: DispatchProtocol; endpoint: string } | null {
+  const candidates: Array<[DispatchProtocol, string | null]> = [
+    ["a2a", listing.externalA2aUrl],
+    ["mcp", listing.externalMcpUrl],
+    ["rest", listing.externalAgentUrl],
+  ];
+  for (const [protocol, endpoint] of candidates) {
+    if (endpoint && isDispatchableUrl(endpoint, allowPrivateHosts)) {
+      return { protocol, endpoint };
+    }
+  }
+  return null;
+}
+
+/** The task as an agent sees it */
+export function formatTaskBrief(task: {
+  title: string;
+  description: string;
+  category: string;
+  requirements: string[];
+  deadline: Date | null;
+  budgetSol: unknown;
+}): string {
+  return [
+    `TASK: ${task.title}`,
+    `Category: ${task.category}`,
+    `Bounty: ${Number(task.budgetSol)} SOL`,
+    task.deadline ? `Deadline: ${task.deadline.toISOString()}` : "",
+    `Description:\n${task.description}`,
+    task.requirements.length > 0
+      ? `Requirements:\n${task.requirements.map((r) => `- ${r}`).join("\n")}`
+      : "",
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/** The task as structured data, for protocols that take it */
+export function dispatchTaskData(task: DispatchTask): Record<string, unknown> {
+  return {
+    id: task.id,
+    title: task.title,
+    description: task.description,
+    category: task.category,
+    requirements: task.requirements,
+    deadline: task.deadline?.toISOString() ?? null,
+    budgetSol: task.budgetSol,
+  };
+}
+
+/** Build an update from a state the agent reported in any protocol */
+function remoteUpdate(
+  rawState: string,
+  fields: Omit<DispatchUpdate, "state">,
+): DispatchUpdate {
+  const normalized = rawState.toLowerCase();
+  if (NEEDS_INPUT_STATES.includes(normalized)) {
+    return {
+      ...fields,
+      state: "failed",
+      error: failureReason(
+        "the agent asked for input a dispatched task can't give",
+        fields.message,
+      ),
+    };
+  }
+  // Unknown states are treated as still in progress, so polling continues
+  return { ...fields, state: REMOTE_STATES[normalized] ?? "working" };
+}
+
+/**
+ * A failure reason for emails and the task page, ending in punctuation:
+ * "the agent's tool failed: <what the agent said>."
+ */
+export function failureReason(summary: string, detail?: string): string {
+  const text = detail?.trim() ? `${summary}: ${detail.trim()}` : summary;
+  return /[.!?]$/.test(text) ? text : `${text}.`;
+}
+
+/** A2A message or artifact parts (`kind` in newer specs, `type` in older) */
+function partsToArtifacts(parts: unknown, name?: string): DispatchArtifact[] {
+  if (!Array.isArray(parts)) return [];
+  return parts.flatMap((part): DispatchArtifact[] => {
+    if (!isRecord(part)) return [];
+    const kind = part.kind ?? part.type;
+    if (kind === "text" && typeof part.text === "string") {
+      return [{ kind: "text", name, text: part.text }];
+    }
+    if (kind === "file" && isRecord(part.file)) {
+      return [
+        {
+          kind: "file",
+          name: optionalString(part.file.name) ?? name,
+          mimeType: optionalString(part.file.mimeType),
+          uri: optionalString(part.file.uri),
+        },
+      ];
+    }
+    if (kind === "data" && part.data !== undefined) {
+      return [{ kind: "data", name, data: part.data }];
+    }
+    return [];
+  });
+}
+
+function partsToText(parts: unknown): string | undefined {
+  const text = partsToArtifacts(parts)
+    .flatMap((a) => (a.kind === "text" ? [a.text] : []))
+    .join("\n")
+    .trim();
+  return text || undefined;
+}
+
+/**
+ * Read an A2A Task (a tasks/send or tasks/get result, or a push
+ * notification, either bare or as a JSON-RPC response). Returns null when
+ * it isn't one.
+ */
+export function parseA2aTask(value: unknown): DispatchUpdate | null {
+  const task = isRecord(value) && isRecord(value.result) ? value.result : value;
+  if (!isRecord(task) || !isRecord(task.status)) return null;
+  const state = optionalString(task.status.state);
+  if (!state) return null;
+
+  const artifacts = Array.isArray(task.artifacts)
+    ? task.artifacts.flatMap((artifact) =>
+        isRecord(artifact)
+          ? partsToArtifacts(artifact.parts, optionalString(artifact.name))
+          : [],
+      )
+    : [];
+  const message = isRecord(task.status.message)
+    ? partsToText(task.status.message.parts)
+    : undefined;
+
+  return remoteUpdate(state, {
+    remoteTaskId: optionalString(task.id),
+    message,
+    ...(artifacts.length > 0 && { artifacts }),
+  });
+}
+
+/**
+ * Read an MCP tool call result. MCP tool calls run to completion, so the
+ * result is final: completed with its content, or failed when isError.
+ */
+export function parseMcpResult(result: unknown): DispatchUpdate {
+  if (!isRecord(result)) {
+    return { state: "failed", error: "the agent's tool returned no result." };
+  }
+
+  const artifacts: DispatchArtifact[] = [];
+  for (const item of Array.isArray(result.content) ? result.content : []) {
+    if (!isRecord(item)) continue;
+    if (item.type === "text" && typeof item.text === "string") {
+      artifacts.push({ kind: "text", text: item.text });
+    } else if (item.type === "resource_link") {
+      artifacts.push({
+        kind: "file",
+        name: optionalString(item.name),
+        mimeType: optionalString(item.mimeType),
+        uri: optionalString(item.uri),
+      });
+    } else if (item.type === "resource" && isRecord(item.resource)) {
+      const { resource } = item;
+      artifacts.push(
+        typeof resource.text === "string"
+          ? {
+              kind: "text",
+              name: optionalString(resource.uri),
+              text: resource.text,
+            }
+          : {
+              kind: "file",
+              mimeType: optionalString(resource.mimeType),
+              uri: optionalString(resource.uri),
+            },
+      );
+    } else if (item.type === "image" || item.type === "audio") {
+      // Inline media isn't kept; only its type is noted
+      artifacts.push({ kind: "file", mimeType: optionalString(item.mimeType) });
+    }
+  }
+  if (isRecord(result.structuredContent)) {
+    artifacts.push({ kind: "data", data: result.structuredContent });
+  }
+
+  if (result.isError === true) {
+    const message = artifacts
+      .flatMap((a) => (a.kind === "text" ? [a.text] : []))
+      .join("\n")
+      .trim();
+    return {
+      state: "failed",
+      message: message || undefined,
+      error: failureReason("the agent's tool failed", message),
+    };
+  }
+  return { state: "completed", artifacts };
+}
+
+/** REST artifacts: strings, or objects with text, a uri/url, data, or A2A parts */
+function parseRestArtifacts(value: unknown): DispatchArtifact[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((item): DispatchArtifact[] => {
+    if (typeof item === "string") return [{ kind: "text", text: item }];
+    if (!isRecord(item)) return [];
+    const name = optionalString(item.name);
+    if (Array.isArray(item.parts)) return partsToArtifacts(item.parts, name);
+    if (typeof item.text === "string") {
+      return [{ kind: "text", name, text: item.text }];
+    }
+    const uri = optionalString(item.uri) ?? optionalString(item.url);
+    if (uri) {
+      return [
+        { kind: "file", name, mimeType: optionalString(item.mimeType), uri },
+      ];
+    }
+    if (item.data !== undefined)
+      return [{ kind: "data", name, data: item.data }];
+    return [];
+  });
+}
+
+/**
+ * Read a REST agent's status: the response to the dispatch POST, a poll of
+ * its statusUrl, or a callback. The shape is
+ * `{ id?, status, statusUrl?, message?, deliverables?, artifacts? }`.
+ * Returns null when there's no status.
+ */
+export function parseRestStatus(value: unknown): DispatchUpdate | null {
+  if (!isRecord(value)) return null;
+  const state = optionalString(value.status) ?? optionalString(value.state);
+  if (!state) return null;
+
+  const artifacts = parseRestArtifacts(value.artifacts);
+  if (typeof value.deliverables === "string" && value.deliverables.trim()) {
+    artifacts.unshift({ kind: "text", text: value.deliverables });
+  }
+
+  return remoteUpdate(state, {
+    remoteTaskId: optionalString(value.id) ?? optionalString(value.taskId),
+    statusUrl: optionalString(value.statusUrl),
+    message: optionalString(value.message),
+    ...(artifacts.length > 0 && { artifacts }),
+  });
+}
+
+/** Read a callback for a task dispatched over `protocol` */
+export function parseDispatchCallback(
+  protocol: DispatchProtocol,
+  payload: unknown,
+): DispatchUpdate | null {
+  switch (protocol) {
+    case "a2a":
+      return parseA2aTask(payload);
+    case "rest":
+      return parseRestStatus(payload);
+    case "mcp":
+      // MCP results come back on the call itself
+      return null;
+  }
+}
+
+/** Tool names an MCP server with several tools may take tasks through */
+const MCP_TASK_TOOL_NAMES = [
+  "perform_task",
+  "run_task",
+  "execute_task",
+  "do_task",
+  "submit_task",
+  "task",
+  "hire",
+];
+
+/**
+ * Pick the tool to send a task to: a server's only tool, or a tool with a
+ * conventional task-taking name. Returns null when none fit.
+ */
+export function pickMcpTool<T extends { name: string }>(tools: T[]): T | null {
+  if (tools.length === 1) return tools[0];
+  for (const name of MCP_TASK_TOOL_NAMES) {
+    const match = tools.find((t) => t.name.toLowerCase() === name);
+    if (match) return match;
+  }
+  return null;
+}
+
+/** Argument names a tool may take the whole brief under */
+const MCP_BRIEF_ARGUMENTS = [
+  "brief",
+  "task",
+  "prompt",
+  "input",
+  "query",
+  "instructions",
+  "message",
+  "request",
+];
+
+/**
+ * Fill a tool's arguments from the task, by name. The brief goes to the
+ * first argument that takes free text; a tool with a single string argument
+ * of another name gets the brief there.
+ */
+export function buildMcpArguments(
+  inputSchema: unknown,
+  task: DispatchTask,
+  brief: string,
+): Record<string, unknown> {
+  const properties =
+    isRecord(inputSchema) && isRecord(inputSchema.properties)
+      ? inputSchema.properties
+      : {};
+  const isString = (key: string) => {
+    const schema = properties[key];
+    return isRecord(schema) && (schema.type === "string" || !schema.type);
+  };
+
+  const data = dispatchTaskData(task);
+  const args: Record<string, unknown> = {};
+  for (const key of Object.keys(properties)) {
+    if (key in data && data[key] !== null && key !== "id") {
+      args[key] = data[key];
+    } else if (key === "taskId") {
+      args[key] = task.id;
+    }
+  }
+
+  const briefKey =
+    MCP_BRIEF_ARGUMENTS.find((key) => key in properties && isString(key)) ??
+    (Object.keys(args).length === 0 &&
+    Object.keys(properties).filter(isString).length === 1
+      ? Object.keys(properties).find(isString)
+      : undefined);
+  if (briefKey) args[briefKey] = brief;
+
+  return args;
+}
+
+function formatArtifact(artifact: DispatchArtifact): string {
+  const heading = artifact.name ? `### ${artifact.name}\n\n` : "";
+  switch (artifact.kind) {
+    case "text":
+      return artifact.text.trim() ? `${heading}${artifact.text.trim()}` : "";
+    case "data":
+      return `${heading}\`\`\`json\n${JSON.stringify(artifact.data, null, 2)}\n\`\`\``;
+    case "file": {
+      const label = artifact.name ?? artifact.uri ?? "File";
+      if (artifact.uri && /^https?:\/\//i.test(artifact.uri)) {
+        return `- [${label}](${artifact.uri})`;
+      }
+      return `- ${label} (${artifact.mimeType ?? "file"}, sent inline and not kept)`;
+    }
+  }
+}
+
+/**
+ * Turn an agent's artifacts into deliverables: text as is, data as JSON,
+ * files as links. Empty when nothing usable came back.
+ */
+export function formatDeliverables(artifacts: DispatchArtifact[]): string {
+  const text = artifacts.map(formatArtifact).filter(Boolean).join("\n\n");
+  if (text.length <= MAX_DELIVERABLES_LENGTH) return text;
+  return (
+    text.slice(0, MAX_DELIVERABLES_LENGTH - TRUNCATION_NOTE.length) +
+    TRUNCATION_NOTE
+  );
+}
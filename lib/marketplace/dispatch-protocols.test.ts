@@ -0,0 +1,647 @@
+/**
+ * Dispatch protocol tests, run against local stub agents (bun test).
+ */
+
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  createServer,
+  type IncomingMessage,
+  type ServerResponse,
+} from "node:http";
+import type { AddressInfo } from "node:net";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { z } from "zod";
+
+import { isDispatchableUrl } from "./dispatch-policy";
+import {
+  cancelAtAgent,
+  pollAgent,
+  readAgentCallback,
+  sendToAgent,
+  type DispatchRequest,
+} from "./dispatch-protocols";
+
+// ── Stub agents ──────────────────────────────────────────────────────────
+
+interface StubRequest {
+  method: string;
+  path: string;
+  body: unknown;
+}
+
+type StubHandler = (req: StubRequest) => {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+};
+
+/** An HTTP agent answering JSON, recording every request it gets */
+async function startStub(handler: StubHandler) {
+  const requests: StubRequest[] = [];
+  const server = createServer(async (req, res) => {
+    let raw = "";
+    for await (const chunk of req) raw += chunk;
+    const request = {
+      method: req.method ?? "GET",
+      path: req.url ?? "/",
+      body: raw ? JSON.parse(raw) : undefined,
+    };
+    requests.push(request);
+
+    const reply = handler(request);
+    res.writeHead(reply.status ?? 200, {
+      "Content-Type": "application/json",
+      ...reply.headers,
+    });
+    res.end(reply.body === undefined ? "" : JSON.stringify(reply.body));
+  });
+  return listen(server, requests);
+}
+
+/** An MCP server over streamable HTTP, in stateless mode */
+async function startMcpStub(register: (server: McpServer) => void) {
+  const server = createServer(
+    async (req: IncomingMessage, res: ServerResponse) => {
+      const mcp = new McpServer({ name: "stub-agent", version: "1.0.0" });
+      register(mcp);
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: undefined,
+      });
+      res.on("close", () => {
+        transport.close().catch(() => {});
+        mcp.close().catch(() => {});
+      });
+      await mcp.connect(transport);
+      await transport.handleRequest(req, res);
+    },
+  );
+  return listen(server, []);
+}
+
+async function listen(
+  server: ReturnType<typeof createServer>,
+  requests: StubRequest[],
+) {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
+
+const request: DispatchRequest = {
+  dispatchId: "dispatch_1",
+  task: {
+    id: "task_1",
+    title: "Summarize a paper",
+    description: "Summarize the attached paper in 200 words.",
+    category: "research",
+    requirements: ["Plain English"],
+    deadline: null,
+    budgetSol: 1.5,
+  },
+  brief: "TASK: Summarize a paper",
+  callbackUrl: "https://agentinc.fun/api/marketplace/dispatch/callback",
+  callbackToken: "cb_token",
+};
+
+// Stub agents run on localhost
+const PRIVATE_HOSTS_ENV = "MARKETPLACE_DISPATCH_ALLOW_PRIVATE_HOSTS";
+let previousEnv: string | undefined;
+before(() => {
+  previousEnv = process.env[PRIVATE_HOSTS_ENV];
+  process.env[PRIVATE_HOSTS_ENV] = "true";
+});
+after(() => {
+  if (previousEnv === undefined) delete process.env[PRIVATE_HOSTS_ENV];
+  else process.env[PRIVATE_HOSTS_ENV] = previousEnv;
+});
+
+// ── A2A ──────────────────────────────────────────────────────────────────
+
+describe("A2A dispatch", () => {
+  let remoteState = "working";
+  let failNext: string | null = null;
+  let stub: Awaited<ReturnType<typeof startStub>>;
+
+  before(async () => {
+    stub = await startStub(({ body }) => {
+      const rpc = body as {
+        id: string;
+        method: string;
+        params: { id: string };
+      };
+      if (failNext) {
+        const message = failNext;
+        failNext = null;
+        return {
+          body: {
+            jsonrpc: "2.0",
+            id: rpc.id,
+            error: { code: -32000, message },
+          },
+        };
+      }
+      if (rpc.method === "tasks/cancel") {
+        remoteState = "canceled";
+      }
+      return {
+        body: {
+          jsonrpc: "2.0",
+          id: rpc.id,
+          result: {
+            id: rpc.params.id,
+            status: {
+              state: remoteState,
+              message: {
+                role: "agent",
+                parts: [{ kind: "text", text: `Now ${remoteState}` }],
+              },
+            },
+            ...(remoteState === "completed" && {
+              artifacts: [
+                {
+                  name: "summary.md",
+                  parts: [{ kind: "text", text: "The paper shows..." }],
+                },
+              ],
+            }),
+          },
+        },
+      };
+    });
+  });
+  after(() => stub.close());
+  beforeEach(() => {
+    stub.requests.length = 0;
+    remoteState = "working";
+  });
+
+  it("sends tasks/send with the brief, task data and push config", async () => {
+    const update = await sendToAgent("a2a", stub.url, request);
+
+    assert.equal(update.state, "working");
+    assert.equal(update.remoteTaskId, "dispatch_1");
+    assert.equal(update.message, "Now working");
+
+    const [sent] = stub.requests;
+    const rpc = sent.body as {
+      jsonrpc: string;
+      method: string;
+      params: Record<string, unknown>;
+    };
+    assert.equal(sent.method, "POST");
+    assert.equal(rpc.jsonrpc, "2.0");
+    assert.equal(rpc.method, "tasks/send");
+    assert.equal(rpc.params.id, "dispatch_1");
+    assert.equal(rpc.params.sessionId, "task_1");
+    assert.deepEqual(rpc.params.pushNotification, {
+      url: request.callbackUrl,
+      token: "cb_token",
+    });
+    const message = rpc.params.message as {
+      parts: Array<Record<string, unknown>>;
+    };
+    assert.deepEqual(message.parts[0], { type: "text", text: request.brief });
+    assert.equal(message.parts[1].type, "data");
+    assert.equal(
+      (message.parts[1].data as { title: string }).title,
+      "Summarize a paper",
+    );
+  });
+
+  it("polls tasks/get and maps artifacts once completed", async () => {
+    remoteState = "completed";
+    const update = await pollAgent("a2a", stub.url, {
+      remoteTaskId: "dispatch_1",
+      statusUrl: null,
+    });
+
+    assert.equal(stub.requests.length, 1);
+    const rpc = stub.requests[0].body as {
+      method: string;
+      params: { id: string };
+    };
+    assert.equal(rpc.method, "tasks/get");
+    assert.equal(rpc.params.id, "dispatch_1");
+    assert.equal(update?.state, "completed");
+    assert.deepEqual(update?.artifacts, [
+      { kind: "text", name: "summary.md", text: "The paper shows..." },
+    ]);
+  });
+
+  it("sends tasks/cancel for the remote task", async () => {
+    await cancelAtAgent("a2a", stub.url, {
+      remoteTaskId: "dispatch_1",
+      statusUrl: null,
+    });
+
+    assert.equal(stub.requests.length, 1);
+    const rpc = stub.requests[0].body as {
+      method: string;
+      params: { id: string };
+    };
+    assert.equal(rpc.method, "tasks/cancel");
+    assert.equal(rpc.params.id, "dispatch_1");
+  });
+
+  it("throws on a JSON-RPC error, but cancelling never throws", async () => {
+    failNext = "agent is busy";
+    await assert.rejects(
+      sendToAgent("a2a", stub.url, request),
+      /A2A tasks\/send failed: agent is busy/,
+    );
+
+    failNext = "unknown task";
+    const logError = console.error;
+    console.error = () => {};
+    try {
+      await cancelAtAgent("a2a", stub.url, {
+        remoteTaskId: "dispatch_1",
+        statusUrl: null,
+      });
+    } finally {
+      console.error = logError;
+    }
+  });
+
+  it("treats input-required as a failure", async () => {
+    remoteState = "input-required";
+    const update = await pollAgent("a2a", stub.url, {
+      remoteTaskId: "dispatch_1",
+      statusUrl: null,
+    });
+
+    assert.equal(update?.state, "failed");
+    assert.match(update?.error ?? "", /asked for input/);
+  });
+});
+
+// ── MCP ──────────────────────────────────────────────────────────────────
+
+describe("MCP dispatch", () => {
+  const calls: Array<{ tool: string; args: Record<string, unknown> }> = [];
+
+  it("calls the task tool with arguments filled from the task", async () => {
+    const stub = await startMcpStub((server) => {
+      server.registerTool(
+        "search",
+        { description: "Search", inputSchema: { query: z.string() } },
+        async (args) => {
+          calls.push({ tool: "search", args });
+          return { content: [{ type: "text", text: "wrong tool" }] };
+        },
+      );
+      server.registerTool(
+        "run_task",
+        {
+          description: "Run a task",
+          inputSchema: {
+            title: z.string(),
+            budgetSol: z.number(),
+            taskId: z.string(),
+            brief: z.string(),
+          },
+        },
+        async (args) => {
+          calls.push({ tool: "run_task", args });
+          return {
+            content: [
+              { type: "text", text: "Here is the summary." },
+              {
+                type: "resource_link",
+                name: "report.pdf",
+                uri: "https://files.example.com/report.pdf",
+                mimeType: "application/pdf",
+              },
+            ],
+            structuredContent: { words: 198 },
+          };
+        },
+      );
+    });
+
+    try {
+      const update = await sendToAgent("mcp", `${stub.url}/mcp`, request);
+
+      assert.deepEqual(calls, [
+        {
+          tool: "run_task",
+          args: {
+            title: "Summarize a paper",
+            budgetSol: 1.5,
+            taskId: "task_1",
+            brief: request.brief,
+          },
+        },
+      ]);
+      assert.equal(update.state, "completed");
+      assert.deepEqual(update.artifacts, [
+        { kind: "text", text: "Here is the summary." },
+        {
+          kind: "file",
+          name: "report.pdf",
+          mimeType: "application/pdf",
+          uri: "https://files.example.com/report.pdf",
+        },
+        { kind: "data", data: { words: 198 } },
+      ]);
+    } finally {
+      await stub.close();
+    }
+  });
+
+  it("fails when no tool takes tasks", async () => {
+    const stub = await startMcpStub((server) => {
+      for (const name of ["search", "lookup"]) {
+        server.registerTool(
+          name,
+          { description: name, inputSchema: { query: z.string() } },
+          async () => ({ content: [{ type: "text", text: "no" }] }),
+        );
+      }
+    });
+
+    try {
+      const update = await sendToAgent("mcp", `${stub.url}/mcp`, request);
+      assert.equal(update.state, "failed");
+      assert.match(update.error ?? "", /has 2 tools and none of them/);
+    } finally {
+      await stub.close();
+    }
+  });
+
+  it("maps an isError result to a failure with the agent's message", async () => {
+    const stub = await startMcpStub((server) => {
+      server.registerTool(
+        "perform_task",
+        { description: "Do it", inputSchema: { prompt: z.string() } },
+        async () => ({
+          content: [{ type: "text", text: "Out of credits" }],
+          isError: true,
+        }),
+      );
+    });
+
+    try {
+      const update = await sendToAgent("mcp", `${stub.url}/mcp`, request);
+      assert.equal(update.state, "failed");
+      assert.equal(update.message, "Out of credits");
+      assert.equal(update.error, "the agent's tool failed: Out of credits.");
+    } finally {
+      await stub.close();
+    }
+  });
+});
+
+// ── REST ─────────────────────────────────────────────────────────────────
+
+describe("REST dispatch", () => {
+  let postReply: unknown;
+  let statusReply: unknown;
+  let stub: Awaited<ReturnType<typeof startStub>>;
+
+  before(async () => {
+    stub = await startStub(({ method, path }) => {
+      if (method === "POST" && path === "/agent") return { body: postReply };
+      if (method === "GET" && path.startsWith("/status/")) {
+        return { body: statusReply };
+      }
+      if (path === "/moved") {
+        return { status: 302, headers: { Location: "/agent" } };
+      }
+      return { status: 404, body: { error: "not found" } };
+    });
+  });
+  after(() => stub.close());
+  beforeEach(() => {
+    stub.requests.length = 0;
+  });
+
+  it("POSTs the task and resolves a relative statusUrl", async () => {
+    postReply = { id: "r1", status: "accepted", statusUrl: "/status/r1" };
+    const update = await sendToAgent("rest", `${stub.url}/agent`, request);
+
+    const [sent] = stub.requests;
+    const body = sent.body as Record<string, unknown>;
+    assert.equal(sent.method, "POST");
+    assert.equal(body.dispatchId, "dispatch_1");
+    assert.equal(body.brief, request.brief);
+    assert.equal(body.callbackUrl, request.callbackUrl);
+    assert.equal(body.callbackToken, "cb_token");
+    assert.equal((body.task as { id: string }).id, "task_1");
+
+    assert.equal(update.state, "submitted");
+    assert.equal(update.remoteTaskId, "r1");
+    assert.equal(update.statusUrl, `${stub.url}/status/r1`);
+  });
+
+  it("drops a statusUrl the dispatcher may not call", async () => {
+    postReply = { status: "queued", statusUrl: "file:///etc/passwd" };
+    const update = await sendToAgent("rest", `${stub.url}/agent`, request);
+
+    assert.equal(update.state, "submitted");
+    assert.equal(update.statusUrl, undefined);
+  });
+
+  it("treats an empty response as submitted", async () => {
+    postReply = undefined;
+    const update = await sendToAgent("rest", `${stub.url}/agent`, request);
+    assert.deepEqual(update, { state: "submitted" });
+  });
+
+  it("polls the statusUrl and maps deliverables and artifacts", async () => {
+    statusReply = {
+      status: "done",
+      message: "All finished",
+      deliverables: "Summary text",
+      artifacts: [
+        "A plain note",
+        { name: "data.json", data: { ok: true } },
+        { name: "chart", url: "https://files.example.com/chart.png" },
+      ],
+    };
+    const update = await pollAgent("rest", `${stub.url}/agent`, {
+      remoteTaskId: "r1",
+      statusUrl: `${stub.url}/status/r1`,
+    });
+
+    assert.equal(stub.requests[0].method, "GET");
+    assert.equal(stub.requests[0].path, "/status/r1");
+    assert.equal(update?.state, "completed");
+    assert.equal(update?.message, "All finished");
+    assert.deepEqual(update?.artifacts, [
+      { kind: "text", text: "Summary text" },
+      { kind: "text", text: "A plain note" },
+      { kind: "data", name: "data.json", data: { ok: true } },
+      {
+        kind: "file",
+        name: "chart",
+        mimeType: undefined,
+        uri: "https://files.example.com/chart.png",
+      },
+    ]);
+  });
+
+  it("doesn't poll without a statusUrl", async () => {
+    const update = await pollAgent("rest", `${stub.url}/agent`, {
+      remoteTaskId: "r1",
+      statusUrl: null,
+    });
+    assert.equal(update, null);
+    assert.equal(stub.requests.length, 0);
+  });
+
+  it("throws on an HTTP error", async () => {
+    await assert.rejects(
+      sendToAgent("rest", `${stub.url}/missing`, request),
+      /HTTP 404/,
+    );
+  });
+
+  it("never follows redirects", async () => {
+    await assert.rejects(
+      sendToAgent("rest", `${stub.url}/moved`, request),
+      /HTTP 302/,
+    );
+    assert.deepEqual(
+      stub.requests.map((r) => r.path),
+      ["/moved"],
+    );
+  });
+});
+
+// ── Callbacks ────────────────────────────────────────────────────────────
+
+describe("readAgentCallback", () => {
+  const endpoint = "https://agent.example.com/api/tasks";
+
+  it("maps an A2A push notification wrapped in JSON-RPC", () => {
+    const update = readAgentCallback("a2a", endpoint, {
+      jsonrpc: "2.0",
+      result: {
+        id: "dispatch_1",
+        status: { state: "completed" },
+        artifacts: [
+          {
+            name: "report",
+            parts: [
+              {
+                type: "file",
+                file: {
+                  name: "report.pdf",
+                  mimeType: "application/pdf",
+                  uri: "https://files.example.com/report.pdf",
+                },
+              },
+              { type: "data", data: { pages: 3 } },
+            ],
+          },
+        ],
+      },
+    });
+
+    assert.deepEqual(update, {
+      state: "completed",
+      remoteTaskId: "dispatch_1",
+      message: undefined,
+      artifacts: [
+        {
+          kind: "file",
+          name: "report.pdf",
+          mimeType: "application/pdf",
+          uri: "https://files.example.com/report.pdf",
+        },
+        { kind: "data", name: "report", data: { pages: 3 } },
+      ],
+    });
+  });
+
+  it("maps a REST callback and resolves its statusUrl", () => {
+    const update = readAgentCallback("rest", endpoint, {
+      taskId: "r1",
+      state: "running",
+      statusUrl: "status/r1",
+    });
+
+    assert.deepEqual(update, {
+      state: "working",
+      remoteTaskId: "r1",
+      statusUrl: "https://agent.example.com/api/status/r1",
+      message: undefined,
+    });
+  });
+
+  it("drops a callback statusUrl on a private host", () => {
+    process.env[PRIVATE_HOSTS_ENV] = "false";
+    try {
+      const update = readAgentCallback("rest", endpoint, {
+        status: "working",
+        statusUrl: "https://127.0.0.1/status/r1",
+      });
+      assert.equal(update?.statusUrl, undefined);
+    } finally {
+      process.env[PRIVATE_HOSTS_ENV] = "true";
+    }
+  });
+
+  it("ignores payloads without a status, and MCP callbacks", () => {
+    assert.equal(readAgentCallback("rest", endpoint, { hello: "world" }), null);
+    assert.equal(readAgentCallback("a2a", endpoint, { status: {} }), null);
+    assert.equal(
+      readAgentCallback("mcp", endpoint, { status: "completed" }),
+      null,
+    );
+  });
+});
+
+// ── URL policy ───────────────────────────────────────────────────────────
+
+describe("isDispatchableUrl", () => {
+  it("allows only public https URLs by default", () => {
+    assert.equal(
+      isDispatchableUrl("https://agent.example.com/a2a", false),
+      true,
+    );
+    for (const url of [
+      "http://agent.example.com/a2a",
+      "https://localhost/a2a",
+      "https://127.0.0.1/a2a",
+      "https://10.0.0.5/a2a",
+      "https://192.168.1.20/a2a",
+      "https://169.254.169.254/latest/meta-data",
+      "ftp://agent.example.com/a2a",
+      "not a url",
+    ]) {
+      assert.equal(isDispatchableUrl(url, false), false, url);
+    }
+  });
+
+  it("allows private http hosts only when enabled", () => {
+    assert.equal(isDispatchableUrl("http://127.0.0.1:3001/a2a", true), true);
+    assert.equal(isDispatchableUrl("file:///etc/passwd", true), false);
+  });
+
+  it("keeps the dispatcher from calling private hosts", async () => {
+    const stub = await startStub(() => ({ body: { status: "accepted" } }));
+    process.env[PRIVATE_HOSTS_ENV] = "false";
+    try {
+      await assert.rejects(
+        sendToAgent("rest", `${stub.url}/agent`, request),
+        /is not a URL the dispatcher may call/,
+      );
+      assert.equal(stub.requests.length, 0);
+    } finally {
+      process.env[PRIVATE_HOSTS_ENV] = "true";
+      await stub.close();
+    }
+  });
+});
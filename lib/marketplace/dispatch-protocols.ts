@@ -0,0 +1,283 @@
+/**
+ * Marketplace Dispatch Protocols
+ *
+ * Talking to external agents over the protocol their listing declares:
+ *
+ * - A2A: JSON-RPC `tasks/send` with a push notification config for
+ *   callbacks, `tasks/get` to poll, `tasks/cancel` to cancel.
+ * - MCP: a call to the server's task tool, which runs to completion.
+ * - REST: a POST of the task with a callback URL and token. The agent
+ *   answers with its status and, optionally, a statusUrl to poll.
+ *
+ * Requests never follow redirects and only go to URLs the dispatcher may
+ * call (see isDispatchableUrl).
+ */
+
+import { randomUUID } from "crypto";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+
+import {
+  buildMcpArguments,
+  dispatchTaskData,
+  isDispatchableUrl,
+  parseA2aTask,
+  parseDispatchCallback,
+  parseMcpResult,
+  parseRestStatus,
+  pickMcpTool,
+  type DispatchTask,
+  type DispatchUpdate,
+} from "./dispatch-policy";
+import {
+  DISPATCH_MCP_CALL_TIMEOUT_MS,
+  DISPATCH_REQUEST_TIMEOUT_MS,
+  type DispatchProtocol,
+} from "./types";
+
+/** What an agent is sent with a task */
+export interface DispatchRequest {
+  dispatchId: string;
+  task: DispatchTask;
+  brief: string;
+  callbackUrl: string;
+  callbackToken: string;
+}
+
+/** How to find the agent's side of a task once it's been sent */
+export interface RemoteTaskRef {
+  remoteTaskId: string | null;
+  statusUrl: string | null;
+}
+
+/**
+ * Whether dispatches may reach private hosts, for agents running locally
+ * in development. Never set in production.
+ */
+export function allowPrivateDispatchHosts(): boolean {
+  return process.env.MARKETPLACE_DISPATCH_ALLOW_PRIVATE_HOSTS === "true";
+}
+
+async function requestJson(
+  url: string,
+  method: "GET" | "POST",
+  body?: unknown,
+): Promise<unknown> {
+  if (!isDispatchableUrl(url, allowPrivateDispatchHosts())) {
+    throw new Error(`${url} is not a URL the dispatcher may call`);
+  }
+  const res = await fetch(url, {
+    method,
+    headers: {
+      Accept: "application/json",
+      ...(body !== undefined && { "Content-Type": "application/json" }),
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+    redirect: "manual",
+    signal: AbortSignal.timeout(DISPATCH_REQUEST_TIMEOUT_MS),
+  });
+  if (!res.ok) throw new Error(`the agent responded with HTTP ${res.status}`);
+
+  const text = await res.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error("the agent's response wasn't JSON");
+  }
+}
+
+// ── A2A ─────────────────────────────────────────────────────────────────
+
+async function a2aCall(
+  endpoint: string,
+  method: string,
+  params: Record<string, unknown>,
+): Promise<unknown> {
+  const response = (await requestJson(endpoint, "POST", {
+    jsonrpc: "2.0",
+    id: randomUUID(),
+    method,
+    params,
+  })) as { result?: unknown; error?: { message?: unknown } } | null;
+
+  if (response?.error) {
+    const message =
+      typeof response.error.message === "string"
+        ? response.error.message
+        : "unknown error";
+    throw new Error(`A2A ${method} failed: ${message}`);
+  }
+  if (!response || !("result" in response)) {
+    throw new Error(`A2A ${method} returned no result`);
+  }
+  return response.result;
+}
+
+// ── MCP ─────────────────────────────────────────────────────────────────
+
+async function callMcpTool(
+  endpoint: string,
+  request: DispatchRequest,
+): Promise<DispatchUpdate> {
+  const client = new Client({ name: "agentinc-marketplace", version: "1.0.0" });
+  const transport = new StreamableHTTPClientTransport(new URL(endpoint), {
+    requestInit: { redirect: "manual" },
+  });
+
+  try {
+    await client.connect(transport, { timeout: DISPATCH_REQUEST_TIMEOUT_MS });
+    const { tools } = await client.listTools(undefined, {
+      timeout: DISPATCH_REQUEST_TIMEOUT_MS,
+    });
+    const tool = pickMcpTool(tools);
+    if (!tool) {
+      return {
+        state: "failed",
+        error: `the agent's MCP server has ${tools.length} tools and none of them takes tasks.`,
+      };
+    }
+
+    const result = await client.callTool(
+      {
+        name: tool.name,
+        arguments: buildMcpArguments(
+          tool.inputSchema,
+          request.task,
+          request.brief,
+        ),
+      },
+      undefined,
+      { timeout: DISPATCH_MCP_CALL_TIMEOUT_MS },
+    );
+    return parseMcpResult(result);
+  } finally {
+    await client.close().catch(() => {});
+  }
+}
+
+// ── REST ────────────────────────────────────────────────────────────────
+
+/** Resolve a statusUrl against the endpoint, dropping ones we may not call */
+function resolveStatusUrl(
+  update: DispatchUpdate,
+  endpoint: string,
+): DispatchUpdate {
+  if (!update.statusUrl) return update;
+  let statusUrl: string | undefined;
+  try {
+    statusUrl = new URL(update.statusUrl, endpoint).toString();
+  } catch {
+    statusUrl = undefined;
+  }
+  return {
+    ...update,
+    statusUrl:
+      statusUrl && isDispatchableUrl(statusUrl, allowPrivateDispatchHosts())
+        ? statusUrl
+        : undefined,
+  };
+}
+
+// ── Dispatching ─────────────────────────────────────────────────────────
+
+/**
+ * Send a task to an agent. Returns the agent's first status; throws when
+ * the agent can't be reached or refuses the request.
+ */
+export async function sendToAgent(
+  protocol: DispatchProtocol,
+  endpoint: string,
+  request: DispatchRequest,
+): Promise<DispatchUpdate> {
+  switch (protocol) {
+    case "a2a": {
+      const result = await a2aCall(endpoint, "tasks/send", {
+        id: request.dispatchId,
+        sessionId: request.task.id,
+        message: {
+          role: "user",
+          parts: [
+            { type: "text", text: request.brief },
+            { type: "data", data: dispatchTaskData(request.task) },
+          ],
+        },
+        pushNotification: {
+          url: request.callbackUrl,
+          token: request.callbackToken,
+        },
+        metadata: { marketplaceTaskId: request.task.id },
+      });
+      return (
+        parseA2aTask(result) ?? {
+          state: "submitted",
+          remoteTaskId: request.dispatchId,
+        }
+      );
+    }
+    case "mcp":
+      return callMcpTool(endpoint, request);
+    case "rest": {
+      const result = await requestJson(endpoint, "POST", {
+        dispatchId: request.dispatchId,
+        task: dispatchTaskData(request.task),
+        brief: request.brief,
+        callbackUrl: request.callbackUrl,
+        callbackToken: request.callbackToken,
+      });
+      return resolveStatusUrl(
+        parseRestStatus(result) ?? { state: "submitted" },
+        endpoint,
+      );
+    }
+  }
+}
+
+/**
+ * Ask the agent for its task's status. Returns null when the protocol
+ * can't be polled (MCP, or a REST agent without a statusUrl); throws when
+ * the agent can't be reached.
+ */
+export async function pollAgent(
+  protocol: DispatchProtocol,
+  endpoint: string,
+  ref: RemoteTaskRef,
+): Promise<DispatchUpdate | null> {
+  if (protocol === "a2a" && ref.remoteTaskId) {
+    return parseA2aTask(
+      await a2aCall(endpoint, "tasks/get", { id: ref.remoteTaskId }),
+    );
+  }
+  if (protocol === "rest" && ref.statusUrl) {
+    const status = parseRestStatus(await requestJson(ref.statusUrl, "GET"));
+    return status && resolveStatusUrl(status, endpoint);
+  }
+  return null;
+}
+
+/** Read a callback from the agent; null when it carries no status */
+export function readAgentCallback(
+  protocol: DispatchProtocol,
+  endpoint: string,
+  payload: unknown,
+): DispatchUpdate | null {
+  const update = parseDispatchCallback(protocol, payload);
+  return update && resolveStatusUrl(update, endpoint);
+}
+
+/**
+ * Tell the agent to stop, where the protocol allows it (A2A). Never
+ * throws: the agent's late results are ignored either way.
+ */
+export async function cancelAtAgent(
+  protocol: DispatchProtocol,
+  endpoint: string,
+  ref: RemoteTaskRef,
+): Promise<void> {
+  if (protocol !== "a2a" || !ref.remoteTaskId) return;
+  try {
+    await a2aCall(endpoint, "tasks/cancel", { id: ref.remoteTaskId });
+  } catch (error) {
+    console.error("[Marketplace] Failed to cancel dispatched task:", error);
+  }
+}
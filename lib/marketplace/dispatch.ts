@@ -0,0 +1,28 @@
+/**
+ * Marketplace External Dispatch
+ *
+ * Starts the durable workflow that sends a task hired from an external
+ * agent's listing to that agent and brings back its deliverables (see
+ * workflows/marketplace/dispatch.ts).
+ */
+
+import { start } from "workflow/api";
+import prisma from "@/lib/prisma";
+import { externalDispatchWorkflow } from "@/workflows/marketplace/dispatch";
+
+/**
+ * Dispatch a task just hired from an external agent's listing. Never
+ * throws: if the workflow can't start, the registrant can still do the
+ * work by hand.
+ */
+export async function startExternalDispatch(taskId: string): Promise<void> {
+  try {
+    const run = await start(externalDispatchWorkflow, [taskId]);
+    await prisma.marketplaceTask.update({
+      where: { id: taskId },
+      data: { workRunId: run.runId },
+    });
+  } catch (error) {
+    console.error("[Marketplace] Failed to start external dispatch:", error);
+  }
+}
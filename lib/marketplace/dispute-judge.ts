@@ -0,0 +1,81 @@
+/**
+ * Marketplace Dispute Judge
+ *
+ * The AI arbitrator. Reads the task, the deliverables, and both parties'
+ * evidence, and decides what share of the escrow the worker has earned.
+ * Returns null when it can't reach a usable ruling, in which case the
+ * dispute falls back to a platform admin.
+ */
+
+import { generateText } from "ai";
+
+import { parseJudgeRuling } from "./dispute-policy";
+import type { DisputeParty, DisputeRuling } from "./types";
+
+const JUDGE_MODEL = "anthropic/claude-sonnet-4";
+
+/** Everything the judge sees about a dispute */
+export interface DisputeCaseFile {
+  title: string;
+  description: string;
+  requirements: string[];
+  budgetSol: number;
+  deliverables: string | null;
+  reason: string;
+  evidence: Array<{
+    party: DisputeParty;
+    text: string;
+    attachments: string[];
+    createdAt: Date;
+  }>;
+}
+
+function formatCaseFile(caseFile: DisputeCaseFile): string {
+  const evidence = caseFile.evidence
+    .map((item) => {
+      const files =
+        item.attachments.length > 0
+          ? `\nAttached files: ${item.attachments.join(", ")}`
+          : "";
+      return `[${item.party.toUpperCase()}, ${item.createdAt.toISOString()}]\n${item.text}${files}`;
+    })
+    .join("\n\n");
+
+  return [
+    `TASK: ${caseFile.title}`,
+    `Escrow: ${caseFile.budgetSol} SOL`,
+    `Description:\n${caseFile.description}`,
+    caseFile.requirements.length > 0
+      ? `Requirements:\n${caseFile.requirements.map((r) => `- ${r}`).join("\n")}`
+      : "",
+    `Deliverables submitted by the worker:\n${caseFile.deliverables ?? "(none)"}`,
+    `Poster's dispute reason:\n${caseFile.reason}`,
+    `Evidence:\n\n${evidence || "(none)"}`,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * Ask the model for a ruling. Never throws; failures are logged and
+ * returned as null.
+ */
+export async function judgeDispute(
+  caseFile: DisputeCaseFile,
+): Promise<DisputeRuling | null> {
+  try {
+    const result = await generateText({
+      model: JUDGE_MODEL,
+      system: `You are an impartial arbitrator for a freelance task marketplace. A poster escrowed a SOL payment for a task, the worker submitted deliverables, and the poster disputed them. Decide what share of the escrow the worker has earned, judged against the task's description and requirements as written. Weigh both parties' evidence; claims without support count for less. Attached files are listed by URL only and you cannot open them, so rely on what the parties say about them. Reply with only a JSON object: {"workerPercent": <whole number 0-100>, "reasoning": "<2-5 sentences addressed to both parties>"}. 100 pays the worker in full, 0 refunds the poster in full.`,
+      prompt: formatCaseFile(caseFile),
+    });
+    const ruling = parseJudgeRuling(result.text);
+    if (!ruling) {
+      console.error("[Dispute Judge] Unusable ruling:", result.text);
+    }
+    return ruling;
+  } catch (error) {
+    console.error("[Dispute Judge] Error:", error);
+    return null;
+  }
+}
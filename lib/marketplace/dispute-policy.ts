@@ -0,0 +1,147 @@
+/**
+ * Marketplace Dispute Policy
+ *
+ * Pure helpers for disputes: checking evidence, turning a ruling into an
+ * outcome and escrow split, tallying jury votes, and reading the AI
+ * judge's answer.
+ */
+
+import {
+  DISPUTE_JUROR_QUORUM,
+  MAX_DISPUTE_ATTACHMENTS,
+  MAX_DISPUTE_EVIDENCE_LENGTH,
+  type DisputeOutcome,
+  type DisputeParty,
+  type DisputeRuling,
+} from "./types";
+
+const LAMPORTS_PER_SOL = 1_000_000_000;
+
+/** Uploads go to Vercel Blob; evidence can't point anywhere else */
+const ATTACHMENT_HOST_PATTERN = /\.public\.blob\.vercel-storage\.com$/;
+
+/**
+ * Which side of a task the user is on. An agent's work counts as its
+ * creator's.
+ */
+export function disputePartyOf(
+  task: {
+    posterId: string;
+    workerId: string | null;
+    workerAgent?: { createdById: string | null } | null;
+  },
+  userId: string,
+): DisputeParty | null {
+  if (task.posterId === userId) return "poster";
+  if (task.workerId === userId || task.workerAgent?.createdById === userId) {
+    return "worker";
+  }
+  return null;
+}
+
+/** A whole percentage from 0 to 100, or null */
+export function parseWorkerPercent(value: unknown): number | null {
+  return typeof value === "number" &&
+    Number.isInteger(value) &&
+    value >= 0 &&
+    value <= 100
+    ? value
+    : null;
+}
+
+/** All to the worker is a release, none is a refund, anything else a split */
+export function outcomeForPercent(workerPercent: number): DisputeOutcome {
+  if (workerPercent >= 100) return "release";
+  if (workerPercent <= 0) return "refund";
+  return "split";
+}
+
+/**
+ * Divide an escrow between worker and poster. Works in lamports so the two
+ * shares always add up to the escrow.
+ */
+export function splitEscrow(
+  amountSol: number,
+  workerPercent: number,
+): { workerSol: number; posterSol: number } {
+  const total = Math.round(amountSol * LAMPORTS_PER_SOL);
+  const worker = Math.floor((total * workerPercent) / 100);
+  return {
+    workerSol: worker / LAMPORTS_PER_SOL,
+    posterSol: (total - worker) / LAMPORTS_PER_SOL,
+  };
+}
+
+function isAttachmentUrl(value: unknown): boolean {
+  if (typeof value !== "string" || value.length > 500) return false;
+  try {
+    const url = new URL(value);
+    return (
+      url.protocol === "https:" && ATTACHMENT_HOST_PATTERN.test(url.hostname)
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check a statement and its attachments. Returns an error message, or null
+ * when valid.
+ */
+export function validateDisputeEvidence(
+  text: unknown,
+  attachments: unknown = [],
+): string | null {
+  if (typeof text !== "string" || !text.trim()) {
+    return "Evidence text is required and must be a non-empty string";
+  }
+  if (text.length > MAX_DISPUTE_EVIDENCE_LENGTH) {
+    return `Evidence text must be under ${MAX_DISPUTE_EVIDENCE_LENGTH.toLocaleString()} characters`;
+  }
+  if (!Array.isArray(attachments)) return "attachments must be an array";
+  if (attachments.length > MAX_DISPUTE_ATTACHMENTS) {
+    return `At most ${MAX_DISPUTE_ATTACHMENTS} attachments per submission`;
+  }
+  if (!attachments.every(isAttachmentUrl)) {
+    return "Attachments must be files uploaded through the dispute upload endpoint";
+  }
+  return null;
+}
+
+/**
+ * The jury's ruling: the stake-weighted median of the votes, so no single
+ * large staker can drag the split to an extreme. Null without a quorum.
+ */
+export function tallyJurorVotes(
+  votes: Array<{ workerPercent: number; stakeWeight: number }>,
+): number | null {
+  if (votes.length < DISPUTE_JUROR_QUORUM) return null;
+
+  const sorted = [...votes].sort((a, b) => a.workerPercent - b.workerPercent);
+  const totalWeight = sorted.reduce((sum, v) => sum + v.stakeWeight, 0);
+  let cumulative = 0;
+  for (const vote of sorted) {
+    cumulative += vote.stakeWeight;
+    if (cumulative >= totalWeight / 2) return vote.workerPercent;
+  }
+  return sorted[sorted.length - 1].workerPercent;
+}
+
+/**
+ * Read the AI judge's reply: a JSON object with workerPercent and
+ * reasoning, possibly wrapped in a code fence. Null if unusable.
+ */
+export function parseJudgeRuling(text: string): DisputeRuling | null {
+  const match = text.match(/\{[\s\S]*\}/);
+  if (!match) return null;
+  try {
+    const parsed = JSON.parse(match[0]) as Record<string, unknown>;
+    const workerPercent = parseWorkerPercent(parsed.workerPercent);
+    const reasoning =
+      typeof parsed.reasoning === "string" ? parsed.reasoning.trim() : "";
+    if (workerPercent === null || !reasoning) return null;
+    return { workerPercent, reasoning: reasoning.slice(0, 5000) };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,1051 @@
+/**
+ * Marketplace Disputes
+ *
+ * A poster can dispute deliverables that are in review. From there:
+ *
+ *   open        — both parties submit evidence until the response deadline.
+ *                 A worker who never responds loses by default (refund).
+ *   voting      — jury disputes: staked $AGENTINC holders vote on a split
+ *                 until the voting deadline. No quorum hands it to an admin.
+ *   arbitration — waiting on a platform admin; also where AI disputes land
+ *                 if the judge can't reach a ruling.
+ *   settling    — the ruling is paid out of escrow with releaseEscrow and
+ *                 refundEscrow. Failed transfers are retried by the cron.
+ *   resolved    — settled. `closed` means the worker resubmitted instead.
+ *
+ * Admins (MARKETPLACE_ARBITRATOR_IDS) can rule at any stage before
+ * settlement. Every step is written to the dispute's event log.
+ */
+
+import prisma from "@/lib/prisma";
+import type { Prisma } from "@/app/generated/prisma/client";
+import { AGENTINC_TOKEN_MINT } from "@/lib/constants/mint";
+import { AGENTINC_TOKEN_DECIMALS } from "@/lib/revenue/constants";
+import { findStakePool, getStakedAmount } from "@/lib/staking/client";
+import { sendEmail, disputeResolvedEmail } from "@/lib/email";
+
+import {
+  claimTaskTokenFees,
+  heldEscrowSol,
+  refundEscrow,
+  releaseEscrow,
+  resolveWorkerWallet,
+} from "./escrow";
+import { judgeDispute } from "./dispute-judge";
+import { hasMilestoneReleaseInFlight } from "./milestones";
+import {
+  disputePartyOf,
+  outcomeForPercent,
+  parseWorkerPercent,
+  splitEscrow,
+  tallyJurorVotes,
+  validateDisputeEvidence,
+} from "./dispute-policy";
+import {
+  ACTIVE_DISPUTE_STATUSES,
+  ARBITRATION_METHODS,
+  DISPUTE_JUROR_MIN_STAKE,
+  DISPUTE_RESPONSE_WINDOW_MS,
+  DISPUTE_VOTING_WINDOW_MS,
+  MAX_DISPUTE_EVIDENCE_PER_PARTY,
+  MAX_DISPUTE_SETTLEMENT_ATTEMPTS,
+  type ArbitrationMethod,
+  type DisputeParty,
+  type DisputeRuling,
+} from "./types";
+
+type DisputeResult<T> = { ok: true } & T;
+type DisputeError = { ok: false; error: string };
+
+/** Who made a ruling: an admin, the AI judge, the jury, or the deadline */
+type RuledBy = "admin" | "ai" | "jurors" | "default";
+
+/** How long a failed settlement waits before the cron retries it */
+const SETTLEMENT_RETRY_DELAY_MS = 10 * 60 * 1000;
+
+/** Disputes handled per step of a cron run */
+const CRON_BATCH_SIZE = 10;
+
+const TASK_PARTIES_SELECT = {
+  posterId: true,
+  workerId: true,
+  workerAgent: { select: { createdById: true } },
+} as const;
+
+function isUniqueViolation(error: unknown): boolean {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "code" in error &&
+    (error as { code: string }).code === "P2002"
+  );
+}
+
+/** Whether the user is a platform arbitrator */
+export function isDisputeArbitrator(userId: string): boolean {
+  return (process.env.MARKETPLACE_ARBITRATOR_IDS ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean)
+    .includes(userId);
+}
+
+async function recordEvent(
+  disputeId: string,
+  type: string,
+  actorId: string | null,
+  details?: Record<string, unknown>,
+): Promise<void> {
+  await prisma.marketplaceDisputeEvent.create({
+    data: {
+      disputeId,
+      type,
+      actorId,
+      ...(details && { details: details as Prisma.InputJsonValue }),
+    },
+  });
+}
+
+/** The task's latest dispute that hasn't been settled or withdrawn */
+async function findActiveDispute(taskId: string) {
+  return prisma.marketplaceDispute.findFirst({
+    where: { taskId, status: { in: [...ACTIVE_DISPUTE_STATUSES, "settling"] } },
+    orderBy: { createdAt: "desc" as const },
+    select: { id: true },
+  });
+}
+
+/** Whether the task has a dispute still waiting on a ruling or payout */
+export async function hasActiveDispute(taskId: string): Promise<boolean> {
+  return !!(await findActiveDispute(taskId));
+}
+
+/**
+ * $AGENTINC the user has staked, which is their weight as a juror. Zero
+ * without a wallet or a platform stake pool.
+ */
+export async function getJurorStake(userId: string): Promise<number> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { activeWallet: { select: { address: true } } },
+  });
+  if (!user?.activeWallet?.address) return 0;
+
+  try {
+    const pool = await findStakePool(AGENTINC_TOKEN_MINT);
+    if (!pool) return 0;
+    return await getStakedAmount(
+      user.activeWallet.address,
+      pool.publicKey.toBase58(),
+      AGENTINC_TOKEN_DECIMALS,
+    );
+  } catch (error) {
+    console.error("[Disputes] Failed to read juror stake:", error);
+    return 0;
+  }
+}
+
+// ── Opening and evidence ──────────────────────────────────────────────
+
+/**
+ * Dispute a task in review. The reason is the poster's first piece of
+ * evidence, and the worker's response deadline starts now.
+ */
+export async function openDispute(
+  taskId: string,
+  userId: string,
+  input: {
+    reason: string;
+    attachments?: string[];
+    arbitrationMethod?: ArbitrationMethod;
+  },
+): Promise<
+  DisputeResult<{ disputeId: string; responseDeadline: Date }> | DisputeError
+> {
+  const invalid = validateDisputeEvidence(input.reason, input.attachments);
+  if (invalid) return { ok: false, error: invalid };
+
+  const arbitrationMethod = input.arbitrationMethod ?? "admin";
+  if (!(ARBITRATION_METHODS as readonly string[]).includes(arbitrationMethod)) {
+    return {
+      ok: false,
+      error: `arbitrationMethod must be one of: ${ARBITRATION_METHODS.join(", ")}`,
+    };
+  }
+
+  const reason = input.reason.trim();
+  const attachments = input.attachments ?? [];
+  const responseDeadline = new Date(Date.now() + DISPUTE_RESPONSE_WINDOW_MS);
+
+  const dispute = await prisma.$transaction(async (tx) => {
+    // Atomic status transition so a concurrent approve can't also win
+    const { count } = await tx.marketplaceTask.updateMany({
+      where: { id: taskId, posterId: userId, status: "review" },
+      data: { status: "disputed", disputeReason: reason },
+    });
+    if (count === 0) return null;
+
+    return tx.marketplaceDispute.create({
+      data: {
+        taskId,
+        openedById: userId,
+        reason,
+        arbitrationMethod,
+        responseDeadline,
+        evidence: {
+          create: {
+            party: "poster",
+            text: reason,
+            attachments,
+            submittedById: userId,
+          },
+        },
+        events: {
+          create: {
+            type: "opened",
+            actorId: userId,
+            details: {
+              arbitrationMethod,
+              responseDeadline: responseDeadline.toISOString(),
+            },
+          },
+        },
+      },
+      select: { id: true },
+    });
+  });
+
+  if (!dispute) {
+    return { ok: false, error: "Task is no longer in review" };
+  }
+  return { ok: true, disputeId: dispute.id, responseDeadline };
+}
+
+/** Add a statement and files to the task's open dispute */
+export async function submitDisputeEvidence(
+  taskId: string,
+  userId: string,
+  input: { text: string; attachments?: string[] },
+): Promise<DisputeResult<{ evidenceId: string }> | DisputeError> {
+  const invalid = validateDisputeEvidence(input.text, input.attachments);
+  if (invalid) return { ok: false, error: invalid };
+
+  const dispute = await prisma.marketplaceDispute.findFirst({
+    where: { taskId, status: "open" },
+    orderBy: { createdAt: "desc" as const },
+    select: {
+      id: true,
+      responseDeadline: true,
+      task: { select: TASK_PARTIES_SELECT },
+    },
+  });
+  if (!dispute) {
+    return { ok: false, error: "This task has no dispute open for evidence" };
+  }
+
+  const party = disputePartyOf(dispute.task, userId);
+  if (!party) {
+    return {
+      ok: false,
+      error: "Only the poster and worker can submit evidence",
+    };
+  }
+  if (dispute.responseDeadline < new Date()) {
+    return { ok: false, error: "The evidence window has closed" };
+  }
+
+  const submitted = await prisma.marketplaceDisputeEvidence.count({
+    where: { disputeId: dispute.id, party },
+  });
+  if (submitted >= MAX_DISPUTE_EVIDENCE_PER_PARTY) {
+    return {
+      ok: false,
+      error: `Each party can submit at most ${MAX_DISPUTE_EVIDENCE_PER_PARTY} pieces of evidence`,
+    };
+  }
+
+  const attachments = input.attachments ?? [];
+  const evidence = await prisma.marketplaceDisputeEvidence.create({
+    data: {
+      disputeId: dispute.id,
+      party,
+      text: input.text.trim(),
+      attachments,
+      submittedById: userId,
+    },
+    select: { id: true },
+  });
+  await recordEvent(dispute.id, "evidence", userId, {
+    party,
+    evidenceId: evidence.id,
+    attachments: attachments.length,
+  });
+
+  return { ok: true, evidenceId: evidence.id };
+}
+
+/**
+ * The worker is resubmitting deliverables, which replaces the disputed
+ * work: withdraw any dispute that hasn't been ruled on. False if a ruling
+ * is already being paid out, in which case the resubmission must wait.
+ */
+export async function closeDisputeOnResubmission(
+  taskId: string,
+  userId: string,
+): Promise<boolean> {
+  const dispute = await findActiveDispute(taskId);
+  if (!dispute) return true;
+
+  const { count } = await prisma.marketplaceDispute.updateMany({
+    where: { id: dispute.id, status: { in: ACTIVE_DISPUTE_STATUSES } },
+    data: { status: "closed", resolvedAt: new Date() },
+  });
+  if (count === 0) return false;
+
+  await recordEvent(dispute.id, "closed", userId, {
+    reason: "The worker resubmitted deliverables",
+  });
+  return true;
+}
+
+// ── Viewing ───────────────────────────────────────────────────────────
+
+const DISPUTE_DETAIL_SELECT = {
+  id: true,
+  status: true,
+  reason: true,
+  arbitrationMethod: true,
+  responseDeadline: true,
+  votingDeadline: true,
+  outcome: true,
+  workerPercent: true,
+  ruling: true,
+  ruledBy: true,
+  ruledAt: true,
+  releaseTxSignature: true,
+  refundTxSignature: true,
+  settlementError: true,
+  resolvedAt: true,
+  createdAt: true,
+  evidence: {
+    orderBy: { createdAt: "asc" as const },
+    select: {
+      id: true,
+      party: true,
+      text: true,
+      attachments: true,
+      createdAt: true,
+    },
+  },
+  events: {
+    orderBy: { createdAt: "asc" as const },
+    select: { id: true, type: true, details: true, createdAt: true },
+  },
+  votes: {
+    select: {
+      jurorId: true,
+      workerPercent: true,
+      stakeWeight: true,
+      reason: true,
+    },
+  },
+  task: { select: TASK_PARTIES_SELECT },
+} as const;
+
+type DisputeDetailRow = Prisma.MarketplaceDisputeGetPayload<{
+  select: typeof DISPUTE_DETAIL_SELECT;
+}>;
+
+export type DisputeViewerRole = DisputeParty | "arbitrator" | "juror";
+
+/**
+ * A dispute as its viewer may see it. Individual votes stay hidden until
+ * the ruling so early votes can't sway later jurors.
+ */
+function toDisputeView(
+  row: Omit<DisputeDetailRow, "task">,
+  userId: string,
+  role: DisputeViewerRole,
+) {
+  const { votes, ...rest } = row;
+  const ruled = !ACTIVE_DISPUTE_STATUSES.some((s) => s === row.status);
+  const myVote = votes.find((v) => v.jurorId === userId) ?? null;
+  return {
+    ...rest,
+    role,
+    canRule: role === "arbitrator" && !ruled,
+    voteCount: votes.length,
+    myVote: myVote && {
+      workerPercent: myVote.workerPercent,
+      reason: myVote.reason,
+    },
+    votes: ruled
+      ? votes.map(({ workerPercent, stakeWeight, reason }) => ({
+          workerPercent,
+          stakeWeight,
+          reason,
+        }))
+      : [],
+  };
+}
+
+export type DisputeView = ReturnType<typeof toDisputeView>;
+
+/**
+ * The task's latest dispute, for the parties, arbitrators, and — while the
+ * jury is out — anyone staked enough to sit on it. Null if there is none
+ * or the user can't see it.
+ */
+export async function getTaskDispute(
+  taskId: string,
+  userId: string,
+): Promise<DisputeView | null> {
+  const row = await prisma.marketplaceDispute.findFirst({
+    where: { taskId },
+    orderBy: { createdAt: "desc" as const },
+    select: DISPUTE_DETAIL_SELECT,
+  });
+  if (!row) return null;
+  const { task, ...dispute } = row;
+
+  const party = disputePartyOf(task, userId);
+  if (party) return toDisputeView(dispute, userId, party);
+  if (isDisputeArbitrator(userId)) {
+    return toDisputeView(dispute, userId, "arbitrator");
+  }
+
+  const isJuror =
+    dispute.votes.some((v) => v.jurorId === userId) ||
+    (dispute.status === "voting" &&
+      (await getJurorStake(userId)) >= DISPUTE_JUROR_MIN_STAKE);
+  return isJuror ? toDisputeView(dispute, userId, "juror") : null;
+}
+
+/** Disputes waiting on the jury, for the juror queue */
+export async function listJuryDisputes(userId: string) {
+  const rows = await prisma.marketplaceDispute.findMany({
+    where: {
+      status: "voting",
+      task: { posterId: { not: userId } },
+    },
+    orderBy: { votingDeadline: "asc" as const },
+    take: 50,
+    select: {
+      id: true,
+      votingDeadline: true,
+      task: {
+        select: {
+          id: true,
+          title: true,
+          budgetSol: true,
+          ...TASK_PARTIES_SELECT,
+        },
+      },
+      votes: { where: { jurorId: userId }, select: { id: true } },
+      _count: { select: { votes: true, evidence: true } },
+    },
+  });
+  return rows
+    .filter((row) => !disputePartyOf(row.task, userId))
+    .map((row) => ({
+      disputeId: row.id,
+      taskId: row.task.id,
+      title: row.task.title,
+      budgetSol: Number(row.task.budgetSol),
+      votingDeadline: row.votingDeadline,
+      voteCount: row._count.votes,
+      evidenceCount: row._count.evidence,
+      voted: row.votes.length > 0,
+    }));
+}
+
+// ── Jury ──────────────────────────────────────────────────────────────
+
+/** Cast a juror's vote on the share of the escrow the worker has earned */
+export async function castDisputeVote(
+  taskId: string,
+  userId: string,
+  input: { workerPercent: unknown; reason?: string },
+): Promise<DisputeResult<{ stakeWeight: number }> | DisputeError> {
+  const workerPercent = parseWorkerPercent(input.workerPercent);
+  if (workerPercent === null) {
+    return { ok: false, error: "workerPercent must be a whole number 0-100" };
+  }
+  if (input.reason !== undefined && typeof input.reason !== "string") {
+    return { ok: false, error: "reason must be a string" };
+  }
+  const reason = input.reason?.trim().slice(0, 2000) || null;
+
+  const dispute = await prisma.marketplaceDispute.findFirst({
+    where: { taskId, status: "voting" },
+    orderBy: { createdAt: "desc" as const },
+    select: {
+      id: true,
+      votingDeadline: true,
+      task: { select: TASK_PARTIES_SELECT },
+    },
+  });
+  if (!dispute) {
+    return { ok: false, error: "This task's dispute isn't open for voting" };
+  }
+  if (dispute.votingDeadline && dispute.votingDeadline < new Date()) {
+    return { ok: false, error: "Voting has closed" };
+  }
+  if (disputePartyOf(dispute.task, userId)) {
+    return { ok: false, error: "Parties to a dispute can't vote on it" };
+  }
+
+  const stakeWeight = await getJurorStake(userId);
+  if (stakeWeight < DISPUTE_JUROR_MIN_STAKE) {
+    return {
+      ok: false,
+      error: `Jurors need at least ${DISPUTE_JUROR_MIN_STAKE.toLocaleString()} $AGENTINC staked`,
+    };
+  }
+
+  try {
+    await prisma.marketplaceDisputeVote.create({
+      data: {
+        disputeId: dispute.id,
+        jurorId: userId,
+        workerPercent,
+        stakeWeight,
+        reason,
+      },
+    });
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return { ok: false, error: "You have already voted on this dispute" };
+    }
+    throw error;
+  }
+  // The split stays private until the ruling
+  await recordEvent(dispute.id, "vote", userId, { stakeWeight });
+
+  return { ok: true, stakeWeight };
+}
+
+// ── Ruling and settlement ─────────────────────────────────────────────
+
+/**
+ * Rule on a dispute and pay out the escrow. Only the first ruling counts;
+ * a dispute already ruled on is left alone.
+ */
+export async function ruleDispute(
+  disputeId: string,
+  ruling: DisputeRuling,
+  by: { ruledBy: RuledBy; arbitratorId?: string },
+): Promise<
+  DisputeResult<{ workerSol: number; posterSol: number }> | DisputeError
+> {
+  const workerPercent = parseWorkerPercent(ruling.workerPercent);
+  if (workerPercent === null) {
+    return { ok: false, error: "workerPercent must be a whole number 0-100" };
+  }
+  const reasoning = ruling.reasoning.trim();
+  if (!reasoning) {
+    return { ok: false, error: "A ruling needs its reasoning" };
+  }
+  const outcome = outcomeForPercent(workerPercent);
+
+  const { count } = await prisma.marketplaceDispute.updateMany({
+    where: { id: disputeId, status: { in: ACTIVE_DISPUTE_STATUSES } },
+    data: {
+      status: "settling",
+      outcome,
+      workerPercent,
+      ruling: reasoning.slice(0, 5000),
+      ruledBy: by.ruledBy,
+      arbitratorId: by.arbitratorId ?? null,
+      ruledAt: new Date(),
+    },
+  });
+  if (count === 0) {
+    return { ok: false, error: "This dispute has already been ruled on" };
+  }
+  await recordEvent(disputeId, "ruled", by.arbitratorId ?? null, {
+    outcome,
+    workerPercent,
+    ruledBy: by.ruledBy,
+  });
+
+  const settled = await settleDispute(disputeId);
+  if (!settled.ok) {
+    return {
+      ok: false,
+      error: `Ruling recorded, but the payout failed and will be retried: ${settled.error}`,
+    };
+  }
+  return settled;
+}
+
+/** The escrow status after a settlement paid out these shares */
+function settledEscrowStatus(workerSol: number, posterSol: number) {
+  if (workerSol > 0 && posterSol > 0) return "split";
+  return workerSol > 0 ? "released" : "refunded";
+}
+
+/**
+ * Pay out a ruled dispute: the worker's share with releaseEscrow, the rest
+ * back to the poster with refundEscrow. Each leg is marked before it's sent
+ * and recorded as it lands, so a retry after a partial failure only sends
+ * what's still owed, and a leg whose outcome is unknown is never resent.
+ */
+export async function settleDispute(
+  disputeId: string,
+): Promise<
+  DisputeResult<{ workerSol: number; posterSol: number }> | DisputeError
+> {
+  const dispute = await prisma.marketplaceDispute.findUnique({
+    where: { id: disputeId },
+    select: {
+      status: true,
+      workerPercent: true,
+      ruling: true,
+      settlementAttempts: true,
+      releaseStartedAt: true,
+      releaseTxSignature: true,
+      refundStartedAt: true,
+      refundTxSignature: true,
+      task: {
+        select: {
+          id: true,
+          title: true,
+          posterId: true,
+          workerId: true,
+          workerAgentId: true,
+          workerAgent: { select: { createdById: true } },
+          escrowAmount: true,
+          escrowStatus: true,
+          escrowReleasedSol: true,
+          budgetSol: true,
+          tokenMint: true,
+          tokenSymbol: true,
+          tokenFeesClaimed: true,
+          featuredImage: true,
+        },
+      },
+    },
+  });
+  if (!dispute || dispute.status !== "settling") {
+    return { ok: false, error: "Dispute is not awaiting settlement" };
+  }
+  if (dispute.settlementAttempts >= MAX_DISPUTE_SETTLEMENT_ATTEMPTS) {
+    return {
+      ok: false,
+      error: "Settlement attempts exhausted; this dispute needs manual review",
+    };
+  }
+  // A leg was sent but never recorded: it may have gone out, so sending it
+  // again could pay twice
+  const releaseUnknown =
+    !!dispute.releaseStartedAt && !dispute.releaseTxSignature;
+  const refundUnknown =
+    !!dispute.refundStartedAt &&
+    !dispute.refundTxSignature &&
+    dispute.task.escrowStatus !== "refunded";
+  if (releaseUnknown || refundUnknown) {
+    return {
+      ok: false,
+      error:
+        "A settlement payment's outcome is unknown; this dispute needs manual review",
+    };
+  }
+  // The split would include escrow a milestone payment may already have
+  // sent. Disputed tasks can't start new ones, so this check can't go stale.
+  if (await hasMilestoneReleaseInFlight(dispute.task.id)) {
+    return {
+      ok: false,
+      error:
+        "A milestone payment is in progress or unresolved; settle it before the dispute",
+    };
+  }
+
+  // Claim this attempt so two settlers never send the same leg
+  const { count: claimed } = await prisma.marketplaceDispute.updateMany({
+    where: {
+      id: disputeId,
+      status: "settling",
+      settlementAttempts: dispute.settlementAttempts,
+    },
+    data: { settlementAttempts: { increment: 1 } },
+  });
+  if (claimed === 0) {
+    return { ok: false, error: "This dispute is already being settled" };
+  }
+
+  const { task } = dispute;
+  const workerPercent = dispute.workerPercent ?? 0;
+  // A refund leg that landed has already flipped the escrow to refunded
+  const refundDone =
+    !!dispute.refundTxSignature || task.escrowStatus === "refunded";
+  const escrowSol =
+    task.escrowStatus === "held" || refundDone ? heldEscrowSol(task) : 0;
+  const { workerSol, posterSol } = splitEscrow(escrowSol, workerPercent);
+
+  const fail = async (error: string): Promise<DisputeError> => {
+    await prisma.marketplaceDispute.update({
+      where: { id: disputeId },
+      data: { settlementError: error },
+    });
+    await recordEvent(disputeId, "settlement_failed", null, {
+      error,
+      attempt: dispute.settlementAttempts + 1,
+    });
+    return { ok: false, error };
+  };
+
+  let releaseTx = dispute.releaseTxSignature;
+  let refundTx = dispute.refundTxSignature;
+
+  if (workerSol > 0 && !releaseTx) {
+    const workerWallet = await resolveWorkerWallet(task);
+    if (!workerWallet) return fail("Worker has no wallet configured");
+
+    await prisma.marketplaceDispute.update({
+      where: { id: disputeId },
+      data: { releaseStartedAt: new Date() },
+    });
+    let result;
+    try {
+      result = await releaseEscrow(task.id, workerWallet, workerSol, {
+        skipStatusUpdate: true,
+      });
+    } catch (error) {
+      // The transfer may have gone out; leave the leg marked for review
+      const message = error instanceof Error ? error.message : String(error);
+      console.error("[Disputes] Worker payout threw:", error);
+      return fail(`Worker payout outcome unknown: ${message}`);
+    }
+    if (!result.success) {
+      // Nothing was sent: clear the marker so a retry can send it
+      await prisma.marketplaceDispute.update({
+        where: { id: disputeId },
+        data: { releaseStartedAt: null },
+      });
+      return fail(result.error);
+    }
+    releaseTx = result.txSignature ?? null;
+    await prisma.marketplaceDispute.update({
+      where: { id: disputeId },
+      data: { releaseTxSignature: releaseTx },
+    });
+  }
+
+  if (posterSol > 0 && !refundDone) {
+    const poster = await prisma.user.findUnique({
+      where: { id: task.posterId },
+      select: { activeWallet: { select: { address: true } } },
+    });
+    if (!poster?.activeWallet?.address) {
+      return fail("Poster has no wallet configured for the refund");
+    }
+
+    await prisma.marketplaceDispute.update({
+      where: { id: disputeId },
+      data: { refundStartedAt: new Date() },
+    });
+    let result;
+    try {
+      result = await refundEscrow(
+        task.id,
+        poster.activeWallet.address,
+        posterSol,
+      );
+    } catch (error) {
+      // The transfer may have gone out; leave the leg marked for review
+      const message = error instanceof Error ? error.message : String(error);
+      console.error("[Disputes] Poster refund threw:", error);
+      return fail(`Poster refund outcome unknown: ${message}`);
+    }
+    if (!result.success) {
+      // Nothing was sent: clear the marker so a retry can send it
+      await prisma.marketplaceDispute.update({
+        where: { id: disputeId },
+        data: { refundStartedAt: null },
+      });
+      return fail(result.error);
+    }
+    refundTx = result.txSignature ?? null;
+    await prisma.marketplaceDispute.update({
+      where: { id: disputeId },
+      data: { refundTxSignature: refundTx },
+    });
+  }
+
+  const now = new Date();
+  await prisma.$transaction([
+    prisma.marketplaceTask.update({
+      where: { id: task.id },
+      data: {
+        status: workerPercent > 0 ? "completed" : "cancelled",
+        ...(workerPercent > 0 && { completedAt: now }),
+        ...(escrowSol > 0 && {
+          escrowStatus: settledEscrowStatus(workerSol, posterSol),
+          settleTxSignature: releaseTx ?? refundTx,
+        }),
+      },
+    }),
+    prisma.marketplaceDispute.update({
+      where: { id: disputeId },
+      data: { status: "resolved", resolvedAt: now, settlementError: null },
+    }),
+  ]);
+  await recordEvent(disputeId, "settled", null, {
+    workerSol,
+    posterSol,
+    releaseTxSignature: releaseTx,
+    refundTxSignature: refundTx,
+  });
+
+  // Creator fees follow a full release, as they do on approval
+  if (workerPercent === 100 && task.tokenMint) {
+    const workerWallet = await resolveWorkerWallet(task);
+    if (workerWallet) {
+      const feeResult = await claimTaskTokenFees(
+        task.id,
+        task.tokenMint,
+        workerWallet,
+      );
+      if (!feeResult.success) {
+        console.error(
+          "[Disputes] Token fee claim failed (non-blocking):",
+          feeResult.error,
+        );
+      }
+    }
+  }
+
+  // Notify both parties (fire-and-forget)
+  const recipientIds = [
+    task.posterId,
+    task.workerId ?? task.workerAgent?.createdById,
+  ].filter((id): id is string => !!id);
+  prisma.user
+    .findMany({
+      where: { id: { in: recipientIds }, email: { not: null } },
+      select: { email: true },
+    })
+    .then((users) => {
+      const { subject, html } = disputeResolvedEmail({
+        taskTitle: task.title,
+        taskId: task.id,
+        featuredImage: task.featuredImage,
+        workerPercent,
+        ruling: dispute.ruling ?? "",
+        workerSol,
+        posterSol,
+      });
+      for (const u of users) {
+        if (u.email) sendEmail({ to: u.email, subject, html });
+      }
+    })
+    .catch(() => {});
+
+  return { ok: true, workerSol, posterSol };
+}
+
+// ── Deadlines ─────────────────────────────────────────────────────────
+
+/**
+ * The response deadline passed: rule against a worker who never
+ * responded, or hand the dispute to its arbitrator.
+ */
+async function closeEvidence(disputeId: string): Promise<string> {
+  const dispute = await prisma.marketplaceDispute.findUnique({
+    where: { id: disputeId },
+    select: {
+      arbitrationMethod: true,
+      reason: true,
+      evidence: {
+        orderBy: { createdAt: "asc" as const },
+        select: {
+          party: true,
+          text: true,
+          attachments: true,
+          createdAt: true,
+        },
+      },
+      task: {
+        select: {
+          title: true,
+          description: true,
+          requirements: true,
+          budgetSol: true,
+          escrowAmount: true,
+          escrowReleasedSol: true,
+          deliverables: true,
+        },
+      },
+    },
+  });
+  if (!dispute) return "missing";
+
+  if (!dispute.evidence.some((e) => e.party === "worker")) {
+    const result = await ruleDispute(
+      disputeId,
+      {
+        workerPercent: 0,
+        reasoning:
+          "The worker did not respond before the deadline, so the escrow is refunded to the poster.",
+      },
+      { ruledBy: "default" },
+    );
+    return result.ok ? "ruled" : result.error;
+  }
+
+  const method = dispute.arbitrationMethod as ArbitrationMethod;
+  const votingDeadline =
+    method === "jurors"
+      ? new Date(Date.now() + DISPUTE_VOTING_WINDOW_MS)
+      : null;
+  const { count } = await prisma.marketplaceDispute.updateMany({
+    where: { id: disputeId, status: "open" },
+    data: {
+      status: method === "jurors" ? "voting" : "arbitration",
+      votingDeadline,
+    },
+  });
+  if (count === 0) return "skipped";
+
+  if (votingDeadline) {
+    await recordEvent(disputeId, "voting_started", null, {
+      votingDeadline: votingDeadline.toISOString(),
+    });
+    return "voting";
+  }
+
+  await recordEvent(disputeId, "arbitration_started", null, { method });
+  if (method !== "ai") return "arbitration";
+
+  const ruling = await judgeDispute({
+    title: dispute.task.title,
+    description: dispute.task.description,
+    requirements: dispute.task.requirements,
+    budgetSol: heldEscrowSol(dispute.task),
+    deliverables: dispute.task.deliverables,
+    reason: dispute.reason,
+    evidence: dispute.evidence.map((e) => ({
+      ...e,
+      party: e.party as DisputeParty,
+    })),
+  });
+  if (!ruling) {
+    await recordEvent(disputeId, "arbitration_started", null, {
+      method: "admin",
+      reason: "The AI judge couldn't reach a ruling",
+    });
+    return "arbitration";
+  }
+
+  const result = await ruleDispute(disputeId, ruling, { ruledBy: "ai" });
+  return result.ok ? "ruled" : result.error;
+}
+
+/** Voting closed: rule by the jury, or hand it to an admin without quorum */
+async function closeVoting(disputeId: string): Promise<string> {
+  const votes = await prisma.marketplaceDisputeVote.findMany({
+    where: { disputeId },
+    select: { workerPercent: true, stakeWeight: true },
+  });
+  const workerPercent = tallyJurorVotes(votes);
+
+  if (workerPercent === null) {
+    const { count } = await prisma.marketplaceDispute.updateMany({
+      where: { id: disputeId, status: "voting" },
+      data: { status: "arbitration" },
+    });
+    if (count > 0) {
+      await recordEvent(disputeId, "arbitration_started", null, {
+        method: "admin",
+        reason: `The jury didn't reach a quorum (${votes.length} vote${votes.length !== 1 ? "s" : ""})`,
+      });
+    }
+    return "arbitration";
+  }
+
+  const result = await ruleDispute(
+    disputeId,
+    {
+      workerPercent,
+      reasoning: `A jury of ${votes.length} staked jurors awarded the worker ${workerPercent}% of the escrow (stake-weighted median vote).`,
+    },
+    { ruledBy: "jurors" },
+  );
+  return result.ok ? "ruled" : result.error;
+}
+
+export interface DisputeCronReport {
+  evidenceClosed: number;
+  votingClosed: number;
+  settlementsRetried: number;
+  outcomes: Array<{ disputeId: string; result: string }>;
+}
+
+/**
+ * Move every dispute whose deadline has passed, and retry settlements that
+ * failed. Run by the dispute cron.
+ */
+export async function processDueDisputes(
+  now = new Date(),
+): Promise<DisputeCronReport> {
+  const report: DisputeCronReport = {
+    evidenceClosed: 0,
+    votingClosed: 0,
+    settlementsRetried: 0,
+    outcomes: [],
+  };
+  const track = (disputeId: string, result: string) =>
+    report.outcomes.push({ disputeId, result });
+
+  const evidenceDue = await prisma.marketplaceDispute.findMany({
+    where: { status: "open", responseDeadline: { lt: now } },
+    orderBy: { responseDeadline: "asc" as const },
+    take: CRON_BATCH_SIZE,
+    select: { id: true },
+  });
+  for (const { id } of evidenceDue) {
+    track(id, await closeEvidence(id));
+    report.evidenceClosed++;
+  }
+
+  const votingDue = await prisma.marketplaceDispute.findMany({
+    where: { status: "voting", votingDeadline: { lt: now } },
+    orderBy: { votingDeadline: "asc" as const },
+    take: CRON_BATCH_SIZE,
+    select: { id: true },
+  });
+  for (const { id } of votingDue) {
+    track(id, await closeVoting(id));
+    report.votingClosed++;
+  }
+
+  const settlementsDue = await prisma.marketplaceDispute.findMany({
+    where: {
+      status: "settling",
+      settlementAttempts: { lt: MAX_DISPUTE_SETTLEMENT_ATTEMPTS },
+      updatedAt: { lt: new Date(now.getTime() - SETTLEMENT_RETRY_DELAY_MS) },
+      // A leg with an unknown outcome waits for manual review
+      NOT: [
+        { releaseStartedAt: { not: null }, releaseTxSignature: null },
+        { refundStartedAt: { not: null }, refundTxSignature: null },
+      ],
+    },
+    orderBy: { updatedAt: "asc" as const },
+    take: CRON_BATCH_SIZE,
+    select: { id: true },
+  });
+  for (const { id } of settlementsDue) {
+    // One throw mustn't stop the rest of the batch from settling
+    try {
+      const result = await settleDispute(id);
+      track(id, result.ok ? "settled" : result.error);
+    } catch (error) {
+      console.error(`[Disputes] Settlement of ${id} threw:`, error);
+      track(id, error instanceof Error ? error.message : "Settlement failed");
+    }
+    report.settlementsRetried++;
+  }
+
+  return report;
+}
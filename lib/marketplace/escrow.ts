@@ -28,6 +28,46 @@ function solToLamports(sol: number): bigint {
   return BigInt(Math.round(sol * LAMPORTS_PER_SOL));
 }
 
+/**
+ * SOL still held in escrow for a task: the escrowed amount (or the budget,
+ * for tasks escrowed before escrowAmount was recorded) less what approved
+ * milestones already released to the worker.
+ */
+export function heldEscrowSol(task: {
+  escrowAmount: unknown;
+  budgetSol: unknown;
+  escrowReleasedSol: unknown;
+}): number {
+  const held =
+    Number(task.escrowAmount ?? task.budgetSol) -
+    Number(task.escrowReleasedSol ?? 0);
+  return Math.max(0, Math.round(held * LAMPORTS_PER_SOL) / LAMPORTS_PER_SOL);
+}
+
+/** Where the worker gets paid: their wallet, or their agent creator's */
+export async function resolveWorkerWallet(task: {
+  workerId: string | null;
+  workerAgentId: string | null;
+}): Promise<string | null> {
+  if (task.workerId) {
+    const worker = await prisma.user.findUnique({
+      where: { id: task.workerId },
+      select: { activeWallet: { select: { address: true } } },
+    });
+    return worker?.activeWallet?.address ?? null;
+  }
+  if (task.workerAgentId) {
+    const agent = await prisma.agent.findUnique({
+      where: { id: task.workerAgentId },
+      select: {
+        createdBy: { select: { activeWallet: { select: { address: true } } } },
+      },
+    });
+    return agent?.createdBy?.activeWallet?.address ?? null;
+  }
+  return null;
+}
+
 /**
  * Resolve a user's active wallet for escrow operations.
  */
@@ -108,7 +148,8 @@ export async function createEscrow(
 
 /**
  * Release escrow: transfer SOL from treasury to worker's wallet.
- * Optionally skip the DB status update (used by releaseMilestone which manages status itself).
+ * Optionally skip the DB status update (used by milestone releases and
+ * dispute settlements, which manage status themselves).
  */
 export async function releaseEscrow(
   taskId: string,
@@ -211,65 +252,6 @@ export async function refundEscrow(
   });
 }
 
-/**
- * Release a single milestone payment from escrow.
- */
-export async function releaseMilestone(
-  taskId: string,
-  milestoneIndex: number,
-  workerWalletAddress: string,
-): Promise<EscrowResult> {
-  const task = await prisma.marketplaceTask.findUnique({
-    where: { id: taskId },
-    select: { milestones: true, escrowStatus: true },
-  });
-
-  if (!task || task.escrowStatus !== "held") {
-    return { success: false, error: "Task not found or escrow not held" };
-  }
-
-  const milestones = task.milestones as Array<{
-    title: string;
-    amountSol: number;
-    status: string;
-  }> | null;
-
-  if (
-    !milestones ||
-    milestoneIndex < 0 ||
-    milestoneIndex >= milestones.length
-  ) {
-    return { success: false, error: "Invalid milestone index" };
-  }
-
-  const milestone = milestones[milestoneIndex];
-  if (milestone.status === "released") {
-    return { success: false, error: "Milestone already released" };
-  }
-
-  const result = await releaseEscrow(
-    taskId,
-    workerWalletAddress,
-    milestone.amountSol,
-    { skipStatusUpdate: true },
-  );
-  if (!result.success) return result;
-
-  milestones[milestoneIndex].status = "released";
-  const allReleased = milestones.every((m) => m.status === "released");
-
-  await prisma.marketplaceTask.update({
-    where: { id: taskId },
-    data: {
-      milestones: milestones,
-      escrowStatus: allReleased ? "released" : "held",
-      ...(result.txSignature && { settleTxSignature: result.txSignature }),
-    },
-  });
-
-  return result;
-}
-
 /**
  * Claim accumulated Bags creator fees for a task token and
  * forward the SOL to the worker. Returns the total SOL claimed.
@@ -0,0 +1,425 @@
+/**
+ * Marketplace Task Expiry & Escrow Refunds
+ *
+ * Cancelled tasks get their held escrow back to the poster, whether the
+ * poster cancelled or the task expired:
+ *
+ * - Open tasks past their deadline are cancelled.
+ * - Assigned tasks past their deadline get a notice to both parties, then
+ *   are cancelled once the grace period after the notice runs out.
+ * - Every cancelled task still holding escrow is refunded. A refund claims
+ *   the escrow (held → refunding) before sending, so it is never sent
+ *   twice; failures go back to held and are retried on later runs.
+ *
+ * Each run ends with a reconciliation report: what was refunded, what
+ * failed, what needs manual review, and whether the treasury still covers
+ * the escrow it holds.
+ */
+
+import prisma from "@/lib/prisma";
+import type { Prisma } from "@/app/generated/prisma/client";
+import { getWalletBalance } from "@/lib/privy/wallet-service";
+import { SOL_TREASURY_ADDRESS } from "@/lib/x402/sol-server-middleware";
+import { sendEmail, deadlineMissedEmail, taskExpiredEmail } from "@/lib/email";
+
+import { heldEscrowSol, refundEscrow } from "./escrow";
+import { hasMilestoneReleaseInFlight } from "./milestones";
+import {
+  ASSIGNED_TASK_GRACE_MS,
+  MAX_REFUND_ATTEMPTS,
+  REFUND_RETRY_DELAY_MS,
+  STUCK_REFUND_MS,
+} from "./types";
+
+const LAMPORTS_PER_SOL = 1_000_000_000;
+
+/** Tasks a worker is still delivering on */
+const IN_FLIGHT_STATUSES = ["assigned", "in_progress"];
+
+/** Refunds attempted per cron run */
+const REFUND_BATCH_SIZE = 25;
+
+export type TaskRefundResult =
+  | { status: "refunded"; amountSol: number; txSignature?: string }
+  | { status: "skipped"; reason: string }
+  | { status: "failed"; error: string };
+
+const TASK_EMAIL_SELECT = {
+  id: true,
+  title: true,
+  posterId: true,
+  workerId: true,
+  workerAgent: { select: { createdById: true } },
+  budgetSol: true,
+  escrowAmount: true,
+  escrowReleasedSol: true,
+  escrowStatus: true,
+  tokenMint: true,
+  tokenSymbol: true,
+  tokenFeesClaimed: true,
+  featuredImage: true,
+} as const;
+
+type TaskEmailRow = Prisma.MarketplaceTaskGetPayload<{
+  select: typeof TASK_EMAIL_SELECT;
+}>;
+
+function escrowSolOf(task: TaskEmailRow): number {
+  return task.escrowStatus === "held" ? heldEscrowSol(task) : 0;
+}
+
+/**
+ * Email the poster and worker (an agent's creator stands in for it).
+ * Fire-and-forget.
+ */
+function notifyParties(
+  task: TaskEmailRow,
+  build: (forWorker: boolean) => { subject: string; html: string },
+): void {
+  const workerUserId = task.workerId ?? task.workerAgent?.createdById ?? null;
+  const ids = [task.posterId, workerUserId].filter((id): id is string => !!id);
+
+  prisma.user
+    .findMany({
+      where: { id: { in: ids }, email: { not: null } },
+      select: { id: true, email: true },
+    })
+    .then((users) => {
+      for (const u of users) {
+        if (!u.email) continue;
+        const { subject, html } = build(u.id !== task.posterId);
+        sendEmail({ to: u.email, subject, html });
+      }
+    })
+    .catch(() => {});
+}
+
+function emailParams(task: TaskEmailRow) {
+  return {
+    taskTitle: task.title,
+    taskId: task.id,
+    budgetSol: Number(task.budgetSol),
+    creatorFees: Number(task.tokenFeesClaimed),
+    tokenMint: task.tokenMint,
+    tokenSymbol: task.tokenSymbol,
+    featuredImage: task.featuredImage,
+  };
+}
+
+// ── Refunds ───────────────────────────────────────────────────────────
+
+/**
+ * Return a cancelled task's held escrow to the poster. Safe to call any
+ * number of times: only one caller can claim the escrow, and a task that
+ * isn't holding escrow is skipped.
+ */
+export async function refundTaskEscrow(
+  taskId: string,
+): Promise<TaskRefundResult> {
+  const task = await prisma.marketplaceTask.findUnique({
+    where: { id: taskId },
+    select: {
+      status: true,
+      escrowStatus: true,
+      escrowAmount: true,
+      escrowReleasedSol: true,
+      budgetSol: true,
+      posterId: true,
+      refundAttempts: true,
+    },
+  });
+  if (!task) return { status: "skipped", reason: "Task not found" };
+  if (task.status !== "cancelled") {
+    return { status: "skipped", reason: "Task is not cancelled" };
+  }
+  if (task.escrowStatus !== "held") {
+    return { status: "skipped", reason: `Escrow is ${task.escrowStatus}` };
+  }
+  if (task.refundAttempts >= MAX_REFUND_ATTEMPTS) {
+    return { status: "skipped", reason: "Refund attempts exhausted" };
+  }
+  // The refund would include escrow a milestone payment may already have
+  // sent. Cancelled tasks can't start new ones, so this check can't go stale.
+  if (await hasMilestoneReleaseInFlight(taskId)) {
+    return {
+      status: "skipped",
+      reason: "A milestone payment is in progress or unresolved",
+    };
+  }
+
+  // Claim the escrow so a concurrent run can't send the refund again
+  const { count: claimed } = await prisma.marketplaceTask.updateMany({
+    where: { id: taskId, status: "cancelled", escrowStatus: "held" },
+    data: {
+      escrowStatus: "refunding",
+      refundAttempts: { increment: 1 },
+      refundAttemptedAt: new Date(),
+    },
+  });
+  if (claimed === 0) {
+    return { status: "skipped", reason: "Refund already in progress" };
+  }
+
+  // Nothing was sent: hand the escrow back for a later retry
+  const release = async (error: string): Promise<TaskRefundResult> => {
+    await prisma.marketplaceTask.update({
+      where: { id: taskId },
+      data: { escrowStatus: "held", refundError: error },
+    });
+    return { status: "failed", error };
+  };
+
+  const poster = await prisma.user.findUnique({
+    where: { id: task.posterId },
+    select: { activeWallet: { select: { address: true } } },
+  });
+  if (!poster?.activeWallet?.address) {
+    return release("Poster has no wallet configured for the refund");
+  }
+
+  const amountSol = heldEscrowSol(task);
+  let result;
+  try {
+    result = await refundEscrow(taskId, poster.activeWallet.address, amountSol);
+  } catch (error) {
+    // The transfer may have gone out; leave the escrow claimed for review
+    const message = error instanceof Error ? error.message : String(error);
+    await prisma.marketplaceTask.update({
+      where: { id: taskId },
+      data: { refundError: `Refund outcome unknown: ${message}` },
+    });
+    return { status: "failed", error: message };
+  }
+  if (!result.success) return release(result.error);
+
+  // refundEscrow marked the escrow refunded and recorded the transaction
+  await prisma.marketplaceTask.update({
+    where: { id: taskId },
+    data: { refundError: null },
+  });
+  return { status: "refunded", amountSol, txSignature: result.txSignature };
+}
+
+// ── Expiry ────────────────────────────────────────────────────────────
+
+/** Cancel open tasks past their deadline and reject their pending bids */
+export async function expireOpenTasks(now = new Date()): Promise<string[]> {
+  const expired = await prisma.marketplaceTask.findMany({
+    where: { status: "open", deadline: { lt: now } },
+    select: TASK_EMAIL_SELECT,
+  });
+  if (expired.length === 0) return [];
+
+  const ids = expired.map((t) => t.id);
+  await prisma.$transaction([
+    prisma.marketplaceTask.updateMany({
+      where: { id: { in: ids }, status: "open" },
+      data: { status: "cancelled" },
+    }),
+    prisma.marketplaceBid.updateMany({
+      where: { taskId: { in: ids }, status: "pending" },
+      data: { status: "rejected" },
+    }),
+  ]);
+
+  for (const task of expired) {
+    notifyParties(task, (forWorker) =>
+      taskExpiredEmail({
+        ...emailParams(task),
+        forWorker,
+        wasAssigned: false,
+        escrowSol: escrowSolOf(task),
+      }),
+    );
+  }
+  return ids;
+}
+
+/**
+ * Assigned tasks past their deadline: tell both parties the grace period
+ * has started, and cancel the ones whose grace period has run out.
+ */
+export async function processLapsedAssignments(now = new Date()): Promise<{
+  noticed: string[];
+  cancelled: string[];
+}> {
+  const graceStart = new Date(now.getTime() - ASSIGNED_TASK_GRACE_MS);
+
+  const overdue = await prisma.marketplaceTask.findMany({
+    where: {
+      status: { in: IN_FLIGHT_STATUSES },
+      deadline: { lt: now },
+      deadlineNoticeAt: null,
+    },
+    select: TASK_EMAIL_SELECT,
+  });
+  const noticed: string[] = [];
+  for (const task of overdue) {
+    const { count } = await prisma.marketplaceTask.updateMany({
+      where: { id: task.id, deadlineNoticeAt: null },
+      data: { deadlineNoticeAt: now },
+    });
+    if (count === 0) continue;
+    noticed.push(task.id);
+
+    const graceEndsAt = new Date(now.getTime() + ASSIGNED_TASK_GRACE_MS);
+    notifyParties(task, (forWorker) =>
+      deadlineMissedEmail({ ...emailParams(task), forWorker, graceEndsAt }),
+    );
+  }
+
+  // The grace period runs from the notice, so nobody loses it to a late cron
+  const lapsed = await prisma.marketplaceTask.findMany({
+    where: {
+      status: { in: IN_FLIGHT_STATUSES },
+      deadline: { lt: graceStart },
+      deadlineNoticeAt: { lt: graceStart },
+    },
+    select: TASK_EMAIL_SELECT,
+  });
+  const cancelled: string[] = [];
+  for (const task of lapsed) {
+    const { count } = await prisma.marketplaceTask.updateMany({
+      where: { id: task.id, status: { in: IN_FLIGHT_STATUSES } },
+      data: { status: "cancelled" },
+    });
+    if (count === 0) continue;
+    cancelled.push(task.id);
+
+    await prisma.marketplaceBid.updateMany({
+      where: { taskId: task.id, status: "pending" },
+      data: { status: "rejected" },
+    });
+    notifyParties(task, (forWorker) =>
+      taskExpiredEmail({
+        ...emailParams(task),
+        forWorker,
+        wasAssigned: true,
+        escrowSol: escrowSolOf(task),
+      }),
+    );
+  }
+
+  return { noticed, cancelled };
+}
+
+// ── Reconciliation ────────────────────────────────────────────────────
+
+export interface EscrowReconciliationReport {
+  refunded: Array<{ taskId: string; amountSol: number; txSignature?: string }>;
+  failed: Array<{ taskId: string; error: string }>;
+  /** Cancelled tasks still holding escrow, waiting for a retry */
+  pendingRetry: number;
+  /** Refunds that need a human: attempts exhausted, or outcome unknown */
+  needsReview: Array<{ taskId: string; reason: string }>;
+  /** Escrow the treasury owes on every task (held or mid-refund) */
+  owedEscrowSol: number;
+  treasuryBalanceSol: number | null;
+  /** How far the treasury falls short of the escrow it owes */
+  shortfallSol: number;
+}
+
+/**
+ * Refund every cancelled task still holding escrow (new ones right away,
+ * failed ones after REFUND_RETRY_DELAY_MS), then report where every
+ * refund stands.
+ */
+export async function reconcileEscrowRefunds(
+  now = new Date(),
+): Promise<EscrowReconciliationReport> {
+  const retryCutoff = new Date(now.getTime() - REFUND_RETRY_DELAY_MS);
+  const due = await prisma.marketplaceTask.findMany({
+    where: {
+      status: "cancelled",
+      escrowStatus: "held",
+      refundAttempts: { lt: MAX_REFUND_ATTEMPTS },
+      OR: [
+        { refundAttemptedAt: null },
+        { refundAttemptedAt: { lt: retryCutoff } },
+      ],
+    },
+    orderBy: { updatedAt: "asc" as const },
+    take: REFUND_BATCH_SIZE,
+    select: { id: true },
+  });
+
+  const refunded: EscrowReconciliationReport["refunded"] = [];
+  const failed: EscrowReconciliationReport["failed"] = [];
+  for (const { id } of due) {
+    const result = await refundTaskEscrow(id);
+    if (result.status === "refunded") {
+      refunded.push({
+        taskId: id,
+        amountSol: result.amountSol,
+        txSignature: result.txSignature,
+      });
+    } else if (result.status === "failed") {
+      failed.push({ taskId: id, error: result.error });
+    }
+  }
+
+  const stuckCutoff = new Date(now.getTime() - STUCK_REFUND_MS);
+  const [pendingRetry, exhausted, stuck] = await Promise.all([
+    prisma.marketplaceTask.count({
+      where: {
+        status: "cancelled",
+        escrowStatus: "held",
+        refundAttempts: { lt: MAX_REFUND_ATTEMPTS },
+      },
+    }),
+    prisma.marketplaceTask.findMany({
+      where: {
+        status: "cancelled",
+        escrowStatus: "held",
+        refundAttempts: { gte: MAX_REFUND_ATTEMPTS },
+      },
+      select: { id: true, refundError: true },
+    }),
+    prisma.marketplaceTask.findMany({
+      where: {
+        escrowStatus: "refunding",
+        refundAttemptedAt: { lt: stuckCutoff },
+      },
+      select: { id: true, refundError: true },
+    }),
+  ]);
+
+  const needsReview = [
+    ...exhausted.map((t) => ({
+      taskId: t.id,
+      reason: `Refund attempts exhausted: ${t.refundError ?? "unknown error"}`,
+    })),
+    ...stuck.map((t) => ({
+      taskId: t.id,
+      reason: t.refundError ?? "Refund started but never finished",
+    })),
+  ];
+
+  const owed = await prisma.marketplaceTask.findMany({
+    where: { escrowStatus: { in: ["held", "refunding"] } },
+    select: { escrowAmount: true, budgetSol: true, escrowReleasedSol: true },
+  });
+  const owedEscrowSol = owed.reduce((sum, t) => sum + heldEscrowSol(t), 0);
+  let treasuryBalanceSol: number | null = null;
+  if (SOL_TREASURY_ADDRESS) {
+    try {
+      const lamports = await getWalletBalance(SOL_TREASURY_ADDRESS);
+      treasuryBalanceSol = Number(lamports) / LAMPORTS_PER_SOL;
+    } catch (error) {
+      console.error("[Escrow Reconciliation] Treasury balance error:", error);
+    }
+  }
+
+  return {
+    refunded,
+    failed,
+    pendingRetry,
+    needsReview,
+    owedEscrowSol,
+    treasuryBalanceSol,
+    shortfallSol:
+      treasuryBalanceSol === null
+        ? 0
+        : Math.max(0, owedEscrowSol - treasuryBalanceSol),
+  };
+}
@@ -0,0 +1,132 @@
+/**
+ * Marketplace Milestone Policy
+ *
+ * Pure helpers for milestones: checking the milestones a poster defines
+ * for a task, and the text a worker or poster attaches when submitting or
+ * reviewing one.
+ */
+
+import { MAX_MILESTONES } from "./types";
+
+const LAMPORTS_PER_SOL = 1_000_000_000;
+const MAX_TITLE_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 2000;
+export const MAX_MILESTONE_DELIVERABLES_LENGTH = 50000;
+export const MAX_MILESTONE_REJECTION_LENGTH = 2000;
+
+/** A milestone ready to be created */
+export interface ValidMilestone {
+  title: string;
+  description: string | null;
+  amountSol: number;
+  dueDate: Date | null;
+}
+
+export type MilestoneValidation =
+  | { ok: true; milestones: ValidMilestone[] }
+  | { ok: false; error: string };
+
+/**
+ * Check the milestones defined for a task. Each needs a title and a
+ * positive amount, and together they can't pay out more than the budget;
+ * anything left over is released when the task is approved.
+ */
+export function validateMilestones(
+  input: unknown,
+  budgetSol: number,
+): MilestoneValidation {
+  if (!Array.isArray(input)) {
+    return { ok: false, error: "milestones must be an array" };
+  }
+  if (input.length > MAX_MILESTONES) {
+    return { ok: false, error: `At most ${MAX_MILESTONES} milestones` };
+  }
+
+  const milestones: ValidMilestone[] = [];
+  for (const [i, item] of input.entries()) {
+    const label = `Milestone ${i + 1}`;
+    if (typeof item !== "object" || item === null) {
+      return {
+        ok: false,
+        error: `${label} must be an object with a title and amountSol`,
+      };
+    }
+    const m = item as Record<string, unknown>;
+
+    const title = typeof m.title === "string" ? m.title.trim() : "";
+    if (!title || title.length > MAX_TITLE_LENGTH) {
+      return {
+        ok: false,
+        error: `${label} needs a title of ${MAX_TITLE_LENGTH} characters or less`,
+      };
+    }
+    if (
+      typeof m.amountSol !== "number" ||
+      !Number.isFinite(m.amountSol) ||
+      m.amountSol <= 0
+    ) {
+      return { ok: false, error: `${label} needs an amountSol above 0` };
+    }
+
+    let description: string | null = null;
+    if (m.description !== undefined && m.description !== null) {
+      if (
+        typeof m.description !== "string" ||
+        m.description.length > MAX_DESCRIPTION_LENGTH
+      ) {
+        return {
+          ok: false,
+          error: `${label} description must be a string of ${MAX_DESCRIPTION_LENGTH} characters or less`,
+        };
+      }
+      description = m.description.trim() || null;
+    }
+
+    let dueDate: Date | null = null;
+    if (m.dueDate !== undefined && m.dueDate !== null && m.dueDate !== "") {
+      dueDate = typeof m.dueDate === "string" ? new Date(m.dueDate) : null;
+      if (!dueDate || isNaN(dueDate.getTime())) {
+        return { ok: false, error: `${label} has an invalid dueDate` };
+      }
+    }
+
+    milestones.push({ title, description, amountSol: m.amountSol, dueDate });
+  }
+
+  const totalLamports = milestones.reduce(
+    (sum, m) => sum + Math.round(m.amountSol * LAMPORTS_PER_SOL),
+    0,
+  );
+  if (totalLamports > Math.round(budgetSol * LAMPORTS_PER_SOL)) {
+    return {
+      ok: false,
+      error: "Milestone amounts add up to more than the budget",
+    };
+  }
+
+  return { ok: true, milestones };
+}
+
+/** Check the work handed in for a milestone. Null when it's fine. */
+export function validateMilestoneDeliverables(
+  deliverables: unknown,
+): string | null {
+  if (typeof deliverables !== "string" || !deliverables.trim()) {
+    return "deliverables is required and must be a non-empty string";
+  }
+  if (deliverables.length > MAX_MILESTONE_DELIVERABLES_LENGTH) {
+    return `deliverables must be under ${MAX_MILESTONE_DELIVERABLES_LENGTH.toLocaleString()} characters`;
+  }
+  return null;
+}
+
+/** Check the reason a poster gives for sending a milestone back */
+export function validateRejectionReason(reason: unknown): string | null {
+  if (typeof reason !== "string" || !reason.trim()) {
+    return "A reason is required to reject a milestone";
+  }
+  if (reason.length > MAX_MILESTONE_REJECTION_LENGTH) {
+    return `The reason must be under ${MAX_MILESTONE_REJECTION_LENGTH.toLocaleString()} characters`;
+  }
+  return null;
+}
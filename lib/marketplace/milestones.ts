@@ -0,0 +1,519 @@
+/**
+ * Marketplace Milestones
+ *
+ * A task's budget can be split into milestones, each paid out of escrow on
+ * its own:
+ *
+ *   pending   — waiting on the worker.
+ *   submitted — the worker handed in its deliverables for review.
+ *   approved  — the poster accepted it; its amount is being released.
+ *   rejected  — sent back with a reason. The worker can resubmit.
+ *   released  — its amount was paid to the worker.
+ *
+ * Released amounts add up in the task's escrowReleasedSol, and only the
+ * rest of the escrow is paid (or refunded, or split by a dispute) when the
+ * task itself is settled. Milestones are frozen while the task is disputed.
+ */
+
+import prisma from "@/lib/prisma";
+import { Prisma } from "@/app/generated/prisma/client";
+import {
+  sendEmail,
+  milestoneReviewedEmail,
+  milestoneSubmittedEmail,
+} from "@/lib/email";
+
+import { heldEscrowSol, releaseEscrow, resolveWorkerWallet } from "./escrow";
+import {
+  validateMilestoneDeliverables,
+  validateRejectionReason,
+} from "./milestone-policy";
+import type { Milestone, MilestoneStatus } from "./types";
+
+/** Task statuses a milestone can be submitted and reviewed in */
+const MILESTONE_TASK_STATUSES = ["assigned", "in_progress", "review"];
+
+export const MILESTONE_SELECT = {
+  id: true,
+  position: true,
+  title: true,
+  description: true,
+  amountSol: true,
+  dueDate: true,
+  status: true,
+  deliverables: true,
+  submittedAt: true,
+  rejectionReason: true,
+  reviewedAt: true,
+  releaseTxSignature: true,
+  releaseError: true,
+  releasedAt: true,
+} as const;
+
+export type MilestoneRow = Prisma.MarketplaceMilestoneGetPayload<{
+  select: typeof MILESTONE_SELECT;
+}>;
+
+const MILESTONE_TASK_SELECT = {
+  id: true,
+  title: true,
+  status: true,
+  posterId: true,
+  workerId: true,
+  workerAgentId: true,
+  workerAgent: { select: { createdById: true } },
+  escrowStatus: true,
+  escrowAmount: true,
+  escrowReleasedSol: true,
+  budgetSol: true,
+  tokenMint: true,
+  tokenSymbol: true,
+  tokenFeesClaimed: true,
+  featuredImage: true,
+} as const;
+
+type MilestoneTask = Prisma.MarketplaceTaskGetPayload<{
+  select: typeof MILESTONE_TASK_SELECT;
+}>;
+
+export type MilestoneResult =
+  | { ok: true; milestone: Milestone }
+  | { ok: false; error: string; status: 400 | 403 | 404 | 409 | 500 };
+
+export function toMilestone(row: MilestoneRow): Milestone {
+  return {
+    id: row.id,
+    position: row.position,
+    title: row.title,
+    description: row.description,
+    amountSol: Number(row.amountSol),
+    dueDate: row.dueDate?.toISOString() ?? null,
+    status: row.status as MilestoneStatus,
+    deliverables: row.deliverables,
+    submittedAt: row.submittedAt?.toISOString() ?? null,
+    rejectionReason: row.rejectionReason,
+    reviewedAt: row.reviewedAt?.toISOString() ?? null,
+    releaseTxSignature: row.releaseTxSignature,
+    releaseError: row.releaseError,
+    releasedAt: row.releasedAt?.toISOString() ?? null,
+  };
+}
+
+/** A task's milestones in order, or null if the task doesn't exist */
+export async function listMilestones(
+  taskId: string,
+): Promise<Milestone[] | null> {
+  const [task, rows] = await Promise.all([
+    prisma.marketplaceTask.findUnique({
+      where: { id: taskId },
+      select: { id: true },
+    }),
+    prisma.marketplaceMilestone.findMany({
+      where: { taskId },
+      select: MILESTONE_SELECT,
+      orderBy: { position: "asc" },
+    }),
+  ]);
+  return task ? rows.map(toMilestone) : null;
+}
+
+async function findMilestone(taskId: string, milestoneId: string) {
+  return prisma.marketplaceMilestone.findFirst({
+    where: { id: milestoneId, taskId },
+    select: { ...MILESTONE_SELECT, task: { select: MILESTONE_TASK_SELECT } },
+  });
+}
+
+async function reloadMilestone(milestoneId: string): Promise<Milestone> {
+  const row = await prisma.marketplaceMilestone.findUniqueOrThrow({
+    where: { id: milestoneId },
+    select: MILESTONE_SELECT,
+  });
+  return toMilestone(row);
+}
+
+function taskEmailParams(task: MilestoneTask, milestone: MilestoneRow) {
+  return {
+    taskTitle: task.title,
+    taskId: task.id,
+    budgetSol: Number(task.budgetSol),
+    creatorFees: Number(task.tokenFeesClaimed),
+    tokenMint: task.tokenMint,
+    tokenSymbol: task.tokenSymbol,
+    featuredImage: task.featuredImage,
+    milestoneTitle: milestone.title,
+    milestoneAmountSol: Number(milestone.amountSol),
+  };
+}
+
+/** Email a user, if they have an address (fire-and-forget) */
+function notifyUser(
+  userId: string | null | undefined,
+  email: { subject: string; html: string },
+) {
+  if (!userId) return;
+  prisma.user
+    .findUnique({ where: { id: userId }, select: { email: true } })
+    .then((user) => {
+      if (user?.email) sendEmail({ to: user.email, ...email });
+    })
+    .catch(() => {});
+}
+
+function frozenError(task: MilestoneTask): MilestoneResult {
+  return {
+    ok: false,
+    error:
+      task.status === "disputed"
+        ? "Milestones are frozen while the task is disputed"
+        : `Milestones can't be changed while the task is ${task.status}`,
+    status: 409,
+  };
+}
+
+/**
+ * Hand in a milestone for review. The submitter must be the worker, or the
+ * creator of the worker agent; a rejected milestone can be resubmitted.
+ * The first submission moves an assigned task to in_progress.
+ */
+export async function submitMilestone(
+  taskId: string,
+  milestoneId: string,
+  userId: string,
+  deliverables: unknown,
+): Promise<MilestoneResult> {
+  const milestone = await findMilestone(taskId, milestoneId);
+  if (!milestone) {
+    return { ok: false, error: "Milestone not found", status: 404 };
+  }
+  const { task } = milestone;
+
+  const isWorker =
+    task.workerId === userId || task.workerAgent?.createdById === userId;
+  if (!isWorker) {
+    return {
+      ok: false,
+      error: "Only the assigned worker can submit a milestone",
+      status: 403,
+    };
+  }
+  if (!MILESTONE_TASK_STATUSES.includes(task.status)) return frozenError(task);
+
+  const invalid = validateMilestoneDeliverables(deliverables);
+  if (invalid) return { ok: false, error: invalid, status: 400 };
+
+  const { count } = await prisma.marketplaceMilestone.updateMany({
+    where: { id: milestoneId, status: { in: ["pending", "rejected"] } },
+    data: {
+      status: "submitted",
+      deliverables: (deliverables as string).trim(),
+      submittedAt: new Date(),
+    },
+  });
+  if (count === 0) {
+    return {
+      ok: false,
+      error: `Milestone is ${milestone.status} and can't be submitted`,
+      status: 409,
+    };
+  }
+
+  await prisma.marketplaceTask.updateMany({
+    where: { id: taskId, status: "assigned" },
+    data: { status: "in_progress" },
+  });
+
+  notifyUser(
+    task.posterId,
+    milestoneSubmittedEmail(taskEmailParams(task, milestone)),
+  );
+
+  return { ok: true, milestone: await reloadMilestone(milestoneId) };
+}
+
+/**
+ * Send a submitted milestone back to the worker with a reason. Only the
+ * poster can reject.
+ */
+export async function rejectMilestone(
+  taskId: string,
+  milestoneId: string,
+  userId: string,
+  reason: unknown,
+): Promise<MilestoneResult> {
+  const milestone = await findMilestone(taskId, milestoneId);
+  if (!milestone) {
+    return { ok: false, error: "Milestone not found", status: 404 };
+  }
+  const { task } = milestone;
+
+  if (task.posterId !== userId) {
+    return {
+      ok: false,
+      error: "Only the poster can review milestones",
+      status: 403,
+    };
+  }
+  if (!MILESTONE_TASK_STATUSES.includes(task.status)) return frozenError(task);
+
+  const invalid = validateRejectionReason(reason);
+  if (invalid) return { ok: false, error: invalid, status: 400 };
+
+  const rejectionReason = (reason as string).trim();
+  const { count } = await prisma.marketplaceMilestone.updateMany({
+    where: { id: milestoneId, status: "submitted" },
+    data: { status: "rejected", rejectionReason, reviewedAt: new Date() },
+  });
+  if (count === 0) {
+    return {
+      ok: false,
+      error: `Milestone is ${milestone.status}; only submitted milestones can be rejected`,
+      status: 409,
+    };
+  }
+
+  notifyUser(
+    task.workerId ?? task.workerAgent?.createdById,
+    milestoneReviewedEmail({
+      ...taskEmailParams(task, milestone),
+      approved: false,
+      rejectionReason,
+    }),
+  );
+
+  return { ok: true, milestone: await reloadMilestone(milestoneId) };
+}
+
+/**
+ * Reserve a milestone's amount out of the task's held escrow, by adding it
+ * to escrowReleasedSol only while the total stays within the escrow. It's
+ * a single conditional update, so concurrent approvals can't overdraw.
+ */
+async function reserveEscrow(
+  taskId: string,
+  amountSol: Prisma.Decimal,
+): Promise<boolean> {
+  const amount = amountSol.toString();
+  const count = await prisma.$executeRaw`
+    UPDATE "MarketplaceTask"
+    SET "escrowReleasedSol" = "escrowReleasedSol" + ${amount}::numeric,
+        "updatedAt" = NOW()
+    WHERE "id" = ${taskId}
+      AND "escrowStatus" = 'held'
+      AND "status" IN (${Prisma.join(MILESTONE_TASK_STATUSES)})
+      AND "escrowReleasedSol" + ${amount}::numeric
+          <= COALESCE("escrowAmount", "budgetSol")
+  `;
+  return count > 0;
+}
+
+/**
+ * Approve a submitted milestone and release its amount from escrow to the
+ * worker. Only the poster can approve. A milestone whose release failed
+ * stays approved and can be approved again to retry the payment; the
+ * release is claimed and its amount reserved before sending, so a retry
+ * never pays twice and concurrent approvals can't pay out more than is held.
+ */
+export async function approveMilestone(
+  taskId: string,
+  milestoneId: string,
+  userId: string,
+): Promise<MilestoneResult> {
+  const milestone = await findMilestone(taskId, milestoneId);
+  if (!milestone) {
+    return { ok: false, error: "Milestone not found", status: 404 };
+  }
+  const { task } = milestone;
+
+  if (task.posterId !== userId) {
+    return {
+      ok: false,
+      error: "Only the poster can review milestones",
+      status: 403,
+    };
+  }
+  if (!MILESTONE_TASK_STATUSES.includes(task.status)) return frozenError(task);
+  if (milestone.status !== "submitted" && milestone.status !== "approved") {
+    return {
+      ok: false,
+      error: `Milestone is ${milestone.status}; only submitted milestones can be approved`,
+      status: 409,
+    };
+  }
+
+  const amountSol = Number(milestone.amountSol);
+  if (task.escrowStatus !== "held" || heldEscrowSol(task) < amountSol) {
+    return {
+      ok: false,
+      error: "Not enough escrow is held to pay this milestone",
+      status: 409,
+    };
+  }
+
+  const workerWallet = await resolveWorkerWallet(task);
+  if (!workerWallet) {
+    return {
+      ok: false,
+      error: "Worker has no wallet configured",
+      status: 400,
+    };
+  }
+
+  const now = new Date();
+  if (milestone.status === "submitted") {
+    const { count } = await prisma.marketplaceMilestone.updateMany({
+      where: { id: milestoneId, status: "submitted" },
+      data: { status: "approved", reviewedAt: now, rejectionReason: null },
+    });
+    if (count === 0) {
+      return {
+        ok: false,
+        error: "Milestone was reviewed concurrently. Please refresh.",
+        status: 409,
+      };
+    }
+  }
+
+  // Claim the release so a concurrent approval can't send it again
+  const { count: claimed } = await prisma.marketplaceMilestone.updateMany({
+    where: { id: milestoneId, status: "approved", releaseStartedAt: null },
+    data: { releaseStartedAt: now, releaseError: null },
+  });
+  if (claimed === 0) {
+    return {
+      ok: false,
+      error: "This milestone's payment is already in progress",
+      status: 409,
+    };
+  }
+
+  if (!(await reserveEscrow(taskId, milestone.amountSol))) {
+    const error = "Not enough escrow is held to pay this milestone";
+    await prisma.marketplaceMilestone.update({
+      where: { id: milestoneId },
+      data: { releaseStartedAt: null, releaseError: error },
+    });
+    return { ok: false, error, status: 409 };
+  }
+
+  let result;
+  try {
+    result = await releaseEscrow(taskId, workerWallet, amountSol, {
+      skipStatusUpdate: true,
+    });
+  } catch (error) {
+    // The transfer may have gone out; leave the release claimed and its
+    // amount reserved for review
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("[Marketplace] Milestone release threw:", error);
+    await prisma.marketplaceMilestone.update({
+      where: { id: milestoneId },
+      data: { releaseError: `Release outcome unknown: ${message}` },
+    });
+    return {
+      ok: false,
+      error: "The milestone payment may not have gone through",
+      status: 500,
+    };
+  }
+
+  if (!result.success) {
+    // Nothing was sent: hand the release and its amount back for a retry
+    await prisma.$transaction([
+      prisma.marketplaceMilestone.update({
+        where: { id: milestoneId },
+        data: { releaseStartedAt: null, releaseError: result.error },
+      }),
+      prisma.marketplaceTask.update({
+        where: { id: taskId },
+        data: { escrowReleasedSol: { decrement: milestone.amountSol } },
+      }),
+    ]);
+    return {
+      ok: false,
+      error: `Milestone approved, but the payment failed: ${result.error}`,
+      status: 500,
+    };
+  }
+
+  await prisma.marketplaceMilestone.update({
+    where: { id: milestoneId },
+    data: {
+      status: "released",
+      releasedAt: new Date(),
+      releaseTxSignature: result.txSignature ?? null,
+    },
+  });
+
+  // The amount was reserved up front; settle the escrow once it's all paid
+  // and no other milestone payment could still hand its amount back
+  const paid = await prisma.marketplaceTask.findUniqueOrThrow({
+    where: { id: taskId },
+    select: { escrowAmount: true, budgetSol: true, escrowReleasedSol: true },
+  });
+  if (heldEscrowSol(paid) <= 0) {
+    await prisma.marketplaceTask.updateMany({
+      where: {
+        id: taskId,
+        escrowStatus: "held",
+        milestones: {
+          none: { status: "approved", releaseStartedAt: { not: null } },
+        },
+      },
+      data: {
+        escrowStatus: "released",
+        settleTxSignature: result.txSignature,
+      },
+    });
+  }
+
+  notifyUser(
+    task.workerId ?? task.workerAgent?.createdById,
+    milestoneReviewedEmail({
+      ...taskEmailParams(task, milestone),
+      approved: true,
+    }),
+  );
+
+  return { ok: true, milestone: await reloadMilestone(milestoneId) };
+}
+
+/**
+ * Whether a milestone payment was started but not yet recorded, or its
+ * outcome is unknown. The task's escrow can't be settled, refunded or split
+ * until it is, or the worker could be paid twice.
+ */
+export async function hasMilestoneReleaseInFlight(
+  taskId: string,
+): Promise<boolean> {
+  const count = await prisma.marketplaceMilestone.count({
+    where: { taskId, status: "approved", releaseStartedAt: { not: null } },
+  });
+  return count > 0;
+}
+
+/**
+ * Record the release of the rest of the escrow on final approval. It pays
+ * out every milestone not yet released.
+ */
+export async function recordFinalRelease(
+  taskId: string,
+  amountSol: number,
+  txSignature: string | null,
+): Promise<void> {
+  const now = new Date();
+  await prisma.$transaction([
+    prisma.marketplaceTask.update({
+      where: { id: taskId },
+      data: { escrowReleasedSol: { increment: amountSol } },
+    }),
+    prisma.marketplaceMilestone.updateMany({
+      where: { taskId, status: { not: "released" } },
+      data: {
+        status: "released",
+        releasedAt: now,
+        releaseTxSignature: txSignature,
+      },
+    }),
+  ]);
+}
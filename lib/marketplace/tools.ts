@@ -6,12 +6,32 @@
  */
 
 import prisma from "@/lib/prisma";
-import { createEscrow, releaseEscrow, claimTaskTokenFees } from "./escrow";
+import {
+  createEscrow,
+  releaseEscrow,
+  claimTaskTokenFees,
+  heldEscrowSol,
+} from "./escrow";
+import { startAgentWork } from "./agent-work";
+import { startExternalDispatch } from "./dispatch";
+import { validateMilestones } from "./milestone-policy";
+import {
+  MILESTONE_SELECT,
+  approveMilestone,
+  hasMilestoneReleaseInFlight,
+  listMilestones,
+  recordFinalRelease,
+  rejectMilestone,
+  submitMilestone,
+  toMilestone,
+  type MilestoneRow,
+} from "./milestones";
 import {
   MARKETPLACE_CATEGORIES,
   LISTING_TYPES,
   type MarketplaceCategory,
   type ListingType,
+  type Milestone,
 } from "./types";
 
 // ── Response Helpers ────────────────────────────────────────────────────
@@ -80,7 +100,7 @@ interface TaskSummary {
 
 interface TaskDetail extends TaskSummary {
   requirements: string[];
-  milestones: unknown;
+  milestones: Milestone[];
   deliverables: string | null;
   location: string | null;
   isRemote: boolean;
@@ -307,6 +327,9 @@ export async function hireListing(params: {
       return fail("You cannot hire your own listing");
     }
 
+    // An external agent is hired through its registrant, who is its worker
+    const isExternalAgent = listing.type === "agent" && !listing.agentId;
+
     // Create as pending_escrow to avoid visibility before escrow is confirmed
     const task = await prisma.marketplaceTask.create({
       data: {
@@ -317,7 +340,10 @@ export async function hireListing(params: {
         budgetSol,
         posterId: userId,
         listingId: listing.id,
-        workerId: listing.type === "human" ? listing.userId : undefined,
+        workerId:
+          listing.type === "human" || isExternalAgent
+            ? listing.userId
+            : undefined,
         workerAgentId: listing.type === "agent" ? listing.agentId : undefined,
         status: "pending_escrow",
         isRemote: true,
@@ -341,6 +367,11 @@ export async function hireListing(params: {
       data: { status: "assigned" },
     });
 
+    // A hired Agent Inc agent starts working the task on its own; an
+    // external agent is sent the task over its listing's protocol
+    if (task.workerAgentId) await startAgentWork(task.id);
+    else if (isExternalAgent) await startExternalDispatch(task.id);
+
     const t = rel<{
       poster: { email: string | null };
       worker?: { email: string | null } | null;
@@ -374,6 +405,7 @@ export async function postBounty(params: {
   category: string;
   budgetSol: number;
   requirements?: string[];
+  milestones?: unknown;
   userId: string;
 }): Promise<ToolResult<TaskSummary>> {
   try {
@@ -396,6 +428,11 @@ export async function postBounty(params: {
       );
     }
 
+    const milestones = validateMilestones(params.milestones ?? [], budgetSol);
+    if (!milestones.ok) {
+      return fail(milestones.error);
+    }
+
     const task = await prisma.marketplaceTask.create({
       data: {
         title,
@@ -406,6 +443,12 @@ export async function postBounty(params: {
         posterId: userId,
         status: "pending_escrow",
         isRemote: true,
+        milestones: {
+          create: milestones.milestones.map((m, position) => ({
+            ...m,
+            position,
+          })),
+        },
       },
       include: {
         poster: { select: { email: true } },
@@ -577,8 +620,6 @@ export async function approveDelivery(
         posterId: true,
         status: true,
         escrowStatus: true,
-        escrowAmount: true,
-        budgetSol: true,
         listingId: true,
         tokenMint: true,
         worker: {
@@ -612,7 +653,8 @@ export async function approveDelivery(
       );
     }
 
-    if (task.escrowStatus !== "held") {
+    // Escrow already released in full means milestones paid all of it
+    if (task.escrowStatus !== "held" && task.escrowStatus !== "released") {
       return fail("No escrow held for this task");
     }
 
@@ -631,24 +673,56 @@ export async function approveDelivery(
       return fail("Worker has no wallet configured for payment");
     }
 
-    const escrowResult = await releaseEscrow(
-      taskId,
-      workerWallet,
-      Number(task.escrowAmount ?? task.budgetSol),
-    );
-
-    if (!escrowResult.success) {
-      return fail(`Escrow release failed: ${escrowResult.error}`);
+    // Atomic status transition so concurrent approvals can't both release
+    const { count: transitioned } = await prisma.marketplaceTask.updateMany({
+      where: { id: taskId, status: "review" },
+      data: { status: "completed", completedAt: new Date() },
+    });
+    if (transitioned === 0) {
+      return fail("Task is no longer in review (concurrent update)");
+    }
+    const reopen = () =>
+      prisma.marketplaceTask.update({
+        where: { id: taskId },
+        data: { status: "review", completedAt: null },
+      });
+
+    // Completed tasks can't reserve milestone payments, so this check can't
+    // go stale; one that reserved before the transition must land first
+    if (await hasMilestoneReleaseInFlight(taskId)) {
+      await reopen();
+      return fail("A milestone payment is still in progress; try again later");
     }
 
-    await prisma.marketplaceTask.update({
+    // Re-read after the transition so a milestone paid since counts
+    const escrow = await prisma.marketplaceTask.findUniqueOrThrow({
       where: { id: taskId },
-      data: {
-        status: "completed",
-        completedAt: new Date(),
+      select: {
+        escrowStatus: true,
+        escrowAmount: true,
+        escrowReleasedSol: true,
+        budgetSol: true,
       },
     });
 
+    let txSignature: string | undefined;
+    const remainingSol =
+      escrow.escrowStatus === "held" ? heldEscrowSol(escrow) : 0;
+    if (remainingSol > 0) {
+      const escrowResult = await releaseEscrow(
+        taskId,
+        workerWallet,
+        remainingSol,
+      );
+
+      if (!escrowResult.success) {
+        await reopen();
+        return fail(`Escrow release failed: ${escrowResult.error}`);
+      }
+      txSignature = escrowResult.txSignature;
+      await recordFinalRelease(taskId, remainingSol, txSignature ?? null);
+    }
+
     // Claim task token fees if applicable
     let tokenFeesClaimed = 0;
     if (task.tokenMint && workerWallet) {
@@ -684,7 +758,7 @@ export async function approveDelivery(
     return ok({
       taskId,
       status: "completed",
-      txSignature: escrowResult.txSignature,
+      txSignature,
       tokenFeesClaimed,
     });
   } catch (error) {
@@ -710,6 +784,10 @@ export async function getTaskDetail(
           },
           orderBy: { createdAt: "desc" },
         },
+        milestones: {
+          select: MILESTONE_SELECT,
+          orderBy: { position: "asc" },
+        },
       },
     });
 
@@ -722,6 +800,7 @@ export async function getTaskDetail(
       worker?: { email: string | null } | null;
       workerAgent?: { name: string } | null;
       bids: Record<string, unknown>[];
+      milestones: MilestoneRow[];
     }>(task);
 
     return ok({
@@ -739,7 +818,7 @@ export async function getTaskDetail(
       bidCount: t.bids.length,
       createdAt: task.createdAt,
       requirements: task.requirements,
-      milestones: task.milestones,
+      milestones: t.milestones.map(toMilestone),
       deliverables: task.deliverables,
       location: task.location,
       isRemote: task.isRemote,
@@ -753,3 +832,66 @@ export async function getTaskDetail(
     return fail("Failed to get task details");
   }
 }
+
+export async function listTaskMilestones(
+  taskId: string,
+): Promise<ToolResult<Milestone[]>> {
+  try {
+    const milestones = await listMilestones(taskId);
+    if (!milestones) {
+      return fail("Task not found");
+    }
+    return ok(milestones);
+  } catch (error) {
+    console.error("[Marketplace] listTaskMilestones error:", error);
+    return fail("Failed to list milestones");
+  }
+}
+
+export async function submitMilestoneWork(params: {
+  taskId: string;
+  milestoneId: string;
+  deliverables: string;
+  userId: string;
+}): Promise<ToolResult<Milestone>> {
+  try {
+    const result = await submitMilestone(
+      params.taskId,
+      params.milestoneId,
+      params.userId,
+      params.deliverables,
+    );
+    return result.ok ? ok(result.milestone) : fail(result.error);
+  } catch (error) {
+    console.error("[Marketplace] submitMilestoneWork error:", error);
+    return fail("Failed to submit milestone");
+  }
+}
+
+export async function reviewMilestoneWork(params: {
+  taskId: string;
+  milestoneId: string;
+  decision: "approve" | "reject";
+  reason?: string;
+  userId: string;
+}): Promise<ToolResult<Milestone>> {
+  try {
+    const result =
+      params.decision === "approve"
+        ? await approveMilestone(
+            params.taskId,
+            params.milestoneId,
+            params.userId,
+          )
+        : await rejectMilestone(
+            params.taskId,
+            params.milestoneId,
+            params.userId,
+            params.reason,
+          );
+    return result.ok ? ok(result.milestone) : fail(result.error);
+  } catch (error) {
+    console.error("[Marketplace] reviewMilestoneWork error:", error);
+    return fail("Failed to review milestone");
+  }
+}
@@ -71,11 +71,22 @@ export const TASK_STATUS_LABELS: Record<TaskStatus, string> = {
 export const ESCROW_STATUSES = [
   "none",
   "held",
+  "refunding",
   "released",
   "refunded",
+  "split",
 ] as const;
 export type EscrowStatus = (typeof ESCROW_STATUSES)[number];
 
+/** How long an assigned worker has to deliver after being told the deadline passed */
+export const ASSIGNED_TASK_GRACE_MS = 48 * 60 * 60 * 1000;
+/** Automatic refund attempts before a cancelled task needs manual review */
+export const MAX_REFUND_ATTEMPTS = 5;
+/** Wait between automatic refund attempts */
+export const REFUND_RETRY_DELAY_MS = 30 * 60 * 1000;
+/** A refund still in flight after this long may or may not have been sent */
+export const STUCK_REFUND_MS = 15 * 60 * 1000;
+
 // ── Bid Status ──────────────────────────────────────────────────────────
 
 export const BID_STATUSES = [
@@ -88,12 +99,179 @@ export type BidStatus = (typeof BID_STATUSES)[number];
 
 // ── Milestone ───────────────────────────────────────────────────────────
 
+/**
+ * pending: waiting on the worker
+ * submitted: handed in, waiting on the poster's review
+ * approved: accepted; its share of the escrow is being released
+ * rejected: sent back for rework — the worker can resubmit
+ * released: its share of the escrow was paid to the worker
+ */
+export const MILESTONE_STATUSES = [
+  "pending",
+  "submitted",
+  "approved",
+  "rejected",
+  "released",
+] as const;
+export type MilestoneStatus = (typeof MILESTONE_STATUSES)[number];
+
+export const MAX_MILESTONES = 20;
+
+/** A milestone as the API returns it */
 export interface Milestone {
+  id: string;
+  position: number;
+  title: string;
+  description: string | null;
+  amountSol: number;
+  dueDate: string | null;
+  status: MilestoneStatus;
+  deliverables: string | null;
+  submittedAt: string | null;
+  rejectionReason: string | null;
+  reviewedAt: string | null;
+  releaseTxSignature: string | null;
+  releaseError: string | null;
+  releasedAt: string | null;
+}
+
+/** A milestone as a poster defines it when creating a task */
+export interface MilestoneInput {
   title: string;
   amountSol: number;
-  status: "pending" | "completed" | "released";
+  description?: string;
+  dueDate?: string;
 }
 
+// ── Disputes ────────────────────────────────────────────────────────
+
+/**
+ * open: both parties submit evidence until the response deadline
+ * voting: staked jurors vote until the voting deadline
+ * arbitration: waiting on a platform arbitrator
+ * settling: ruled, escrow transfers in progress (retried by cron)
+ * resolved: escrow settled per the ruling
+ * closed: withdrawn because the worker resubmitted
+ */
+export const DISPUTE_STATUSES = [
+  "open",
+  "voting",
+  "arbitration",
+  "settling",
+  "resolved",
+  "closed",
+] as const;
+export type DisputeStatus = (typeof DISPUTE_STATUSES)[number];
+
+/** Disputes that can still be ruled on */
+export const ACTIVE_DISPUTE_STATUSES: DisputeStatus[] = [
+  "open",
+  "voting",
+  "arbitration",
+];
+
+export const ARBITRATION_METHODS = ["admin", "ai", "jurors"] as const;
+export type ArbitrationMethod = (typeof ARBITRATION_METHODS)[number];
+
+export const ARBITRATION_METHOD_LABELS: Record<ArbitrationMethod, string> = {
+  admin: "Platform admin",
+  ai: "AI judge",
+  jurors: "Staked jurors",
+};
+
+export const DISPUTE_OUTCOMES = ["release", "refund", "split"] as const;
+export type DisputeOutcome = (typeof DISPUTE_OUTCOMES)[number];
+
+export type DisputeParty = "poster" | "worker";
+
+/** Time the worker has to respond once a dispute is filed */
+export const DISPUTE_RESPONSE_WINDOW_MS = 72 * 60 * 60 * 1000;
+/** Time jurors have to vote once the evidence closes */
+export const DISPUTE_VOTING_WINDOW_MS = 48 * 60 * 60 * 1000;
+/** Votes needed for a jury ruling; fewer hands the dispute to an admin */
+export const DISPUTE_JUROR_QUORUM = 3;
+/** Staked $AGENTINC a wallet needs to sit on a jury */
+export const DISPUTE_JUROR_MIN_STAKE = 1_000_000;
+export const MAX_DISPUTE_EVIDENCE_PER_PARTY = 10;
+export const MAX_DISPUTE_ATTACHMENTS = 5;
+export const MAX_DISPUTE_EVIDENCE_LENGTH = 5000;
+/** Settlement attempts before a dispute needs manual attention */
+export const MAX_DISPUTE_SETTLEMENT_ATTEMPTS = 5;
+
+/** An arbitrator's decision: the share of the escrow paid to the worker */
+export interface DisputeRuling {
+  workerPercent: number;
+  reasoning: string;
+}
+
+// ── Agent Work ──────────────────────────────────────────────────────────
+
+/**
+ * running: the agent is working the task
+ * submitted: the agent delivered; the task is in review
+ * failed: the agent gave up (budget, errors, or no deliverables)
+ * stopped: the task was cancelled or reassigned mid-work
+ */
+export const AGENT_WORK_STATUSES = [
+  "running",
+  "submitted",
+  "failed",
+  "stopped",
+] as const;
+export type AgentWorkStatus = (typeof AGENT_WORK_STATUSES)[number];
+
+/** Share of the bounty's USD value the agent may spend working the task */
+export const AGENT_WORK_BUDGET_SHARE = 0.2;
+export const MAX_AGENT_WORK_BUDGET_USD = 25;
+/** Rounds of work (each up to AGENT_WORK_STEPS_PER_ROUND tool steps) */
+export const MAX_AGENT_WORK_ROUNDS = 6;
+export const AGENT_WORK_STEPS_PER_ROUND = 12;
+/** Retries of a failed round, with backoff doubling from AGENT_WORK_RETRY_MS */
+export const MAX_AGENT_WORK_RETRIES = 2;
+export const AGENT_WORK_RETRY_MS = 60 * 1000;
+/**
+ * Tool groups an agent never works with unattended: wallet transfers wait
+ * for an approval nobody is there to give, and task tools would start
+ * recurring work outside the budget.
+ */
+export const AGENT_WORK_EXCLUDED_TOOL_GROUPS: readonly string[] = [
+  "wallet",
+  "tasks",
+];
+
+// ── External Dispatch ───────────────────────────────────────────────────
+
+/** Protocols an external agent listing can be hired over, in preference order */
+export const DISPATCH_PROTOCOLS = ["a2a", "mcp", "rest"] as const;
+export type DispatchProtocol = (typeof DISPATCH_PROTOCOLS)[number];
+
+/**
+ * pending: not yet sent to the agent
+ * submitted, working: the agent has the task
+ * completed: the agent returned its artifacts
+ * failed: the agent failed, rejected the task, or asked for input nobody
+ *   can give
+ * canceled: the task was cancelled or reassigned, or the agent canceled it
+ */
+export const DISPATCH_STATES = [
+  "pending",
+  "submitted",
+  "working",
+  "completed",
+  "failed",
+  "canceled",
+] as const;
+export type DispatchState = (typeof DISPATCH_STATES)[number];
+
+/** Polling starts at DISPATCH_POLL_MS and doubles up to MAX_DISPATCH_POLL_MS */
+export const DISPATCH_POLL_MS = 30 * 1000;
+export const MAX_DISPATCH_POLL_MS = 15 * 60 * 1000;
+/** How long an external agent has to finish before the dispatch gives up */
+export const DISPATCH_TIMEOUT_MS = 7 * 24 * 60 * 60 * 1000;
+/** Timeout for a request to the agent; MCP tool calls may run longer */
+export const DISPATCH_REQUEST_TIMEOUT_MS = 30 * 1000;
+export const DISPATCH_MCP_CALL_TIMEOUT_MS = 5 * 60 * 1000;
+
 // ── API Types ───────────────────────────────────────────────────────────
 
 export interface CreateListingInput {
@@ -125,7 +303,7 @@ export interface CreateTaskInput {
   requirements: string[];
   budgetSol: number;
   budgetToken?: string;
-  milestones?: Milestone[];
+  milestones?: MilestoneInput[];
   listingId?: string;
   location?: string;
   isRemote?: boolean;
@@ -191,6 +191,100 @@ export async function fetchCachedPricesOnly(
   });
 }
 
+/**
+ * Prices for a list of mints: per-mint cache first (30-minute TTL), then
+ * DexScreener prices and Bags earnings for the misses. Mints with no data
+ * are left out. `cached` is true when nothing had to be fetched.
+ */
+export async function getTokenPrices(
+  mintList: string[],
+): Promise<{ prices: Record<string, PriceData>; cached: boolean }> {
+  // Check per-mint cache, collect misses
+  const prices: Record<string, PriceData> = {};
+  const uncachedMints: string[] = [];
+
+  await Promise.all(
+    mintList.map(async (mint) => {
+      const cached = await getCachedPrice(mint);
+      if (cached) {
+        prices[mint] = cached;
+      } else {
+        uncachedMints.push(mint);
+      }
+    }),
+  );
+
+  const allCached = uncachedMints.length === 0;
+
+  // Fetch fresh prices only for uncached mints
+  if (uncachedMints.length > 0) {
+    const dexResponse = await fetch(
+      `https://api.dexscreener.com/latest/dex/tokens/${uncachedMints.join(",")}`,
+      {
+        headers: { "Content-Type": "application/json" },
+        next: { revalidate: 1800 },
+      },
+    );
+
+    if (dexResponse.ok) {
+      const data = await dexResponse.json();
+
+      if (data.pairs && Array.isArray(data.pairs)) {
+        const liquidityMap = new Map<string, number>();
+        const mintSet = new Set(uncachedMints);
+
+        for (const pair of data.pairs) {
+          const mint = pair.baseToken?.address;
+          if (mint && mintSet.has(mint) && pair.priceUsd) {
+            const currentLiquidity = liquidityMap.get(mint) || 0;
+            const pairLiquidity = pair.liquidity?.usd || 0;
+
+            if (!prices[mint] || pairLiquidity > currentLiquidity) {
+              prices[mint] = {
+                price: parseFloat(pair.priceUsd),
+                priceChange24h: pair.priceChange?.h24
+                  ? parseFloat(pair.priceChange.h24)
+                  : undefined,
+                marketCap: pair.marketCap || pair.fdv || undefined,
+                volume24h: pair.volume?.h24 || undefined,
+                liquidity: pairLiquidity || undefined,
+              };
+              liquidityMap.set(mint, pairLiquidity);
+            }
+          }
+        }
+      }
+    }
+
+    // Fetch earnings for uncached mints in parallel
+    const earningsResults = await Promise.all(
+      uncachedMints.map(async (mint) => {
+        const earnings = await fetchEarningsFromBags(mint);
+        return { mint, earnings };
+      }),
+    );
+
+    for (const { mint, earnings } of earningsResults) {
+      if (prices[mint]) {
+        prices[mint].earnings = earnings;
+      } else if (earnings !== undefined) {
+        prices[mint] = { price: 0, earnings };
+      }
+    }
+
+    // Cache each newly-fetched mint individually
+    await Promise.all(
+      uncachedMints.map(async (mint) => {
+        if (prices[mint]) {
+          await setCachedPrice(mint, prices[mint]);
+        }
+      }),
+    );
+  }
+
+  return { prices, cached: allCached };
+}
+
 /**
  * Fetch prices from DexScreener and earnings from Bags API.
  * Uses per-mint caching with 30-minute TTL — only fetches fresh data
@@ -216,93 +310,12 @@ export async function fetchPrices(mints: string | null): Promise<NextResponse> {
       });
     }
 
-    // Check per-mint cache, collect misses
-    const prices: Record<string, PriceData> = {};
-    const uncachedMints: string[] = [];
-
-    await Promise.all(
-      mintList.map(async (mint) => {
-        const cached = await getCachedPrice(mint);
-        if (cached) {
-          prices[mint] = cached;
-        } else {
-          uncachedMints.push(mint);
-        }
-      }),
-    );
-
-    const allCached = uncachedMints.length === 0;
-
-    // Fetch fresh prices only for uncached mints
-    if (uncachedMints.length > 0) {
-      const dexResponse = await fetch(
-        `https://api.dexscreener.com/latest/dex/tokens/${uncachedMints.join(",")}`,
-        {
-          headers: { "Content-Type": "application/json" },
-          next: { revalidate: 1800 },
-        },
-      );
-
-      if (dexResponse.ok) {
-        const data = await dexResponse.json();
-
-        if (data.pairs && Array.isArray(data.pairs)) {
-          const liquidityMap = new Map<string, number>();
-          const mintSet = new Set(uncachedMints);
-
-          for (const pair of data.pairs) {
-            const mint = pair.baseToken?.address;
-            if (mint && mintSet.has(mint) && pair.priceUsd) {
-              const currentLiquidity = liquidityMap.get(mint) || 0;
-              const pairLiquidity = pair.liquidity?.usd || 0;
-
-              if (!prices[mint] || pairLiquidity > currentLiquidity) {
-                prices[mint] = {
-                  price: parseFloat(pair.priceUsd),
-                  priceChange24h: pair.priceChange?.h24
-                    ? parseFloat(pair.priceChange.h24)
-                    : undefined,
-                  marketCap: pair.marketCap || pair.fdv || undefined,
-                  volume24h: pair.volume?.h24 || undefined,
-                  liquidity: pairLiquidity || undefined,
-                };
-                liquidityMap.set(mint, pairLiquidity);
-              }
-            }
-          }
-        }
-      }
-
-      // Fetch earnings for uncached mints in parallel
-      const earningsResults = await Promise.all(
-        uncachedMints.map(async (mint) => {
-          const earnings = await fetchEarningsFromBags(mint);
-          return { mint, earnings };
-        }),
-      );
-
-      for (const { mint, earnings } of earningsResults) {
-        if (prices[mint]) {
-          prices[mint].earnings = earnings;
-        } else if (earnings !== undefined) {
-          prices[mint] = { price: 0, earnings };
-        }
-      }
-
-      // Cache each newly-fetched mint individually
-      await Promise.all(
-        uncachedMints.map(async (mint) => {
-          if (prices[mint]) {
-            await setCachedPrice(mint, prices[mint]);
-          }
-        }),
-      );
-    }
+    const { prices, cached } = await getTokenPrices(mintList);
 
     const jsonResponse = NextResponse.json({
       prices,
       timestamp: Date.now(),
-      cached: allCached,
+      cached,
     });
 
     jsonResponse.headers.set(
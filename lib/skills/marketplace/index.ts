@@ -17,6 +17,9 @@ import {
   approveDelivery,
   getListingDetail,
   getTaskDetail,
+  listTaskMilestones,
+  submitMilestoneWork,
+  reviewMilestoneWork,
 } from "@/lib/marketplace/tools";
 
 export const MARKETPLACE_SYSTEM_PROMPT = `
@@ -33,6 +36,9 @@ You have access to the Agent Inc Marketplace — a Web3 hiring protocol where hu
 - **marketplace_check_task**: Check the status of a task
 - **marketplace_approve_delivery**: Approve a completed delivery and release payment
 - **marketplace_get_task**: Get full details of a task
+- **marketplace_list_milestones**: List a task's milestones and their status
+- **marketplace_submit_milestone**: Submit the work for one milestone of a task you're assigned
+- **marketplace_review_milestone**: Approve a submitted milestone (releasing its SOL) or reject it with a reason
 
 ### When to use Marketplace tools:
 - User asks to hire someone → Use marketplace_search then marketplace_hire
@@ -40,11 +46,13 @@ You have access to the Agent Inc Marketplace — a Web3 hiring protocol where hu
 - User wants to check on a task → Use marketplace_check_task
 - User needs IRL help (photos, delivery, verification) → Search for humans in the marketplace
 - User wants to bid on available work → Use marketplace_bid
+- User wants to pay for work in stages → Add milestones to marketplace_post_bounty, then review each with marketplace_review_milestone
 
 ### Guidelines:
 - Always confirm budget with the user before creating escrow
 - For IRL tasks, filter by location when possible
 - Show price in SOL with USD estimate when available
+- Confirm with the user before approving a milestone — approval releases its SOL immediately
 `;
 
 export const MARKETPLACE_FUNCTIONS = [
@@ -72,6 +80,21 @@ export const MARKETPLACE_FUNCTIONS = [
     description: "Approve and release payment",
   },
   { id: "get_task", name: "Get Task", description: "View task details" },
+  {
+    id: "list_milestones",
+    name: "List Milestones",
+    description: "View a task's milestones",
+  },
+  {
+    id: "submit_milestone",
+    name: "Submit Milestone",
+    description: "Submit work for a milestone",
+  },
+  {
+    id: "review_milestone",
+    name: "Review Milestone",
+    description: "Approve and pay, or reject, a milestone",
+  },
 ];
 
 export const marketplaceSkill: Skill = {
@@ -133,6 +156,19 @@ export const marketplaceSkill: Skill = {
         .array(z.string())
         .optional()
         .describe("List of requirements"),
+      milestones: z
+        .array(
+          z.object({
+            title: z.string().describe("Milestone title"),
+            amountSol: z.number().describe("SOL released when it's approved"),
+            description: z.string().optional(),
+            dueDate: z.string().optional().describe("ISO 8601 due date"),
+          }),
+        )
+        .optional()
+        .describe(
+          "Split the budget into milestones, each paid on approval. Amounts can't exceed the budget.",
+        ),
     });
 
     const bidSchema = z.object({
@@ -141,6 +177,26 @@ export const marketplaceSkill: Skill = {
       message: z.string().optional().describe("Message to the task poster"),
     });
 
+    const submitMilestoneSchema = z.object({
+      taskId: z.string().describe("The task ID"),
+      milestoneId: z.string().describe("The milestone ID"),
+      deliverables: z
+        .string()
+        .describe("The work for this milestone: text, links, or results"),
+    });
+
+    const reviewMilestoneSchema = z.object({
+      taskId: z.string().describe("The task ID"),
+      milestoneId: z.string().describe("The milestone ID"),
+      decision: z
+        .enum(["approve", "reject"])
+        .describe("Approve and pay, or reject"),
+      reason: z
+        .string()
+        .optional()
+        .describe("Why the milestone is rejected (required to reject)"),
+    });
+
     return {
       search: tool({
         description:
@@ -219,6 +275,37 @@ export const marketplaceSkill: Skill = {
           return getTaskDetail(taskId);
         },
       }),
+
+      list_milestones: tool({
+        description:
+          "List a marketplace task's milestones with their amounts, due dates, and review and payment status",
+        inputSchema: taskIdSchema,
+        execute: async ({ taskId }: z.infer<typeof taskIdSchema>) => {
+          return listTaskMilestones(taskId);
+        },
+      }),
+
+      submit_milestone: tool({
+        description:
+          "Submit the work for one milestone of a task you're assigned, for the poster's review",
+        inputSchema: submitMilestoneSchema,
+        execute: async (params: z.infer<typeof submitMilestoneSchema>) => {
+          if (!userId)
+            return { success: false, error: "Authentication required" };
+          return submitMilestoneWork({ ...params, userId });
+        },
+      }),
+
+      review_milestone: tool({
+        description:
+          "Approve a submitted milestone and release its SOL to the worker, or reject it with a reason",
+        inputSchema: reviewMilestoneSchema,
+        execute: async (params: z.infer<typeof reviewMilestoneSchema>) => {
+          if (!userId)
+            return { success: false, error: "Authentication required" };
+          return reviewMilestoneWork({ ...params, userId });
+        },
+      }),
     };
   },
 };
@@ -0,0 +1,66 @@
+/**
+ * Spending Limits Constants
+ *
+ * User-defined caps on billed spend. Limits apply at three scopes (the whole
+ * user, one agent, one task) over four periods, and are evaluated against
+ * successful UsageRecord charges.
+ */
+
+// ── Scopes & Periods ─────────────────────────────────────────────────────────
+
+export const SPENDING_SCOPES = ["user", "agent", "task"] as const;
+export type SpendingScope = (typeof SPENDING_SCOPES)[number];
+
+/**
+ * - daily / monthly: calendar windows in UTC
+ * - per_chat: total spend within one saved chat
+ * - per_iteration: spend within a single task iteration
+ */
+export const SPENDING_PERIODS = [
+  "daily",
+  "monthly",
+  "per_chat",
+  "per_iteration",
+] as const;
+export type SpendingPeriod = (typeof SPENDING_PERIODS)[number];
+
+/** Smallest cap a user can set (USD) */
+export const MIN_LIMIT_USD = 0.01;
+
+/** Largest cap a user can set (USD) */
+export const MAX_LIMIT_USD = 100_000;
+
+/** Max limits per user across all scopes */
+export const MAX_LIMITS_PER_USER = 50;
+
+/** Error code returned with 402 responses and tool errors */
+export const SPENDING_LIMIT_ERROR_CODE = "SPENDING_LIMIT_EXCEEDED";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+/** What is about to spend — determines which limits apply */
+export interface SpendingCheckContext {
+  userId: string;
+  agentId?: string;
+  taskId?: string;
+  chatId?: string;
+  /** Start of the current task iteration (enables per_iteration limits) */
+  iterationStartedAt?: Date;
+}
+
+export interface SpendingLimitBreach {
+  limitId: string;
+  scope: SpendingScope;
+  scopeId: string;
+  period: SpendingPeriod;
+  limitUsd: number;
+  spentUsd: number;
+  /** When the window resets (daily/monthly only) */
+  resetsAt?: string;
+}
+
+export interface SpendingCheckResult {
+  allowed: boolean;
+  /** The first limit that blocks the spend */
+  breach?: SpendingLimitBreach;
+}
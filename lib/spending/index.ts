@@ -0,0 +1,20 @@
+export {
+  SPENDING_SCOPES,
+  SPENDING_PERIODS,
+  MIN_LIMIT_USD,
+  MAX_LIMIT_USD,
+  MAX_LIMITS_PER_USER,
+  SPENDING_LIMIT_ERROR_CODE,
+  type SpendingScope,
+  type SpendingPeriod,
+  type SpendingCheckContext,
+  type SpendingLimitBreach,
+  type SpendingCheckResult,
+} from "./constants";
+
+export {
+  checkSpendingLimits,
+  getCurrentSpend,
+  describeBreach,
+  createSpendingLimitResponse,
+} from "./limits";
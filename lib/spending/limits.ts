@@ -0,0 +1,213 @@
+/**
+ * Spending Limit Enforcement
+ *
+ * Checks a pending spend against every enabled limit that applies to the
+ * caller (user scope always; agent/task scope when known). Spend is summed
+ * from successful UsageRecord rows, so charges count as soon as they are
+ * recorded regardless of payment method.
+ *
+ * Checks fail open: if the database is unavailable the spend is allowed and
+ * the error is logged, matching how billing treats its own side-effects.
+ */
+
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import type { Prisma } from "@/app/generated/prisma/client";
+
+import {
+  SPENDING_LIMIT_ERROR_CODE,
+  type SpendingCheckContext,
+  type SpendingCheckResult,
+  type SpendingLimitBreach,
+  type SpendingPeriod,
+  type SpendingScope,
+} from "./constants";
+
+interface ApplicableLimit {
+  id: string;
+  scope: string;
+  scopeId: string;
+  period: string;
+  limitUsd: number;
+}
+
+function startOfUtcDay(now: Date): Date {
+  return new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()),
+  );
+}
+
+function startOfUtcMonth(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+/**
+ * Resolve the UsageRecord window for a limit, or null when the limit does
+ * not apply to this context (e.g. per_chat outside a saved chat).
+ */
+function resolveWindow(
+  limit: ApplicableLimit,
+  ctx: SpendingCheckContext,
+  now: Date,
+): { where: Prisma.UsageRecordWhereInput; resetsAt?: Date } | null {
+  const scopeWhere: Prisma.UsageRecordWhereInput =
+    limit.scope === "agent"
+      ? { agentId: limit.scopeId }
+      : limit.scope === "task"
+        ? { taskId: limit.scopeId }
+        : {};
+
+  switch (limit.period as SpendingPeriod) {
+    case "daily": {
+      const start = startOfUtcDay(now);
+      return {
+        where: { ...scopeWhere, createdAt: { gte: start } },
+        resetsAt: new Date(start.getTime() + 24 * 60 * 60 * 1000),
+      };
+    }
+    case "monthly": {
+      const start = startOfUtcMonth(now);
+      return {
+        where: { ...scopeWhere, createdAt: { gte: start } },
+        resetsAt: new Date(
+          Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1),
+        ),
+      };
+    }
+    case "per_chat":
+      if (!ctx.chatId) return null;
+      return { where: { ...scopeWhere, chatId: ctx.chatId } };
+    case "per_iteration":
+      if (!ctx.taskId || !ctx.iterationStartedAt) return null;
+      return {
+        where: {
+          ...scopeWhere,
+          taskId: ctx.taskId,
+          createdAt: { gte: ctx.iterationStartedAt },
+        },
+      };
+    default:
+      return null;
+  }
+}
+
+async function sumSpend(
+  userId: string,
+  where: Prisma.UsageRecordWhereInput,
+): Promise<number> {
+  const agg = await prisma.usageRecord.aggregate({
+    where: { ...where, userId, success: true },
+    _sum: { usdCost: true },
+  });
+  return agg._sum.usdCost ?? 0;
+}
+
+/**
+ * Current spend against a daily or monthly limit, for display.
+ * Returns null for per_chat / per_iteration limits, which have no single
+ * current window.
+ */
+export async function getCurrentSpend(
+  userId: string,
+  limit: ApplicableLimit,
+): Promise<{ spentUsd: number; resetsAt?: string } | null> {
+  if (limit.period !== "daily" && limit.period !== "monthly") return null;
+  const window = resolveWindow(limit, { userId }, new Date());
+  if (!window) return null;
+  return {
+    spentUsd: await sumSpend(userId, window.where),
+    resetsAt: window.resetsAt?.toISOString(),
+  };
+}
+
+/**
+ * Check whether spending `pendingUsd` more is within all applicable limits.
+ *
+ * Pass pendingUsd=0 to ask "has any limit already been reached?" (used
+ * before inference, whose cost is only known afterwards).
+ */
+export async function checkSpendingLimits(
+  ctx: SpendingCheckContext,
+  pendingUsd: number = 0,
+): Promise<SpendingCheckResult> {
+  try {
+    const scopes: Prisma.SpendingLimitWhereInput[] = [{ scope: "user" }];
+    if (ctx.agentId) scopes.push({ scope: "agent", scopeId: ctx.agentId });
+    if (ctx.taskId) scopes.push({ scope: "task", scopeId: ctx.taskId });
+
+    const limits = await prisma.spendingLimit.findMany({
+      where: { userId: ctx.userId, enabled: true, OR: scopes },
+      select: {
+        id: true,
+        scope: true,
+        scopeId: true,
+        period: true,
+        limitUsd: true,
+      },
+      orderBy: { limitUsd: "asc" },
+    });
+
+    if (limits.length === 0) return { allowed: true };
+
+    const now = new Date();
+    for (const limit of limits) {
+      const window = resolveWindow(limit, ctx, now);
+      if (!window) continue;
+
+      const spentUsd = await sumSpend(ctx.userId, window.where);
+
+      if (
+        spentUsd >= limit.limitUsd ||
+        spentUsd + pendingUsd > limit.limitUsd
+      ) {
+        return {
+          allowed: false,
+          breach: {
+            limitId: limit.id,
+            scope: limit.scope as SpendingScope,
+            scopeId: limit.scopeId,
+            period: limit.period as SpendingPeriod,
+            limitUsd: limit.limitUsd,
+            spentUsd,
+            resetsAt: window.resetsAt?.toISOString(),
+          },
+        };
+      }
+    }
+
+    return { allowed: true };
+  } catch (error) {
+    console.error("[Spending] Limit check failed:", error);
+    return { allowed: true };
+  }
+}
+
+/**
+ * Human-readable description of a breached limit.
+ */
+export function describeBreach(breach: SpendingLimitBreach): string {
+  const period =
+    breach.period === "per_chat"
+      ? "per-chat"
+      : breach.period === "per_iteration"
+        ? "per-iteration"
+        : breach.period;
+  const scope = breach.scope === "user" ? "account" : breach.scope;
+  return `Your ${period} ${scope} spending limit of $${breach.limitUsd.toFixed(2)} has been reached ($${breach.spentUsd.toFixed(4)} spent).`;
+}
+
+/**
+ * 402 response for a request blocked by a spending limit.
+ */
+export function createSpendingLimitResponse(
+  breach: SpendingLimitBreach,
+): NextResponse {
+  return NextResponse.json(
+    {
+      error: describeBreach(breach),
+      code: SPENDING_LIMIT_ERROR_CODE,
+      details: breach,
+    },
+    { status: 402 },
+  );
+}
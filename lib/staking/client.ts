@@ -150,6 +150,24 @@ export async function getUserStakeEntries(
   return entries;
 }
 
+/**
+ * Total tokens a wallet has staked in a pool, in UI units.
+ */
+export async function getStakedAmount(
+  walletAddress: string,
+  stakePoolAddress: string,
+  decimals: number,
+): Promise<number> {
+  const entries = await getUserStakeEntries(walletAddress, stakePoolAddress);
+  let raw = 0;
+  for (const entry of entries) {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const data = entry.account as any;
+    raw += bnToNumber(data.amount);
+  }
+  return raw / 10 ** decimals;
+}
+
 /**
  * Get reward pools for a stake pool.
  */
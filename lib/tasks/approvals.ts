@@ -0,0 +1,162 @@
+/**
+ * Task Approvals
+ *
+ * Background tasks run unattended, so tool calls that post, message, or
+ * spend on the owner's behalf can be held for a human decision. A task's
+ * approval policy lists the tools that need it; wallet transfers always do.
+ *
+ * When an iteration hits one, the workflow records the pending calls here,
+ * emails the owner, and waits on taskApprovalHook. The owner's decision
+ * (or the deadline) resumes the iteration.
+ */
+
+import prisma from "@/lib/prisma";
+import type { Prisma } from "@/app/generated/prisma/client";
+import { sendEmail, toolApprovalRequestedEmail } from "@/lib/email";
+import {
+  taskApprovalHook,
+  taskApprovalToken,
+} from "@/workflows/tasks/hooks/taskApproval";
+
+import {
+  APPROVAL_TIMEOUT_MS,
+  MAX_APPROVAL_POLICY_TOOLS,
+  type ApprovalStatus,
+  type PendingToolApproval,
+} from "./constants";
+
+/**
+ * Check an approval policy from user or tool input. Returns an error
+ * message, or null when valid.
+ */
+export function validateApprovalPolicy(tools: unknown): string | null {
+  if (!Array.isArray(tools)) {
+    return "approvalRequiredTools must be an array of tool names";
+  }
+  if (tools.length > MAX_APPROVAL_POLICY_TOOLS) {
+    return `approvalRequiredTools can list at most ${MAX_APPROVAL_POLICY_TOOLS} tools`;
+  }
+  for (const name of tools) {
+    if (typeof name !== "string" || !name.trim() || name.length > 100) {
+      return "approvalRequiredTools must contain tool names (max 100 characters)";
+    }
+  }
+  return null;
+}
+
+/**
+ * Record tool calls awaiting approval and email the owner. Returns the
+ * deadline after which undecided calls are rejected.
+ */
+export async function requestTaskApprovals(
+  taskId: string,
+  iteration: number,
+  pending: PendingToolApproval[],
+): Promise<Date> {
+  const expiresAt = new Date(Date.now() + APPROVAL_TIMEOUT_MS);
+
+  await prisma.taskApproval.createMany({
+    data: pending.map((p) => ({
+      taskId,
+      iteration,
+      approvalId: p.approvalId,
+      toolCallId: p.toolCallId,
+      toolName: p.toolName,
+      input: (p.input ?? undefined) as Prisma.InputJsonValue | undefined,
+      expiresAt,
+    })),
+    skipDuplicates: true,
+  });
+
+  // Notify the owner (fire-and-forget)
+  prisma.agentTask
+    .findUnique({
+      where: { id: taskId },
+      select: { name: true, user: { select: { email: true } } },
+    })
+    .then((task) => {
+      if (task?.user.email) {
+        const { subject, html } = toolApprovalRequestedEmail({
+          taskName: task.name,
+          toolCalls: pending,
+          expiresAt,
+        });
+        sendEmail({ to: task.user.email, subject, html });
+      }
+    })
+    .catch(() => {});
+
+  return expiresAt;
+}
+
+/**
+ * Close pending approvals the owner didn't answer (deadline passed, or the
+ * task was paused or stopped while waiting).
+ */
+export async function closeTaskApprovals(
+  taskId: string,
+  approvalIds: string[],
+  status: Extract<ApprovalStatus, "rejected" | "expired">,
+  reason: string,
+): Promise<void> {
+  if (approvalIds.length === 0) return;
+  await prisma.taskApproval.updateMany({
+    where: { taskId, approvalId: { in: approvalIds }, status: "pending" },
+    data: { status, reason, decidedAt: new Date() },
+  });
+}
+
+/**
+ * Record the owner's decision on a pending tool call and wake the task's
+ * workflow with it.
+ */
+export async function decideTaskApproval(
+  taskId: string,
+  approvalId: string,
+  approved: boolean,
+  reason?: string,
+): Promise<{ ok: true } | { ok: false; error: string }> {
+  const { count } = await prisma.taskApproval.updateMany({
+    where: {
+      taskId,
+      approvalId,
+      status: "pending",
+      expiresAt: { gt: new Date() },
+    },
+    data: {
+      status: approved ? "approved" : "rejected",
+      reason: reason ?? null,
+      decidedAt: new Date(),
+    },
+  });
+  if (count === 0) {
+    return {
+      ok: false,
+      error: "This approval was already decided or has expired",
+    };
+  }
+
+  try {
+    await taskApprovalHook.resume(taskApprovalToken(taskId), {
+      approvalId,
+      approved,
+      reason,
+    });
+  } catch (error) {
+    // The workflow is no longer waiting (e.g. stopped) — undo the decision
+    console.error(`[Task ${taskId}] Failed to deliver approval:`, error);
+    await prisma.taskApproval.updateMany({
+      where: { taskId, approvalId },
+      data: {
+        status: "expired",
+        reason: "The task was no longer waiting for this approval",
+      },
+    });
+    return {
+      ok: false,
+      error: "The task is no longer waiting for this approval",
+    };
+  }
+
+  return { ok: true };
+}
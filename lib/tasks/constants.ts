@@ -0,0 +1,694 @@
+/**
+ * Task Constants
+ *
+ * Recurring tasks in "cron" trigger mode fire on a standard five-field cron
+ * expression (minute hour day-of-month month day-of-week), evaluated in the
+ * task's IANA timezone. Each task also keeps a small key/value memory that
+ * its agent reads and writes across iterations, and tasks can be chained
+ * into pipelines where a stage's output triggers its downstream stages.
+ * Sensitive tool calls in a task wait for the owner's approval, and failed
+ * iterations are retried with backoff before repeated failures pause the task.
+ * Event-triggered tasks accept webhooks through a trigger adapter that checks
+ * the provider's signature and turns its payload into an event, or through
+ * on-chain watchers that fire the task only when a condition matches.
+ * Iteration results can be delivered by email, SMS, or a signed webhook.
+ * A task in dry-run mode runs with its write-side tools simulated.
+ * Task templates are shareable task definitions with {placeholders} filled
+ * in when someone installs one.
+ */
+
+// ── Cron ─────────────────────────────────────────────────────────────────────
+
+/** Max characters in a stored cron expression */
+export const MAX_CRON_EXPRESSION_LENGTH = 100;
+
+/** Timezone used when a cron task doesn't specify one */
+export const DEFAULT_TASK_TIMEZONE = "UTC";
+
+/** An expression with no fire time within this many years is rejected */
+export const CRON_LOOKAHEAD_YEARS = 5;
+
+/** Shorthand expressions accepted in place of the five fields */
+export const CRON_MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+export const MONTH_NAMES = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+] as const;
+
+export const WEEKDAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+] as const;
+
+// ── Memory ───────────────────────────────────────────────────────────────────
+
+/** Max characters in a memory key */
+export const MAX_MEMORY_KEY_LENGTH = 100;
+
+/** Max characters in a single memory value */
+export const MAX_MEMORY_VALUE_LENGTH = 4000;
+
+/** Max memory entries per task */
+export const MAX_MEMORY_ENTRIES = 50;
+
+/** Character budget for memory injected into an iteration prompt */
+export const MEMORY_PROMPT_BUDGET = 8000;
+
+/** Previous iterations whose results are recapped in the prompt */
+export const RECENT_ITERATIONS_IN_PROMPT = 3;
+
+/** Each recapped iteration result is cut to this many characters */
+export const RECENT_ITERATION_PREVIEW_LENGTH = 400;
+
+// ── Pipelines ────────────────────────────────────────────────────────────────
+
+/** Max stages (tasks) in one pipeline */
+export const MAX_PIPELINE_STAGES = 10;
+
+/** Max pipelines per user */
+export const MAX_PIPELINES_PER_USER = 20;
+
+/** taskEventHook source used when a pipeline fires a stage */
+export const PIPELINE_EVENT_SOURCE = "pipeline";
+
+/** Stage output passed downstream (and stored on the stage run) is cut to this */
+export const MAX_STAGE_OUTPUT_LENGTH = 4000;
+
+export const PIPELINE_RUN_STATUSES = [
+  "running",
+  "completed",
+  "failed",
+] as const;
+export type PipelineRunStatus = (typeof PIPELINE_RUN_STATUSES)[number];
+
+export const PIPELINE_STAGE_STATUSES = [
+  "running",
+  "success",
+  "error",
+  "skipped",
+] as const;
+export type PipelineStageStatus = (typeof PIPELINE_STAGE_STATUSES)[number];
+
+/** Comparison operators for "field" edge conditions */
+export const EDGE_CONDITION_OPERATORS = [
+  "eq",
+  "neq",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "exists",
+] as const;
+export type EdgeConditionOperator = (typeof EDGE_CONDITION_OPERATORS)[number];
+
+// ── Approvals ────────────────────────────────────────────────────────────────
+
+/**
+ * Tools that post, message, call, or spend on the user's behalf. New tasks
+ * require approval for these unless their policy says otherwise. Wallet
+ * transfers (transferSol, transferToken, batchTransferTokens) always require
+ * approval, whatever the policy.
+ */
+export const SENSITIVE_TASK_TOOLS = [
+  "postTweet",
+  "deleteTweet",
+  "sendDirectMessage",
+  "sendSms",
+  "sendMms",
+  "makeCall",
+  "playAudioCall",
+  "sendWhatsApp",
+  "sendFlowers",
+] as const;
+
+/** Max tool names in a task's approval policy */
+export const MAX_APPROVAL_POLICY_TOOLS = 50;
+
+/** A pending approval is rejected if the owner doesn't decide within this */
+export const APPROVAL_TIMEOUT_MS = 24 * 60 * 60 * 1000;
+
+export const APPROVAL_STATUSES = [
+  "pending",
+  "approved",
+  "rejected",
+  "expired",
+] as const;
+export type ApprovalStatus = (typeof APPROVAL_STATUSES)[number];
+
+// ── Failures ─────────────────────────────────────────────────────────────────
+
+/** Retries of a failed iteration when a task doesn't set its own */
+export const DEFAULT_MAX_RETRIES = 2;
+
+/** Upper bound on a task's retries per iteration */
+export const MAX_RETRIES_LIMIT = 5;
+
+/** First retry waits this long; each later retry doubles it */
+export const DEFAULT_RETRY_BACKOFF_MS = 30 * 1000;
+
+export const MIN_RETRY_BACKOFF_MS = 5 * 1000;
+export const MAX_RETRY_BACKOFF_MS = 60 * 60 * 1000;
+
+/** No single retry waits longer than this, however many doublings */
+export const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+/** Consecutive failed iterations before a task pauses itself (0 = never) */
+export const DEFAULT_FAILURE_THRESHOLD = 3;
+
+export const MAX_FAILURE_THRESHOLD = 50;
+
+/**
+ * Why an iteration failed. Auth and billing failures need the owner to act
+ * (reconnect an account, top up a wallet), so they aren't retried.
+ */
+export const TASK_FAILURE_CATEGORIES = [
+  "auth",
+  "billing",
+  "rate_limit",
+  "tool",
+  "model",
+  "unknown",
+] as const;
+export type TaskFailureCategory = (typeof TASK_FAILURE_CATEGORIES)[number];
+
+export const NON_RETRYABLE_FAILURES: readonly TaskFailureCategory[] = [
+  "auth",
+  "billing",
+];
+
+// ── Triggers ─────────────────────────────────────────────────────────────────
+
+/**
+ * How /api/tasks/[taskId]/trigger authenticates and reads a webhook.
+ *
+ * - bearer: the task's webhookSecret as a Bearer token, hand-shaped body
+ * - github: X-Hub-Signature-256 signed with the webhookSecret
+ * - discord: Ed25519-signed interactions, checked with the app's public key
+ * - telegram: X-Telegram-Bot-Api-Secret-Token set to the webhookSecret
+ * - hmac: any provider that signs the raw body with the webhookSecret
+ */
+export const TRIGGER_ADAPTER_IDS = [
+  "bearer",
+  "github",
+  "discord",
+  "telegram",
+  "hmac",
+] as const;
+export type TriggerAdapterId = (typeof TRIGGER_ADAPTER_IDS)[number];
+
+/** Signed timestamps older (or newer) than this are rejected as replays */
+export const TRIGGER_SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+/** Max entries in each trigger filter list */
+export const MAX_TRIGGER_FILTER_ENTRIES = 20;
+
+/** Max characters in a trigger filter entry or adapter option */
+export const MAX_TRIGGER_FILTER_VALUE_LENGTH = 200;
+
+/** Long text fields in a normalized payload are cut to this */
+export const MAX_TRIGGER_TEXT_LENGTH = 2000;
+
+// ── Watchers ─────────────────────────────────────────────────────────────────
+
+/**
+ * On-chain conditions checked server-side, without calling the model.
+ *
+ * - transfer: SOL or an SPL token arrives at an address
+ * - price: a token's price crosses a threshold or moves by a percentage
+ * - new_holder: an owner's balance of a mint goes from zero to positive
+ */
+export const TASK_WATCHER_TYPES = ["transfer", "price", "new_holder"] as const;
+export type TaskWatcherType = (typeof TASK_WATCHER_TYPES)[number];
+
+/** A watcher is checked at most this often */
+export const WATCHER_POLL_INTERVAL_MS = 60 * 1000;
+
+/** Max watchers on one task */
+export const MAX_WATCHERS_PER_TASK = 10;
+
+/** Watchers checked per cron run (the most overdue first) */
+export const WATCHERS_PER_CRON_RUN = 50;
+
+/** Transactions read per address per check; older activity is skipped */
+export const MAX_SIGNATURES_PER_CHECK = 25;
+
+/** Matches reported in one event; the rest are counted, not listed */
+export const MAX_MATCHES_PER_EVENT = 20;
+
+/** taskEventHook source used when a watcher fires */
+export const WATCHER_EVENT_SOURCE = "onchain";
+
+// ── Delivery ─────────────────────────────────────────────────────────────────
+
+/**
+ * Where an iteration's result can be sent.
+ *
+ * - email: an email address, via Resend
+ * - sms: an E.164 phone number, via Twilio (billed per message)
+ * - webhook: an HTTPS URL, POSTed JSON signed with the target's secret
+ */
+export const TASK_DELIVERY_CHANNELS = ["email", "sms", "webhook"] as const;
+export type TaskDeliveryChannel = (typeof TASK_DELIVERY_CHANNELS)[number];
+
+/**
+ * When a target receives a result.
+ *
+ * - always: every iteration
+ * - error: failed iterations only
+ * - notable: iterations the agent flagged as notable
+ */
+export const TASK_DELIVERY_CONDITIONS = ["always", "error", "notable"] as const;
+export type TaskDeliveryCondition = (typeof TASK_DELIVERY_CONDITIONS)[number];
+
+/** Max delivery targets on one task */
+export const MAX_DELIVERY_TARGETS_PER_TASK = 5;
+
+/** Tries per delivery before it's recorded as failed */
+export const DELIVERY_MAX_ATTEMPTS = 3;
+
+/** Wait before the second try; doubles after each failed try */
+export const DELIVERY_RETRY_DELAY_MS = 2000;
+
+/** A webhook that doesn't answer within this is a failed try */
+export const WEBHOOK_DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+/** Result text in emails and webhooks is cut to this many characters */
+export const MAX_DELIVERY_CONTENT_LENGTH = 8000;
+
+/** Result text in an SMS is cut to this (three segments) */
+export const MAX_SMS_DELIVERY_LENGTH = 480;
+
+/** Max characters in the reason an agent gives for a notable result */
+export const MAX_NOTABLE_REASON_LENGTH = 200;
+
+/** Delivery attempts kept per task; older ones are pruned */
+export const MAX_DELIVERY_RECORDS_PER_TASK = 200;
+
+// ── Dry run ──────────────────────────────────────────────────────────────────
+
+/**
+ * Write-side tools swapped for simulated versions when a task runs dry.
+ * Skill tools carry their skill's prefix (e.g. "marketplace_hire").
+ */
+export const SIMULATED_TASK_TOOLS = [
+  "postTweet",
+  "deleteTweet",
+  "likeTweet",
+  "retweet",
+  "followUser",
+  "sendDirectMessage",
+  "transferSol",
+  "transferToken",
+  "batchTransferTokens",
+  "sendSms",
+  "makeCall",
+  "sendFlowers",
+  "marketplace_hire",
+  "marketplace_bid",
+  "bags_executeSwap",
+  "bags_submitTransaction",
+] as const;
+export type SimulatedTaskTool = (typeof SIMULATED_TASK_TOOLS)[number];
+
+/**
+ * Tools with no side effects outside the task, which run for real in a dry
+ * run. Any other tool that isn't simulated is left out of a dry run's tool
+ * set, so a tool added later can't act by accident.
+ */
+export const DRY_RUN_LIVE_TASK_TOOLS = [
+  // The task's own memory and result flags
+  "readTaskMemory",
+  "writeTaskMemory",
+  "deleteTaskMemory",
+  "flagNotableResult",
+  "setPipelineResult",
+  // Lookups
+  "web_search",
+  "getCryptoPrice",
+  "getMultipleCryptoPrices",
+  "getTopCoins",
+  "getCoinDetails",
+  "getCoinHistory",
+  "getCoinOHLC",
+  "getTrendingCoins",
+  "searchCrypto",
+  "getCategories",
+  "getGlobalMarketData",
+  "getDeFiGlobalData",
+  "getExchanges",
+  "getExchangeRates",
+  "getTrendingPools",
+  "getNewPools",
+  "getTokenByContract",
+  "searchPools",
+  "getPoolTrades",
+  "getWalletBalance",
+  "getTokenBalances",
+  "getTokenHolders",
+  "getTransactionHistory",
+  "verifyPaymentTx",
+  "getInformation",
+  "getWeather",
+  "getForecast",
+  "geolocateIP",
+  "batchGeolocateIPs",
+  "getWikiSummary",
+  "searchWikipedia",
+  "getCurrentTime",
+  "convertTimezone",
+  "dateDiff",
+  "addToDate",
+  "formatDate",
+  "getTweet",
+  "getHomeTimeline",
+  "getMyMentions",
+  "getMyTweets",
+  "searchTweets",
+  "getUserProfile",
+  "getMyProfile",
+  "getFollowers",
+  "getFollowing",
+  "getDirectMessages",
+  "browseFlowers",
+  "checkFlowerDelivery",
+  "getFlowerQuote",
+  "listActiveTasks",
+  "getTaskStatus",
+  "listTaskTemplates",
+  "checkMessageStatus",
+  "checkCallStatus",
+  "getMessageHistory",
+  "checkTwilioConfig",
+  "marketplace_search",
+  "marketplace_get_listing",
+  "marketplace_check_task",
+  "marketplace_get_task",
+  "marketplace_list_milestones",
+  "bags_getSwapQuote",
+  "bags_checkClaimableFees",
+  "bags_getLifetimeFees",
+  "bags_lookupWalletByIdentity",
+  "moltbook_getMyProfile",
+  "moltbook_getMoltyProfile",
+  "moltbook_checkClaimStatus",
+  "moltbook_getFeed",
+  "moltbook_getPersonalizedFeed",
+  "moltbook_getPost",
+  "moltbook_getComments",
+  "moltbook_listSubmolts",
+  "moltbook_getSubmolt",
+  "moltbook_getSubmoltFeed",
+  "moltbook_listModerators",
+  "moltbook_semanticSearch",
+] as const;
+
+// ── Templates ────────────────────────────────────────────────────────────────
+
+/** Trigger modes a template can set up (same as a task's) */
+export const TASK_TRIGGER_MODES = [
+  "interval",
+  "event",
+  "event-or-interval",
+  "cron",
+] as const;
+
+/** Shortest and longest interval for interval-triggered tasks */
+export const MIN_TASK_INTERVAL_MS = 60_000;
+export const MAX_TASK_INTERVAL_MS = 86_400_000;
+
+/** Running or paused tasks one user can have at once */
+export const MAX_CONCURRENT_TASKS = 10;
+
+/**
+ * Who can see and install a template: its creator only, everyone, or the
+ * owners of agents in its corporation
+ */
+export const TASK_TEMPLATE_VISIBILITIES = [
+  "private",
+  "public",
+  "corporation",
+] as const;
+export type TaskTemplateVisibility =
+  (typeof TASK_TEMPLATE_VISIBILITIES)[number];
+
+/** Kinds of placeholder value; each is checked before it's filled in */
+export const TEMPLATE_PARAMETER_KINDS = [
+  "text",
+  "number",
+  "solanaAddress",
+  "twitterHandle",
+] as const;
+export type TemplateParameterKind = (typeof TEMPLATE_PARAMETER_KINDS)[number];
+
+export const MAX_TEMPLATES_PER_USER = 50;
+export const MAX_TEMPLATE_PARAMETERS = 10;
+
+/** Max characters in a value filled into a placeholder */
+export const MAX_TEMPLATE_VALUE_LENGTH = 200;
+
+/** Templates returned per gallery listing */
+export const TEMPLATE_GALLERY_PAGE_SIZE = 50;
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+/** A parsed cron expression: the allowed values of each field */
+export interface CronSchedule {
+  /** The normalized five-field expression (macros expanded) */
+  expression: string;
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: number[];
+  months: number[];
+  /** 0 = Sunday (7 is accepted as Sunday too) */
+  daysOfWeek: number[];
+  /** Whether the day-of-month / day-of-week fields were "*" */
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+/** A memory entry as exposed to tools, the API, and the UI */
+export interface TaskMemoryEntry {
+  key: string;
+  value: string;
+  updatedAt: Date;
+}
+
+/**
+ * When a pipeline edge fires. A null condition means "upstream succeeded".
+ *
+ * - always: fire whatever the upstream outcome
+ * - status: fire when the upstream iteration succeeded / failed
+ * - contains: fire when the upstream output contains the text (case-insensitive)
+ * - field: compare a dot-path in the upstream's structured result
+ */
+export type PipelineEdgeCondition =
+  | { type: "always" }
+  | { type: "status"; status: "success" | "error" }
+  | { type: "contains"; text: string }
+  | {
+      type: "field";
+      path: string;
+      op: EdgeConditionOperator;
+      value?: string | number | boolean;
+    };
+
+/** What a finished stage hands to its outgoing edges */
+export interface PipelineStageOutcome {
+  status: PipelineStageStatus;
+  output: string | null;
+  result: unknown;
+}
+
+/** A directed edge between two stages (task IDs) */
+export interface PipelineEdgeDefinition {
+  fromTaskId: string;
+  toTaskId: string;
+  condition: PipelineEdgeCondition | null;
+}
+
+/** A tool call the agent made that is waiting for the owner's decision */
+export interface PendingToolApproval {
+  /** AI SDK approval request ID */
+  approvalId: string;
+  toolCallId: string;
+  toolName: string;
+  input: unknown;
+}
+
+/** The owner's answer to a pending tool call */
+export interface ToolApprovalDecision {
+  approvalId: string;
+  approved: boolean;
+  reason?: string;
+}
+
+/** How a task handles failed iterations */
+export interface TaskRetryPolicy {
+  /** Extra attempts at a failed iteration before it counts as a failure */
+  maxRetries: number;
+  /** Delay before the first retry; doubles for each retry after that */
+  retryBackoffMs: number;
+  /** Consecutive failures that pause the task (0 = never pause) */
+  failureThreshold: number;
+}
+
+/** An event as handed to a task's workflow (taskEventHook's payload) */
+export interface TaskTriggerEvent {
+  source: string;
+  eventType: string;
+  payload?: Record<string, unknown>;
+  summary?: string;
+  occurredAt?: string;
+}
+
+/**
+ * Which events wake the task. Empty or missing lists don't filter.
+ *
+ * - eventTypes: normalized event types, "*" as a suffix wildcard
+ *   (e.g. "issues.opened", "pull_request.*")
+ * - mentions: the event's text must contain one of these (case-insensitive),
+ *   e.g. the bot's @handle
+ */
+export interface TriggerFilter {
+  eventTypes?: string[];
+  mentions?: string[];
+}
+
+/** Adapter-specific settings */
+export interface TriggerAdapterOptions {
+  /** discord: the application's public key (hex) */
+  publicKey?: string;
+  /** hmac: header carrying the signature (default "x-signature") */
+  signatureHeader?: string;
+  /** hmac: digest algorithm (default "sha256") */
+  algorithm?: "sha1" | "sha256" | "sha512";
+  /** hmac: signature encoding (default "hex") */
+  encoding?: "hex" | "base64";
+  /** hmac: header carrying a Unix timestamp that is signed as "<ts>.<body>" */
+  timestampHeader?: string;
+  /** hmac: source name reported to the agent (default "webhook") */
+  source?: string;
+}
+
+/** Stored in AgentTask.triggerConfig */
+export interface TaskTriggerConfig {
+  options?: TriggerAdapterOptions;
+  filter?: TriggerFilter;
+}
+
+/** Fire when SOL (no mint) or an SPL token arrives at `address` */
+export interface TransferWatcherConfig {
+  address: string;
+  /** SPL mint; omit for native SOL */
+  mint?: string;
+  /** Ignore transfers smaller than this (in whole tokens / SOL) */
+  minAmount?: number;
+}
+
+/**
+ * Fire when the price (USD) crosses `above` or `below`, or moves by
+ * `changePercent` (e.g. -10 for a 10% drop) from the price when the watcher
+ * was created or last fired.
+ */
+export interface PriceWatcherConfig {
+  mint: string;
+  above?: number;
+  below?: number;
+  changePercent?: number;
+}
+
+/** Fire when a new owner starts holding `mint` */
+export interface NewHolderWatcherConfig {
+  mint: string;
+  /** Ignore holders that start with less than this */
+  minAmount?: number;
+}
+
+export type TaskWatcherDefinition =
+  | { type: "transfer"; config: TransferWatcherConfig }
+  | { type: "price"; config: PriceWatcherConfig }
+  | { type: "new_holder"; config: NewHolderWatcherConfig };
+
+/** What a watcher remembers between checks */
+export interface TaskWatcherState {
+  /** Whether the first check has recorded a starting point */
+  primed?: boolean;
+  /** Newest transaction signature already looked at */
+  cursor?: string;
+  /** Price at the previous check (for crossings) */
+  lastPrice?: number;
+  /** Reference price for changePercent */
+  baselinePrice?: number;
+}
+
+/** A delivery target as given by the user or a tool */
+export interface TaskDeliveryTargetInput {
+  channel: TaskDeliveryChannel;
+  /** Email address, E.164 phone number, or HTTPS URL */
+  destination: string;
+  condition?: TaskDeliveryCondition;
+}
+
+/** What a finished iteration hands to its delivery targets */
+export interface TaskIterationOutcome {
+  iteration: number;
+  status: "success" | "error";
+  content: string;
+  error?: string;
+  /** The agent's reason for flagging the result as notable, if it did */
+  notable?: string;
+}
+
+/** A {placeholder} in a template's name or prompt */
+export interface TaskTemplateParameter {
+  /** As written between the braces, e.g. "tokenMint" */
+  name: string;
+  description?: string;
+  kind?: TemplateParameterKind;
+  /** Used when the installer leaves it out; required otherwise */
+  default?: string;
+}
+
+/** A template as given by the user or a tool */
+export interface TaskTemplateInput {
+  name: string;
+  description?: string;
+  /** Instruction for each iteration; may contain {placeholders} */
+  taskPrompt: string;
+  /** Placeholders not listed here are required text values */
+  parameters?: TaskTemplateParameter[];
+  enabledToolGroups?: string[];
+  enabledSkills?: string[];
+  triggerMode?: (typeof TASK_TRIGGER_MODES)[number];
+  intervalMs?: number;
+  cronExpression?: string;
+  timezone?: string;
+  model?: string;
+  visibility?: TaskTemplateVisibility;
+  /** Required for corporation visibility */
+  corporationId?: string;
+}
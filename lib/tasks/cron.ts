@@ -0,0 +1,453 @@
+/**
+ * Cron Schedules
+ *
+ * Parses five-field cron expressions, computes fire times in an IANA
+ * timezone, and renders expressions as readable text. Pure functions with no
+ * server dependencies, so the task UI can preview schedules client-side.
+ *
+ * Day-of-month and day-of-week follow the usual cron rule: when both are
+ * restricted, a day matches if either one does. Wall-clock times skipped by a
+ * DST change fire at the shifted time instead of being dropped.
+ */
+
+import {
+  CRON_LOOKAHEAD_YEARS,
+  CRON_MACROS,
+  DEFAULT_TASK_TIMEZONE,
+  MAX_CRON_EXPRESSION_LENGTH,
+  MONTH_NAMES,
+  WEEKDAY_NAMES,
+  type CronSchedule,
+} from "./constants";
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  /** Three-letter aliases, indexed from `min` */
+  aliases?: readonly string[];
+}
+
+const FIELD_SPECS: FieldSpec[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  {
+    name: "month",
+    min: 1,
+    max: 12,
+    aliases: MONTH_NAMES.map((m) => m.slice(0, 3).toLowerCase()),
+  },
+  {
+    name: "day of week",
+    min: 0,
+    max: 7,
+    aliases: WEEKDAY_NAMES.map((d) => d.slice(0, 3).toLowerCase()),
+  },
+];
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 86_400_000;
+
+// ── Parsing ──────────────────────────────────────────────────────────────────
+
+function parseValue(text: string, spec: FieldSpec): number {
+  const alias = spec.aliases?.indexOf(text.toLowerCase()) ?? -1;
+  if (alias >= 0) return alias + spec.min;
+
+  if (!/^\d+$/.test(text)) {
+    throw new Error(`Invalid ${spec.name} value "${text}"`);
+  }
+  const value = parseInt(text, 10);
+  if (value < spec.min || value > spec.max) {
+    throw new Error(
+      `${spec.name} value ${value} is out of range (${spec.min}-${spec.max})`,
+    );
+  }
+  return value;
+}
+
+function parseField(text: string, spec: FieldSpec): number[] {
+  const values = new Set<number>();
+
+  for (const part of text.split(",")) {
+    const [range, stepText, extra] = part.split("/");
+    if (!range || extra !== undefined) {
+      throw new Error(`Invalid ${spec.name} field "${text}"`);
+    }
+
+    let step = 1;
+    if (stepText !== undefined) {
+      if (!/^\d+$/.test(stepText) || parseInt(stepText, 10) === 0) {
+        throw new Error(`Invalid ${spec.name} step "${stepText}"`);
+      }
+      step = parseInt(stepText, 10);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+      if (start > end) {
+        throw new Error(`Invalid ${spec.name} range "${range}"`);
+      }
+    } else {
+      start = parseValue(range, spec);
+      // "5/15" means every 15 starting at 5
+      end = stepText !== undefined ? spec.max : start;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return [...values].sort((a, b) => a - b);
+}
+
+/**
+ * Parse a five-field cron expression (or a macro such as "@daily").
+ * Throws an Error describing the first problem found.
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const trimmed = expression.trim().replace(/\s+/g, " ");
+  if (!trimmed) throw new Error("Cron expression is empty");
+  if (trimmed.length > MAX_CRON_EXPRESSION_LENGTH) {
+    throw new Error(
+      `Cron expression exceeds ${MAX_CRON_EXPRESSION_LENGTH} characters`,
+    );
+  }
+
+  const normalized = CRON_MACROS[trimmed.toLowerCase()] ?? trimmed;
+  if (normalized.startsWith("@")) {
+    throw new Error(`Unknown cron macro "${trimmed}"`);
+  }
+
+  const fields = normalized.split(" ");
+  if (fields.length !== 5) {
+    throw new Error(
+      "Cron expression must have 5 fields: minute hour day-of-month month day-of-week",
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(
+    (field, i) => parseField(field, FIELD_SPECS[i]),
+  );
+
+  return {
+    expression: normalized,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    // 7 is an alias for Sunday
+    daysOfWeek: [...new Set(daysOfWeek.map((d) => d % 7))].sort(
+      (a, b) => a - b,
+    ),
+    anyDayOfMonth: fields[2].startsWith("*"),
+    anyDayOfWeek: fields[4].startsWith("*"),
+  };
+}
+
+// ── Timezones ────────────────────────────────────────────────────────────────
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Whether the string is an IANA timezone the runtime recognizes.
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The wall-clock time at `timestamp` in `timezone`, encoded as a UTC
+ * timestamp (so the UTC getters read the local date and time).
+ */
+function toWallClock(timestamp: number, timezone: string): number {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timezone).formatToParts(timestamp)) {
+    if (part.type !== "literal") parts[part.type] = parseInt(part.value, 10);
+  }
+  return Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+  );
+}
+
+function offsetAt(timestamp: number, timezone: string): number {
+  const minute = Math.floor(timestamp / MINUTE_MS) * MINUTE_MS;
+  return toWallClock(minute, timezone) - minute;
+}
+
+/**
+ * Convert a wall-clock time in `timezone` back to a real timestamp.
+ */
+function fromWallClock(wallClock: number, timezone: string): number {
+  const offset = offsetAt(wallClock, timezone);
+  const guess = wallClock - offset;
+  const actualOffset = offsetAt(guess, timezone);
+  if (actualOffset === offset) return guess;
+
+  const retry = wallClock - actualOffset;
+  // Neither offset reproduces the wall clock → it falls in a DST gap
+  return offsetAt(retry, timezone) === actualOffset ? retry : guess;
+}
+
+// ── Fire Times ───────────────────────────────────────────────────────────────
+
+/**
+ * The first time strictly after `after` that the schedule fires.
+ * Throws if it never fires within CRON_LOOKAHEAD_YEARS (e.g. "0 0 30 2 *").
+ */
+export function getNextCronRun(
+  schedule: string | CronSchedule,
+  timezone: string,
+  after: Date = new Date(),
+): Date {
+  const parsed =
+    typeof schedule === "string" ? parseCronExpression(schedule) : schedule;
+  const minutes = new Set(parsed.minutes);
+  const hours = new Set(parsed.hours);
+  const daysOfMonth = new Set(parsed.daysOfMonth);
+  const months = new Set(parsed.months);
+  const daysOfWeek = new Set(parsed.daysOfWeek);
+
+  const matchesDay = (day: Date) => {
+    const dom = daysOfMonth.has(day.getUTCDate());
+    const dow = daysOfWeek.has(day.getUTCDay());
+    return !parsed.anyDayOfMonth && !parsed.anyDayOfWeek
+      ? dom || dow
+      : dom && dow;
+  };
+
+  const afterMs = after.getTime();
+  // Walk wall-clock minutes, skipping whole months/days/hours that can't match
+  let cursor = new Date(toWallClock(afterMs, timezone) + MINUTE_MS);
+  const limit = cursor.getTime() + CRON_LOOKAHEAD_YEARS * 366 * DAY_MS;
+
+  while (cursor.getTime() <= limit) {
+    const year = cursor.getUTCFullYear();
+    const month = cursor.getUTCMonth();
+    const date = cursor.getUTCDate();
+    const hour = cursor.getUTCHours();
+
+    if (!months.has(month + 1)) {
+      cursor = new Date(Date.UTC(year, month + 1, 1));
+    } else if (!matchesDay(cursor)) {
+      cursor = new Date(Date.UTC(year, month, date + 1));
+    } else if (!hours.has(hour)) {
+      cursor = new Date(Date.UTC(year, month, date, hour + 1));
+    } else if (!minutes.has(cursor.getUTCMinutes())) {
+      cursor = new Date(cursor.getTime() + MINUTE_MS);
+    } else {
+      const runAt = fromWallClock(cursor.getTime(), timezone);
+      // Wall-clock times repeated by a DST change can map before `after`
+      if (runAt > afterMs) return new Date(runAt);
+      cursor = new Date(cursor.getTime() + MINUTE_MS);
+    }
+  }
+
+  throw new Error(
+    `Cron expression "${parsed.expression}" never fires within ${CRON_LOOKAHEAD_YEARS} years`,
+  );
+}
+
+/**
+ * The next `count` fire times after `after`, for schedule previews.
+ */
+export function getUpcomingCronRuns(
+  schedule: string | CronSchedule,
+  timezone: string,
+  count: number,
+  after: Date = new Date(),
+): Date[] {
+  const parsed =
+    typeof schedule === "string" ? parseCronExpression(schedule) : schedule;
+  const runs: Date[] = [];
+  let from = after;
+  for (let i = 0; i < count; i++) {
+    from = getNextCronRun(parsed, timezone, from);
+    runs.push(from);
+  }
+  return runs;
+}
+
+/**
+ * Check a cron expression + timezone pair. Returns an error message, or null
+ * when the schedule is valid and fires at least once.
+ */
+export function validateCronSchedule(
+  expression: string,
+  timezone: string,
+): string | null {
+  if (!isValidTimezone(timezone)) {
+    return `Unknown timezone "${timezone}". Use an IANA name such as "America/New_York".`;
+  }
+  try {
+    getNextCronRun(expression, timezone);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : "Invalid cron expression";
+  }
+}
+
+// ── Descriptions ─────────────────────────────────────────────────────────────
+
+function joinWords(items: string[]): string {
+  if (items.length <= 1) return items[0] ?? "";
+  return `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+}
+
+/** List values, collapsing runs of 3+ consecutive values into ranges */
+function describeValues(
+  values: number[],
+  label: (value: number) => string = String,
+): string {
+  const groups: string[] = [];
+  for (let i = 0; i < values.length; ) {
+    let j = i;
+    while (j + 1 < values.length && values[j + 1] === values[j] + 1) j++;
+    if (j - i >= 2) {
+      groups.push(`${label(values[i])} through ${label(values[j])}`);
+    } else {
+      for (let k = i; k <= j; k++) groups.push(label(values[k]));
+    }
+    i = j + 1;
+  }
+  return joinWords(groups);
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+function describeTime(schedule: CronSchedule, fields: string[]): string {
+  const [minuteField, hourField] = fields;
+  const minuteStep = minuteField.match(/^\*\/(\d+)$/);
+  const hourStep = hourField.match(/^\*\/(\d+)$/);
+  const singleMinute = schedule.minutes.length === 1;
+
+  if (hourField === "*") {
+    if (minuteField === "*") return "Every minute";
+    if (minuteStep) return `Every ${minuteStep[1]} minutes`;
+    if (singleMinute) {
+      return `Every hour at minute ${schedule.minutes[0]}`;
+    }
+  }
+
+  if (hourStep && singleMinute) {
+    return `Every ${hourStep[1]} hours at minute ${schedule.minutes[0]}`;
+  }
+
+  if (
+    !minuteField.includes("*") &&
+    !hourField.includes("*") &&
+    schedule.minutes.length * schedule.hours.length <= 6
+  ) {
+    const times = schedule.hours.flatMap((hour) =>
+      schedule.minutes.map((minute) => `${pad(hour)}:${pad(minute)}`),
+    );
+    return `At ${joinWords(times)}`;
+  }
+
+  const minutePart =
+    minuteField === "*"
+      ? "Every minute"
+      : minuteStep
+        ? `Every ${minuteStep[1]} minutes`
+        : `At minute ${describeValues(schedule.minutes)}`;
+  const hourPart = hourStep
+    ? `every ${hourStep[1]} hours`
+    : `hour ${describeValues(schedule.hours)}`;
+  return hourField === "*" ? minutePart : `${minutePart} past ${hourPart}`;
+}
+
+/**
+ * Render a cron expression as a short English sentence, e.g.
+ * "0 9 * * 1-5" → "At 09:00 on Monday through Friday".
+ * Throws on invalid expressions (see parseCronExpression).
+ */
+export function describeCronExpression(expression: string): string {
+  const schedule = parseCronExpression(expression);
+  const fields = schedule.expression.split(" ");
+  const parts = [describeTime(schedule, fields)];
+
+  const days: string[] = [];
+  if (!schedule.anyDayOfMonth || fields[2] !== "*") {
+    days.push(`on day ${describeValues(schedule.daysOfMonth)} of the month`);
+  }
+  if (!schedule.anyDayOfWeek || fields[4] !== "*") {
+    days.push(
+      `on ${describeValues(schedule.daysOfWeek, (d) => WEEKDAY_NAMES[d])}`,
+    );
+  }
+  // Both restricted → either matches; otherwise both must
+  parts.push(
+    days.join(
+      !schedule.anyDayOfMonth && !schedule.anyDayOfWeek ? " or " : " and ",
+    ),
+  );
+
+  if (fields[3] !== "*") {
+    parts.push(
+      `in ${describeValues(schedule.months, (m) => MONTH_NAMES[m - 1])}`,
+    );
+  }
+
+  return parts.filter(Boolean).join(" ");
+}
+
+/**
+ * Short schedule label for a task in any trigger mode, e.g. "every 5m",
+ * "on event or every 1h", "At 09:00 on Monday through Friday (UTC)".
+ */
+export function describeTaskSchedule(task: {
+  triggerMode?: string | null;
+  intervalMs: number;
+  cronExpression?: string | null;
+  timezone?: string | null;
+}): string {
+  if (task.triggerMode === "cron" && task.cronExpression) {
+    const timezone = task.timezone ?? DEFAULT_TASK_TIMEZONE;
+    try {
+      return `${describeCronExpression(task.cronExpression)} (${timezone})`;
+    } catch {
+      return `${task.cronExpression} (${timezone})`;
+    }
+  }
+
+  const minutes = task.intervalMs / 60000;
+  const every = `every ${minutes >= 60 ? `${Math.round(minutes / 60)}h` : `${minutes}m`}`;
+  if (task.triggerMode === "event") return "on event";
+  if (task.triggerMode === "event-or-interval") return `on event or ${every}`;
+  return every;
+}
@@ -0,0 +1,132 @@
+/**
+ * Task Delivery Policy
+ *
+ * Pure helpers for result delivery: checking a target, deciding whether an
+ * iteration's result goes to it, and signing webhook bodies.
+ */
+
+import {
+  TASK_DELIVERY_CHANNELS,
+  TASK_DELIVERY_CONDITIONS,
+  type TaskDeliveryCondition,
+  type TaskIterationOutcome,
+} from "./constants";
+import { hmacDigest } from "./triggers/signatures";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const E164_PATTERN = /^\+[1-9]\d{1,14}$/;
+
+/** Hostnames a webhook may not point at (loopback, private, link-local) */
+const PRIVATE_HOST_PATTERNS = [
+  /^localhost$/i,
+  /\.(local|internal|localhost)$/i,
+  /^127\./,
+  /^10\./,
+  /^192\.168\./,
+  /^172\.(1[6-9]|2\d|3[01])\./,
+  /^169\.254\./,
+  /^0\./,
+  /^\[?(::1?|f[cd][0-9a-f]{2}:.*|fe80:.*)\]?$/i,
+];
+
+/** An https:// URL without credentials that doesn't point at a private host */
+export function isPublicHttpsUrl(value: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+  return (
+    url.protocol === "https:" &&
+    !url.username &&
+    !url.password &&
+    !PRIVATE_HOST_PATTERNS.some((p) => p.test(url.hostname))
+  );
+}
+
+/**
+ * Check a delivery target from user or tool input. Returns an error
+ * message, or null when valid.
+ */
+export function validateDeliveryTarget(input: unknown): string | null {
+  if (!input || typeof input !== "object") {
+    return "A delivery target needs a channel and a destination";
+  }
+  const { channel, destination, condition } = input as Record<string, unknown>;
+
+  if (
+    typeof channel !== "string" ||
+    !(TASK_DELIVERY_CHANNELS as readonly string[]).includes(channel)
+  ) {
+    return `channel must be one of: ${TASK_DELIVERY_CHANNELS.join(", ")}`;
+  }
+  if (
+    condition !== undefined &&
+    (typeof condition !== "string" ||
+      !(TASK_DELIVERY_CONDITIONS as readonly string[]).includes(condition))
+  ) {
+    return `condition must be one of: ${TASK_DELIVERY_CONDITIONS.join(", ")}`;
+  }
+  if (typeof destination !== "string" || destination.length > 500) {
+    return "destination must be a string of at most 500 characters";
+  }
+
+  switch (channel) {
+    case "email":
+      return EMAIL_PATTERN.test(destination)
+        ? null
+        : "destination must be an email address";
+    case "sms":
+      return E164_PATTERN.test(destination)
+        ? null
+        : "destination must be a phone number in E.164 format (e.g. +15551234567)";
+    default:
+      return isPublicHttpsUrl(destination)
+        ? null
+        : "destination must be a public https:// URL";
+  }
+}
+
+/** Whether an iteration's result should go to a target with this condition */
+export function shouldDeliver(
+  condition: TaskDeliveryCondition,
+  outcome: TaskIterationOutcome,
+): boolean {
+  switch (condition) {
+    case "always":
+      return true;
+    case "error":
+      return outcome.status === "error";
+    case "notable":
+      return outcome.status === "success" && !!outcome.notable;
+  }
+}
+
+/** Show enough of a destination to recognize it, e.g. in lists and logs */
+export function maskDestination(destination: string): string {
+  if (destination.startsWith("https://")) {
+    try {
+      const url = new URL(destination);
+      return `${url.origin}${url.pathname.length > 1 ? "/…" : ""}`;
+    } catch {
+      return "https://…";
+    }
+  }
+  const at = destination.indexOf("@");
+  if (at > 0) return `${destination.slice(0, 2)}…${destination.slice(at)}`;
+  return `${destination.slice(0, 3)}…${destination.slice(-2)}`;
+}
+
+/**
+ * Signature header for a webhook delivery: HMAC-SHA256 over
+ * "<timestamp>.<body>" with the target's secret. Receivers recompute it and
+ * reject stale timestamps.
+ */
+export function signDeliveryBody(
+  secret: string,
+  timestamp: number,
+  body: string,
+): string {
+  return `sha256=${hmacDigest("sha256", secret, `${timestamp}.${body}`)}`;
+}
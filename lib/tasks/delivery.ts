@@ -0,0 +1,350 @@
+/**
+ * Task Result Delivery
+ *
+ * Sends a finished iteration's result to the task's delivery targets whose
+ * condition it meets: by email, by SMS (billed to the task owner like the
+ * Twilio tools), or as a signed webhook. Each delivery is tried a few times
+ * with backoff, then recorded as delivered or failed in TaskDelivery.
+ */
+
+import { randomBytes } from "crypto";
+import prisma from "@/lib/prisma";
+import { sendEmail, taskResultEmail } from "@/lib/email";
+import { getTwilioClient, getTwilioPhoneNumber } from "@/lib/tools/twilio";
+import { chargeForUsage } from "@/lib/x402";
+import { TWILIO_PRICING } from "@/lib/x402/config";
+
+import {
+  DELIVERY_MAX_ATTEMPTS,
+  DELIVERY_RETRY_DELAY_MS,
+  MAX_DELIVERY_CONTENT_LENGTH,
+  MAX_DELIVERY_RECORDS_PER_TASK,
+  MAX_DELIVERY_TARGETS_PER_TASK,
+  MAX_SMS_DELIVERY_LENGTH,
+  WEBHOOK_DELIVERY_TIMEOUT_MS,
+  type TaskDeliveryCondition,
+  type TaskDeliveryTargetInput,
+  type TaskIterationOutcome,
+} from "./constants";
+import {
+  maskDestination,
+  shouldDeliver,
+  signDeliveryBody,
+  validateDeliveryTarget,
+} from "./delivery-policy";
+
+type DeliveryResult<T> = { ok: true } & T;
+type DeliveryError = { ok: false; error: string };
+
+/** A target as loaded for sending */
+interface DeliveryTarget {
+  id: string;
+  channel: string;
+  destination: string;
+  secret: string | null;
+}
+
+interface DeliveryContext {
+  taskId: string;
+  taskName: string;
+  userId: string;
+  agentId: string;
+}
+
+/** Thrown by a send to mark a try as failed, with the HTTP status if any */
+class DeliveryAttemptError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode?: number,
+    readonly retryable = true,
+  ) {
+    super(message);
+  }
+}
+
+function clip(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 3)}...` : text;
+}
+
+/**
+ * Add a delivery target to a task the user owns. Webhook targets get a
+ * signing secret, returned here only.
+ */
+export async function createTaskDeliveryTarget(
+  userId: string,
+  taskId: string,
+  input: TaskDeliveryTargetInput,
+): Promise<
+  DeliveryResult<{ targetId: string; secret: string | null }> | DeliveryError
+> {
+  const invalid = validateDeliveryTarget(input);
+  if (invalid) return { ok: false, error: invalid };
+
+  const task = await prisma.agentTask.findFirst({
+    where: { id: taskId, userId },
+    select: { _count: { select: { deliveryTargets: true } } },
+  });
+  if (!task) return { ok: false, error: "Task not found" };
+  if (task._count.deliveryTargets >= MAX_DELIVERY_TARGETS_PER_TASK) {
+    return {
+      ok: false,
+      error: `A task can have at most ${MAX_DELIVERY_TARGETS_PER_TASK} delivery targets`,
+    };
+  }
+
+  const secret =
+    input.channel === "webhook" ? randomBytes(32).toString("hex") : null;
+  const target = await prisma.taskDeliveryTarget.create({
+    data: {
+      taskId,
+      channel: input.channel,
+      destination: input.destination.trim(),
+      condition: input.condition ?? "always",
+      secret,
+    },
+    select: { id: true },
+  });
+
+  return { ok: true, targetId: target.id, secret };
+}
+
+// ── Channels ─────────────────────────────────────────────────────────────────
+
+async function sendEmailDelivery(
+  target: DeliveryTarget,
+  context: DeliveryContext,
+  outcome: TaskIterationOutcome,
+): Promise<void> {
+  const { subject, html } = taskResultEmail({
+    taskName: context.taskName,
+    iteration: outcome.iteration,
+    status: outcome.status,
+    content: clip(outcome.content, MAX_DELIVERY_CONTENT_LENGTH),
+    error: outcome.error,
+    notable: outcome.notable,
+  });
+  const sent = await sendEmail({ to: target.destination, subject, html });
+  if (!sent) throw new DeliveryAttemptError("Email was not accepted");
+}
+
+async function sendSmsDelivery(
+  target: DeliveryTarget,
+  context: DeliveryContext,
+  outcome: TaskIterationOutcome,
+): Promise<void> {
+  const client = getTwilioClient();
+  const from = getTwilioPhoneNumber();
+  if (!client || !from) {
+    throw new DeliveryAttemptError("SMS is not configured", undefined, false);
+  }
+
+  const heading =
+    outcome.status === "error"
+      ? `[${context.taskName} #${outcome.iteration} failed] ${outcome.error ?? ""}`
+      : `[${context.taskName} #${outcome.iteration}]${outcome.notable ? ` ${outcome.notable}:` : ""}`;
+  const body = clip(
+    `${heading}\n${outcome.content}`.trim(),
+    MAX_SMS_DELIVERY_LENGTH,
+  );
+
+  try {
+    await client.messages.create({ body, from, to: target.destination });
+  } catch (error) {
+    const err = error as Error & { status?: number };
+    // 4xx from Twilio (invalid or unverified number) won't fix itself
+    throw new DeliveryAttemptError(
+      err.message,
+      err.status,
+      !err.status || err.status >= 500 || err.status === 429,
+    );
+  }
+
+  const billing = await chargeForUsage(
+    context.userId,
+    TWILIO_PRICING.sendSms,
+    `Task [${context.taskId}] result SMS`,
+    { taskId: context.taskId, agentId: context.agentId },
+  );
+  if (!billing.success) {
+    console.error(
+      `[Task Delivery] SMS billing failed for ${context.taskId}: ${billing.error}`,
+    );
+  }
+}
+
+async function sendWebhookDelivery(
+  target: DeliveryTarget,
+  context: DeliveryContext,
+  outcome: TaskIterationOutcome,
+): Promise<number> {
+  const body = JSON.stringify({
+    taskId: context.taskId,
+    taskName: context.taskName,
+    iteration: outcome.iteration,
+    status: outcome.status,
+    notable: outcome.notable ?? null,
+    content: clip(outcome.content, MAX_DELIVERY_CONTENT_LENGTH),
+    error: outcome.error ?? null,
+    sentAt: new Date().toISOString(),
+  });
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  let response: Response;
+  try {
+    response = await fetch(target.destination, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Task-Timestamp": String(timestamp),
+        "X-Task-Signature": signDeliveryBody(
+          target.secret ?? "",
+          timestamp,
+          body,
+        ),
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(WEBHOOK_DELIVERY_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new DeliveryAttemptError(
+      error instanceof Error ? error.message : "Request failed",
+    );
+  }
+
+  if (!response.ok) {
+    const { status } = response;
+    throw new DeliveryAttemptError(
+      `Webhook responded with HTTP ${status}`,
+      status,
+      status >= 500 || status === 408 || status === 429,
+    );
+  }
+  return response.status;
+}
+
+// ── Delivery ─────────────────────────────────────────────────────────────────
+
+/** Send to one target, retrying with backoff, and record the outcome */
+async function deliverToTarget(
+  target: DeliveryTarget,
+  context: DeliveryContext,
+  outcome: TaskIterationOutcome,
+): Promise<boolean> {
+  let attempts = 0;
+  let statusCode: number | undefined;
+  let lastError: string | null = null;
+
+  while (attempts < DELIVERY_MAX_ATTEMPTS) {
+    if (attempts > 0) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, DELIVERY_RETRY_DELAY_MS * 2 ** (attempts - 1)),
+      );
+    }
+    attempts++;
+
+    try {
+      switch (target.channel) {
+        case "email":
+          await sendEmailDelivery(target, context, outcome);
+          break;
+        case "sms":
+          await sendSmsDelivery(target, context, outcome);
+          break;
+        default:
+          statusCode = await sendWebhookDelivery(target, context, outcome);
+      }
+      lastError = null;
+      break;
+    } catch (error) {
+      const retryable =
+        !(error instanceof DeliveryAttemptError) || error.retryable;
+      statusCode =
+        error instanceof DeliveryAttemptError ? error.statusCode : undefined;
+      lastError = error instanceof Error ? error.message : "Delivery failed";
+      if (!retryable) break;
+    }
+  }
+
+  await prisma.taskDelivery.create({
+    data: {
+      taskId: context.taskId,
+      targetId: target.id,
+      iteration: outcome.iteration,
+      status: lastError ? "failed" : "delivered",
+      attempts,
+      statusCode,
+      error: lastError,
+    },
+  });
+
+  if (lastError) {
+    console.warn(
+      `[Task Delivery] ${target.channel} to ${maskDestination(target.destination)} failed for ${context.taskId} after ${attempts} attempt${attempts !== 1 ? "s" : ""}: ${lastError}`,
+    );
+  }
+  return !lastError;
+}
+
+/**
+ * Send an iteration's result to every enabled target whose condition it
+ * meets. Never throws; failures are recorded per target.
+ */
+export async function deliverTaskResult(
+  taskId: string,
+  outcome: TaskIterationOutcome,
+): Promise<{ delivered: number; failed: number }> {
+  const task = await prisma.agentTask.findUnique({
+    where: { id: taskId },
+    select: {
+      name: true,
+      userId: true,
+      agentId: true,
+      deliveryTargets: {
+        where: { enabled: true },
+        select: {
+          id: true,
+          channel: true,
+          destination: true,
+          condition: true,
+          secret: true,
+        },
+      },
+    },
+  });
+  const targets = (task?.deliveryTargets ?? []).filter((t) =>
+    shouldDeliver(t.condition as TaskDeliveryCondition, outcome),
+  );
+  if (!task || targets.length === 0) return { delivered: 0, failed: 0 };
+
+  const context = {
+    taskId,
+    taskName: task.name,
+    userId: task.userId,
+    agentId: task.agentId,
+  };
+  const results = await Promise.all(
+    targets.map((target) =>
+      deliverToTarget(target, context, outcome).catch((error) => {
+        console.error(`[Task Delivery] Failed to record delivery:`, error);
+        return false;
+      }),
+    ),
+  );
+
+  // Keep the most recent attempts only
+  const stale = await prisma.taskDelivery.findMany({
+    where: { taskId },
+    orderBy: { createdAt: "desc" as const },
+    skip: MAX_DELIVERY_RECORDS_PER_TASK,
+    select: { id: true },
+  });
+  if (stale.length > 0) {
+    await prisma.taskDelivery.deleteMany({
+      where: { id: { in: stale.map((d) => d.id) } },
+    });
+  }
+
+  const delivered = results.filter(Boolean).length;
+  return { delivered, failed: results.length - delivered };
+}
@@ -0,0 +1,112 @@
+/**
+ * Task Failure Policy
+ *
+ * Pure helpers for classifying failed iterations and spacing out retries.
+ * No database access, so the task workflow can use them directly.
+ */
+
+import {
+  MAX_FAILURE_THRESHOLD,
+  MAX_RETRIES_LIMIT,
+  MAX_RETRY_BACKOFF_MS,
+  MAX_RETRY_DELAY_MS,
+  MIN_RETRY_BACKOFF_MS,
+  NON_RETRYABLE_FAILURES,
+  type TaskFailureCategory,
+  type TaskRetryPolicy,
+} from "./constants";
+
+const FAILURE_PATTERNS: Array<[TaskFailureCategory, RegExp]> = [
+  [
+    "billing",
+    /insufficient (balance|funds|credits?)|no wallet|payment required|out of credits|top[- ]?up/i,
+  ],
+  [
+    "auth",
+    /unauthori[sz]ed|forbidden|invalid (api )?(key|token|credentials)|(token|session) (has )?expired|expired token|authenticat|not connected|reconnect|permission denied/i,
+  ],
+  ["rate_limit", /rate.?limit|too many requests|quota/i],
+  ["model", /overloaded|context length|maximum context|model not found/i],
+];
+
+/**
+ * Work out why an iteration failed from the error (or its message). HTTP
+ * status codes from provider errors win over message matching.
+ *
+ * @param fallback - Category when nothing matches, e.g. "tool" for errors a
+ *   tool returned.
+ */
+export function categorizeTaskError(
+  error: unknown,
+  fallback: TaskFailureCategory = "unknown",
+): TaskFailureCategory {
+  const statusCode =
+    error && typeof error === "object" && "statusCode" in error
+      ? (error as { statusCode?: unknown }).statusCode
+      : undefined;
+  if (statusCode === 401 || statusCode === 403) return "auth";
+  if (statusCode === 402) return "billing";
+  if (statusCode === 429) return "rate_limit";
+
+  const message = error instanceof Error ? error.message : String(error ?? "");
+  for (const [category, pattern] of FAILURE_PATTERNS) {
+    if (pattern.test(message)) return category;
+  }
+
+  if (typeof statusCode === "number" && statusCode >= 500) return "model";
+  return fallback;
+}
+
+/** Whether retrying could help, or the owner has to fix something first */
+export function isRetryableFailure(category: TaskFailureCategory): boolean {
+  return !NON_RETRYABLE_FAILURES.includes(category);
+}
+
+/** Delay before a retry (1-based): the backoff, doubled for each retry */
+export function getRetryDelay(retryBackoffMs: number, retry: number): number {
+  return Math.min(retryBackoffMs * 2 ** (retry - 1), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Check retry policy fields from user or tool input. Fields left out are
+ * fine. Returns an error message, or null when valid.
+ */
+export function validateRetryPolicy(
+  policy: Partial<Record<keyof TaskRetryPolicy, unknown>>,
+): string | null {
+  const { maxRetries, retryBackoffMs, failureThreshold } = policy;
+  if (
+    maxRetries !== undefined &&
+    (!Number.isInteger(maxRetries) ||
+      (maxRetries as number) < 0 ||
+      (maxRetries as number) > MAX_RETRIES_LIMIT)
+  ) {
+    return `maxRetries must be a whole number from 0 to ${MAX_RETRIES_LIMIT}`;
+  }
+  if (
+    retryBackoffMs !== undefined &&
+    (!Number.isInteger(retryBackoffMs) ||
+      (retryBackoffMs as number) < MIN_RETRY_BACKOFF_MS ||
+      (retryBackoffMs as number) > MAX_RETRY_BACKOFF_MS)
+  ) {
+    return `retryBackoffMs must be between ${MIN_RETRY_BACKOFF_MS} and ${MAX_RETRY_BACKOFF_MS}`;
+  }
+  if (
+    failureThreshold !== undefined &&
+    (!Number.isInteger(failureThreshold) ||
+      (failureThreshold as number) < 0 ||
+      (failureThreshold as number) > MAX_FAILURE_THRESHOLD)
+  ) {
+    return `failureThreshold must be a whole number from 0 to ${MAX_FAILURE_THRESHOLD} (0 = never pause)`;
+  }
+  return null;
+}
+
+/** The errorMessage a task is paused with after repeated failures */
+export function formatFailurePause(
+  category: TaskFailureCategory,
+  failures: number,
+  error: string,
+): string {
+  return `[${category}] Paused after ${failures} consecutive failed iteration${failures !== 1 ? "s" : ""}: ${error}`;
+}
@@ -0,0 +1,63 @@
+/**
+ * Task Failures
+ *
+ * A failed iteration is retried with exponential backoff, per the task's
+ * retry policy. Once retries run out it counts as a failure; enough of them
+ * in a row pause the task with a categorized reason in errorMessage, and the
+ * owner is emailed. A successful iteration or a resume clears the count.
+ */
+
+import prisma from "@/lib/prisma";
+import { sendEmail, taskAutoPausedEmail } from "@/lib/email";
+
+import type { TaskFailureCategory } from "./constants";
+import { formatFailurePause } from "./failure-policy";
+
+/**
+ * Count a failed iteration against the task. When the count reaches the
+ * task's threshold, emails the owner.
+ *
+ * @returns The pause reason when the task should pause, otherwise null. The
+ *   caller pauses the task with it.
+ */
+export async function recordTaskFailure(
+  taskId: string,
+  category: TaskFailureCategory,
+  error: string,
+): Promise<string | null> {
+  const task = await prisma.agentTask.update({
+    where: { id: taskId },
+    data: { consecutiveFailures: { increment: 1 } },
+    select: {
+      name: true,
+      consecutiveFailures: true,
+      failureThreshold: true,
+      user: { select: { email: true } },
+    },
+  });
+
+  if (
+    task.failureThreshold === 0 ||
+    task.consecutiveFailures < task.failureThreshold
+  ) {
+    return null;
+  }
+
+  const reason = formatFailurePause(
+    category,
+    task.consecutiveFailures,
+    error.slice(0, 500),
+  );
+
+  if (task.user.email) {
+    const { subject, html } = taskAutoPausedEmail({
+      taskName: task.name,
+      category,
+      failures: task.consecutiveFailures,
+      error,
+    });
+    sendEmail({ to: task.user.email, subject, html });
+  }
+
+  return reason;
+}
@@ -0,0 +1,208 @@
+export {
+  MAX_CRON_EXPRESSION_LENGTH,
+  DEFAULT_TASK_TIMEZONE,
+  CRON_LOOKAHEAD_YEARS,
+  CRON_MACROS,
+  MONTH_NAMES,
+  WEEKDAY_NAMES,
+  MAX_MEMORY_KEY_LENGTH,
+  MAX_MEMORY_VALUE_LENGTH,
+  MAX_MEMORY_ENTRIES,
+  MEMORY_PROMPT_BUDGET,
+  RECENT_ITERATIONS_IN_PROMPT,
+  RECENT_ITERATION_PREVIEW_LENGTH,
+  MAX_PIPELINE_STAGES,
+  MAX_PIPELINES_PER_USER,
+  PIPELINE_EVENT_SOURCE,
+  MAX_STAGE_OUTPUT_LENGTH,
+  PIPELINE_RUN_STATUSES,
+  PIPELINE_STAGE_STATUSES,
+  EDGE_CONDITION_OPERATORS,
+  SENSITIVE_TASK_TOOLS,
+  MAX_APPROVAL_POLICY_TOOLS,
+  APPROVAL_TIMEOUT_MS,
+  APPROVAL_STATUSES,
+  DEFAULT_MAX_RETRIES,
+  MAX_RETRIES_LIMIT,
+  DEFAULT_RETRY_BACKOFF_MS,
+  MIN_RETRY_BACKOFF_MS,
+  MAX_RETRY_BACKOFF_MS,
+  MAX_RETRY_DELAY_MS,
+  DEFAULT_FAILURE_THRESHOLD,
+  MAX_FAILURE_THRESHOLD,
+  TASK_FAILURE_CATEGORIES,
+  NON_RETRYABLE_FAILURES,
+  TRIGGER_ADAPTER_IDS,
+  TRIGGER_SIGNATURE_TOLERANCE_SECONDS,
+  MAX_TRIGGER_FILTER_ENTRIES,
+  MAX_TRIGGER_FILTER_VALUE_LENGTH,
+  MAX_TRIGGER_TEXT_LENGTH,
+  TASK_WATCHER_TYPES,
+  WATCHER_POLL_INTERVAL_MS,
+  MAX_WATCHERS_PER_TASK,
+  WATCHERS_PER_CRON_RUN,
+  MAX_SIGNATURES_PER_CHECK,
+  MAX_MATCHES_PER_EVENT,
+  WATCHER_EVENT_SOURCE,
+  TASK_DELIVERY_CHANNELS,
+  TASK_DELIVERY_CONDITIONS,
+  MAX_DELIVERY_TARGETS_PER_TASK,
+  DELIVERY_MAX_ATTEMPTS,
+  DELIVERY_RETRY_DELAY_MS,
+  WEBHOOK_DELIVERY_TIMEOUT_MS,
+  MAX_DELIVERY_CONTENT_LENGTH,
+  MAX_SMS_DELIVERY_LENGTH,
+  MAX_NOTABLE_REASON_LENGTH,
+  MAX_DELIVERY_RECORDS_PER_TASK,
+  SIMULATED_TASK_TOOLS,
+  DRY_RUN_LIVE_TASK_TOOLS,
+  TASK_TRIGGER_MODES,
+  MIN_TASK_INTERVAL_MS,
+  MAX_TASK_INTERVAL_MS,
+  MAX_CONCURRENT_TASKS,
+  TASK_TEMPLATE_VISIBILITIES,
+  TEMPLATE_PARAMETER_KINDS,
+  MAX_TEMPLATES_PER_USER,
+  MAX_TEMPLATE_PARAMETERS,
+  MAX_TEMPLATE_VALUE_LENGTH,
+  TEMPLATE_GALLERY_PAGE_SIZE,
+  type CronSchedule,
+  type TaskMemoryEntry,
+  type PipelineRunStatus,
+  type PipelineStageStatus,
+  type EdgeConditionOperator,
+  type PipelineEdgeCondition,
+  type PipelineStageOutcome,
+  type PipelineEdgeDefinition,
+  type ApprovalStatus,
+  type PendingToolApproval,
+  type ToolApprovalDecision,
+  type TaskFailureCategory,
+  type TaskRetryPolicy,
+  type TriggerAdapterId,
+  type TaskTriggerEvent,
+  type TriggerFilter,
+  type TriggerAdapterOptions,
+  type TaskTriggerConfig,
+  type TaskWatcherType,
+  type TransferWatcherConfig,
+  type PriceWatcherConfig,
+  type NewHolderWatcherConfig,
+  type TaskWatcherDefinition,
+  type TaskWatcherState,
+  type TaskDeliveryChannel,
+  type TaskDeliveryCondition,
+  type TaskDeliveryTargetInput,
+  type TaskIterationOutcome,
+  type SimulatedTaskTool,
+  type TaskTemplateVisibility,
+  type TemplateParameterKind,
+  type TaskTemplateParameter,
+  type TaskTemplateInput,
+} from "./constants";
+
+export {
+  parseCronExpression,
+  isValidTimezone,
+  getNextCronRun,
+  getUpcomingCronRuns,
+  validateCronSchedule,
+  describeCronExpression,
+  describeTaskSchedule,
+} from "./cron";
+
+export {
+  validateMemoryEntry,
+  getTaskMemory,
+  setTaskMemory,
+  deleteTaskMemory,
+  buildTaskMemoryPrompt,
+} from "./memory";
+
+export {
+  validateEdgeCondition,
+  evaluateEdgeCondition,
+  describeEdgeCondition,
+  validatePipelineGraph,
+  getRootStages,
+  getReachableStages,
+  getPipelineLayers,
+} from "./pipeline-graph";
+
+export {
+  getPipelineRunId,
+  createTaskPipeline,
+  updateTaskPipeline,
+  recordPipelineStage,
+  startPipelineRun,
+  type PipelineDefinitionInput,
+} from "./pipeline";
+
+export {
+  validateApprovalPolicy,
+  requestTaskApprovals,
+  closeTaskApprovals,
+  decideTaskApproval,
+} from "./approvals";
+
+export {
+  categorizeTaskError,
+  isRetryableFailure,
+  getRetryDelay,
+  validateRetryPolicy,
+  formatFailurePause,
+} from "./failure-policy";
+
+export { recordTaskFailure } from "./failures";
+
+export {
+  getTriggerAdapter,
+  matchTriggerFilter,
+  validateTriggerSettings,
+  type TriggerAdapter,
+  type TriggerRequest,
+  type NormalizedTrigger,
+} from "./triggers";
+
+export {
+  validateWatcherDefinition,
+  describeWatcher,
+  evaluatePriceWatcher,
+  toWatcherDefinition,
+  type PriceMatch,
+} from "./watcher-conditions";
+
+export {
+  createTaskWatcher,
+  runTaskWatchers,
+  type WatcherRunReport,
+} from "./watchers";
+
+export {
+  validateDeliveryTarget,
+  shouldDeliver,
+  maskDestination,
+  signDeliveryBody,
+} from "./delivery-policy";
+
+export { createTaskDeliveryTarget, deliverTaskResult } from "./delivery";
+
+export {
+  findPlaceholders,
+  resolveTemplateParameters,
+  checkParameterValue,
+  validateTaskTemplate,
+  fillTaskTemplate,
+} from "./template-fields";
+
+export {
+  createTaskTemplate,
+  taskToTemplateInput,
+  listTaskTemplates,
+  getTaskTemplate,
+  updateTaskTemplate,
+  resolveTaskTemplate,
+  recordTemplateInstall,
+  type ResolvedTaskTemplate,
+  type TaskTemplateSummary,
+} from "./templates";
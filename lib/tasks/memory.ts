@@ -0,0 +1,171 @@
+/**
+ * Task Memory
+ *
+ * A per-task key/value store that lets a recurring task's agent carry state
+ * between iterations (IDs already handled, last values seen, running notes).
+ * The agent reads and writes it through tools; each iteration's prompt gets
+ * the newest entries plus a recap of the last few results, within
+ * MEMORY_PROMPT_BUDGET characters.
+ */
+
+import prisma from "@/lib/prisma";
+
+import {
+  MAX_MEMORY_ENTRIES,
+  MAX_MEMORY_KEY_LENGTH,
+  MAX_MEMORY_VALUE_LENGTH,
+  MEMORY_PROMPT_BUDGET,
+  RECENT_ITERATIONS_IN_PROMPT,
+  RECENT_ITERATION_PREVIEW_LENGTH,
+  type TaskMemoryEntry,
+} from "./constants";
+
+const ENTRY_SELECT = { key: true, value: true, updatedAt: true } as const;
+
+/**
+ * Check a memory key/value pair. Returns an error message, or null if valid.
+ */
+export function validateMemoryEntry(
+  key: unknown,
+  value: unknown,
+): string | null {
+  if (typeof key !== "string" || !key.trim()) {
+    return "key must be a non-empty string";
+  }
+  if (key.trim().length > MAX_MEMORY_KEY_LENGTH) {
+    return `key exceeds ${MAX_MEMORY_KEY_LENGTH} characters`;
+  }
+  if (typeof value !== "string") {
+    return "value must be a string";
+  }
+  if (value.length > MAX_MEMORY_VALUE_LENGTH) {
+    return `value exceeds ${MAX_MEMORY_VALUE_LENGTH} characters`;
+  }
+  return null;
+}
+
+/**
+ * All of a task's memory entries, most recently updated first.
+ */
+export async function getTaskMemory(
+  taskId: string,
+): Promise<TaskMemoryEntry[]> {
+  return prisma.taskMemory.findMany({
+    where: { taskId },
+    select: ENTRY_SELECT,
+    orderBy: { updatedAt: "desc" },
+  });
+}
+
+/**
+ * Create or overwrite a memory entry. Fails when the entry is invalid or a
+ * new key would exceed MAX_MEMORY_ENTRIES.
+ */
+export async function setTaskMemory(
+  taskId: string,
+  key: string,
+  value: string,
+): Promise<
+  { ok: true; entry: TaskMemoryEntry } | { ok: false; error: string }
+> {
+  const validationError = validateMemoryEntry(key, value);
+  if (validationError) return { ok: false, error: validationError };
+
+  const normalizedKey = key.trim();
+  const [existing, count] = await Promise.all([
+    prisma.taskMemory.findUnique({
+      where: { taskId_key: { taskId, key: normalizedKey } },
+      select: { id: true },
+    }),
+    prisma.taskMemory.count({ where: { taskId } }),
+  ]);
+
+  if (!existing && count >= MAX_MEMORY_ENTRIES) {
+    return {
+      ok: false,
+      error: `Memory is full (${MAX_MEMORY_ENTRIES} entries). Delete or overwrite an existing key.`,
+    };
+  }
+
+  const entry = await prisma.taskMemory.upsert({
+    where: { taskId_key: { taskId, key: normalizedKey } },
+    create: { taskId, key: normalizedKey, value },
+    update: { value },
+    select: ENTRY_SELECT,
+  });
+
+  return { ok: true, entry };
+}
+
+/**
+ * Delete a memory entry. Returns false if the key didn't exist.
+ */
+export async function deleteTaskMemory(
+  taskId: string,
+  key: string,
+): Promise<boolean> {
+  const { count } = await prisma.taskMemory.deleteMany({
+    where: { taskId, key: key.trim() },
+  });
+  return count > 0;
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length)}...` : text;
+}
+
+/**
+ * Build the memory block appended to an iteration prompt: the newest memory
+ * entries that fit the budget, then a recap of the last few iterations.
+ */
+export async function buildTaskMemoryPrompt(taskId: string): Promise<string> {
+  const [entries, recentLogs] = await Promise.all([
+    getTaskMemory(taskId),
+    prisma.taskLog.findMany({
+      where: { taskId },
+      orderBy: { createdAt: "desc" },
+      take: RECENT_ITERATIONS_IN_PROMPT,
+      select: { iteration: true, content: true, status: true, createdAt: true },
+    }),
+  ]);
+
+  const recap = recentLogs
+    .reverse()
+    .map(
+      (log) =>
+        `#${log.iteration} (${log.status}, ${log.createdAt.toISOString()}): ${truncate(log.content.replace(/\s+/g, " "), RECENT_ITERATION_PREVIEW_LENGTH)}`,
+    );
+
+  let budget = MEMORY_PROMPT_BUDGET - recap.join("\n").length;
+  const notes: string[] = [];
+  for (const entry of entries) {
+    const line = `- ${entry.key}: ${entry.value}`;
+    if (line.length > budget) break;
+    notes.push(line);
+    budget -= line.length + 1;
+  }
+  const omitted = entries.length - notes.length;
+
+  const lines = ["\n\n--- Task memory ---"];
+  if (entries.length === 0) {
+    lines.push(
+      "No notes saved yet. Use writeTaskMemory to remember anything the next iteration needs (e.g. items already handled, last values seen).",
+    );
+  } else {
+    lines.push(
+      "Notes saved by earlier iterations (update them with writeTaskMemory / deleteTaskMemory):",
+      ...notes,
+    );
+    if (omitted > 0) {
+      lines.push(
+        `(${omitted} older note${omitted === 1 ? "" : "s"} omitted — use readTaskMemory to see them)`,
+      );
+    }
+  }
+  if (recap.length > 0) {
+    lines.push("", "Recent iterations:", ...recap);
+  }
+  lines.push("---");
+
+  return lines.join("\n");
+}
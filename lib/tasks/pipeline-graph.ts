@@ -0,0 +1,240 @@
+/**
+ * Pipeline Graphs
+ *
+ * Pure helpers for task pipelines: DAG validation, roots and layers, and
+ * edge-condition checks. No server dependencies, so the pipeline view can
+ * lay out stages client-side.
+ */
+
+import {
+  EDGE_CONDITION_OPERATORS,
+  MAX_PIPELINE_STAGES,
+  type PipelineEdgeCondition,
+  type PipelineEdgeDefinition,
+  type PipelineStageOutcome,
+} from "./constants";
+
+type Edge = Pick<PipelineEdgeDefinition, "fromTaskId" | "toTaskId">;
+
+// ── Conditions ───────────────────────────────────────────────────────────────
+
+/**
+ * Check an edge condition from user or tool input. Returns an error message,
+ * or null when valid (null/undefined conditions are valid).
+ */
+export function validateEdgeCondition(condition: unknown): string | null {
+  if (condition === null || condition === undefined) return null;
+  if (typeof condition !== "object" || Array.isArray(condition)) {
+    return "condition must be an object";
+  }
+
+  const c = condition as Record<string, unknown>;
+  switch (c.type) {
+    case "always":
+      return null;
+    case "status":
+      return c.status === "success" || c.status === "error"
+        ? null
+        : 'status condition needs status "success" or "error"';
+    case "contains":
+      return typeof c.text === "string" && c.text.trim()
+        ? null
+        : "contains condition needs a non-empty text";
+    case "field": {
+      if (typeof c.path !== "string" || !c.path.trim()) {
+        return "field condition needs a path";
+      }
+      if (
+        !EDGE_CONDITION_OPERATORS.includes(
+          c.op as (typeof EDGE_CONDITION_OPERATORS)[number],
+        )
+      ) {
+        return `field condition op must be one of: ${EDGE_CONDITION_OPERATORS.join(", ")}`;
+      }
+      if (
+        c.op !== "exists" &&
+        !["string", "number", "boolean"].includes(typeof c.value)
+      ) {
+        return "field condition needs a string, number, or boolean value";
+      }
+      return null;
+    }
+    default:
+      return "condition type must be one of: always, status, contains, field";
+  }
+}
+
+function getPath(value: unknown, path: string): unknown {
+  let current = value;
+  for (const key of path.split(".")) {
+    if (current === null || typeof current !== "object") return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+/**
+ * Whether an edge fires for the given upstream outcome. Skipped stages never
+ * fire their edges.
+ */
+export function evaluateEdgeCondition(
+  condition: PipelineEdgeCondition | null,
+  outcome: PipelineStageOutcome,
+): boolean {
+  if (outcome.status === "skipped" || outcome.status === "running") {
+    return false;
+  }
+  if (!condition) return outcome.status === "success";
+
+  switch (condition.type) {
+    case "always":
+      return true;
+    case "status":
+      return outcome.status === condition.status;
+    case "contains":
+      return (outcome.output ?? "")
+        .toLowerCase()
+        .includes(condition.text.toLowerCase());
+    case "field": {
+      const actual = getPath(outcome.result, condition.path);
+      if (condition.op === "exists") {
+        return actual !== undefined && actual !== null;
+      }
+      const expected = condition.value;
+      if (condition.op === "eq") return actual === expected;
+      if (condition.op === "neq") return actual !== expected;
+      const a = Number(actual);
+      const b = Number(expected);
+      if (Number.isNaN(a) || Number.isNaN(b)) return false;
+      if (condition.op === "gt") return a > b;
+      if (condition.op === "gte") return a >= b;
+      if (condition.op === "lt") return a < b;
+      return a <= b;
+    }
+  }
+}
+
+/**
+ * Short label for an edge, e.g. "on success", "if result.score > 5".
+ */
+export function describeEdgeCondition(
+  condition: PipelineEdgeCondition | null,
+): string {
+  if (!condition) return "on success";
+  switch (condition.type) {
+    case "always":
+      return "always";
+    case "status":
+      return `on ${condition.status}`;
+    case "contains":
+      return `if output contains "${condition.text}"`;
+    case "field": {
+      const symbols: Record<string, string> = {
+        eq: "=",
+        neq: "≠",
+        gt: ">",
+        gte: "≥",
+        lt: "<",
+        lte: "≤",
+      };
+      return condition.op === "exists"
+        ? `if result.${condition.path} exists`
+        : `if result.${condition.path} ${symbols[condition.op]} ${JSON.stringify(condition.value)}`;
+    }
+  }
+}
+
+// ── Graph ────────────────────────────────────────────────────────────────────
+
+/**
+ * Check that edges form a DAG over the given stages. Returns an error
+ * message, or null when valid.
+ */
+export function validatePipelineGraph(
+  stageIds: string[],
+  edges: Edge[],
+): string | null {
+  if (stageIds.length === 0) return "A pipeline needs at least one stage";
+  if (stageIds.length > MAX_PIPELINE_STAGES) {
+    return `A pipeline can have at most ${MAX_PIPELINE_STAGES} stages`;
+  }
+  if (new Set(stageIds).size !== stageIds.length) {
+    return "Each task can appear only once in a pipeline";
+  }
+
+  const stages = new Set(stageIds);
+  const seen = new Set<string>();
+  for (const edge of edges) {
+    if (!stages.has(edge.fromTaskId) || !stages.has(edge.toTaskId)) {
+      return "Edges must connect tasks that are stages of the pipeline";
+    }
+    if (edge.fromTaskId === edge.toTaskId) {
+      return "A stage cannot feed into itself";
+    }
+    const key = `${edge.fromTaskId}→${edge.toTaskId}`;
+    if (seen.has(key)) return "Duplicate edge between the same two stages";
+    seen.add(key);
+  }
+
+  if (getPipelineLayers(stageIds, edges).flat().length !== stageIds.length) {
+    return "Pipeline edges must not form a cycle";
+  }
+  return null;
+}
+
+/**
+ * Stages with no incoming edges — the ones that start a run.
+ */
+export function getRootStages(stageIds: string[], edges: Edge[]): string[] {
+  const targets = new Set(edges.map((e) => e.toTaskId));
+  return stageIds.filter((id) => !targets.has(id));
+}
+
+/**
+ * The stage and every stage downstream of it.
+ */
+export function getReachableStages(start: string, edges: Edge[]): string[] {
+  const reached = new Set([start]);
+  const queue = [start];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const edge of edges) {
+      if (edge.fromTaskId === current && !reached.has(edge.toTaskId)) {
+        reached.add(edge.toTaskId);
+        queue.push(edge.toTaskId);
+      }
+    }
+  }
+  return [...reached];
+}
+
+/**
+ * Group stages into layers where every edge points to a later layer
+ * (Kahn's algorithm). Stages on a cycle are left out.
+ */
+export function getPipelineLayers(
+  stageIds: string[],
+  edges: Edge[],
+): string[][] {
+  const inDegree = new Map(stageIds.map((id) => [id, 0]));
+  for (const edge of edges) {
+    inDegree.set(edge.toTaskId, (inDegree.get(edge.toTaskId) ?? 0) + 1);
+  }
+
+  const layers: string[][] = [];
+  let current = stageIds.filter((id) => inDegree.get(id) === 0);
+  while (current.length > 0) {
+    layers.push(current);
+    const next: string[] = [];
+    for (const id of current) {
+      for (const edge of edges) {
+        if (edge.fromTaskId !== id) continue;
+        const remaining = (inDegree.get(edge.toTaskId) ?? 0) - 1;
+        inDegree.set(edge.toTaskId, remaining);
+        if (remaining === 0) next.push(edge.toTaskId);
+      }
+    }
+    current = next;
+  }
+  return layers;
+}
@@ -0,0 +1,511 @@
+/**
+ * Task Pipelines
+ *
+ * Chains AgentTasks into a DAG. Each stage is an ordinary task; when one
+ * finishes an iteration, the run records its outcome and fires the
+ * taskEventHook of every downstream stage whose inputs are ready:
+ *
+ * - Fan-out: a stage with several outgoing edges fires each target.
+ * - Fan-in: a stage waits until all of its upstream stages in the run have
+ *   settled, then fires once with every upstream output that passed its edge.
+ * - Conditional edges: an edge only passes when its condition holds; a stage
+ *   with no passing edge is skipped, and the skip propagates downstream.
+ *
+ * A run starts when a root stage finishes an iteration on its own trigger
+ * (covering the stages reachable from it), or manually (firing every root).
+ */
+
+import prisma from "@/lib/prisma";
+import type { Prisma } from "@/app/generated/prisma/client";
+import { taskEventHook } from "@/workflows/tasks/hooks/taskEvent";
+import type { TaskEventContext } from "@/workflows/tasks/steps/execute";
+
+import {
+  MAX_PIPELINE_STAGES,
+  MAX_STAGE_OUTPUT_LENGTH,
+  PIPELINE_EVENT_SOURCE,
+  type PipelineEdgeCondition,
+  type PipelineStageStatus,
+} from "./constants";
+import {
+  evaluateEdgeCondition,
+  getReachableStages,
+  getRootStages,
+  validateEdgeCondition,
+  validatePipelineGraph,
+} from "./pipeline-graph";
+
+/** Trigger modes that block on taskEventHook, so a pipeline can fire them */
+const EVENT_TRIGGER_MODES = ["event", "event-or-interval"];
+
+export interface PipelineDefinitionInput {
+  name: string;
+  description?: string | null;
+  stageIds: string[];
+  edges: Array<{ fromTaskId: string; toTaskId: string; condition?: unknown }>;
+}
+
+type PipelineResult<T> = { ok: true } & T;
+type PipelineError = { ok: false; error: string };
+
+function truncateOutput(output: string): string {
+  return output.length > MAX_STAGE_OUTPUT_LENGTH
+    ? `${output.slice(0, MAX_STAGE_OUTPUT_LENGTH)}...`
+    : output;
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "code" in error &&
+    (error as { code: string }).code === "P2002"
+  );
+}
+
+/**
+ * The pipeline run an iteration belongs to, if a pipeline fired it.
+ */
+export function getPipelineRunId(
+  eventContext?: TaskEventContext | null,
+): string | null {
+  if (eventContext?.source !== PIPELINE_EVENT_SOURCE) return null;
+  const runId = eventContext.payload?.pipelineRunId;
+  return typeof runId === "string" ? runId : null;
+}
+
+// ── Definitions ──────────────────────────────────────────────────────────────
+
+/**
+ * Check a pipeline definition against the user's tasks. Stages must be the
+ * user's own tasks and not belong to another pipeline; non-root stages must
+ * be event-triggered so the pipeline can wake them.
+ */
+async function validateDefinition(
+  userId: string,
+  input: PipelineDefinitionInput,
+  pipelineId?: string,
+): Promise<string | null> {
+  if (typeof input.name !== "string" || !input.name.trim()) {
+    return "name is required";
+  }
+  if (input.name.length > 200) return "name exceeds 200 characters";
+  if (!Array.isArray(input.stageIds) || !Array.isArray(input.edges)) {
+    return "stageIds and edges must be arrays";
+  }
+
+  for (const edge of input.edges) {
+    const conditionError = validateEdgeCondition(edge.condition);
+    if (conditionError) return conditionError;
+  }
+
+  const graphError = validatePipelineGraph(input.stageIds, input.edges);
+  if (graphError) return graphError;
+
+  const tasks = await prisma.agentTask.findMany({
+    where: { id: { in: input.stageIds }, userId },
+    select: { id: true, name: true, triggerMode: true, pipelineId: true },
+  });
+  if (tasks.length !== input.stageIds.length) {
+    return "One or more stages are not tasks you own";
+  }
+
+  const roots = new Set(getRootStages(input.stageIds, input.edges));
+  for (const task of tasks) {
+    if (task.pipelineId && task.pipelineId !== pipelineId) {
+      return `Task "${task.name}" is already a stage of another pipeline`;
+    }
+    if (
+      !roots.has(task.id) &&
+      !EVENT_TRIGGER_MODES.includes(task.triggerMode)
+    ) {
+      return `Task "${task.name}" has upstream stages, so it must use the "event" or "event-or-interval" trigger mode`;
+    }
+  }
+
+  return null;
+}
+
+function toEdgeRows(input: PipelineDefinitionInput) {
+  return input.edges.map((edge) => ({
+    fromTaskId: edge.fromTaskId,
+    toTaskId: edge.toTaskId,
+    condition: (edge.condition ?? undefined) as
+      | Prisma.InputJsonValue
+      | undefined,
+  }));
+}
+
+/**
+ * Create a pipeline from existing tasks.
+ */
+export async function createTaskPipeline(
+  userId: string,
+  input: PipelineDefinitionInput,
+): Promise<PipelineResult<{ pipelineId: string }> | PipelineError> {
+  const error = await validateDefinition(userId, input);
+  if (error) return { ok: false, error };
+
+  const pipeline = await prisma.$transaction(async (tx) => {
+    const created = await tx.taskPipeline.create({
+      data: {
+        name: input.name.trim(),
+        description: input.description ?? null,
+        userId,
+        edges: { create: toEdgeRows(input) },
+      },
+      select: { id: true },
+    });
+    await tx.agentTask.updateMany({
+      where: { id: { in: input.stageIds }, userId },
+      data: { pipelineId: created.id },
+    });
+    return created;
+  });
+
+  return { ok: true, pipelineId: pipeline.id };
+}
+
+/**
+ * Replace a pipeline's name, stages, and edges. Runs in progress keep going
+ * on the stages they started with.
+ */
+export async function updateTaskPipeline(
+  userId: string,
+  pipelineId: string,
+  input: PipelineDefinitionInput,
+): Promise<PipelineResult<object> | PipelineError> {
+  const error = await validateDefinition(userId, input, pipelineId);
+  if (error) return { ok: false, error };
+
+  await prisma.$transaction([
+    prisma.taskPipelineEdge.deleteMany({ where: { pipelineId } }),
+    prisma.agentTask.updateMany({
+      where: { pipelineId, id: { notIn: input.stageIds } },
+      data: { pipelineId: null },
+    }),
+    prisma.agentTask.updateMany({
+      where: { id: { in: input.stageIds }, userId },
+      data: { pipelineId },
+    }),
+    prisma.taskPipeline.update({
+      where: { id: pipelineId },
+      data: {
+        name: input.name.trim(),
+        description: input.description ?? null,
+        edges: { create: toEdgeRows(input) },
+      },
+    }),
+  ]);
+
+  return { ok: true };
+}
+
+// ── Runs ─────────────────────────────────────────────────────────────────────
+
+interface UpstreamOutput {
+  taskId: string;
+  name: string;
+  status: PipelineStageStatus;
+  output: string | null;
+  result: unknown;
+}
+
+async function fireStage(
+  pipeline: { id: string; name: string },
+  runId: string,
+  taskId: string,
+  upstream: UpstreamOutput[],
+): Promise<void> {
+  const summary =
+    upstream.length > 0
+      ? `Pipeline "${pipeline.name}": upstream stages finished — ${upstream
+          .map((u) => `${u.name} (${u.status})`)
+          .join(", ")}. Their outputs are in the payload.`
+      : `Pipeline "${pipeline.name}" run started.`;
+
+  await taskEventHook.resume(taskId, {
+    source: PIPELINE_EVENT_SOURCE,
+    eventType: upstream.length > 0 ? "upstream_completed" : "run_started",
+    summary,
+    payload: {
+      pipelineId: pipeline.id,
+      pipelineRunId: runId,
+      upstream,
+    },
+    occurredAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Create a stage's row for a run. Returns false if another caller already
+ * claimed it — this is what keeps a fan-in stage from firing twice.
+ */
+async function claimStage(
+  runId: string,
+  taskId: string,
+  status: "running" | "skipped",
+): Promise<boolean> {
+  try {
+    await prisma.taskPipelineStageRun.create({
+      data: {
+        runId,
+        taskId,
+        status,
+        completedAt: status === "skipped" ? new Date() : undefined,
+      },
+    });
+    return true;
+  } catch (error) {
+    if (isUniqueViolation(error)) return false;
+    throw error;
+  }
+}
+
+/**
+ * Fire or skip every stage whose upstream stages have all settled, repeating
+ * until nothing changes, then close the run once every stage has settled.
+ */
+async function advancePipelineRun(runId: string): Promise<void> {
+  // Each pass settles or fires at least one stage, so this bounds the loop
+  for (let pass = 0; pass <= MAX_PIPELINE_STAGES; pass++) {
+    const run = await prisma.taskPipelineRun.findUnique({
+      where: { id: runId },
+      include: {
+        stages: true,
+        pipeline: {
+          select: {
+            id: true,
+            name: true,
+            edges: true,
+            stages: { select: { id: true, name: true } },
+          },
+        },
+      },
+    });
+    if (!run || run.status !== "running") return;
+
+    const rows = new Map(run.stages.map((row) => [row.taskId, row]));
+    const isSettled = (taskId: string) => {
+      const row = rows.get(taskId);
+      return !!row && row.status !== "running";
+    };
+
+    if (run.stageIds.every(isSettled)) {
+      const failed = run.stages.some((row) => row.status === "error");
+      await prisma.taskPipelineRun.updateMany({
+        where: { id: runId, status: "running" },
+        data: {
+          status: failed ? "failed" : "completed",
+          completedAt: new Date(),
+        },
+      });
+      return;
+    }
+
+    const names = new Map(run.pipeline.stages.map((s) => [s.id, s.name]));
+    const inRun = new Set(run.stageIds);
+    const edges = run.pipeline.edges.filter(
+      (e) => inRun.has(e.fromTaskId) && inRun.has(e.toTaskId),
+    );
+
+    let progressed = false;
+    for (const taskId of run.stageIds) {
+      if (rows.has(taskId)) continue;
+
+      const incoming = edges.filter((e) => e.toTaskId === taskId);
+      if (
+        incoming.length === 0 ||
+        !incoming.every((e) => isSettled(e.fromTaskId))
+      ) {
+        continue;
+      }
+
+      const passing = incoming.filter((edge) => {
+        const row = rows.get(edge.fromTaskId)!;
+        return evaluateEdgeCondition(
+          edge.condition as PipelineEdgeCondition | null,
+          {
+            status: row.status as PipelineStageStatus,
+            output: row.output,
+            result: row.result,
+          },
+        );
+      });
+
+      if (passing.length === 0) {
+        if (await claimStage(runId, taskId, "skipped")) progressed = true;
+        continue;
+      }
+
+      if (!(await claimStage(runId, taskId, "running"))) continue;
+      progressed = true;
+
+      const upstream = passing.map((edge) => {
+        const row = rows.get(edge.fromTaskId)!;
+        return {
+          taskId: edge.fromTaskId,
+          name: names.get(edge.fromTaskId) ?? edge.fromTaskId,
+          status: row.status as PipelineStageStatus,
+          output: row.output,
+          result: row.result,
+        };
+      });
+
+      try {
+        await fireStage(run.pipeline, runId, taskId, upstream);
+      } catch (error) {
+        console.error(
+          `[Pipeline ${run.pipelineId}] Failed to fire stage ${taskId}:`,
+          error,
+        );
+        await prisma.taskPipelineStageRun.update({
+          where: { runId_taskId: { runId, taskId } },
+          data: {
+            status: "error",
+            output: "Stage could not be triggered — is the task running?",
+            completedAt: new Date(),
+          },
+        });
+      }
+    }
+
+    if (!progressed) return;
+  }
+}
+
+/**
+ * Record a stage's iteration outcome and advance its run. Called by the task
+ * workflow after every iteration of a task that belongs to a pipeline.
+ * Returns the run ID the iteration belongs to, or null if it's not part of
+ * one (e.g. a non-root stage ran on its own interval).
+ */
+export async function recordPipelineStage(params: {
+  taskId: string;
+  status: "success" | "error";
+  output: string;
+  result?: Record<string, unknown>;
+  eventContext?: TaskEventContext | null;
+}): Promise<string | null> {
+  const { taskId, status, eventContext } = params;
+
+  const task = await prisma.agentTask.findUnique({
+    where: { id: taskId },
+    select: {
+      pipelineId: true,
+      pipeline: {
+        select: {
+          edges: { select: { fromTaskId: true, toTaskId: true } },
+          stages: { select: { id: true } },
+        },
+      },
+    },
+  });
+  if (!task?.pipelineId || !task.pipeline) return null;
+
+  const outcome = {
+    status,
+    output: truncateOutput(params.output),
+    result: params.result as Prisma.InputJsonValue | undefined,
+    completedAt: new Date(),
+  };
+
+  let runId = getPipelineRunId(eventContext);
+  if (runId) {
+    const { count } = await prisma.taskPipelineStageRun.updateMany({
+      where: { runId, taskId, status: "running" },
+      data: outcome,
+    });
+    // Stale event (run closed or stage already recorded)
+    if (count === 0) return null;
+  } else {
+    const stageIds = task.pipeline.stages.map((s) => s.id);
+    const { edges } = task.pipeline;
+    if (!getRootStages(stageIds, edges).includes(taskId)) return null;
+
+    const run = await prisma.taskPipelineRun.create({
+      data: {
+        pipelineId: task.pipelineId,
+        triggeredBy: "stage",
+        stageIds: getReachableStages(taskId, edges),
+        stages: { create: { taskId, ...outcome } },
+      },
+      select: { id: true },
+    });
+    runId = run.id;
+  }
+
+  await advancePipelineRun(runId);
+  return runId;
+}
+
+/**
+ * Start a run by hand, firing every root stage. Roots must be running and
+ * event-triggered.
+ */
+export async function startPipelineRun(
+  pipelineId: string,
+): Promise<PipelineResult<{ runId: string }> | PipelineError> {
+  const pipeline = await prisma.taskPipeline.findUnique({
+    where: { id: pipelineId },
+    select: {
+      id: true,
+      name: true,
+      edges: { select: { fromTaskId: true, toTaskId: true } },
+      stages: {
+        select: { id: true, name: true, status: true, triggerMode: true },
+      },
+    },
+  });
+  if (!pipeline || pipeline.stages.length === 0) {
+    return { ok: false, error: "Pipeline has no stages" };
+  }
+
+  const stageIds = pipeline.stages.map((s) => s.id);
+  const roots = new Set(getRootStages(stageIds, pipeline.edges));
+  const rootStages = pipeline.stages.filter((s) => roots.has(s.id));
+  const notReady = rootStages.find(
+    (s) =>
+      s.status !== "running" || !EVENT_TRIGGER_MODES.includes(s.triggerMode),
+  );
+  if (notReady) {
+    return {
+      ok: false,
+      error: `Root stage "${notReady.name}" must be running and event-triggered to start a run manually`,
+    };
+  }
+
+  const run = await prisma.taskPipelineRun.create({
+    data: {
+      pipelineId,
+      triggeredBy: "manual",
+      stageIds,
+      stages: {
+        create: rootStages.map((s) => ({ taskId: s.id, status: "running" })),
+      },
+    },
+    select: { id: true },
+  });
+
+  for (const stage of rootStages) {
+    try {
+      await fireStage(pipeline, run.id, stage.id, []);
+    } catch (error) {
+      console.error(
+        `[Pipeline ${pipelineId}] Failed to fire root ${stage.id}:`,
+        error,
+      );
+      await prisma.taskPipelineStageRun.update({
+        where: { runId_taskId: { runId: run.id, taskId: stage.id } },
+        data: {
+          status: "error",
+          output: "Stage could not be triggered — is the task running?",
+          completedAt: new Date(),
+        },
+      });
+    }
+  }
+
+  await advancePipelineRun(run.id);
+  return { ok: true, runId: run.id };
+}
@@ -0,0 +1,281 @@
+/**
+ * Task Template Fields
+ *
+ * Pure helpers for task templates: checking a template, finding the
+ * {placeholders} in its name and prompt, and filling them in with an
+ * installer's values.
+ */
+
+import { ALLOWED_AGENT_MODELS } from "@/lib/agents/constants";
+import { isValidPublicKey } from "@/lib/utils/validation";
+import {
+  DEFAULT_TASK_TIMEZONE,
+  MAX_TASK_INTERVAL_MS,
+  MAX_TEMPLATE_PARAMETERS,
+  MAX_TEMPLATE_VALUE_LENGTH,
+  MIN_TASK_INTERVAL_MS,
+  TASK_TEMPLATE_VISIBILITIES,
+  TASK_TRIGGER_MODES,
+  TEMPLATE_PARAMETER_KINDS,
+  type TaskTemplateInput,
+  type TaskTemplateParameter,
+} from "./constants";
+import { validateCronSchedule } from "./cron";
+
+/** {name}: a letter, then letters, digits, or underscores */
+const PLACEHOLDER_PATTERN = /\{([A-Za-z][A-Za-z0-9_]{0,39})\}/g;
+
+const TWITTER_HANDLE_PATTERN = /^@?[A-Za-z0-9_]{1,15}$/;
+
+/** Placeholder names in the order they first appear */
+export function findPlaceholders(...texts: string[]): string[] {
+  const names = new Set<string>();
+  for (const text of texts) {
+    for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+      names.add(match[1]);
+    }
+  }
+  return [...names];
+}
+
+/**
+ * The template's parameters: one per placeholder, taking the description,
+ * kind, and default from the declared parameter of the same name
+ */
+export function resolveTemplateParameters(
+  name: string,
+  taskPrompt: string,
+  declared: TaskTemplateParameter[] = [],
+): TaskTemplateParameter[] {
+  return findPlaceholders(name, taskPrompt).map(
+    (placeholder) =>
+      declared.find((p) => p.name === placeholder) ?? { name: placeholder },
+  );
+}
+
+/**
+ * Check a value for a placeholder and normalize it (trimmed, and without
+ * the @ of a Twitter handle). Returns an error message or the value.
+ */
+export function checkParameterValue(
+  parameter: TaskTemplateParameter,
+  value: unknown,
+): { error: string } | { value: string } {
+  const raw =
+    typeof value === "number" && Number.isFinite(value) ? String(value) : value;
+  if (typeof raw !== "string" || !raw.trim()) {
+    return { error: `{${parameter.name}} must be a non-empty string` };
+  }
+  const trimmed = raw.trim();
+  if (trimmed.length > MAX_TEMPLATE_VALUE_LENGTH) {
+    return {
+      error: `{${parameter.name}} must be at most ${MAX_TEMPLATE_VALUE_LENGTH} characters`,
+    };
+  }
+
+  switch (parameter.kind ?? "text") {
+    case "number":
+      return Number.isFinite(Number(trimmed))
+        ? { value: trimmed }
+        : { error: `{${parameter.name}} must be a number` };
+    case "solanaAddress":
+      return isValidPublicKey(trimmed)
+        ? { value: trimmed }
+        : { error: `{${parameter.name}} must be a Solana address` };
+    case "twitterHandle":
+      return TWITTER_HANDLE_PATTERN.test(trimmed)
+        ? { value: trimmed.replace(/^@/, "") }
+        : { error: `{${parameter.name}} must be an X (Twitter) handle` };
+    default:
+      return { value: trimmed };
+  }
+}
+
+function validateParameters(
+  input: TaskTemplateInput,
+  placeholders: string[],
+): string | null {
+  const { parameters } = input;
+  if (parameters === undefined) return null;
+  if (!Array.isArray(parameters)) return "parameters must be an array";
+  if (parameters.length > MAX_TEMPLATE_PARAMETERS) {
+    return `A template can have at most ${MAX_TEMPLATE_PARAMETERS} parameters`;
+  }
+
+  const seen = new Set<string>();
+  for (const parameter of parameters) {
+    if (!parameter || typeof parameter.name !== "string") {
+      return "Each parameter needs a name";
+    }
+    const { name, description, kind } = parameter;
+    if (seen.has(name)) return `Parameter {${name}} is listed twice`;
+    seen.add(name);
+    if (!placeholders.includes(name)) {
+      return `Parameter {${name}} doesn't appear in the name or prompt`;
+    }
+    if (
+      description !== undefined &&
+      (typeof description !== "string" || description.length > 200)
+    ) {
+      return `Parameter {${name}}: description must be at most 200 characters`;
+    }
+    if (
+      kind !== undefined &&
+      !(TEMPLATE_PARAMETER_KINDS as readonly string[]).includes(kind)
+    ) {
+      return `Parameter {${name}}: kind must be one of: ${TEMPLATE_PARAMETER_KINDS.join(", ")}`;
+    }
+    if (parameter.default !== undefined) {
+      const checked = checkParameterValue(parameter, parameter.default);
+      if ("error" in checked) return `Default for ${checked.error}`;
+    }
+  }
+  return null;
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) &&
+    value.length <= 20 &&
+    value.every((v) => typeof v === "string" && v.length <= 64)
+  );
+}
+
+/**
+ * Check a template from user or tool input. Returns an error message, or
+ * null when valid.
+ */
+export function validateTaskTemplate(input: unknown): string | null {
+  if (!input || typeof input !== "object") {
+    return "A template needs a name and a taskPrompt";
+  }
+  const template = input as TaskTemplateInput;
+  const {
+    name,
+    description,
+    taskPrompt,
+    triggerMode = "interval",
+    intervalMs,
+    cronExpression,
+    timezone,
+    model,
+    visibility = "private",
+  } = template;
+
+  if (typeof name !== "string" || !name.trim() || name.length > 200) {
+    return "name must be 1-200 characters";
+  }
+  if (typeof taskPrompt !== "string" || !taskPrompt.trim()) {
+    return "taskPrompt is required";
+  }
+  if (taskPrompt.length > 10_000) {
+    return "taskPrompt must be at most 10000 characters";
+  }
+  if (
+    description !== undefined &&
+    (typeof description !== "string" || description.length > 1000)
+  ) {
+    return "description must be at most 1000 characters";
+  }
+
+  const parametersError = validateParameters(
+    template,
+    findPlaceholders(name, taskPrompt),
+  );
+  if (parametersError) return parametersError;
+  if (
+    resolveTemplateParameters(name, taskPrompt).length > MAX_TEMPLATE_PARAMETERS
+  ) {
+    return `A template can have at most ${MAX_TEMPLATE_PARAMETERS} placeholders`;
+  }
+
+  for (const field of ["enabledToolGroups", "enabledSkills"] as const) {
+    if (template[field] !== undefined && !isStringArray(template[field])) {
+      return `${field} must be a list of names`;
+    }
+  }
+
+  if (!(TASK_TRIGGER_MODES as readonly string[]).includes(triggerMode)) {
+    return `triggerMode must be one of: ${TASK_TRIGGER_MODES.join(", ")}`;
+  }
+  if (triggerMode === "cron") {
+    if (typeof cronExpression !== "string") {
+      return "cronExpression is required for the cron trigger mode";
+    }
+    const cronError = validateCronSchedule(
+      cronExpression,
+      timezone ?? DEFAULT_TASK_TIMEZONE,
+    );
+    if (cronError) return cronError;
+  } else if (triggerMode !== "event") {
+    if (
+      typeof intervalMs !== "number" ||
+      intervalMs < MIN_TASK_INTERVAL_MS ||
+      intervalMs > MAX_TASK_INTERVAL_MS
+    ) {
+      return `intervalMs must be between ${MIN_TASK_INTERVAL_MS} (1 min) and ${MAX_TASK_INTERVAL_MS} (24 hrs)`;
+    }
+  }
+
+  if (model !== undefined && !ALLOWED_AGENT_MODELS.has(model)) {
+    return `model must be one of: ${[...ALLOWED_AGENT_MODELS].join(", ")}`;
+  }
+
+  if (!(TASK_TEMPLATE_VISIBILITIES as readonly string[]).includes(visibility)) {
+    return `visibility must be one of: ${TASK_TEMPLATE_VISIBILITIES.join(", ")}`;
+  }
+  if (visibility === "corporation" && !template.corporationId) {
+    return "corporationId is required for corporation templates";
+  }
+  return null;
+}
+
+/**
+ * Fill a template's placeholders with an installer's values, falling back
+ * to each parameter's default.
+ */
+export function fillTaskTemplate(
+  template: {
+    name: string;
+    taskPrompt: string;
+    parameters: TaskTemplateParameter[];
+  },
+  values: Record<string, unknown> = {},
+):
+  | { ok: true; name: string; taskPrompt: string }
+  | { ok: false; error: string } {
+  const unknown = Object.keys(values).filter(
+    (key) => !template.parameters.some((p) => p.name === key),
+  );
+  if (unknown.length > 0) {
+    return {
+      ok: false,
+      error: `Unknown parameter${unknown.length !== 1 ? "s" : ""}: ${unknown.join(", ")}`,
+    };
+  }
+
+  const filled = new Map<string, string>();
+  for (const parameter of template.parameters) {
+    const value = values[parameter.name] ?? parameter.default;
+    if (value === undefined || value === "") {
+      return {
+        ok: false,
+        error: `A value for {${parameter.name}} is required`,
+      };
+    }
+    const checked = checkParameterValue(parameter, value);
+    if ("error" in checked) return { ok: false, error: checked.error };
+    filled.set(parameter.name, checked.value);
+  }
+
+  const fill = (text: string) =>
+    text.replace(
+      PLACEHOLDER_PATTERN,
+      (match, name: string) => filled.get(name) ?? match,
+    );
+  return {
+    ok: true,
+    name: fill(template.name).slice(0, 200),
+    taskPrompt: fill(template.taskPrompt),
+  };
+}
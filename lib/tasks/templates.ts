@@ -0,0 +1,397 @@
+/**
+ * Task Templates
+ *
+ * Shareable task definitions. A template holds a task's prompt, tools,
+ * and schedule, with {placeholders} (e.g. {tokenMint}) that are filled in
+ * when someone installs it. Templates are private to their creator, public
+ * in the gallery, or shared with the owners of a corporation's agents.
+ *
+ * Installing resolves a template into a concrete task definition here; the
+ * caller creates and starts the task, then records the install.
+ */
+
+import prisma from "@/lib/prisma";
+import type { Prisma } from "@/app/generated/prisma/client";
+
+import {
+  MAX_TEMPLATES_PER_USER,
+  TEMPLATE_GALLERY_PAGE_SIZE,
+  type TaskTemplateInput,
+  type TaskTemplateParameter,
+  type TaskTemplateVisibility,
+} from "./constants";
+import {
+  fillTaskTemplate,
+  resolveTemplateParameters,
+  validateTaskTemplate,
+} from "./template-fields";
+
+type TemplateResult<T> = { ok: true } & T;
+type TemplateError = { ok: false; error: string };
+
+/** A template with its placeholders filled in, ready to become a task */
+export interface ResolvedTaskTemplate {
+  templateId: string;
+  name: string;
+  taskPrompt: string;
+  enabledToolGroups: string[];
+  enabledSkills: string[];
+  triggerMode: string;
+  intervalMs: number;
+  cronExpression: string | null;
+  timezone: string | null;
+  model: string | null;
+}
+
+const TEMPLATE_SELECT = {
+  id: true,
+  name: true,
+  description: true,
+  taskPrompt: true,
+  parameters: true,
+  enabledToolGroups: true,
+  enabledSkills: true,
+  triggerMode: true,
+  intervalMs: true,
+  cronExpression: true,
+  timezone: true,
+  model: true,
+  visibility: true,
+  installCount: true,
+  creatorId: true,
+  creator: { select: { twitterUsername: true } },
+  corporation: { select: { id: true, name: true } },
+  createdAt: true,
+} as const;
+
+type TemplateRow = Prisma.TaskTemplateGetPayload<{
+  select: typeof TEMPLATE_SELECT;
+}>;
+
+/** A template as shown in the gallery; the creator's user ID stays private */
+function toTemplateSummary(row: TemplateRow, userId: string) {
+  const { creatorId, creator, parameters, ...rest } = row;
+  return {
+    ...rest,
+    parameters: parameters as unknown as TaskTemplateParameter[],
+    creator: creator.twitterUsername ? `@${creator.twitterUsername}` : null,
+    createdByYou: creatorId === userId,
+  };
+}
+
+export type TaskTemplateSummary = ReturnType<typeof toTemplateSummary>;
+
+/** Whether the user owns an agent in the corporation */
+async function ownsCorporationAgent(
+  userId: string,
+  corporationId: string,
+): Promise<boolean> {
+  const agent = await prisma.agent.findFirst({
+    where: { corporationId, createdById: userId },
+    select: { id: true },
+  });
+  return !!agent;
+}
+
+/** Templates the user can see: their own, public ones, and their corporations' */
+function visibleTo(userId: string): Prisma.TaskTemplateWhereInput {
+  return {
+    OR: [
+      { creatorId: userId },
+      { visibility: "public" },
+      {
+        visibility: "corporation",
+        corporation: { agents: { some: { createdById: userId } } },
+      },
+    ],
+  };
+}
+
+/**
+ * Create a template. Placeholders without a declared parameter become
+ * required text parameters.
+ */
+export async function createTaskTemplate(
+  userId: string,
+  input: TaskTemplateInput,
+): Promise<TemplateResult<{ templateId: string }> | TemplateError> {
+  const invalid = validateTaskTemplate(input);
+  if (invalid) return { ok: false, error: invalid };
+
+  const visibility = input.visibility ?? "private";
+  if (
+    visibility === "corporation" &&
+    !(await ownsCorporationAgent(userId, input.corporationId!))
+  ) {
+    return {
+      ok: false,
+      error:
+        "You can only share templates with a corporation you have an agent in",
+    };
+  }
+
+  const count = await prisma.taskTemplate.count({
+    where: { creatorId: userId },
+  });
+  if (count >= MAX_TEMPLATES_PER_USER) {
+    return {
+      ok: false,
+      error: `Maximum ${MAX_TEMPLATES_PER_USER} templates reached`,
+    };
+  }
+
+  const triggerMode = input.triggerMode ?? "interval";
+  const isCron = triggerMode === "cron";
+  const template = await prisma.taskTemplate.create({
+    data: {
+      name: input.name.trim(),
+      description: input.description?.trim() || null,
+      taskPrompt: input.taskPrompt,
+      parameters: resolveTemplateParameters(
+        input.name,
+        input.taskPrompt,
+        input.parameters,
+      ) as unknown as Prisma.InputJsonValue,
+      enabledToolGroups: input.enabledToolGroups ?? [],
+      enabledSkills: input.enabledSkills ?? [],
+      triggerMode,
+      intervalMs:
+        isCron || triggerMode === "event" ? null : (input.intervalMs ?? null),
+      cronExpression: isCron ? input.cronExpression!.trim() : null,
+      timezone: isCron ? (input.timezone ?? null) : null,
+      model: input.model ?? null,
+      visibility,
+      corporationId: visibility === "corporation" ? input.corporationId : null,
+      creatorId: userId,
+    },
+    select: { id: true },
+  });
+
+  return { ok: true, templateId: template.id };
+}
+
+/**
+ * A task's settings as template input, for saving an existing task as a
+ * template. Null if the user doesn't own the task.
+ */
+export async function taskToTemplateInput(
+  userId: string,
+  taskId: string,
+): Promise<TaskTemplateInput | null> {
+  const task = await prisma.agentTask.findFirst({
+    where: { id: taskId, userId },
+    select: {
+      name: true,
+      description: true,
+      taskPrompt: true,
+      enabledToolGroups: true,
+      enabledSkills: true,
+      triggerMode: true,
+      intervalMs: true,
+      cronExpression: true,
+      timezone: true,
+      model: true,
+    },
+  });
+  if (!task) return null;
+
+  return {
+    name: task.name,
+    description:
+      task.description && task.description !== task.taskPrompt
+        ? task.description
+        : undefined,
+    taskPrompt: task.taskPrompt,
+    enabledToolGroups: task.enabledToolGroups,
+    enabledSkills: task.enabledSkills,
+    triggerMode: task.triggerMode as TaskTemplateInput["triggerMode"],
+    intervalMs: task.intervalMs || undefined,
+    cronExpression: task.cronExpression ?? undefined,
+    timezone: task.timezone ?? undefined,
+    model: task.model ?? undefined,
+  };
+}
+
+/**
+ * Templates for the gallery, most installed first. "mine" lists only the
+ * user's own templates, whatever their visibility.
+ */
+export async function listTaskTemplates(
+  userId: string,
+  options: { scope?: "gallery" | "mine"; query?: string } = {},
+): Promise<TaskTemplateSummary[]> {
+  const query = options.query?.trim().slice(0, 100);
+  const rows = await prisma.taskTemplate.findMany({
+    where: {
+      AND: [
+        options.scope === "mine" ? { creatorId: userId } : visibleTo(userId),
+        query
+          ? {
+              OR: [
+                { name: { contains: query, mode: "insensitive" as const } },
+                {
+                  description: {
+                    contains: query,
+                    mode: "insensitive" as const,
+                  },
+                },
+              ],
+            }
+          : {},
+      ],
+    },
+    orderBy: [
+      { installCount: "desc" as const },
+      { createdAt: "desc" as const },
+    ],
+    take: TEMPLATE_GALLERY_PAGE_SIZE,
+    select: TEMPLATE_SELECT,
+  });
+  return rows.map((row) => toTemplateSummary(row, userId));
+}
+
+/** A template the user can see, or null */
+export async function getTaskTemplate(
+  userId: string,
+  templateId: string,
+): Promise<TaskTemplateSummary | null> {
+  const row = await prisma.taskTemplate.findFirst({
+    where: { AND: [{ id: templateId }, visibleTo(userId)] },
+    select: TEMPLATE_SELECT,
+  });
+  return row ? toTemplateSummary(row, userId) : null;
+}
+
+/** Publish, unpublish, or re-describe a template the user created */
+export async function updateTaskTemplate(
+  userId: string,
+  templateId: string,
+  changes: {
+    visibility?: TaskTemplateVisibility;
+    corporationId?: string;
+    description?: string;
+  },
+): Promise<TemplateResult<{ template: TaskTemplateSummary }> | TemplateError> {
+  const template = await prisma.taskTemplate.findFirst({
+    where: { id: templateId, creatorId: userId },
+    select: {
+      name: true,
+      taskPrompt: true,
+      triggerMode: true,
+      intervalMs: true,
+      cronExpression: true,
+      timezone: true,
+      visibility: true,
+      corporationId: true,
+    },
+  });
+  if (!template) return { ok: false, error: "Template not found" };
+
+  const visibility = changes.visibility ?? template.visibility;
+  const corporationId =
+    visibility === "corporation"
+      ? (changes.corporationId ?? template.corporationId ?? undefined)
+      : undefined;
+
+  // Check the merged template so a bad visibility can't slip through
+  const invalid = validateTaskTemplate({
+    name: template.name,
+    taskPrompt: template.taskPrompt,
+    triggerMode: template.triggerMode as TaskTemplateInput["triggerMode"],
+    intervalMs: template.intervalMs ?? undefined,
+    cronExpression: template.cronExpression ?? undefined,
+    timezone: template.timezone ?? undefined,
+    description: changes.description,
+    visibility: visibility as TaskTemplateVisibility,
+    corporationId,
+  });
+  if (invalid) return { ok: false, error: invalid };
+
+  if (
+    corporationId &&
+    corporationId !== template.corporationId &&
+    !(await ownsCorporationAgent(userId, corporationId))
+  ) {
+    return {
+      ok: false,
+      error:
+        "You can only share templates with a corporation you have an agent in",
+    };
+  }
+
+  const row = await prisma.taskTemplate.update({
+    where: { id: templateId },
+    data: {
+      visibility,
+      corporationId: corporationId ?? null,
+      ...(changes.description !== undefined && {
+        description: changes.description.trim() || null,
+      }),
+    },
+    select: TEMPLATE_SELECT,
+  });
+  return { ok: true, template: toTemplateSummary(row, userId) };
+}
+
+/**
+ * Fill a template the user can see with their values. The result is a
+ * task definition; the caller creates the task, then calls
+ * recordTemplateInstall.
+ */
+export async function resolveTaskTemplate(
+  userId: string,
+  templateId: string,
+  values: Record<string, unknown> = {},
+): Promise<TemplateResult<{ resolved: ResolvedTaskTemplate }> | TemplateError> {
+  const template = await prisma.taskTemplate.findFirst({
+    where: { AND: [{ id: templateId }, visibleTo(userId)] },
+    select: {
+      id: true,
+      name: true,
+      taskPrompt: true,
+      parameters: true,
+      enabledToolGroups: true,
+      enabledSkills: true,
+      triggerMode: true,
+      intervalMs: true,
+      cronExpression: true,
+      timezone: true,
+      model: true,
+    },
+  });
+  if (!template) return { ok: false, error: "Template not found" };
+
+  const filled = fillTaskTemplate(
+    {
+      name: template.name,
+      taskPrompt: template.taskPrompt,
+      parameters: template.parameters as unknown as TaskTemplateParameter[],
+    },
+    values,
+  );
+  if (!filled.ok) return filled;
+
+  return {
+    ok: true,
+    resolved: {
+      templateId: template.id,
+      name: filled.name,
+      taskPrompt: filled.taskPrompt,
+      enabledToolGroups: template.enabledToolGroups,
+      enabledSkills: template.enabledSkills,
+      triggerMode: template.triggerMode,
+      intervalMs: template.intervalMs ?? 0,
+      cronExpression: template.cronExpression,
+      timezone: template.timezone,
+      model: template.model,
+    },
+  };
+}
+
+/** Count a task created from the template */
+export async function recordTemplateInstall(templateId: string): Promise<void> {
+  await prisma.taskTemplate.update({
+    where: { id: templateId },
+    data: { installCount: { increment: 1 } },
+  });
+}
@@ -0,0 +1,46 @@
+import type { TriggerAdapter } from "./types";
+import { safeEqual } from "./signatures";
+
+/**
+ * The original trigger format: the webhookSecret as a Bearer token and a
+ * body already shaped as an event. Suits bots, Zapier, and scripts.
+ */
+export const bearerAdapter: TriggerAdapter = {
+  id: "bearer",
+
+  verify(req, secret) {
+    const authHeader = req.headers.get("authorization") ?? "";
+    const provided = authHeader.startsWith("Bearer ")
+      ? authHeader.slice(7).trim()
+      : "";
+    if (!provided) return "Authorization header with Bearer token required";
+    return safeEqual(provided, secret) ? null : "Invalid webhook secret";
+  },
+
+  normalize(req) {
+    // A missing or non-JSON body is a plain ping trigger
+    const body = (req.body && typeof req.body === "object" ? req.body : {}) as {
+      source?: unknown;
+      eventType?: unknown;
+      payload?: Record<string, unknown>;
+      summary?: unknown;
+      occurredAt?: unknown;
+    };
+    const summary = typeof body.summary === "string" ? body.summary : undefined;
+
+    return {
+      event: {
+        source: String(body.source ?? "custom"),
+        eventType: String(body.eventType ?? "trigger"),
+        payload:
+          body.payload && typeof body.payload === "object"
+            ? body.payload
+            : undefined,
+        summary,
+        occurredAt:
+          typeof body.occurredAt === "string" ? body.occurredAt : undefined,
+      },
+      text: summary,
+    };
+  },
+};
@@ -0,0 +1,132 @@
+import type { TriggerAdapter } from "./types";
+import { clip, isFreshTimestamp, verifyEd25519 } from "./signatures";
+
+// Interaction and callback types from the Discord API
+const PING = 1;
+const APPLICATION_COMMAND = 2;
+const MESSAGE_COMPONENT = 3;
+const PONG = 1;
+const CHANNEL_MESSAGE_WITH_SOURCE = 4;
+const DEFERRED_UPDATE_MESSAGE = 6;
+const EPHEMERAL = 1 << 6;
+
+interface DiscordOption {
+  name?: string;
+  value?: unknown;
+  options?: DiscordOption[];
+}
+
+interface DiscordInteraction {
+  type?: number;
+  guild_id?: string;
+  channel_id?: string;
+  member?: { user?: { username?: string } };
+  user?: { username?: string };
+  data?: {
+    name?: string;
+    custom_id?: string;
+    target_id?: string;
+    options?: DiscordOption[];
+    resolved?: { messages?: Record<string, { content?: string }> };
+  };
+}
+
+/** Flatten slash-command options, including subcommands */
+function flattenOptions(
+  options: DiscordOption[] = [],
+  path: string[] = [],
+): Array<{ name: string; value: unknown }> {
+  return options.flatMap((o) =>
+    o.options
+      ? flattenOptions(o.options, [...path, o.name ?? ""])
+      : [{ name: [...path, o.name].join(" "), value: o.value }],
+  );
+}
+
+/**
+ * Discord application interactions (slash commands, context menu commands,
+ * and buttons). Set the app's Interactions Endpoint URL to the trigger URL
+ * and the adapter's publicKey option to the app's public key.
+ *
+ * Event types are "command.<name>" and "component.<custom_id>".
+ */
+export const discordAdapter: TriggerAdapter = {
+  id: "discord",
+
+  verify(req, _secret, options) {
+    if (!options.publicKey) return "Discord public key is not configured";
+    const signature = req.headers.get("x-signature-ed25519");
+    const timestamp = req.headers.get("x-signature-timestamp");
+    if (!signature || !timestamp) return "Missing Discord signature headers";
+    if (!isFreshTimestamp(timestamp)) return "Stale Discord timestamp";
+    return verifyEd25519(options.publicKey, timestamp + req.rawBody, signature)
+      ? null
+      : "Invalid signature";
+  },
+
+  normalize(req) {
+    const interaction = (req.body ?? {}) as DiscordInteraction;
+
+    // Discord checks the endpoint with a ping before saving it
+    if (interaction.type === PING) return { response: { type: PONG } };
+
+    const user =
+      interaction.member?.user?.username ??
+      interaction.user?.username ??
+      "someone";
+    const data = interaction.data ?? {};
+    const base = {
+      user,
+      guildId: interaction.guild_id,
+      channelId: interaction.channel_id,
+    };
+
+    if (interaction.type === APPLICATION_COMMAND) {
+      const options = flattenOptions(data.options);
+      // Message context-menu commands target a message
+      const target = data.target_id
+        ? data.resolved?.messages?.[data.target_id]?.content
+        : undefined;
+      const text = [...options.map((o) => String(o.value ?? "")), target]
+        .filter(Boolean)
+        .join("\n");
+      const args = options.map((o) => `${o.name}: ${o.value}`).join(", ");
+
+      return {
+        event: {
+          source: "discord",
+          eventType: `command.${data.name}`,
+          summary: `${user} used /${data.name}${args ? ` (${args})` : ""}`,
+          payload: {
+            ...base,
+            command: data.name,
+            options: Object.fromEntries(options.map((o) => [o.name, o.value])),
+            targetMessage: clip(target),
+          },
+          occurredAt: new Date().toISOString(),
+        },
+        text,
+        response: {
+          type: CHANNEL_MESSAGE_WITH_SOURCE,
+          data: { content: "Got it — working on it.", flags: EPHEMERAL },
+        },
+      };
+    }
+
+    if (interaction.type === MESSAGE_COMPONENT) {
+      return {
+        event: {
+          source: "discord",
+          eventType: `component.${data.custom_id}`,
+          summary: `${user} clicked ${data.custom_id}`,
+          payload: { ...base, customId: data.custom_id },
+          occurredAt: new Date().toISOString(),
+        },
+        response: { type: DEFERRED_UPDATE_MESSAGE },
+      };
+    }
+
+    // Autocomplete, modals, etc. aren't task events
+    return {};
+  },
+};
@@ -0,0 +1,115 @@
+import {
+  MAX_TRIGGER_FILTER_ENTRIES,
+  MAX_TRIGGER_FILTER_VALUE_LENGTH,
+  TRIGGER_ADAPTER_IDS,
+  type TaskTriggerConfig,
+  type TaskTriggerEvent,
+  type TriggerFilter,
+} from "../constants";
+
+/** Match an event type against a pattern with an optional "*" suffix */
+function matchesEventType(eventType: string, pattern: string): boolean {
+  return pattern.endsWith("*")
+    ? eventType.startsWith(pattern.slice(0, -1))
+    : eventType === pattern;
+}
+
+/**
+ * Check a normalized event against a task's filter. Returns why it was
+ * filtered out, or null when it should wake the task.
+ */
+export function matchTriggerFilter(
+  filter: TriggerFilter | undefined,
+  event: TaskTriggerEvent,
+  text: string | undefined,
+): string | null {
+  if (
+    filter?.eventTypes?.length &&
+    !filter.eventTypes.some((p) => matchesEventType(event.eventType, p))
+  ) {
+    return `Event type "${event.eventType}" is not in the task's filter`;
+  }
+
+  if (filter?.mentions?.length) {
+    const haystack = (text ?? "").toLowerCase();
+    if (!filter.mentions.some((m) => haystack.includes(m.toLowerCase()))) {
+      return "Event doesn't mention any of the task's filter terms";
+    }
+  }
+
+  return null;
+}
+
+function validateStringList(value: unknown, field: string): string | null {
+  if (value === undefined) return null;
+  if (!Array.isArray(value) || value.length > MAX_TRIGGER_FILTER_ENTRIES) {
+    return `${field} must be an array of at most ${MAX_TRIGGER_FILTER_ENTRIES} strings`;
+  }
+  for (const entry of value) {
+    if (
+      typeof entry !== "string" ||
+      !entry.trim() ||
+      entry.length > MAX_TRIGGER_FILTER_VALUE_LENGTH
+    ) {
+      return `${field} entries must be non-empty strings (max ${MAX_TRIGGER_FILTER_VALUE_LENGTH} characters)`;
+    }
+  }
+  return null;
+}
+
+const OPTION_VALUES: Record<string, readonly string[]> = {
+  algorithm: ["sha1", "sha256", "sha512"],
+  encoding: ["hex", "base64"],
+};
+
+/**
+ * Check a trigger adapter and its config from user input. Returns an error
+ * message, or null when valid.
+ */
+export function validateTriggerSettings(
+  adapter: unknown,
+  config: unknown,
+): string | null {
+  if (
+    typeof adapter !== "string" ||
+    !(TRIGGER_ADAPTER_IDS as readonly string[]).includes(adapter)
+  ) {
+    return `triggerAdapter must be one of: ${TRIGGER_ADAPTER_IDS.join(", ")}`;
+  }
+  if (config === undefined || config === null) {
+    return adapter === "discord"
+      ? "The discord adapter needs triggerConfig.options.publicKey"
+      : null;
+  }
+  if (typeof config !== "object" || Array.isArray(config)) {
+    return "triggerConfig must be an object";
+  }
+
+  const { options = {}, filter = {} } = config as TaskTriggerConfig;
+  if (typeof options !== "object" || typeof filter !== "object") {
+    return "triggerConfig.options and triggerConfig.filter must be objects";
+  }
+
+  for (const [key, value] of Object.entries(options)) {
+    if (
+      typeof value !== "string" ||
+      value.length > MAX_TRIGGER_FILTER_VALUE_LENGTH
+    ) {
+      return `triggerConfig.options.${key} must be a string (max ${MAX_TRIGGER_FILTER_VALUE_LENGTH} characters)`;
+    }
+    if (OPTION_VALUES[key] && !OPTION_VALUES[key].includes(value)) {
+      return `triggerConfig.options.${key} must be one of: ${OPTION_VALUES[key].join(", ")}`;
+    }
+  }
+  if (
+    adapter === "discord" &&
+    !/^[0-9a-f]{64}$/i.test(options.publicKey ?? "")
+  ) {
+    return "The discord adapter needs triggerConfig.options.publicKey (64 hex characters)";
+  }
+
+  return (
+    validateStringList(filter.eventTypes, "triggerConfig.filter.eventTypes") ??
+    validateStringList(filter.mentions, "triggerConfig.filter.mentions")
+  );
+}
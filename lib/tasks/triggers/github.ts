@@ -0,0 +1,136 @@
+import type { TriggerAdapter } from "./types";
+import { clip, hmacDigest, safeEqual } from "./signatures";
+
+interface GitHubUser {
+  login?: string;
+}
+
+interface GitHubPayload {
+  action?: string;
+  repository?: { full_name?: string; html_url?: string };
+  sender?: GitHubUser;
+  issue?: {
+    number?: number;
+    title?: string;
+    body?: string | null;
+    html_url?: string;
+    labels?: Array<{ name?: string }>;
+  };
+  pull_request?: {
+    number?: number;
+    title?: string;
+    body?: string | null;
+    html_url?: string;
+    merged?: boolean;
+    head?: { ref?: string };
+    base?: { ref?: string };
+  };
+  comment?: { body?: string; html_url?: string };
+  review?: { state?: string; body?: string | null; html_url?: string };
+  release?: { tag_name?: string; name?: string | null; html_url?: string };
+  ref?: string;
+  compare?: string;
+  commits?: Array<{ message?: string }>;
+  workflow_run?: {
+    name?: string;
+    conclusion?: string | null;
+    html_url?: string;
+  };
+}
+
+/**
+ * GitHub repository and organization webhooks. Set the webhook's secret to
+ * the task's webhookSecret and its content type to application/json.
+ *
+ * Event types are "<X-GitHub-Event>.<action>" (e.g. "issues.opened"), or
+ * just the event name when it has no action (e.g. "push").
+ */
+export const githubAdapter: TriggerAdapter = {
+  id: "github",
+
+  verify(req, secret) {
+    const provided = req.headers.get("x-hub-signature-256");
+    if (!provided) return "Missing X-Hub-Signature-256 header";
+    const expected = `sha256=${hmacDigest("sha256", secret, req.rawBody)}`;
+    return safeEqual(provided, expected) ? null : "Invalid signature";
+  },
+
+  normalize(req) {
+    const event = req.headers.get("x-github-event") ?? "unknown";
+    const body = (req.body ?? {}) as GitHubPayload;
+
+    // Sent once when the webhook is created
+    if (event === "ping") return { response: { ok: true } };
+
+    const repo = body.repository?.full_name ?? "a repository";
+    const actor = body.sender?.login ?? "someone";
+    const eventType = body.action ? `${event}.${body.action}` : event;
+    const { issue, pull_request: pr, comment, review, release } = body;
+
+    let summary: string;
+    let text: string | undefined;
+    let url: string | undefined;
+    switch (event) {
+      case "issues":
+        summary = `${actor} ${body.action} issue #${issue?.number} in ${repo}: ${issue?.title}`;
+        text = [issue?.title, issue?.body].filter(Boolean).join("\n\n");
+        url = issue?.html_url;
+        break;
+      case "issue_comment":
+        summary = `${actor} commented on #${issue?.number} in ${repo} (${issue?.title})`;
+        text = comment?.body;
+        url = comment?.html_url;
+        break;
+      case "pull_request":
+        summary = `${actor} ${body.action === "closed" && pr?.merged ? "merged" : body.action} pull request #${pr?.number} in ${repo}: ${pr?.title}`;
+        text = [pr?.title, pr?.body].filter(Boolean).join("\n\n");
+        url = pr?.html_url;
+        break;
+      case "pull_request_review":
+        summary = `${actor} reviewed pull request #${pr?.number} in ${repo} (${review?.state})`;
+        text = review?.body ?? undefined;
+        url = review?.html_url;
+        break;
+      case "push": {
+        const count = body.commits?.length ?? 0;
+        const branch = body.ref?.replace("refs/heads/", "");
+        summary = `${actor} pushed ${count} commit${count !== 1 ? "s" : ""} to ${repo}@${branch}`;
+        text = body.commits?.map((c) => c.message).join("\n");
+        url = body.compare;
+        break;
+      }
+      case "release":
+        summary = `${actor} ${body.action} release ${release?.name || release?.tag_name} in ${repo}`;
+        url = release?.html_url;
+        break;
+      case "workflow_run":
+        summary = `Workflow "${body.workflow_run?.name}" ${body.action} in ${repo}${body.workflow_run?.conclusion ? ` (${body.workflow_run.conclusion})` : ""}`;
+        url = body.workflow_run?.html_url;
+        break;
+      default:
+        summary = `GitHub ${eventType.replace(".", " ")} in ${repo} by ${actor}`;
+    }
+
+    // A compact payload — full GitHub payloads are too large for a prompt
+    return {
+      event: {
+        source: "github",
+        eventType,
+        summary,
+        payload: {
+          repository: body.repository?.full_name,
+          sender: body.sender?.login,
+          action: body.action,
+          number: issue?.number ?? pr?.number,
+          title: issue?.title ?? pr?.title,
+          labels: issue?.labels?.map((l) => l.name),
+          ref: body.ref,
+          url: url ?? body.repository?.html_url,
+          text: clip(text),
+        },
+        occurredAt: new Date().toISOString(),
+      },
+      text,
+    };
+  },
+};
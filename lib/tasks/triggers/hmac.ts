@@ -0,0 +1,67 @@
+import type { TriggerAdapter } from "./types";
+import { hmacDigest, isFreshTimestamp, safeEqual } from "./signatures";
+
+/**
+ * Any provider that signs the raw body with a shared secret. The signature
+ * header, digest, and encoding are configurable; an "<algorithm>=" prefix
+ * on the signature (as GitHub and others send) is accepted. With a
+ * timestamp header, "<timestamp>.<body>" is signed and stale requests fail.
+ */
+export const hmacAdapter: TriggerAdapter = {
+  id: "hmac",
+
+  verify(req, secret, options) {
+    const algorithm = options.algorithm ?? "sha256";
+    const header = options.signatureHeader ?? "x-signature";
+    const provided = req.headers.get(header)?.trim();
+    if (!provided) return `Missing ${header} header`;
+
+    let signed = req.rawBody;
+    if (options.timestampHeader) {
+      const timestamp = req.headers.get(options.timestampHeader);
+      if (!timestamp || !isFreshTimestamp(timestamp)) {
+        return `Missing or stale ${options.timestampHeader} header`;
+      }
+      signed = `${timestamp}.${req.rawBody}`;
+    }
+
+    const expected = hmacDigest(
+      algorithm,
+      secret,
+      signed,
+      options.encoding ?? "hex",
+    );
+    const signature = provided.startsWith(`${algorithm}=`)
+      ? provided.slice(algorithm.length + 1)
+      : provided;
+    return safeEqual(signature, expected) ? null : "Invalid signature";
+  },
+
+  normalize(req, options) {
+    const body = (
+      req.body && typeof req.body === "object" && !Array.isArray(req.body)
+        ? req.body
+        : { body: req.rawBody }
+    ) as Record<string, unknown>;
+
+    // Common places providers put the event name
+    const eventType = [body.eventType, body.type, body.event, body.action].find(
+      (v): v is string => typeof v === "string" && v.length > 0,
+    );
+    const summary = typeof body.summary === "string" ? body.summary : undefined;
+
+    return {
+      event: {
+        source: options.source ?? "webhook",
+        eventType: eventType ?? "webhook",
+        payload: body,
+        summary,
+      },
+      text:
+        summary ??
+        [body.text, body.message, body.content].find(
+          (v): v is string => typeof v === "string",
+        ),
+    };
+  },
+};
@@ -0,0 +1,38 @@
+/**
+ * Task Trigger Adapters
+ *
+ * Each adapter verifies one provider's webhook signature and normalizes its
+ * payload into a task event with a summary for the agent. The task's filter
+ * then decides whether the event wakes the workflow.
+ *
+ * To support a new provider, implement TriggerAdapter, add its ID to
+ * TRIGGER_ADAPTER_IDS, and register it below.
+ */
+
+import type { TriggerAdapterId } from "../constants";
+import type { TriggerAdapter } from "./types";
+import { bearerAdapter } from "./bearer";
+import { githubAdapter } from "./github";
+import { discordAdapter } from "./discord";
+import { telegramAdapter } from "./telegram";
+import { hmacAdapter } from "./hmac";
+
+export type {
+  TriggerAdapter,
+  TriggerRequest,
+  NormalizedTrigger,
+} from "./types";
+export { matchTriggerFilter, validateTriggerSettings } from "./filter";
+
+const TRIGGER_ADAPTERS: Record<TriggerAdapterId, TriggerAdapter> = {
+  bearer: bearerAdapter,
+  github: githubAdapter,
+  discord: discordAdapter,
+  telegram: telegramAdapter,
+  hmac: hmacAdapter,
+};
+
+/** The adapter for a task, falling back to bearer for unknown IDs */
+export function getTriggerAdapter(id: string): TriggerAdapter {
+  return TRIGGER_ADAPTERS[id as TriggerAdapterId] ?? bearerAdapter;
+}
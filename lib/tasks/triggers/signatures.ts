@@ -0,0 +1,73 @@
+import {
+  createHmac,
+  createPublicKey,
+  timingSafeEqual,
+  verify as verifySignature,
+} from "crypto";
+
+import {
+  MAX_TRIGGER_TEXT_LENGTH,
+  TRIGGER_SIGNATURE_TOLERANCE_SECONDS,
+} from "../constants";
+
+/** Compare two secrets without leaking where they differ */
+export function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+export function hmacDigest(
+  algorithm: "sha1" | "sha256" | "sha512",
+  secret: string,
+  data: string,
+  encoding: "hex" | "base64" = "hex",
+): string {
+  return createHmac(algorithm, secret).update(data, "utf8").digest(encoding);
+}
+
+/** Whether a signed Unix timestamp (seconds) is recent enough to accept */
+export function isFreshTimestamp(timestamp: string): boolean {
+  const seconds = Number(timestamp);
+  return (
+    Number.isFinite(seconds) &&
+    Math.abs(Date.now() / 1000 - seconds) <= TRIGGER_SIGNATURE_TOLERANCE_SECONDS
+  );
+}
+
+// DER prefix that wraps a raw 32-byte Ed25519 key as SubjectPublicKeyInfo
+const ED25519_SPKI_PREFIX = Buffer.from("302a300506032b6570032100", "hex");
+
+/** Verify an Ed25519 signature with a hex-encoded raw public key */
+export function verifyEd25519(
+  publicKeyHex: string,
+  message: string,
+  signatureHex: string,
+): boolean {
+  try {
+    const key = createPublicKey({
+      key: Buffer.concat([
+        ED25519_SPKI_PREFIX,
+        Buffer.from(publicKeyHex, "hex"),
+      ]),
+      format: "der",
+      type: "spki",
+    });
+    return verifySignature(
+      null,
+      Buffer.from(message, "utf8"),
+      key,
+      Buffer.from(signatureHex, "hex"),
+    );
+  } catch {
+    return false;
+  }
+}
+
+/** Cut provider text before it goes into a payload or prompt */
+export function clip(text: unknown): string | undefined {
+  if (typeof text !== "string" || !text) return undefined;
+  return text.length > MAX_TRIGGER_TEXT_LENGTH
+    ? `${text.slice(0, MAX_TRIGGER_TEXT_LENGTH)}...`
+    : text;
+}
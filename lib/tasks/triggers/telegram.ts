@@ -0,0 +1,100 @@
+import type { TriggerAdapter } from "./types";
+import { clip, safeEqual } from "./signatures";
+
+interface TelegramMessage {
+  message_id?: number;
+  date?: number;
+  text?: string;
+  caption?: string;
+  from?: { username?: string; first_name?: string };
+  chat?: { id?: number; type?: string; title?: string; username?: string };
+}
+
+interface TelegramUpdate {
+  update_id?: number;
+  message?: TelegramMessage;
+  edited_message?: TelegramMessage;
+  channel_post?: TelegramMessage;
+  callback_query?: {
+    data?: string;
+    from?: { username?: string; first_name?: string };
+    message?: TelegramMessage;
+  };
+}
+
+const MESSAGE_KINDS = ["message", "edited_message", "channel_post"] as const;
+
+/**
+ * Telegram bot updates. Register the webhook with setWebhook, passing the
+ * trigger URL and the task's webhookSecret as secret_token.
+ *
+ * Event types are the update kind: "message", "edited_message",
+ * "channel_post", or "callback_query".
+ */
+export const telegramAdapter: TriggerAdapter = {
+  id: "telegram",
+
+  verify(req, secret) {
+    const provided = req.headers.get("x-telegram-bot-api-secret-token");
+    if (!provided) return "Missing X-Telegram-Bot-Api-Secret-Token header";
+    return safeEqual(provided, secret) ? null : "Invalid secret token";
+  },
+
+  normalize(req) {
+    const update = (req.body ?? {}) as TelegramUpdate;
+
+    const kind = MESSAGE_KINDS.find((k) => update[k]);
+    if (kind) {
+      const message = update[kind]!;
+      const text = message.text ?? message.caption;
+      const from =
+        message.from?.username ?? message.from?.first_name ?? "someone";
+      const where =
+        message.chat?.type === "private"
+          ? "a direct message"
+          : `"${message.chat?.title ?? message.chat?.username}"`;
+
+      return {
+        event: {
+          source: "telegram",
+          eventType: kind,
+          summary: `${from} in ${where}: ${clip(text) ?? "(no text)"}`,
+          payload: {
+            updateId: update.update_id,
+            messageId: message.message_id,
+            chatId: message.chat?.id,
+            chatType: message.chat?.type,
+            from,
+            text: clip(text),
+          },
+          occurredAt: message.date
+            ? new Date(message.date * 1000).toISOString()
+            : undefined,
+        },
+        text,
+      };
+    }
+
+    if (update.callback_query) {
+      const query = update.callback_query;
+      const from = query.from?.username ?? query.from?.first_name ?? "someone";
+      return {
+        event: {
+          source: "telegram",
+          eventType: "callback_query",
+          summary: `${from} pressed a button (${query.data})`,
+          payload: {
+            updateId: update.update_id,
+            chatId: query.message?.chat?.id,
+            from,
+            data: query.data,
+          },
+        },
+        text: query.data,
+      };
+    }
+
+    // Other update kinds (polls, member changes, ...) aren't task events
+    return {};
+  },
+};
@@ -0,0 +1,42 @@
+import type {
+  TaskTriggerEvent,
+  TriggerAdapterId,
+  TriggerAdapterOptions,
+} from "../constants";
+
+/** An incoming webhook, as adapters see it */
+export interface TriggerRequest {
+  headers: Headers;
+  /** The exact bytes the provider signed */
+  rawBody: string;
+  /** rawBody parsed as JSON, or null when it isn't JSON */
+  body: unknown;
+}
+
+/** What a webhook means for the task */
+export interface NormalizedTrigger {
+  /** The event to wake the task with; absent for handshakes and pings */
+  event?: TaskTriggerEvent;
+  /** Text that `mentions` filters match against (message, comment, ...) */
+  text?: string;
+  /** Body the provider expects back, instead of the default JSON reply */
+  response?: unknown;
+}
+
+/**
+ * Turns a provider's webhooks into task events. verify() runs first; only
+ * verified requests are normalized.
+ */
+export interface TriggerAdapter {
+  id: TriggerAdapterId;
+  /** Returns an error message, or null when the request is authentic */
+  verify(
+    req: TriggerRequest,
+    secret: string,
+    options: TriggerAdapterOptions,
+  ): string | null;
+  normalize(
+    req: TriggerRequest,
+    options: TriggerAdapterOptions,
+  ): NormalizedTrigger;
+}
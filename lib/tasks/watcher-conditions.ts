@@ -0,0 +1,183 @@
+/**
+ * Watcher Conditions
+ *
+ * Validation and evaluation for on-chain watchers that don't need the
+ * network: checking a definition, describing it, and deciding whether a
+ * price observation matches.
+ */
+
+import { isValidPublicKey } from "@/lib/utils/validation";
+
+import {
+  TASK_WATCHER_TYPES,
+  type PriceWatcherConfig,
+  type TaskWatcherDefinition,
+  type TaskWatcherState,
+} from "./constants";
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+/**
+ * Check a watcher definition from user or tool input. Returns an error
+ * message, or null when valid.
+ */
+export function validateWatcherDefinition(input: unknown): string | null {
+  if (!input || typeof input !== "object") {
+    return "A watcher needs a type and a config";
+  }
+  const { type, config } = input as { type?: unknown; config?: unknown };
+  if (
+    typeof type !== "string" ||
+    !(TASK_WATCHER_TYPES as readonly string[]).includes(type)
+  ) {
+    return `Watcher type must be one of: ${TASK_WATCHER_TYPES.join(", ")}`;
+  }
+  if (!config || typeof config !== "object") {
+    return "Watcher config must be an object";
+  }
+
+  const c = config as Record<string, unknown>;
+  if (c.mint !== undefined || type !== "transfer") {
+    if (typeof c.mint !== "string" || !isValidPublicKey(c.mint)) {
+      return "config.mint must be a valid token mint address";
+    }
+  }
+  if (
+    c.minAmount !== undefined &&
+    !(isPositiveNumber(c.minAmount) || c.minAmount === 0)
+  ) {
+    return "config.minAmount must be a non-negative number";
+  }
+
+  switch (type) {
+    case "transfer":
+      if (typeof c.address !== "string" || !isValidPublicKey(c.address)) {
+        return "config.address must be a valid Solana address";
+      }
+      return null;
+    case "price": {
+      const { above, below, changePercent } = c;
+      if (
+        above === undefined &&
+        below === undefined &&
+        changePercent === undefined
+      ) {
+        return "A price watcher needs above, below, or changePercent";
+      }
+      if (above !== undefined && !isPositiveNumber(above)) {
+        return "config.above must be a positive price";
+      }
+      if (below !== undefined && !isPositiveNumber(below)) {
+        return "config.below must be a positive price";
+      }
+      if (
+        changePercent !== undefined &&
+        (typeof changePercent !== "number" ||
+          !Number.isFinite(changePercent) ||
+          changePercent === 0 ||
+          changePercent <= -100)
+      ) {
+        return "config.changePercent must be a non-zero percentage above -100 (e.g. -10 for a 10% drop)";
+      }
+      return null;
+    }
+    default:
+      return null;
+  }
+}
+
+/** A stored watcher row as a definition (validated when it was created) */
+export function toWatcherDefinition(row: {
+  type: string;
+  config: unknown;
+}): TaskWatcherDefinition {
+  return { type: row.type, config: row.config } as TaskWatcherDefinition;
+}
+
+/** One-line description for lists and tool results */
+export function describeWatcher(watcher: TaskWatcherDefinition): string {
+  const short = (address: string) =>
+    `${address.slice(0, 4)}…${address.slice(-4)}`;
+
+  switch (watcher.type) {
+    case "transfer": {
+      const { address, mint, minAmount } = watcher.config;
+      const asset = mint ? `token ${short(mint)}` : "SOL";
+      return `${asset} received by ${short(address)}${minAmount ? ` (at least ${minAmount})` : ""}`;
+    }
+    case "price": {
+      const { mint, above, below, changePercent } = watcher.config;
+      const conditions = [
+        above !== undefined ? `rises above $${above}` : null,
+        below !== undefined ? `falls below $${below}` : null,
+        changePercent !== undefined
+          ? `${changePercent > 0 ? "rises" : "drops"} ${Math.abs(changePercent)}%`
+          : null,
+      ].filter(Boolean);
+      return `Price of ${short(mint)} ${conditions.join(" or ")}`;
+    }
+    case "new_holder": {
+      const { mint, minAmount } = watcher.config;
+      return `New holder of ${short(mint)}${minAmount ? ` (at least ${minAmount})` : ""}`;
+    }
+  }
+}
+
+/** A price condition that matched, for the event payload */
+export interface PriceMatch {
+  condition: "above" | "below" | "change";
+  threshold: number;
+}
+
+/**
+ * Compare a new price against a price watcher. Crossings fire once, when
+ * the price moves from one side of the threshold to the other; the first
+ * observation only sets the baseline. A percentage move fires against the
+ * baseline, which then resets to the current price.
+ */
+export function evaluatePriceWatcher(
+  config: PriceWatcherConfig,
+  price: number,
+  state: TaskWatcherState,
+): { matches: PriceMatch[]; state: TaskWatcherState } {
+  const { lastPrice, baselinePrice } = state;
+  if (lastPrice === undefined || baselinePrice === undefined) {
+    return { matches: [], state: { lastPrice: price, baselinePrice: price } };
+  }
+
+  const matches: PriceMatch[] = [];
+  if (
+    config.above !== undefined &&
+    lastPrice <= config.above &&
+    price > config.above
+  ) {
+    matches.push({ condition: "above", threshold: config.above });
+  }
+  if (
+    config.below !== undefined &&
+    lastPrice >= config.below &&
+    price < config.below
+  ) {
+    matches.push({ condition: "below", threshold: config.below });
+  }
+
+  let nextBaseline = baselinePrice;
+  if (config.changePercent !== undefined) {
+    const change = ((price - baselinePrice) / baselinePrice) * 100;
+    const hit =
+      config.changePercent > 0
+        ? change >= config.changePercent
+        : change <= config.changePercent;
+    if (hit) {
+      matches.push({ condition: "change", threshold: config.changePercent });
+      nextBaseline = price;
+    }
+  }
+
+  return {
+    matches,
+    state: { lastPrice: price, baselinePrice: nextBaseline },
+  };
+}
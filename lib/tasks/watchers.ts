@@ -0,0 +1,454 @@
+/**
+ * Task Watchers
+ *
+ * On-chain conditions that wake an event-triggered task. The watch-tasks
+ * cron checks each active watcher about once a minute, entirely server-side:
+ * nothing reaches the model until a condition matches, and then the task's
+ * taskEventHook is fired once per check with every match in the payload.
+ *
+ * - transfer: reads new signatures for the address (or its associated token
+ *   account) and compares balances before and after each transaction.
+ * - price: compares the shared lib/prices quote (cached up to 30 minutes)
+ *   against the thresholds; crossings fire once per crossing.
+ * - new_holder: reads new signatures for the mint and reports owners whose
+ *   balance went from zero to positive (account creations and checked
+ *   transfers reference the mint).
+ *
+ * The first check only records a starting point, so history never fires. A
+ * watcher's cursor or price state only advances once its event is delivered.
+ */
+
+import {
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  type ParsedTransactionWithMeta,
+  type TokenBalance,
+} from "@solana/web3.js";
+import { getAssociatedTokenAddressSync } from "@solana/spl-token";
+import prisma from "@/lib/prisma";
+import type { Prisma } from "@/app/generated/prisma/client";
+import { getConnection } from "@/lib/constants/solana";
+import { getTokenPrices } from "@/lib/prices";
+import { taskEventHook } from "@/workflows/tasks/hooks/taskEvent";
+
+import {
+  MAX_MATCHES_PER_EVENT,
+  MAX_SIGNATURES_PER_CHECK,
+  MAX_WATCHERS_PER_TASK,
+  WATCHER_EVENT_SOURCE,
+  WATCHER_POLL_INTERVAL_MS,
+  WATCHERS_PER_CRON_RUN,
+  type NewHolderWatcherConfig,
+  type TaskTriggerEvent,
+  type TaskWatcherDefinition,
+  type TaskWatcherState,
+  type TransferWatcherConfig,
+} from "./constants";
+import {
+  describeWatcher,
+  evaluatePriceWatcher,
+  toWatcherDefinition,
+  validateWatcherDefinition,
+} from "./watcher-conditions";
+
+/** Trigger modes that block on taskEventHook, so a watcher can fire them */
+const EVENT_TRIGGER_MODES = ["event", "event-or-interval"];
+
+type WatcherResult<T> = { ok: true } & T;
+type WatcherError = { ok: false; error: string };
+
+/** Outcome of one cron run */
+export interface WatcherRunReport {
+  checked: number;
+  fired: number;
+  errors: number;
+}
+
+/** What one check found: matches to report, and the state to keep */
+interface WatcherCheck {
+  eventType: string;
+  summary: string;
+  matches: Record<string, unknown>[];
+  state: TaskWatcherState;
+}
+
+/**
+ * Add a watcher to a task the user owns. The task must be event-triggered,
+ * since watchers fire its taskEventHook.
+ */
+export async function createTaskWatcher(
+  userId: string,
+  taskId: string,
+  input: unknown,
+): Promise<
+  WatcherResult<{ watcherId: string; description: string }> | WatcherError
+> {
+  const invalid = validateWatcherDefinition(input);
+  if (invalid) return { ok: false, error: invalid };
+  const definition = input as TaskWatcherDefinition;
+
+  const task = await prisma.agentTask.findFirst({
+    where: { id: taskId, userId },
+    select: { triggerMode: true, _count: { select: { watchers: true } } },
+  });
+  if (!task) return { ok: false, error: "Task not found" };
+  if (!EVENT_TRIGGER_MODES.includes(task.triggerMode)) {
+    return {
+      ok: false,
+      error: `Watchers need an event-triggered task (this one uses ${task.triggerMode})`,
+    };
+  }
+  if (task._count.watchers >= MAX_WATCHERS_PER_TASK) {
+    return {
+      ok: false,
+      error: `A task can have at most ${MAX_WATCHERS_PER_TASK} watchers`,
+    };
+  }
+
+  const watcher = await prisma.taskWatcher.create({
+    data: {
+      taskId,
+      type: definition.type,
+      config: definition.config as unknown as Prisma.InputJsonValue,
+    },
+    select: { id: true },
+  });
+
+  return {
+    ok: true,
+    watcherId: watcher.id,
+    description: describeWatcher(definition),
+  };
+}
+
+// ── Balance changes ──────────────────────────────────────────────────────────
+
+/** Token balance per owner for one mint, before or after a transaction */
+function tokenBalancesByOwner(
+  balances: TokenBalance[] | null | undefined,
+  mint: string,
+): Map<string, number> {
+  const byOwner = new Map<string, number>();
+  for (const balance of balances ?? []) {
+    if (balance.mint !== mint || !balance.owner) continue;
+    byOwner.set(
+      balance.owner,
+      (byOwner.get(balance.owner) ?? 0) + (balance.uiTokenAmount.uiAmount ?? 0),
+    );
+  }
+  return byOwner;
+}
+
+function blockTimeIso(tx: ParsedTransactionWithMeta): string | undefined {
+  return tx.blockTime ? new Date(tx.blockTime * 1000).toISOString() : undefined;
+}
+
+/** SOL or tokens `address` received in a transaction (0 if none) */
+function amountReceived(
+  tx: ParsedTransactionWithMeta,
+  config: TransferWatcherConfig,
+): number {
+  const meta = tx.meta;
+  if (!meta) return 0;
+
+  if (!config.mint) {
+    const index = tx.transaction.message.accountKeys.findIndex(
+      (key) => key.pubkey.toBase58() === config.address,
+    );
+    if (index < 0) return 0;
+    return (
+      (meta.postBalances[index] - meta.preBalances[index]) / LAMPORTS_PER_SOL
+    );
+  }
+
+  const before = tokenBalancesByOwner(meta.preTokenBalances, config.mint);
+  const after = tokenBalancesByOwner(meta.postTokenBalances, config.mint);
+  return (after.get(config.address) ?? 0) - (before.get(config.address) ?? 0);
+}
+
+/** Likely sender: an owner whose balance dropped, else the fee payer */
+function likelySender(
+  tx: ParsedTransactionWithMeta,
+  config: TransferWatcherConfig,
+): string | undefined {
+  if (config.mint && tx.meta) {
+    const before = tokenBalancesByOwner(tx.meta.preTokenBalances, config.mint);
+    const after = tokenBalancesByOwner(tx.meta.postTokenBalances, config.mint);
+    for (const [owner, amount] of before) {
+      if ((after.get(owner) ?? 0) < amount) return owner;
+    }
+  }
+  return tx.transaction.message.accountKeys[0]?.pubkey.toBase58();
+}
+
+// ── Checks ───────────────────────────────────────────────────────────────────
+
+/**
+ * New, successful transactions for an address since the cursor, oldest
+ * first. The first check returns none and starts from the newest.
+ */
+async function readNewTransactions(
+  address: string,
+  state: TaskWatcherState,
+): Promise<{
+  transactions: ParsedTransactionWithMeta[];
+  state: TaskWatcherState;
+}> {
+  const connection = getConnection();
+  const signatures = await connection.getSignaturesForAddress(
+    new PublicKey(address),
+    {
+      until: state.cursor,
+      limit: state.primed ? MAX_SIGNATURES_PER_CHECK : 1,
+    },
+  );
+  const next = {
+    ...state,
+    primed: true,
+    cursor: signatures[0]?.signature ?? state.cursor,
+  };
+  if (!state.primed) return { transactions: [], state: next };
+
+  const succeeded = signatures.filter((s) => !s.err).map((s) => s.signature);
+  if (succeeded.length === 0) return { transactions: [], state: next };
+
+  const transactions = await connection.getParsedTransactions(succeeded, {
+    maxSupportedTransactionVersion: 0,
+  });
+  return {
+    transactions: transactions
+      .filter((tx): tx is ParsedTransactionWithMeta => tx !== null)
+      .reverse(),
+    state: next,
+  };
+}
+
+async function checkTransferWatcher(
+  config: TransferWatcherConfig,
+  state: TaskWatcherState,
+): Promise<WatcherCheck> {
+  // Tokens land in the owner's associated token account, not the wallet
+  const watched = config.mint
+    ? getAssociatedTokenAddressSync(
+        new PublicKey(config.mint),
+        new PublicKey(config.address),
+        true,
+      ).toBase58()
+    : config.address;
+  const { transactions, state: next } = await readNewTransactions(
+    watched,
+    state,
+  );
+
+  const matches: Record<string, unknown>[] = [];
+  for (const tx of transactions) {
+    const amount = amountReceived(tx, config);
+    if (amount <= 0 || amount < (config.minAmount ?? 0)) continue;
+    matches.push({
+      signature: tx.transaction.signatures[0],
+      amount,
+      from: likelySender(tx, config),
+      blockTime: blockTimeIso(tx),
+    });
+  }
+
+  const total = matches.reduce((sum, m) => sum + (m.amount as number), 0);
+  const asset = config.mint ? `tokens of ${config.mint}` : "SOL";
+  return {
+    eventType: "transfer.received",
+    summary: `${config.address} received ${total} ${asset} in ${matches.length} transaction${matches.length !== 1 ? "s" : ""}`,
+    matches,
+    state: next,
+  };
+}
+
+async function checkNewHolderWatcher(
+  config: NewHolderWatcherConfig,
+  state: TaskWatcherState,
+): Promise<WatcherCheck> {
+  const { transactions, state: next } = await readNewTransactions(
+    config.mint,
+    state,
+  );
+
+  const matches: Record<string, unknown>[] = [];
+  const seen = new Set<string>();
+  for (const tx of transactions) {
+    if (!tx.meta) continue;
+    const before = tokenBalancesByOwner(tx.meta.preTokenBalances, config.mint);
+    const after = tokenBalancesByOwner(tx.meta.postTokenBalances, config.mint);
+    for (const [owner, amount] of after) {
+      if (seen.has(owner) || (before.get(owner) ?? 0) > 0) continue;
+      if (amount <= 0 || amount < (config.minAmount ?? 0)) continue;
+      seen.add(owner);
+      matches.push({
+        holder: owner,
+        amount,
+        signature: tx.transaction.signatures[0],
+        blockTime: blockTimeIso(tx),
+      });
+    }
+  }
+
+  return {
+    eventType: "holder.new",
+    summary: `${matches.length} new holder${matches.length !== 1 ? "s" : ""} of ${config.mint}`,
+    matches,
+    state: next,
+  };
+}
+
+// ── Cron entry point ─────────────────────────────────────────────────────────
+
+type DueWatcher = Awaited<ReturnType<typeof loadDueWatchers>>[number];
+
+function loadDueWatchers() {
+  return prisma.taskWatcher.findMany({
+    where: {
+      status: "active",
+      task: { status: "running", triggerMode: { in: EVENT_TRIGGER_MODES } },
+      OR: [
+        { lastCheckedAt: null },
+        {
+          lastCheckedAt: {
+            lt: new Date(Date.now() - WATCHER_POLL_INTERVAL_MS),
+          },
+        },
+      ],
+    },
+    orderBy: { lastCheckedAt: { sort: "asc", nulls: "first" } },
+    take: WATCHERS_PER_CRON_RUN,
+    select: { id: true, taskId: true, type: true, config: true, state: true },
+  });
+}
+
+/** Fire the task's event; returns false if the workflow isn't listening */
+async function fireWatcher(
+  watcher: DueWatcher,
+  check: WatcherCheck,
+): Promise<boolean> {
+  const definition = toWatcherDefinition(watcher);
+  const listed = check.matches.slice(0, MAX_MATCHES_PER_EVENT);
+  const event: TaskTriggerEvent = {
+    source: WATCHER_EVENT_SOURCE,
+    eventType: check.eventType,
+    summary: `Watcher "${describeWatcher(definition)}" matched: ${check.summary}.`,
+    payload: {
+      watcherId: watcher.id,
+      watcherType: watcher.type,
+      config: watcher.config,
+      matchCount: check.matches.length,
+      matches: listed,
+    },
+    occurredAt: new Date().toISOString(),
+  };
+
+  try {
+    await taskEventHook.resume(watcher.taskId, event);
+    return true;
+  } catch (error) {
+    console.error(
+      `[Task Watchers] Failed to fire watcher ${watcher.id} for ${watcher.taskId}:`,
+      error,
+    );
+    return false;
+  }
+}
+
+/**
+ * Check every due watcher once. Price watchers share one price lookup per
+ * run; transfer and holder watchers read the chain one at a time.
+ */
+export async function runTaskWatchers(): Promise<WatcherRunReport> {
+  const watchers = await loadDueWatchers();
+  const report: WatcherRunReport = { checked: 0, fired: 0, errors: 0 };
+  if (watchers.length === 0) return report;
+
+  const priceMints = [
+    ...new Set(
+      watchers
+        .filter((w) => w.type === "price")
+        .map((w) => (w.config as { mint: string }).mint),
+    ),
+  ];
+  let prices: Record<string, { price: number }> = {};
+  if (priceMints.length > 0) {
+    try {
+      ({ prices } = await getTokenPrices(priceMints));
+    } catch (error) {
+      console.error("[Task Watchers] Price lookup failed:", error);
+    }
+  }
+
+  for (const watcher of watchers) {
+    const definition = toWatcherDefinition(watcher);
+    const state = (watcher.state ?? {}) as TaskWatcherState;
+    report.checked++;
+
+    try {
+      let check: WatcherCheck;
+      switch (definition.type) {
+        case "transfer":
+          check = await checkTransferWatcher(definition.config, state);
+          break;
+        case "new_holder":
+          check = await checkNewHolderWatcher(definition.config, state);
+          break;
+        case "price": {
+          const price = prices[definition.config.mint]?.price;
+          if (!price) throw new Error("No price available for this token");
+          const evaluated = evaluatePriceWatcher(
+            definition.config,
+            price,
+            state,
+          );
+          check = {
+            eventType: `price.${evaluated.matches[0]?.condition ?? "change"}`,
+            summary: `${definition.config.mint} is at $${price}`,
+            matches: evaluated.matches.map((m) => ({ ...m, price })),
+            state: evaluated.state,
+          };
+          break;
+        }
+      }
+
+      const fired =
+        check.matches.length > 0 ? await fireWatcher(watcher, check) : false;
+      if (fired) report.fired++;
+
+      // Keep the old state when the event didn't go out, so it's retried
+      const delivered = check.matches.length === 0 || fired;
+      await prisma.taskWatcher.update({
+        where: { id: watcher.id },
+        data: {
+          lastCheckedAt: new Date(),
+          errorMessage: delivered
+            ? null
+            : "The task wasn't waiting for an event; will retry",
+          ...(delivered && {
+            state: check.state as Prisma.InputJsonValue,
+          }),
+          ...(fired && {
+            lastFiredAt: new Date(),
+            fireCount: { increment: 1 },
+          }),
+        },
+      });
+    } catch (error) {
+      report.errors++;
+      console.error(`[Task Watchers] Check failed for ${watcher.id}:`, error);
+      await prisma.taskWatcher
+        .update({
+          where: { id: watcher.id },
+          data: {
+            lastCheckedAt: new Date(),
+            errorMessage:
+              error instanceof Error ? error.message : "Watcher check failed",
+          },
+        })
+        .catch(() => {});
+    }
+  }
+
+  return report;
+}
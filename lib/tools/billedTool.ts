@@ -9,7 +9,8 @@
  * unauthenticated users), the tool still works — it just doesn't charge.
  *
  * Billing is fire-and-forget: failures are logged but never block the
- * tool result from reaching the user.
+ * tool result from reaching the user. Spending limits are checked before
+ * execution — a tool that would exceed a limit returns an error instead.
  *
  * Note: The AI SDK's `tool()` function is a type-only identity function
  * (it just returns its argument). This wrapper constructs the same shape
@@ -17,6 +18,11 @@
  */
 
 import type { BillingContext } from "@/lib/x402";
+import {
+  checkSpendingLimits,
+  describeBreach,
+  SPENDING_LIMIT_ERROR_CODE,
+} from "@/lib/spending";
 import type { z } from "zod";
 
 /**
@@ -65,13 +71,29 @@ export function billedTool(
   // Wrap execute to add billing after successful invocation
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const wrappedExecute = async (...args: any[]) => {
+    const spending = await checkSpendingLimits(
+      {
+        userId: billingContext.userId,
+        ...billingContext.attribution,
+        iterationStartedAt: billingContext.iterationStartedAt,
+      },
+      cost,
+    );
+    if (!spending.allowed && spending.breach) {
+      console.warn(`[Billing] ${name}: blocked by spending limit`);
+      return {
+        error: describeBreach(spending.breach),
+        code: SPENDING_LIMIT_ERROR_CODE,
+      };
+    }
+
     const result = await originalExecute(...args);
 
     // Only charge on success (convention: error results contain an `error` field)
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     if (!(result as any)?.error) {
       billingContext
-        .chargeUsage(cost, label, {})
+        .chargeUsage(cost, label, { toolName: name })
         .then((r) => {
           if (r.success) {
             console.log(
@@ -0,0 +1,251 @@
+/**
+ * Dry-Run Tools
+ *
+ * Swap a task's write-side tools for simulated versions, so the owner can
+ * watch what a new task would do before it touches X, a wallet, or the
+ * marketplace. A simulated tool keeps the real tool's description and input
+ * schema, returns a result shaped like the real one (marked `simulated`),
+ * and describes the action it would have taken. Every other tool is removed
+ * unless it's known to have no side effects (DRY_RUN_LIVE_TASK_TOOLS).
+ *
+ * Simulated tools make no external calls and are NOT billed.
+ */
+
+import { randomBytes } from "crypto";
+import {
+  DRY_RUN_LIVE_TASK_TOOLS,
+  SIMULATED_TASK_TOOLS,
+  type SimulatedTaskTool,
+} from "@/lib/tasks/constants";
+import type { ToolMap } from "./types";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type ToolInput = Record<string, any>;
+
+function fakeId(prefix: string): string {
+  return `${prefix}_${randomBytes(6).toString("hex")}`;
+}
+
+/** Looks like a Solana signature, but can't collide with a real one */
+function fakeSignature(): string {
+  return `DRYRUN${randomBytes(20).toString("hex")}`;
+}
+
+function quote(text: unknown, max = 80): string {
+  const value = String(text ?? "");
+  return `"${value.length > max ? `${value.slice(0, max)}…` : value}"`;
+}
+
+/** Each simulator returns the mocked result and a line for the log */
+const SIMULATORS: Record<
+  SimulatedTaskTool,
+  (input: ToolInput) => { result: Record<string, unknown>; action: string }
+> = {
+  postTweet: (input) => {
+    const id = fakeId("dryrun");
+    return {
+      action: input.replyToTweetId
+        ? `Reply to tweet ${input.replyToTweetId}: ${quote(input.text)}`
+        : `Post a tweet: ${quote(input.text)}`,
+      result: {
+        success: true,
+        tweet: { id, text: input.text, url: `https://x.com/i/status/${id}` },
+      },
+    };
+  },
+
+  deleteTweet: (input) => ({
+    action: `Delete tweet ${input.tweetId}`,
+    result: { success: true, message: "Tweet deleted successfully" },
+  }),
+
+  likeTweet: (input) => ({
+    action: `Like tweet ${input.tweetId}`,
+    result: { success: true, message: "Tweet liked successfully" },
+  }),
+
+  retweet: (input) => ({
+    action: `Repost tweet ${input.tweetId}`,
+    result: { success: true, message: "Reposted successfully" },
+  }),
+
+  followUser: (input) => ({
+    action: `Follow @${input.username}`,
+    result: { success: true, message: `Now following @${input.username}` },
+  }),
+
+  sendDirectMessage: (input) => ({
+    action: `DM @${input.username}: ${quote(input.text)}`,
+    result: {
+      success: true,
+      messageId: fakeId("dryrun_dm"),
+      message: "Direct message sent successfully",
+    },
+  }),
+
+  transferSol: (input) => ({
+    action: `Send ${input.amount} SOL to ${input.recipient}`,
+    result: { success: true, signature: fakeSignature() },
+  }),
+
+  transferToken: (input) => ({
+    action: `Send ${input.amount} of token ${input.tokenMint} to ${input.recipient}`,
+    result: {
+      success: true,
+      signature: fakeSignature(),
+      recipient: input.recipient,
+      amountUi: `${input.amount} tokens`,
+    },
+  }),
+
+  batchTransferTokens: (input) => {
+    const recipients: string[] = input.recipients ?? [];
+    const batches = Math.ceil(recipients.length / 20);
+    return {
+      action: `Send ${input.amountPerRecipient} of token ${input.tokenMint} to each of ${recipients.length} recipients`,
+      result: {
+        totalRecipients: recipients.length,
+        successCount: recipients.length,
+        failureCount: 0,
+        transactions: Array.from({ length: batches }, (_, i) => ({
+          signature: fakeSignature(),
+          success: true,
+          recipientCount: Math.min(20, recipients.length - i * 20),
+        })),
+      },
+    };
+  },
+
+  sendSms: (input) => ({
+    action: `Text ${input.to}: ${quote(input.message)}`,
+    result: {
+      success: true,
+      messageSid: fakeId("SMdryrun"),
+      to: input.to,
+      status: "queued",
+      segments: Math.ceil(String(input.message ?? "").length / 160) || 1,
+      message: `SMS sent successfully to ${input.to}.`,
+    },
+  }),
+
+  makeCall: (input) => {
+    const callSid = fakeId("CAdryrun");
+    return {
+      action: `Call ${input.to} and say: ${quote(input.message)}`,
+      result: {
+        success: true,
+        callSid,
+        to: input.to,
+        status: "queued",
+        voice: input.voice,
+        language: input.language,
+        message: `Calling ${input.to}... The message will be spoken when they answer. Call ID: ${callSid}`,
+      },
+    };
+  },
+
+  sendFlowers: (input) => ({
+    action: `Order flowers ${input.productCode} for ${input.recipient?.name ?? "a recipient"} on ${input.deliveryDate} (about $${input.confirmedTotalUsd})`,
+    result: {
+      success: true,
+      orderNumber: fakeId("dryrun_order"),
+      recipient: input.recipient?.name,
+      deliveryDate: input.deliveryDate,
+      productCode: input.productCode,
+      totalPaidUsd: input.confirmedTotalUsd,
+    },
+  }),
+
+  marketplace_hire: (input) => ({
+    action: `Hire listing ${input.listingId} for "${input.taskTitle}" with ${input.budgetSol} SOL in escrow`,
+    result: {
+      success: true,
+      data: {
+        id: fakeId("dryrun_task"),
+        status: "pending_escrow",
+        title: input.taskTitle,
+        description: input.taskDescription,
+        category: "general",
+        budgetSol: input.budgetSol,
+        escrowStatus: "pending",
+        escrowAmount: null,
+        posterName: null,
+        workerName: null,
+        bidCount: 0,
+        createdAt: new Date(),
+      },
+    },
+  }),
+
+  marketplace_bid: (input) => ({
+    action: `Bid ${input.amountSol} SOL on marketplace task ${input.taskId}`,
+    result: {
+      success: true,
+      data: {
+        id: fakeId("dryrun_bid"),
+        status: "pending",
+        amountSol: input.amountSol,
+        message: input.message ?? null,
+        bidderName: null,
+        createdAt: new Date(),
+      },
+    },
+  }),
+
+  bags_executeSwap: (input) => ({
+    action: `Swap ${input.amount} of ${input.inputMint} for ${input.outputMint} (slippage ${input.slippageBps ?? 100} bps)`,
+    result: { success: true, response: { signature: fakeSignature() } },
+  }),
+
+  bags_submitTransaction: () => ({
+    action: "Submit a signed transaction to Bags",
+    result: { success: true, response: { signature: fakeSignature() } },
+  }),
+};
+
+/** A simulated call, as recorded in the task's log */
+export interface SimulatedToolCall {
+  toolName: string;
+  action: string;
+}
+
+/**
+ * Replace the simulated tools present in `tools` (in place), and remove any
+ * other tool that isn't in DRY_RUN_LIVE_TASK_TOOLS. Each simulated call is
+ * reported to `onSimulated`. Returns the names of the tools replaced.
+ */
+export function applyDryRun(
+  tools: ToolMap,
+  onSimulated: (call: SimulatedToolCall) => void,
+): string[] {
+  const simulated = new Set<string>(SIMULATED_TASK_TOOLS);
+  const live = new Set<string>(DRY_RUN_LIVE_TASK_TOOLS);
+  for (const name of Object.keys(tools)) {
+    if (!simulated.has(name) && !live.has(name)) delete tools[name];
+  }
+
+  const replaced: string[] = [];
+  for (const name of SIMULATED_TASK_TOOLS) {
+    const real = tools[name];
+    if (!real) continue;
+
+    const simulate = SIMULATORS[name];
+    tools[name] = {
+      ...real,
+      // Nothing real happens, so there's nothing to approve
+      needsApproval: false,
+      description: `[DRY RUN — simulated, nothing is sent] ${real.description ?? ""}`,
+      execute: async (input: ToolInput) => {
+        const { result, action } = simulate(input ?? {});
+        onSimulated({ toolName: name, action });
+        return {
+          ...result,
+          simulated: true,
+          note: `Dry run: this was not actually done. Would have: ${action}`,
+        };
+      },
+    };
+    replaced.push(name);
+  }
+  return replaced;
+}
@@ -34,6 +34,7 @@ import { tool } from "ai";
 import { z } from "zod";
 
 import type { BillingContext } from "@/lib/x402";
+import { checkSpendingLimits, describeBreach } from "@/lib/spending";
 
 // ── Constants ────────────────────────────────────────────────────────────────
 
@@ -578,6 +579,9 @@ export function createFlowerTools(billingContext?: BillingContext) {
       // If the catch fires after SOL was collected, the TX signature is still
       // returned so the user can contact support for a refund.
       let solTxSignature = "";
+      // On-chain TX when the charge triggered a credit top-up, otherwise the
+      // credit ledger entry that recorded the debit
+      let paymentRef = "";
 
       try {
         // 1. Verify Florist One credentials are configured
@@ -653,9 +657,24 @@ export function createFlowerTools(billingContext?: BillingContext) {
           };
         }
 
+        const spending = await checkSpendingLimits(
+          {
+            userId: billingContext.userId,
+            ...billingContext.attribution,
+            iterationStartedAt: billingContext.iterationStartedAt,
+          },
+          totalCharged,
+        );
+        if (!spending.allowed && spending.breach) {
+          return {
+            error: `Order not placed. ${describeBreach(spending.breach)}`,
+          };
+        }
+
         const chargeResult = await billingContext.chargeUsage(
           totalCharged,
           `Flower order (${input.productCode}) → ${input.recipient.name}`,
+          { toolName: "sendFlowers" },
         );
 
         if (!chargeResult.success) {
@@ -664,10 +683,12 @@ export function createFlowerTools(billingContext?: BillingContext) {
           };
         }
 
-        // chargeResult.transaction is the confirmed on-chain Solana TX signature
+        // chargeResult.transaction is only set when the prepaid credit balance
+        // needed an on-chain top-up; the ledger entry always identifies the debit
         solTxSignature = chargeResult.transaction ?? "";
+        paymentRef = solTxSignature || chargeResult.ledgerEntryId || "";
         console.log(
-          `[Flowers] SOL payment confirmed: $${totalCharged} (${chargeResult.solCost} SOL) tx=${solTxSignature} for order to ${input.recipient.name}`,
+          `[Flowers] SOL payment confirmed: $${totalCharged} (${chargeResult.solCost} SOL) ref=${paymentRef} for order to ${input.recipient.name}`,
         );
 
         // 4. Tokenize company card via Authorize.net.
@@ -676,7 +697,7 @@ export function createFlowerTools(billingContext?: BillingContext) {
         const tokenRes = await tokenizeCompanyCard();
         if (!tokenRes.ok) {
           return {
-            error: `Card tokenization failed after SOL payment was confirmed: ${tokenRes.error}. Your SOL payment TX is ${solTxSignature}. Please contact support with this transaction ID for a full refund.`,
+            error: `Card tokenization failed after SOL payment was confirmed: ${tokenRes.error}. Your SOL payment reference is ${paymentRef}. Please contact support with this reference for a full refund.`,
             solPaymentTx: solTxSignature,
             solanaExplorerUrl: solTxSignature
               ? `https://solscan.io/tx/${solTxSignature}`
@@ -757,7 +778,7 @@ export function createFlowerTools(billingContext?: BillingContext) {
 
         if (!orderRes.ok) {
           return {
-            error: `Order placement failed after SOL payment was confirmed: ${orderRes.error}. Your SOL payment TX is ${solTxSignature}. Please contact support with this transaction ID for a full refund.`,
+            error: `Order placement failed after SOL payment was confirmed: ${orderRes.error}. Your SOL payment reference is ${paymentRef}. Please contact support with this reference for a full refund.`,
             solPaymentTx: solTxSignature,
             solanaExplorerUrl: solTxSignature
               ? `https://solscan.io/tx/${solTxSignature}`
@@ -783,15 +804,15 @@ export function createFlowerTools(billingContext?: BillingContext) {
           solanaExplorerUrl: solTxSignature
             ? `https://solscan.io/tx/${solTxSignature}`
             : undefined,
-          message: `Order #${order.ORDERNO} confirmed! Flowers will be delivered to ${input.recipient.name} on ${input.deliveryDate}. SOL payment: ${solTxSignature}`,
+          message: `Order #${order.ORDERNO} confirmed! Flowers will be delivered to ${input.recipient.name} on ${input.deliveryDate}. SOL payment: ${paymentRef}`,
         };
       } catch (err: unknown) {
         const message = err instanceof Error ? err.message : String(err);
         console.error("[Flowers] sendFlowers unexpected error:", err);
         // Include TX signature if SOL was already collected before the crash
         return {
-          error: solTxSignature
-            ? `Unexpected error after SOL payment was confirmed: ${message}. Your SOL payment TX is ${solTxSignature}. Please contact support for a refund.`
+          error: paymentRef
+            ? `Unexpected error after SOL payment was confirmed: ${message}. Your SOL payment reference is ${paymentRef}. Please contact support for a refund.`
             : message,
           ...(solTxSignature && {
             solPaymentTx: solTxSignature,
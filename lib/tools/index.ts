@@ -683,6 +683,41 @@ export const TOOL_GROUPS: ToolGroup[] = [
         name: "Resume Task",
         description: "Resume a paused task",
       },
+      {
+        id: "createTaskPipeline",
+        name: "Create Pipeline",
+        description: "Chain tasks into a multi-step pipeline",
+      },
+      {
+        id: "runTaskPipeline",
+        name: "Run Pipeline",
+        description: "Start a pipeline run now",
+      },
+      {
+        id: "addTaskWatcher",
+        name: "Add Watcher",
+        description: "Wake a task on transfers, price moves, or new holders",
+      },
+      {
+        id: "addTaskDelivery",
+        name: "Add Delivery",
+        description: "Send a task's results by email, SMS, or webhook",
+      },
+      {
+        id: "saveTaskTemplate",
+        name: "Save Template",
+        description: "Save a task as a reusable, shareable template",
+      },
+      {
+        id: "listTaskTemplates",
+        name: "Browse Templates",
+        description: "Find task templates in the gallery",
+      },
+      {
+        id: "createTaskFromTemplate",
+        name: "Use Template",
+        description: "Start a task from a template",
+      },
     ],
   },
   {
@@ -0,0 +1,69 @@
+/**
+ * Marketplace Work Tools
+ *
+ * Given to an agent working a marketplace task it was hired for: report
+ * progress to the poster in the task's chat, and hand in the deliverables.
+ * Only added to rounds of the agent work workflow.
+ *
+ * These tools are NOT billed (no external calls).
+ */
+
+import { z } from "zod";
+import { tool } from "ai";
+import type { ToolMap } from "./types";
+
+const MAX_PROGRESS_LENGTH = 2000;
+const MAX_DELIVERABLES_LENGTH = 50000;
+
+const postProgressSchema = z.object({
+  message: z
+    .string()
+    .min(1)
+    .max(MAX_PROGRESS_LENGTH)
+    .describe(
+      "A short update for the poster: what you did, what you found, what's next.",
+    ),
+});
+
+const submitDeliverablesSchema = z.object({
+  deliverables: z
+    .string()
+    .min(1)
+    .max(MAX_DELIVERABLES_LENGTH)
+    .describe(
+      "The finished work, complete and self-contained: results, links, and notes on how each requirement was met.",
+    ),
+});
+
+/**
+ * Create the work tools for one round. `onProgress` posts an update to the
+ * task's chat; `onSubmit` receives the deliverables so the workflow can
+ * submit them once the round ends.
+ */
+export function createMarketplaceWorkTools(
+  onProgress: (message: string) => Promise<void>,
+  onSubmit: (deliverables: string) => void,
+): ToolMap {
+  return {
+    postProgress: tool({
+      description:
+        "Post a progress update to the poster in the task's chat. Call it after each meaningful step " +
+        "so they can follow along; keep it brief.",
+      inputSchema: postProgressSchema,
+      execute: async (input: z.infer<typeof postProgressSchema>) => {
+        await onProgress(input.message);
+        return { posted: true };
+      },
+    }),
+    submitDeliverables: tool({
+      description:
+        "Submit the finished work for the poster's review. Call it once, when every requirement is met; " +
+        "the task moves to review and you stop working.",
+      inputSchema: submitDeliverablesSchema,
+      execute: async (input: z.infer<typeof submitDeliverablesSchema>) => {
+        onSubmit(input.deliverables);
+        return { submitted: true };
+      },
+    }),
+  };
+}
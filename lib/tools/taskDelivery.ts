@@ -0,0 +1,45 @@
+/**
+ * Task Delivery Tools
+ *
+ * Let a task's agent flag an iteration's result as notable, which sends it
+ * to the task's delivery targets that only want notable results. Only added
+ * to iterations of tasks that have such a target.
+ *
+ * These tools are NOT billed (no external calls).
+ */
+
+import { z } from "zod";
+import { tool } from "ai";
+import { MAX_NOTABLE_REASON_LENGTH } from "@/lib/tasks/constants";
+import type { ToolMap } from "./types";
+
+const flagNotableResultSchema = z.object({
+  reason: z
+    .string()
+    .min(1)
+    .max(MAX_NOTABLE_REASON_LENGTH)
+    .describe(
+      "One line on why this result matters (e.g. 'BONK dropped 12% in an hour'). It heads the notification.",
+    ),
+});
+
+/**
+ * Create the notable-result tool for one iteration. `onNotable` receives the
+ * reason so the workflow can deliver the result.
+ */
+export function createTaskDeliveryTools(
+  onNotable: (reason: string) => void,
+): ToolMap {
+  return {
+    flagNotableResult: tool({
+      description:
+        "The owner wants to be notified only about notable results of this task. Call this when this run " +
+        "found something worth their attention; your text response is sent to them. Don't call it for routine runs.",
+      inputSchema: flagNotableResultSchema,
+      execute: async (input: z.infer<typeof flagNotableResultSchema>) => {
+        onNotable(input.reason);
+        return { flagged: true };
+      },
+    }),
+  };
+}
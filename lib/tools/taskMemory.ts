@@ -0,0 +1,121 @@
+/**
+ * Task Memory Tools
+ *
+ * Give a recurring task's agent a scratchpad that survives between
+ * iterations. Only added to task iterations (not chat), scoped to one task.
+ *
+ * These tools are NOT billed (lightweight DB operations).
+ */
+
+import { z } from "zod";
+import { tool } from "ai";
+import {
+  MAX_MEMORY_ENTRIES,
+  MAX_MEMORY_KEY_LENGTH,
+  MAX_MEMORY_VALUE_LENGTH,
+  deleteTaskMemory,
+  getTaskMemory,
+  setTaskMemory,
+} from "@/lib/tasks";
+import type { ToolMap } from "./types";
+
+const readTaskMemorySchema = z.object({
+  key: z
+    .string()
+    .optional()
+    .describe("Optional: a single key to read. Omit to read every entry."),
+});
+
+const writeTaskMemorySchema = z.object({
+  key: z
+    .string()
+    .max(MAX_MEMORY_KEY_LENGTH)
+    .describe(
+      "Short, stable name for the note (e.g. 'replied_tweet_ids', 'last_sol_price')",
+    ),
+  value: z
+    .string()
+    .max(MAX_MEMORY_VALUE_LENGTH)
+    .describe(
+      `The note to store, replacing any previous value for this key (max ${MAX_MEMORY_VALUE_LENGTH} characters). ` +
+        "Keep it compact — e.g. a comma-separated list of IDs or a one-line status.",
+    ),
+});
+
+const deleteTaskMemorySchema = z.object({
+  key: z.string().describe("The key to delete"),
+});
+
+/**
+ * Create memory tools scoped to a single task.
+ */
+export function createTaskMemoryTools(taskId: string): ToolMap {
+  return {
+    readTaskMemory: tool({
+      description:
+        "Read notes this task saved in earlier iterations. The newest notes are already in the prompt; " +
+        "use this to read a specific key in full or entries that were omitted for space.",
+      inputSchema: readTaskMemorySchema,
+      execute: async (input: z.infer<typeof readTaskMemorySchema>) => {
+        const key = input.key?.trim();
+        try {
+          const entries = await getTaskMemory(taskId);
+          const selected = key ? entries.filter((e) => e.key === key) : entries;
+          if (key && selected.length === 0) {
+            return { error: `No memory entry named "${input.key}".` };
+          }
+          return {
+            entries: selected.map((e) => ({
+              key: e.key,
+              value: e.value,
+              updatedAt: e.updatedAt.toISOString(),
+            })),
+          };
+        } catch (error) {
+          console.error("[Task Memory Tool] readTaskMemory error:", error);
+          return {
+            error: `Failed to read memory: ${error instanceof Error ? error.message : "Unknown error"}`,
+          };
+        }
+      },
+    }),
+
+    writeTaskMemory: tool({
+      description:
+        "Save a note for future iterations of this task (creates or overwrites the key). " +
+        "Use it for anything the next run needs to avoid repeating or contradicting work: " +
+        `items already handled, last values seen, progress. Up to ${MAX_MEMORY_ENTRIES} keys.`,
+      inputSchema: writeTaskMemorySchema,
+      execute: async (input: z.infer<typeof writeTaskMemorySchema>) => {
+        try {
+          const result = await setTaskMemory(taskId, input.key, input.value);
+          if (!result.ok) return { error: result.error };
+          return { saved: true, key: result.entry.key };
+        } catch (error) {
+          console.error("[Task Memory Tool] writeTaskMemory error:", error);
+          return {
+            error: `Failed to save memory: ${error instanceof Error ? error.message : "Unknown error"}`,
+          };
+        }
+      },
+    }),
+
+    deleteTaskMemory: tool({
+      description: "Delete a note that is no longer needed.",
+      inputSchema: deleteTaskMemorySchema,
+      execute: async (input: z.infer<typeof deleteTaskMemorySchema>) => {
+        try {
+          const deleted = await deleteTaskMemory(taskId, input.key);
+          return deleted
+            ? { deleted: true, key: input.key }
+            : { error: `No memory entry named "${input.key}".` };
+        } catch (error) {
+          console.error("[Task Memory Tool] deleteTaskMemory error:", error);
+          return {
+            error: `Failed to delete memory: ${error instanceof Error ? error.message : "Unknown error"}`,
+          };
+        }
+      },
+    }),
+  };
+}
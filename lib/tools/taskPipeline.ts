@@ -0,0 +1,49 @@
+/**
+ * Task Pipeline Tools
+ *
+ * Let a pipeline stage hand structured data to the stages downstream of it.
+ * Only added to iterations of tasks that belong to a pipeline.
+ *
+ * These tools are NOT billed (no external calls).
+ */
+
+import { z } from "zod";
+import { tool } from "ai";
+import { MAX_STAGE_OUTPUT_LENGTH } from "@/lib/tasks/constants";
+import type { ToolMap } from "./types";
+
+const setPipelineResultSchema = z.object({
+  result: z
+    .record(z.string(), z.unknown())
+    .describe(
+      "JSON object for downstream stages (e.g. { sentiment: 'bullish', score: 7, tokens: ['BONK'] }). " +
+        "Conditional edges can branch on its fields.",
+    ),
+});
+
+/**
+ * Create the pipeline result tool for one iteration. The latest call wins;
+ * `onResult` receives it so the workflow can record it with the stage.
+ */
+export function createTaskPipelineTools(
+  onResult: (result: Record<string, unknown>) => void,
+): ToolMap {
+  return {
+    setPipelineResult: tool({
+      description:
+        "This task is a stage in a pipeline. Call this once with the structured outcome of this run " +
+        "so the next stages receive it alongside your text response. Calling again replaces the result.",
+      inputSchema: setPipelineResultSchema,
+      execute: async (input: z.infer<typeof setPipelineResultSchema>) => {
+        const size = JSON.stringify(input.result).length;
+        if (size > MAX_STAGE_OUTPUT_LENGTH) {
+          return {
+            error: `Result is too large (${size} characters, max ${MAX_STAGE_OUTPUT_LENGTH}). Keep only what the next stages need.`,
+          };
+        }
+        onResult(input.result);
+        return { saved: true };
+      },
+    }),
+  };
+}
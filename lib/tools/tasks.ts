@@ -16,6 +16,41 @@ import { start } from "workflow/api";
 import { recurringTaskWorkflow } from "@/workflows/tasks/workflow";
 import { taskControlHook } from "@/workflows/tasks/hooks/taskControl";
 import type { TaskConfig } from "@/workflows/tasks/steps/execute";
+import {
+  DEFAULT_FAILURE_THRESHOLD,
+  DEFAULT_MAX_RETRIES,
+  DEFAULT_TASK_TIMEZONE,
+  MAX_CONCURRENT_TASKS,
+  MAX_FAILURE_THRESHOLD,
+  MAX_RETRIES_LIMIT,
+  MAX_PIPELINES_PER_USER,
+  MAX_PIPELINE_STAGES,
+  SENSITIVE_TASK_TOOLS,
+  SIMULATED_TASK_TOOLS,
+  TASK_DELIVERY_CHANNELS,
+  TASK_DELIVERY_CONDITIONS,
+  TASK_TEMPLATE_VISIBILITIES,
+  TASK_WATCHER_TYPES,
+  TEMPLATE_PARAMETER_KINDS,
+  createTaskDeliveryTarget,
+  createTaskPipeline,
+  createTaskTemplate,
+  createTaskWatcher,
+  describeCronExpression,
+  describeTaskSchedule,
+  getTaskTemplate,
+  listTaskTemplates,
+  recordTemplateInstall,
+  resolveTaskTemplate,
+  startPipelineRun,
+  taskToTemplateInput,
+  validateApprovalPolicy,
+  validateCronSchedule,
+} from "@/lib/tasks";
+import {
+  ALLOWED_AGENT_MODELS,
+  DEFAULT_AGENT_MODEL,
+} from "@/lib/agents/constants";
 import type { ToolMap } from "./types";
 import type { Prisma } from "@/app/generated/prisma/client";
 
@@ -27,9 +62,6 @@ const MIN_INTERVAL_MINUTES = 1;
 /** Maximum interval between task iterations (24 hours) */
 const MAX_INTERVAL_MINUTES = 1440;
 
-/** Maximum number of concurrent tasks per user */
-const MAX_CONCURRENT_TASKS = 10;
-
 // ── Tool Factory ─────────────────────────────────────────────────────────────
 
 /**
@@ -53,8 +85,72 @@ const createRecurringTaskSchema = z.object({
     .number()
     .min(MIN_INTERVAL_MINUTES)
     .max(MAX_INTERVAL_MINUTES)
+    .optional()
+    .describe(
+      `How often to run the task, in minutes (min ${MIN_INTERVAL_MINUTES}, max ${MAX_INTERVAL_MINUTES}). ` +
+        "Provide exactly one of this, cronExpression, or eventTriggered.",
+    ),
+  cronExpression: z
+    .string()
+    .optional()
+    .describe(
+      "Optional: run on a five-field cron schedule instead of a fixed interval " +
+        "(minute hour day-of-month month day-of-week), e.g. '0 9 * * 1-5' for 9:00 on weekdays. " +
+        "Use for calendar-based schedules like specific times of day or days of the week.",
+    ),
+  timezone: z
+    .string()
+    .optional()
+    .describe(
+      `IANA timezone the cron expression is evaluated in (e.g. 'America/New_York'). Defaults to ${DEFAULT_TASK_TIMEZONE}.`,
+    ),
+  eventTriggered: z
+    .boolean()
+    .optional()
+    .describe(
+      "Optional: run only when triggered by an event instead of on a schedule. " +
+        "Use for later stages of a pipeline, which run when the stages before them finish.",
+    ),
+  model: z
+    .enum([...ALLOWED_AGENT_MODELS] as [string, ...string[]])
+    .optional()
+    .describe(
+      `Optional: model for this task's iterations. Defaults to ${DEFAULT_AGENT_MODEL}; ` +
+        "pick a larger model for stages that need stronger reasoning or writing.",
+    ),
+  approvalRequiredTools: z
+    .array(z.string())
+    .optional()
     .describe(
-      `How often to run the task, in minutes (min ${MIN_INTERVAL_MINUTES}, max ${MAX_INTERVAL_MINUTES})`,
+      "Optional: tool names whose calls wait for the user's approval before running. " +
+        `Defaults to ${SENSITIVE_TASK_TOOLS.join(", ")}. Pass [] only if the user explicitly wants ` +
+        "the task to post or message without asking. Wallet transfers always need approval.",
+    ),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe(
+      `Optional: run in dry-run mode, where ${SIMULATED_TASK_TOOLS.join(", ")} are simulated ` +
+        "and only record what they would have done; other tools that act outside the task are left out. " +
+        "Suggest it when the user wants to try a task before it posts, pays, or trades for real.",
+    ),
+  maxRetries: z
+    .number()
+    .int()
+    .min(0)
+    .max(MAX_RETRIES_LIMIT)
+    .optional()
+    .describe(
+      `Optional: how many times a failed iteration is retried, with growing delays. Defaults to ${DEFAULT_MAX_RETRIES}.`,
+    ),
+  failureThreshold: z
+    .number()
+    .int()
+    .min(0)
+    .max(MAX_FAILURE_THRESHOLD)
+    .optional()
+    .describe(
+      `Optional: failed iterations in a row before the task pauses itself and notifies the user. Defaults to ${DEFAULT_FAILURE_THRESHOLD}; 0 never pauses.`,
     ),
   toolGroups: z
     .array(z.string())
@@ -90,6 +186,195 @@ const resumeTaskSchema = z.object({
   taskId: z.string().describe("The ID of the task to resume"),
 });
 
+const pipelineEdgeConditionSchema = z
+  .discriminatedUnion("type", [
+    z.object({ type: z.literal("always") }),
+    z.object({
+      type: z.literal("status"),
+      status: z.enum(["success", "error"]),
+    }),
+    z.object({ type: z.literal("contains"), text: z.string() }),
+    z.object({
+      type: z.literal("field"),
+      path: z
+        .string()
+        .describe("Dot path into the upstream result, e.g. 'score'"),
+      op: z.enum(["eq", "neq", "gt", "gte", "lt", "lte", "exists"]),
+      value: z.union([z.string(), z.number(), z.boolean()]).optional(),
+    }),
+  ])
+  .optional()
+  .describe(
+    "When the edge passes. Omit to pass only when the upstream stage succeeds. " +
+      "'contains' matches the upstream text output; 'field' compares a field of the upstream structured result.",
+  );
+
+const createTaskPipelineSchema = z.object({
+  name: z.string().max(200).describe("Short name for the pipeline"),
+  description: z.string().optional().describe("Optional: what it does"),
+  stageTaskIds: z
+    .array(z.string())
+    .min(1)
+    .max(MAX_PIPELINE_STAGES)
+    .describe(
+      "IDs of existing tasks to use as stages. Stages after the first must be event-triggered.",
+    ),
+  edges: z
+    .array(
+      z.object({
+        fromTaskId: z.string(),
+        toTaskId: z.string(),
+        condition: pipelineEdgeConditionSchema,
+      }),
+    )
+    .default([])
+    .describe(
+      "Connections between stages. A stage with several incoming edges waits for all of them (fan-in); " +
+        "a stage with several outgoing edges feeds each target (fan-out).",
+    ),
+});
+
+const runTaskPipelineSchema = z.object({
+  pipelineId: z.string().describe("The ID of the pipeline to run"),
+});
+
+const addTaskDeliverySchema = z.object({
+  taskId: z.string().describe("The ID of the task whose results to send"),
+  channel: z
+    .enum(TASK_DELIVERY_CHANNELS)
+    .describe(
+      "email, sms (billed per message), or webhook (a signed JSON POST)",
+    ),
+  destination: z
+    .string()
+    .describe(
+      "Email address, phone number in E.164 format (e.g. +15551234567), or https:// URL",
+    ),
+  condition: z
+    .enum(TASK_DELIVERY_CONDITIONS)
+    .default("always")
+    .describe(
+      "always: every run; error: failed runs only; notable: only runs the task's agent flags as notable",
+    ),
+});
+
+const addTaskWatcherSchema = z.object({
+  taskId: z
+    .string()
+    .describe("The ID of an event-triggered task to wake when it matches"),
+  type: z
+    .enum(TASK_WATCHER_TYPES)
+    .describe(
+      "transfer: SOL or a token arrives at an address; price: a token's USD price crosses a level or moves by a percentage; new_holder: a wallet starts holding a token",
+    ),
+  address: z
+    .string()
+    .optional()
+    .describe("transfer: the receiving wallet address"),
+  mint: z
+    .string()
+    .optional()
+    .describe(
+      "Token mint address. Required for price and new_holder; for transfer, omit to watch SOL",
+    ),
+  minAmount: z
+    .number()
+    .nonnegative()
+    .optional()
+    .describe(
+      "transfer / new_holder: ignore amounts below this (whole tokens or SOL)",
+    ),
+  above: z
+    .number()
+    .positive()
+    .optional()
+    .describe("price: fire when it rises above this USD price"),
+  below: z
+    .number()
+    .positive()
+    .optional()
+    .describe("price: fire when it falls below this USD price"),
+  changePercent: z
+    .number()
+    .optional()
+    .describe(
+      "price: fire on a move of this many percent from the last fired price (e.g. 10 or -10)",
+    ),
+});
+
+const saveTaskTemplateSchema = z.object({
+  taskId: z
+    .string()
+    .describe("The ID of the user's task to save as a template"),
+  name: z
+    .string()
+    .max(200)
+    .optional()
+    .describe(
+      "Optional: template name; may contain placeholders like 'Mentions of {twitterHandle}'",
+    ),
+  taskPrompt: z
+    .string()
+    .optional()
+    .describe(
+      "Optional: the task's prompt rewritten with {placeholders} for the parts each installer fills in, " +
+        "e.g. 'Summarize new holders of {tokenMint}'. Defaults to the task's prompt as is.",
+    ),
+  description: z
+    .string()
+    .max(1000)
+    .optional()
+    .describe("What the template does, shown in the gallery"),
+  parameters: z
+    .array(
+      z.object({
+        name: z.string().describe("The placeholder, without braces"),
+        description: z.string().max(200).optional(),
+        kind: z
+          .enum(TEMPLATE_PARAMETER_KINDS)
+          .optional()
+          .describe("How the value is checked. Defaults to text."),
+        default: z.string().optional(),
+      }),
+    )
+    .optional()
+    .describe(
+      "Optional: describe placeholders; any not listed are required text values",
+    ),
+  visibility: z
+    .enum(TASK_TEMPLATE_VISIBILITIES)
+    .optional()
+    .describe(
+      "private (default, only the user), public (everyone in the gallery), or corporation (owners of its agents)",
+    ),
+  corporationId: z
+    .string()
+    .optional()
+    .describe("Required for corporation visibility"),
+});
+
+const listTaskTemplatesSchema = z.object({
+  query: z
+    .string()
+    .optional()
+    .describe("Optional: search template names and descriptions"),
+  mine: z.boolean().optional().describe("Only the user's own templates"),
+});
+
+const createTaskFromTemplateSchema = z.object({
+  templateId: z.string().describe("The template to install"),
+  values: z
+    .record(z.string(), z.string())
+    .default({})
+    .describe(
+      "Values for the template's placeholders, keyed by name without braces, e.g. { tokenMint: '...' }",
+    ),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe("Optional: run the new task in dry-run mode"),
+});
+
 export function createTaskTools(
   userId: string,
   agentId: string,
@@ -99,14 +384,53 @@ export function createTaskTools(
   return {
     createRecurringTask: tool({
       description:
-        "Create a new recurring background task that runs automatically at a set interval. " +
+        "Create a new recurring background task that runs automatically at a set interval or on a cron schedule. " +
         "Use this when the user wants something done repeatedly (e.g., 'check my X timeline every 5 minutes', " +
-        "'monitor SOL price every hour', 'post a daily tweet'). " +
-        "The task will run in the background even when the user closes the chat.",
+        "'monitor SOL price every hour', 'post a tweet every weekday at 9am New York time'). " +
+        "The task will run in the background even when the user closes the chat. " +
+        "For multi-step workflows, create one task per step and connect them with createTaskPipeline.",
       inputSchema: createRecurringTaskSchema,
       execute: async (input: z.infer<typeof createRecurringTaskSchema>) => {
-        const { name, taskPrompt, intervalMinutes, toolGroups, maxIterations } =
-          input;
+        const {
+          name,
+          taskPrompt,
+          intervalMinutes,
+          cronExpression,
+          timezone = DEFAULT_TASK_TIMEZONE,
+          eventTriggered = false,
+          model = DEFAULT_AGENT_MODEL,
+          approvalRequiredTools = [...SENSITIVE_TASK_TOOLS],
+          dryRun = false,
+          maxRetries,
+          failureThreshold,
+          toolGroups,
+          maxIterations,
+        } = input;
+
+        const scheduleCount = [
+          intervalMinutes !== undefined,
+          cronExpression !== undefined,
+          eventTriggered,
+        ].filter(Boolean).length;
+        if (scheduleCount !== 1) {
+          return {
+            error:
+              "Provide exactly one of intervalMinutes, cronExpression, or eventTriggered.",
+          };
+        }
+        if (cronExpression !== undefined) {
+          const cronError = validateCronSchedule(cronExpression, timezone);
+          if (cronError) return { error: cronError };
+        }
+        const policyError = validateApprovalPolicy(approvalRequiredTools);
+        if (policyError) return { error: policyError };
+        const isCron = cronExpression !== undefined;
+        const triggerMode = isCron
+          ? "cron"
+          : eventTriggered
+            ? "event"
+            : "interval";
+
         try {
           // Check concurrent task limit
           const activeCount = await prisma.agentTask.count({
@@ -122,7 +446,10 @@ export function createTaskTools(
             };
           }
 
-          const intervalMs = intervalMinutes * 60 * 1000;
+          const intervalMs = (intervalMinutes ?? 0) * 60 * 1000;
+          const cronSchedule = isCron
+            ? { cronExpression: cronExpression.trim(), timezone }
+            : null;
 
           // Create the task record
           const task = await prisma.agentTask.create({
@@ -133,8 +460,16 @@ export function createTaskTools(
               taskPrompt,
               intervalMs,
               maxIterations,
+              model,
+              triggerMode,
+              cronExpression: cronSchedule?.cronExpression,
+              timezone: cronSchedule?.timezone,
               enabledToolGroups: toolGroups,
               enabledSkills: [],
+              approvalRequiredTools,
+              dryRun,
+              maxRetries,
+              failureThreshold,
               userId,
               agentId,
               chatId: chatId || null,
@@ -148,11 +483,13 @@ export function createTaskTools(
             userId,
             taskPrompt,
             systemPrompt: agentSystemPrompt,
-            model: "anthropic/claude-haiku-4.5",
+            model,
             intervalMs,
             maxIterations: maxIterations ?? undefined,
             enabledToolGroups: toolGroups,
             enabledSkills: [],
+            triggerMode,
+            ...cronSchedule,
           };
 
           // Start the durable workflow
@@ -164,14 +501,24 @@ export function createTaskTools(
             data: { workflowRunId: run.runId },
           });
 
+          const schedule = cronSchedule
+            ? `on the schedule "${describeCronExpression(cronSchedule.cronExpression)}" (${timezone})`
+            : eventTriggered
+              ? "whenever it is triggered"
+              : `every ${intervalMinutes} minute${intervalMinutes === 1 ? "" : "s"}`;
+
           return {
             taskId: task.id,
             name,
             status: "running",
-            intervalMinutes,
+            ...(cronSchedule ??
+              (eventTriggered ? { triggerMode } : { intervalMinutes })),
+            model,
+            approvalRequiredTools,
+            ...(dryRun && { dryRun }),
             maxIterations: maxIterations ?? "unlimited",
             toolGroups,
-            message: `Task "${name}" has been created and is now running. It will execute every ${intervalMinutes} minute${intervalMinutes === 1 ? "" : "s"}.`,
+            message: `Task "${name}" has been created and is now running. It will execute ${schedule}.${dryRun ? " It runs as a dry run: posts, payments, and trades are simulated." : ""}`,
           };
         } catch (error) {
           console.error("[Task Tool] createRecurringTask error:", error);
@@ -215,6 +562,7 @@ export function createTaskTools(
               status: t.status,
               agent: t.agent.name,
               currentIteration: t.currentIteration,
+              schedule: describeTaskSchedule(t),
               intervalMinutes: t.intervalMs / 60000,
               maxIterations: t.maxIterations ?? "unlimited",
               lastExecutedAt: t.lastExecutedAt?.toISOString() ?? "never",
@@ -270,6 +618,9 @@ export function createTaskTools(
             agent: taskWithRelations.agent.name,
             prompt: taskWithRelations.taskPrompt,
             currentIteration: taskWithRelations.currentIteration,
+            schedule: describeTaskSchedule(taskWithRelations),
+            cronExpression: taskWithRelations.cronExpression ?? undefined,
+            timezone: taskWithRelations.timezone ?? undefined,
             intervalMinutes: taskWithRelations.intervalMs / 60000,
             maxIterations: taskWithRelations.maxIterations ?? "unlimited",
             lastExecutedAt:
@@ -427,5 +778,333 @@ export function createTaskTools(
         }
       },
     }),
+
+    createTaskPipeline: tool({
+      description:
+        "Chain existing tasks into a pipeline: when a stage finishes, its output (and any structured result) " +
+        "triggers the stages connected after it. Supports fan-out, fan-in, and conditional edges. " +
+        "Use for multi-step workflows like 'scan mentions → draft replies → post approved ones'.",
+      inputSchema: createTaskPipelineSchema,
+      execute: async (input: z.infer<typeof createTaskPipelineSchema>) => {
+        try {
+          const pipelineCount = await prisma.taskPipeline.count({
+            where: { userId },
+          });
+          if (pipelineCount >= MAX_PIPELINES_PER_USER) {
+            return {
+              error: `You have reached the maximum of ${MAX_PIPELINES_PER_USER} pipelines. Delete one first.`,
+            };
+          }
+
+          const result = await createTaskPipeline(userId, {
+            name: input.name,
+            description: input.description,
+            stageIds: input.stageTaskIds,
+            edges: input.edges.map((e) => ({
+              fromTaskId: e.fromTaskId,
+              toTaskId: e.toTaskId,
+              condition: e.condition ?? null,
+            })),
+          });
+          if (!result.ok) return { error: result.error };
+
+          return {
+            pipelineId: result.pipelineId,
+            name: input.name,
+            stages: input.stageTaskIds.length,
+            edges: input.edges.length,
+            message: `Pipeline "${input.name}" created. It runs each time its first stage finishes an iteration, or on demand with runTaskPipeline.`,
+          };
+        } catch (error) {
+          console.error("[Task Tool] createTaskPipeline error:", error);
+          return {
+            error: `Failed to create pipeline: ${error instanceof Error ? error.message : "Unknown error"}`,
+          };
+        }
+      },
+    }),
+
+    runTaskPipeline: tool({
+      description:
+        "Start a pipeline run now by triggering its first stages. They must be running, event-triggered tasks.",
+      inputSchema: runTaskPipelineSchema,
+      execute: async (input: z.infer<typeof runTaskPipelineSchema>) => {
+        try {
+          const pipeline = await prisma.taskPipeline.findFirst({
+            where: { id: input.pipelineId, userId },
+            select: { id: true, name: true },
+          });
+          if (!pipeline) {
+            return {
+              error: "Pipeline not found or you don't have access to it.",
+            };
+          }
+
+          const result = await startPipelineRun(pipeline.id);
+          if (!result.ok) return { error: result.error };
+
+          return {
+            pipelineId: pipeline.id,
+            runId: result.runId,
+            message: `Pipeline "${pipeline.name}" started.`,
+          };
+        } catch (error) {
+          console.error("[Task Tool] runTaskPipeline error:", error);
+          return {
+            error: `Failed to run pipeline: ${error instanceof Error ? error.message : "Unknown error"}`,
+          };
+        }
+      },
+    }),
+
+    addTaskDelivery: tool({
+      description:
+        "Send a task's results somewhere the user will see them without opening the dashboard: " +
+        "email, SMS, or a signed webhook. Choose when: every run, failed runs, or only runs the agent flags as notable.",
+      inputSchema: addTaskDeliverySchema,
+      execute: async (input: z.infer<typeof addTaskDeliverySchema>) => {
+        try {
+          const result = await createTaskDeliveryTarget(userId, input.taskId, {
+            channel: input.channel,
+            destination: input.destination,
+            condition: input.condition,
+          });
+          if (!result.ok) return { error: result.error };
+
+          return {
+            targetId: result.targetId,
+            taskId: input.taskId,
+            ...(result.secret && {
+              webhookSecret: result.secret,
+              signatureHeader:
+                "X-Task-Signature: sha256=HMAC-SHA256(secret, `${X-Task-Timestamp}.${body}`)",
+            }),
+            message: `Results will be sent by ${input.channel} (${input.condition === "always" ? "every run" : input.condition === "error" ? "failed runs only" : "notable runs only"}).${result.secret ? " Save the webhook secret now — it won't be shown again." : ""}`,
+          };
+        } catch (error) {
+          console.error("[Task Tool] addTaskDelivery error:", error);
+          return {
+            error: `Failed to add delivery: ${error instanceof Error ? error.message : "Unknown error"}`,
+          };
+        }
+      },
+    }),
+
+    addTaskWatcher: tool({
+      description:
+        "Watch the chain for a condition and wake an event-triggered task only when it matches — " +
+        "an incoming SOL/token transfer, a price crossing or percentage move, or a new token holder. " +
+        "Checks run about once a minute without using AI credits; the task receives the matching transactions or price.",
+      inputSchema: addTaskWatcherSchema,
+      execute: async (input: z.infer<typeof addTaskWatcherSchema>) => {
+        try {
+          const { taskId, type, address, mint, minAmount } = input;
+          const config =
+            type === "price"
+              ? {
+                  mint,
+                  above: input.above,
+                  below: input.below,
+                  changePercent: input.changePercent,
+                }
+              : type === "transfer"
+                ? { address, mint, minAmount }
+                : { mint, minAmount };
+
+          const result = await createTaskWatcher(userId, taskId, {
+            type,
+            config,
+          });
+          if (!result.ok) return { error: result.error };
+
+          return {
+            watcherId: result.watcherId,
+            taskId,
+            message: `Watching: ${result.description}. The task will be triggered when it matches.`,
+          };
+        } catch (error) {
+          console.error("[Task Tool] addTaskWatcher error:", error);
+          return {
+            error: `Failed to add watcher: ${error instanceof Error ? error.message : "Unknown error"}`,
+          };
+        }
+      },
+    }),
+
+    saveTaskTemplate: tool({
+      description:
+        "Save one of the user's tasks as a reusable template, optionally with {placeholders} " +
+        "(e.g. {tokenMint}, {twitterHandle}) that are filled in on each install. " +
+        "Templates can be kept private, published to the public gallery, or shared with a corporation.",
+      inputSchema: saveTaskTemplateSchema,
+      execute: async (input: z.infer<typeof saveTaskTemplateSchema>) => {
+        try {
+          const { taskId, ...fields } = input;
+          const fromTask = await taskToTemplateInput(userId, taskId);
+          if (!fromTask) {
+            return { error: "Task not found or you don't have access to it." };
+          }
+
+          const overrides = Object.fromEntries(
+            Object.entries(fields).filter(([, value]) => value !== undefined),
+          );
+          const result = await createTaskTemplate(userId, {
+            ...fromTask,
+            ...overrides,
+          });
+          if (!result.ok) return { error: result.error };
+
+          const template = await getTaskTemplate(userId, result.templateId);
+          return {
+            templateId: result.templateId,
+            name: template?.name,
+            visibility: template?.visibility,
+            placeholders: template?.parameters.map((p) => p.name) ?? [],
+            message: `Template saved${template?.visibility === "public" ? " and published to the gallery" : ""}.`,
+          };
+        } catch (error) {
+          console.error("[Task Tool] saveTaskTemplate error:", error);
+          return {
+            error: `Failed to save template: ${error instanceof Error ? error.message : "Unknown error"}`,
+          };
+        }
+      },
+    }),
+
+    listTaskTemplates: tool({
+      description:
+        "Browse task templates the user can install: public ones, their own, and their corporations', most installed first. " +
+        "Check here before building a common task (timeline scanner, portfolio digest) from scratch.",
+      inputSchema: listTaskTemplatesSchema,
+      execute: async (input: z.infer<typeof listTaskTemplatesSchema>) => {
+        try {
+          const templates = await listTaskTemplates(userId, {
+            scope: input.mine ? "mine" : "gallery",
+            query: input.query,
+          });
+          return {
+            templates: templates.map((t) => ({
+              templateId: t.id,
+              name: t.name,
+              description: t.description,
+              schedule: describeTaskSchedule({
+                triggerMode: t.triggerMode,
+                intervalMs: t.intervalMs ?? 0,
+                cronExpression: t.cronExpression,
+                timezone: t.timezone,
+              }),
+              toolGroups: t.enabledToolGroups,
+              parameters: t.parameters,
+              installs: t.installCount,
+              creator: t.createdByYou ? "you" : (t.creator ?? "anonymous"),
+              visibility: t.visibility,
+            })),
+          };
+        } catch (error) {
+          console.error("[Task Tool] listTaskTemplates error:", error);
+          return {
+            error: `Failed to list templates: ${error instanceof Error ? error.message : "Unknown error"}`,
+          };
+        }
+      },
+    }),
+
+    createTaskFromTemplate: tool({
+      description:
+        "Create and start a task from a template, filling in its placeholders. " +
+        "Ask the user for any required values that aren't clear from the conversation.",
+      inputSchema: createTaskFromTemplateSchema,
+      execute: async (input: z.infer<typeof createTaskFromTemplateSchema>) => {
+        try {
+          const template = await resolveTaskTemplate(
+            userId,
+            input.templateId,
+            input.values,
+          );
+          if (!template.ok) return { error: template.error };
+          const { resolved } = template;
+
+          const activeCount = await prisma.agentTask.count({
+            where: {
+              userId,
+              status: { in: ["running", "paused"] },
+            },
+          });
+          if (activeCount >= MAX_CONCURRENT_TASKS) {
+            return {
+              error: `You have reached the maximum of ${MAX_CONCURRENT_TASKS} concurrent tasks. Stop an existing task first.`,
+            };
+          }
+
+          const triggerMode = resolved.triggerMode as TaskConfig["triggerMode"];
+          const model = resolved.model ?? DEFAULT_AGENT_MODEL;
+          const cronSchedule =
+            triggerMode === "cron" && resolved.cronExpression
+              ? {
+                  cronExpression: resolved.cronExpression,
+                  timezone: resolved.timezone ?? DEFAULT_TASK_TIMEZONE,
+                }
+              : null;
+
+          const task = await prisma.agentTask.create({
+            data: {
+              name: resolved.name,
+              description: resolved.taskPrompt,
+              status: "running",
+              taskPrompt: resolved.taskPrompt,
+              intervalMs: resolved.intervalMs,
+              model,
+              triggerMode,
+              cronExpression: cronSchedule?.cronExpression,
+              timezone: cronSchedule?.timezone,
+              enabledToolGroups: resolved.enabledToolGroups,
+              enabledSkills: resolved.enabledSkills,
+              approvalRequiredTools: [...SENSITIVE_TASK_TOOLS],
+              dryRun: input.dryRun ?? false,
+              templateId: resolved.templateId,
+              userId,
+              agentId,
+              chatId: chatId || null,
+            },
+          });
+
+          const taskConfig: TaskConfig = {
+            taskId: task.id,
+            agentId,
+            userId,
+            taskPrompt: resolved.taskPrompt,
+            systemPrompt: agentSystemPrompt,
+            model,
+            intervalMs: resolved.intervalMs,
+            enabledToolGroups: resolved.enabledToolGroups,
+            enabledSkills: resolved.enabledSkills,
+            triggerMode,
+            ...cronSchedule,
+          };
+
+          const run = await start(recurringTaskWorkflow, [taskConfig]);
+
+          await prisma.agentTask.update({
+            where: { id: task.id },
+            data: { workflowRunId: run.runId },
+          });
+          await recordTemplateInstall(resolved.templateId);
+
+          return {
+            taskId: task.id,
+            name: task.name,
+            status: "running",
+            schedule: describeTaskSchedule(task),
+            ...(task.dryRun && { dryRun: true }),
+            message: `Task "${task.name}" has been created from the template and is now running (${describeTaskSchedule(task)}).`,
+          };
+        } catch (error) {
+          console.error("[Task Tool] createTaskFromTemplate error:", error);
+          return {
+            error: `Failed to create task from template: ${error instanceof Error ? error.message : "Unknown error"}`,
+          };
+        }
+      },
+    }),
   };
 }
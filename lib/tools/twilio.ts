@@ -37,7 +37,7 @@ import type { BillingContext } from "@/lib/x402";
 /**
  * Get Twilio client with credentials from environment
  */
-function getTwilioClient() {
+export function getTwilioClient() {
   const accountSid = process.env.TWILIO_ACCOUNT_SID;
   const authToken = process.env.TWILIO_AUTH_TOKEN;
 
@@ -51,7 +51,7 @@ function getTwilioClient() {
 /**
  * Get the Twilio phone number from environment
  */
-function getTwilioPhoneNumber(): string | null {
+export function getTwilioPhoneNumber(): string | null {
   return process.env.TWILIO_PHONE_NUMBER || null;
 }
 
@@ -66,7 +66,7 @@ function getTwilioWhatsAppNumber(): string | null {
  * Validate E.164 phone number format
  * E.164: +[country code][number], e.g., +15551234567
  */
-function isValidE164(phone: string): boolean {
+export function isValidE164(phone: string): boolean {
   const e164Regex = /^\+[1-9]\d{1,14}$/;
   return e164Regex.test(phone);
 }
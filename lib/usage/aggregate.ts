@@ -0,0 +1,258 @@
+/**
+ * Usage Aggregation
+ *
+ * Read-side queries over UsageRecord: grouped cost breakdowns, paginated
+ * record listings and CSV export. All queries are scoped to one user.
+ */
+
+import prisma from "@/lib/prisma";
+import { Prisma } from "@/app/generated/prisma/client";
+
+import {
+  DEFAULT_USAGE_WINDOW_DAYS,
+  MAX_USAGE_GROUPS,
+  MAX_USAGE_WINDOW_DAYS,
+  type UsageFilters,
+  type UsageGroup,
+  type UsageGroupBy,
+} from "./constants";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Group-by expressions — whitelisted, never built from user input
+const GROUP_KEY_SQL: Record<UsageGroupBy, Prisma.Sql> = {
+  day: Prisma.sql`to_char(date_trunc('day', "createdAt"), 'YYYY-MM-DD')`,
+  agent: Prisma.sql`"agentId"`,
+  tool: Prisma.sql`"toolName"`,
+  task: Prisma.sql`"taskId"`,
+  model: Prisma.sql`"model"`,
+  apiKey: Prisma.sql`"apiKeyId"`,
+};
+
+interface UsageGroupRow {
+  key: string | null;
+  count: number;
+  usdCost: number | null;
+  lamports: bigint | null;
+  inputTokens: bigint | null;
+  outputTokens: bigint | null;
+  contextUsdSaved: number | null;
+}
+
+/**
+ * Parse `from`/`to` query params into a bounded reporting window.
+ * Defaults to the last DEFAULT_USAGE_WINDOW_DAYS days.
+ *
+ * @returns null when either date is invalid or the window is too large
+ */
+export function parseUsageWindow(
+  fromRaw: string | null,
+  toRaw: string | null,
+): { from: Date; to: Date } | null {
+  const to = toRaw ? new Date(toRaw) : new Date();
+  const from = fromRaw
+    ? new Date(fromRaw)
+    : new Date(to.getTime() - DEFAULT_USAGE_WINDOW_DAYS * DAY_MS);
+
+  if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) return null;
+  if (to.getTime() - from.getTime() > MAX_USAGE_WINDOW_DAYS * DAY_MS) {
+    return null;
+  }
+  return { from, to };
+}
+
+/**
+ * Build the Prisma where clause shared by listing and export.
+ */
+export function buildUsageWhere(
+  userId: string,
+  filters: UsageFilters,
+): Prisma.UsageRecordWhereInput {
+  return {
+    userId,
+    createdAt: { gte: filters.from, lt: filters.to },
+    ...(filters.agentId && { agentId: filters.agentId }),
+    ...(filters.taskId && { taskId: filters.taskId }),
+    ...(filters.chatId && { chatId: filters.chatId }),
+    ...(filters.toolName && { toolName: filters.toolName }),
+    ...(filters.apiKeyId && { apiKeyId: filters.apiKeyId }),
+  };
+}
+
+/**
+ * Aggregate successful charges for a user by day, agent, tool, task, model
+ * or API key. Agent, task and API key groups are labelled with their current
+ * name when they still exist.
+ */
+export async function getUsageBreakdown(
+  userId: string,
+  groupBy: UsageGroupBy,
+  filters: UsageFilters,
+): Promise<{ groups: UsageGroup[]; totals: Omit<UsageGroup, "key"> }> {
+  const conditions: Prisma.Sql[] = [
+    Prisma.sql`"userId" = ${userId}`,
+    Prisma.sql`"success" = true`,
+    Prisma.sql`"createdAt" >= ${filters.from}`,
+    Prisma.sql`"createdAt" < ${filters.to}`,
+  ];
+  if (filters.agentId)
+    conditions.push(Prisma.sql`"agentId" = ${filters.agentId}`);
+  if (filters.taskId) conditions.push(Prisma.sql`"taskId" = ${filters.taskId}`);
+  if (filters.chatId) conditions.push(Prisma.sql`"chatId" = ${filters.chatId}`);
+  if (filters.toolName) {
+    conditions.push(Prisma.sql`"toolName" = ${filters.toolName}`);
+  }
+  if (filters.apiKeyId) {
+    conditions.push(Prisma.sql`"apiKeyId" = ${filters.apiKeyId}`);
+  }
+
+  const keySql = GROUP_KEY_SQL[groupBy];
+  const orderSql =
+    groupBy === "day" ? Prisma.sql`"key" ASC` : Prisma.sql`"usdCost" DESC`;
+
+  const where = Prisma.join(conditions, " AND ");
+
+  // Totals come from their own ungrouped aggregate — groups are capped at
+  // MAX_USAGE_GROUPS, so summing them would undercount large accounts
+  const [rows, [totalsRow]] = await Promise.all([
+    prisma.$queryRaw<UsageGroupRow[]>`
+      SELECT ${keySql} AS "key",
+             COUNT(*)::int AS "count",
+             SUM("usdCost") AS "usdCost",
+             SUM("lamports")::bigint AS "lamports",
+             SUM(COALESCE("inputTokens", 0))::bigint AS "inputTokens",
+             SUM(COALESCE("outputTokens", 0))::bigint AS "outputTokens",
+             SUM(COALESCE("contextUsdSaved", 0)) AS "contextUsdSaved"
+      FROM "UsageRecord"
+      WHERE ${where}
+      GROUP BY 1
+      ORDER BY ${orderSql}
+      LIMIT ${MAX_USAGE_GROUPS}
+    `,
+    prisma.$queryRaw<Omit<UsageGroupRow, "key">[]>`
+      SELECT COUNT(*)::int AS "count",
+             SUM("usdCost") AS "usdCost",
+             SUM("lamports")::bigint AS "lamports",
+             SUM(COALESCE("inputTokens", 0))::bigint AS "inputTokens",
+             SUM(COALESCE("outputTokens", 0))::bigint AS "outputTokens",
+             SUM(COALESCE("contextUsdSaved", 0)) AS "contextUsdSaved"
+      FROM "UsageRecord"
+      WHERE ${where}
+    `,
+  ]);
+
+  const labels = await resolveGroupLabels(
+    groupBy,
+    rows.map((r) => r.key).filter((k): k is string => !!k),
+  );
+
+  const groups: UsageGroup[] = rows.map((row) => ({
+    key: row.key,
+    ...(row.key && labels.has(row.key) && { label: labels.get(row.key) }),
+    count: row.count,
+    usdCost: row.usdCost ?? 0,
+    lamports: (row.lamports ?? BigInt(0)).toString(),
+    inputTokens: Number(row.inputTokens ?? 0),
+    outputTokens: Number(row.outputTokens ?? 0),
+    contextUsdSaved: row.contextUsdSaved ?? 0,
+  }));
+
+  const totals = {
+    count: totalsRow?.count ?? 0,
+    usdCost: totalsRow?.usdCost ?? 0,
+    lamports: (totalsRow?.lamports ?? BigInt(0)).toString(),
+    inputTokens: Number(totalsRow?.inputTokens ?? 0),
+    outputTokens: Number(totalsRow?.outputTokens ?? 0),
+    contextUsdSaved: totalsRow?.contextUsdSaved ?? 0,
+  };
+
+  return { groups, totals };
+}
+
+async function resolveGroupLabels(
+  groupBy: UsageGroupBy,
+  ids: string[],
+): Promise<Map<string, string>> {
+  if (ids.length === 0) return new Map();
+
+  if (groupBy === "agent") {
+    const agents = await prisma.agent.findMany({
+      where: { id: { in: ids } },
+      select: { id: true, name: true },
+    });
+    return new Map(agents.map((a) => [a.id, a.name]));
+  }
+
+  if (groupBy === "task") {
+    const tasks = await prisma.agentTask.findMany({
+      where: { id: { in: ids } },
+      select: { id: true, name: true },
+    });
+    return new Map(tasks.map((t) => [t.id, t.name]));
+  }
+
+  if (groupBy === "apiKey") {
+    const keys = await prisma.apiKey.findMany({
+      where: { id: { in: ids } },
+      select: { id: true, name: true },
+    });
+    return new Map(keys.map((k) => [k.id, k.name]));
+  }
+
+  return new Map();
+}
+
+// ── CSV Export ───────────────────────────────────────────────────────────────
+
+const CSV_COLUMNS = [
+  "createdAt",
+  "source",
+  "description",
+  "model",
+  "inputTokens",
+  "outputTokens",
+  "toolName",
+  "chatId",
+  "agentId",
+  "taskId",
+  "apiKeyId",
+  "usdCost",
+  "lamports",
+  "paymentMethod",
+  "tokenMint",
+  "txSignature",
+  "success",
+  "error",
+  "contextTokensSaved",
+  "contextUsdSaved",
+] as const;
+
+type CsvRecord = Record<
+  (typeof CSV_COLUMNS)[number],
+  string | number | bigint | boolean | Date | null
+>;
+
+function escapeCsv(value: CsvRecord[keyof CsvRecord]): string {
+  if (value === null || value === undefined) return "";
+  const str = value instanceof Date ? value.toISOString() : String(value);
+  // Quote fields containing delimiters; prefix formula triggers so
+  // spreadsheets never evaluate user-influenced text
+  const safe = /^[=+\-@]/.test(str) ? `'${str}` : str;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Serialize usage records to CSV (header row + one row per record).
+ */
+export function usageRecordsToCsv(records: CsvRecord[]): string {
+  const lines = [CSV_COLUMNS.join(",")];
+  for (const record of records) {
+    lines.push(CSV_COLUMNS.map((col) => escapeCsv(record[col])).join(","));
+  }
+  return lines.join("\n") + "\n";
+}
+
+/** Prisma select matching the CSV columns */
+export const CSV_SELECT = Object.fromEntries(
+  CSV_COLUMNS.map((col) => [col, true]),
+) as Record<(typeof CSV_COLUMNS)[number], true>;
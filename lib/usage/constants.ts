@@ -0,0 +1,100 @@
+/**
+ * Usage Records Constants
+ *
+ * Types and limits for the per-charge usage ledger. Every billing charge
+ * (inference or billed tool) writes one UsageRecord with the chat, agent,
+ * task and tool it should be attributed to.
+ */
+
+// ── Limits ───────────────────────────────────────────────────────────────────
+
+/** Reporting window used when no `from` is given (days) */
+export const DEFAULT_USAGE_WINDOW_DAYS = 30;
+
+/** Max reporting window for aggregation and export (days) */
+export const MAX_USAGE_WINDOW_DAYS = 366;
+
+/** Max groups returned by a single aggregation query */
+export const MAX_USAGE_GROUPS = 500;
+
+/** Max rows in a single CSV export */
+export const MAX_EXPORT_ROWS = 10_000;
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type UsageSource = "inference" | "tool";
+
+export type UsagePaymentMethod = "credits" | "token";
+
+export const USAGE_GROUP_BY = [
+  "day",
+  "agent",
+  "tool",
+  "task",
+  "model",
+  "apiKey",
+] as const;
+export type UsageGroupBy = (typeof USAGE_GROUP_BY)[number];
+
+/**
+ * Where a charge should be attributed. Set once per request on the
+ * BillingContext and merged into every charge made through it.
+ */
+export interface UsageAttribution {
+  chatId?: string;
+  agentId?: string;
+  taskId?: string;
+  /** API key that authenticated the request (/api/v1 traffic) */
+  apiKeyId?: string;
+}
+
+/**
+ * Metadata accepted by chargeForUsage / BillingContext.chargeUsage.
+ * `toolName` marks the charge as a billed tool call rather than inference.
+ */
+export interface UsageMetadata extends UsageAttribution {
+  model?: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  toolName?: string;
+  /** Input tokens the chat summary kept out of this request */
+  contextTokensSaved?: number;
+  /** What those tokens would have cost (fee included) */
+  contextUsdSaved?: number;
+}
+
+export interface RecordUsageInput extends UsageMetadata {
+  userId: string;
+  description: string;
+  usdCost: number;
+  lamports: bigint;
+  paymentMethod: UsagePaymentMethod;
+  tokenMint?: string;
+  txSignature?: string;
+  ledgerEntryId?: string;
+  success: boolean;
+  error?: string;
+}
+
+export interface UsageFilters {
+  from: Date;
+  to: Date;
+  agentId?: string;
+  taskId?: string;
+  chatId?: string;
+  toolName?: string;
+  apiKeyId?: string;
+}
+
+export interface UsageGroup {
+  key: string | null;
+  /** Agent, task or API key name when grouping by those */
+  label?: string;
+  count: number;
+  usdCost: number;
+  lamports: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** Inference cost avoided by chat summaries (USD) */
+  contextUsdSaved: number;
+}
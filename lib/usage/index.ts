@@ -0,0 +1,24 @@
+export {
+  DEFAULT_USAGE_WINDOW_DAYS,
+  MAX_USAGE_WINDOW_DAYS,
+  MAX_USAGE_GROUPS,
+  MAX_EXPORT_ROWS,
+  USAGE_GROUP_BY,
+  type UsageSource,
+  type UsagePaymentMethod,
+  type UsageGroupBy,
+  type UsageAttribution,
+  type UsageMetadata,
+  type RecordUsageInput,
+  type UsageFilters,
+  type UsageGroup,
+} from "./constants";
+
+export { recordUsage } from "./record";
+export {
+  parseUsageWindow,
+  buildUsageWhere,
+  getUsageBreakdown,
+  usageRecordsToCsv,
+  CSV_SELECT,
+} from "./aggregate";
@@ -0,0 +1,48 @@
+/**
+ * Usage Record Writer
+ *
+ * Persists one UsageRecord per billing charge. Called from the billing
+ * middleware after every charge attempt — failed charges are recorded too
+ * (success=false) so unpaid usage is still visible.
+ *
+ * Never throws: a failed write is logged and must not affect the charge.
+ */
+
+import prisma from "@/lib/prisma";
+
+import type { RecordUsageInput } from "./constants";
+
+/**
+ * Write a usage record for a single charge.
+ */
+export async function recordUsage(input: RecordUsageInput): Promise<void> {
+  try {
+    await prisma.usageRecord.create({
+      data: {
+        userId: input.userId,
+        source: input.toolName ? "tool" : "inference",
+        description: input.description.slice(0, 500),
+        model: input.model,
+        inputTokens: input.inputTokens,
+        outputTokens: input.outputTokens,
+        toolName: input.toolName,
+        chatId: input.chatId,
+        agentId: input.agentId,
+        taskId: input.taskId,
+        apiKeyId: input.apiKeyId,
+        usdCost: input.usdCost,
+        lamports: input.lamports,
+        paymentMethod: input.paymentMethod,
+        tokenMint: input.tokenMint,
+        txSignature: input.txSignature,
+        ledgerEntryId: input.ledgerEntryId,
+        success: input.success,
+        error: input.error?.slice(0, 500),
+        contextTokensSaved: input.contextTokensSaved,
+        contextUsdSaved: input.contextUsdSaved,
+      },
+    });
+  } catch (error) {
+    console.error("[Usage] Failed to write usage record:", error);
+  }
+}
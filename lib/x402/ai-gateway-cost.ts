@@ -6,6 +6,8 @@
  *
  * Pricing data is cached in Redis (shared across instances, 1-hour TTL)
  * with an in-memory L1 cache for ultra-fast reads within the same process.
+ * Each entry also carries catalog metadata (context window, capabilities)
+ * from the gateway's public model listing, served by GET /api/v1/models.
  */
 
 import { gateway } from "@ai-sdk/gateway";
@@ -25,6 +27,25 @@ export interface ModelPricing {
   outputCostPerToken: number;
   /** Cost per cached input token (if available) */
   cachedInputCostPerToken?: number;
+  /** Display name (e.g., "Claude Sonnet 4") */
+  name?: string;
+  /** Gateway model type — absent for entries cached before metadata existed */
+  modelType?: "language" | "embedding" | "image" | "video";
+  /** Maximum context length in tokens (if known) */
+  contextWindow?: number;
+  /** Maximum output tokens per request (if known) */
+  maxOutputTokens?: number;
+  /** Capabilities advertised by the gateway */
+  capabilities?: ModelCapabilities;
+}
+
+/**
+ * Model capabilities, derived from the gateway's model tags
+ */
+export interface ModelCapabilities {
+  tools: boolean;
+  vision: boolean;
+  reasoning: boolean;
 }
 
 /**
@@ -59,6 +80,8 @@ export interface CalculatedCost {
 // ── Cache layer ─────────────────────────────────────────────────────────
 
 const REDIS_CACHE_KEY = "ai:model:pricing";
+const GATEWAY_MODELS_URL = "https://ai-gateway.vercel.sh/v1/models";
+const GATEWAY_MODELS_TIMEOUT_MS = 10_000;
 const REDIS_CACHE_TTL = 3600; // 1 hour
 const MEMORY_CACHE_TTL = 60 * 60 * 1000; // 1 hour
 
@@ -109,12 +132,68 @@ async function saveToRedis(pricing: Map<string, ModelPricing>): Promise<void> {
   }
 }
 
+/**
+ * Catalog metadata from the gateway's public OpenAI-style model listing.
+ * The SDK's getAvailableModels() has pricing but no context window or tags.
+ */
+interface GatewayModelMetadata {
+  contextWindow?: number;
+  maxOutputTokens?: number;
+  capabilities: ModelCapabilities;
+}
+
+/**
+ * Fetch context windows and capability tags. Best-effort — pricing is
+ * still cached when this fails.
+ */
+async function fetchGatewayModelMetadata(): Promise<
+  Map<string, GatewayModelMetadata>
+> {
+  const metadata = new Map<string, GatewayModelMetadata>();
+
+  try {
+    const res = await fetch(GATEWAY_MODELS_URL, {
+      signal: AbortSignal.timeout(GATEWAY_MODELS_TIMEOUT_MS),
+    });
+    if (!res.ok) return metadata;
+
+    const { data } = (await res.json()) as {
+      data?: Array<{
+        id: string;
+        context_window?: number;
+        max_tokens?: number;
+        tags?: string[];
+      }>;
+    };
+
+    for (const model of data ?? []) {
+      const tags = new Set(model.tags ?? []);
+      metadata.set(model.id, {
+        contextWindow: model.context_window || undefined,
+        maxOutputTokens: model.max_tokens || undefined,
+        capabilities: {
+          tools: tags.has("tool-use"),
+          vision: tags.has("vision"),
+          reasoning: tags.has("reasoning"),
+        },
+      });
+    }
+  } catch {
+    // Non-critical
+  }
+
+  return metadata;
+}
+
 /**
  * Fetch and cache model pricing from AI Gateway.
  */
 export async function refreshPricingCache(): Promise<void> {
   try {
-    const { models } = await gateway.getAvailableModels();
+    const [{ models }, metadata] = await Promise.all([
+      gateway.getAvailableModels(),
+      fetchGatewayModelMetadata(),
+    ]);
 
     const newCache = new Map<string, ModelPricing>();
 
@@ -127,6 +206,9 @@ export async function refreshPricingCache(): Promise<void> {
           cachedInputCostPerToken: model.pricing.cachedInputTokens
             ? Number(model.pricing.cachedInputTokens)
             : undefined,
+          name: model.name,
+          modelType: model.modelType ?? undefined,
+          ...metadata.get(model.id),
         });
       }
     }
@@ -216,6 +298,16 @@ export async function getModelPricing(
   return null;
 }
 
+/**
+ * List every priced model in the cache, sorted by ID.
+ */
+export async function getModelCatalog(): Promise<ModelPricing[]> {
+  await ensurePricingLoaded();
+  return [...memoryPricingCache.values()].sort((a, b) =>
+    a.modelId.localeCompare(b.modelId),
+  );
+}
+
 /**
  * Calculate the cost of a generation from token usage.
  *
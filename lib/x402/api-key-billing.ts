@@ -0,0 +1,251 @@
+/**
+ * API Key Billing
+ *
+ * Bills /api/v1 traffic authenticated with an `sk-ai_` key to the key's
+ * owner, the same way dashboard chat is billed: AI Gateway cost plus the
+ * platform fee, 20% off for AGENTINC holders, debited from the owner's
+ * prepaid credits (topped up from their wallet when short).
+ *
+ * Each key can carry a monthly spend cap on top of the owner's account
+ * spending limits. Both are checked before generation starts.
+ */
+
+import prisma from "@/lib/prisma";
+import { AGENTINC_TOKEN_MINT } from "@/lib/constants/mint";
+import {
+  checkSpendingLimits,
+  describeBreach,
+  MIN_LIMIT_USD,
+  MAX_LIMIT_USD,
+} from "@/lib/spending";
+import type { UsageAttribution, UsageMetadata } from "@/lib/usage";
+import type { ApiKeyValidation } from "@/lib/auth/validateApiKey";
+
+import {
+  chargeForUsage,
+  getPaymentWalletInfo,
+  isUsageBasedBillingEnabled,
+  type BillingContext,
+  type UsageBillingResult,
+} from "./sol-server-middleware";
+import { applyTokenDiscount, checkTokenHolding } from "./token-holder-discount";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+/**
+ * Billing state resolved once per API request.
+ */
+export interface ApiKeyBillingContext {
+  userId: string;
+  apiKeyId: string;
+  walletAddress: string;
+  /** Owner holds AGENTINC — charges get the 20% holder discount */
+  holdsAgentIncToken: boolean;
+}
+
+/**
+ * Preflight result. On failure, `type`/`code` follow the OpenAI error shape
+ * so /api/v1 routes can return them as-is.
+ */
+export type ApiKeyBillingPreflight =
+  | { ok: true; context: ApiKeyBillingContext }
+  | {
+      ok: false;
+      status: number;
+      message: string;
+      type: string;
+      code: string;
+    };
+
+// ── Spend ────────────────────────────────────────────────────────────────────
+
+/**
+ * Successful spend billed to a key in the current UTC calendar month.
+ */
+export async function getApiKeyMonthlySpend(apiKeyId: string): Promise<number> {
+  const now = new Date();
+  const monthStart = new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1),
+  );
+
+  const agg = await prisma.usageRecord.aggregate({
+    where: { apiKeyId, success: true, createdAt: { gte: monthStart } },
+    _sum: { usdCost: true },
+  });
+  return agg._sum.usdCost ?? 0;
+}
+
+/**
+ * Validate a `monthlySpendLimitUsd` request field.
+ * `undefined` and `null` both mean "no per-key cap".
+ */
+export function parseApiKeySpendLimit(
+  raw: unknown,
+): { ok: true; value: number | null } | { ok: false; error: string } {
+  if (raw === undefined || raw === null) return { ok: true, value: null };
+
+  const value = Number(raw);
+  if (
+    !Number.isFinite(value) ||
+    value < MIN_LIMIT_USD ||
+    value > MAX_LIMIT_USD
+  ) {
+    return {
+      ok: false,
+      error: `monthlySpendLimitUsd must be null or between ${MIN_LIMIT_USD} and ${MAX_LIMIT_USD}`,
+    };
+  }
+  return { ok: true, value };
+}
+
+// ── Preflight & Charge ───────────────────────────────────────────────────────
+
+/**
+ * Resolve the key owner's wallet and verify neither the key's monthly cap
+ * nor the owner's spending limits have been reached.
+ *
+ * Fails closed when billing is not configured — API keys never get free
+ * inference.
+ */
+export async function prepareApiKeyBilling(
+  key: ApiKeyValidation,
+): Promise<ApiKeyBillingPreflight> {
+  if (!isUsageBasedBillingEnabled()) {
+    return {
+      ok: false,
+      status: 503,
+      message: "Billing is not configured. Please try again later.",
+      type: "server_error",
+      code: "billing_unavailable",
+    };
+  }
+
+  const walletInfo = await getPaymentWalletInfo(key.userId);
+  if (!walletInfo) {
+    return {
+      ok: false,
+      status: 403,
+      message:
+        "The account that owns this API key has no wallet. Log in to the dashboard to set one up.",
+      type: "billing_error",
+      code: "no_wallet",
+    };
+  }
+
+  if (key.monthlySpendLimitUsd !== null) {
+    const spent = await getApiKeyMonthlySpend(key.keyId);
+    if (spent >= key.monthlySpendLimitUsd) {
+      return {
+        ok: false,
+        status: 402,
+        message: `This API key's monthly spend limit of $${key.monthlySpendLimitUsd.toFixed(2)} has been reached ($${spent.toFixed(4)} spent).`,
+        type: "billing_error",
+        code: "api_key_limit_exceeded",
+      };
+    }
+  }
+
+  const spending = await checkSpendingLimits({ userId: key.userId });
+  if (!spending.allowed && spending.breach) {
+    return {
+      ok: false,
+      status: 402,
+      message: describeBreach(spending.breach),
+      type: "billing_error",
+      code: "spending_limit_exceeded",
+    };
+  }
+
+  let holdsAgentIncToken = false;
+  try {
+    const holding = await checkTokenHolding(
+      walletInfo.walletAddress,
+      AGENTINC_TOKEN_MINT,
+    );
+    holdsAgentIncToken = holding.holdsToken;
+  } catch (error) {
+    console.error("[v1 Billing] AGENTINC token holding check failed:", error);
+  }
+
+  return {
+    ok: true,
+    context: {
+      userId: key.userId,
+      apiKeyId: key.keyId,
+      walletAddress: walletInfo.walletAddress,
+      holdsAgentIncToken,
+    },
+  };
+}
+
+/**
+ * Charge the key owner for a completed request and add it to the key's
+ * running cost total.
+ *
+ * @param totalWithFee - Cost including the platform fee (from calculateCost)
+ * @param description - Human-readable label for the usage record
+ * @param metadata - Model/token usage for the usage record
+ */
+export async function chargeApiKeyUsage(
+  context: ApiKeyBillingContext,
+  totalWithFee: number,
+  description: string,
+  metadata?: UsageMetadata,
+): Promise<UsageBillingResult> {
+  const finalCost = context.holdsAgentIncToken
+    ? applyTokenDiscount(totalWithFee)
+    : totalWithFee;
+
+  return chargeKeyOwner(context, finalCost, description, metadata);
+}
+
+async function chargeKeyOwner(
+  context: ApiKeyBillingContext,
+  usdCost: number,
+  description: string,
+  metadata?: UsageMetadata,
+): Promise<UsageBillingResult> {
+  const result = await chargeForUsage(context.userId, usdCost, description, {
+    ...metadata,
+    apiKeyId: context.apiKeyId,
+  });
+
+  if (result.success && usdCost > 0) {
+    prisma.apiKey
+      .update({
+        where: { id: context.apiKeyId },
+        data: { totalCostUsd: { increment: usdCost } },
+      })
+      .catch(() => {});
+  }
+
+  return result;
+}
+
+/**
+ * Billing context for tools run on behalf of an API key (agent chat).
+ * Tool charges are billed like in-app chat — no holder discount — and
+ * count toward the key's totals. Token payment isn't offered over the API,
+ * so `chargeUsageInToken` falls back to credits.
+ */
+export function createApiKeyBillingContext(
+  context: ApiKeyBillingContext,
+  attribution: UsageAttribution,
+): BillingContext {
+  const billingContext: BillingContext = {
+    userId: context.userId,
+    walletAddress: context.walletAddress,
+    attribution: { ...attribution, apiKeyId: context.apiKeyId },
+    chargeUsage: (usdCost, desc, metadata) =>
+      chargeKeyOwner(context, usdCost, desc || "API Agent Tool", {
+        ...billingContext.attribution,
+        ...metadata,
+      }),
+    chargeUsageInToken: (usdCost, _tokenMint, _decimals, desc, metadata) =>
+      chargeKeyOwner(context, usdCost, desc || "API Agent Tool", {
+        ...billingContext.attribution,
+        ...metadata,
+      }),
+  };
+  return billingContext;
+}
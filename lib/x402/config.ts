@@ -135,6 +135,7 @@ export const PRICING = {
   speech: 0.005, // $0.005 per request
   transcribe: 0.005, // $0.005 per request
   generateImage: 0.02, // $0.02 per request
+  embeddings: 0.001, // $0.001 per request
 } as const;
 
 /**
@@ -290,6 +291,7 @@ export const ROUTE_DESCRIPTIONS: Record<PricingKey, string> = {
   speech: "Text-to-Speech Generation",
   transcribe: "Speech-to-Text Transcription",
   generateImage: "AI Image Generation",
+  embeddings: "Text Embeddings",
 } as const;
 
 /**
@@ -74,11 +74,13 @@ export type { TokenHoldingResult } from "./token-holder-discount";
 export {
   calculateCost,
   getModelPricing,
+  getModelCatalog,
   refreshPricingCache,
 } from "./ai-gateway-cost";
 
 export type {
   ModelPricing,
+  ModelCapabilities,
   TokenUsage,
   CalculatedCost,
 } from "./ai-gateway-cost";
@@ -16,6 +16,10 @@
  *
  * External users use flat-rate pricing (they pay upfront).
  * Privy users use usage-based pricing (charged after completion).
+ *
+ * Usage-based charges are debited from the user's prepaid credit balance
+ * (see @/lib/credits). The wallet is only touched on-chain when the balance
+ * needs a top-up, and revenue is recognized by the settle-credits cron.
  */
 
 import { NextRequest, NextResponse } from "next/server";
@@ -54,6 +58,16 @@ import {
 import { isRedisConfigured, getRedis } from "@/lib/redis";
 import { logPaymentRevenue } from "@/lib/revenue/events";
 import { PLATFORM_FEE_RATE } from "@/lib/revenue/constants";
+import {
+  debitCredits,
+  depositCredits,
+  CREDIT_AUTO_TOPUP_USD,
+} from "@/lib/credits";
+import {
+  recordUsage,
+  type UsageAttribution,
+  type UsageMetadata,
+} from "@/lib/usage";
 
 // Re-export for backward compatibility
 export { SOL_NETWORK, type SolNetwork, type PricingKey };
@@ -72,6 +86,14 @@ interface FailedPayment {
   timestamp: string; // ISO string for serialization
   attempts: number;
   lastError: string;
+  /**
+   * Top-up that already reached the treasury. Retries credit it by
+   * signature and retry only the debit — the wallet is never charged again.
+   */
+  topUpSignature?: string;
+  topUpLamports?: string;
+  /** Model, token counts and attribution of the original charge */
+  metadata?: UsageMetadata;
 }
 
 // Redis keys
@@ -145,6 +167,10 @@ async function retryPaymentWithBackoff(
  * Queue a failed payment for later retry.
  * Uses Redis RPUSH for atomic append (no read-modify-write race condition).
  * Falls back to non-atomic load/save if RPUSH is unavailable.
+ *
+ * Pass `topUp` when the charge already sent a top-up, so retries never
+ * send another one, and `metadata` so the retried charge keeps its
+ * attribution.
  */
 export async function queueFailedPayment(
   userId: string,
@@ -154,6 +180,10 @@ export async function queueFailedPayment(
   usdCost: number,
   description: string,
   error: string,
+  options: {
+    topUp?: { signature: string; lamports: bigint };
+    metadata?: UsageMetadata;
+  } = {},
 ): Promise<void> {
   const newEntry: FailedPayment = {
     userId,
@@ -165,6 +195,11 @@ export async function queueFailedPayment(
     timestamp: new Date().toISOString(),
     attempts: 0,
     lastError: error,
+    ...(options.topUp && {
+      topUpSignature: options.topUp.signature,
+      topUpLamports: options.topUp.lamports.toString(),
+    }),
+    metadata: options.metadata,
   };
 
   // Use atomic Redis list append to avoid read-modify-write race condition
@@ -181,23 +216,10 @@ export async function queueFailedPayment(
     }
   }
 
-  // Legacy fallback (non-atomic, acceptable for local dev)
+  // Legacy fallback (non-atomic, acceptable for local dev).
+  // Entries aren't merged — each one carries its own top-up.
   const queue = await loadFailedPayments();
-
-  const existingIndex = queue.findIndex(
-    (p) => p.userId === userId && p.walletAddress === walletAddress,
-  );
-
-  if (existingIndex >= 0) {
-    const existing = queue[existingIndex];
-    existing.lamports = (BigInt(existing.lamports) + lamports).toString();
-    existing.usdCost += usdCost;
-    existing.lastError = error;
-    existing.timestamp = new Date().toISOString();
-  } else {
-    queue.push(newEntry);
-  }
-
+  queue.push(newEntry);
   await saveFailedPayments(queue);
 }
 
@@ -229,6 +251,11 @@ export async function processFailedPaymentQueue(): Promise<{
   for (const payment of queue) {
     if (payment.attempts >= MAX_RETRY_ATTEMPTS) {
       // Too many attempts — drop from queue
+      if (payment.topUpSignature) {
+        console.error(
+          `[Credits] Dropping charge for ${payment.userId} after top-up ${payment.topUpSignature} (${payment.topUpLamports} lamports) — reconcile manually: ${payment.lastError}`,
+        );
+      }
       failed++;
       continue;
     }
@@ -236,17 +263,51 @@ export async function processFailedPaymentQueue(): Promise<{
     processed++;
     payment.attempts++;
 
-    const result = await sendSolFromWallet(
-      payment.walletId,
-      payment.walletAddress,
-      SOL_TREASURY_ADDRESS,
-      BigInt(payment.lamports),
+    // Retry through the credits ledger. Once a top-up has landed, only the
+    // debit is retried; otherwise the wallet is topped up if needed.
+    const description = `${payment.description} (retry)`;
+    const result = await withWalletLock(payment.walletAddress, () =>
+      payment.topUpSignature
+        ? debitAfterTopUp(
+            payment.userId,
+            payment.topUpSignature,
+            BigInt(payment.topUpLamports ?? "0"),
+            BigInt(payment.lamports),
+            payment.usdCost,
+            description,
+            payment.metadata,
+          )
+        : chargeFromCredits(
+            payment.userId,
+            payment.walletId,
+            payment.walletAddress,
+            BigInt(payment.lamports),
+            payment.usdCost,
+            description,
+            payment.metadata,
+          ),
     );
 
     if (result.success) {
       succeeded++;
+      // The original attempt was recorded as failed — record the paid charge
+      await recordUsage({
+        ...payment.metadata,
+        userId: payment.userId,
+        description,
+        usdCost: payment.usdCost,
+        lamports: BigInt(payment.lamports),
+        paymentMethod: "credits",
+        txSignature: result.topUpSignature,
+        ledgerEntryId: result.entryId,
+        success: true,
+      });
       // Don't add back to remaining
     } else {
+      if (result.topUpSignature && result.topUpLamports !== undefined) {
+        payment.topUpSignature = result.topUpSignature;
+        payment.topUpLamports = result.topUpLamports.toString();
+      }
       payment.lastError = result.error || "Unknown error";
       payment.timestamp = new Date().toISOString();
       remaining.push(payment);
@@ -454,7 +515,7 @@ interface PaymentWalletInfo {
  * Resolve the user's active wallet for payment operations.
  * Returns the active wallet from the UserWallet table.
  */
-async function getPaymentWalletInfo(
+export async function getPaymentWalletInfo(
   userId: string,
 ): Promise<PaymentWalletInfo | null> {
   const user = await prisma.user.findUnique({
@@ -480,11 +541,165 @@ async function getPaymentWalletInfo(
   };
 }
 
+// ── Prepaid credit charging ──────────────────────────────────────────
+
+/**
+ * Outcome of charging the prepaid credit balance.
+ * `topUpSignature` is set only when an on-chain top-up was required.
+ */
+interface CreditChargeOutcome {
+  success: boolean;
+  entryId?: string;
+  balanceLamports: bigint;
+  topUpSignature?: string;
+  topUpLamports?: bigint;
+  /** True when the wallet itself can't cover the top-up (don't queue) */
+  insufficientFunds?: boolean;
+  error?: string;
+}
+
+/**
+ * Debit a charge from the user's prepaid balance, topping up from their
+ * wallet in a single transfer when the balance runs short.
+ *
+ * Must be called inside withWalletLock(walletAddress) — the top-up
+ * balance check and transfer rely on the lock for consistency.
+ */
+async function chargeFromCredits(
+  userId: string,
+  walletId: string,
+  walletAddress: string,
+  lamports: bigint,
+  usdCost: number,
+  description: string,
+  metadata?: UsageMetadata,
+): Promise<CreditChargeOutcome> {
+  const firstAttempt = await debitCredits(
+    userId,
+    lamports,
+    usdCost,
+    description,
+    metadata,
+  );
+  if (firstAttempt.success) return firstAttempt;
+
+  // Only a short balance is fixed by a top-up — never move SOL on a DB error
+  if (!firstAttempt.insufficient) {
+    return {
+      success: false,
+      balanceLamports: firstAttempt.balanceLamports,
+      error: firstAttempt.error || "Credit debit failed",
+    };
+  }
+
+  // Top up by at least CREDIT_AUTO_TOPUP_USD so the next several charges
+  // settle off-chain; fall back to the exact shortfall for low wallets.
+  const shortfall = lamports - firstAttempt.balanceLamports;
+  const autoTopUp = await usdToLamports(CREDIT_AUTO_TOPUP_USD);
+  let topUpLamports = shortfall > autoTopUp ? shortfall : autoTopUp;
+
+  if (!(await hasEnoughBalance(walletAddress, topUpLamports))) {
+    if (!(await hasEnoughBalance(walletAddress, shortfall))) {
+      return {
+        success: false,
+        balanceLamports: firstAttempt.balanceLamports,
+        insufficientFunds: true,
+        error: `Insufficient balance: need ${lamportsToSol(shortfall)} SOL`,
+      };
+    }
+    topUpLamports = shortfall;
+  }
+
+  const sendResult = await retryPaymentWithBackoff(
+    walletId,
+    walletAddress,
+    topUpLamports,
+    MAX_RETRY_ATTEMPTS,
+  );
+  if (!sendResult.success) {
+    return {
+      success: false,
+      balanceLamports: firstAttempt.balanceLamports,
+      error: sendResult.error || "Top-up transfer failed",
+    };
+  }
+
+  const deposit = await depositCredits(userId, topUpLamports, {
+    txSignature: sendResult.signature,
+    description: "Automatic top-up",
+  });
+  if (!deposit.success) {
+    // SOL is in the treasury but not credited — surface loudly for reconciliation
+    console.error(
+      `[Credits] Top-up ${sendResult.signature} for ${userId} not credited: ${deposit.error}`,
+    );
+    return {
+      success: false,
+      balanceLamports: firstAttempt.balanceLamports,
+      topUpSignature: sendResult.signature,
+      topUpLamports,
+      error: deposit.error || "Failed to credit top-up",
+    };
+  }
+
+  const secondAttempt = await debitCredits(
+    userId,
+    lamports,
+    usdCost,
+    description,
+    metadata,
+  );
+  return {
+    ...secondAttempt,
+    topUpSignature: sendResult.signature,
+    topUpLamports,
+  };
+}
+
+/**
+ * Retry a charge whose top-up already reached the treasury: credit the
+ * top-up (idempotent by signature) and retry only the debit. Never sends
+ * anything on-chain.
+ */
+async function debitAfterTopUp(
+  userId: string,
+  topUpSignature: string,
+  topUpLamports: bigint,
+  lamports: bigint,
+  usdCost: number,
+  description: string,
+  metadata?: UsageMetadata,
+): Promise<CreditChargeOutcome> {
+  const deposit = await depositCredits(userId, topUpLamports, {
+    txSignature: topUpSignature,
+    description: "Automatic top-up",
+  });
+  if (!deposit.success) {
+    return {
+      success: false,
+      balanceLamports: deposit.balanceLamports,
+      topUpSignature,
+      topUpLamports,
+      error: deposit.error || "Failed to credit top-up",
+    };
+  }
+
+  const debit = await debitCredits(
+    userId,
+    lamports,
+    usdCost,
+    description,
+    metadata,
+  );
+  return { ...debit, topUpSignature, topUpLamports };
+}
+
 /**
  * Result of a usage-based billing charge
  */
 export interface UsageBillingResult {
   success: boolean;
+  /** On-chain signature — only set when the charge required a credit top-up */
   transaction?: string;
   usdCost: number;
   solCost: string;
@@ -492,6 +707,10 @@ export interface UsageBillingResult {
   model?: string;
   inputTokens?: number;
   outputTokens?: number;
+  /** Ledger entry for the off-chain debit */
+  ledgerEntryId?: string;
+  /** Prepaid balance after this charge (lamports, as string) */
+  creditBalanceLamports?: string;
   error?: string;
 }
 
@@ -502,17 +721,21 @@ export interface UsageBillingResult {
  * The AI SDK returns cost information directly in providerMetadata when using AI Gateway.
  * This avoids needing to make a separate API call to fetch generation costs.
  *
+ * The charge is debited from the user's prepaid credit balance. Only when the
+ * balance runs short does this send an on-chain top-up from their wallet.
+ * Every charge attempt is persisted as a UsageRecord with its attribution.
+ *
  * @param userId - Privy user ID
  * @param usdCost - Cost in USD (from AI SDK providerMetadata or calculated from usage)
  * @param description - Human-readable description for logging
- * @param metadata - Optional metadata (model, tokens) for logging
+ * @param metadata - Optional model/token usage, tool name and attribution
  * @returns Billing result with transaction details
  */
 export async function chargeForUsage(
   userId: string,
   usdCost: number,
   description: string = "AI Generation",
-  metadata?: { model?: string; inputTokens?: number; outputTokens?: number },
+  metadata?: UsageMetadata,
 ): Promise<UsageBillingResult> {
   // Input validation
   if (!userId || typeof userId !== "string") {
@@ -574,36 +797,26 @@ export async function chargeForUsage(
 
     const { walletAddress, walletId } = walletInfo;
 
-    // Use wallet lock to prevent race conditions between balance check and payment.
+    // Use wallet lock to prevent race conditions between balance check and top-up.
     // usdToLamports() is called INSIDE the lock so the SOL price can't change
-    // between conversion and the actual balance check / payment.
-    return withWalletLock(walletAddress, async () => {
+    // between conversion and the actual debit / top-up.
+    const result = await withWalletLock(walletAddress, async () => {
       const lamports = await usdToLamports(usdCost);
       const solCost = lamportsToSol(lamports);
 
-      // Check balance
-      const hasBalance = await hasEnoughBalance(walletAddress, lamports);
-      if (!hasBalance) {
-        return {
-          success: false,
-          usdCost,
-          solCost,
-          lamports: lamports.toString(),
-          ...metadata,
-          error: `Insufficient balance: need ${solCost} SOL`,
-        };
-      }
-
-      // Execute the payment with retry
-      const sendResult = await retryPaymentWithBackoff(
+      const outcome = await chargeFromCredits(
+        userId,
         walletId,
         walletAddress,
         lamports,
-        MAX_RETRY_ATTEMPTS,
+        usdCost,
+        description,
+        metadata,
       );
 
-      if (!sendResult.success) {
-        // All retries failed - queue for later
+      // Transient failure — queue the charge for retry through the ledger.
+      // A top-up that already landed travels with it so it's never resent.
+      if (!outcome.success && !outcome.insufficientFunds) {
         await queueFailedPayment(
           userId,
           walletId,
@@ -611,35 +824,49 @@ export async function chargeForUsage(
           lamports,
           usdCost,
           description,
-          sendResult.error || "Unknown error",
+          outcome.error || "Unknown error",
+          {
+            topUp: outcome.topUpSignature
+              ? {
+                  signature: outcome.topUpSignature,
+                  lamports: outcome.topUpLamports ?? BigInt(0),
+                }
+              : undefined,
+            metadata,
+          },
         );
       }
 
-      // Fire-and-forget: log revenue event for the distribution system
-      if (sendResult.success) {
-        const grossLamports = Number(lamports);
-        const costLamports = Math.floor(
-          grossLamports / (1 + PLATFORM_FEE_RATE),
-        );
-        logPaymentRevenue({
-          type: "usage_based",
-          grossLamports,
-          costLamports,
-          txSignature: sendResult.signature,
-          userId,
-        }).catch(() => {});
-      }
-
+      // Revenue is logged by settleCredits() when this debit is batched
       return {
-        success: sendResult.success,
-        transaction: sendResult.signature,
+        success: outcome.success,
+        transaction: outcome.topUpSignature,
         usdCost,
         solCost,
         lamports: lamports.toString(),
         ...metadata,
-        error: sendResult.error,
+        ledgerEntryId: outcome.entryId,
+        creditBalanceLamports: outcome.balanceLamports.toString(),
+        error: outcome.error,
       };
     });
+
+    // Awaited so spending-limit checks see this charge immediately
+    // (recordUsage never throws)
+    await recordUsage({
+      ...metadata,
+      userId,
+      description,
+      usdCost,
+      lamports: BigInt(result.lamports),
+      paymentMethod: "credits",
+      txSignature: result.transaction,
+      ledgerEntryId: result.ledgerEntryId,
+      success: result.success,
+      error: result.error,
+    });
+
+    return result;
   } catch (error) {
     return {
       success: false,
@@ -681,7 +908,7 @@ export interface TokenUsageBillingResult extends UsageBillingResult {
  * @param decimals - Token decimal places (from the prior holding check)
  * @param usdCost - Full USD cost before discount
  * @param description - Human-readable label for logging
- * @param metadata - Optional model/token usage metadata for logging
+ * @param metadata - Optional model/token usage, tool name and attribution
  */
 export async function chargeForUsageInToken(
   userId: string,
@@ -689,7 +916,7 @@ export async function chargeForUsageInToken(
   decimals: number,
   usdCost: number,
   description: string = "AI Generation (token payment)",
-  metadata?: { model?: string; inputTokens?: number; outputTokens?: number },
+  metadata?: UsageMetadata,
 ): Promise<TokenUsageBillingResult> {
   const fallbackError = (error: string): TokenUsageBillingResult => ({
     success: false,
@@ -758,6 +985,18 @@ export async function chargeForUsageInToken(
   );
 
   if (transferResult.success) {
+    await recordUsage({
+      ...metadata,
+      userId,
+      description,
+      usdCost: discountedUsdCost,
+      lamports: BigInt(0),
+      paymentMethod: "token",
+      tokenMint,
+      txSignature: transferResult.signature,
+      success: true,
+    });
+
     // Fire-and-forget: log revenue for token payments using USD-equivalent lamports
     const { usdToLamports: convertToLamports } =
       await import("@/lib/x402/sol-facilitator");
@@ -790,7 +1029,20 @@ export async function chargeForUsageInToken(
   }
 
   // Token transfer failed (e.g. user sold tokens within the cache window).
-  // Fall back to standard SOL billing so the charge is never silently dropped.
+  // Record the failed attempt like chargeForUsage does, then fall back to
+  // standard SOL billing so the charge is never silently dropped.
+  await recordUsage({
+    ...metadata,
+    userId,
+    description,
+    usdCost: discountedUsdCost,
+    lamports: BigInt(0),
+    paymentMethod: "token",
+    tokenMint,
+    success: false,
+    error: transferResult.error,
+  });
+
   console.warn(
     `[TokenBilling] Token transfer failed for user ${userId} (${transferResult.error}); falling back to SOL billing`,
   );
@@ -1195,17 +1447,24 @@ export interface BillingContext {
   /** User's wallet address */
   walletAddress: string;
   /**
-   * Charge for AI usage after generation completes (SOL payment).
-   * Call this from onFinish with the cost from providerMetadata.
+   * Chat/agent/task this request's charges are attributed to. Handlers set
+   * this once they know it; it is merged into every charge's usage record.
+   */
+  attribution?: UsageAttribution;
+  /** Start of the current task iteration (enables per-iteration spending limits) */
+  iterationStartedAt?: Date;
+  /**
+   * Charge for AI usage after generation completes (debited from prepaid
+   * SOL credits). Call this from onFinish with the cost from providerMetadata.
    *
    * @param usdCost - Cost in USD (from AI SDK providerMetadata.cost or calculated)
    * @param description - Human-readable description for logging
-   * @param metadata - Optional metadata (model, tokens) for logging
+   * @param metadata - Optional metadata (model, tokens, toolName) for the usage record
    */
   chargeUsage: (
     usdCost: number,
     description?: string,
-    metadata?: { model?: string; inputTokens?: number; outputTokens?: number },
+    metadata?: UsageMetadata,
   ) => Promise<UsageBillingResult>;
   /**
    * Charge for AI usage using the agent's SPL token (20% discount).
@@ -1218,14 +1477,14 @@ export interface BillingContext {
    * @param tokenMint - Agent's SPL token mint address
    * @param decimals - Token decimal places (from prior balance check)
    * @param description - Human-readable description for logging
-   * @param metadata - Optional metadata (model, tokens) for logging
+   * @param metadata - Optional metadata (model, tokens, toolName) for the usage record
    */
   chargeUsageInToken: (
     usdCost: number,
     tokenMint: string,
     decimals: number,
     description?: string,
-    metadata?: { model?: string; inputTokens?: number; outputTokens?: number },
+    metadata?: UsageMetadata,
   ) => Promise<TokenUsageBillingResult>;
 }
 
@@ -1313,28 +1572,18 @@ export function withUsageBasedPayment<
           chargeUsage: (
             usdCost: number,
             desc?: string,
-            metadata?: {
-              model?: string;
-              inputTokens?: number;
-              outputTokens?: number;
-            },
+            metadata?: UsageMetadata,
           ) =>
-            chargeForUsage(
-              authResult.userId,
-              usdCost,
-              desc || description,
-              metadata,
-            ),
+            chargeForUsage(authResult.userId, usdCost, desc || description, {
+              ...billingContext.attribution,
+              ...metadata,
+            }),
           chargeUsageInToken: (
             usdCost: number,
             tokenMint: string,
             decimals: number,
             desc?: string,
-            metadata?: {
-              model?: string;
-              inputTokens?: number;
-              outputTokens?: number;
-            },
+            metadata?: UsageMetadata,
           ) =>
             chargeForUsageInToken(
               authResult.userId,
@@ -1342,7 +1591,7 @@ export function withUsageBasedPayment<
               decimals,
               usdCost,
               desc || `${description} (token payment)`,
-              metadata,
+              { ...billingContext.attribution, ...metadata },
             ),
         };
 
@@ -50,3 +50,11 @@ export interface AgentIncChatSettings {
    */
   user?: string;
 }
+
+export interface AgentIncAgentSettings {
+  /**
+   * Model the agent runs on. The server accepts a small set of agent models
+   * and falls back to its default for anything else.
+   */
+  model?: string;
+}
@@ -0,0 +1,81 @@
+/**
+ * Model catalog types and client for `GET /models`.
+ */
+
+export type AgentIncModelType = "language" | "embedding";
+
+export interface AgentIncModelCapabilities {
+  tools: boolean;
+  vision: boolean;
+  reasoning: boolean;
+}
+
+/**
+ * Per-million-token prices with the AgentInc platform fee included.
+ * SOL prices use the SOL/USD rate at request time and are `null` when the
+ * rate is unavailable.
+ */
+export interface AgentIncModelPricing {
+  unit: "1M tokens";
+  input_usd: number;
+  output_usd: number;
+  cached_input_usd: number | null;
+  input_sol: number | null;
+  output_sol: number | null;
+  cached_input_sol: number | null;
+}
+
+export interface AgentIncModel {
+  /** Model ID to pass to `agentinc(...)` or `agentinc.embeddingModel(...)` */
+  id: string;
+  object: "model";
+  owned_by: string;
+  name: string;
+  type: AgentIncModelType;
+  context_window: number | null;
+  max_output_tokens: number | null;
+  /** `null` when the gateway doesn't advertise capabilities for the model */
+  capabilities: AgentIncModelCapabilities | null;
+  pricing: AgentIncModelPricing;
+}
+
+export interface ListModelsOptions {
+  /** Only return language or embedding models. */
+  type?: AgentIncModelType;
+  /** Abort the request. */
+  abortSignal?: AbortSignal;
+}
+
+/**
+ * Fetch the model catalog.
+ *
+ * @throws Error when the request fails or returns a non-2xx status
+ */
+export async function fetchModels(
+  baseURL: string,
+  headers: Record<string, string>,
+  options: ListModelsOptions = {},
+  fetchFn: typeof fetch = globalThis.fetch,
+): Promise<AgentIncModel[]> {
+  const url = new URL(`${baseURL}/models`);
+  if (options.type) url.searchParams.set("type", options.type);
+
+  const res = await fetchFn(url.toString(), {
+    headers,
+    signal: options.abortSignal,
+  });
+
+  if (!res.ok) {
+    let message = `Failed to list models (HTTP ${res.status})`;
+    try {
+      const body = (await res.json()) as { error?: { message?: string } };
+      if (body.error?.message) message = body.error.message;
+    } catch {
+      // Non-JSON error body
+    }
+    throw new Error(message);
+  }
+
+  const body = (await res.json()) as { data: AgentIncModel[] };
+  return body.data;
+}
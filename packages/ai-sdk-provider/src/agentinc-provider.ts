@@ -10,13 +10,22 @@
 
 import {
   createOpenAICompatible,
+  OpenAICompatibleChatLanguageModel,
   type OpenAICompatibleProvider,
 } from "@ai-sdk/openai-compatible";
 import type { LanguageModelV3, EmbeddingModelV3 } from "@ai-sdk/provider";
 import { withoutTrailingSlash } from "@ai-sdk/provider-utils";
-import type { AgentIncChatModelId } from "./agentinc-chat-settings";
+import type {
+  AgentIncAgentSettings,
+  AgentIncChatModelId,
+} from "./agentinc-chat-settings";
 import type { AgentIncEmbeddingModelId } from "./agentinc-embedding-settings";
 import { createX402Fetch } from "./agentinc-x402-fetch";
+import {
+  fetchModels,
+  type AgentIncModel,
+  type ListModelsOptions,
+} from "./agentinc-models";
 
 // ── Public types ────────────────────────────────────────────────────────
 
@@ -77,8 +86,42 @@ export interface AgentIncProvider {
   /** Create a chat language model (explicit method). */
   chatModel(modelId: AgentIncChatModelId): LanguageModelV3;
 
+  /**
+   * Chat with a platform agent by ID or token mint. The agent runs
+   * server-side with its own instructions, skills and the tool groups the
+   * API key allows; only its final reply is returned. Requires an API key.
+   *
+   * @example
+   * ```ts
+   * const { text } = await generateText({
+   *   model: agentinc.agent("7xKX...pump"),
+   *   prompt: "What's the latest on your token?",
+   *   providerOptions: { agentinc: { tool_groups: ["crypto"] } },
+   * });
+   * ```
+   */
+  agent(
+    agentIdOrMint: string,
+    settings?: AgentIncAgentSettings,
+  ): LanguageModelV3;
+
   /** Create a text embedding model. */
   embeddingModel(modelId: AgentIncEmbeddingModelId): EmbeddingModelV3;
+
+  /** @deprecated Use `embeddingModel` instead. */
+  textEmbeddingModel(modelId: AgentIncEmbeddingModelId): EmbeddingModelV3;
+
+  /**
+   * List the models the gateway accepts, with context window,
+   * capabilities and pricing (platform fee included).
+   *
+   * @example
+   * ```ts
+   * const models = await agentinc.listModels({ type: "language" });
+   * const withTools = models.filter((m) => m.capabilities?.tools);
+   * ```
+   */
+  listModels(options?: ListModelsOptions): Promise<AgentIncModel[]>;
 }
 
 // ── Factory ─────────────────────────────────────────────────────────────
@@ -144,10 +187,50 @@ export function createAgentInc(
   provider.chatModel = (modelId: AgentIncChatModelId): LanguageModelV3 =>
     inner.chatModel(modelId);
 
+  // Agents live at their own endpoint; the model ID is sent as `model` and
+  // ignored by the server unless it's one of the agent models
+  provider.agent = (
+    agentIdOrMint: string,
+    settings: AgentIncAgentSettings = {},
+  ): LanguageModelV3 => {
+    const key = apiKey ?? process.env.AGENTINC_API_KEY;
+    return new OpenAICompatibleChatLanguageModel(
+      settings.model ?? agentIdOrMint,
+      {
+        provider: "agentinc.agent",
+        url: () =>
+          `${baseURL}/agents/${encodeURIComponent(agentIdOrMint)}/chat`,
+        headers: () => ({
+          ...(key && { Authorization: `Bearer ${key}` }),
+          ...options.headers,
+        }),
+        fetch: options.fetch,
+        includeUsage: true,
+      },
+    );
+  };
+
   provider.embeddingModel = (
     modelId: AgentIncEmbeddingModelId,
   ): EmbeddingModelV3 => inner.embeddingModel(modelId);
 
+  provider.textEmbeddingModel = provider.embeddingModel;
+
+  // The catalog is public — skip the x402 wrapper, but send the API key
+  // (when configured) so requests are attributed to the account
+  provider.listModels = (listOptions?: ListModelsOptions) => {
+    const key = apiKey ?? process.env.AGENTINC_API_KEY;
+    return fetchModels(
+      baseURL,
+      {
+        ...options.headers,
+        ...(key && { Authorization: `Bearer ${key}` }),
+      },
+      listOptions,
+      options.fetch,
+    );
+  };
+
   return provider as AgentIncProvider;
 }
 
@@ -5,6 +5,7 @@ export type {
 } from "./agentinc-provider";
 
 export type {
+  AgentIncAgentSettings,
   AgentIncChatModelId,
   AgentIncChatSettings,
 } from "./agentinc-chat-settings";
@@ -13,3 +14,11 @@ export type {
   AgentIncEmbeddingModelId,
   AgentIncEmbeddingSettings,
 } from "./agentinc-embedding-settings";
+
+export type {
+  AgentIncModel,
+  AgentIncModelType,
+  AgentIncModelCapabilities,
+  AgentIncModelPricing,
+  ListModelsOptions,
+} from "./agentinc-models";
@@ -0,0 +1,73 @@
+-- CreateTable
+CREATE TABLE "CreditAccount" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "balanceLamports" BIGINT NOT NULL DEFAULT 0,
+    "totalDepositedLamports" BIGINT NOT NULL DEFAULT 0,
+    "totalSpentLamports" BIGINT NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CreditAccount_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CreditLedgerEntry" (
+    "id" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "amountLamports" BIGINT NOT NULL,
+    "balanceAfterLamports" BIGINT NOT NULL,
+    "usdAmount" DOUBLE PRECISION,
+    "description" VARCHAR(500) NOT NULL,
+    "txSignature" TEXT,
+    "metadata" JSONB,
+    "settlementId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CreditLedgerEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CreditSettlement" (
+    "id" TEXT NOT NULL,
+    "timestamp" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "entryCount" INTEGER NOT NULL DEFAULT 0,
+    "grossLamports" BIGINT NOT NULL DEFAULT 0,
+    "userCount" INTEGER NOT NULL DEFAULT 0,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+
+    CONSTRAINT "CreditSettlement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CreditAccount_userId_key" ON "CreditAccount"("userId");
+
+-- CreateIndex
+CREATE INDEX "CreditLedgerEntry_accountId_createdAt_idx" ON "CreditLedgerEntry"("accountId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "CreditLedgerEntry_userId_createdAt_idx" ON "CreditLedgerEntry"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "CreditLedgerEntry_type_settlementId_idx" ON "CreditLedgerEntry"("type", "settlementId");
+
+-- CreateIndex
+CREATE INDEX "CreditLedgerEntry_settlementId_idx" ON "CreditLedgerEntry"("settlementId");
+
+-- CreateIndex
+CREATE INDEX "CreditSettlement_timestamp_idx" ON "CreditSettlement"("timestamp");
+
+-- CreateIndex
+CREATE INDEX "CreditSettlement_status_idx" ON "CreditSettlement"("status");
+
+-- AddForeignKey
+ALTER TABLE "CreditAccount" ADD CONSTRAINT "CreditAccount_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CreditLedgerEntry" ADD CONSTRAINT "CreditLedgerEntry_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "CreditAccount"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CreditLedgerEntry" ADD CONSTRAINT "CreditLedgerEntry_settlementId_fkey" FOREIGN KEY ("settlementId") REFERENCES "CreditSettlement"("id") ON DELETE SET NULL ON UPDATE CASCADE;
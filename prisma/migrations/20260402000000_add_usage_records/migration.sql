@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE "UsageRecord" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "description" VARCHAR(500) NOT NULL,
+    "model" TEXT,
+    "inputTokens" INTEGER,
+    "outputTokens" INTEGER,
+    "toolName" TEXT,
+    "chatId" TEXT,
+    "agentId" TEXT,
+    "taskId" TEXT,
+    "usdCost" DOUBLE PRECISION NOT NULL,
+    "lamports" BIGINT NOT NULL DEFAULT 0,
+    "paymentMethod" TEXT NOT NULL,
+    "tokenMint" TEXT,
+    "txSignature" TEXT,
+    "ledgerEntryId" TEXT,
+    "success" BOOLEAN NOT NULL,
+    "error" VARCHAR(500),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "UsageRecord_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "UsageRecord_userId_createdAt_idx" ON "UsageRecord"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "UsageRecord_userId_agentId_createdAt_idx" ON "UsageRecord"("userId", "agentId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "UsageRecord_userId_toolName_idx" ON "UsageRecord"("userId", "toolName");
+
+-- CreateIndex
+CREATE INDEX "UsageRecord_taskId_createdAt_idx" ON "UsageRecord"("taskId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "UsageRecord_chatId_idx" ON "UsageRecord"("chatId");
+
+-- AddForeignKey
+ALTER TABLE "UsageRecord" ADD CONSTRAINT "UsageRecord_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
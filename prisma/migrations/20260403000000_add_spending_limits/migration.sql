@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "SpendingLimit" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "scope" TEXT NOT NULL,
+    "scopeId" TEXT NOT NULL,
+    "period" TEXT NOT NULL,
+    "limitUsd" DOUBLE PRECISION NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SpendingLimit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SpendingLimit_userId_scope_scopeId_period_key" ON "SpendingLimit"("userId", "scope", "scopeId", "period");
+
+-- CreateIndex
+CREATE INDEX "SpendingLimit_userId_enabled_idx" ON "SpendingLimit"("userId", "enabled");
+
+-- AddForeignKey
+ALTER TABLE "SpendingLimit" ADD CONSTRAINT "SpendingLimit_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
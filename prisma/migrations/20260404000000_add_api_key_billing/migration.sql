@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "ApiKey" ADD COLUMN     "monthlySpendLimitUsd" DOUBLE PRECISION,
+ADD COLUMN     "totalCostUsd" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "UsageRecord" ADD COLUMN     "apiKeyId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "UsageRecord_apiKeyId_createdAt_idx" ON "UsageRecord"("apiKeyId", "createdAt");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ApiKey" ADD COLUMN     "allowedToolGroups" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Chat" ADD COLUMN     "summary" TEXT,
+ADD COLUMN     "summaryThroughMessageId" TEXT,
+ADD COLUMN     "summaryTokenCount" INTEGER,
+ADD COLUMN     "summaryUpdatedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "ChatMessage" ADD COLUMN     "tokenCount" INTEGER;
+
+-- AlterTable
+ALTER TABLE "UsageRecord" ADD COLUMN     "contextTokensSaved" INTEGER,
+ADD COLUMN     "contextUsdSaved" DOUBLE PRECISION;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "AgentTask" ADD COLUMN     "cronExpression" VARCHAR(100),
+ADD COLUMN     "timezone" VARCHAR(64);
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "TaskMemory" (
+    "id" TEXT NOT NULL,
+    "key" VARCHAR(100) NOT NULL,
+    "value" TEXT NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TaskMemory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TaskMemory_taskId_updatedAt_idx" ON "TaskMemory"("taskId", "updatedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TaskMemory_taskId_key_key" ON "TaskMemory"("taskId", "key");
+
+-- AddForeignKey
+ALTER TABLE "TaskMemory" ADD CONSTRAINT "TaskMemory_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "AgentTask"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,108 @@
+-- AlterTable
+ALTER TABLE "AgentTask" ADD COLUMN     "model" VARCHAR(100),
+ADD COLUMN     "pipelineId" TEXT;
+
+-- AlterTable
+ALTER TABLE "TaskLog" ADD COLUMN     "pipelineRunId" TEXT;
+
+-- CreateTable
+CREATE TABLE "TaskPipeline" (
+    "id" TEXT NOT NULL,
+    "name" VARCHAR(200) NOT NULL,
+    "description" TEXT,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TaskPipeline_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TaskPipelineEdge" (
+    "id" TEXT NOT NULL,
+    "pipelineId" TEXT NOT NULL,
+    "fromTaskId" TEXT NOT NULL,
+    "toTaskId" TEXT NOT NULL,
+    "condition" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TaskPipelineEdge_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TaskPipelineRun" (
+    "id" TEXT NOT NULL,
+    "pipelineId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "triggeredBy" VARCHAR(20) NOT NULL,
+    "stageIds" TEXT[],
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "TaskPipelineRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TaskPipelineStageRun" (
+    "id" TEXT NOT NULL,
+    "runId" TEXT NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "output" TEXT,
+    "result" JSONB,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "TaskPipelineStageRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AgentTask_pipelineId_idx" ON "AgentTask"("pipelineId");
+
+-- CreateIndex
+CREATE INDEX "TaskLog_pipelineRunId_idx" ON "TaskLog"("pipelineRunId");
+
+-- CreateIndex
+CREATE INDEX "TaskPipeline_userId_idx" ON "TaskPipeline"("userId");
+
+-- CreateIndex
+CREATE INDEX "TaskPipelineEdge_pipelineId_idx" ON "TaskPipelineEdge"("pipelineId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TaskPipelineEdge_pipelineId_fromTaskId_toTaskId_key" ON "TaskPipelineEdge"("pipelineId", "fromTaskId", "toTaskId");
+
+-- CreateIndex
+CREATE INDEX "TaskPipelineRun_pipelineId_startedAt_idx" ON "TaskPipelineRun"("pipelineId", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "TaskPipelineStageRun_taskId_idx" ON "TaskPipelineStageRun"("taskId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TaskPipelineStageRun_runId_taskId_key" ON "TaskPipelineStageRun"("runId", "taskId");
+
+-- AddForeignKey
+ALTER TABLE "AgentTask" ADD CONSTRAINT "AgentTask_pipelineId_fkey" FOREIGN KEY ("pipelineId") REFERENCES "TaskPipeline"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskLog" ADD CONSTRAINT "TaskLog_pipelineRunId_fkey" FOREIGN KEY ("pipelineRunId") REFERENCES "TaskPipelineRun"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskPipeline" ADD CONSTRAINT "TaskPipeline_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskPipelineEdge" ADD CONSTRAINT "TaskPipelineEdge_pipelineId_fkey" FOREIGN KEY ("pipelineId") REFERENCES "TaskPipeline"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskPipelineEdge" ADD CONSTRAINT "TaskPipelineEdge_fromTaskId_fkey" FOREIGN KEY ("fromTaskId") REFERENCES "AgentTask"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskPipelineEdge" ADD CONSTRAINT "TaskPipelineEdge_toTaskId_fkey" FOREIGN KEY ("toTaskId") REFERENCES "AgentTask"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskPipelineRun" ADD CONSTRAINT "TaskPipelineRun_pipelineId_fkey" FOREIGN KEY ("pipelineId") REFERENCES "TaskPipeline"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskPipelineStageRun" ADD CONSTRAINT "TaskPipelineStageRun_runId_fkey" FOREIGN KEY ("runId") REFERENCES "TaskPipelineRun"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskPipelineStageRun" ADD CONSTRAINT "TaskPipelineStageRun_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "AgentTask"("id") ON DELETE CASCADE ON UPDATE CASCADE;
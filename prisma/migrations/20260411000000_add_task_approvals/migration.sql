@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "AgentTask" ADD COLUMN     "approvalRequiredTools" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateTable
+CREATE TABLE "TaskApproval" (
+    "id" TEXT NOT NULL,
+    "approvalId" TEXT NOT NULL,
+    "toolCallId" TEXT NOT NULL,
+    "toolName" VARCHAR(100) NOT NULL,
+    "input" JSONB,
+    "iteration" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "reason" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "decidedAt" TIMESTAMP(3),
+    "taskId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TaskApproval_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TaskApproval_approvalId_key" ON "TaskApproval"("approvalId");
+
+-- CreateIndex
+CREATE INDEX "TaskApproval_taskId_status_idx" ON "TaskApproval"("taskId", "status");
+
+-- CreateIndex
+CREATE INDEX "TaskApproval_taskId_createdAt_idx" ON "TaskApproval"("taskId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "TaskApproval" ADD CONSTRAINT "TaskApproval_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "AgentTask"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "AgentTask" ADD COLUMN     "consecutiveFailures" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "failureThreshold" INTEGER NOT NULL DEFAULT 3,
+ADD COLUMN     "maxRetries" INTEGER NOT NULL DEFAULT 2,
+ADD COLUMN     "retryBackoffMs" INTEGER NOT NULL DEFAULT 30000;
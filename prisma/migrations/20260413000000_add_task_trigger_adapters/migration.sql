@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "AgentTask" ADD COLUMN     "triggerAdapter" VARCHAR(32) NOT NULL DEFAULT 'bearer',
+ADD COLUMN     "triggerConfig" JSONB;
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "TaskWatcher" (
+    "id" TEXT NOT NULL,
+    "type" VARCHAR(32) NOT NULL,
+    "config" JSONB NOT NULL,
+    "state" JSONB,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "errorMessage" TEXT,
+    "lastCheckedAt" TIMESTAMP(3),
+    "lastFiredAt" TIMESTAMP(3),
+    "fireCount" INTEGER NOT NULL DEFAULT 0,
+    "taskId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TaskWatcher_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TaskWatcher_taskId_idx" ON "TaskWatcher"("taskId");
+
+-- CreateIndex
+CREATE INDEX "TaskWatcher_status_lastCheckedAt_idx" ON "TaskWatcher"("status", "lastCheckedAt");
+
+-- AddForeignKey
+ALTER TABLE "TaskWatcher" ADD CONSTRAINT "TaskWatcher_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "AgentTask"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,47 @@
+-- CreateTable
+CREATE TABLE "TaskDeliveryTarget" (
+    "id" TEXT NOT NULL,
+    "channel" VARCHAR(16) NOT NULL,
+    "destination" TEXT NOT NULL,
+    "condition" VARCHAR(16) NOT NULL DEFAULT 'always',
+    "secret" TEXT,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "taskId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TaskDeliveryTarget_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TaskDelivery" (
+    "id" TEXT NOT NULL,
+    "iteration" INTEGER NOT NULL,
+    "status" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL,
+    "statusCode" INTEGER,
+    "error" TEXT,
+    "targetId" TEXT NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TaskDelivery_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TaskDeliveryTarget_taskId_idx" ON "TaskDeliveryTarget"("taskId");
+
+-- CreateIndex
+CREATE INDEX "TaskDelivery_taskId_createdAt_idx" ON "TaskDelivery"("taskId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "TaskDelivery_targetId_createdAt_idx" ON "TaskDelivery"("targetId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "TaskDeliveryTarget" ADD CONSTRAINT "TaskDeliveryTarget_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "AgentTask"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskDelivery" ADD CONSTRAINT "TaskDelivery_targetId_fkey" FOREIGN KEY ("targetId") REFERENCES "TaskDeliveryTarget"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskDelivery" ADD CONSTRAINT "TaskDelivery_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "AgentTask"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "AgentTask" ADD COLUMN     "dryRun" BOOLEAN NOT NULL DEFAULT false;
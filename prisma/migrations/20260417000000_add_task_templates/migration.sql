@@ -0,0 +1,44 @@
+-- AlterTable
+ALTER TABLE "AgentTask" ADD COLUMN     "templateId" TEXT;
+
+-- CreateTable
+CREATE TABLE "TaskTemplate" (
+    "id" TEXT NOT NULL,
+    "name" VARCHAR(200) NOT NULL,
+    "description" TEXT,
+    "taskPrompt" TEXT NOT NULL,
+    "parameters" JSONB NOT NULL DEFAULT '[]',
+    "enabledToolGroups" TEXT[],
+    "enabledSkills" TEXT[],
+    "triggerMode" TEXT NOT NULL DEFAULT 'interval',
+    "intervalMs" INTEGER,
+    "cronExpression" VARCHAR(100),
+    "timezone" VARCHAR(64),
+    "model" VARCHAR(100),
+    "visibility" VARCHAR(16) NOT NULL DEFAULT 'private',
+    "corporationId" TEXT,
+    "installCount" INTEGER NOT NULL DEFAULT 0,
+    "creatorId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TaskTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TaskTemplate_visibility_installCount_idx" ON "TaskTemplate"("visibility", "installCount");
+
+-- CreateIndex
+CREATE INDEX "TaskTemplate_corporationId_idx" ON "TaskTemplate"("corporationId");
+
+-- CreateIndex
+CREATE INDEX "TaskTemplate_creatorId_idx" ON "TaskTemplate"("creatorId");
+
+-- AddForeignKey
+ALTER TABLE "AgentTask" ADD CONSTRAINT "AgentTask_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "TaskTemplate"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskTemplate" ADD CONSTRAINT "TaskTemplate_corporationId_fkey" FOREIGN KEY ("corporationId") REFERENCES "Corporation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskTemplate" ADD CONSTRAINT "TaskTemplate_creatorId_fkey" FOREIGN KEY ("creatorId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,106 @@
+-- CreateTable
+CREATE TABLE "MarketplaceDispute" (
+    "id" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "taskId" TEXT NOT NULL,
+    "openedById" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "arbitrationMethod" TEXT NOT NULL DEFAULT 'admin',
+    "responseDeadline" TIMESTAMP(3) NOT NULL,
+    "votingDeadline" TIMESTAMP(3),
+    "outcome" TEXT,
+    "workerPercent" INTEGER,
+    "ruling" TEXT,
+    "ruledBy" TEXT,
+    "arbitratorId" TEXT,
+    "ruledAt" TIMESTAMP(3),
+    "releaseTxSignature" TEXT,
+    "refundTxSignature" TEXT,
+    "settlementAttempts" INTEGER NOT NULL DEFAULT 0,
+    "settlementError" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MarketplaceDispute_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "MarketplaceDisputeEvidence" (
+    "id" TEXT NOT NULL,
+    "party" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "attachments" TEXT[],
+    "disputeId" TEXT NOT NULL,
+    "submittedById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MarketplaceDisputeEvidence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "MarketplaceDisputeEvent" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "actorId" TEXT,
+    "details" JSONB,
+    "disputeId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MarketplaceDisputeEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "MarketplaceDisputeVote" (
+    "id" TEXT NOT NULL,
+    "workerPercent" INTEGER NOT NULL,
+    "stakeWeight" DOUBLE PRECISION NOT NULL,
+    "reason" TEXT,
+    "disputeId" TEXT NOT NULL,
+    "jurorId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MarketplaceDisputeVote_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MarketplaceDispute_taskId_idx" ON "MarketplaceDispute"("taskId");
+
+-- CreateIndex
+CREATE INDEX "MarketplaceDispute_status_responseDeadline_idx" ON "MarketplaceDispute"("status", "responseDeadline");
+
+-- CreateIndex
+CREATE INDEX "MarketplaceDispute_status_votingDeadline_idx" ON "MarketplaceDispute"("status", "votingDeadline");
+
+-- CreateIndex
+CREATE INDEX "MarketplaceDisputeEvidence_disputeId_createdAt_idx" ON "MarketplaceDisputeEvidence"("disputeId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "MarketplaceDisputeEvent_disputeId_createdAt_idx" ON "MarketplaceDisputeEvent"("disputeId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "MarketplaceDisputeVote_jurorId_idx" ON "MarketplaceDisputeVote"("jurorId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MarketplaceDisputeVote_disputeId_jurorId_key" ON "MarketplaceDisputeVote"("disputeId", "jurorId");
+
+-- AddForeignKey
+ALTER TABLE "MarketplaceDispute" ADD CONSTRAINT "MarketplaceDispute_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "MarketplaceTask"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MarketplaceDispute" ADD CONSTRAINT "MarketplaceDispute_openedById_fkey" FOREIGN KEY ("openedById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MarketplaceDisputeEvidence" ADD CONSTRAINT "MarketplaceDisputeEvidence_disputeId_fkey" FOREIGN KEY ("disputeId") REFERENCES "MarketplaceDispute"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MarketplaceDisputeEvidence" ADD CONSTRAINT "MarketplaceDisputeEvidence_submittedById_fkey" FOREIGN KEY ("submittedById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MarketplaceDisputeEvent" ADD CONSTRAINT "MarketplaceDisputeEvent_disputeId_fkey" FOREIGN KEY ("disputeId") REFERENCES "MarketplaceDispute"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MarketplaceDisputeVote" ADD CONSTRAINT "MarketplaceDisputeVote_disputeId_fkey" FOREIGN KEY ("disputeId") REFERENCES "MarketplaceDispute"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MarketplaceDisputeVote" ADD CONSTRAINT "MarketplaceDisputeVote_jurorId_fkey" FOREIGN KEY ("jurorId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
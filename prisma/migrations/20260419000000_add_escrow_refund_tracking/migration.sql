@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "MarketplaceTask" ADD COLUMN     "deadlineNoticeAt" TIMESTAMP(3),
+ADD COLUMN     "refundAttemptedAt" TIMESTAMP(3),
+ADD COLUMN     "refundAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "refundError" TEXT;
+
+-- CreateIndex
+CREATE INDEX "MarketplaceTask_status_escrowStatus_idx" ON "MarketplaceTask"("status", "escrowStatus");
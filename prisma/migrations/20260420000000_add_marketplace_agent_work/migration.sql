@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Agent" ADD COLUMN     "enabledToolGroups" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "MarketplaceTask" ADD COLUMN     "workBudgetUsd" DOUBLE PRECISION,
+ADD COLUMN     "workError" TEXT,
+ADD COLUMN     "workRunId" TEXT,
+ADD COLUMN     "workSpentUsd" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "workStatus" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MarketplaceTask_workRunId_key" ON "MarketplaceTask"("workRunId");
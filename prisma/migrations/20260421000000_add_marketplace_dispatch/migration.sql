@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "MarketplaceDispatch" (
+    "id" TEXT NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "protocol" TEXT NOT NULL,
+    "endpoint" TEXT NOT NULL,
+    "state" TEXT NOT NULL DEFAULT 'pending',
+    "remoteTaskId" TEXT,
+    "statusUrl" TEXT,
+    "remoteMessage" TEXT,
+    "artifacts" JSONB,
+    "callbackToken" TEXT NOT NULL,
+    "polls" INTEGER NOT NULL DEFAULT 0,
+    "lastPolledAt" TIMESTAMP(3),
+    "error" TEXT,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MarketplaceDispatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MarketplaceDispatch_taskId_idx" ON "MarketplaceDispatch"("taskId");
+
+-- CreateIndex
+CREATE INDEX "MarketplaceDispatch_state_idx" ON "MarketplaceDispatch"("state");
+
+-- AddForeignKey
+ALTER TABLE "MarketplaceDispatch" ADD CONSTRAINT "MarketplaceDispatch_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "MarketplaceTask"("id") ON DELETE CASCADE ON UPDATE CASCADE;
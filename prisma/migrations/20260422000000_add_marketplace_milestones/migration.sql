@@ -0,0 +1,69 @@
+-- AlterTable
+ALTER TABLE "MarketplaceTask" ADD COLUMN     "escrowReleasedSol" DECIMAL(18,9) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "MarketplaceMilestone" (
+    "id" TEXT NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "title" VARCHAR(200) NOT NULL,
+    "description" TEXT,
+    "amountSol" DECIMAL(18,9) NOT NULL,
+    "dueDate" TIMESTAMP(3),
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "deliverables" TEXT,
+    "submittedAt" TIMESTAMP(3),
+    "rejectionReason" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "releaseStartedAt" TIMESTAMP(3),
+    "releaseTxSignature" TEXT,
+    "releaseError" TEXT,
+    "releasedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MarketplaceMilestone_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MarketplaceMilestone_status_idx" ON "MarketplaceMilestone"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MarketplaceMilestone_taskId_position_key" ON "MarketplaceMilestone"("taskId", "position");
+
+-- AddForeignKey
+ALTER TABLE "MarketplaceMilestone" ADD CONSTRAINT "MarketplaceMilestone_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "MarketplaceTask"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Move the JSON milestones into rows ("completed" meant approved but unpaid)
+INSERT INTO "MarketplaceMilestone" ("id", "taskId", "position", "title", "amountSol", "status", "releasedAt", "updatedAt")
+SELECT
+    'ms' || md5(t."id" || ':' || m.ord::text),
+    t."id",
+    (m.ord - 1)::int,
+    left(coalesce(nullif(m.value->>'title', ''), 'Milestone ' || m.ord::text), 200),
+    coalesce((m.value->>'amountSol')::decimal(18,9), 0),
+    CASE m.value->>'status'
+        WHEN 'released' THEN 'released'
+        WHEN 'completed' THEN 'approved'
+        ELSE 'pending'
+    END,
+    CASE WHEN m.value->>'status' = 'released' THEN t."updatedAt" END,
+    CURRENT_TIMESTAMP
+FROM "MarketplaceTask" t
+CROSS JOIN LATERAL jsonb_array_elements(t."milestones") WITH ORDINALITY AS m(value, ord)
+WHERE jsonb_typeof(t."milestones") = 'array'
+  AND jsonb_typeof(m.value) = 'object';
+
+-- Released milestones were already paid out of a still-held escrow
+UPDATE "MarketplaceTask" t
+SET "escrowReleasedSol" = r."total"
+FROM (
+    SELECT "taskId", SUM("amountSol") AS "total"
+    FROM "MarketplaceMilestone"
+    WHERE "status" = 'released'
+    GROUP BY "taskId"
+) r
+WHERE t."id" = r."taskId" AND t."escrowStatus" = 'held';
+
+-- AlterTable
+ALTER TABLE "MarketplaceTask" DROP COLUMN "milestones";
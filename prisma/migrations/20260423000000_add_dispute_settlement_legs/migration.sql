@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "MarketplaceDispute" ADD COLUMN     "refundStartedAt" TIMESTAMP(3),
+ADD COLUMN     "releaseStartedAt" TIMESTAMP(3);
@@ -0,0 +1,72 @@
+import { sleep } from "workflow";
+
+import { isTerminalDispatchState } from "@/lib/marketplace/dispatch-policy";
+import {
+  DISPATCH_POLL_MS,
+  MAX_DISPATCH_POLL_MS,
+} from "@/lib/marketplace/types";
+import { dispatchCallbackHook } from "./hooks/dispatchCallback";
+import {
+  applyDispatchCallback,
+  beginDispatch,
+  checkDispatch,
+  finishDispatch,
+  sendDispatch,
+} from "./steps/dispatch";
+
+/**
+ * Marketplace External Dispatch Workflow
+ *
+ * A durable workflow started when a task is hired from an external agent's
+ * listing. The task is sent to the agent over the protocol its listing
+ * declares (A2A, then MCP, then REST), and the agent's side of it is
+ * tracked until it finishes:
+ *
+ * - Agents report back through callbacks (A2A push notifications, REST
+ *   callbacks), which resume the workflow right away.
+ * - In between, the agent is polled where the protocol allows, backing off
+ *   from DISPATCH_POLL_MS to MAX_DISPATCH_POLL_MS. MCP tool calls finish
+ *   within the call.
+ * - When the agent completes, its artifacts are submitted as the
+ *   deliverables and the task moves to review, where the poster approves
+ *   or disputes it as usual.
+ * - An agent that fails, cancels, asks for input, or runs out of time ends
+ *   the dispatch, and the listing's registrant is emailed to finish it.
+ * - Cancelling, unassigning, or submitting by hand cancels the task at the
+ *   agent at the next check.
+ */
+export async function externalDispatchWorkflow(
+  taskId: string,
+): Promise<{ taskId: string; status: string; polls: number }> {
+  "use workflow";
+
+  const config = await beginDispatch(taskId);
+  if (!config) return { taskId, status: "skipped", polls: 0 };
+
+  // Listen before sending, so an agent that calls back at once isn't missed
+  const callbackHook = dispatchCallbackHook.create({
+    token: config.dispatchId,
+  });
+
+  let update = await sendDispatch(config);
+  let polls = 0;
+  let delayMs = DISPATCH_POLL_MS;
+
+  while (!isTerminalDispatchState(update.state)) {
+    const outcome = await Promise.race([
+      callbackHook.then((c) => ({ kind: "callback" as const, callback: c })),
+      sleep(delayMs).then(() => ({ kind: "poll" as const })),
+    ]);
+
+    if (outcome.kind === "callback") {
+      update = await applyDispatchCallback(config, outcome.callback.payload);
+    } else {
+      polls++;
+      update = await checkDispatch(config);
+      delayMs = Math.min(delayMs * 2, MAX_DISPATCH_POLL_MS);
+    }
+  }
+
+  const status = await finishDispatch(config, update);
+  return { taskId, status, polls };
+}
@@ -0,0 +1,16 @@
+import { defineHook } from "workflow";
+import { z } from "zod";
+
+/**
+ * Callback hook for marketplace tasks dispatched to external agents.
+ * The agent (an A2A push notification, or a REST agent's callback) POSTs
+ * its status to /api/marketplace/dispatch/[dispatchId]/callback, which
+ * resumes this hook so the workflow doesn't wait for its next poll.
+ * Uses the dispatch ID as the token.
+ */
+export const dispatchCallbackHook = defineHook({
+  schema: z.object({
+    /** The agent's callback body, read by the dispatch's protocol */
+    payload: z.unknown(),
+  }),
+});
@@ -0,0 +1,239 @@
+import { randomUUID } from "crypto";
+import prisma from "@/lib/prisma";
+import { saveAssistantMessage } from "@/lib/chat";
+import { sendEmail, agentWorkStoppedEmail } from "@/lib/email";
+import {
+  buildAgentSystemPrompt,
+  findAgentByIdOrMint,
+  DEFAULT_AGENT_MODEL,
+} from "@/lib/agents";
+import { submitDeliverables } from "@/lib/marketplace/delivery";
+import { formatTaskBrief } from "@/lib/marketplace/dispatch-policy";
+import {
+  AGENT_WORK_BUDGET_SHARE,
+  AGENT_WORK_EXCLUDED_TOOL_GROUPS,
+  MAX_AGENT_WORK_BUDGET_USD,
+  type AgentWorkStatus,
+} from "@/lib/marketplace/types";
+import { getSolPrice } from "@/lib/x402";
+import type { AgentWorkConfig } from "./work";
+
+/** Statuses an agent works a task in */
+const WORKABLE_STATUSES = ["assigned", "in_progress"];
+
+const WORK_INSTRUCTIONS = `# Marketplace Task
+You were hired on the Agent Inc. marketplace to complete the task below, and you are working on it by yourself — nobody will answer questions in between. Use your tools to do the work. Call postProgress after each meaningful step so the poster can follow along. When every requirement is met, call submitDeliverables once with the complete, self-contained result. Your spending is capped: work efficiently and submit your best work before the budget runs out.`;
+
+/**
+ * Post a message from the agent into the task's chat.
+ */
+export async function postWorkUpdate(
+  chatId: string,
+  text: string,
+): Promise<void> {
+  await saveAssistantMessage(chatId, {
+    id: randomUUID(),
+    role: "assistant",
+    parts: [{ type: "text", text }],
+  });
+}
+
+/**
+ * Start work on a task assigned to an agent: move it to in_progress, set
+ * the budget, and make sure it has a chat to report progress in. Returns
+ * null when the agent shouldn't (or can't) work it.
+ */
+export async function beginAgentWork(
+  taskId: string,
+): Promise<AgentWorkConfig | null> {
+  "use step";
+
+  const task = await prisma.marketplaceTask.findUnique({
+    where: { id: taskId },
+    select: {
+      status: true,
+      title: true,
+      description: true,
+      category: true,
+      requirements: true,
+      deadline: true,
+      budgetSol: true,
+      posterId: true,
+      chatId: true,
+      workerAgentId: true,
+      workerAgent: {
+        select: { createdById: true, enabledToolGroups: true },
+      },
+    },
+  });
+  if (
+    !task?.workerAgentId ||
+    !task.workerAgent ||
+    !WORKABLE_STATUSES.includes(task.status)
+  ) {
+    return null;
+  }
+
+  const agent = await findAgentByIdOrMint(task.workerAgentId);
+  if (!agent) return null;
+
+  // The agent spends a share of what the bounty is worth, so working the
+  // task never costs its owner more than it pays
+  const solPrice = await getSolPrice();
+  const budgetUsd = Math.min(
+    Number(task.budgetSol) * solPrice * AGENT_WORK_BUDGET_SHARE,
+    MAX_AGENT_WORK_BUDGET_USD,
+  );
+
+  const { count } = await prisma.marketplaceTask.updateMany({
+    where: {
+      id: taskId,
+      workerAgentId: task.workerAgentId,
+      status: { in: WORKABLE_STATUSES },
+    },
+    data: {
+      status: "in_progress",
+      workStatus: "running",
+      workBudgetUsd: budgetUsd,
+      workSpentUsd: 0,
+      workError: null,
+    },
+  });
+  if (count === 0) return null;
+
+  // Tasks hired from a listing don't get a chat at assignment
+  let chatId = task.chatId;
+  if (!chatId) {
+    const chat = await prisma.chat.create({
+      data: {
+        title: `Task: ${taskId.slice(0, 8)}`,
+        userId: task.posterId,
+        agentId: task.workerAgentId,
+      },
+    });
+    await prisma.marketplaceTask.update({
+      where: { id: taskId },
+      data: { chatId: chat.id },
+    });
+    chatId = chat.id;
+  }
+
+  await postWorkUpdate(
+    chatId,
+    `I'm starting work on "${task.title}". I'll post updates here as I go and submit the deliverables for your review when I'm done.`,
+  );
+
+  return {
+    taskId,
+    agentId: task.workerAgentId,
+    ownerId: task.workerAgent.createdById,
+    chatId,
+    model: DEFAULT_AGENT_MODEL,
+    systemPrompt: `${buildAgentSystemPrompt(agent)}\n\n${WORK_INSTRUCTIONS}`,
+    brief: formatTaskBrief(task),
+    budgetUsd,
+    skills: agent.enabledSkills,
+    toolGroups: task.workerAgent.enabledToolGroups.filter(
+      (g) => !AGENT_WORK_EXCLUDED_TOOL_GROUPS.includes(g),
+    ),
+  };
+}
+
+/**
+ * Add a round's cost to the task's spend. Returns the total spent.
+ */
+export async function recordWorkSpend(
+  config: AgentWorkConfig,
+  spentUsd: number,
+  costUsd: number,
+): Promise<number> {
+  "use step";
+
+  // A task that was unassigned mid-round no longer tracks this work
+  await prisma.marketplaceTask.updateMany({
+    where: { id: config.taskId, workerAgentId: config.agentId },
+    data: { workSpentUsd: { increment: costUsd } },
+  });
+  return spentUsd + costUsd;
+}
+
+/**
+ * Submit the agent's deliverables on its owner's behalf, the same way the
+ * submit route does.
+ */
+export async function submitAgentWork(
+  config: AgentWorkConfig,
+  deliverables: string,
+): Promise<{ ok: true } | { ok: false; error: string }> {
+  "use step";
+
+  const result = await submitDeliverables(
+    config.taskId,
+    config.ownerId,
+    deliverables,
+  );
+  if (!result.ok) return { ok: false, error: result.error };
+
+  await prisma.marketplaceTask.update({
+    where: { id: config.taskId },
+    data: { workStatus: "submitted" },
+  });
+  await postWorkUpdate(
+    config.chatId,
+    "I've submitted the deliverables. The task is now waiting for your review.",
+  );
+  return { ok: true };
+}
+
+/**
+ * Record that the agent stopped without delivering. A failure is posted to
+ * the chat and emailed to the agent's owner, who can finish the work.
+ */
+export async function endAgentWork(
+  config: AgentWorkConfig,
+  status: Extract<AgentWorkStatus, "failed" | "stopped">,
+  reason: string,
+): Promise<void> {
+  "use step";
+
+  const { count } = await prisma.marketplaceTask.updateMany({
+    where: { id: config.taskId, workerAgentId: config.agentId },
+    data: { workStatus: status, workError: reason },
+  });
+  if (count === 0 || status === "stopped") return;
+
+  await postWorkUpdate(
+    config.chatId,
+    `I had to stop working on this task: ${reason} My owner has been notified and can take it from here.`,
+  );
+
+  const task = await prisma.marketplaceTask.findUnique({
+    where: { id: config.taskId },
+    select: {
+      title: true,
+      budgetSol: true,
+      tokenMint: true,
+      tokenSymbol: true,
+      tokenFeesClaimed: true,
+      featuredImage: true,
+      workerAgent: {
+        select: { name: true, createdBy: { select: { email: true } } },
+      },
+    },
+  });
+  const email = task?.workerAgent?.createdBy.email;
+  if (!task?.workerAgent || !email) return;
+
+  const { subject, html } = agentWorkStoppedEmail({
+    taskTitle: task.title,
+    taskId: config.taskId,
+    budgetSol: Number(task.budgetSol),
+    creatorFees: Number(task.tokenFeesClaimed),
+    tokenMint: task.tokenMint,
+    tokenSymbol: task.tokenSymbol,
+    featuredImage: task.featuredImage,
+    agentName: task.workerAgent.name,
+    reason,
+  });
+  sendEmail({ to: email, subject, html });
+}
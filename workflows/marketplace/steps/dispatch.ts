@@ -0,0 +1,414 @@
+import { randomBytes } from "crypto";
+import prisma from "@/lib/prisma";
+import type { Prisma } from "@/app/generated/prisma/client";
+import { sendEmail, agentWorkStoppedEmail } from "@/lib/email";
+import { submitDeliverables } from "@/lib/marketplace/delivery";
+import {
+  failureReason,
+  formatDeliverables,
+  formatTaskBrief,
+  isTerminalDispatchState,
+  selectDispatchEndpoint,
+  type DispatchUpdate,
+} from "@/lib/marketplace/dispatch-policy";
+import {
+  allowPrivateDispatchHosts,
+  cancelAtAgent,
+  pollAgent,
+  readAgentCallback,
+  sendToAgent,
+} from "@/lib/marketplace/dispatch-protocols";
+import {
+  DISPATCH_TIMEOUT_MS,
+  type AgentWorkStatus,
+  type DispatchProtocol,
+  type DispatchState,
+} from "@/lib/marketplace/types";
+
+/** Statuses a task is dispatched in */
+const WORKABLE_STATUSES = ["assigned", "in_progress"];
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+
+/** Everything the dispatch needs, fixed when it starts */
+export interface DispatchConfig {
+  dispatchId: string;
+  taskId: string;
+  /** The listing's registrant: the task's worker, who the agent delivers as */
+  workerId: string;
+  agentName: string;
+  protocol: DispatchProtocol;
+  endpoint: string;
+}
+
+/** Whether the task still waits on this dispatch */
+async function isStillDispatched(config: DispatchConfig): Promise<boolean> {
+  const task = await prisma.marketplaceTask.findUnique({
+    where: { id: config.taskId },
+    select: { status: true, workerId: true, workStatus: true },
+  });
+  return (
+    task?.status === "in_progress" &&
+    task.workerId === config.workerId &&
+    task.workStatus === "running"
+  );
+}
+
+/** Save what the agent reported, unless the dispatch already ended */
+async function recordUpdate(
+  dispatchId: string,
+  update: DispatchUpdate,
+): Promise<void> {
+  const terminal = isTerminalDispatchState(update.state);
+  await prisma.marketplaceDispatch.updateMany({
+    where: {
+      id: dispatchId,
+      state: { notIn: ["completed", "failed", "canceled"] },
+    },
+    data: {
+      state: update.state,
+      ...(update.remoteTaskId && { remoteTaskId: update.remoteTaskId }),
+      ...(update.statusUrl && { statusUrl: update.statusUrl }),
+      ...(update.message !== undefined && {
+        remoteMessage: update.message,
+      }),
+      ...(update.artifacts && {
+        artifacts: update.artifacts as unknown as Prisma.InputJsonValue,
+      }),
+      ...(update.error && { error: update.error }),
+      ...(terminal && { completedAt: new Date() }),
+    },
+  });
+}
+
+/** Email the registrant that their agent stopped without delivering */
+async function notifyDispatchFailed(
+  taskId: string,
+  agentName: string,
+  reason: string,
+): Promise<void> {
+  const task = await prisma.marketplaceTask.findUnique({
+    where: { id: taskId },
+    select: {
+      title: true,
+      budgetSol: true,
+      tokenMint: true,
+      tokenSymbol: true,
+      tokenFeesClaimed: true,
+      featuredImage: true,
+      worker: { select: { email: true } },
+    },
+  });
+  const email = task?.worker?.email;
+  if (!task || !email) return;
+
+  const { subject, html } = agentWorkStoppedEmail({
+    taskTitle: task.title,
+    taskId,
+    budgetSol: Number(task.budgetSol),
+    creatorFees: Number(task.tokenFeesClaimed),
+    tokenMint: task.tokenMint,
+    tokenSymbol: task.tokenSymbol,
+    featuredImage: task.featuredImage,
+    agentName,
+    reason,
+  });
+  sendEmail({ to: email, subject, html });
+}
+
+/**
+ * Start dispatching a task hired from an external agent's listing: pick
+ * the protocol, move the task to in_progress, and record the dispatch.
+ * Returns null when the task shouldn't (or can't) be dispatched.
+ */
+export async function beginDispatch(
+  taskId: string,
+): Promise<DispatchConfig | null> {
+  "use step";
+
+  const task = await prisma.marketplaceTask.findUnique({
+    where: { id: taskId },
+    select: {
+      status: true,
+      workerId: true,
+      listing: {
+        select: {
+          userId: true,
+          agentId: true,
+          externalAgentName: true,
+          externalA2aUrl: true,
+          externalMcpUrl: true,
+          externalAgentUrl: true,
+        },
+      },
+    },
+  });
+  const listing = task?.listing;
+  if (
+    !task?.workerId ||
+    !listing ||
+    listing.agentId ||
+    listing.userId !== task.workerId ||
+    !WORKABLE_STATUSES.includes(task.status)
+  ) {
+    return null;
+  }
+
+  const agentName = listing.externalAgentName || "The external agent";
+  const target = selectDispatchEndpoint(listing, allowPrivateDispatchHosts());
+  if (!target) {
+    const reason =
+      "its listing has no A2A, MCP or REST endpoint the marketplace can reach.";
+    await prisma.marketplaceTask.update({
+      where: { id: taskId },
+      data: { workStatus: "failed", workError: reason },
+    });
+    await notifyDispatchFailed(taskId, agentName, reason);
+    return null;
+  }
+
+  const { count } = await prisma.marketplaceTask.updateMany({
+    where: {
+      id: taskId,
+      workerId: task.workerId,
+      status: { in: WORKABLE_STATUSES },
+    },
+    data: { status: "in_progress", workStatus: "running", workError: null },
+  });
+  if (count === 0) return null;
+
+  const dispatch = await prisma.marketplaceDispatch.create({
+    data: {
+      taskId,
+      protocol: target.protocol,
+      endpoint: target.endpoint,
+      callbackToken: randomBytes(32).toString("hex"),
+    },
+  });
+
+  return {
+    dispatchId: dispatch.id,
+    taskId,
+    workerId: task.workerId,
+    agentName,
+    ...target,
+  };
+}
+
+/**
+ * Send the task to the agent. An agent that can't be reached fails the
+ * dispatch; MCP agents finish (or fail) within the call.
+ */
+export async function sendDispatch(
+  config: DispatchConfig,
+): Promise<DispatchUpdate> {
+  "use step";
+
+  const dispatch = await prisma.marketplaceDispatch.findUniqueOrThrow({
+    where: { id: config.dispatchId },
+    select: {
+      callbackToken: true,
+      task: {
+        select: {
+          title: true,
+          description: true,
+          category: true,
+          requirements: true,
+          deadline: true,
+          budgetSol: true,
+        },
+      },
+    },
+  });
+  const { task } = dispatch;
+
+  let update: DispatchUpdate;
+  try {
+    update = await sendToAgent(config.protocol, config.endpoint, {
+      dispatchId: config.dispatchId,
+      task: { ...task, id: config.taskId, budgetSol: Number(task.budgetSol) },
+      brief: formatTaskBrief(task),
+      callbackUrl: `${APP_URL}/api/marketplace/dispatch/${config.dispatchId}/callback`,
+      callbackToken: dispatch.callbackToken,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error(
+      `[Marketplace Dispatch ${config.dispatchId}] Send failed:`,
+      error,
+    );
+    update = {
+      state: "failed",
+      error: failureReason("couldn't reach the agent", message),
+    };
+  }
+
+  await recordUpdate(config.dispatchId, update);
+  return update;
+}
+
+/**
+ * Check on the dispatch: cancel it at the agent when the task was
+ * cancelled, reassigned or submitted by hand, or when the agent ran out of
+ * time; otherwise poll the agent where the protocol allows. A failed poll
+ * is logged and retried at the next check.
+ */
+export async function checkDispatch(
+  config: DispatchConfig,
+): Promise<DispatchUpdate> {
+  "use step";
+
+  const dispatch = await prisma.marketplaceDispatch.findUniqueOrThrow({
+    where: { id: config.dispatchId },
+    select: {
+      state: true,
+      remoteTaskId: true,
+      statusUrl: true,
+      createdAt: true,
+    },
+  });
+  const ref = {
+    remoteTaskId: dispatch.remoteTaskId,
+    statusUrl: dispatch.statusUrl,
+  };
+
+  let update: DispatchUpdate | null = null;
+  if (!(await isStillDispatched(config))) {
+    await cancelAtAgent(config.protocol, config.endpoint, ref);
+    update = { state: "canceled" };
+  } else if (Date.now() - dispatch.createdAt.getTime() > DISPATCH_TIMEOUT_MS) {
+    await cancelAtAgent(config.protocol, config.endpoint, ref);
+    update = {
+      state: "failed",
+      error: `the agent didn't finish within ${DISPATCH_TIMEOUT_MS / 86_400_000} days.`,
+    };
+  } else {
+    try {
+      update = await pollAgent(config.protocol, config.endpoint, ref);
+    } catch (error) {
+      console.error(
+        `[Marketplace Dispatch ${config.dispatchId}] Poll failed:`,
+        error,
+      );
+    }
+    await prisma.marketplaceDispatch.update({
+      where: { id: config.dispatchId },
+      data: { polls: { increment: 1 }, lastPolledAt: new Date() },
+    });
+  }
+
+  if (!update) return { state: dispatch.state as DispatchState };
+  await recordUpdate(config.dispatchId, update);
+  return update;
+}
+
+/**
+ * Apply a callback from the agent. Callbacks that report completion
+ * without the artifacts (or carry no status) are followed by a poll, which
+ * returns the whole task.
+ */
+export async function applyDispatchCallback(
+  config: DispatchConfig,
+  payload: unknown,
+): Promise<DispatchUpdate> {
+  "use step";
+
+  const dispatch = await prisma.marketplaceDispatch.findUniqueOrThrow({
+    where: { id: config.dispatchId },
+    select: { state: true, remoteTaskId: true, statusUrl: true },
+  });
+
+  let update = readAgentCallback(config.protocol, config.endpoint, payload);
+  if (!update || (update.state === "completed" && !update.artifacts?.length)) {
+    try {
+      update =
+        (await pollAgent(config.protocol, config.endpoint, {
+          remoteTaskId: update?.remoteTaskId ?? dispatch.remoteTaskId,
+          statusUrl: update?.statusUrl ?? dispatch.statusUrl,
+        })) ?? update;
+    } catch (error) {
+      console.error(
+        `[Marketplace Dispatch ${config.dispatchId}] Poll after callback failed:`,
+        error,
+      );
+    }
+  }
+
+  if (!update) return { state: dispatch.state as DispatchState };
+  await recordUpdate(config.dispatchId, update);
+  return update;
+}
+
+/**
+ * Record that the dispatch ended without deliverables. A failure is
+ * emailed to the listing's registrant, who can finish the work.
+ */
+async function endDispatch(
+  config: DispatchConfig,
+  status: Extract<AgentWorkStatus, "failed" | "stopped">,
+  reason: string,
+): Promise<Extract<AgentWorkStatus, "failed" | "stopped">> {
+  const { count } = await prisma.marketplaceTask.updateMany({
+    where: { id: config.taskId, workerId: config.workerId },
+    data: { workStatus: status, workError: reason },
+  });
+  if (count > 0 && status === "failed") {
+    await notifyDispatchFailed(config.taskId, config.agentName, reason);
+  }
+  return status;
+}
+
+/**
+ * Finish the dispatch: submit the agent's artifacts as the deliverables,
+ * the same way the submit route does, or record why there are none.
+ */
+export async function finishDispatch(
+  config: DispatchConfig,
+  update: DispatchUpdate,
+): Promise<AgentWorkStatus> {
+  "use step";
+
+  if (!(await isStillDispatched(config))) {
+    return endDispatch(
+      config,
+      "stopped",
+      "the task was cancelled, reassigned, or submitted by hand.",
+    );
+  }
+
+  if (update.state === "completed") {
+    const deliverables = formatDeliverables(update.artifacts ?? []);
+    if (!deliverables) {
+      return endDispatch(
+        config,
+        "failed",
+        "the agent finished without returning any artifacts.",
+      );
+    }
+
+    const result = await submitDeliverables(
+      config.taskId,
+      config.workerId,
+      deliverables,
+    );
+    if (!result.ok) {
+      return endDispatch(
+        config,
+        "failed",
+        `the deliverables couldn't be submitted: ${result.error}.`,
+      );
+    }
+    await prisma.marketplaceTask.update({
+      where: { id: config.taskId },
+      data: { workStatus: "submitted" },
+    });
+    return "submitted";
+  }
+
+  const reason =
+    update.error ??
+    (update.state === "canceled"
+      ? "the agent canceled the task."
+      : failureReason("the agent reported a failure", update.message));
+  return endDispatch(config, "failed", reason);
+}
@@ -0,0 +1,264 @@
+import {
+  generateText,
+  hasToolCall,
+  stepCountIs,
+  type LanguageModelUsage,
+  type ModelMessage,
+} from "ai";
+import prisma from "@/lib/prisma";
+import { appendToolGuidelines, buildAgentTools } from "@/lib/agents";
+import { categorizeTaskError, type TaskFailureCategory } from "@/lib/tasks";
+import { createMarketplaceWorkTools } from "@/lib/tools/marketplaceWork";
+import { chargeForUsage } from "@/lib/x402";
+import { calculateCost } from "@/lib/x402/ai-gateway-cost";
+import type { BillingContext } from "@/lib/x402";
+import type { UsageMetadata } from "@/lib/usage";
+import {
+  AGENT_WORK_STEPS_PER_ROUND,
+  MAX_AGENT_WORK_ROUNDS,
+} from "@/lib/marketplace/types";
+import { postWorkUpdate } from "./db";
+
+/** Everything a round of work needs, fixed when the work starts */
+export interface AgentWorkConfig {
+  taskId: string;
+  agentId: string;
+  /** The agent's creator: billed for the work, and submits on its behalf */
+  ownerId: string;
+  chatId: string;
+  model: string;
+  systemPrompt: string;
+  /** The task as the agent sees it: the first round's prompt */
+  brief: string;
+  budgetUsd: number;
+  skills: string[];
+  toolGroups: string[];
+}
+
+/** Result from a single round of work */
+export interface WorkRoundResult {
+  /**
+   * working: the round ended without deliverables — run another
+   * delivered: the agent submitted `deliverables`
+   * stopped: the task was cancelled or reassigned
+   * error: the round failed
+   */
+  status: "working" | "delivered" | "stopped" | "error";
+  deliverables?: string;
+  /** Inference and tool charges for the round */
+  costUsd: number;
+  /** The budget ran out during the round */
+  budgetReached?: boolean;
+  /** The conversation so far, to continue in the next round */
+  messages?: ModelMessage[];
+  error?: string;
+  errorCategory?: TaskFailureCategory;
+}
+
+function addUsage(
+  total: { inputTokens: number; outputTokens: number },
+  usage: LanguageModelUsage,
+) {
+  total.inputTokens += usage.inputTokens ?? 0;
+  total.outputTokens += usage.outputTokens ?? 0;
+  return total;
+}
+
+function roundPrompt(round: number, remainingUsd: number): string {
+  const final = round === MAX_AGENT_WORK_ROUNDS;
+  return `[Round ${round} of ${MAX_AGENT_WORK_ROUNDS}] You have $${remainingUsd.toFixed(2)} of budget left. ${
+    final
+      ? "This is your last round: finish up and call submitDeliverables with your best work."
+      : "Continue working on the task, and call submitDeliverables when it's done."
+  }`;
+}
+
+/**
+ * Run one round of work: the agent works the task with its tools until it
+ * submits, runs out of steps, or reaches the budget. Inference and billed
+ * tools are charged to the agent's owner and counted against the budget.
+ *
+ * @param spentUsd - What earlier rounds cost.
+ * @param messages - The conversation from the previous round, if any.
+ */
+export async function runWorkRound(
+  config: AgentWorkConfig,
+  round: number,
+  spentUsd: number,
+  messages?: ModelMessage[],
+): Promise<WorkRoundResult> {
+  "use step";
+
+  // Stop as soon as the task is cancelled, reassigned, or submitted by hand
+  const task = await prisma.marketplaceTask.findUnique({
+    where: { id: config.taskId },
+    select: { status: true, workerAgentId: true },
+  });
+  if (task?.status !== "in_progress" || task.workerAgentId !== config.agentId) {
+    return { status: "stopped", costUsd: 0 };
+  }
+
+  const remainingUsd = config.budgetUsd - spentUsd;
+  if (remainingUsd <= 0) {
+    return { status: "working", costUsd: 0, budgetReached: true };
+  }
+
+  // Billed tool calls count against the budget too
+  let toolSpendUsd = 0;
+  const attribution = { chatId: config.chatId, agentId: config.agentId };
+  const chargeUsage = async (
+    usdCost: number,
+    description?: string,
+    meta?: UsageMetadata,
+  ) => {
+    const result = await chargeForUsage(
+      config.ownerId,
+      usdCost,
+      description || `Marketplace task [${config.taskId}]`,
+      { ...attribution, ...meta },
+    );
+    if (result.success) toolSpendUsd += usdCost;
+    return result;
+  };
+  const billingContext: BillingContext = {
+    userId: config.ownerId,
+    walletAddress: "",
+    attribution,
+    chargeUsage,
+    // Token payment not supported in automated work
+    chargeUsageInToken: (usdCost, _tokenMint, _decimals, desc, meta) =>
+      chargeUsage(usdCost, desc, meta),
+  };
+
+  try {
+    const { tools } = await buildAgentTools({
+      userId: config.ownerId,
+      agentId: config.agentId,
+      baseSystemPrompt: config.systemPrompt,
+      chatId: config.chatId,
+      skills: config.skills,
+      toolGroups: config.toolGroups,
+      billingContext,
+    });
+
+    let deliverables: string | undefined;
+    Object.assign(
+      tools,
+      createMarketplaceWorkTools(
+        (message) => postWorkUpdate(config.chatId, message),
+        (submitted) => {
+          deliverables = submitted;
+        },
+      ),
+    );
+
+    const conversation: ModelMessage[] = messages
+      ? [
+          ...messages,
+          { role: "user", content: roundPrompt(round, remainingUsd) },
+        ]
+      : [
+          {
+            role: "user",
+            content: `${config.brief}\n\n${roundPrompt(round, remainingUsd)}`,
+          },
+        ];
+
+    // Stop between steps once the round's cost would exceed what's left
+    let budgetReached = false;
+    const overBudget = async ({
+      steps,
+    }: {
+      steps: Array<{ usage: LanguageModelUsage }>;
+    }) => {
+      const usage = steps.reduce((total, s) => addUsage(total, s.usage), {
+        inputTokens: 0,
+        outputTokens: 0,
+      });
+      const cost = await calculateCost(config.model, usage);
+      budgetReached = (cost?.totalWithFee ?? 0) + toolSpendUsd >= remainingUsd;
+      return budgetReached;
+    };
+
+    const result = await generateText({
+      model: config.model,
+      system: appendToolGuidelines(config.systemPrompt, tools),
+      messages: conversation,
+      tools,
+      stopWhen: [
+        stepCountIs(AGENT_WORK_STEPS_PER_ROUND),
+        hasToolCall("submitDeliverables"),
+        overBudget,
+      ],
+    });
+
+    // Bill for AI inference (same pattern as task iterations)
+    const usage = result.totalUsage;
+    let inferenceUsd = 0;
+    let billingError: string | undefined;
+    try {
+      const costResult = await calculateCost(config.model, {
+        inputTokens: usage.inputTokens ?? 0,
+        outputTokens: usage.outputTokens ?? 0,
+      });
+      if (costResult && costResult.totalWithFee > 0) {
+        inferenceUsd = costResult.totalWithFee;
+        const billingResult = await chargeForUsage(
+          config.ownerId,
+          inferenceUsd,
+          `Marketplace task [${config.taskId}] Round ${round} - ${config.model} - ${(usage.inputTokens ?? 0) + (usage.outputTokens ?? 0)} tokens`,
+          {
+            ...attribution,
+            model: config.model,
+            inputTokens: usage.inputTokens ?? 0,
+            outputTokens: usage.outputTokens ?? 0,
+          },
+        );
+        if (!billingResult.success && billingResult.error) {
+          console.error(
+            `[Agent Work ${config.taskId}] Billing failed: ${billingResult.error}`,
+          );
+          // An unfunded owner can't keep paying for the work
+          if (categorizeTaskError(billingResult.error) === "billing") {
+            billingError = `Billing failed: ${billingResult.error}`;
+          }
+        }
+      }
+    } catch (error) {
+      console.error(`[Agent Work ${config.taskId}] Billing error:`, error);
+    }
+
+    const costUsd = inferenceUsd + toolSpendUsd;
+    if (billingError) {
+      return {
+        status: "error",
+        costUsd,
+        error: billingError,
+        errorCategory: "billing",
+      };
+    }
+    if (deliverables) {
+      return { status: "delivered", deliverables, costUsd };
+    }
+    return {
+      status: "working",
+      costUsd,
+      budgetReached: budgetReached || spentUsd + costUsd >= config.budgetUsd,
+      messages: [...conversation, ...result.response.messages],
+    };
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    console.error(
+      `[Agent Work ${config.taskId}] Round ${round} failed:`,
+      error,
+    );
+
+    return {
+      status: "error",
+      costUsd: toolSpendUsd,
+      error: errorMessage,
+      errorCategory: categorizeTaskError(error),
+    };
+  }
+}
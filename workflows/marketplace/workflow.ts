@@ -0,0 +1,128 @@
+import { sleep } from "workflow";
+import type { ModelMessage } from "ai";
+
+import { getRetryDelay, isRetryableFailure } from "@/lib/tasks/failure-policy";
+import {
+  AGENT_WORK_RETRY_MS,
+  MAX_AGENT_WORK_RETRIES,
+  MAX_AGENT_WORK_ROUNDS,
+} from "@/lib/marketplace/types";
+import { runWorkRound } from "./steps/work";
+import {
+  beginAgentWork,
+  endAgentWork,
+  recordWorkSpend,
+  submitAgentWork,
+} from "./steps/db";
+
+/**
+ * Marketplace Agent Work Workflow
+ *
+ * A durable workflow started when a marketplace task is assigned to an
+ * Agent Inc agent, whether hired from its listing or through an accepted
+ * bid. The agent works the task on its own, with its system prompt,
+ * enabled skills and tool groups, in rounds that each continue the
+ * conversation of the last:
+ *
+ * - Progress is posted to the task's chat as the agent goes.
+ * - When the agent submits, its deliverables go through the same checks as
+ *   the submit route and the task moves to review.
+ * - Inference and billed tools are charged to the agent's owner, capped by
+ *   a budget derived from the task's SOL bounty. Running out of budget or
+ *   rounds without delivering stops the work, and the owner is emailed to
+ *   finish it by hand.
+ * - A failed round is retried with backoff, unless retrying can't help
+ *   (auth, billing).
+ * - Cancelling, unassigning, or submitting by hand stops the work before
+ *   the next round.
+ */
+export async function marketplaceWorkWorkflow(
+  taskId: string,
+): Promise<{ taskId: string; status: string; rounds: number }> {
+  "use workflow";
+
+  const config = await beginAgentWork(taskId);
+  if (!config) return { taskId, status: "skipped", rounds: 0 };
+
+  if (config.budgetUsd <= 0) {
+    await endAgentWork(
+      config,
+      "failed",
+      "the task has no SOL bounty to fund the work.",
+    );
+    return { taskId, status: "failed", rounds: 0 };
+  }
+
+  let spentUsd = 0;
+  let messages: ModelMessage[] | undefined;
+  let retries = 0;
+  let round = 1;
+
+  while (round <= MAX_AGENT_WORK_ROUNDS) {
+    const result = await runWorkRound(config, round, spentUsd, messages);
+    if (result.costUsd > 0) {
+      spentUsd = await recordWorkSpend(config, spentUsd, result.costUsd);
+    }
+
+    if (result.status === "stopped") {
+      await endAgentWork(
+        config,
+        "stopped",
+        "the task was cancelled, reassigned, or submitted by hand.",
+      );
+      return { taskId, status: "stopped", rounds: round };
+    }
+
+    if (result.status === "delivered" && result.deliverables) {
+      const submitted = await submitAgentWork(config, result.deliverables);
+      if (!submitted.ok) {
+        await endAgentWork(
+          config,
+          "failed",
+          `the deliverables couldn't be submitted: ${submitted.error}.`,
+        );
+        return { taskId, status: "failed", rounds: round };
+      }
+      return { taskId, status: "submitted", rounds: round };
+    }
+
+    if (result.status === "error") {
+      const category = result.errorCategory ?? "unknown";
+      if (
+        isRetryableFailure(category) &&
+        retries < MAX_AGENT_WORK_RETRIES &&
+        spentUsd < config.budgetUsd
+      ) {
+        retries++;
+        await sleep(getRetryDelay(AGENT_WORK_RETRY_MS, retries));
+        continue;
+      }
+      await endAgentWork(
+        config,
+        "failed",
+        `round ${round} failed: ${result.error ?? "Unknown error"}.`,
+      );
+      return { taskId, status: "failed", rounds: round };
+    }
+
+    if (result.budgetReached) {
+      await endAgentWork(
+        config,
+        "failed",
+        `the $${config.budgetUsd.toFixed(2)} budget ran out before the work was finished.`,
+      );
+      return { taskId, status: "failed", rounds: round };
+    }
+
+    retries = 0;
+    messages = result.messages;
+    round++;
+  }
+
+  await endAgentWork(
+    config,
+    "failed",
+    `the work wasn't finished within ${MAX_AGENT_WORK_ROUNDS} rounds.`,
+  );
+  return { taskId, status: "failed", rounds: MAX_AGENT_WORK_ROUNDS };
+}
@@ -0,0 +1,26 @@
+import { defineHook } from "workflow";
+import { z } from "zod";
+
+/**
+ * Approval hook for sensitive tool calls in agent tasks.
+ * When an iteration calls a tool that requires approval, the workflow
+ * blocks on this hook until the owner decides via
+ * POST /api/tasks/[taskId]/approvals/[approvalId], then resumes the
+ * iteration with the decision. Hook tokens must be unique, so it gets its
+ * own token (see taskApprovalToken); the approvalId says which pending
+ * call the decision is for.
+ */
+export const taskApprovalHook = defineHook({
+  schema: z.object({
+    /** AI SDK approval request ID of the pending tool call */
+    approvalId: z.string(),
+    approved: z.boolean(),
+    /** Optional note from the owner, passed back to the agent */
+    reason: z.string().optional(),
+  }),
+});
+
+/** Token of a task's approval hook — distinct from its other hooks' tokens */
+export function taskApprovalToken(taskId: string): string {
+  return `approval:${taskId}`;
+}
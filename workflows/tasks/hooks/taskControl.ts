@@ -10,10 +10,11 @@ import { z } from "zod";
  * - stop: Gracefully stop the task after current iteration
  * - pause: Pause the task (blocks until resume or stop)
  * - resume: Resume a paused task
+ * - reschedule: A cron task's schedule changed — recompute the next fire time
  */
 export const taskControlHook = defineHook({
   schema: z.object({
-    action: z.enum(["stop", "pause", "resume"]),
+    action: z.enum(["stop", "pause", "resume", "reschedule"]),
     message: z.string().optional(),
   }),
 });
@@ -1,11 +1,31 @@
 import prisma from "@/lib/prisma";
+import {
+  DEFAULT_MAX_RETRIES,
+  DEFAULT_RETRY_BACKOFF_MS,
+  DEFAULT_FAILURE_THRESHOLD,
+  DEFAULT_TASK_TIMEZONE,
+  closeTaskApprovals,
+  deliverTaskResult,
+  getNextCronRun,
+  recordPipelineStage,
+  recordTaskFailure,
+  requestTaskApprovals,
+  type PendingToolApproval,
+  type TaskFailureCategory,
+  type TaskIterationOutcome,
+  type TaskRetryPolicy,
+} from "@/lib/tasks";
+import { taskControlHook } from "../hooks/taskControl";
+import type { IterationResult, TaskEventContext } from "./execute";
 
 /**
  * Update task iteration progress in the database.
+ * A successful iteration clears the consecutive failure count.
  */
 export async function updateTaskProgress(
   taskId: string,
   iteration: number,
+  succeeded: boolean,
 ): Promise<void> {
   "use step";
 
@@ -15,6 +35,7 @@ export async function updateTaskProgress(
       currentIteration: iteration,
       lastExecutedAt: new Date(),
       status: "running",
+      ...(succeeded && { consecutiveFailures: 0 }),
     },
   });
 }
@@ -34,6 +55,41 @@ export async function updateNextExecution(
   });
 }
 
+/**
+ * Compute a cron task's next fire time and record it as nextExecutionAt.
+ * Reads the schedule from the database so edits take effect at the next
+ * wait. Returns an ISO timestamp, or null if the stored schedule is unusable.
+ */
+export async function scheduleNextCronRun(
+  taskId: string,
+): Promise<string | null> {
+  "use step";
+
+  const task = await prisma.agentTask.findUnique({
+    where: { id: taskId },
+    select: { cronExpression: true, timezone: true },
+  });
+  if (!task?.cronExpression) return null;
+
+  let nextExecutionAt: Date;
+  try {
+    nextExecutionAt = getNextCronRun(
+      task.cronExpression,
+      task.timezone ?? DEFAULT_TASK_TIMEZONE,
+    );
+  } catch (error) {
+    console.error(`[Task ${taskId}] Invalid cron schedule:`, error);
+    return null;
+  }
+
+  await prisma.agentTask.update({
+    where: { id: taskId },
+    data: { nextExecutionAt },
+  });
+
+  return nextExecutionAt.toISOString();
+}
+
 /**
  * Mark a task as completed (reached max iterations).
  */
@@ -81,6 +137,8 @@ export async function markTaskPaused(taskId: string): Promise<void> {
 
 /**
  * Mark a task as running (resumed from pause).
+ * Clears any pause reason left by an automatic pause, and the failure count
+ * so a task paused for repeated failures gets a fresh start.
  */
 export async function markTaskRunning(taskId: string): Promise<void> {
   "use step";
@@ -89,10 +147,31 @@ export async function markTaskRunning(taskId: string): Promise<void> {
     where: { id: taskId },
     data: {
       status: "running",
+      errorMessage: null,
+      consecutiveFailures: 0,
     },
   });
 }
 
+/**
+ * Pause a task on the platform's behalf (e.g. a spending limit was reached).
+ * Records the reason, then sends the same pause signal a user would, so the
+ * workflow's regular control handling takes over.
+ */
+export async function requestTaskPause(
+  taskId: string,
+  reason: string,
+): Promise<void> {
+  "use step";
+
+  await prisma.agentTask.update({
+    where: { id: taskId },
+    data: { errorMessage: reason },
+  });
+
+  await taskControlHook.resume(taskId, { action: "pause", message: reason });
+}
+
 /**
  * Mark a task as failed with an error message.
  */
@@ -112,6 +191,116 @@ export async function markTaskFailed(
   });
 }
 
+/**
+ * Read the task's retry policy. Read each time an iteration fails, so edits
+ * apply to the next failure.
+ */
+export async function getTaskRetryPolicy(
+  taskId: string,
+): Promise<TaskRetryPolicy> {
+  "use step";
+
+  const task = await prisma.agentTask.findUnique({
+    where: { id: taskId },
+    select: { maxRetries: true, retryBackoffMs: true, failureThreshold: true },
+  });
+
+  return (
+    task ?? {
+      maxRetries: DEFAULT_MAX_RETRIES,
+      retryBackoffMs: DEFAULT_RETRY_BACKOFF_MS,
+      failureThreshold: DEFAULT_FAILURE_THRESHOLD,
+    }
+  );
+}
+
+/**
+ * Count an iteration that failed after its retries. Returns the reason to
+ * pause the task with once failures reach its threshold, otherwise null.
+ */
+export async function recordIterationFailure(
+  taskId: string,
+  category: TaskFailureCategory,
+  error: string,
+): Promise<string | null> {
+  "use step";
+
+  return recordTaskFailure(taskId, category, error);
+}
+
+/**
+ * Send an iteration's result to the task's delivery targets. Failed
+ * deliveries are recorded, never thrown, so they don't re-run the step.
+ */
+export async function deliverIterationResult(
+  taskId: string,
+  outcome: TaskIterationOutcome,
+): Promise<void> {
+  "use step";
+
+  try {
+    await deliverTaskResult(taskId, outcome);
+  } catch (error) {
+    console.error(`[Task ${taskId}] Result delivery failed:`, error);
+  }
+}
+
+/**
+ * Record tool calls that need the owner's approval and notify them.
+ * Returns the ISO deadline after which undecided calls are rejected.
+ */
+export async function requestToolApprovals(
+  taskId: string,
+  iteration: number,
+  pending: PendingToolApproval[],
+): Promise<string> {
+  "use step";
+
+  const expiresAt = await requestTaskApprovals(taskId, iteration, pending);
+  return expiresAt.toISOString();
+}
+
+/**
+ * Close approvals the owner didn't answer in time or that were cut short by
+ * a pause or stop.
+ */
+export async function closeToolApprovals(
+  taskId: string,
+  approvalIds: string[],
+  status: "rejected" | "expired",
+  reason: string,
+): Promise<void> {
+  "use step";
+
+  await closeTaskApprovals(taskId, approvalIds, status, reason);
+}
+
+/**
+ * Record a pipeline stage's iteration and fire the downstream stages that
+ * are ready. Returns the pipeline run the iteration belongs to, or null.
+ */
+export async function recordPipelineOutcome(
+  taskId: string,
+  result: IterationResult,
+  eventContext: TaskEventContext | null,
+): Promise<string | null> {
+  "use step";
+
+  try {
+    return await recordPipelineStage({
+      taskId,
+      status: result.status,
+      output: result.content,
+      result: result.structuredResult,
+      eventContext,
+    });
+  } catch (error) {
+    // A pipeline hiccup shouldn't take the task itself down
+    console.error(`[Task ${taskId}] Failed to record pipeline stage:`, error);
+    return null;
+  }
+}
+
 /**
  * Save a task log entry for a completed iteration.
  */
@@ -121,6 +310,7 @@ export async function saveTaskLog(
   content: string,
   status: "success" | "error",
   parts?: unknown,
+  pipelineRunId?: string | null,
 ): Promise<void> {
   "use step";
 
@@ -131,6 +321,7 @@ export async function saveTaskLog(
       content,
       status,
       parts: parts ? (parts as object) : undefined,
+      pipelineRunId: pipelineRunId ?? undefined,
     },
   });
 
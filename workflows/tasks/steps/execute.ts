@@ -1,20 +1,34 @@
-import { generateText, stepCountIs } from "ai";
+import { generateText, stepCountIs, type ModelMessage } from "ai";
 import prisma from "@/lib/prisma";
 import { getToolsForGroups } from "@/lib/tools";
 import { getSkillTools, getSkillConfigsFromEnv } from "@/lib/skills";
 import { createTwitterTools, refreshTwitterToken } from "@/lib/tools/twitter";
 import { createKnowledgeTools } from "@/lib/tools/knowledge";
+import { createTaskMemoryTools } from "@/lib/tools/taskMemory";
+import { createTaskPipelineTools } from "@/lib/tools/taskPipeline";
+import { createTaskDeliveryTools } from "@/lib/tools/taskDelivery";
+import { applyDryRun, type SimulatedToolCall } from "@/lib/tools/dryRun";
+import { createWalletTools } from "@/lib/tools/wallet";
+import {
+  buildTaskMemoryPrompt,
+  categorizeTaskError,
+  type PendingToolApproval,
+  type TaskFailureCategory,
+  type ToolApprovalDecision,
+} from "@/lib/tasks";
 import { safeDecrypt, encrypt } from "@/lib/utils/encryption";
 import { chargeForUsage } from "@/lib/x402";
 import { calculateCost } from "@/lib/x402/ai-gateway-cost";
 import type { BillingContext } from "@/lib/x402";
 import type { ToolMap } from "@/lib/tools/types";
+import { checkSpendingLimits, describeBreach } from "@/lib/spending";
 
 /** How a task decides when to fire the next iteration */
 export type TaskTriggerMode =
   | "interval" // sleep N ms between runs (default)
   | "event" // block until an external webhook event arrives
-  | "event-or-interval"; // race: run on whichever comes first
+  | "event-or-interval" // race: run on whichever comes first
+  | "cron"; // sleep until the next time the cron expression fires
 
 /** Event payload forwarded from an external webhook trigger */
 export interface TaskEventContext {
@@ -39,42 +53,147 @@ export interface TaskConfig {
   enabledSkills: string[];
   /** Determines what wakes the next iteration. Defaults to "interval". */
   triggerMode?: TaskTriggerMode;
+  /**
+   * Cron mode only: the schedule at creation time. The workflow re-reads the
+   * task's current cronExpression/timezone before each wait, so edits apply.
+   */
+  cronExpression?: string;
+  timezone?: string;
+}
+
+/** Continues an iteration that stopped for tool approvals */
+export interface IterationResume {
+  /** The conversation so far, ending with the approval requests */
+  messages: ModelMessage[];
+  decisions: ToolApprovalDecision[];
 }
 
 /** Result from a single task iteration */
 export interface IterationResult {
   content: string;
-  toolCalls: Array<{ name: string; args: unknown; result: unknown }>;
+  toolCalls: Array<{
+    name: string;
+    args: unknown;
+    result: unknown;
+    /** Dry run: the call was simulated, not executed */
+    simulated?: boolean;
+  }>;
   tokenUsage: { inputTokens: number; outputTokens: number };
   status: "success" | "error";
   error?: string;
+  /** Why the iteration failed (status "error" only) */
+  errorCategory?: TaskFailureCategory;
+  /** A spending limit was reached — the workflow should pause the task */
+  spendingLimitReached?: boolean;
+  /** Pipeline stages only: structured data passed to downstream stages */
+  structuredResult?: Record<string, unknown>;
+  /** Why the agent flagged the result as notable, if it did */
+  notable?: string;
+  /** The task ran dry: write-side tools were simulated */
+  dryRun?: boolean;
+  /** Dry run: the actions the simulated tools would have taken */
+  simulatedCalls?: SimulatedToolCall[];
+  /**
+   * Tool calls waiting for the owner's approval. The iteration is unfinished:
+   * resume it with the decisions and `messages`.
+   */
+  pendingApprovals?: PendingToolApproval[];
+  messages?: ModelMessage[];
+}
+
+/**
+ * Build the user prompt that starts an iteration: the task instruction,
+ * the triggering event (if any), and the task's memory.
+ */
+async function buildIterationPrompt(
+  config: TaskConfig,
+  iteration: number,
+  eventContext?: TaskEventContext,
+): Promise<string> {
+  let iterationPrompt = `[Task Iteration ${iteration}] ${config.taskPrompt}`;
+  if (eventContext) {
+    const eventLines = [
+      `\n\n--- Triggered by external event ---`,
+      `Source: ${eventContext.source}`,
+      `Event type: ${eventContext.eventType}`,
+      eventContext.occurredAt
+        ? `Occurred at: ${eventContext.occurredAt}`
+        : null,
+      eventContext.summary ? `Summary: ${eventContext.summary}` : null,
+      eventContext.payload
+        ? `Payload: ${JSON.stringify(eventContext.payload, null, 2)}`
+        : null,
+      `---`,
+    ]
+      .filter(Boolean)
+      .join("\n");
+    iterationPrompt += eventLines;
+  }
+
+  // Carry state over from earlier iterations
+  try {
+    iterationPrompt += await buildTaskMemoryPrompt(config.taskId);
+  } catch (error) {
+    console.error(`[Task ${config.taskId}] Failed to load memory:`, error);
+  }
+
+  return iterationPrompt;
 }
 
 /**
  * Execute a single iteration of a recurring task.
- * Loads tools, runs the AI agent, charges for usage, and returns the result.
+ * Loads tools and task memory, runs the AI agent, charges for usage, and
+ * returns the result.
  *
  * @param eventContext - When provided, the event data is prepended to the prompt
  *   so the agent knows what triggered this iteration.
+ * @param resume - Continue an iteration that stopped for tool approvals; the
+ *   approved calls run and the agent sees the rejections.
  */
 export async function executeIteration(
   config: TaskConfig,
   iteration: number,
   eventContext?: TaskEventContext,
+  resume?: IterationResume,
 ): Promise<IterationResult> {
   "use step";
 
+  const iterationStartedAt = new Date();
+  const spendingContext = {
+    userId: config.userId,
+    agentId: config.agentId,
+    taskId: config.taskId,
+    iterationStartedAt,
+  };
+
+  // Don't run (or bill) an iteration once a spending limit is reached
+  const preCheck = await checkSpendingLimits(spendingContext);
+  if (!preCheck.allowed && preCheck.breach) {
+    const message = describeBreach(preCheck.breach);
+    return {
+      content: `Skipped: ${message}`,
+      toolCalls: [],
+      tokenUsage: { inputTokens: 0, outputTokens: 0 },
+      status: "error",
+      error: message,
+      spendingLimitReached: true,
+    };
+  }
+
   try {
     // Build billing context for this task's user
+    const attribution = { taskId: config.taskId, agentId: config.agentId };
     const billingContext: BillingContext = {
       userId: config.userId,
       walletAddress: "",
+      attribution,
+      iterationStartedAt,
       chargeUsage: (usdCost, desc, meta) =>
         chargeForUsage(
           config.userId,
           usdCost,
           desc || `Task [${config.taskId}]`,
-          meta,
+          { ...attribution, ...meta },
         ),
       // Token payment not supported in automated task execution
       chargeUsageInToken: (usdCost, _tokenMint, _decimals, desc, meta) =>
@@ -82,18 +201,61 @@ export async function executeIteration(
           config.userId,
           usdCost,
           desc || `Task [${config.taskId}]`,
-          meta,
+          { ...attribution, ...meta },
         ),
     };
 
-    // Build tools from task configuration
-    const tools: ToolMap = {};
+    // Build tools from task configuration — every task gets its memory tools
+    const tools: ToolMap = createTaskMemoryTools(config.taskId);
+
+    // Read per-task settings that can change while the task runs
+    const taskSettings = await prisma.agentTask.findUnique({
+      where: { id: config.taskId },
+      select: {
+        pipelineId: true,
+        approvalRequiredTools: true,
+        dryRun: true,
+        _count: {
+          select: {
+            deliveryTargets: { where: { enabled: true, condition: "notable" } },
+          },
+        },
+      },
+    });
+
+    // Pipeline stages can also hand structured data to downstream stages
+    let structuredResult: Record<string, unknown> | undefined;
+    if (taskSettings?.pipelineId) {
+      Object.assign(
+        tools,
+        createTaskPipelineTools((result) => {
+          structuredResult = result;
+        }),
+      );
+    }
+
+    // A dry run doesn't bill tools' external API costs (inference still is)
+    const dryRun = taskSettings?.dryRun ?? false;
+    const toolBilling = dryRun ? undefined : billingContext;
+
+    // Tasks with notable-only delivery let the agent flag a result
+    let notable: string | undefined;
+    if (taskSettings?._count.deliveryTargets) {
+      Object.assign(
+        tools,
+        createTaskDeliveryTools((reason) => {
+          notable = reason;
+        }),
+      );
+    }
 
     // Add standard tool groups
     if (config.enabledToolGroups.length > 0) {
       const groupTools = getToolsForGroups(
-        config.enabledToolGroups.filter((g) => g !== "twitter"),
-        billingContext,
+        config.enabledToolGroups.filter(
+          (g) => g !== "twitter" && g !== "wallet",
+        ),
+        toolBilling,
       );
       Object.assign(tools, groupTools);
     }
@@ -167,7 +329,7 @@ export async function executeIteration(
           if (accessToken) {
             const twitterApiTools = createTwitterTools(
               accessToken,
-              billingContext,
+              toolBilling,
             );
             Object.assign(tools, twitterApiTools);
           }
@@ -186,7 +348,7 @@ export async function executeIteration(
         const knowledgeTools = createKnowledgeTools(
           config.userId,
           config.agentId,
-          billingContext,
+          toolBilling,
         );
         Object.assign(tools, knowledgeTools);
       } catch (error) {
@@ -197,25 +359,69 @@ export async function executeIteration(
       }
     }
 
-    // Build iteration prompt with optional event context
-    let iterationPrompt = `[Task Iteration ${iteration}] ${config.taskPrompt}`;
-    if (eventContext) {
-      const eventLines = [
-        `\n\n--- Triggered by external event ---`,
-        `Source: ${eventContext.source}`,
-        `Event type: ${eventContext.eventType}`,
-        eventContext.occurredAt
-          ? `Occurred at: ${eventContext.occurredAt}`
-          : null,
-        eventContext.summary ? `Summary: ${eventContext.summary}` : null,
-        eventContext.payload
-          ? `Payload: ${JSON.stringify(eventContext.payload, null, 2)}`
-          : null,
-        `---`,
-      ]
-        .filter(Boolean)
-        .join("\n");
-      iterationPrompt += eventLines;
+    // Add wallet tools if enabled — transfers always wait for approval
+    if (config.enabledToolGroups.includes("wallet")) {
+      try {
+        const walletUser = await prisma.user.findUnique({
+          where: { id: config.userId },
+          select: {
+            activeWallet: { select: { privyWalletId: true, address: true } },
+          },
+        });
+
+        if (walletUser?.activeWallet) {
+          Object.assign(
+            tools,
+            createWalletTools({
+              userId: config.userId,
+              walletId: walletUser.activeWallet.privyWalletId,
+              walletAddress: walletUser.activeWallet.address,
+              agentId: config.agentId,
+              billingContext: toolBilling,
+            }),
+          );
+        }
+      } catch (error) {
+        console.error(
+          `[Task ${config.taskId}] Failed to load wallet tools:`,
+          error,
+        );
+      }
+    }
+
+    // Hold the task's sensitive tools for the owner's approval
+    for (const name of taskSettings?.approvalRequiredTools ?? []) {
+      if (tools[name]) tools[name] = { ...tools[name], needsApproval: true };
+    }
+
+    // Dry run: swap write-side tools for simulated versions
+    const simulatedCalls: SimulatedToolCall[] = [];
+    const simulatedTools = dryRun
+      ? applyDryRun(tools, (call) => simulatedCalls.push(call))
+      : [];
+
+    // Start from the task prompt, or pick up where the owner's decisions left off
+    let messages: ModelMessage[];
+    if (resume) {
+      messages = [
+        ...resume.messages,
+        {
+          role: "tool",
+          content: resume.decisions.map((d) => ({
+            type: "tool-approval-response" as const,
+            approvalId: d.approvalId,
+            approved: d.approved,
+            reason: d.reason,
+          })),
+        },
+      ];
+    } else {
+      messages = [
+        {
+          role: "user",
+          content: await buildIterationPrompt(config, iteration, eventContext),
+        },
+      ];
     }
 
     // Use generateText (non-streaming) for background task execution
@@ -223,7 +429,7 @@ export async function executeIteration(
     const result = await generateText({
       model: config.model,
       system: config.systemPrompt,
-      messages: [{ role: "user", content: iterationPrompt }],
+      messages,
       tools: Object.keys(tools).length > 0 ? tools : undefined,
       stopWhen: stepCountIs(10), // Allow up to 10 tool call steps (read timeline + reply to multiple tweets)
     });
@@ -236,9 +442,41 @@ export async function executeIteration(
         args: (tc as any).args ?? (tc as any).input ?? {},
         result: step.toolResults.find((tr) => tr.toolCallId === tc.toolCallId)
           ?.output,
+        ...(simulatedTools.includes(tc.toolName) && { simulated: true }),
       })),
     );
 
+    // Tools report failure by throwing or by returning { success: false }.
+    // An iteration whose every tool call failed got nothing done.
+    const toolErrors = result.steps.flatMap((step) =>
+      step.content.flatMap((part) => {
+        if (part.type === "tool-error") {
+          const { error } = part;
+          return [
+            `${part.toolName}: ${error instanceof Error ? error.message : String(error)}`,
+          ];
+        }
+        if (part.type === "tool-result") {
+          const output = part.output as { success?: unknown; error?: unknown };
+          if (
+            output &&
+            typeof output === "object" &&
+            output.success === false
+          ) {
+            return [`${part.toolName}: ${String(output.error ?? "failed")}`];
+          }
+        }
+        return [];
+      }),
+    );
+    let failure: { error: string; category: TaskFailureCategory } | null =
+      toolCalls.length > 0 && toolErrors.length >= toolCalls.length
+        ? {
+            error: toolErrors[0],
+            category: categorizeTaskError(toolErrors[0], "tool"),
+          }
+        : null;
+
     // Bill for AI inference (same pattern as chat route)
     const usage = result.usage;
     try {
@@ -253,6 +491,7 @@ export async function executeIteration(
           costResult.totalWithFee,
           `Task [${config.taskId}] Iteration ${iteration} - ${config.model} - ${(usage.inputTokens ?? 0) + (usage.outputTokens ?? 0)} tokens`,
           {
+            ...attribution,
             model: config.model,
             inputTokens: usage.inputTokens ?? 0,
             outputTokens: usage.outputTokens ?? 0,
@@ -262,12 +501,38 @@ export async function executeIteration(
           console.error(
             `[Task ${config.taskId}] Billing failed: ${billingResult.error}`,
           );
+          // An unfunded account fails the iteration so repeats pause the task
+          if (categorizeTaskError(billingResult.error) === "billing") {
+            failure = {
+              error: `Billing failed: ${billingResult.error}`,
+              category: "billing",
+            };
+          }
         }
       }
     } catch (error) {
       console.error(`[Task ${config.taskId}] Billing error:`, error);
     }
 
+    // This iteration may have pushed spend over a limit — flag it so the
+    // workflow pauses before the next run rather than after it
+    const postCheck = await checkSpendingLimits(spendingContext);
+
+    // Calls to tools that need approval stop the run before executing
+    const pendingApprovals: PendingToolApproval[] = result.content.flatMap(
+      (part) =>
+        part.type === "tool-approval-request"
+          ? [
+              {
+                approvalId: part.approvalId,
+                toolCallId: part.toolCall.toolCallId,
+                toolName: part.toolCall.toolName,
+                input: part.toolCall.input,
+              },
+            ]
+          : [],
+    );
+
     return {
       content: result.text || "(No text response)",
       toolCalls,
@@ -275,7 +540,21 @@ export async function executeIteration(
         inputTokens: usage.inputTokens ?? 0,
         outputTokens: usage.outputTokens ?? 0,
       },
-      status: "success",
+      status: failure ? "error" : "success",
+      ...(failure && { error: failure.error, errorCategory: failure.category }),
+      ...(structuredResult && { structuredResult }),
+      ...(notable && { notable }),
+      ...(dryRun && { dryRun }),
+      ...(simulatedCalls.length > 0 && { simulatedCalls }),
+      ...(pendingApprovals.length > 0 && {
+        pendingApprovals,
+        messages: [...messages, ...result.response.messages],
+      }),
+      ...(!postCheck.allowed &&
+        postCheck.breach && {
+          error: describeBreach(postCheck.breach),
+          spendingLimitReached: true,
+        }),
     };
   } catch (error) {
     const errorMessage =
@@ -291,6 +570,7 @@ export async function executeIteration(
       tokenUsage: { inputTokens: 0, outputTokens: 0 },
       status: "error",
       error: errorMessage,
+      errorCategory: categorizeTaskError(error),
     };
   }
 }
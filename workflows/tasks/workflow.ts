@@ -1,9 +1,16 @@
 import { sleep } from "workflow";
 
+import type {
+  PendingToolApproval,
+  ToolApprovalDecision,
+} from "@/lib/tasks/constants";
+import { getRetryDelay, isRetryableFailure } from "@/lib/tasks/failure-policy";
+import { taskApprovalHook, taskApprovalToken } from "./hooks/taskApproval";
 import { taskControlHook } from "./hooks/taskControl";
 import { taskEventHook } from "./hooks/taskEvent";
 import {
   executeIteration,
+  type IterationResult,
   type TaskConfig,
   type TaskEventContext,
 } from "./steps/execute";
@@ -14,22 +21,234 @@ import {
   markTaskStopped,
   markTaskPaused,
   markTaskRunning,
+  markTaskFailed,
+  requestTaskPause,
+  scheduleNextCronRun,
+  getTaskRetryPolicy,
+  recordIterationFailure,
+  recordPipelineOutcome,
+  requestToolApprovals,
+  closeToolApprovals,
   saveTaskLog,
+  deliverIterationResult,
 } from "./steps/db";
 
+type ApprovalHook = ReturnType<typeof taskApprovalHook.create>;
+type ControlHook = ReturnType<typeof taskControlHook.create>;
+
+type DecidedApproval = ToolApprovalDecision & { toolName: string };
+
+interface IterationRun {
+  result: IterationResult;
+  approvals: DecidedApproval[];
+  /** A pause or stop that arrived while the iteration was waiting */
+  interruptedBy: "stop" | "pause" | null;
+}
+
+/**
+ * Record pending tool calls, then wait until the owner has decided each one.
+ * Calls left undecided at the deadline, or when the task is paused or
+ * stopped, are rejected.
+ */
+async function awaitApprovalDecisions(
+  taskId: string,
+  iteration: number,
+  pending: PendingToolApproval[],
+  approvalHook: ApprovalHook,
+  controlHook: ControlHook,
+): Promise<{
+  decisions: DecidedApproval[];
+  interruptedBy: "stop" | "pause" | null;
+}> {
+  const expiresAt = await requestToolApprovals(taskId, iteration, pending);
+  const deadline = sleep(new Date(expiresAt)).then(() => ({
+    kind: "deadline" as const,
+  }));
+
+  const decided = new Map<string, ToolApprovalDecision>();
+  let interruptedBy: "stop" | "pause" | null = null;
+
+  while (decided.size < pending.length) {
+    const outcome = await Promise.race([
+      approvalHook.then((d) => ({ kind: "decision" as const, decision: d })),
+      deadline,
+      controlHook.then((s) => ({ kind: "control" as const, signal: s })),
+    ]);
+
+    if (outcome.kind === "decision") {
+      const { decision } = outcome;
+      if (pending.some((p) => p.approvalId === decision.approvalId)) {
+        decided.set(decision.approvalId, decision);
+      }
+      continue;
+    }
+
+    if (outcome.kind === "control") {
+      // Resume and reschedule don't apply while an iteration is in flight
+      const { action } = outcome.signal;
+      if (action !== "stop" && action !== "pause") continue;
+      interruptedBy = action;
+    }
+
+    const reason =
+      outcome.kind === "deadline"
+        ? "No decision before the approval deadline"
+        : `Task was ${interruptedBy === "stop" ? "stopped" : "paused"} while waiting for approval`;
+    const undecided = pending
+      .map((p) => p.approvalId)
+      .filter((id) => !decided.has(id));
+    await closeToolApprovals(
+      taskId,
+      undecided,
+      outcome.kind === "deadline" ? "expired" : "rejected",
+      reason,
+    );
+    for (const approvalId of undecided) {
+      decided.set(approvalId, { approvalId, approved: false, reason });
+    }
+    break;
+  }
+
+  return {
+    decisions: pending.map((p) => ({
+      ...decided.get(p.approvalId)!,
+      toolName: p.toolName,
+    })),
+    interruptedBy,
+  };
+}
+
+/** Combine the rounds of an iteration that stopped for approvals */
+function mergeIterationResults(
+  first: IterationResult,
+  next: IterationResult,
+): IterationResult {
+  return {
+    ...next,
+    toolCalls: [...first.toolCalls, ...next.toolCalls],
+    tokenUsage: {
+      inputTokens: first.tokenUsage.inputTokens + next.tokenUsage.inputTokens,
+      outputTokens:
+        first.tokenUsage.outputTokens + next.tokenUsage.outputTokens,
+    },
+    spendingLimitReached:
+      first.spendingLimitReached || next.spendingLimitReached,
+    structuredResult: next.structuredResult ?? first.structuredResult,
+    notable: next.notable ?? first.notable,
+    simulatedCalls: [
+      ...(first.simulatedCalls ?? []),
+      ...(next.simulatedCalls ?? []),
+    ],
+  };
+}
+
+/**
+ * Run one attempt at an iteration. Sensitive tool calls wait for the owner,
+ * then the iteration resumes with their decisions. A pause or stop while
+ * waiting ends it early.
+ */
+async function runIteration(
+  config: TaskConfig,
+  iteration: number,
+  eventContext: TaskEventContext | null,
+  approvalHook: ApprovalHook,
+  controlHook: ControlHook,
+): Promise<IterationRun> {
+  let result = await executeIteration(
+    config,
+    iteration,
+    eventContext ?? undefined,
+  );
+
+  const approvals: DecidedApproval[] = [];
+  let interruptedBy: "stop" | "pause" | null = null;
+  while (result.pendingApprovals && result.messages) {
+    const outcome = await awaitApprovalDecisions(
+      config.taskId,
+      iteration,
+      result.pendingApprovals,
+      approvalHook,
+      controlHook,
+    );
+    approvals.push(...outcome.decisions);
+    interruptedBy = outcome.interruptedBy;
+    if (interruptedBy) {
+      result = {
+        ...result,
+        pendingApprovals: undefined,
+        messages: undefined,
+      };
+      break;
+    }
+
+    const resumed = await executeIteration(
+      config,
+      iteration,
+      eventContext ?? undefined,
+      { messages: result.messages, decisions: outcome.decisions },
+    );
+    result = mergeIterationResults(result, resumed);
+  }
+
+  return { result, approvals, interruptedBy };
+}
+
+/**
+ * Wait out the backoff before retrying a failed iteration. Returns the
+ * pause or stop that cut the wait short, if any.
+ */
+async function awaitRetryBackoff(
+  delayMs: number,
+  controlHook: ControlHook,
+): Promise<"stop" | "pause" | null> {
+  const backoff = sleep(delayMs).then(() => ({ kind: "elapsed" as const }));
+
+  while (true) {
+    const outcome = await Promise.race([
+      backoff,
+      controlHook.then((s) => ({ kind: "control" as const, signal: s })),
+    ]);
+    if (outcome.kind === "elapsed") return null;
+
+    // Resume and reschedule don't apply while an iteration is in flight
+    const { action } = outcome.signal;
+    if (action === "stop" || action === "pause") return action;
+  }
+}
+
 /**
  * Recurring Task Workflow
  *
  * A durable workflow that repeatedly executes an AI agent task.
- * Supports three trigger modes:
+ * Supports four trigger modes:
  *
  * - "interval": sleeps N ms between iterations (default).
  * - "event": blocks until an external webhook fires taskEventHook, then runs.
  * - "event-or-interval": races between an incoming event and a timeout —
  *     whichever arrives first triggers the next iteration.
+ * - "cron": sleeps until the next time the task's cron expression fires in
+ *     its timezone. A "reschedule" control signal recomputes the wait.
  *
- * All modes support pause, resume, and stop via taskControlHook.
+ * All modes support pause, resume, and stop via taskControlHook. Tasks that
+ * reach a spending limit pause themselves through the same hook.
  * Event context (source, payload, summary) is injected into the agent prompt.
+ *
+ * Tasks that are pipeline stages report each iteration to their pipeline
+ * run, which fires the taskEventHook of the stages downstream.
+ *
+ * Calls to tools in the task's approval policy (and wallet transfers) stop
+ * the iteration until the owner decides on taskApprovalHook; the iteration
+ * then resumes with the approved calls executed.
+ *
+ * A failed iteration is retried with exponential backoff per the task's
+ * retry policy (auth and billing failures aren't). Once the task's failure
+ * threshold is reached in a row, it pauses itself with a categorized reason.
+ *
+ * Each iteration's result goes to the task's delivery targets (email, SMS,
+ * webhook) whose condition it meets: always, on error, or when flagged notable.
+ *
+ * A task in dry-run mode runs with its write-side tools simulated; the log
+ * records what each would have done.
  */
 export async function recurringTaskWorkflow(
   config: TaskConfig,
@@ -38,9 +257,12 @@ export async function recurringTaskWorkflow(
 
   const triggerMode = config.triggerMode ?? "interval";
 
-  // Create both hooks with taskId as deterministic token
+  // Create the hooks with deterministic tokens derived from taskId
   const controlHook = taskControlHook.create({ token: config.taskId });
   const eventHook = taskEventHook.create({ token: config.taskId });
+  const approvalHook = taskApprovalHook.create({
+    token: taskApprovalToken(config.taskId),
+  });
 
   let iteration = 0;
   let running = true;
@@ -106,25 +328,148 @@ export async function recurringTaskWorkflow(
       }
 
       eventContext = outcome.kind === "event" ? outcome.event : null;
+    } else if (triggerMode === "cron") {
+      // Sleep until the next fire time, staying responsive to control signals
+      const nextRunAt = await scheduleNextCronRun(config.taskId);
+      if (!nextRunAt) {
+        await markTaskFailed(config.taskId, "Invalid cron schedule");
+        break;
+      }
+
+      const outcome = await Promise.race([
+        sleep(new Date(nextRunAt)).then(() => ({ kind: "scheduled" as const })),
+        controlHook.then((s) => ({ kind: "control" as const, signal: s })),
+      ]);
+
+      if (outcome.kind === "control") {
+        if (outcome.signal.action === "stop") {
+          await markTaskStopped(config.taskId);
+          break;
+        }
+        if (outcome.signal.action === "pause") {
+          await markTaskPaused(config.taskId);
+          // Schedule edits while paused are picked up when the loop resumes
+          let resumeSignal = await controlHook;
+          while (resumeSignal.action === "reschedule") {
+            resumeSignal = await controlHook;
+          }
+          if (resumeSignal.action === "stop") {
+            await markTaskStopped(config.taskId);
+            break;
+          }
+          await markTaskRunning(config.taskId);
+        }
+        // Paused, rescheduled, or a stray resume — recompute the next fire time
+        iteration--;
+        continue;
+      }
     }
     // For "interval" mode, eventContext stays null and sleep happens after.
 
     // Execute the AI task iteration (with optional event context in prompt)
-    const result = await executeIteration(
+    const run = await runIteration(
       config,
       iteration,
-      eventContext ?? undefined,
+      eventContext,
+      approvalHook,
+      controlHook,
+    );
+    let { result, interruptedBy } = run;
+    const { approvals } = run;
+    let interruptedWhile = "awaiting approval";
+
+    // Retry a failed iteration with backoff. Spending-limit skips aren't
+    // failures, and auth/billing failures need the owner, not another try.
+    let attempts = 1;
+    const shouldRetry = () =>
+      result.status === "error" &&
+      !result.spendingLimitReached &&
+      !interruptedBy &&
+      isRetryableFailure(result.errorCategory ?? "unknown");
+    if (shouldRetry()) {
+      const policy = await getTaskRetryPolicy(config.taskId);
+      while (shouldRetry() && attempts <= policy.maxRetries) {
+        interruptedBy = await awaitRetryBackoff(
+          getRetryDelay(policy.retryBackoffMs, attempts),
+          controlHook,
+        );
+        if (interruptedBy) {
+          interruptedWhile = "waiting to retry a failed iteration";
+          break;
+        }
+
+        attempts++;
+        const retry = await runIteration(
+          config,
+          iteration,
+          eventContext,
+          approvalHook,
+          controlHook,
+        );
+        result = retry.result;
+        approvals.push(...retry.approvals);
+        interruptedBy = retry.interruptedBy;
+      }
+    }
+
+    // Hand the outcome to the task's pipeline, if any
+    const pipelineRunId = await recordPipelineOutcome(
+      config.taskId,
+      result,
+      eventContext,
     );
 
     // Save iteration result to DB
-    await saveTaskLog(config.taskId, iteration, result.content, result.status, {
-      toolCalls: result.toolCalls,
-      tokenUsage: result.tokenUsage,
+    await saveTaskLog(
+      config.taskId,
+      iteration,
+      result.content,
+      result.status,
+      {
+        toolCalls: result.toolCalls,
+        tokenUsage: result.tokenUsage,
+        error: result.error,
+        ...(result.errorCategory && { errorCategory: result.errorCategory }),
+        ...(attempts > 1 && { attempts }),
+        ...(result.structuredResult && {
+          structuredResult: result.structuredResult,
+        }),
+        ...(result.notable && { notable: result.notable }),
+        ...(result.dryRun && {
+          dryRun: true,
+          simulated: result.simulatedCalls ?? [],
+        }),
+        ...(approvals.length > 0 && {
+          approvals: approvals.map(({ toolName, approved, reason }) => ({
+            toolName,
+            approved,
+            reason,
+          })),
+        }),
+      },
+      pipelineRunId,
+    );
+
+    // Send the result to the task's delivery targets whose condition it meets
+    await deliverIterationResult(config.taskId, {
+      iteration,
+      status: result.status,
+      content: result.content,
       error: result.error,
+      notable: result.notable,
     });
 
     // Update progress
-    await updateTaskProgress(config.taskId, iteration);
+    await updateTaskProgress(
+      config.taskId,
+      iteration,
+      result.status === "success",
+    );
+
+    if (interruptedBy === "stop") {
+      await markTaskStopped(config.taskId);
+      break;
+    }
 
     // Check if we've hit max iterations
     if (config.maxIterations && iteration >= config.maxIterations) {
@@ -132,10 +477,33 @@ export async function recurringTaskWorkflow(
       break;
     }
 
-    if (result.status === "error") {
+    // A pause that arrived mid-iteration was consumed by the wait it
+    // interrupted — re-send it
+    let pauseReason =
+      interruptedBy === "pause" ? `Paused while ${interruptedWhile}` : null;
+
+    // Spending limit reached — pause before the next run
+    if (result.spendingLimitReached && !pauseReason) {
+      pauseReason = result.error ?? "Spending limit reached";
+    }
+
+    if (result.status === "error" && !result.spendingLimitReached) {
       console.warn(
-        `[Task ${config.taskId}] Iteration ${iteration} failed: ${result.error}`,
+        `[Task ${config.taskId}] Iteration ${iteration} failed after ${attempts} attempt${attempts !== 1 ? "s" : ""}: ${result.error}`,
       );
+      // Too many failures in a row — pause until the owner steps in
+      const failurePause = await recordIterationFailure(
+        config.taskId,
+        result.errorCategory ?? "unknown",
+        result.error ?? "Unknown error",
+      );
+      pauseReason ??= failurePause;
+    }
+
+    // The pause signal is picked up by the control race below (interval) or
+    // at the top of the next loop (event/cron modes)
+    if (pauseReason) {
+      await requestTaskPause(config.taskId, pauseReason);
     }
 
     // ── Interval mode: sleep then check for control signals ────────────────
@@ -167,8 +535,8 @@ export async function recurringTaskWorkflow(
         }
       }
     }
-    // Event modes loop back immediately — the hook at the top of the loop
-    // is what provides the "wait" before the next iteration.
+    // Event and cron modes loop back immediately — the wait at the top of
+    // the loop is what comes before the next iteration.
   }
 
   return { taskId: config.taskId, iterations: iteration };